@@ -0,0 +1,96 @@
+import { jsonResponse, type SyncEnv } from './sync'
+
+/**
+ * Owner of every row written before multi-user support (migration 0004).
+ * The shared ARGFOLIO_SYNC_TOKEN keeps resolving to this user and acts as admin.
+ */
+export const LEGACY_USER_ID = 'default'
+
+export interface SyncUser {
+    id: string
+    name: string
+    isAdmin: boolean
+}
+
+/** Request-scoped data set by the auth middleware (`context.data`) */
+export interface SyncData extends Record<string, unknown> {
+    user: SyncUser
+}
+
+export function extractBearerToken(authorizationHeader: string | null): string | null {
+    if (!authorizationHeader) return null
+    const [scheme, token] = authorizationHeader.trim().split(/\s+/, 2)
+    if (!scheme || !token) return null
+    if (scheme.toLowerCase() !== 'bearer') return null
+    const normalized = token.trim()
+    return normalized.length > 0 ? normalized : null
+}
+
+/**
+ * Tokens are stored as SHA-256 hex digests; the plain token is only shown once on creation.
+ */
+export async function hashToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+    return Array.from(new Uint8Array(digest))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('')
+}
+
+export function generateToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32))
+    return btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '')
+}
+
+function getAdminToken(env: SyncEnv): string {
+    return (env.ARGFOLIO_SYNC_TOKEN ?? '').trim()
+}
+
+export async function resolveSyncUser(env: SyncEnv, token: string): Promise<SyncUser | null> {
+    const adminToken = getAdminToken(env)
+    if (adminToken.length > 0 && token === adminToken) {
+        return { id: LEGACY_USER_ID, name: LEGACY_USER_ID, isAdmin: true }
+    }
+
+    if (!env.DB) return null
+
+    try {
+        const row = await env.DB.prepare(
+            'SELECT id, name FROM sync_users WHERE token_hash = ?1 AND revoked_at IS NULL LIMIT 1'
+        ).bind(await hashToken(token)).first<{ id: string; name: string }>()
+        return row ? { id: row.id, name: row.name, isAdmin: false } : null
+    } catch (error: any) {
+        // sync_users missing (migration 0004 not applied) => only the admin token works
+        console.warn('[sync/auth] user lookup failed', { error: error?.message || 'unknown_error' })
+        return null
+    }
+}
+
+/**
+ * Resolve the caller from the Authorization header.
+ * Returns the user, or a 401 response ready to be returned by the handler.
+ */
+export async function authenticateRequest(request: Request, env: SyncEnv): Promise<SyncUser | Response> {
+    const receivedToken = extractBearerToken(request.headers.get('Authorization'))
+
+    if (getAdminToken(env).length === 0 && !env.DB) {
+        return jsonResponse({
+            error: 'Unauthorized',
+            details: 'Sync token not configured.',
+            hint: 'Set ARGFOLIO_SYNC_TOKEN in Cloudflare Pages secrets.',
+        }, 401)
+    }
+
+    const user = receivedToken ? await resolveSyncUser(env, receivedToken) : null
+    if (!user) {
+        return jsonResponse({
+            error: 'Unauthorized',
+            details: 'Missing or invalid bearer token.',
+            hint: 'Send Authorization: Bearer <token personal o ARGFOLIO_SYNC_TOKEN>.',
+        }, 401)
+    }
+
+    return user
+}
@@ -11,7 +11,7 @@ export function corsHeaders() {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-Match, X-Argfolio-Device',
     }
 }
 
@@ -44,21 +44,58 @@ export async function parseJsonBody<T>(request: Request): Promise<T> {
     return request.json() as Promise<T>
 }
 
+async function getColumns(db: D1Database, table: string): Promise<string[]> {
+    const result = await db.prepare(`PRAGMA table_info(${table})`).all<{ name: string }>()
+    return (result?.results ?? []).map((column) => column.name)
+}
+
+/**
+ * Tables are keyed by (user_id, id) since migration 0004 and carry version/tombstone
+ * columns since 0005. An older database must be migrated explicitly: rebuilding
+ * tables here could race with `wrangler d1 migrations apply`.
+ */
+async function assertSchemaColumns(db: D1Database): Promise<void> {
+    const columns = await getColumns(db, 'accounts')
+    if (columns.length === 0) return
+    if (!columns.includes('user_id')) {
+        throw new Error('Legacy sync schema without user_id. Apply migrations/0004_multi_user.sql (wrangler d1 migrations apply).')
+    }
+    if (!columns.includes('version')) {
+        throw new Error('Sync schema without record versions. Apply migrations/0005_sync_versions.sql (wrangler d1 migrations apply).')
+    }
+}
+
 export async function ensureSyncSchema(db: D1Database): Promise<void> {
+    await assertSchemaColumns(db)
+
     const statements: Array<D1PreparedStatement | null | undefined> = [
         db.prepare(`
-CREATE TABLE IF NOT EXISTS accounts (
+CREATE TABLE IF NOT EXISTS sync_users (
   id TEXT PRIMARY KEY,
   name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL,
+  revoked_at TEXT
+)`),
+        db.prepare(`
+CREATE TABLE IF NOT EXISTS accounts (
+  user_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
   type TEXT NOT NULL,
   currency TEXT NOT NULL,
   payload_json TEXT NOT NULL,
   created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  deleted_at TEXT,
+  updated_by TEXT,
+  PRIMARY KEY (user_id, id)
 )`),
         db.prepare(`
 CREATE TABLE IF NOT EXISTS movements (
-  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
   account_id TEXT NOT NULL,
   instrument_id TEXT,
   date TEXT NOT NULL,
@@ -69,31 +106,86 @@ CREATE TABLE IF NOT EXISTS movements (
   meta_json TEXT,
   payload_json TEXT NOT NULL,
   created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  deleted_at TEXT,
+  updated_by TEXT,
+  PRIMARY KEY (user_id, id)
 )`),
-        db.prepare('CREATE INDEX IF NOT EXISTS idx_movements_account_date ON movements(account_id, date DESC)'),
-        db.prepare('CREATE INDEX IF NOT EXISTS idx_movements_date ON movements(date DESC)'),
+        db.prepare('CREATE INDEX IF NOT EXISTS idx_movements_user_account_date ON movements(user_id, account_id, date DESC)'),
+        db.prepare('CREATE INDEX IF NOT EXISTS idx_movements_user_date ON movements(user_id, date DESC)'),
+        db.prepare('CREATE INDEX IF NOT EXISTS idx_movements_user_updated ON movements(user_id, updated_at)'),
+        db.prepare('CREATE INDEX IF NOT EXISTS idx_accounts_user_updated ON accounts(user_id, updated_at)'),
         db.prepare(`
 CREATE TABLE IF NOT EXISTS instruments (
-  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
   symbol TEXT NOT NULL,
   category TEXT NOT NULL,
   currency TEXT NOT NULL,
   payload_json TEXT NOT NULL,
   created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  deleted_at TEXT,
+  updated_by TEXT,
+  PRIMARY KEY (user_id, id)
 )`),
+        db.prepare('CREATE INDEX IF NOT EXISTS idx_instruments_user_updated ON instruments(user_id, updated_at)'),
+        db.prepare(`
+CREATE TABLE IF NOT EXISTS price_alerts (
+  user_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
+  payload_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  deleted_at TEXT,
+  updated_by TEXT,
+  PRIMARY KEY (user_id, id)
+)`),
+        db.prepare('CREATE INDEX IF NOT EXISTS idx_price_alerts_user_updated ON price_alerts(user_id, updated_at)'),
+        db.prepare(`
+CREATE TABLE IF NOT EXISTS account_settings (
+  user_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
+  payload_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  deleted_at TEXT,
+  updated_by TEXT,
+  PRIMARY KEY (user_id, id)
+)`),
+        db.prepare('CREATE INDEX IF NOT EXISTS idx_account_settings_user_updated ON account_settings(user_id, updated_at)'),
+        db.prepare(`
+CREATE TABLE IF NOT EXISTS sync_changes (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  entity TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  op TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  device_id TEXT,
+  changed_at TEXT NOT NULL
+)`),
+        db.prepare('CREATE INDEX IF NOT EXISTS idx_sync_changes_user_changed ON sync_changes(user_id, changed_at)'),
+        db.prepare('CREATE INDEX IF NOT EXISTS idx_sync_changes_user_entity ON sync_changes(user_id, entity, entity_id)'),
         db.prepare(`
 CREATE TABLE IF NOT EXISTS snapshots (
-  date TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL DEFAULT 'default',
+  date TEXT NOT NULL,
   payload_json TEXT NOT NULL,
-  updated_at INTEGER
+  updated_at INTEGER,
+  PRIMARY KEY (user_id, date)
 )`),
         db.prepare(`
 CREATE TABLE IF NOT EXISTS finance_express_data (
-  id TEXT PRIMARY KEY DEFAULT 'default',
+  user_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL DEFAULT 'default',
   data TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (user_id, id)
 )`),
     ]
 
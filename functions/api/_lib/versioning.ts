@@ -0,0 +1,169 @@
+export type SyncEntity = 'accounts' | 'movements' | 'instruments' | 'priceAlerts' | 'accountSettings'
+
+export const SYNC_ENTITIES: SyncEntity[] = ['accounts', 'movements', 'instruments', 'priceAlerts', 'accountSettings']
+
+/** D1 table holding each entity (entity names follow the client's Dexie tables) */
+export const SYNC_TABLES: Record<SyncEntity, string> = {
+    accounts: 'accounts',
+    movements: 'movements',
+    instruments: 'instruments',
+    priceAlerts: 'price_alerts',
+    accountSettings: 'account_settings',
+}
+
+export const DEVICE_HEADER = 'X-Argfolio-Device'
+
+/**
+ * Pull cursors trail server time so writes whose `updated_at` was taken before a
+ * read but committed after it are picked up by the next pull. Clients treat
+ * re-delivered records (same version) as no-ops.
+ */
+const CURSOR_OVERLAP_MS = 60_000
+
+/** D1 caps bound parameters per statement; keep IN (...) lists well below it. */
+const ID_CHUNK_SIZE = 50
+
+export interface VersionedRow {
+    id: string
+    version: number
+    deleted_at: string | null
+    updated_at: string
+    updated_by: string | null
+    payload_json: string
+}
+
+export interface SyncConflict {
+    entity: SyncEntity
+    id: string
+    baseVersion: number
+    serverVersion: number
+    serverUpdatedAt: string
+    serverUpdatedBy: string | null
+    serverDeleted: boolean
+    server: unknown | null
+}
+
+export function isSyncEntity(value: unknown): value is SyncEntity {
+    return typeof value === 'string' && (SYNC_ENTITIES as string[]).includes(value)
+}
+
+export function getDeviceId(request: Request): string | null {
+    const raw = (request.headers.get(DEVICE_HEADER) ?? '').trim()
+    return raw.length > 0 ? raw.slice(0, 64) : null
+}
+
+/**
+ * Base version sent by the client as `If-Match: <version>` (quotes allowed).
+ * Missing header => legacy last-writer-wins write.
+ */
+export function parseIfMatchVersion(request: Request): number | undefined {
+    const raw = (request.headers.get('If-Match') ?? '').trim().replace(/^W\//, '').replace(/"/g, '')
+    if (!raw) return undefined
+    const parsed = Number(raw)
+    return Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+export function toPullCursor(serverTimeMs: number): string {
+    return new Date(serverTimeMs - CURSOR_OVERLAP_MS).toISOString()
+}
+
+export function parsePayload(row: { payload_json: string }): unknown | null {
+    try {
+        return JSON.parse(row.payload_json)
+    } catch {
+        return null
+    }
+}
+
+export async function readVersionedRows(
+    db: D1Database,
+    entity: SyncEntity,
+    userId: string,
+    ids: string[]
+): Promise<Map<string, VersionedRow>> {
+    const rows = new Map<string, VersionedRow>()
+    const uniqueIds = Array.from(new Set(ids))
+
+    for (let index = 0; index < uniqueIds.length; index += ID_CHUNK_SIZE) {
+        const chunk = uniqueIds.slice(index, index + ID_CHUNK_SIZE)
+        const placeholders = chunk.map((_, i) => `?${i + 2}`).join(', ')
+        const result = await db.prepare(`
+SELECT id, version, deleted_at, updated_at, updated_by, payload_json
+FROM ${SYNC_TABLES[entity]}
+WHERE user_id = ?1 AND id IN (${placeholders})
+`).bind(userId, ...chunk).all<VersionedRow>()
+
+        for (const row of result?.results ?? []) {
+            rows.set(row.id, row)
+        }
+    }
+
+    return rows
+}
+
+/**
+ * A write conflicts when the server row moved past the version the client last saw.
+ * Re-sending the same payload (retry after a lost response) is not a conflict.
+ * `incomingJson` is null for deletions.
+ */
+export function detectConflict(
+    entity: SyncEntity,
+    id: string,
+    baseVersion: number | undefined,
+    incomingJson: string | null,
+    current: VersionedRow | undefined
+): SyncConflict | null {
+    if (baseVersion == null || !current) return null
+    if (current.version <= baseVersion) return null
+
+    const serverDeleted = current.deleted_at != null
+    if (incomingJson == null && serverDeleted) return null
+    if (incomingJson != null && !serverDeleted && incomingJson === current.payload_json) return null
+
+    return {
+        entity,
+        id,
+        baseVersion,
+        serverVersion: current.version,
+        serverUpdatedAt: current.updated_at,
+        serverUpdatedBy: current.updated_by,
+        serverDeleted,
+        server: serverDeleted ? null : parsePayload(current),
+    }
+}
+
+export function nextVersion(current: VersionedRow | undefined): number {
+    return (current?.version ?? 0) + 1
+}
+
+export function buildTombstoneStatement(
+    db: D1Database,
+    entity: SyncEntity,
+    userId: string,
+    id: string,
+    version: number,
+    deviceId: string | null,
+    now: string
+): D1PreparedStatement {
+    return db.prepare(`
+UPDATE ${SYNC_TABLES[entity]}
+SET deleted_at = ?3, updated_at = ?3, version = ?4, updated_by = ?5
+WHERE user_id = ?1 AND id = ?2
+`).bind(userId, id, now, version, deviceId)
+}
+
+export function buildChangeLogStatement(
+    db: D1Database,
+    userId: string,
+    entity: SyncEntity,
+    id: string,
+    op: 'upsert' | 'delete',
+    version: number,
+    deviceId: string | null,
+    now: string
+): D1PreparedStatement {
+    return db.prepare(`
+INSERT INTO sync_changes (user_id, entity, entity_id, op, version, device_id, changed_at)
+VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)
+`).bind(userId, entity, id, op, version, deviceId, now)
+}
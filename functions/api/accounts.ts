@@ -8,6 +8,16 @@ import {
     parseJsonBody,
     type SyncEnv,
 } from './_lib/sync'
+import { authenticateRequest } from './_lib/auth'
+import {
+    buildChangeLogStatement,
+    buildTombstoneStatement,
+    detectConflict,
+    getDeviceId,
+    nextVersion,
+    parseIfMatchVersion,
+    readVersionedRows,
+} from './_lib/versioning'
 
 interface AccountPayload {
     id: string
@@ -20,17 +30,26 @@ function toIsoNow(): string {
     return new Date().toISOString()
 }
 
-async function upsertAccount(db: D1Database, account: AccountPayload): Promise<void> {
-    const now = toIsoNow()
-    await db.prepare(`
-INSERT INTO accounts (id, name, type, currency, payload_json, created_at, updated_at)
-VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)
-ON CONFLICT(id) DO UPDATE SET
+function buildUpsertAccount(
+    db: D1Database,
+    userId: string,
+    account: AccountPayload,
+    version: number,
+    deviceId: string | null,
+    now: string
+): D1PreparedStatement {
+    return db.prepare(`
+INSERT INTO accounts (id, name, type, currency, payload_json, created_at, updated_at, user_id, version, deleted_at, updated_by)
+VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, NULL, ?10)
+ON CONFLICT(user_id, id) DO UPDATE SET
   name = excluded.name,
   type = excluded.type,
   currency = excluded.currency,
   payload_json = excluded.payload_json,
-  updated_at = excluded.updated_at
+  updated_at = excluded.updated_at,
+  version = excluded.version,
+  deleted_at = NULL,
+  updated_by = excluded.updated_by
 `)
         .bind(
             account.id,
@@ -39,9 +58,11 @@ ON CONFLICT(id) DO UPDATE SET
             account.defaultCurrency,
             JSON.stringify(account),
             now,
-            now
+            now,
+            userId,
+            version,
+            deviceId
         )
-        .run()
 }
 
 export const onRequest: PagesFunction<SyncEnv> = async (context) => {
@@ -50,13 +71,19 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
         return optionsResponse()
     }
 
+    const user = await authenticateRequest(context.request, context.env)
+    if (user instanceof Response) {
+        return user
+    }
+
     try {
         const db = getDatabase(context.env)
         await ensureSyncSchema(db)
 
         if (method === 'GET') {
             const result = await db
-                .prepare('SELECT payload_json FROM accounts ORDER BY updated_at DESC')
+                .prepare('SELECT payload_json FROM accounts WHERE user_id = ?1 AND deleted_at IS NULL ORDER BY updated_at DESC')
+                .bind(user.id)
                 .all<{ payload_json: string }>()
 
             const rows = (result.results ?? [])
@@ -84,14 +111,32 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
             }, 403)
         }
 
+        const baseVersion = parseIfMatchVersion(context.request)
+        const deviceId = getDeviceId(context.request)
+
         if (method === 'POST' || method === 'PUT') {
             const account = await parseJsonBody<AccountPayload>(context.request)
             if (!account?.id || !account?.name || !account?.kind || !account?.defaultCurrency) {
                 return jsonResponse({ error: 'Missing required fields: id, name, kind, defaultCurrency' }, 400)
             }
 
-            await upsertAccount(db, account)
-            return jsonResponse({ ok: true, id: account.id })
+            const current = (await readVersionedRows(db, 'accounts', user.id, [account.id])).get(account.id)
+            const payloadJson = JSON.stringify(account)
+            const conflict = detectConflict('accounts', account.id, baseVersion, payloadJson, current)
+            if (conflict) {
+                return jsonResponse({ error: 'Conflict', conflict }, 409)
+            }
+            if (current && current.deleted_at == null && current.payload_json === payloadJson) {
+                return jsonResponse({ ok: true, id: account.id, version: current.version, updatedAt: current.updated_at })
+            }
+
+            const version = nextVersion(current)
+            const now = toIsoNow()
+            await db.batch([
+                buildUpsertAccount(db, user.id, account, version, deviceId, now),
+                buildChangeLogStatement(db, user.id, 'accounts', account.id, 'upsert', version, deviceId, now),
+            ])
+            return jsonResponse({ ok: true, id: account.id, version, updatedAt: now })
         }
 
         if (method === 'DELETE') {
@@ -101,8 +146,22 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
                 return jsonResponse({ error: 'Missing id' }, 400)
             }
 
-            await db.prepare('DELETE FROM accounts WHERE id = ?1').bind(id).run()
-            return jsonResponse({ ok: true, id })
+            const current = (await readVersionedRows(db, 'accounts', user.id, [id])).get(id)
+            const conflict = detectConflict('accounts', id, baseVersion, null, current)
+            if (conflict) {
+                return jsonResponse({ error: 'Conflict', conflict }, 409)
+            }
+            if (!current || current.deleted_at != null) {
+                return jsonResponse({ ok: true, id, version: current?.version ?? 0 })
+            }
+
+            const version = nextVersion(current)
+            const now = toIsoNow()
+            await db.batch([
+                buildTombstoneStatement(db, 'accounts', user.id, id, version, deviceId, now),
+                buildChangeLogStatement(db, user.id, 'accounts', id, 'delete', version, deviceId, now),
+            ])
+            return jsonResponse({ ok: true, id, version, updatedAt: now })
         }
 
         return jsonResponse({ error: 'Method not allowed' }, 405)
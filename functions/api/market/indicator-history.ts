@@ -0,0 +1,51 @@
+/**
+ * Cloudflare Pages Function: /api/market/indicator-history
+ * Daily history for benchmark indicators (MERVAL, S&P500, CCL)
+ *
+ * Query: ?id=merval|sp500|ccl&from=YYYY-MM-DD[&to=YYYY-MM-DD]
+ */
+
+import {
+    fetchIndicatorHistory,
+    INDICATOR_HISTORY_IDS,
+    type IndicatorHistoryId,
+} from '../../../src/server/market/indicatorsProvider'
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+function jsonResponse(body: unknown, status = 200, cache = 'no-store'): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': cache,
+            'Access-Control-Allow-Origin': '*',
+        }
+    })
+}
+
+export const onRequest: PagesFunction = async (context) => {
+    const url = new URL(context.request.url)
+    const id = url.searchParams.get('id') as IndicatorHistoryId | null
+    const from = url.searchParams.get('from') ?? ''
+    const to = url.searchParams.get('to') ?? new Date().toISOString().slice(0, 10)
+
+    if (!id || !INDICATOR_HISTORY_IDS.includes(id)) {
+        return jsonResponse({ error: `Invalid id. Expected one of: ${INDICATOR_HISTORY_IDS.join(', ')}` }, 400)
+    }
+    if (!DATE_RE.test(from) || !DATE_RE.test(to) || from > to) {
+        return jsonResponse({ error: 'Invalid date range. Expected from/to as YYYY-MM-DD' }, 400)
+    }
+
+    try {
+        const data = await fetchIndicatorHistory(id, from, to)
+        // Closes only change once a day
+        return jsonResponse(data, 200, 'public, max-age=900, s-maxage=3600, stale-while-revalidate=7200')
+    } catch (err) {
+        console.error('Indicator history API error:', err)
+        return jsonResponse({
+            error: 'Failed to fetch indicator history',
+            details: err instanceof Error ? err.message : String(err),
+        }, 502)
+    }
+}
@@ -8,6 +8,16 @@ import {
     parseJsonBody,
     type SyncEnv,
 } from './_lib/sync'
+import { authenticateRequest } from './_lib/auth'
+import {
+    buildChangeLogStatement,
+    buildTombstoneStatement,
+    detectConflict,
+    getDeviceId,
+    nextVersion,
+    parseIfMatchVersion,
+    readVersionedRows,
+} from './_lib/versioning'
 
 interface MovementPayload {
     id: string
@@ -29,16 +39,23 @@ function toSafeAmount(value: unknown): number {
     return typeof value === 'number' && Number.isFinite(value) ? value : 0
 }
 
-async function upsertMovement(db: D1Database, movement: MovementPayload): Promise<void> {
-    const now = toIsoNow()
+function buildUpsertMovement(
+    db: D1Database,
+    userId: string,
+    movement: MovementPayload,
+    version: number,
+    deviceId: string | null,
+    now: string
+): D1PreparedStatement {
     const createdAt = movement.datetimeISO || now
 
-    await db.prepare(`
+    return db.prepare(`
 INSERT INTO movements (
-  id, account_id, instrument_id, date, kind, amount, currency, fx_at_trade, meta_json, payload_json, created_at, updated_at
+  id, account_id, instrument_id, date, kind, amount, currency, fx_at_trade, meta_json, payload_json, created_at, updated_at, user_id,
+  version, deleted_at, updated_by
 )
-VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12)
-ON CONFLICT(id) DO UPDATE SET
+VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, NULL, ?15)
+ON CONFLICT(user_id, id) DO UPDATE SET
   account_id = excluded.account_id,
   instrument_id = excluded.instrument_id,
   date = excluded.date,
@@ -48,7 +65,10 @@ ON CONFLICT(id) DO UPDATE SET
   fx_at_trade = excluded.fx_at_trade,
   meta_json = excluded.meta_json,
   payload_json = excluded.payload_json,
-  updated_at = excluded.updated_at
+  updated_at = excluded.updated_at,
+  version = excluded.version,
+  deleted_at = NULL,
+  updated_by = excluded.updated_by
 `)
         .bind(
             movement.id,
@@ -62,9 +82,11 @@ ON CONFLICT(id) DO UPDATE SET
             JSON.stringify(movement.meta ?? null),
             JSON.stringify(movement),
             createdAt,
-            now
+            now,
+            userId,
+            version,
+            deviceId
         )
-        .run()
 }
 
 export const onRequest: PagesFunction<SyncEnv> = async (context) => {
@@ -73,13 +95,19 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
         return optionsResponse()
     }
 
+    const user = await authenticateRequest(context.request, context.env)
+    if (user instanceof Response) {
+        return user
+    }
+
     try {
         const db = getDatabase(context.env)
         await ensureSyncSchema(db)
 
         if (method === 'GET') {
             const result = await db
-                .prepare('SELECT payload_json FROM movements ORDER BY date DESC')
+                .prepare('SELECT payload_json FROM movements WHERE user_id = ?1 AND deleted_at IS NULL ORDER BY date DESC')
+                .bind(user.id)
                 .all<{ payload_json: string }>()
 
             const rows = (result.results ?? [])
@@ -107,14 +135,32 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
             }, 403)
         }
 
+        const baseVersion = parseIfMatchVersion(context.request)
+        const deviceId = getDeviceId(context.request)
+
         if (method === 'POST' || method === 'PUT') {
             const movement = await parseJsonBody<MovementPayload>(context.request)
             if (!movement?.id || !movement?.accountId) {
                 return jsonResponse({ error: 'Missing required fields: id, accountId' }, 400)
             }
 
-            await upsertMovement(db, movement)
-            return jsonResponse({ ok: true, id: movement.id })
+            const current = (await readVersionedRows(db, 'movements', user.id, [movement.id])).get(movement.id)
+            const payloadJson = JSON.stringify(movement)
+            const conflict = detectConflict('movements', movement.id, baseVersion, payloadJson, current)
+            if (conflict) {
+                return jsonResponse({ error: 'Conflict', conflict }, 409)
+            }
+            if (current && current.deleted_at == null && current.payload_json === payloadJson) {
+                return jsonResponse({ ok: true, id: movement.id, version: current.version, updatedAt: current.updated_at })
+            }
+
+            const version = nextVersion(current)
+            const now = toIsoNow()
+            await db.batch([
+                buildUpsertMovement(db, user.id, movement, version, deviceId, now),
+                buildChangeLogStatement(db, user.id, 'movements', movement.id, 'upsert', version, deviceId, now),
+            ])
+            return jsonResponse({ ok: true, id: movement.id, version, updatedAt: now })
         }
 
         if (method === 'DELETE') {
@@ -124,8 +170,23 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
                 return jsonResponse({ error: 'Missing id' }, 400)
             }
 
-            await db.prepare('DELETE FROM movements WHERE id = ?1').bind(id).run()
-            return jsonResponse({ ok: true, id })
+            const current = (await readVersionedRows(db, 'movements', user.id, [id])).get(id)
+            const conflict = detectConflict('movements', id, baseVersion, null, current)
+            if (conflict) {
+                return jsonResponse({ error: 'Conflict', conflict }, 409)
+            }
+            if (!current || current.deleted_at != null) {
+                return jsonResponse({ ok: true, id, version: current?.version ?? 0 })
+            }
+
+            // Tombstone instead of DELETE so other devices pull the deletion
+            const version = nextVersion(current)
+            const now = toIsoNow()
+            await db.batch([
+                buildTombstoneStatement(db, 'movements', user.id, id, version, deviceId, now),
+                buildChangeLogStatement(db, user.id, 'movements', id, 'delete', version, deviceId, now),
+            ])
+            return jsonResponse({ ok: true, id, version, updatedAt: now })
         }
 
         return jsonResponse({ error: 'Method not allowed' }, 405)
@@ -1,4 +1,6 @@
 import { corsHeaders, ensureSyncSchema, getDatabase, jsonResponse, optionsResponse, type SyncEnv } from '../_lib/sync'
+import type { SyncData } from '../_lib/auth'
+import { SYNC_ENTITIES, SYNC_TABLES, toPullCursor, type SyncEntity } from '../_lib/versioning'
 
 const SNAPSHOT_BOOTSTRAP_DAYS = 180
 const SNAPSHOT_SMALL_TABLE_MAX_ROWS = 180
@@ -42,6 +44,10 @@ function createBootstrapPayload({
     financeExpressUpdatedAt,
     preferences,
     preferencesUpdatedAt,
+    priceAlerts,
+    accountSettings,
+    versions,
+    tombstones,
     durationMs,
     degraded = false,
 }: {
@@ -54,6 +60,10 @@ function createBootstrapPayload({
     financeExpressUpdatedAt?: string | null
     preferences?: string | null
     preferencesUpdatedAt?: string | null
+    priceAlerts?: unknown[]
+    accountSettings?: unknown[]
+    versions?: Partial<Record<SyncEntity, Record<string, number>>>
+    tombstones?: Partial<Record<SyncEntity, Record<string, number>>>
     durationMs: number
     degraded?: boolean
 }) {
@@ -62,6 +72,7 @@ function createBootstrapPayload({
         degraded,
         asOfISO,
         serverTimeISO: asOfISO,
+        cursor: toPullCursor(Date.parse(asOfISO)),
         snapshot: null,
         durationMs,
         accounts,
@@ -72,6 +83,10 @@ function createBootstrapPayload({
         financeExpressUpdatedAt: typeof financeExpressUpdatedAt === 'string' ? financeExpressUpdatedAt : null,
         preferences: typeof preferences === 'string' ? preferences : null,
         preferencesUpdatedAt: typeof preferencesUpdatedAt === 'string' ? preferencesUpdatedAt : null,
+        priceAlerts: Array.isArray(priceAlerts) ? priceAlerts : [],
+        accountSettings: Array.isArray(accountSettings) ? accountSettings : [],
+        versions: versions ?? {},
+        tombstones: tombstones ?? {},
     }
 }
 
@@ -98,9 +113,36 @@ async function safeQueryRows<T>(
     }
 }
 
-async function safeCountTable(db: D1Database, table: string): Promise<number> {
+interface EntityVersions {
+    versions: Record<string, number>
+    tombstones: Record<string, number>
+}
+
+async function safeQueryVersions(db: D1Database, entity: SyncEntity, userId: string): Promise<EntityVersions> {
     try {
-        const row = await db.prepare(`SELECT COUNT(*) AS c FROM ${table}`).first<{ c?: number | string }>()
+        const result = await db.prepare(`SELECT id, version, deleted_at FROM ${SYNC_TABLES[entity]} WHERE user_id = ?1`)
+            .bind(userId)
+            .all<{ id: string; version: number; deleted_at: string | null }>()
+        const entries = (result?.results ?? []).map((row) => [row.id, Number(row.version) || 1, row.deleted_at != null] as const)
+        return {
+            versions: Object.fromEntries(entries.filter(([, , deleted]) => !deleted).map(([id, version]) => [id, version])),
+            tombstones: Object.fromEntries(entries.filter(([, , deleted]) => deleted).map(([id, version]) => [id, version])),
+        }
+    } catch (error: any) {
+        console.warn('[sync/bootstrap] version query failed', {
+            stage: 'bootstrap-read',
+            dataset: entity,
+            error: error?.message || 'unknown_error',
+        })
+        return { versions: {}, tombstones: {} }
+    }
+}
+
+async function safeCountTable(db: D1Database, table: string, userId: string): Promise<number> {
+    try {
+        const row = await db.prepare(`SELECT COUNT(*) AS c FROM ${table} WHERE user_id = ?1`)
+            .bind(userId)
+            .first<{ c?: number | string }>()
         const parsed = Number(row?.c ?? 0)
         return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0
     } catch (error: any) {
@@ -113,7 +155,7 @@ async function safeCountTable(db: D1Database, table: string): Promise<number> {
     }
 }
 
-export const onRequest: PagesFunction<SyncEnv> = async (context) => {
+export const onRequest: PagesFunction<SyncEnv, string, SyncData> = async (context) => {
     if (context.request.method === 'OPTIONS') {
         return optionsResponse()
     }
@@ -124,7 +166,8 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
 
     const startedAtMs = nowMs()
     const asOfISO = new Date().toISOString()
-    console.log('[sync/bootstrap] start', { hasDb: Boolean(context.env.DB) })
+    const userId = context.data.user.id
+    console.log('[sync/bootstrap] start', { hasDb: Boolean(context.env.DB), userId })
 
     let stage = 'schema'
     try {
@@ -141,28 +184,40 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
         }
 
         stage = 'bootstrap-read'
-        const snapshotsCount = await safeCountTable(db, 'snapshots')
+        const snapshotsCount = await safeCountTable(db, 'snapshots', userId)
         const snapshotsSql = snapshotsCount > SNAPSHOT_SMALL_TABLE_MAX_ROWS
-            ? 'SELECT payload_json FROM snapshots WHERE date >= ?1 ORDER BY date DESC'
-            : 'SELECT payload_json FROM snapshots ORDER BY date DESC'
+            ? 'SELECT payload_json FROM snapshots WHERE user_id = ?1 AND date >= ?2 ORDER BY date DESC'
+            : 'SELECT payload_json FROM snapshots WHERE user_id = ?1 ORDER BY date DESC'
         const snapshotsBindings = snapshotsCount > SNAPSHOT_SMALL_TABLE_MAX_ROWS
-            ? [dateDaysAgoISO(SNAPSHOT_BOOTSTRAP_DAYS)]
-            : []
+            ? [userId, dateDaysAgoISO(SNAPSHOT_BOOTSTRAP_DAYS)]
+            : [userId]
 
-        const [accounts, movements, instruments, snapshots] = await Promise.all([
-            safeQueryRows(db, 'SELECT payload_json FROM accounts ORDER BY updated_at DESC', 'accounts'),
-            safeQueryRows(db, 'SELECT payload_json FROM movements ORDER BY date DESC', 'movements'),
-            safeQueryRows(db, 'SELECT payload_json FROM instruments ORDER BY updated_at DESC', 'instruments'),
+        const [accounts, movements, instruments, snapshots, priceAlerts, accountSettings] = await Promise.all([
+            safeQueryRows(db, 'SELECT payload_json FROM accounts WHERE user_id = ?1 AND deleted_at IS NULL ORDER BY updated_at DESC', 'accounts', [userId]),
+            safeQueryRows(db, 'SELECT payload_json FROM movements WHERE user_id = ?1 AND deleted_at IS NULL ORDER BY date DESC', 'movements', [userId]),
+            safeQueryRows(db, 'SELECT payload_json FROM instruments WHERE user_id = ?1 AND deleted_at IS NULL ORDER BY updated_at DESC', 'instruments', [userId]),
             safeQueryRows(db, snapshotsSql, 'snapshots', snapshotsBindings),
+            safeQueryRows(db, 'SELECT payload_json FROM price_alerts WHERE user_id = ?1 AND deleted_at IS NULL ORDER BY created_at ASC', 'price_alerts', [userId]),
+            safeQueryRows(db, 'SELECT payload_json FROM account_settings WHERE user_id = ?1 AND deleted_at IS NULL ORDER BY updated_at DESC', 'account_settings', [userId]),
         ])
 
+        // Server versions let the client send If-Match / baseVersions on later writes;
+        // tombstones keep it from re-pushing records deleted on another device.
+        const versions = {} as Record<SyncEntity, Record<string, number>>
+        const tombstones = {} as Record<SyncEntity, Record<string, number>>
+        for (const entity of SYNC_ENTITIES) {
+            const entityVersions = await safeQueryVersions(db, entity, userId)
+            versions[entity] = entityVersions.versions
+            tombstones[entity] = entityVersions.tombstones
+        }
+
         // Finance Express data
         let financeExpress: string | null = null
         let financeExpressUpdatedAt: string | null = null
         try {
             const feRow = await db.prepare(
-                "SELECT data, updated_at FROM finance_express_data WHERE id = 'default' LIMIT 1"
-            ).first<{ data?: string; updated_at?: string }>()
+                "SELECT data, updated_at FROM finance_express_data WHERE user_id = ?1 AND id = 'default' LIMIT 1"
+            ).bind(userId).first<{ data?: string; updated_at?: string }>()
             if (typeof feRow?.data === 'string') {
                 financeExpress = feRow.data
             }
@@ -178,8 +233,8 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
         let preferencesUpdatedAt: string | null = null
         try {
             const prefRow = await db.prepare(
-                "SELECT data, updated_at FROM finance_express_data WHERE id = 'preferences' LIMIT 1"
-            ).first<{ data?: string; updated_at?: string }>()
+                "SELECT data, updated_at FROM finance_express_data WHERE user_id = ?1 AND id = 'preferences' LIMIT 1"
+            ).bind(userId).first<{ data?: string; updated_at?: string }>()
             if (typeof prefRow?.data === 'string') {
                 preferences = prefRow.data
                 preferencesUpdatedAt = typeof prefRow.updated_at === 'string' ? prefRow.updated_at : null
@@ -191,6 +246,7 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
         const durationMs = toDurationMs(startedAtMs)
         console.log('[sync/bootstrap] done', {
             durationMs,
+            userId,
             accounts: accounts.length,
             movements: movements.length,
             instruments: instruments.length,
@@ -198,6 +254,8 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
             financeExpress: financeExpress != null,
             financeExpressUpdatedAt,
             preferences: preferences != null,
+            priceAlerts: priceAlerts.length,
+            accountSettings: accountSettings.length,
             degraded: false,
         })
         console.info('[sync/bootstrap] snapshot served', {
@@ -219,6 +277,10 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
             financeExpressUpdatedAt,
             preferences,
             preferencesUpdatedAt,
+            priceAlerts,
+            accountSettings,
+            versions,
+            tombstones,
             durationMs,
         })), {
             headers: {
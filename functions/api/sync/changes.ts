@@ -0,0 +1,99 @@
+import { corsHeaders, ensureSyncSchema, getDatabase, jsonResponse, optionsResponse, type SyncEnv } from '../_lib/sync'
+import type { SyncData } from '../_lib/auth'
+import { parsePayload, SYNC_ENTITIES, SYNC_TABLES, toPullCursor, type SyncEntity, type VersionedRow } from '../_lib/versioning'
+
+interface SyncChange {
+    entity: SyncEntity
+    id: string
+    version: number
+    updatedAt: string
+    updatedBy: string | null
+    deleted: boolean
+    record: unknown | null
+}
+
+function isIsoTimestamp(value: string): boolean {
+    return Number.isFinite(Date.parse(value))
+}
+
+function toChange(entity: SyncEntity, row: VersionedRow): SyncChange {
+    const deleted = row.deleted_at != null
+    return {
+        entity,
+        id: row.id,
+        version: Number(row.version) || 1,
+        updatedAt: row.updated_at,
+        updatedBy: row.updated_by,
+        deleted,
+        record: deleted ? null : parsePayload(row),
+    }
+}
+
+/**
+ * GET /api/sync/changes?since=<ISO cursor>
+ * Returns the versioned records (accounts, movements, instruments, price alerts)
+ * written or tombstoned since the cursor.
+ * Without `since` every record is returned, tombstones included.
+ */
+export const onRequest: PagesFunction<SyncEnv, string, SyncData> = async (context) => {
+    if (context.request.method === 'OPTIONS') {
+        return optionsResponse()
+    }
+
+    if (context.request.method !== 'GET') {
+        return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    const rawSince = new URL(context.request.url).searchParams.get('since') ?? ''
+    if (rawSince && !isIsoTimestamp(rawSince)) {
+        return jsonResponse({ error: 'Invalid cursor', details: 'since must be an ISO timestamp' }, 400)
+    }
+    // updated_at is compared as text: bring offsets and short forms to the stored UTC format
+    const since = rawSince ? new Date(rawSince).toISOString() : ''
+
+    const userId = context.data.user.id
+    const serverTimeMs = Date.now()
+
+    try {
+        const db = getDatabase(context.env)
+        await ensureSyncSchema(db)
+
+        const changes: SyncChange[] = []
+        for (const entity of SYNC_ENTITIES) {
+            const result = await db.prepare(`
+SELECT id, version, deleted_at, updated_at, updated_by, payload_json
+FROM ${SYNC_TABLES[entity]}
+WHERE user_id = ?1 AND updated_at >= ?2
+ORDER BY updated_at ASC
+`).bind(userId, since).all<VersionedRow>()
+            changes.push(...(result?.results ?? []).map((row) => toChange(entity, row)))
+        }
+
+        const cursor = toPullCursor(serverTimeMs)
+        console.log('[sync/changes] done', {
+            userId,
+            since: since || null,
+            changes: changes.length,
+            deleted: changes.filter((change) => change.deleted).length,
+        })
+
+        return new Response(JSON.stringify({
+            ok: true,
+            since: since || null,
+            cursor: since && since > cursor ? since : cursor,
+            serverTimeISO: new Date(serverTimeMs).toISOString(),
+            changes,
+        }), {
+            headers: {
+                ...corsHeaders(),
+                'Cache-Control': 'no-store',
+            },
+        })
+    } catch (error: any) {
+        console.error('[sync/changes] failed', { userId, error: error?.message || 'unknown_error' })
+        return jsonResponse({
+            error: 'Failed to read sync changes',
+            details: error?.message || 'unknown_error',
+        }, 500)
+    }
+}
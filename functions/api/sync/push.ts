@@ -8,6 +8,20 @@ import {
     type SyncEnv,
 } from '../_lib/sync'
 import { filterBatchStatements, getChunksCount, safeBatch } from '../_lib/safe-batch'
+import type { SyncData } from '../_lib/auth'
+import {
+    buildChangeLogStatement,
+    buildTombstoneStatement,
+    detectConflict,
+    getDeviceId,
+    isSyncEntity,
+    nextVersion,
+    readVersionedRows,
+    SYNC_ENTITIES,
+    SYNC_TABLES,
+    type SyncConflict,
+    type SyncEntity,
+} from '../_lib/versioning'
 
 interface AccountPayload {
     id: string
@@ -35,12 +49,34 @@ interface InstrumentPayload {
     nativeCurrency: string
 }
 
+interface PriceAlertPayload {
+    id: string
+    assetKind: string
+    assetId: string
+    condition: string
+    threshold: number
+}
+
+interface AccountSettingsPayload {
+    id: string
+    [key: string]: unknown
+}
+
 interface SnapshotPayload {
     id?: string
     dateLocal?: string
     [key: string]: unknown
 }
 
+interface DeletionPayload {
+    entity: SyncEntity
+    id: string
+    baseVersion?: number
+}
+
+/** Last server version seen by the client, per entity and record id */
+type BaseVersions = Partial<Record<SyncEntity, Record<string, number>>>
+
 interface PushPayload {
     version?: number
     exportedAtISO?: string
@@ -52,6 +88,10 @@ interface PushPayload {
         manualPrices?: unknown[]
         preferences?: Record<string, unknown>
         financeExpress?: string | null
+        priceAlerts?: PriceAlertPayload[]
+        accountSettings?: AccountSettingsPayload[]
+        baseVersions?: BaseVersions
+        deletions?: DeletionPayload[]
     }
 }
 
@@ -65,9 +105,22 @@ interface PushCounts {
     accounts: number
     movements: number
     instruments: number
+    priceAlerts: number
+    accountSettings: number
     snapshots: number
 }
 
+interface VersionedWrite<T> {
+    record: T
+    version: number
+}
+
+interface VersionPlan<T> {
+    writes: Array<VersionedWrite<T>>
+    versions: Record<string, number>
+    conflicts: SyncConflict[]
+}
+
 interface FinanceExpressSaveResult {
     saved: boolean
     updated_at: string | null
@@ -169,48 +222,144 @@ async function runBatchInChunks(
     }
 }
 
-function buildAccountStatements(db: D1Database, accounts: AccountPayload[]): D1PreparedStatement[] {
-    const now = toIsoNow()
-    return accounts.map((account, index) => {
+/**
+ * Decide which records to write and at which version. Records without a base
+ * version keep the legacy last-writer-wins behaviour; unchanged payloads are
+ * skipped so full reconciliation pushes don't bump every version.
+ */
+async function planVersionedWrites<T extends { id: string }>(
+    db: D1Database,
+    entity: SyncEntity,
+    userId: string,
+    records: T[],
+    baseVersions: Record<string, number> | undefined
+): Promise<VersionPlan<T>> {
+    const plan: VersionPlan<T> = { writes: [], versions: {}, conflicts: [] }
+    if (records.length === 0) return plan
+
+    const current = await readVersionedRows(
+        db,
+        entity,
+        userId,
+        records.map((record) => record?.id).filter((id): id is string => typeof id === 'string')
+    )
+
+    for (const record of records) {
+        const row = record?.id ? current.get(record.id) : undefined
+        const payloadJson = JSON.stringify(record)
+        const conflict = detectConflict(entity, record?.id, baseVersions?.[record?.id], payloadJson, row)
+        if (conflict) {
+            plan.conflicts.push(conflict)
+            continue
+        }
+        if (row && row.deleted_at == null && row.payload_json === payloadJson) {
+            plan.versions[row.id] = row.version
+            continue
+        }
+        const version = nextVersion(row)
+        plan.writes.push({ record, version })
+        if (record?.id) plan.versions[record.id] = version
+    }
+
+    return plan
+}
+
+async function planDeletions(
+    db: D1Database,
+    userId: string,
+    deletions: DeletionPayload[]
+): Promise<VersionPlan<DeletionPayload>> {
+    const plan: VersionPlan<DeletionPayload> = { writes: [], versions: {}, conflicts: [] }
+
+    deletions.forEach((deletion, index) => {
+        if (!isSyncEntity(deletion?.entity) || !deletion?.id) {
+            throw new Error(`Invalid deletion at index ${index}: entity and id are required`)
+        }
+    })
+
+    for (const entity of SYNC_ENTITIES) {
+        const forEntity = deletions.filter((deletion) => deletion.entity === entity)
+        if (forEntity.length === 0) continue
+
+        const current = await readVersionedRows(db, entity, userId, forEntity.map((deletion) => deletion.id))
+        for (const deletion of forEntity) {
+            const row = current.get(deletion.id)
+            const conflict = detectConflict(entity, deletion.id, deletion.baseVersion, null, row)
+            if (conflict) {
+                plan.conflicts.push(conflict)
+                continue
+            }
+            if (!row || row.deleted_at != null) continue
+            plan.writes.push({ record: deletion, version: nextVersion(row) })
+        }
+    }
+
+    return plan
+}
+
+function buildAccountStatements(
+    db: D1Database,
+    userId: string,
+    writes: Array<VersionedWrite<AccountPayload>>,
+    deviceId: string | null,
+    now: string
+): D1PreparedStatement[] {
+    return writes.flatMap(({ record: account, version }, index) => {
         if (!account?.id || !account?.name || !account?.kind || !account?.defaultCurrency) {
             throw new Error(`Invalid account at index ${index}: id, name, kind and defaultCurrency are required`)
         }
 
-        return db.prepare(`
-INSERT INTO accounts (id, name, type, currency, payload_json, created_at, updated_at)
-VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)
-ON CONFLICT(id) DO UPDATE SET
+        return [
+            db.prepare(`
+INSERT INTO accounts (id, name, type, currency, payload_json, created_at, updated_at, user_id, version, deleted_at, updated_by)
+VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, NULL, ?10)
+ON CONFLICT(user_id, id) DO UPDATE SET
   name = excluded.name,
   type = excluded.type,
   currency = excluded.currency,
   payload_json = excluded.payload_json,
-  updated_at = excluded.updated_at
+  updated_at = excluded.updated_at,
+  version = excluded.version,
+  deleted_at = NULL,
+  updated_by = excluded.updated_by
 `)
-            .bind(
-                account.id,
-                account.name,
-                account.kind,
-                account.defaultCurrency,
-                JSON.stringify(account),
-                now,
-                now
-            )
+                .bind(
+                    account.id,
+                    account.name,
+                    account.kind,
+                    account.defaultCurrency,
+                    JSON.stringify(account),
+                    now,
+                    now,
+                    userId,
+                    version,
+                    deviceId
+                ),
+            buildChangeLogStatement(db, userId, 'accounts', account.id, 'upsert', version, deviceId, now),
+        ]
     })
 }
 
-function buildMovementStatements(db: D1Database, movements: MovementPayload[]): D1PreparedStatement[] {
-    const now = toIsoNow()
-    return movements.map((movement, index) => {
+function buildMovementStatements(
+    db: D1Database,
+    userId: string,
+    writes: Array<VersionedWrite<MovementPayload>>,
+    deviceId: string | null,
+    now: string
+): D1PreparedStatement[] {
+    return writes.flatMap(({ record: movement, version }, index) => {
         if (!movement?.id || !movement?.accountId || !movement?.datetimeISO || !movement?.type || !movement?.tradeCurrency) {
             throw new Error(`Invalid movement at index ${index}: id, accountId, datetimeISO, type and tradeCurrency are required`)
         }
 
-        return db.prepare(`
+        return [
+            db.prepare(`
 INSERT INTO movements (
-  id, account_id, instrument_id, date, kind, amount, currency, fx_at_trade, meta_json, payload_json, created_at, updated_at
+  id, account_id, instrument_id, date, kind, amount, currency, fx_at_trade, meta_json, payload_json, created_at, updated_at, user_id,
+  version, deleted_at, updated_by
 )
-VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12)
-ON CONFLICT(id) DO UPDATE SET
+VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, NULL, ?15)
+ON CONFLICT(user_id, id) DO UPDATE SET
   account_id = excluded.account_id,
   instrument_id = excluded.instrument_id,
   date = excluded.date,
@@ -220,55 +369,146 @@ ON CONFLICT(id) DO UPDATE SET
   fx_at_trade = excluded.fx_at_trade,
   meta_json = excluded.meta_json,
   payload_json = excluded.payload_json,
-  updated_at = excluded.updated_at
+  updated_at = excluded.updated_at,
+  version = excluded.version,
+  deleted_at = NULL,
+  updated_by = excluded.updated_by
 `)
-            .bind(
-                movement.id,
-                movement.accountId,
-                movement.instrumentId ?? null,
-                movement.datetimeISO,
-                movement.type,
-                toSafeAmount(movement.totalAmount),
-                movement.tradeCurrency,
-                typeof movement.fxAtTrade === 'number' ? movement.fxAtTrade : null,
-                JSON.stringify(movement.meta ?? null),
-                JSON.stringify(movement),
-                movement.datetimeISO || now,
-                now
-            )
+                .bind(
+                    movement.id,
+                    movement.accountId,
+                    movement.instrumentId ?? null,
+                    movement.datetimeISO,
+                    movement.type,
+                    toSafeAmount(movement.totalAmount),
+                    movement.tradeCurrency,
+                    typeof movement.fxAtTrade === 'number' ? movement.fxAtTrade : null,
+                    JSON.stringify(movement.meta ?? null),
+                    JSON.stringify(movement),
+                    movement.datetimeISO || now,
+                    now,
+                    userId,
+                    version,
+                    deviceId
+                ),
+            buildChangeLogStatement(db, userId, 'movements', movement.id, 'upsert', version, deviceId, now),
+        ]
     })
 }
 
-function buildInstrumentStatements(db: D1Database, instruments: InstrumentPayload[]): D1PreparedStatement[] {
-    const now = toIsoNow()
-    return instruments.map((instrument, index) => {
+function buildInstrumentStatements(
+    db: D1Database,
+    userId: string,
+    writes: Array<VersionedWrite<InstrumentPayload>>,
+    deviceId: string | null,
+    now: string
+): D1PreparedStatement[] {
+    return writes.flatMap(({ record: instrument, version }, index) => {
         if (!instrument?.id || !instrument?.symbol || !instrument?.category || !instrument?.nativeCurrency) {
             throw new Error(`Invalid instrument at index ${index}: id, symbol, category and nativeCurrency are required`)
         }
 
-        return db.prepare(`
-INSERT INTO instruments (id, symbol, category, currency, payload_json, created_at, updated_at)
-VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)
-ON CONFLICT(id) DO UPDATE SET
+        return [
+            db.prepare(`
+INSERT INTO instruments (id, symbol, category, currency, payload_json, created_at, updated_at, user_id, version, deleted_at, updated_by)
+VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, NULL, ?10)
+ON CONFLICT(user_id, id) DO UPDATE SET
   symbol = excluded.symbol,
   category = excluded.category,
   currency = excluded.currency,
   payload_json = excluded.payload_json,
-  updated_at = excluded.updated_at
+  updated_at = excluded.updated_at,
+  version = excluded.version,
+  deleted_at = NULL,
+  updated_by = excluded.updated_by
 `)
-            .bind(
-                instrument.id,
-                instrument.symbol,
-                instrument.category,
-                instrument.nativeCurrency,
-                JSON.stringify(instrument),
-                now,
-                now
-            )
+                .bind(
+                    instrument.id,
+                    instrument.symbol,
+                    instrument.category,
+                    instrument.nativeCurrency,
+                    JSON.stringify(instrument),
+                    now,
+                    now,
+                    userId,
+                    version,
+                    deviceId
+                ),
+            buildChangeLogStatement(db, userId, 'instruments', instrument.id, 'upsert', version, deviceId, now),
+        ]
+    })
+}
+
+/** Upsert for entities kept only as payload_json (no queryable columns) */
+function buildPayloadUpsertStatements(
+    db: D1Database,
+    entity: SyncEntity,
+    userId: string,
+    id: string,
+    payloadJson: string,
+    version: number,
+    deviceId: string | null,
+    now: string
+): D1PreparedStatement[] {
+    return [
+        db.prepare(`
+INSERT INTO ${SYNC_TABLES[entity]} (id, payload_json, created_at, updated_at, user_id, version, deleted_at, updated_by)
+VALUES (?1, ?2, ?3, ?3, ?4, ?5, NULL, ?6)
+ON CONFLICT(user_id, id) DO UPDATE SET
+  payload_json = excluded.payload_json,
+  updated_at = excluded.updated_at,
+  version = excluded.version,
+  deleted_at = NULL,
+  updated_by = excluded.updated_by
+`).bind(id, payloadJson, now, userId, version, deviceId),
+        buildChangeLogStatement(db, userId, entity, id, 'upsert', version, deviceId, now),
+    ]
+}
+
+function buildPriceAlertStatements(
+    db: D1Database,
+    userId: string,
+    writes: Array<VersionedWrite<PriceAlertPayload>>,
+    deviceId: string | null,
+    now: string
+): D1PreparedStatement[] {
+    return writes.flatMap(({ record: rule, version }, index) => {
+        if (!rule?.id || !rule?.assetKind || !rule?.assetId || !rule?.condition) {
+            throw new Error(`Invalid price alert at index ${index}: id, assetKind, assetId and condition are required`)
+        }
+        return buildPayloadUpsertStatements(db, 'priceAlerts', userId, rule.id, JSON.stringify(rule), version, deviceId, now)
     })
 }
 
-function buildSnapshotStatements(db: D1Database, snapshots: SnapshotPayload[]): D1PreparedStatement[] {
+function buildAccountSettingsStatements(
+    db: D1Database,
+    userId: string,
+    writes: Array<VersionedWrite<AccountSettingsPayload>>,
+    deviceId: string | null,
+    now: string
+): D1PreparedStatement[] {
+    return writes.flatMap(({ record: settings, version }, index) => {
+        if (!settings?.id) {
+            throw new Error(`Invalid account settings at index ${index}: id is required`)
+        }
+        return buildPayloadUpsertStatements(db, 'accountSettings', userId, settings.id, JSON.stringify(settings), version, deviceId, now)
+    })
+}
+
+function buildDeletionStatements(
+    db: D1Database,
+    userId: string,
+    writes: Array<VersionedWrite<DeletionPayload>>,
+    deviceId: string | null,
+    now: string
+): D1PreparedStatement[] {
+    return writes.flatMap(({ record: deletion, version }) => [
+        buildTombstoneStatement(db, deletion.entity, userId, deletion.id, version, deviceId, now),
+        buildChangeLogStatement(db, userId, deletion.entity, deletion.id, 'delete', version, deviceId, now),
+    ])
+}
+
+function buildSnapshotStatements(db: D1Database, userId: string, snapshots: SnapshotPayload[]): D1PreparedStatement[] {
     const updatedAt = Date.now()
     return snapshots.map((snapshot, index) => {
         const dateLocal = snapshot?.dateLocal
@@ -285,21 +525,22 @@ function buildSnapshotStatements(db: D1Database, snapshots: SnapshotPayload[]):
         }
 
         return db.prepare(`
-INSERT INTO snapshots (date, payload_json, updated_at)
-VALUES (?1, ?2, ?3)
-ON CONFLICT(date) DO UPDATE SET
+INSERT INTO snapshots (date, payload_json, updated_at, user_id)
+VALUES (?1, ?2, ?3, ?4)
+ON CONFLICT(user_id, date) DO UPDATE SET
   payload_json = excluded.payload_json,
   updated_at = excluded.updated_at
 `)
             .bind(
                 dateLocal,
                 JSON.stringify(normalized),
-                updatedAt
+                updatedAt,
+                userId
             )
     })
 }
 
-export const onRequest: PagesFunction<SyncEnv> = async (context) => {
+export const onRequest: PagesFunction<SyncEnv, string, SyncData> = async (context) => {
     const startedAtMs = nowMs()
     const method = context.request.method
     if (method === 'OPTIONS') {
@@ -339,6 +580,19 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
         const instruments = toArray<InstrumentPayload>(payload.data.instruments, 'data.instruments')
         const snapshots = toArray<SnapshotPayload>(payload.data.snapshots, 'data.snapshots')
         const manualPrices = toArray<unknown>(payload.data.manualPrices, 'data.manualPrices')
+        const deletions = toArray<DeletionPayload>(payload.data.deletions, 'data.deletions')
+        // Older clients sent rules / settings as one document; skip it, they re-push per record
+        const legacyPriceAlerts = payload.data.priceAlerts != null && !Array.isArray(payload.data.priceAlerts)
+        const priceAlerts = legacyPriceAlerts
+            ? []
+            : toArray<PriceAlertPayload>(payload.data.priceAlerts, 'data.priceAlerts')
+        const legacyAccountSettings = payload.data.accountSettings != null && !Array.isArray(payload.data.accountSettings)
+        const accountSettings = legacyAccountSettings
+            ? []
+            : toArray<AccountSettingsPayload>(payload.data.accountSettings, 'data.accountSettings')
+        const baseVersions: BaseVersions = payload.data.baseVersions != null && typeof payload.data.baseVersions === 'object'
+            ? payload.data.baseVersions
+            : {}
         const financeExpress = typeof payload.data.financeExpress === 'string'
             ? payload.data.financeExpress
             : null
@@ -354,12 +608,21 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
         if (manualPrices.length > 0) {
             ignored.push(`manualPrices (${manualPrices.length})`)
         }
+        if (legacyPriceAlerts) {
+            ignored.push('priceAlerts (legacy document)')
+        }
+        if (legacyAccountSettings) {
+            ignored.push('accountSettings (legacy document)')
+        }
 
         if (
             accounts.length === 0 &&
             movements.length === 0 &&
             instruments.length === 0 &&
             snapshots.length === 0 &&
+            priceAlerts.length === 0 &&
+            accountSettings.length === 0 &&
+            deletions.length === 0 &&
             !hasFinanceExpress &&
             !hasPreferences
         ) {
@@ -378,6 +641,8 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
                     accounts: 0,
                     movements: 0,
                     instruments: 0,
+                    priceAlerts: 0,
+                    accountSettings: 0,
                     snapshots: 0,
                 },
                 ignored,
@@ -404,11 +669,16 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
             }, 500)
         }
 
+        const userId = context.data.user.id
         console.log('[sync][push] start', {
+            userId,
             accounts: accounts.length,
             movements: movements.length,
             instruments: instruments.length,
             snapshots: snapshots.length,
+            priceAlerts: priceAlerts.length,
+            accountSettings: accountSettings.length,
+            deletions: deletions.length,
             financeExpress: hasFinanceExpress,
         })
 
@@ -418,29 +688,64 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
         await ensureSyncSchema(db)
         console.log('[sync][push] schema ensure done')
 
+        stage = 'versions'
+        const deviceId = getDeviceId(context.request)
+        const now = toIsoNow()
+        const accountPlan = await planVersionedWrites(db, 'accounts', userId, accounts, baseVersions.accounts)
+        const movementPlan = await planVersionedWrites(db, 'movements', userId, movements, baseVersions.movements)
+        const priceAlertPlan = await planVersionedWrites(db, 'priceAlerts', userId, priceAlerts, baseVersions.priceAlerts)
+        const accountSettingsPlan = await planVersionedWrites(db, 'accountSettings', userId, accountSettings, baseVersions.accountSettings)
+        const deletionPlan = await planDeletions(db, userId, deletions)
+        const conflicts: SyncConflict[] = [
+            ...accountPlan.conflicts,
+            ...movementPlan.conflicts,
+            ...priceAlertPlan.conflicts,
+            ...accountSettingsPlan.conflicts,
+            ...deletionPlan.conflicts,
+        ]
+        const versions: Record<SyncEntity, Record<string, number>> = {
+            accounts: accountPlan.versions,
+            movements: movementPlan.versions,
+            instruments: {},
+            priceAlerts: priceAlertPlan.versions,
+            accountSettings: accountSettingsPlan.versions,
+        }
+
         stage = 'push-batch'
-        const accountStatements = buildAccountStatements(db, accounts)
-        const movementStatements = buildMovementStatements(db, movements)
+        const accountStatements = buildAccountStatements(db, userId, accountPlan.writes, deviceId, now)
+        const movementStatements = buildMovementStatements(db, userId, movementPlan.writes, deviceId, now)
+        const priceAlertStatements = buildPriceAlertStatements(db, userId, priceAlertPlan.writes, deviceId, now)
+        const accountSettingsStatements = buildAccountSettingsStatements(db, userId, accountSettingsPlan.writes, deviceId, now)
 
         await runBatchInChunks(db, accountStatements, 'accounts')
         await runBatchInChunks(db, movementStatements, 'movements')
+        await runBatchInChunks(db, priceAlertStatements, 'priceAlerts')
+        await runBatchInChunks(db, accountSettingsStatements, 'accountSettings')
 
         let instrumentsUpserted = 0
         let snapshotsUpserted = 0
 
         if (instruments.length > 0) {
             try {
-                const instrumentStatements = buildInstrumentStatements(db, instruments)
+                const instrumentPlan = await planVersionedWrites(db, 'instruments', userId, instruments, baseVersions.instruments)
+                const instrumentStatements = buildInstrumentStatements(db, userId, instrumentPlan.writes, deviceId, now)
                 await runBatchInChunks(db, instrumentStatements, 'instruments')
-                instrumentsUpserted = instruments.length
+                conflicts.push(...instrumentPlan.conflicts)
+                versions.instruments = instrumentPlan.versions
+                instrumentsUpserted = instruments.length - instrumentPlan.conflicts.length
             } catch (error: any) {
                 ignored.push(`instruments (${error?.message || 'table missing or unavailable'})`)
             }
         }
 
+        for (const { record, version } of deletionPlan.writes) {
+            versions[record.entity][record.id] = version
+        }
+        await runBatchInChunks(db, buildDeletionStatements(db, userId, deletionPlan.writes, deviceId, now), 'deletions')
+
         if (snapshots.length > 0) {
             try {
-                const snapshotStatements = buildSnapshotStatements(db, snapshots)
+                const snapshotStatements = buildSnapshotStatements(db, userId, snapshots)
                 await runBatchInChunks(db, snapshotStatements, 'snapshots')
                 snapshotsUpserted = snapshots.length
             } catch (error: any) {
@@ -458,12 +763,12 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
             try {
                 const updatedAt = toIsoNow()
                 await db.prepare(`
-INSERT INTO finance_express_data (id, data, updated_at)
-VALUES ('default', ?1, ?2)
-ON CONFLICT(id) DO UPDATE SET
+INSERT INTO finance_express_data (user_id, id, data, updated_at)
+VALUES (?3, 'default', ?1, ?2)
+ON CONFLICT(user_id, id) DO UPDATE SET
   data = excluded.data,
   updated_at = excluded.updated_at
-`).bind(financeExpress, updatedAt).run()
+`).bind(financeExpress, updatedAt, userId).run()
                 financeExpressResult.saved = true
                 financeExpressResult.updated_at = updatedAt
                 financeExpressResult.size = financeExpress.length
@@ -479,12 +784,12 @@ ON CONFLICT(id) DO UPDATE SET
                 const updatedAt = toIsoNow()
                 const prefsJson = JSON.stringify(preferences)
                 await db.prepare(`
-INSERT INTO finance_express_data (id, data, updated_at)
-VALUES ('preferences', ?1, ?2)
-ON CONFLICT(id) DO UPDATE SET
+INSERT INTO finance_express_data (user_id, id, data, updated_at)
+VALUES (?3, 'preferences', ?1, ?2)
+ON CONFLICT(user_id, id) DO UPDATE SET
   data = excluded.data,
   updated_at = excluded.updated_at
-`).bind(prefsJson, updatedAt).run()
+`).bind(prefsJson, updatedAt, userId).run()
                 preferencesSaved = true
                 console.log('[sync][push] preferences saved', { size: prefsJson.length })
             } catch (error: any) {
@@ -493,9 +798,11 @@ ON CONFLICT(id) DO UPDATE SET
         }
 
         const counts: PushCounts = {
-            accounts: accounts.length,
-            movements: movements.length,
+            accounts: accounts.length - accountPlan.conflicts.length,
+            movements: movements.length - movementPlan.conflicts.length,
             instruments: instrumentsUpserted,
+            priceAlerts: priceAlerts.length - priceAlertPlan.conflicts.length,
+            accountSettings: accountSettings.length - accountSettingsPlan.conflicts.length,
             snapshots: snapshotsUpserted,
         }
         const durationMs = toDurationMs(startedAtMs)
@@ -503,6 +810,8 @@ ON CONFLICT(id) DO UPDATE SET
             durationMs,
             ...counts,
             ignored: ignored.length,
+            deleted: deletionPlan.writes.length,
+            conflicts: conflicts.length,
             financeExpressSaved: financeExpressResult.saved,
             financeExpressSize: financeExpressResult.size,
             preferencesSaved,
@@ -516,6 +825,10 @@ ON CONFLICT(id) DO UPDATE SET
             updated_at: financeExpressResult.updated_at,
             size: financeExpressResult.size,
             preferencesSaved,
+            deleted: deletionPlan.writes.length,
+            versions,
+            conflicts,
+            serverTimeISO: now,
             durationMs,
         })
     } catch (error) {
@@ -6,6 +6,7 @@ import {
     optionsResponse,
     type SyncEnv,
 } from '../_lib/sync'
+import type { SyncData } from '../_lib/auth'
 
 interface SyncStatusCounts {
     accounts: number
@@ -19,7 +20,7 @@ function trimText(value: string, maxLength: number): string {
     return `${value.slice(0, maxLength)}...`
 }
 
-export const onRequest: PagesFunction<SyncEnv> = async (context) => {
+export const onRequest: PagesFunction<SyncEnv, string, SyncData> = async (context) => {
     if (context.request.method === 'OPTIONS') {
         return optionsResponse()
     }
@@ -32,6 +33,8 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
     }
 
     const writeEnabled = isWriteEnabled(context.env)
+    const { user } = context.data
+    const userId = user.id
     const emptyCounts: SyncStatusCounts = {
         accounts: 0,
         movements: 0,
@@ -42,6 +45,7 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
     console.log('[sync][status] start', {
         hasDb: Boolean(context.env.DB),
         writeEnabled,
+        userId,
     })
 
     if (!context.env.DB) {
@@ -50,6 +54,7 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
             ok: true,
             d1Bound: false,
             writeEnabled,
+            user: { id: user.id, name: user.name, isAdmin: user.isAdmin },
             counts: emptyCounts,
         })
     }
@@ -79,7 +84,7 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
         stage = 'counts'
         console.log('[sync][status] counting...')
         try {
-            const a = await db.prepare('SELECT COUNT(*) AS c FROM accounts').first<{ c?: number | string }>()
+            const a = await db.prepare('SELECT COUNT(*) AS c FROM accounts WHERE user_id = ?1 AND deleted_at IS NULL').bind(userId).first<{ c?: number | string }>()
             const parsed = Number(a?.c ?? 0)
             counts.accounts = Number.isFinite(parsed) && parsed >= 0 ? parsed : 0
         } catch (error: any) {
@@ -89,7 +94,7 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
         }
 
         try {
-            const m = await db.prepare('SELECT COUNT(*) AS c FROM movements').first<{ c?: number | string }>()
+            const m = await db.prepare('SELECT COUNT(*) AS c FROM movements WHERE user_id = ?1 AND deleted_at IS NULL').bind(userId).first<{ c?: number | string }>()
             const parsed = Number(m?.c ?? 0)
             counts.movements = Number.isFinite(parsed) && parsed >= 0 ? parsed : 0
         } catch (error: any) {
@@ -99,7 +104,7 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
         }
 
         try {
-            const i = await db.prepare('SELECT COUNT(*) AS c FROM instruments').first<{ c?: number | string }>()
+            const i = await db.prepare('SELECT COUNT(*) AS c FROM instruments WHERE user_id = ?1 AND deleted_at IS NULL').bind(userId).first<{ c?: number | string }>()
             const parsed = Number(i?.c ?? 0)
             counts.instruments = Number.isFinite(parsed) && parsed >= 0 ? parsed : 0
         } catch (error: any) {
@@ -109,7 +114,7 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
         }
 
         try {
-            const s = await db.prepare('SELECT COUNT(*) AS c FROM snapshots').first<{ c?: number | string }>()
+            const s = await db.prepare('SELECT COUNT(*) AS c FROM snapshots WHERE user_id = ?1').bind(userId).first<{ c?: number | string }>()
             const parsed = Number(s?.c ?? 0)
             counts.snapshots = Number.isFinite(parsed) && parsed >= 0 ? parsed : 0
         } catch (error: any) {
@@ -118,8 +123,18 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
             counts.snapshots = 0
         }
 
+        let lastChangeAt: string | null = null
+        try {
+            const row = await db.prepare('SELECT MAX(changed_at) AS last FROM sync_changes WHERE user_id = ?1').bind(userId).first<{ last?: string | null }>()
+            lastChangeAt = typeof row?.last === 'string' ? row.last : null
+        } catch (error: any) {
+            const message = trimText(error?.message || 'unknown_error', 500)
+            details.push(`stage=changes: ${message}`)
+        }
+
         console.log('[sync][status] done', {
             counts,
+            lastChangeAt,
             errors: details.length,
         })
 
@@ -127,7 +142,9 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
             ok: true,
             d1Bound: true,
             writeEnabled,
+            user: { id: user.id, name: user.name, isAdmin: user.isAdmin },
             counts,
+            lastChangeAt,
             ...(details.length > 0
                 ? {
                     error: 'Failed to read sync status',
@@ -142,6 +159,7 @@ export const onRequest: PagesFunction<SyncEnv> = async (context) => {
             ok: true,
             d1Bound: true,
             writeEnabled,
+            user: { id: user.id, name: user.name, isAdmin: user.isAdmin },
             counts: emptyCounts,
             error: 'Failed to read sync status',
             details: `stage=${stage}: ${details}`,
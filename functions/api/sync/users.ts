@@ -0,0 +1,125 @@
+import {
+    ensureSyncSchema,
+    getDatabase,
+    isWriteEnabled,
+    jsonResponse,
+    optionsResponse,
+    parseJsonBody,
+    type SyncEnv,
+} from '../_lib/sync'
+import { generateToken, hashToken, LEGACY_USER_ID, type SyncData } from '../_lib/auth'
+
+interface CreateUserPayload {
+    id?: string
+    name?: string
+}
+
+interface SyncUserRow {
+    id: string
+    name: string
+    created_at: string
+    revoked_at: string | null
+}
+
+function toIsoNow(): string {
+    return new Date().toISOString()
+}
+
+function slugify(value: string): string {
+    return value
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Household user management. Only the admin (ARGFOLIO_SYNC_TOKEN) may call it.
+ * GET lists users, POST { name } creates one and returns its token once,
+ * DELETE ?id= revokes a user's token (their data stays in D1).
+ */
+export const onRequest: PagesFunction<SyncEnv, string, SyncData> = async (context) => {
+    const method = context.request.method
+    if (method === 'OPTIONS') {
+        return optionsResponse()
+    }
+
+    if (!context.data.user.isAdmin) {
+        return jsonResponse({
+            error: 'Forbidden',
+            details: 'Only the ARGFOLIO_SYNC_TOKEN holder can manage sync users.',
+        }, 403)
+    }
+
+    try {
+        const db = getDatabase(context.env)
+        await ensureSyncSchema(db)
+
+        if (method === 'GET') {
+            const result = await db
+                .prepare('SELECT id, name, created_at, revoked_at FROM sync_users ORDER BY created_at ASC')
+                .all<SyncUserRow>()
+            return jsonResponse({ ok: true, items: result.results ?? [] })
+        }
+
+        if (!isWriteEnabled(context.env)) {
+            return jsonResponse({
+                error: 'Sync write disabled',
+                details: 'ARGFOLIO_SYNC_WRITE_ENABLED must be "1".',
+            }, 403)
+        }
+
+        if (method === 'POST') {
+            const payload = await parseJsonBody<CreateUserPayload>(context.request)
+            const name = typeof payload?.name === 'string' ? payload.name.trim() : ''
+            const id = slugify(typeof payload?.id === 'string' && payload.id.trim() ? payload.id : name)
+            if (!name || !id) {
+                return jsonResponse({ error: 'Missing required field: name' }, 400)
+            }
+            if (id === LEGACY_USER_ID) {
+                return jsonResponse({ error: `User id "${LEGACY_USER_ID}" is reserved` }, 400)
+            }
+
+            const existing = await db.prepare('SELECT id FROM sync_users WHERE id = ?1').bind(id).first<{ id: string }>()
+            if (existing) {
+                return jsonResponse({ error: 'User already exists', details: `id=${id}` }, 409)
+            }
+
+            const token = generateToken()
+            const createdAt = toIsoNow()
+            await db.prepare(`
+INSERT INTO sync_users (id, name, token_hash, created_at)
+VALUES (?1, ?2, ?3, ?4)
+`).bind(id, name, await hashToken(token), createdAt).run()
+
+            console.log('[sync/users] created', { id })
+            return jsonResponse({
+                ok: true,
+                user: { id, name, created_at: createdAt, revoked_at: null },
+                token,
+                hint: 'Guardá este token: no se vuelve a mostrar.',
+            }, 201)
+        }
+
+        if (method === 'DELETE') {
+            const id = new URL(context.request.url).searchParams.get('id')
+            if (!id) {
+                return jsonResponse({ error: 'Missing id' }, 400)
+            }
+
+            await db.prepare('UPDATE sync_users SET revoked_at = ?2 WHERE id = ?1 AND revoked_at IS NULL')
+                .bind(id, toIsoNow())
+                .run()
+            console.log('[sync/users] revoked', { id })
+            return jsonResponse({ ok: true, id })
+        }
+
+        return jsonResponse({ error: 'Method not allowed' }, 405)
+    } catch (error: any) {
+        return jsonResponse({
+            error: 'Failed to manage sync users',
+            details: error?.message || 'unknown_error',
+        }, 500)
+    }
+}
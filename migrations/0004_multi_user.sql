@@ -0,0 +1,101 @@
+-- Multi-user sync (D1)
+-- Per-user tokens + owner key on every sync table.
+-- Existing rows are assigned to user 'default' (the ARGFOLIO_SYNC_TOKEN holder).
+-- SQLite cannot alter primary keys, so each table is rebuilt with (user_id, id).
+
+CREATE TABLE IF NOT EXISTS sync_users (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+
+-- accounts
+CREATE TABLE accounts_v2 (
+  user_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  payload_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (user_id, id)
+);
+INSERT INTO accounts_v2 (user_id, id, name, type, currency, payload_json, created_at, updated_at)
+SELECT 'default', id, name, type, currency, payload_json, created_at, updated_at FROM accounts;
+DROP TABLE accounts;
+ALTER TABLE accounts_v2 RENAME TO accounts;
+
+-- movements
+CREATE TABLE movements_v2 (
+  user_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
+  account_id TEXT NOT NULL,
+  instrument_id TEXT,
+  date TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  amount REAL NOT NULL,
+  currency TEXT NOT NULL,
+  fx_at_trade REAL,
+  meta_json TEXT,
+  payload_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (user_id, id)
+);
+INSERT INTO movements_v2 (
+  user_id, id, account_id, instrument_id, date, kind, amount, currency, fx_at_trade, meta_json, payload_json, created_at, updated_at
+)
+SELECT 'default', id, account_id, instrument_id, date, kind, amount, currency, fx_at_trade, meta_json, payload_json, created_at, updated_at
+FROM movements;
+DROP INDEX IF EXISTS idx_movements_account_date;
+DROP INDEX IF EXISTS idx_movements_date;
+DROP TABLE movements;
+ALTER TABLE movements_v2 RENAME TO movements;
+CREATE INDEX IF NOT EXISTS idx_movements_user_account_date ON movements(user_id, account_id, date DESC);
+CREATE INDEX IF NOT EXISTS idx_movements_user_date ON movements(user_id, date DESC);
+
+-- instruments
+CREATE TABLE instruments_v2 (
+  user_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  category TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  payload_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (user_id, id)
+);
+INSERT INTO instruments_v2 (user_id, id, symbol, category, currency, payload_json, created_at, updated_at)
+SELECT 'default', id, symbol, category, currency, payload_json, created_at, updated_at FROM instruments;
+DROP TABLE instruments;
+ALTER TABLE instruments_v2 RENAME TO instruments;
+
+-- snapshots
+CREATE TABLE snapshots_v2 (
+  user_id TEXT NOT NULL DEFAULT 'default',
+  date TEXT NOT NULL,
+  payload_json TEXT NOT NULL,
+  updated_at INTEGER,
+  PRIMARY KEY (user_id, date)
+);
+INSERT INTO snapshots_v2 (user_id, date, payload_json, updated_at)
+SELECT 'default', date, payload_json, updated_at FROM snapshots;
+DROP TABLE snapshots;
+ALTER TABLE snapshots_v2 RENAME TO snapshots;
+
+-- finance_express_data ('default' budget blob + 'preferences')
+CREATE TABLE finance_express_data_v2 (
+  user_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL DEFAULT 'default',
+  data TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (user_id, id)
+);
+INSERT INTO finance_express_data_v2 (user_id, id, data, updated_at)
+SELECT 'default', id, data, updated_at FROM finance_express_data;
+DROP TABLE finance_express_data;
+ALTER TABLE finance_express_data_v2 RENAME TO finance_express_data;
@@ -0,0 +1,32 @@
+-- Incremental sync (D1)
+-- Per-record versions + tombstones on accounts/movements/instruments,
+-- and an append-only change log of every accepted write.
+-- `updated_at` is always server time and doubles as the pull cursor.
+
+ALTER TABLE accounts ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE accounts ADD COLUMN deleted_at TEXT;
+ALTER TABLE accounts ADD COLUMN updated_by TEXT;
+CREATE INDEX IF NOT EXISTS idx_accounts_user_updated ON accounts(user_id, updated_at);
+
+ALTER TABLE movements ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE movements ADD COLUMN deleted_at TEXT;
+ALTER TABLE movements ADD COLUMN updated_by TEXT;
+CREATE INDEX IF NOT EXISTS idx_movements_user_updated ON movements(user_id, updated_at);
+
+ALTER TABLE instruments ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE instruments ADD COLUMN deleted_at TEXT;
+ALTER TABLE instruments ADD COLUMN updated_by TEXT;
+CREATE INDEX IF NOT EXISTS idx_instruments_user_updated ON instruments(user_id, updated_at);
+
+CREATE TABLE IF NOT EXISTS sync_changes (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  entity TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  op TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  device_id TEXT,
+  changed_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_sync_changes_user_changed ON sync_changes(user_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_sync_changes_user_entity ON sync_changes(user_id, entity, entity_id);
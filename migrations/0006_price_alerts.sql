@@ -0,0 +1,24 @@
+-- Price alert rules as versioned per-rule records, like accounts/movements.
+-- They used to live in finance_express_data as one `priceAlerts` document
+-- that the last device to push overwrote whole.
+
+CREATE TABLE IF NOT EXISTS price_alerts (
+  user_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
+  payload_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  deleted_at TEXT,
+  updated_by TEXT,
+  PRIMARY KEY (user_id, id)
+);
+CREATE INDEX IF NOT EXISTS idx_price_alerts_user_updated ON price_alerts(user_id, updated_at);
+
+-- Carry over the rules of the old document (version 1, no change log entry)
+INSERT OR IGNORE INTO price_alerts (user_id, id, payload_json, created_at, updated_at, version)
+SELECT fe.user_id, json_extract(rule.value, '$.id'), rule.value, fe.updated_at, fe.updated_at, 1
+FROM finance_express_data AS fe, json_each(fe.data, '$.rules') AS rule
+WHERE fe.id = 'priceAlerts' AND json_extract(rule.value, '$.id') IS NOT NULL;
+
+DELETE FROM finance_express_data WHERE id = 'priceAlerts';
@@ -0,0 +1,24 @@
+-- Account settings (display names, rubro/TNA and FX valuation overrides) as
+-- versioned per-account records. They used to live in finance_express_data
+-- as one `accountSettings` document that the last device to push overwrote whole.
+
+CREATE TABLE IF NOT EXISTS account_settings (
+  user_id TEXT NOT NULL DEFAULT 'default',
+  id TEXT NOT NULL,
+  payload_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  deleted_at TEXT,
+  updated_by TEXT,
+  PRIMARY KEY (user_id, id)
+);
+CREATE INDEX IF NOT EXISTS idx_account_settings_user_updated ON account_settings(user_id, updated_at);
+
+-- Carry over the settings of the old document (version 1, no change log entry)
+INSERT OR IGNORE INTO account_settings (user_id, id, payload_json, created_at, updated_at, version)
+SELECT fe.user_id, json_extract(setting.value, '$.id'), setting.value, fe.updated_at, fe.updated_at, 1
+FROM finance_express_data AS fe, json_each(fe.data, '$.settings') AS setting
+WHERE fe.id = 'accountSettings' AND json_extract(setting.value, '$.id') IS NOT NULL;
+
+DELETE FROM finance_express_data WHERE id = 'accountSettings';
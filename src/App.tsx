@@ -13,8 +13,12 @@ import { PFDetailPage } from '@/pages/pf-detail'
 import { CryptoDetailPage } from '@/pages/crypto-detail'
 import { CedearDetailPage } from '@/pages/cedear-detail'
 import { FciDetailPage } from '@/pages/fci-detail'
+import { BondDetailPage } from '@/pages/bond-detail'
 import { MovementsPageV2 as MovementsPage } from '@/pages/movements/index'
 import { HistoryPage } from '@/pages/history'
+import { TaxReportPage } from '@/pages/tax-report'
+import { RebalancePage } from '@/pages/rebalance'
+import { DcaPage } from '@/pages/dca'
 import { PersonalFinancesPage } from '@/features/personal-finances'
 import { SettingsPage } from '@/pages/settings'
 import { ImportPage } from '@/pages/import'
@@ -142,6 +146,15 @@ function App() {
                                                     </ErrorBoundary>
                                                 }
                                             />
+                                            {/* Bond Detail - Subpage */}
+                                            <Route
+                                                path="/mis-activos-v2/renta-fija/:accountId/:instrumentId"
+                                                element={
+                                                    <ErrorBoundary>
+                                                        <BondDetailPage />
+                                                    </ErrorBoundary>
+                                                }
+                                            />
                                             <Route
                                                 path="/movements"
                                                 element={
@@ -158,6 +171,33 @@ function App() {
                                                     </ErrorBoundary>
                                                 }
                                             />
+                                            {/* Rebalance planner - target allocation per rubro */}
+                                            <Route
+                                                path="/rebalanceo"
+                                                element={
+                                                    <ErrorBoundary>
+                                                        <RebalancePage />
+                                                    </ErrorBoundary>
+                                                }
+                                            />
+                                            {/* Recurring purchase plans (DCA) */}
+                                            <Route
+                                                path="/dca"
+                                                element={
+                                                    <ErrorBoundary>
+                                                        <DcaPage />
+                                                    </ErrorBoundary>
+                                                }
+                                            />
+                                            {/* Tax Report - Ganancias / Bienes Personales */}
+                                            <Route
+                                                path="/impuestos"
+                                                element={
+                                                    <ErrorBoundary>
+                                                        <TaxReportPage />
+                                                    </ErrorBoundary>
+                                                }
+                                            />
                                             {/* Personal Finances - New Module */}
                                             <Route
                                                 path="/personal-finances"
@@ -7,6 +7,7 @@
 
 import { ReactNode } from 'react'
 import { useAccrualScheduler } from '@/features/yield'
+import { useDcaScheduler } from '@/features/dca'
 import { useAutoDailySnapshotCapture } from '@/hooks/use-snapshots'
 import { useRemoteSync } from '@/hooks/use-remote-sync'
 
@@ -17,6 +18,8 @@ interface GlobalDataHandlerProps {
 export function GlobalDataHandler({ children }: GlobalDataHandlerProps) {
     // Run yield accrual once per day
     useAccrualScheduler()
+    // Turn due DCA plan dates into draft purchases once per day
+    useDcaScheduler()
     // Run dashboard V2 auto snapshot (daily upsert) when setting is enabled
     useAutoDailySnapshotCapture()
     // Bootstrap remote sync snapshot (optional, behind feature flag)
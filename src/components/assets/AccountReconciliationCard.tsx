@@ -0,0 +1,239 @@
+import { useMemo, useState } from 'react'
+import { CheckCircle2, Scale, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select } from '@/components/ui/select'
+import { useToast } from '@/components/ui/toast'
+import { cn } from '@/lib/utils'
+import { formatMoney } from '@/lib/format'
+import { useReconciliations } from '@/hooks/use-reconciliations'
+import { toLocalDateKey } from '@/lib/dates'
+import {
+    buildReconciledPeriods,
+    computeLedgerBalanceAt,
+    findCandidateMovements,
+    findPreviousReconciliation,
+    isWithinTolerance,
+    lastReconciledDate,
+    type CandidateReason,
+} from '@/domain/reconciliation'
+import type { Currency, Movement } from '@/domain/types'
+
+interface AccountReconciliationCardProps {
+    accountId: string
+    movements: Movement[]
+    currencies: Currency[]
+}
+
+const REASON_LABELS: Record<CandidateReason, string> = {
+    matches_difference: 'Coincide con la diferencia',
+    sign_flipped: 'Signo invertido',
+    duplicate: 'Posible duplicado',
+    in_period: 'En el período',
+}
+
+const MAX_CANDIDATES = 8
+
+const formatDay = (dateLocal: string) => dateLocal.split('-').reverse().join('/')
+
+export function AccountReconciliationCard({ accountId, movements, currencies }: AccountReconciliationCardProps) {
+    const { data: reconciliations, reconcile, deleteReconciliation, isSaving } = useReconciliations(accountId)
+    const { toast } = useToast()
+
+    const [currency, setCurrency] = useState<Currency>(currencies[0] ?? 'ARS')
+    const [dateLocal, setDateLocal] = useState(() => toLocalDateKey(new Date().toISOString()))
+    const [statementInput, setStatementInput] = useState('')
+    const [notes, setNotes] = useState('')
+
+    const statementBalance = statementInput.trim() === '' ? null : Number(statementInput)
+    const hasStatement = statementBalance != null && Number.isFinite(statementBalance)
+
+    const ledgerBalance = useMemo(
+        () => (dateLocal ? computeLedgerBalanceAt(movements, accountId, currency, dateLocal) : 0),
+        [movements, accountId, currency, dateLocal]
+    )
+    const difference = hasStatement ? statementBalance - ledgerBalance : 0
+    const isBalanced = isWithinTolerance(difference)
+
+    const previous = useMemo(
+        () => findPreviousReconciliation(reconciliations, accountId, currency, dateLocal),
+        [reconciliations, accountId, currency, dateLocal]
+    )
+
+    const candidates = useMemo(() => {
+        if (!hasStatement || isBalanced || !dateLocal) return []
+        return findCandidateMovements(movements, accountId, currency, dateLocal, difference, previous?.dateLocal)
+            .slice(0, MAX_CANDIDATES)
+    }, [hasStatement, isBalanced, movements, accountId, currency, dateLocal, difference, previous])
+
+    const periods = useMemo(
+        () => buildReconciledPeriods(reconciliations, movements, accountId, currency),
+        [reconciliations, movements, accountId, currency]
+    )
+    const lastDate = lastReconciledDate(reconciliations, accountId, currency)
+    const alreadyReconciled = periods.some(p => p.toDateLocal === dateLocal)
+
+    const handleReconcile = async () => {
+        if (!hasStatement || !dateLocal) return
+        try {
+            await reconcile({
+                accountId,
+                currency,
+                dateLocal,
+                statementBalance,
+                ledgerBalance,
+                notes: notes.trim() || undefined,
+            })
+            setStatementInput('')
+            setNotes('')
+            toast({
+                title: 'Cuenta conciliada',
+                description: isBalanced
+                    ? `${currency} al ${formatDay(dateLocal)} coincide con el extracto.`
+                    : `Se registró un ajuste de ${formatMoney(difference, currency)}.`,
+                variant: 'success',
+            })
+        } catch (err) {
+            console.error('Failed to save reconciliation', err)
+            toast({ title: 'Error', description: 'No se pudo guardar la conciliación.', variant: 'error' })
+        }
+    }
+
+    return (
+        <div className="md:col-span-3 bg-card border border-border rounded-xl overflow-hidden">
+            <div className="px-6 py-4 border-b border-border bg-muted/30 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Scale className="h-4 w-4 text-muted-foreground" />
+                    <h3 className="font-semibold">Conciliación</h3>
+                </div>
+                {lastDate ? (
+                    <Badge variant="positive">Conciliado al {formatDay(lastDate)}</Badge>
+                ) : (
+                    <span className="text-xs text-muted-foreground">Sin conciliar</span>
+                )}
+            </div>
+
+            <div className="p-6 space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div className="space-y-1">
+                        <Label htmlFor="rec-currency">Moneda</Label>
+                        <Select
+                            id="rec-currency"
+                            options={currencies.map(c => ({ value: c, label: c }))}
+                            value={currency}
+                            onChange={e => setCurrency(e.target.value as Currency)}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="rec-date">Fecha del extracto</Label>
+                        <Input id="rec-date" type="date" value={dateLocal} onChange={e => setDateLocal(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="rec-statement">Saldo según extracto</Label>
+                        <Input
+                            id="rec-statement"
+                            type="number"
+                            step="any"
+                            value={statementInput}
+                            onChange={e => setStatementInput(e.target.value)}
+                            placeholder="0,00"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="rec-notes">Notas</Label>
+                        <Input id="rec-notes" value={notes} onChange={e => setNotes(e.target.value)} placeholder="Opcional" />
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 pt-4 border-t border-border">
+                    <div>
+                        <p className="text-sm text-muted-foreground mb-1">Saldo en Argfolio</p>
+                        <p className="font-mono text-lg font-semibold">{formatMoney(ledgerBalance, currency)}</p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-muted-foreground mb-1">Diferencia</p>
+                        <p className={cn(
+                            'font-mono text-lg font-semibold',
+                            !hasStatement ? 'text-muted-foreground' : isBalanced ? 'text-emerald-400' : 'text-amber-400'
+                        )}>
+                            {hasStatement ? formatMoney(difference, currency) : '—'}
+                        </p>
+                    </div>
+                </div>
+
+                {candidates.length > 0 && (
+                    <div className="space-y-2">
+                        <p className="text-xs uppercase text-muted-foreground tracking-wider">
+                            Movimientos a revisar {previous ? `desde el ${formatDay(previous.dateLocal)}` : ''}
+                        </p>
+                        <div className="border border-border rounded-lg divide-y divide-border">
+                            {candidates.map(({ movement, delta, reason }) => (
+                                <div key={movement.id} className="px-4 py-2 flex items-center justify-between gap-4">
+                                    <div>
+                                        <p className="text-sm font-medium">
+                                            {movement.ticker || movement.assetName || movement.type}
+                                            <span className="text-xs text-muted-foreground ml-2">
+                                                {formatDay(toLocalDateKey(movement.datetimeISO))}
+                                            </span>
+                                        </p>
+                                        {movement.notes && <p className="text-xs text-muted-foreground">{movement.notes}</p>}
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                        <Badge variant={reason === 'in_period' ? 'outline' : 'warning'}>{REASON_LABELS[reason]}</Badge>
+                                        <span className="font-mono text-sm">{formatMoney(delta, currency)}</span>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <div className="flex justify-end">
+                    <Button onClick={handleReconcile} disabled={!hasStatement || !dateLocal || alreadyReconciled || isSaving}>
+                        {isSaving
+                            ? 'Guardando...'
+                            : isBalanced ? 'Marcar conciliado' : 'Registrar ajuste y conciliar'}
+                    </Button>
+                </div>
+                {alreadyReconciled && (
+                    <p className="text-xs text-muted-foreground text-right">
+                        Ya hay una conciliación en {currency} para esa fecha. Eliminala para volver a conciliar.
+                    </p>
+                )}
+            </div>
+
+            {periods.length > 0 && (
+                <div className="divide-y divide-border border-t border-border">
+                    {periods.map(({ reconciliation, fromDateLocal, toDateLocal, drift }) => (
+                        <div key={reconciliation.id} className="px-6 py-3 flex items-center justify-between gap-4">
+                            <div className="flex items-center gap-3">
+                                <CheckCircle2 className={cn('h-4 w-4', drift === 0 ? 'text-emerald-400' : 'text-amber-400')} />
+                                <div>
+                                    <p className="text-sm font-medium">
+                                        {fromDateLocal ? `${formatDay(fromDateLocal)} → ` : 'Hasta '}{formatDay(toDateLocal)}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground font-mono">
+                                        Extracto {formatMoney(reconciliation.statementBalance, currency)}
+                                        {reconciliation.adjustmentMovementId && ` · Ajuste ${formatMoney(reconciliation.difference, currency)}`}
+                                        {drift !== 0 && ` · Cambió ${formatMoney(drift, currency)} desde la conciliación`}
+                                        {reconciliation.notes && ` · ${reconciliation.notes}`}
+                                    </p>
+                                </div>
+                            </div>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => deleteReconciliation(reconciliation)}
+                                title={reconciliation.adjustmentMovementId ? 'Eliminar conciliación y su ajuste' : 'Eliminar conciliación'}
+                            >
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
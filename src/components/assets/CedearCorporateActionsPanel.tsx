@@ -0,0 +1,175 @@
+import { useMemo, useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select } from '@/components/ui/select'
+import { useToast } from '@/components/ui/toast'
+import { useCorporateActions } from '@/hooks/use-corporate-actions'
+import { describeCorporateAction, type CorporateActionType } from '@/domain/corporate-actions'
+
+interface CedearCorporateActionsPanelProps {
+    instrumentId: string
+    symbol: string
+    currentRatio: number
+}
+
+const TYPE_OPTIONS: { value: CorporateActionType; label: string }[] = [
+    { value: 'SPLIT', label: 'Split / reverse split' },
+    { value: 'RATIO_CHANGE', label: 'Cambio de ratio CEDEAR' },
+    { value: 'TICKER_CHANGE', label: 'Cambio de ticker' },
+]
+
+export function CedearCorporateActionsPanel({ instrumentId, symbol, currentRatio }: CedearCorporateActionsPanelProps) {
+    const { data: corporateActions, createAction, deleteAction, isSaving } = useCorporateActions()
+    const { toast } = useToast()
+
+    const [type, setType] = useState<CorporateActionType>('SPLIT')
+    const [effectiveDate, setEffectiveDate] = useState('')
+    const [ratioFromInput, setRatioFromInput] = useState('1')
+    const [ratioToInput, setRatioToInput] = useState('')
+    const [newSymbol, setNewSymbol] = useState('')
+    const [notes, setNotes] = useState('')
+
+    const actions = useMemo(
+        () => corporateActions
+            .filter(a => a.instrumentId === instrumentId)
+            .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate)),
+        [corporateActions, instrumentId]
+    )
+
+    const handleTypeChange = (next: CorporateActionType) => {
+        setType(next)
+        // Ratio changes go from the current ratio; splits are usually 1:N
+        setRatioFromInput(next === 'RATIO_CHANGE' ? String(currentRatio) : '1')
+        setRatioToInput('')
+    }
+
+    const ratioFrom = Number(ratioFromInput)
+    const ratioTo = Number(ratioToInput)
+    const isTickerChange = type === 'TICKER_CHANGE'
+    const isValid = !!effectiveDate && (isTickerChange
+        ? newSymbol.trim().length > 0 && newSymbol.trim().toUpperCase() !== symbol.toUpperCase()
+        : ratioFrom > 0 && ratioTo > 0 && ratioFrom !== ratioTo)
+
+    const handleSubmit = async () => {
+        if (!isValid) return
+        try {
+            await createAction({
+                instrumentId,
+                symbol,
+                type,
+                effectiveDate,
+                ratioFrom: isTickerChange ? undefined : ratioFrom,
+                ratioTo: isTickerChange ? undefined : ratioTo,
+                newSymbol: isTickerChange ? newSymbol.trim().toUpperCase() : undefined,
+                notes: notes.trim() || undefined,
+            })
+            setEffectiveDate('')
+            setRatioToInput('')
+            setNewSymbol('')
+            setNotes('')
+            toast({ title: 'Evento registrado', description: `${symbol}: tenencia y lotes ajustados desde la fecha efectiva.`, variant: 'success' })
+        } catch (err) {
+            console.error('Failed to save corporate action', err)
+            toast({ title: 'Error', description: 'No se pudo guardar el evento.', variant: 'error' })
+        }
+    }
+
+    return (
+        <div className="space-y-4 pt-2">
+            <div className="bg-card border border-border rounded-xl p-5 space-y-4">
+                <div>
+                    <h4 className="font-bold">Registrar evento corporativo</h4>
+                    <p className="text-xs text-muted-foreground mt-1">
+                        Los splits y cambios de ratio reexpresan las compras anteriores a la fecha efectiva: la cantidad se multiplica
+                        y el costo unitario se divide, sin alterar el total invertido.
+                    </p>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div className="space-y-1">
+                        <Label htmlFor="action-type">Tipo</Label>
+                        <Select
+                            id="action-type"
+                            options={TYPE_OPTIONS}
+                            value={type}
+                            onChange={e => handleTypeChange(e.target.value as CorporateActionType)}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="action-date">Fecha efectiva</Label>
+                        <Input id="action-date" type="date" value={effectiveDate} onChange={e => setEffectiveDate(e.target.value)} />
+                    </div>
+                    {isTickerChange ? (
+                        <div className="space-y-1 col-span-2">
+                            <Label htmlFor="action-symbol">Nuevo ticker</Label>
+                            <Input
+                                id="action-symbol"
+                                value={newSymbol}
+                                onChange={e => setNewSymbol(e.target.value)}
+                                placeholder={symbol}
+                            />
+                        </div>
+                    ) : (
+                        <>
+                            <div className="space-y-1">
+                                <Label htmlFor="action-from">{type === 'RATIO_CHANGE' ? 'Ratio anterior' : 'Antes'}</Label>
+                                <Input
+                                    id="action-from"
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    value={ratioFromInput}
+                                    onChange={e => setRatioFromInput(e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="action-to">{type === 'RATIO_CHANGE' ? 'Ratio nuevo' : 'Después'}</Label>
+                                <Input
+                                    id="action-to"
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    value={ratioToInput}
+                                    onChange={e => setRatioToInput(e.target.value)}
+                                />
+                            </div>
+                        </>
+                    )}
+                </div>
+                <div className="flex items-end gap-3">
+                    <div className="space-y-1 flex-1">
+                        <Label htmlFor="action-notes">Notas</Label>
+                        <Input id="action-notes" value={notes} onChange={e => setNotes(e.target.value)} placeholder="Opcional" />
+                    </div>
+                    <Button onClick={handleSubmit} disabled={!isValid || isSaving}>
+                        {isSaving ? 'Guardando...' : 'Registrar'}
+                    </Button>
+                </div>
+            </div>
+
+            {actions.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                    <p>No hay eventos corporativos para este CEDEAR.</p>
+                </div>
+            ) : (
+                <div className="bg-card border border-border rounded-xl divide-y divide-border">
+                    {actions.map(action => (
+                        <div key={action.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                            <div>
+                                <div className="text-sm font-medium">{describeCorporateAction(action)}</div>
+                                <div className="text-xs text-muted-foreground font-mono">
+                                    Efectivo desde {action.effectiveDate.split('-').reverse().join('/')}
+                                    {action.notes && ` · ${action.notes}`}
+                                </div>
+                            </div>
+                            <Button variant="ghost" size="icon" onClick={() => deleteAction(action.id)} title="Eliminar evento">
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
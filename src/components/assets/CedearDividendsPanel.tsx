@@ -0,0 +1,200 @@
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select } from '@/components/ui/select'
+import { useToast } from '@/components/ui/toast'
+import { useCreateMovement, useMovements } from '@/hooks/use-movements'
+import {
+    buildDividendHistory,
+    buildDividendMovement,
+    DEFAULT_DIVIDEND_WITHHOLDING_PCT,
+} from '@/domain/corporate-actions'
+import { formatMoney, formatMoneyARS, formatNumberAR } from '@/lib/format'
+
+interface CedearDividendsPanelProps {
+    instrumentId: string
+    symbol: string
+    name: string
+    accountId: string
+    sharesHeld: number
+    mepRate: number
+}
+
+const CURRENCY_OPTIONS = [
+    { value: 'USD', label: 'USD' },
+    { value: 'ARS', label: 'ARS' },
+]
+
+function todayKey(): string {
+    const d = new Date()
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+export function CedearDividendsPanel({
+    instrumentId,
+    symbol,
+    name,
+    accountId,
+    sharesHeld,
+    mepRate,
+}: CedearDividendsPanelProps) {
+    const { data: movements = [] } = useMovements()
+    const createMovement = useCreateMovement()
+    const { toast } = useToast()
+
+    const [dateInput, setDateInput] = useState(todayKey)
+    const [currency, setCurrency] = useState<'ARS' | 'USD'>('USD')
+    const [grossInput, setGrossInput] = useState('')
+    const [withholdingInput, setWithholdingInput] = useState(String(DEFAULT_DIVIDEND_WITHHOLDING_PCT))
+
+    const history = useMemo(
+        () => buildDividendHistory(movements.filter(m => m.accountId === accountId), instrumentId),
+        [movements, accountId, instrumentId]
+    )
+
+    const gross = Number(grossInput)
+    const withholdingPct = Number(withholdingInput)
+    const isValid = gross > 0 && withholdingPct >= 0 && withholdingPct <= 100 && !!dateInput
+    const previewNet = isValid ? gross * (1 - withholdingPct / 100) : 0
+
+    const handleSubmit = async () => {
+        if (!isValid) return
+        const movement = buildDividendMovement({
+            instrumentId,
+            symbol,
+            name,
+            accountId,
+            // Noon local time keeps the calendar day stable across timezones
+            datetimeISO: new Date(`${dateInput}T12:00:00`).toISOString(),
+            currency,
+            grossAmount: gross,
+            withholdingPct,
+            sharesHeld: sharesHeld > 0 ? sharesHeld : undefined,
+            fxRate: mepRate,
+        })
+        try {
+            await createMovement.mutateAsync(movement)
+            setGrossInput('')
+            toast({ title: 'Dividendo registrado', description: `${symbol}: neto ${formatMoney(movement.netAmount, currency)}`, variant: 'success' })
+        } catch (err) {
+            console.error('Failed to register dividend', err)
+            toast({ title: 'Error', description: 'No se pudo registrar el dividendo.', variant: 'error' })
+        }
+    }
+
+    return (
+        <div className="space-y-4 pt-2">
+            <div className="bg-card border border-border rounded-xl p-5 space-y-4">
+                <div>
+                    <h4 className="font-bold">Registrar dividendo</h4>
+                    <p className="text-xs text-muted-foreground mt-1">
+                        El broker acredita el neto: la retención (30% por defecto en EE.UU.) queda registrada aparte.
+                    </p>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div className="space-y-1">
+                        <Label htmlFor="dividend-date">Fecha de pago</Label>
+                        <Input id="dividend-date" type="date" value={dateInput} onChange={e => setDateInput(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="dividend-currency">Moneda</Label>
+                        <Select
+                            id="dividend-currency"
+                            options={CURRENCY_OPTIONS}
+                            value={currency}
+                            onChange={e => setCurrency(e.target.value as 'ARS' | 'USD')}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="dividend-gross">Monto bruto</Label>
+                        <Input
+                            id="dividend-gross"
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={grossInput}
+                            onChange={e => setGrossInput(e.target.value)}
+                            placeholder="0,00"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="dividend-withholding">Retención %</Label>
+                        <Input
+                            id="dividend-withholding"
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="any"
+                            value={withholdingInput}
+                            onChange={e => setWithholdingInput(e.target.value)}
+                        />
+                    </div>
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                    <p className="text-xs text-muted-foreground font-mono">
+                        Neto: {formatMoney(previewNet, currency)}
+                        {sharesHeld > 0 && gross > 0 && ` · ${formatNumberAR(gross / sharesHeld, 4, 4)} por CEDEAR`}
+                    </p>
+                    <Button onClick={handleSubmit} disabled={!isValid || createMovement.isPending}>
+                        {createMovement.isPending ? 'Guardando...' : 'Registrar'}
+                    </Button>
+                </div>
+            </div>
+
+            {history.rows.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                    <p>No hay dividendos registrados para este CEDEAR.</p>
+                </div>
+            ) : (
+                <div className="bg-card border border-border rounded-xl overflow-hidden">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm whitespace-nowrap">
+                            <thead className="bg-muted/50 border-b border-border text-xs font-mono text-muted-foreground uppercase">
+                                <tr>
+                                    <th className="px-4 py-3">Fecha</th>
+                                    <th className="px-4 py-3 text-right">Bruto</th>
+                                    <th className="px-4 py-3 text-right">Retención</th>
+                                    <th className="px-4 py-3 text-right">Neto</th>
+                                    <th className="px-4 py-3 text-right">Por CEDEAR</th>
+                                    <th className="px-4 py-3 text-right">Neto ARS</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {history.rows.map(row => (
+                                    <tr key={row.movementId} className="border-b border-border last:border-0">
+                                        <td className="px-4 py-3 text-xs">{new Date(row.dateISO).toLocaleDateString('es-AR')}</td>
+                                        <td className="px-4 py-3 text-right text-xs font-mono">{formatMoney(row.grossAmount, row.currency)}</td>
+                                        <td className="px-4 py-3 text-right text-xs font-mono text-rose-400">
+                                            {row.withholdingAmount > 0 ? `-${formatMoney(row.withholdingAmount, row.currency)}` : '—'}
+                                        </td>
+                                        <td className="px-4 py-3 text-right text-xs font-mono font-bold text-emerald-400">{formatMoney(row.netAmount, row.currency)}</td>
+                                        <td className="px-4 py-3 text-right text-xs font-mono text-muted-foreground">
+                                            {row.perShare != null ? formatNumberAR(row.perShare, 4, 4) : '—'}
+                                        </td>
+                                        <td className="px-4 py-3 text-right text-xs font-mono">{formatMoneyARS(row.netArs)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                            <tfoot className="bg-muted/30 border-t border-border text-xs font-mono">
+                                {Object.entries(history.totalsByCurrency).map(([cur, totals]) => (
+                                    <tr key={cur}>
+                                        <td className="px-4 py-3 font-bold uppercase">Total {cur}</td>
+                                        <td className="px-4 py-3 text-right">{formatMoney(totals.grossAmount, cur)}</td>
+                                        <td className="px-4 py-3 text-right text-rose-400">-{formatMoney(totals.withholdingAmount, cur)}</td>
+                                        <td className="px-4 py-3 text-right font-bold text-emerald-400">{formatMoney(totals.netAmount, cur)}</td>
+                                        <td className="px-4 py-3" colSpan={2} />
+                                    </tr>
+                                ))}
+                                <tr>
+                                    <td className="px-4 py-3 font-bold uppercase" colSpan={5}>Total cobrado (ARS)</td>
+                                    <td className="px-4 py-3 text-right font-bold">{formatMoneyARS(history.totalNetArs)}</td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react'
+import {
+    Area,
+    AreaChart,
+    CartesianGrid,
+    ReferenceLine,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from 'recharts'
+import { LineChart as LineChartIcon } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatMoneyARS, formatMoneyUSD } from '@/lib/format'
+import { usePriceSeries } from '@/hooks/use-price-history'
+
+type RangeId = '1M' | '3M' | '1A' | 'MAX'
+
+const RANGES: Array<{ id: RangeId; label: string; days: number | null }> = [
+    { id: '1M', label: '1M', days: 30 },
+    { id: '3M', label: '3M', days: 90 },
+    { id: '1A', label: '1A', days: 365 },
+    { id: 'MAX', label: 'Todo', days: null },
+]
+
+interface PriceHistoryChartProps {
+    /** Price history key: ticker, FCI instrument id or FX:<type> */
+    priceKey: string | null
+    /** Quote currency when the recorded closes don't carry one */
+    currency: 'ARS' | 'USD'
+    title?: string
+    /** Average cost drawn as a reference line (the one matching the quote currency) */
+    avgCostArs?: number
+    avgCostUsd?: number
+}
+
+function formatDateLabel(date: string): string {
+    return new Date(`${date}T00:00:00Z`).toLocaleDateString('es-AR', { day: '2-digit', month: 'short', timeZone: 'UTC' })
+}
+
+/**
+ * Daily closes recorded on this device (every price refresh + CSV imports).
+ */
+export function PriceHistoryChart({
+    priceKey,
+    currency,
+    title = 'Historial de precio',
+    avgCostArs,
+    avgCostUsd,
+}: PriceHistoryChartProps) {
+    const { data: points = [], isLoading } = usePriceSeries(priceKey)
+    const [range, setRange] = useState<RangeId>('3M')
+    const quoteCurrency = points[points.length - 1]?.currency ?? currency
+    const formatPrice = quoteCurrency === 'USD' ? formatMoneyUSD : formatMoneyARS
+    const avgCost = quoteCurrency === 'USD' ? avgCostUsd : avgCostArs
+
+    const rows = useMemo(() => {
+        const days = RANGES.find(r => r.id === range)?.days
+        const fromKey = days == null
+            ? ''
+            : new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+        return points
+            .filter(p => p.date >= fromKey)
+            .map(p => ({ date: p.date, label: formatDateLabel(p.date), close: p.close }))
+    }, [points, range])
+
+    const first = rows[0]?.close
+    const last = rows[rows.length - 1]?.close
+    const changePct = first && last ? (last / first) - 1 : null
+
+    return (
+        <div className="bg-card border border-border rounded-xl p-4">
+            <div className="flex items-center justify-between gap-3 mb-3">
+                <div className="flex items-center gap-2">
+                    <LineChartIcon className="h-4 w-4 text-primary" />
+                    <span className="text-xs font-mono text-muted-foreground uppercase">{title}</span>
+                    {changePct != null && (
+                        <span className={cn('text-xs font-mono', changePct >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
+                            {changePct >= 0 ? '+' : ''}{(changePct * 100).toFixed(2)}%
+                        </span>
+                    )}
+                </div>
+                <div className="flex gap-1">
+                    {RANGES.map(r => (
+                        <button
+                            key={r.id}
+                            onClick={() => setRange(r.id)}
+                            className={cn(
+                                'px-2 py-1 rounded-md text-xs font-medium transition-all',
+                                range === r.id
+                                    ? 'bg-primary text-primary-foreground'
+                                    : 'bg-muted/50 text-muted-foreground hover:bg-muted hover:text-foreground'
+                            )}
+                        >
+                            {r.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {rows.length < 2 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">
+                    {isLoading
+                        ? 'Cargando historial...'
+                        : 'Todavia no hay suficientes cierres. El historial se completa con cada actualizacion de precios o importando un CSV desde Historial.'}
+                </p>
+            ) : (
+                <div className="h-[220px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <AreaChart data={rows}>
+                            <defs>
+                                <linearGradient id="priceHistoryGradient" x1="0" y1="0" x2="0" y2="1">
+                                    <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3} />
+                                    <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+                                </linearGradient>
+                            </defs>
+                            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
+                            <XAxis dataKey="label" tick={{ fontSize: 11 }} stroke="#64748B" minTickGap={24} />
+                            <YAxis
+                                tick={{ fontSize: 11 }}
+                                stroke="#64748B"
+                                domain={['auto', 'auto']}
+                                width={72}
+                                tickFormatter={(v: number) => formatPrice(v)}
+                            />
+                            <Tooltip
+                                contentStyle={{
+                                    background: '#0B1121',
+                                    border: '1px solid rgba(255,255,255,0.15)',
+                                    borderRadius: 8,
+                                }}
+                                formatter={(value: number) => [formatPrice(value), 'Cierre']}
+                            />
+                            {avgCost != null && avgCost > 0 && (
+                                <ReferenceLine
+                                    y={avgCost}
+                                    stroke="#F59E0B"
+                                    strokeDasharray="4 4"
+                                    label={{ value: 'PPC', position: 'insideTopLeft', fill: '#F59E0B', fontSize: 10 }}
+                                />
+                            )}
+                            <Area
+                                type="monotone"
+                                dataKey="close"
+                                stroke="hsl(var(--primary))"
+                                strokeWidth={2}
+                                fill="url(#priceHistoryGradient)"
+                            />
+                        </AreaChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+        </div>
+    )
+}
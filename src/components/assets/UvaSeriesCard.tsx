@@ -0,0 +1,88 @@
+import { useRef, type ChangeEvent } from 'react'
+import { Trash2, Upload } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import { parseUvaCsv } from '@/domain/inflation'
+import { useUvaSeries } from '@/hooks/use-uva'
+
+/**
+ * Status + CSV import of the daily UVA series used by UVA plazos fijos.
+ */
+export function UvaSeriesCard() {
+    const { toast } = useToast()
+    const { points, latest, importPoints, clear, isSaving } = useUvaSeries()
+    const fileInputRef = useRef<HTMLInputElement>(null)
+
+    const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0]
+        event.target.value = ''
+        if (!file) return
+
+        try {
+            const parsed = parseUvaCsv(await file.text())
+            if (parsed.points.length === 0) {
+                toast({ title: 'CSV sin datos', description: 'No se encontraron valores UVA en el archivo.', variant: 'error' })
+                return
+            }
+            await importPoints(parsed.points)
+            toast({
+                title: 'UVA importado',
+                description: parsed.invalidLines.length > 0
+                    ? `${parsed.points.length} dias. Lineas omitidas: ${parsed.invalidLines.slice(0, 10).join(', ')}`
+                    : `${parsed.points.length} dias.`,
+                variant: 'success',
+            })
+        } catch (err) {
+            console.error('Failed to import UVA CSV', err)
+            toast({ title: 'Error', description: 'No se pudo leer el CSV de UVA.', variant: 'error' })
+        }
+    }
+
+    return (
+        <div className="bg-card border border-border rounded-xl p-5 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+                <div>
+                    <p className="text-xs text-muted-foreground mb-1">Serie UVA</p>
+                    {latest ? (
+                        <p className="text-sm">
+                            <span className="font-mono">{latest.value.toLocaleString('es-AR', { minimumFractionDigits: 2 })}</span>
+                            <span className="text-muted-foreground"> al {new Date(`${latest.date}T00:00:00`).toLocaleDateString('es-AR')}</span>
+                            <span className="text-muted-foreground"> · {points.length} dias</span>
+                        </p>
+                    ) : (
+                        <p className="text-sm text-amber-400">Sin datos: el total se muestra sin ajuste UVA.</p>
+                    )}
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isSaving}
+                        className="text-xs px-3 py-1.5 rounded-md border border-border hover:bg-muted flex items-center gap-1.5"
+                    >
+                        <Upload className="w-3.5 h-3.5" />
+                        Importar CSV
+                    </button>
+                    {points.length > 0 && (
+                        <button
+                            onClick={() => clear()}
+                            disabled={isSaving}
+                            className="text-xs px-2 py-1.5 rounded-md border border-border text-muted-foreground hover:text-destructive"
+                            aria-label="Borrar serie UVA"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                    )}
+                </div>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,text/csv,.txt"
+                    className="hidden"
+                    onChange={handleImport}
+                />
+            </div>
+            <p className="text-xs text-muted-foreground">
+                CSV del BCRA o datos.gob.ar con <span className="font-mono">fecha,valor</span>, un dia por linea.
+            </p>
+        </div>
+    )
+}
@@ -3,5 +3,7 @@ export { BuyLotsTable } from './BuyLotsTable'
 export { SellMovementsTable } from './SellMovementsTable'
 export { SellPreviewPanel } from './SellPreviewPanel'
 export { PortfolioSummaryCard } from './PortfolioSummaryCard'
+export { PriceHistoryChart } from './PriceHistoryChart'
+export { UvaSeriesCard } from './UvaSeriesCard'
 
 export { AssetDrawer } from './AssetDrawer'
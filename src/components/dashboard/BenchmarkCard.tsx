@@ -0,0 +1,363 @@
+import { useMemo, useState } from 'react'
+import {
+    CartesianGrid,
+    Legend,
+    Line,
+    LineChart,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from 'recharts'
+import { Info, Loader2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { Movement, Snapshot } from '@/domain/types'
+import type { PortfolioV2 } from '@/features/portfolioV2'
+import { getSnapshotForPeriod } from '@/features/dashboardV2/snapshot-helpers'
+import {
+    BENCHMARK_CURRENCY,
+    BENCHMARK_IDS,
+    BENCHMARK_LABELS,
+    compareWithBenchmarks,
+    computePeriodNetFlows,
+    type BenchmarkCurrency,
+    type BenchmarkId,
+    type BenchmarkPoint,
+    type PortfolioValuePoint,
+} from '@/features/dashboardV2/benchmarks'
+import { useIndicatorHistories } from '@/hooks/use-benchmarks'
+import { useCpiSeries } from '@/hooks/use-cpi'
+import { cpiToIndexPoints } from '@/domain/inflation'
+import { CpiSeriesEditor } from './CpiSeriesEditor'
+import type { IndicatorHistoryId } from '@/server/market/indicatorsProvider'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type BenchmarkRange = '90D' | '1Y' | 'MAX'
+
+const BENCHMARK_RANGES: BenchmarkRange[] = ['90D', '1Y', 'MAX']
+
+const BENCHMARK_COLORS: Record<BenchmarkId | 'portfolio', string> = {
+    portfolio: '#6366F1',
+    merval: '#10B981',
+    sp500: '#0EA5E9',
+    ccl: '#F59E0B',
+    cpi: '#F43F5E',
+}
+
+function formatPct(value: number | null): string {
+    if (value === null || !Number.isFinite(value)) return 'N/A'
+    return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`
+}
+
+function formatRatio(value: number | null): string {
+    if (value === null || !Number.isFinite(value)) return 'N/A'
+    return value.toFixed(2)
+}
+
+function pctColor(value: number | null): string {
+    if (value === null) return 'text-slate-400'
+    if (value > 0.0001) return 'text-emerald-400'
+    if (value < -0.0001) return 'text-rose-400'
+    return 'text-slate-400'
+}
+
+function formatShortDate(dateKey: string): string {
+    const date = new Date(`${dateKey}T00:00:00`)
+    return date.toLocaleDateString('es-AR', { day: '2-digit', month: 'short' })
+}
+
+function toDateKey(date: Date): string {
+    return date.toISOString().slice(0, 10)
+}
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+interface BenchmarkCardProps {
+    portfolio: PortfolioV2
+    snapshots: Snapshot[]
+    movements: Movement[]
+}
+
+export function BenchmarkCard({ portfolio, snapshots, movements }: BenchmarkCardProps) {
+    const [range, setRange] = useState<BenchmarkRange>('1Y')
+    const [currency, setCurrency] = useState<BenchmarkCurrency>('ARS')
+    const [selected, setSelected] = useState<BenchmarkId[]>(['merval', 'ccl'])
+    const [cpiEditorOpen, setCpiEditorOpen] = useState(false)
+    const { months: cpiMonths } = useCpiSeries()
+
+    // Snapshot series (+ today's live value), same source as the evolution chart
+    const valuePoints = useMemo(() => {
+        const snapshotsV2Asc = snapshots
+            .filter((snapshot) => snapshot.source === 'v2')
+            .sort((a, b) => a.dateLocal.localeCompare(b.dateLocal))
+
+        const baseline = getSnapshotForPeriod(snapshotsV2Asc, range, new Date())
+        const inRange = baseline ? snapshotsV2Asc.filter((snapshot) => snapshot.dateLocal >= baseline.dateLocal) : snapshotsV2Asc
+
+        const todayKey = toDateKey(new Date())
+        const series = inRange
+            .filter((snapshot) => snapshot.dateLocal !== todayKey)
+            .map((snapshot) => ({ date: snapshot.dateLocal, ars: snapshot.totalARS, usd: snapshot.totalUSD }))
+        series.push({ date: todayKey, ars: portfolio.kpis.totalArs, usd: portfolio.kpis.totalUsd })
+        return series
+    }, [snapshots, portfolio.kpis.totalArs, portfolio.kpis.totalUsd, range])
+
+    const points = useMemo((): PortfolioValuePoint[] => {
+        const dates = valuePoints.map((point) => point.date)
+        const flows = computePeriodNetFlows(movements, {
+            officialSell: portfolio.fx.officialSell || 0,
+            mepSell: portfolio.fx.mepSell || 0,
+            cryptoSell: portfolio.fx.cryptoSell || 0,
+        }, dates, currency)
+        return valuePoints.map((point, idx) => ({
+            date: point.date,
+            value: currency === 'ARS' ? point.ars : point.usd,
+            flow: flows[idx],
+        }))
+    }, [valuePoints, movements, portfolio.fx, currency])
+
+    const marketIds = selected.filter((id): id is IndicatorHistoryId => id !== 'cpi')
+    const fromDate = points.length >= 2 ? points[0].date : null
+    const histories = useIndicatorHistories(marketIds, fromDate)
+
+    const cpiPoints = useMemo(() => cpiToIndexPoints(cpiMonths), [cpiMonths])
+
+    const comparison = useMemo(() => {
+        if (points.length < 2) return null
+        const series: Partial<Record<BenchmarkId, BenchmarkPoint[]>> = { ...histories.data }
+        if (selected.includes('cpi') && cpiPoints.length > 0) series.cpi = cpiPoints
+        return compareWithBenchmarks(points, series)
+    }, [points, histories.data, selected, cpiPoints])
+
+    const chartRows = useMemo(
+        () => (comparison?.rows ?? []).map((row) => ({ ...row, label: formatShortDate(row.date) })),
+        [comparison]
+    )
+
+    const toggleBenchmark = (id: BenchmarkId) => {
+        if (id === 'cpi' && cpiMonths.length === 0) {
+            setCpiEditorOpen(true)
+            return
+        }
+        setSelected((prev) => prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id])
+    }
+
+    const mismatched = selected.filter((id) => BENCHMARK_CURRENCY[id] !== currency)
+
+    return (
+        <section className="glass-panel rounded-xl border border-white/10 p-5">
+            {/* Header */}
+            <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4 mb-4">
+                <div>
+                    <h3 className="font-display text-lg text-white">Comparacion vs Benchmarks</h3>
+                    <p className="text-xs text-slate-400 mt-1">
+                        Base 100 al inicio del periodo. Tu cartera se indexa por rendimiento ponderado en el tiempo (sin aportes ni retiros).
+                    </p>
+                </div>
+
+                <div className="flex items-center gap-3">
+                    <div className="bg-slate-900 p-0.5 rounded-lg border border-white/10 flex">
+                        {(['ARS', 'USD'] as BenchmarkCurrency[]).map((cur) => (
+                            <button
+                                key={cur}
+                                onClick={() => setCurrency(cur)}
+                                className={cn(
+                                    'px-2 py-1 rounded text-xs transition-all',
+                                    currency === cur ? 'font-bold bg-white/10 text-white shadow' : 'font-medium text-slate-400 hover:text-white'
+                                )}
+                            >
+                                {cur}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex bg-slate-900/50 p-0.5 rounded-lg border border-white/5">
+                        {BENCHMARK_RANGES.map((item) => (
+                            <button
+                                key={item}
+                                onClick={() => setRange(item)}
+                                className={cn(
+                                    'px-2 py-1 text-xs rounded transition font-medium',
+                                    range === item ? 'bg-white/10 text-white shadow-sm' : 'text-slate-400 hover:text-white'
+                                )}
+                            >
+                                {item}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {/* Benchmark picker */}
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+                {BENCHMARK_IDS.map((id) => {
+                    const active = selected.includes(id)
+                    return (
+                        <button
+                            key={id}
+                            onClick={() => toggleBenchmark(id)}
+                            className={cn(
+                                'px-3 py-1 rounded-full text-xs border transition flex items-center gap-1.5',
+                                active ? 'bg-white/10 text-white border-white/20' : 'text-slate-400 border-white/5 hover:text-white'
+                            )}
+                        >
+                            <span className="w-2 h-2 rounded-full" style={{ background: BENCHMARK_COLORS[id] }} />
+                            {BENCHMARK_LABELS[id]}
+                            {histories.failed.includes(id as IndicatorHistoryId) && <span className="text-rose-400">!</span>}
+                        </button>
+                    )
+                })}
+                <button
+                    onClick={() => setCpiEditorOpen((open) => !open)}
+                    className="text-[10px] uppercase font-mono text-slate-500 hover:text-white ml-1"
+                >
+                    {cpiMonths.length > 0 ? `IPC cargado (${cpiMonths.length} meses)` : 'Cargar IPC'}
+                </button>
+                {histories.isLoading && <Loader2 className="w-3.5 h-3.5 animate-spin text-slate-400" />}
+            </div>
+
+            {cpiEditorOpen && (
+                <CpiSeriesEditor
+                    onClose={() => setCpiEditorOpen(false)}
+                    onSaved={(months) => setSelected((prev) => {
+                        if (months.length === 0) return prev.filter((item) => item !== 'cpi')
+                        return prev.includes('cpi') ? prev : [...prev, 'cpi']
+                    })}
+                />
+            )}
+
+            {!comparison ? (
+                <div className="py-10 text-center text-sm text-slate-400">
+                    Se necesitan al menos dos snapshots en el periodo para comparar.
+                </div>
+            ) : (
+                <>
+                    <div className="h-[280px] w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={chartRows}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
+                                <XAxis dataKey="label" tick={{ fontSize: 11 }} stroke="#64748B" />
+                                <YAxis tick={{ fontSize: 11 }} stroke="#64748B" domain={['auto', 'auto']} />
+                                <Tooltip
+                                    contentStyle={{
+                                        background: '#0B1121',
+                                        border: '1px solid rgba(255,255,255,0.15)',
+                                        borderRadius: 8,
+                                    }}
+                                    formatter={(value: number, key: string) => [
+                                        Number.isFinite(value) ? value.toFixed(2) : 'N/A',
+                                        key === 'portfolio' ? 'Mi cartera' : BENCHMARK_LABELS[key as BenchmarkId] ?? key,
+                                    ]}
+                                />
+                                <Legend
+                                    formatter={(key: string) => key === 'portfolio' ? 'Mi cartera' : BENCHMARK_LABELS[key as BenchmarkId] ?? key}
+                                    wrapperStyle={{ fontSize: 11 }}
+                                />
+                                <Line type="monotone" dataKey="portfolio" stroke={BENCHMARK_COLORS.portfolio} strokeWidth={2} dot={false} connectNulls />
+                                {comparison.benchmarks.map((stat) => (
+                                    <Line
+                                        key={stat.id}
+                                        type="monotone"
+                                        dataKey={stat.id}
+                                        stroke={BENCHMARK_COLORS[stat.id]}
+                                        strokeWidth={1.5}
+                                        dot={false}
+                                        connectNulls
+                                    />
+                                ))}
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2 mt-4">
+                        <ReturnTile
+                            label="TWR (ponderado en el tiempo)"
+                            value={comparison.twr}
+                            annualized={comparison.twrAnnualized}
+                            hint="Rendimiento de las inversiones, neutral a aportes y retiros."
+                        />
+                        <ReturnTile
+                            label="MWR (ponderado por dinero)"
+                            value={comparison.mwr}
+                            annualized={comparison.mwrAnnualized}
+                            hint="TIR de tus flujos: pesa mas los periodos con mas capital."
+                        />
+                    </div>
+
+                    {comparison.benchmarks.length > 0 && (
+                        <div className="mt-4 overflow-x-auto">
+                            <table className="w-full text-xs font-mono">
+                                <thead className="text-[10px] uppercase text-slate-500">
+                                    <tr>
+                                        <th className="text-left py-2 font-medium">Benchmark</th>
+                                        <th className="text-right py-2 font-medium">Retorno</th>
+                                        <th className="text-right py-2 font-medium">Exceso</th>
+                                        <th className="text-right py-2 font-medium">Alfa (anual)</th>
+                                        <th className="text-right py-2 font-medium">Beta</th>
+                                        <th className="text-right py-2 font-medium">Correl.</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-white/5">
+                                    {comparison.benchmarks.map((stat) => (
+                                        <tr key={stat.id}>
+                                            <td className="py-2 text-slate-300 flex items-center gap-1.5">
+                                                <span className="w-2 h-2 rounded-full" style={{ background: BENCHMARK_COLORS[stat.id] }} />
+                                                {stat.label}
+                                            </td>
+                                            <td className={cn('py-2 text-right', pctColor(stat.periodReturn))}>{formatPct(stat.periodReturn)}</td>
+                                            <td className={cn('py-2 text-right', pctColor(stat.excessReturn))}>{formatPct(stat.excessReturn)}</td>
+                                            <td className={cn('py-2 text-right', pctColor(stat.alpha))}>{formatPct(stat.alpha)}</td>
+                                            <td className="py-2 text-right text-white">{formatRatio(stat.beta)}</td>
+                                            <td className="py-2 text-right text-white">{formatRatio(stat.correlation)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="text-[10px] text-slate-500 mt-2">
+                                Alfa y beta requieren al menos 10 observaciones diarias en comun.
+                            </p>
+                        </div>
+                    )}
+
+                    {mismatched.length > 0 && (
+                        <div className="mt-3 flex items-start gap-2 text-[11px] text-amber-300/80">
+                            <Info className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                            <span>
+                                {mismatched.map((id) => `${BENCHMARK_LABELS[id]} (${BENCHMARK_CURRENCY[id]})`).join(', ')} no cotiza en {currency}:
+                                el exceso y el alfa mezclan rendimiento con tipo de cambio.
+                            </span>
+                        </div>
+                    )}
+                </>
+            )}
+        </section>
+    )
+}
+
+// ---------------------------------------------------------------------------
+// Return tile
+// ---------------------------------------------------------------------------
+
+function ReturnTile({
+    label,
+    value,
+    annualized,
+    hint,
+}: {
+    label: string
+    value: number | null
+    annualized: number | null
+    hint: string
+}) {
+    return (
+        <div className="p-3 rounded-lg bg-white/5" title={hint}>
+            <div className="text-[10px] text-slate-500 font-mono uppercase">{label}</div>
+            <div className={cn('text-lg font-mono font-bold', pctColor(value))}>{formatPct(value)}</div>
+            <div className="text-[10px] text-slate-500 font-mono">Anualizado: {formatPct(annualized)}</div>
+        </div>
+    )
+}
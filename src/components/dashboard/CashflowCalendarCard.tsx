@@ -0,0 +1,196 @@
+import { useMemo, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { formatMoneyARS, formatMoneyUSD } from '@/lib/format'
+import type { Movement } from '@/domain/types'
+import type { PortfolioV2 } from '@/features/portfolioV2'
+import { useInstruments } from '@/hooks/use-instruments'
+import { toSnapshotDateKey } from '@/features/dashboardV2/snapshot-v2'
+import { computeProjectedEarningsByRubro } from '@/features/dashboardV2/projected-earnings'
+import {
+    buildCashflowCalendar,
+    groupCashflowsByMonth,
+    DEFAULT_CALENDAR_MONTHS,
+    type CashflowEvent,
+    type CashflowKind,
+} from '@/features/dashboardV2/cashflow-calendar'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type CalendarCurrency = 'ARS' | 'USD'
+
+const KIND_META: Record<CashflowKind, { label: string; color: string }> = {
+    pf_maturity: { label: 'Vencimiento PF', color: '#F59E0B' },
+    bond_coupon: { label: 'Renta', color: '#14B8A6' },
+    bond_amortization: { label: 'Amortización', color: '#0EA5E9' },
+    dividend: { label: 'Dividendo', color: '#A855F7' },
+}
+
+function formatMonth(monthKey: string): string {
+    const date = new Date(`${monthKey}-01T00:00:00`)
+    return date.toLocaleDateString('es-AR', { month: 'short', year: '2-digit' })
+}
+
+function formatDay(dateKey: string): string {
+    const date = new Date(`${dateKey}T00:00:00`)
+    return date.toLocaleDateString('es-AR', { day: '2-digit', month: 'short' })
+}
+
+function formatNative(event: CashflowEvent): string {
+    return event.currency === 'USD' ? formatMoneyUSD(event.amount) : formatMoneyARS(event.amount)
+}
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+interface CashflowCalendarCardProps {
+    portfolio: PortfolioV2
+    movements: Movement[]
+}
+
+export function CashflowCalendarCard({ portfolio, movements }: CashflowCalendarCardProps) {
+    const [currency, setCurrency] = useState<CalendarCurrency>('ARS')
+    const { data: instruments = [] } = useInstruments()
+    const currentMonthKey = toSnapshotDateKey().slice(0, 7)
+    const [selectedMonth, setSelectedMonth] = useState<string | null>(null)
+
+    const events = useMemo(
+        () => buildCashflowCalendar({ portfolio, movements, instruments }),
+        [portfolio, movements, instruments]
+    )
+    const months = useMemo(
+        () => groupCashflowsByMonth(events, currentMonthKey, DEFAULT_CALENDAR_MONTHS),
+        [events, currentMonthKey]
+    )
+    const projected = useMemo(
+        () => computeProjectedEarningsByRubro({ portfolio, horizon: '1A', cashflows: events }),
+        [portfolio, events]
+    )
+
+    const isUsd = currency === 'USD'
+    const format = isUsd ? formatMoneyUSD : formatMoneyARS
+    const totalInflows = months.reduce((sum, m) => sum + (isUsd ? m.totalUsd : m.totalArs), 0)
+    const projectedIncome = isUsd ? projected.totals.projectedGainUsd : projected.totals.projectedGainArs
+    const maxMonth = Math.max(...months.map(m => (isUsd ? m.totalUsd : m.totalArs)), 0)
+    const selected = months.find(m => m.monthKey === selectedMonth) ?? null
+
+    return (
+        <section className="glass-panel rounded-xl border border-white/10 p-5">
+            {/* Header */}
+            <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4 mb-4">
+                <div>
+                    <h3 className="font-display text-lg text-white">Calendario de cobros</h3>
+                    <p className="text-xs text-slate-400 mt-1">
+                        Vencimientos de plazos fijos, renta y amortización de bonos y dividendos esperados (repiten los del último año).
+                    </p>
+                </div>
+
+                <div className="bg-slate-900 p-0.5 rounded-lg border border-white/10 flex">
+                    {(['ARS', 'USD'] as CalendarCurrency[]).map((cur) => (
+                        <button
+                            key={cur}
+                            onClick={() => setCurrency(cur)}
+                            className={cn(
+                                'px-2 py-1 rounded text-xs transition-all',
+                                currency === cur ? 'font-bold bg-white/10 text-white shadow' : 'font-medium text-slate-400 hover:text-white'
+                            )}
+                        >
+                            {cur}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 mb-4">
+                <div className="p-3 rounded-lg bg-white/5" title="Todo lo que se acredita en los proximos 12 meses, capital incluido.">
+                    <div className="text-[10px] text-slate-500 font-mono uppercase">Cobros 12 meses</div>
+                    <div className="text-lg font-mono font-bold text-white">{format(totalInflows)}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-white/5" title="Ganancia proyectada a 1 año: devengado de billeteras y PF mas cupones y dividendos.">
+                    <div className="text-[10px] text-slate-500 font-mono uppercase">Ingresos proyectados 1A</div>
+                    <div className="text-lg font-mono font-bold text-emerald-400">{format(projectedIncome)}</div>
+                </div>
+            </div>
+
+            {/* Month grid */}
+            <div className="grid grid-cols-3 md:grid-cols-4 xl:grid-cols-6 gap-2">
+                {months.map((month) => {
+                    const total = isUsd ? month.totalUsd : month.totalArs
+                    const kinds = [...new Set(month.events.map(e => e.kind))]
+                    return (
+                        <button
+                            key={month.monthKey}
+                            onClick={() => setSelectedMonth(prev => prev === month.monthKey ? null : month.monthKey)}
+                            disabled={month.events.length === 0}
+                            className={cn(
+                                'p-2.5 rounded-lg border text-left transition',
+                                selectedMonth === month.monthKey ? 'border-primary/60 bg-white/10' : 'border-white/5 bg-white/5 hover:border-white/20',
+                                month.events.length === 0 && 'opacity-50 cursor-default hover:border-white/5'
+                            )}
+                        >
+                            <div className="text-[10px] text-slate-500 font-mono uppercase">{formatMonth(month.monthKey)}</div>
+                            <div className="text-sm font-mono text-white tabular-nums truncate">{total > 0 ? format(total) : '—'}</div>
+                            <div className="mt-1.5 h-1 rounded-full bg-slate-800 overflow-hidden">
+                                <div className="h-full bg-primary/70" style={{ width: `${maxMonth > 0 ? (total / maxMonth) * 100 : 0}%` }} />
+                            </div>
+                            <div className="flex gap-1 mt-1.5 h-2">
+                                {kinds.map(kind => (
+                                    <span key={kind} className="w-2 h-2 rounded-full" style={{ background: KIND_META[kind].color }} />
+                                ))}
+                            </div>
+                        </button>
+                    )
+                })}
+            </div>
+
+            <div className="flex flex-wrap gap-3 mt-3">
+                {(Object.keys(KIND_META) as CashflowKind[]).map(kind => (
+                    <span key={kind} className="text-[10px] text-slate-400 flex items-center gap-1.5">
+                        <span className="w-2 h-2 rounded-full" style={{ background: KIND_META[kind].color }} />
+                        {KIND_META[kind].label}
+                    </span>
+                ))}
+            </div>
+
+            {events.length === 0 && (
+                <div className="py-6 text-center text-sm text-slate-400">
+                    No hay cobros programados en los próximos 12 meses.
+                </div>
+            )}
+
+            {selected && (
+                <div className="mt-4 overflow-x-auto">
+                    <table className="w-full text-xs font-mono">
+                        <thead className="text-[10px] uppercase text-slate-500">
+                            <tr>
+                                <th className="text-left py-2 font-medium">Fecha</th>
+                                <th className="text-left py-2 font-medium">Activo</th>
+                                <th className="text-left py-2 font-medium">Tipo</th>
+                                <th className="text-right py-2 font-medium">Monto</th>
+                                <th className="text-right py-2 font-medium">{currency}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {selected.events.map((event, idx) => (
+                                <tr key={`${event.itemId}-${event.kind}-${idx}`}>
+                                    <td className="py-2 text-slate-300">{formatDay(event.dateKey)}</td>
+                                    <td className="py-2 text-white">{event.label}</td>
+                                    <td className="py-2 text-slate-400">
+                                        <span className="inline-flex items-center gap-1.5">
+                                            <span className="w-2 h-2 rounded-full" style={{ background: KIND_META[event.kind].color }} />
+                                            {KIND_META[event.kind].label}{event.estimated ? ' (est.)' : ''}
+                                        </span>
+                                    </td>
+                                    <td className="py-2 text-right text-slate-300">{formatNative(event)}</td>
+                                    <td className="py-2 text-right text-white">{format(isUsd ? event.amountUsd : event.amountArs)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </section>
+    )
+}
@@ -0,0 +1,112 @@
+import { useRef, useState, type ChangeEvent } from 'react'
+import { Upload } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import { mergeCpiMonths, parseCpiCsv, parseCpiSeries, type CpiMonth } from '@/domain/inflation'
+import { useCpiSeries } from '@/hooks/use-cpi'
+
+interface CpiSeriesEditorProps {
+    onClose: () => void
+    /** Called with the stored series after a save or import */
+    onSaved?: (months: CpiMonth[]) => void
+}
+
+/**
+ * Manual editor + CSV import for the monthly CPI series (shared by the
+ * benchmark and results cards).
+ */
+export function CpiSeriesEditor({ onClose, onSaved }: CpiSeriesEditorProps) {
+    const { toast } = useToast()
+    const { months, setMonths, importMonths, isSaving } = useCpiSeries()
+    const [text, setText] = useState(() => months.map((m) => `${m.month} ${m.pct}`).join('\n'))
+    const [invalidLines, setInvalidLines] = useState<number[]>([])
+    const fileInputRef = useRef<HTMLInputElement>(null)
+
+    const handleSave = async () => {
+        const parsed = parseCpiSeries(text)
+        setInvalidLines(parsed.invalidLines)
+        if (parsed.invalidLines.length > 0) return
+        await setMonths(parsed.months)
+        onSaved?.(parsed.months)
+        onClose()
+    }
+
+    const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0]
+        event.target.value = ''
+        if (!file) return
+
+        try {
+            const parsed = parseCpiCsv(await file.text())
+            if (parsed.months.length === 0) {
+                toast({ title: 'CSV sin datos', description: 'No se encontraron meses de IPC en el archivo.', variant: 'error' })
+                return
+            }
+            await importMonths(parsed.months)
+            const merged = mergeCpiMonths(months, parsed.months)
+            setText(merged.map((m) => `${m.month} ${m.pct}`).join('\n'))
+            setInvalidLines([])
+            onSaved?.(merged)
+            toast({
+                title: 'IPC importado',
+                description: parsed.invalidLines.length > 0
+                    ? `${parsed.months.length} meses. Lineas omitidas: ${parsed.invalidLines.join(', ')}`
+                    : `${parsed.months.length} meses.`,
+                variant: 'success',
+            })
+        } catch (err) {
+            console.error('Failed to import CPI CSV', err)
+            toast({ title: 'Error', description: 'No se pudo leer el CSV de IPC.', variant: 'error' })
+        }
+    }
+
+    return (
+        <div className="mb-4 p-3 rounded-lg bg-slate-900/50 border border-white/10 space-y-2">
+            <p className="text-xs text-slate-400">
+                Un mes por linea con la variacion mensual en %, por ejemplo <span className="font-mono text-slate-300">2025-01 2,2</span>.
+                Tambien podes importar el CSV de INDEC / datos.gob.ar (nivel general o variacion mensual).
+            </p>
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={5}
+                className="w-full rounded-md bg-slate-950 border border-white/10 p-2 text-xs font-mono text-slate-200"
+                placeholder={'2025-01 2.2\n2025-02 2.4'}
+            />
+            {invalidLines.length > 0 && (
+                <p className="text-xs text-rose-400">Lineas invalidas: {invalidLines.join(', ')}</p>
+            )}
+            <div className="flex justify-between gap-2">
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isSaving}
+                    className="text-xs text-slate-300 hover:text-white px-3 py-1 rounded-md border border-white/10 flex items-center gap-1.5"
+                >
+                    <Upload className="w-3.5 h-3.5" />
+                    Importar CSV
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,text/csv,.txt"
+                    className="hidden"
+                    onChange={handleImport}
+                />
+                <div className="flex gap-2">
+                    <button
+                        onClick={onClose}
+                        className="text-xs text-slate-400 hover:text-white px-3 py-1 rounded-md border border-white/10"
+                    >
+                        Cancelar
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="text-xs text-white bg-primary hover:bg-primary/90 px-3 py-1 rounded-md"
+                    >
+                        Guardar IPC
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -9,12 +9,17 @@ import type { PortfolioV2 } from '@/features/portfolioV2'
 import { computeResultsCardModel } from '@/features/dashboardV2/results-service'
 import {
     RESULTS_PERIODS,
+    type Money,
+    type ResultsAttribution,
     type ResultsCardModel,
     type ResultsCategoryRow,
+    type ResultsDisplayCurrency,
     type ResultsPeriodKey,
 } from '@/features/dashboardV2/results-types'
 import { useAccrualScheduler } from '@/features/yield/useAccrualScheduler'
+import { useCpiSeries } from '@/hooks/use-cpi'
 import { useQueryClient } from '@tanstack/react-query'
+import { CpiSeriesEditor } from './CpiSeriesEditor'
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -44,6 +49,46 @@ function formatPnlUsd(value: number | null): string {
     return formatDeltaMoneyUSD(value)
 }
 
+const DISPLAY_CURRENCIES: Array<{ key: ResultsDisplayCurrency; label: string }> = [
+    { key: 'ARS', label: 'ARS' },
+    { key: 'USD', label: 'USD' },
+    { key: 'REAL', label: 'Real' },
+]
+
+interface PnlLine {
+    value: number | null
+    text: string
+}
+
+/**
+ * Primary and secondary lines of a P&L for the selected currency. Crypto leads
+ * with USD in the ARS view; the real view pairs constant pesos with nominal ARS.
+ */
+function pnlLines(pnl: Money, display: ResultsDisplayCurrency, isCrypto = false): [PnlLine, PnlLine] {
+    const ars = { value: pnl.ars, text: formatPnlArs(pnl.ars) }
+    const usd = { value: pnl.usd, text: formatPnlUsd(pnl.usd) }
+    if (display === 'REAL') {
+        const real = pnl.real ?? null
+        return [{ value: real, text: formatPnlArs(real) }, ars]
+    }
+    if (display === 'USD' || isCrypto) return [usd, ars]
+    return [ars, usd]
+}
+
+/**
+ * Price / FX split line. When the rubro holds assets valued at more than one
+ * dollar, the FX part is broken down by rate family.
+ */
+function attributionText(attribution: ResultsAttribution, display: 'ARS' | 'USD'): string {
+    const format = display === 'USD' ? formatPnlUsd : formatPnlArs
+    const pick = (value: Money) => display === 'USD' ? value.usd : value.ars
+    const text = `Precio ${format(pick(attribution.price))} · Tipo de cambio ${format(pick(attribution.fx))}`
+    const families = Object.entries(attribution.fxByFamily)
+        .filter(([, fx]) => Math.abs(pick(fx) ?? 0) > 0.005)
+    if (families.length < 2) return text
+    return `${text} (${families.map(([family, fx]) => `${family} ${format(pick(fx))}`).join(' · ')})`
+}
+
 function statusBadge(status: ResultsCardModel['meta']['snapshotStatus']) {
     switch (status) {
         case 'ok':
@@ -73,16 +118,30 @@ interface ResultsCardProps {
 
 export function ResultsCard({ portfolio, snapshots, movements }: ResultsCardProps) {
     const [periodKey, setPeriodKey] = useState<ResultsPeriodKey>('TOTAL')
+    const [displayCurrency, setDisplayCurrency] = useState<ResultsDisplayCurrency>('ARS')
+    const [cpiEditorOpen, setCpiEditorOpen] = useState(false)
     const [selectedCategory, setSelectedCategory] = useState<ResultsCategoryRow | null>(null)
+    const { deflator } = useCpiSeries()
 
+    const cpi = displayCurrency === 'REAL' ? deflator : null
     const model = useMemo(() => {
         if (portfolio.isLoading) return null
-        return computeResultsCardModel({ portfolio, snapshots, movements, periodKey })
-    }, [portfolio, snapshots, movements, periodKey])
+        return computeResultsCardModel({ portfolio, snapshots, movements, periodKey, cpi })
+    }, [portfolio, snapshots, movements, periodKey, cpi])
 
     if (!model) return null
 
     const badge = statusBadge(model.meta.snapshotStatus)
+    const [primaryTotal, secondaryTotal] = pnlLines(model.totals.pnl, displayCurrency)
+
+    const selectDisplayCurrency = (key: ResultsDisplayCurrency) => {
+        // The real view needs a CPI series: ask for it first
+        if (key === 'REAL' && !deflator) {
+            setCpiEditorOpen(true)
+            return
+        }
+        setDisplayCurrency(key)
+    }
 
     return (
         <>
@@ -109,48 +168,84 @@ export function ResultsCard({ portfolio, snapshots, movements }: ResultsCardProp
                         </p>
                     </div>
 
-                    {/* Period toggles */}
-                    <div className="flex bg-slate-950/50 p-1 rounded-lg border border-white/10 w-full sm:w-auto overflow-x-auto hide-scrollbar">
-                        {RESULTS_PERIODS.map((p) => (
-                            <button
-                                key={p}
-                                onClick={() => setPeriodKey(p)}
-                                className={cn(
-                                    'px-3 py-1.5 rounded-md text-xs font-medium transition-all w-full sm:w-auto shrink-0',
-                                    periodKey === p
-                                        ? 'font-bold bg-white/10 text-white shadow-sm'
-                                        : 'text-slate-400 hover:text-white',
-                                )}
-                            >
-                                {p}
-                            </button>
-                        ))}
+                    <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                        {/* Currency toggles */}
+                        <div className="flex bg-slate-950/50 p-1 rounded-lg border border-white/10 shrink-0">
+                            {DISPLAY_CURRENCIES.map(({ key, label }) => (
+                                <button
+                                    key={key}
+                                    onClick={() => selectDisplayCurrency(key)}
+                                    title={key === 'REAL' ? 'Resultado en pesos de hoy (ajustado por IPC)' : undefined}
+                                    className={cn(
+                                        'px-3 py-1.5 rounded-md text-xs font-medium transition-all w-full sm:w-auto shrink-0',
+                                        displayCurrency === key
+                                            ? 'font-bold bg-white/10 text-white shadow-sm'
+                                            : 'text-slate-400 hover:text-white',
+                                    )}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* Period toggles */}
+                        <div className="flex bg-slate-950/50 p-1 rounded-lg border border-white/10 w-full sm:w-auto overflow-x-auto hide-scrollbar">
+                            {RESULTS_PERIODS.map((p) => (
+                                <button
+                                    key={p}
+                                    onClick={() => setPeriodKey(p)}
+                                    className={cn(
+                                        'px-3 py-1.5 rounded-md text-xs font-medium transition-all w-full sm:w-auto shrink-0',
+                                        periodKey === p
+                                            ? 'font-bold bg-white/10 text-white shadow-sm'
+                                            : 'text-slate-400 hover:text-white',
+                                    )}
+                                >
+                                    {p}
+                                </button>
+                            ))}
+                        </div>
                     </div>
                 </div>
 
+                {cpiEditorOpen && (
+                    <div className="relative z-10">
+                        <CpiSeriesEditor
+                            onClose={() => setCpiEditorOpen(false)}
+                            onSaved={(months) => setDisplayCurrency(months.length > 0 ? 'REAL' : 'ARS')}
+                        />
+                    </div>
+                )}
+
                 {/* Main metric */}
                 <div className="mb-8 relative z-10">
-                    <div className="text-xs font-mono text-slate-500 mb-2 uppercase tracking-widest">P&L Neto</div>
+                    <div className="text-xs font-mono text-slate-500 mb-2 uppercase tracking-widest">
+                        {displayCurrency === 'REAL' ? 'P&L Neto real (pesos de hoy)' : 'P&L Neto'}
+                    </div>
 
                     <div className="flex flex-col gap-1">
                         <div className="flex items-baseline gap-3">
                             <h3 className={cn(
                                 'font-mono text-4xl sm:text-5xl font-bold tracking-tight',
-                                pnlColor(model.totals.pnl.ars),
+                                pnlColor(primaryTotal.value),
                             )}>
-                                {formatPnlArs(model.totals.pnl.ars)}
+                                {primaryTotal.text}
                             </h3>
                         </div>
                         <div className="flex items-baseline gap-2">
                             <h4 className={cn(
                                 'font-mono text-xl sm:text-2xl font-semibold tracking-tight',
-                                pnlColorSecondary(model.totals.pnl.usd),
+                                pnlColorSecondary(secondaryTotal.value),
                             )}>
-                                {formatPnlUsd(model.totals.pnl.usd)}
+                                {displayCurrency === 'REAL' ? `${secondaryTotal.text} nominal` : secondaryTotal.text}
                             </h4>
                         </div>
                     </div>
 
+                    {displayCurrency === 'REAL' && model.meta.realNote && (
+                        <p className="text-[11px] text-amber-300/80 mt-2">{model.meta.realNote}</p>
+                    )}
+
                     {model.meta.startISO && (
                         <div className="text-xs text-slate-500 mt-3 flex items-center gap-1.5">
                             <Clock className="w-3.5 h-3.5" />
@@ -172,6 +267,7 @@ export function ResultsCard({ portfolio, snapshots, movements }: ResultsCardProp
                                 key={cat.key}
                                 category={cat}
                                 isCrypto={cat.key === 'crypto'}
+                                displayCurrency={displayCurrency}
                                 onClick={() => setSelectedCategory(cat)}
                             />
                         ))}
@@ -183,6 +279,7 @@ export function ResultsCard({ portfolio, snapshots, movements }: ResultsCardProp
                 <CategoryDetailModal
                     category={selectedCategory}
                     periodKey={model.periodKey}
+                    displayCurrency={displayCurrency}
                     onClose={() => setSelectedCategory(null)}
                 />
             )}
@@ -197,24 +294,21 @@ export function ResultsCard({ portfolio, snapshots, movements }: ResultsCardProp
 function CategoryRow({
     category,
     isCrypto,
+    displayCurrency,
     onClick,
 }: {
     category: ResultsCategoryRow
     isCrypto: boolean
+    displayCurrency: ResultsDisplayCurrency
     onClick: () => void
 }) {
-    const arsStr = formatPnlArs(category.pnl.ars)
-    const usdStr = formatPnlUsd(category.pnl.usd)
-    const colorArs = pnlColor(category.pnl.ars)
-    const colorUsd = pnlColor(category.pnl.usd)
-    const hasPositiveBar = (category.pnl.ars ?? 0) > 0.01
-    const hasNegativeBar = (category.pnl.ars ?? 0) < -0.01
-
-    // For crypto, USD line is primary and ARS is secondary (inverted order)
-    const primaryStr = isCrypto ? usdStr : arsStr
-    const secondaryStr = isCrypto ? arsStr : usdStr
-    const primaryColor = isCrypto ? colorUsd : colorArs
-    const secondaryColor = isCrypto ? colorArs : colorUsd
+    const [primary, secondary] = pnlLines(category.pnl, displayCurrency, isCrypto)
+    const primaryStr = primary.text
+    const secondaryStr = secondary.text
+    const primaryColor = pnlColor(primary.value)
+    const secondaryColor = pnlColor(secondary.value)
+    const hasPositiveBar = (primary.value ?? 0) > 0.01
+    const hasNegativeBar = (primary.value ?? 0) < -0.01
 
     return (
         <button
@@ -273,10 +367,12 @@ function CategoryRow({
 function CategoryDetailModal({
     category,
     periodKey,
+    displayCurrency,
     onClose,
 }: {
     category: ResultsCategoryRow
     periodKey: ResultsPeriodKey
+    displayCurrency: ResultsDisplayCurrency
     onClose: () => void
 }) {
     const [mounted, setMounted] = useState(false)
@@ -327,6 +423,11 @@ function CategoryDetailModal({
     const subtotalPnlUsd = category.pnl.usd ?? category.items.reduce((sum, item) => sum + (item.pnl.usd ?? 0), 0)
     const isCrypto = category.key === 'crypto'
     const isWallets = category.key === 'wallets'
+    const [primarySubtotal, secondarySubtotal] = pnlLines(
+        { ars: subtotalPnlArs, usd: subtotalPnlUsd, real: category.pnl.real },
+        displayCurrency,
+        isCrypto,
+    )
     const showEmptyState = isWallets && category.walletEmptyStateHint && !accrualDone
 
     return createPortal(
@@ -369,6 +470,11 @@ function CategoryDetailModal({
                                 Resultado neto = Variación de valuación - Flujos netos del período.
                             </p>
                         )}
+                        {category.attribution && !isWallets && category.key !== 'plazos' && displayCurrency !== 'REAL' && (
+                            <p className="text-[11px] text-slate-500 mt-1">
+                                {attributionText(category.attribution, displayCurrency === 'USD' ? 'USD' : 'ARS')}
+                            </p>
+                        )}
                     </div>
                     <button
                         onClick={handleClose}
@@ -445,8 +551,17 @@ function CategoryDetailModal({
                             </thead>
                             <tbody className="divide-y divide-white/5 text-slate-300">
                                 {category.items.map((item) => {
-                                    const color = pnlColor(item.pnl.ars)
-                                    const colorUsd = pnlColor(item.pnl.usd)
+                                    const [primaryPnl, secondaryPnl] = pnlLines(item.pnl, displayCurrency, isCrypto)
+                                    const pnlCell = (
+                                        <>
+                                            <div className={cn('font-mono text-sm font-medium', pnlColor(primaryPnl.value))}>
+                                                {primaryPnl.text}
+                                            </div>
+                                            <div className={cn('font-mono text-xs mt-1', pnlColor(secondaryPnl.value))}>
+                                                {secondaryPnl.text}
+                                            </div>
+                                        </>
+                                    )
 
                                     if (isWallets) {
                                         return (
@@ -462,12 +577,7 @@ function CategoryDetailModal({
                                                     <div className="font-mono text-xs text-slate-500 mt-1">{formatMoneyUSD(item.invested.usd)}</div>
                                                 </td>
                                                 <td className="py-4 px-6 text-right">
-                                                    <div className={cn('font-mono text-sm font-medium', color)}>
-                                                        {formatPnlArs(item.pnl.ars)}
-                                                    </div>
-                                                    <div className={cn('font-mono text-xs mt-1', colorUsd)}>
-                                                        {formatPnlUsd(item.pnl.usd)}
-                                                    </div>
+                                                    {pnlCell}
                                                 </td>
                                             </tr>
                                         )
@@ -508,25 +618,7 @@ function CategoryDetailModal({
                                                 )}
                                             </td>
                                             <td className="py-4 px-6 text-right">
-                                                {isCrypto ? (
-                                                    <>
-                                                        <div className={cn('font-mono text-sm font-medium', colorUsd)}>
-                                                            {formatPnlUsd(item.pnl.usd)}
-                                                        </div>
-                                                        <div className={cn('font-mono text-xs mt-1', color)}>
-                                                            {formatPnlArs(item.pnl.ars)}
-                                                        </div>
-                                                    </>
-                                                ) : (
-                                                    <>
-                                                        <div className={cn('font-mono text-sm font-medium', color)}>
-                                                            {formatPnlArs(item.pnl.ars)}
-                                                        </div>
-                                                        <div className={cn('font-mono text-xs mt-1', colorUsd)}>
-                                                            {formatPnlUsd(item.pnl.usd)}
-                                                        </div>
-                                                    </>
-                                                )}
+                                                {pnlCell}
                                             </td>
                                         </tr>
                                     )
@@ -545,25 +637,12 @@ function CategoryDetailModal({
                                 : 'Subtotal Rubro'}
                         </div>
                         <div className="text-right">
-                            {isCrypto ? (
-                                <>
-                                    <div className={cn('font-mono text-lg font-bold', pnlColor(subtotalPnlUsd))}>
-                                        {formatPnlUsd(subtotalPnlUsd)}
-                                    </div>
-                                    <div className={cn('font-mono text-sm font-medium mt-1', pnlColor(subtotalPnlArs))}>
-                                        {formatPnlArs(subtotalPnlArs)}
-                                    </div>
-                                </>
-                            ) : (
-                                <>
-                                    <div className={cn('font-mono text-lg font-bold', pnlColor(subtotalPnlArs))}>
-                                        {formatPnlArs(subtotalPnlArs)}
-                                    </div>
-                                    <div className={cn('font-mono text-sm font-medium mt-1', pnlColor(subtotalPnlUsd))}>
-                                        {formatPnlUsd(subtotalPnlUsd)}
-                                    </div>
-                                </>
-                            )}
+                            <div className={cn('font-mono text-lg font-bold', pnlColor(primarySubtotal.value))}>
+                                {primarySubtotal.text}
+                            </div>
+                            <div className={cn('font-mono text-sm font-medium mt-1', pnlColor(secondarySubtotal.value))}>
+                                {secondarySubtotal.text}
+                            </div>
                         </div>
                     </div>
                 </div>
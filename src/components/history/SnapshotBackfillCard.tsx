@@ -0,0 +1,144 @@
+import { useRef, useState, type ChangeEvent } from 'react'
+import { History, Trash2, Upload } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/components/ui/toast'
+import { parsePriceHistoryCsv } from '@/domain/prices/price-history'
+import type { BackfillSnapshotsResult } from '@/features/dashboardV2/snapshot-backfill'
+import { usePriceHistory } from '@/hooks/use-price-history'
+import { useBackfillSnapshots } from '@/hooks/use-snapshots'
+
+const MAX_LISTED_KEYS = 8
+
+function summarizeMissing(result: BackfillSnapshotsResult): string[] {
+    const counts = new Map<string, number>()
+    for (const day of result.skipped) {
+        for (const key of day.missingKeys) counts.set(key, (counts.get(key) ?? 0) + 1)
+    }
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_LISTED_KEYS)
+        .map(([key, days]) => `${key} (${days} d)`)
+}
+
+/**
+ * Price history import + reconstruction of the days the app was not opened.
+ */
+export function SnapshotBackfillCard() {
+    const { toast } = useToast()
+    const { summary, importPoints, deleteKey, isSaving } = usePriceHistory()
+    const backfill = useBackfillSnapshots()
+    const [lastResult, setLastResult] = useState<BackfillSnapshotsResult | null>(null)
+    const fileInputRef = useRef<HTMLInputElement>(null)
+
+    const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0]
+        event.target.value = ''
+        if (!file) return
+
+        try {
+            const parsed = parsePriceHistoryCsv(await file.text())
+            if (parsed.points.length === 0) {
+                toast({ title: 'CSV sin datos', description: 'No se encontraron precios en el archivo.', variant: 'error' })
+                return
+            }
+            await importPoints(parsed.points)
+            toast({
+                title: 'Precios importados',
+                description: parsed.invalidLines.length > 0
+                    ? `${parsed.points.length} cierres. Lineas omitidas: ${parsed.invalidLines.slice(0, 10).join(', ')}`
+                    : `${parsed.points.length} cierres.`,
+                variant: 'success',
+            })
+        } catch (err) {
+            console.error('Failed to import price history CSV', err)
+            toast({ title: 'Error', description: 'No se pudo leer el CSV de precios.', variant: 'error' })
+        }
+    }
+
+    const handleBackfill = async () => {
+        try {
+            const result = await backfill.mutateAsync()
+            setLastResult(result)
+        } catch (err) {
+            console.error('Snapshot backfill failed', err)
+            toast({ title: 'Error', description: 'No se pudo reconstruir el historial.', variant: 'error' })
+        }
+    }
+
+    const missing = lastResult ? summarizeMissing(lastResult) : []
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                    <History className="h-4 w-4" />
+                    Reconstruir historial
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                    Completa los dias sin snapshot repasando tus movimientos y valuando cada dia con precios historicos.
+                    Importa un CSV con <span className="font-mono">fecha,simbolo,cierre[,moneda]</span> o una columna por
+                    ticker (<span className="font-mono">fecha,AAPL,BTC,MEP,OFICIAL</span>). Los dolares van como MEP, CCL,
+                    OFICIAL, CRIPTO o BLUE.
+                </p>
+
+                {summary.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {summary.map((entry) => (
+                            <span
+                                key={entry.key}
+                                className="inline-flex items-center gap-1.5 rounded-md border px-2 py-1 text-xs"
+                                title={`${entry.count} cierres`}
+                            >
+                                <span className="font-mono font-medium">{entry.key}</span>
+                                <span className="text-muted-foreground">{entry.from} → {entry.to}</span>
+                                <button
+                                    onClick={() => deleteKey(entry.key)}
+                                    disabled={isSaving}
+                                    className="text-muted-foreground hover:text-destructive"
+                                    aria-label={`Borrar precios de ${entry.key}`}
+                                >
+                                    <Trash2 className="h-3 w-3" />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isSaving}>
+                        <Upload className="h-4 w-4 mr-2" />
+                        Importar precios (CSV)
+                    </Button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".csv,text/csv,.txt"
+                        className="hidden"
+                        onChange={handleImport}
+                    />
+                    <Button onClick={handleBackfill} disabled={backfill.isPending || summary.length === 0}>
+                        {backfill.isPending ? 'Reconstruyendo...' : 'Reconstruir snapshots'}
+                    </Button>
+                </div>
+
+                {lastResult && (
+                    <div className="rounded-lg border p-3 text-sm space-y-1">
+                        <p>
+                            {lastResult.snapshots.length === 0
+                                ? 'No se agregaron snapshots.'
+                                : `Se agregaron ${lastResult.snapshots.length} snapshots.`}
+                        </p>
+                        {lastResult.skipped.length > 0 && (
+                            <p className="text-muted-foreground">
+                                {lastResult.skipped.length} dias sin precios suficientes: {missing.join(', ')}
+                            </p>
+                        )}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
@@ -56,7 +56,7 @@ export function FileUploadZone({
             >
                 <input
                     type="file"
-                    accept=".csv,.txt,.xlsx,.xls"
+                    accept=".csv,.txt,.xlsx,.xls,.json"
                     onChange={handleFileInput}
                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                     disabled={isLoading}
@@ -101,6 +101,7 @@ export function FileUploadZone({
                             <div className="flex gap-2 text-xs text-muted-foreground">
                                 <span className="px-2 py-1 bg-muted rounded">CSV</span>
                                 <span className="px-2 py-1 bg-muted rounded">XLSX</span>
+                                <span className="px-2 py-1 bg-muted rounded">JSON</span>
                             </div>
                         </>
                     )}
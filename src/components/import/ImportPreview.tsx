@@ -26,6 +26,8 @@ const categoryOptions = [
     { value: 'CEDEAR', label: 'Cedear' },
     { value: 'STABLE', label: 'Stablecoin' },
     { value: 'FCI', label: 'FCI' },
+    { value: 'BOND', label: 'Bonos / ONs' },
+    { value: 'OPTION', label: 'Opciones' },
 ]
 
 const currencyOptions = [
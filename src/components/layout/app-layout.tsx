@@ -3,6 +3,8 @@ import { cn } from '@/lib/utils'
 import { Sidebar, SidebarProvider, useSidebar, MobileNav } from '@/components/layout/sidebar'
 import { ArgfolioHeader } from '@/components/layout/ArgfolioHeader'
 import { usePFSettlement } from '@/hooks/use-pf-settlement'
+import { useCaucionSettlement } from '@/hooks/use-caucion-settlement'
+import { useOptionExpiry } from '@/hooks/use-option-expiry'
 import { usePFModelMigration } from '@/hooks/use-pf-model-migration'
 import { useScrollCondense } from '@/hooks/useScrollCondense'
 // repair-duplicates: use dynamic import to avoid side-effect on every render.
@@ -52,6 +54,8 @@ function LayoutContent() {
 
 export function AppLayout() {
     usePFSettlement()
+    useCaucionSettlement()
+    useOptionExpiry()
     usePFModelMigration()
     return (
         <SidebarProvider>
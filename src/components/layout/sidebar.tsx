@@ -9,6 +9,9 @@ import {
     Calculator,
     Settings,
     ChevronLeft,
+    Landmark,
+    Scale,
+    Repeat,
 
     TrendingUp,
 } from 'lucide-react'
@@ -45,6 +48,9 @@ const navItems = [
     { path: '/mis-activos-v2', label: 'Mis Activos', icon: Wallet },
     { path: '/movements', label: 'Movimientos', icon: ArrowLeftRight },
     { path: '/history', label: 'Historial', icon: History },
+    { path: '/rebalanceo', label: 'Rebalanceo', icon: Scale },
+    { path: '/dca', label: 'Planes DCA', icon: Repeat },
+    { path: '/impuestos', label: 'Impuestos', icon: Landmark },
     { path: '/personal-finances', label: 'Finanzas', icon: CreditCard },
     { path: '/finanzas-express', label: 'Presupuesto', icon: Calculator },
     { path: '/settings', label: 'Configurar', icon: Settings },
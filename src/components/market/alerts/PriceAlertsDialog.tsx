@@ -0,0 +1,294 @@
+import { useEffect, useState } from 'react'
+import { Bell, BellRing, Plus, Trash2 } from 'lucide-react'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { cn } from '@/lib/utils'
+import {
+    ALERT_CONDITION_LABELS,
+    ALERT_INDICATOR_LABELS,
+    describeAlertRule,
+    type AlertAssetKind,
+    type AlertCondition,
+    type AlertIndicatorId,
+} from '@/domain/alerts'
+import { usePriceAlertInbox, usePriceAlerts } from '@/hooks/use-price-alerts'
+
+export interface PriceAlertTarget {
+    assetKind: AlertAssetKind
+    assetId: string
+    label: string
+}
+
+interface PriceAlertsDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    /** Prefills the new-rule form (e.g. from a CEDEAR/crypto detail modal) */
+    initialTarget?: PriceAlertTarget | null
+}
+
+const ASSET_KIND_OPTIONS: { value: AlertAssetKind; label: string }[] = [
+    { value: 'cedear', label: 'CEDEAR' },
+    { value: 'crypto', label: 'Cripto' },
+    { value: 'indicator', label: 'Dólar / Índice' },
+]
+
+const CONDITION_OPTIONS = (Object.keys(ALERT_CONDITION_LABELS) as AlertCondition[])
+    .map(value => ({ value, label: ALERT_CONDITION_LABELS[value] }))
+
+const INDICATOR_OPTIONS = (Object.keys(ALERT_INDICATOR_LABELS) as AlertIndicatorId[])
+    .map(value => ({ value, label: ALERT_INDICATOR_LABELS[value] }))
+
+export function PriceAlertsDialog({ open, onOpenChange, initialTarget }: PriceAlertsDialogProps) {
+    const { rules, createRule, setRuleEnabled, deleteRule } = usePriceAlerts()
+    const { events, unreadCount, markAllRead, clear } = usePriceAlertInbox()
+    const [tab, setTab] = useState<'inbox' | 'rules'>('inbox')
+
+    // Form state
+    const [assetKind, setAssetKind] = useState<AlertAssetKind>('cedear')
+    const [assetId, setAssetId] = useState('')
+    const [targetLabel, setTargetLabel] = useState('')
+    const [condition, setCondition] = useState<AlertCondition>('below')
+    const [threshold, setThreshold] = useState('')
+    const [currency, setCurrency] = useState<'ARS' | 'USD'>('ARS')
+    const [isSaving, setIsSaving] = useState(false)
+
+    useEffect(() => {
+        if (!open) return
+        if (initialTarget) {
+            setTab('rules')
+            setAssetKind(initialTarget.assetKind)
+            setAssetId(initialTarget.assetId)
+            setTargetLabel(initialTarget.label)
+        } else {
+            setTab(unreadCount > 0 || rules.length > 0 ? 'inbox' : 'rules')
+        }
+        // Only when the dialog opens; later list changes must not move the user around
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [open, initialTarget])
+
+    const handleOpenChange = (next: boolean) => {
+        if (!next && unreadCount > 0) markAllRead()
+        onOpenChange(next)
+    }
+
+    const handleAssetKindChange = (kind: AlertAssetKind) => {
+        setAssetKind(kind)
+        setAssetId(kind === 'indicator' ? 'mep' : '')
+        setTargetLabel('')
+    }
+
+    const parsedThreshold = Number(threshold.replace(',', '.'))
+    const isValid = assetId.trim().length > 0 && threshold.trim().length > 0 && Number.isFinite(parsedThreshold)
+    const isChangeCondition = condition === 'change_up' || condition === 'change_down'
+
+    const handleCreate = async () => {
+        if (!isValid) return
+        const normalizedId = assetKind === 'cedear' ? assetId.trim().toUpperCase() : assetId.trim()
+        const label = assetKind === 'indicator'
+            ? ALERT_INDICATOR_LABELS[normalizedId as AlertIndicatorId]
+            : targetLabel || normalizedId.toUpperCase()
+
+        setIsSaving(true)
+        try {
+            await createRule({
+                assetKind,
+                assetId: normalizedId,
+                label,
+                condition,
+                threshold: isChangeCondition ? Math.abs(parsedThreshold) : parsedThreshold,
+                currency: assetKind === 'cedear' ? currency : undefined,
+            })
+            setThreshold('')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="max-w-xl">
+                <DialogHeader>
+                    <div className="flex items-center gap-3">
+                        <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center">
+                            <BellRing className="h-5 w-5 text-primary" />
+                        </div>
+                        <DialogTitle>Alertas de precio</DialogTitle>
+                    </div>
+                    <DialogDescription className="pt-2">
+                        Se evalúan en cada actualización del mercado. Las reglas se sincronizan entre dispositivos.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="px-6 pb-2">
+                    <Tabs value={tab} onValueChange={(value) => setTab(value as 'inbox' | 'rules')}>
+                        <TabsList>
+                            <TabsTrigger value="inbox">
+                                Recibidas{unreadCount > 0 ? ` (${unreadCount})` : ''}
+                            </TabsTrigger>
+                            <TabsTrigger value="rules">Reglas ({rules.length})</TabsTrigger>
+                        </TabsList>
+
+                        <TabsContent value="inbox" className="space-y-2 pt-4">
+                            {events.length === 0 ? (
+                                <p className="text-sm text-muted-foreground py-6 text-center">
+                                    Todavía no se disparó ninguna alerta.
+                                </p>
+                            ) : (
+                                <>
+                                    <div className="max-h-80 overflow-y-auto space-y-2">
+                                        {events.map(event => (
+                                            <div
+                                                key={event.id}
+                                                className={cn(
+                                                    'rounded-lg border px-3 py-2',
+                                                    !event.readAtISO && 'border-primary/40 bg-primary/5'
+                                                )}
+                                            >
+                                                <p className="text-sm">{event.message}</p>
+                                                <p className="text-xs text-muted-foreground">
+                                                    {new Date(event.firedAtISO).toLocaleString('es-AR')}
+                                                </p>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="flex justify-end">
+                                        <Button variant="ghost" size="sm" onClick={clear}>
+                                            Vaciar bandeja
+                                        </Button>
+                                    </div>
+                                </>
+                            )}
+                        </TabsContent>
+
+                        <TabsContent value="rules" className="space-y-4 pt-4">
+                            {rules.length > 0 && (
+                                <div className="space-y-2 max-h-56 overflow-y-auto">
+                                    {rules.map(rule => (
+                                        <div key={rule.id} className="flex items-center justify-between gap-3 rounded-lg border px-3 py-2">
+                                            <div className="min-w-0">
+                                                <p className={cn('text-sm truncate', !rule.enabled && 'text-muted-foreground line-through')}>
+                                                    {describeAlertRule(rule)}
+                                                </p>
+                                                {rule.triggeredAtISO && rule.enabled && (
+                                                    <p className="text-xs text-warning">
+                                                        Disparada {new Date(rule.triggeredAtISO).toLocaleString('es-AR')}
+                                                    </p>
+                                                )}
+                                            </div>
+                                            <div className="flex items-center gap-2 shrink-0">
+                                                <Switch
+                                                    checked={rule.enabled}
+                                                    onCheckedChange={(checked) => setRuleEnabled(rule.id, checked)}
+                                                />
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    onClick={() => deleteRule(rule.id)}
+                                                    aria-label="Eliminar alerta"
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            <div className="rounded-lg border border-border bg-muted/20 p-3 space-y-3">
+                                <p className="text-sm font-medium flex items-center gap-2">
+                                    <Bell className="h-4 w-4" />
+                                    Nueva alerta
+                                </p>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div className="space-y-1">
+                                        <Label>Activo</Label>
+                                        <Select
+                                            value={assetKind}
+                                            onChange={(e) => handleAssetKindChange(e.target.value as AlertAssetKind)}
+                                            options={ASSET_KIND_OPTIONS}
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label>
+                                            {assetKind === 'cedear' ? 'Ticker' : assetKind === 'crypto' ? 'Id CoinGecko' : 'Indicador'}
+                                        </Label>
+                                        {assetKind === 'indicator' ? (
+                                            <Select
+                                                value={assetId || 'mep'}
+                                                onChange={(e) => setAssetId(e.target.value)}
+                                                options={INDICATOR_OPTIONS}
+                                            />
+                                        ) : (
+                                            <Input
+                                                value={assetId}
+                                                onChange={(e) => {
+                                                    setAssetId(e.target.value)
+                                                    setTargetLabel('')
+                                                }}
+                                                placeholder={assetKind === 'cedear' ? 'AAPL' : 'bitcoin'}
+                                            />
+                                        )}
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label>Condición</Label>
+                                        <Select
+                                            value={condition}
+                                            onChange={(e) => setCondition(e.target.value as AlertCondition)}
+                                            options={CONDITION_OPTIONS}
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label>{isChangeCondition ? 'Variación %' : 'Valor'}</Label>
+                                        <div className="flex gap-2">
+                                            <Input
+                                                inputMode="decimal"
+                                                value={threshold}
+                                                onChange={(e) => setThreshold(e.target.value)}
+                                                placeholder={isChangeCondition ? '5' : '0'}
+                                            />
+                                            {assetKind === 'cedear' && !isChangeCondition && (
+                                                <Select
+                                                    value={currency}
+                                                    onChange={(e) => setCurrency(e.target.value as 'ARS' | 'USD')}
+                                                    options={[
+                                                        { value: 'ARS', label: 'ARS' },
+                                                        { value: 'USD', label: 'USD' },
+                                                    ]}
+                                                    className="w-24"
+                                                />
+                                            )}
+                                        </div>
+                                    </div>
+                                </div>
+                                <div className="flex justify-end">
+                                    <Button size="sm" onClick={handleCreate} disabled={!isValid || isSaving}>
+                                        <Plus className="h-4 w-4 mr-1" />
+                                        Crear alerta
+                                    </Button>
+                                </div>
+                            </div>
+                        </TabsContent>
+                    </Tabs>
+                </div>
+
+                <DialogFooter className="pt-4">
+                    <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                        Cerrar
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -20,6 +20,8 @@ const categoryOptions: { value: AssetCategory | ''; label: string }[] = [
     { value: 'CEDEAR', label: 'Cedears' },
     { value: 'STABLE', label: 'Stablecoins' },
     { value: 'FCI', label: 'FCI' },
+    { value: 'BOND', label: 'Bonos / ONs' },
+    { value: 'OPTION', label: 'Opciones' },
 ]
 
 interface MovementFiltersProps {
@@ -26,6 +26,7 @@ const typeLabels: Record<string, { label: string; variant: 'default' | 'secondar
     TRANSFER_OUT: { label: 'Transfer Out', variant: 'default' },
     DEBT_ADD: { label: 'Nueva Deuda', variant: 'destructive' },
     DEBT_PAY: { label: 'Pago Deuda', variant: 'positive' },
+    ADJUSTMENT: { label: 'Ajuste', variant: 'secondary' },
 }
 
 interface MovementTableProps {
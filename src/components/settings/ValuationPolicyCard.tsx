@@ -0,0 +1,132 @@
+/**
+ * Valuation Policy Card
+ *
+ * Global dollar per asset class (defaults of getFxKeyForAsset) and the list of
+ * per-account overrides set from Mis Activos. Both sync cross-device.
+ */
+
+import { Scale, RotateCcw, X } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { VALUATION_CATEGORIES, fxKeyToFamily, type ValuationCategory } from '@/domain/fx/valuation-policy'
+import type { FxKey } from '@/domain/fx/types'
+import { useValuationDefaults } from '@/hooks/use-valuation-policy'
+import { useAccountSettings } from '@/hooks/useAccountSettings'
+import { useAccounts } from '@/hooks/use-instruments'
+import { useFxOverrides } from '@/features/portfolioV2/fxOverrides'
+import type { ItemKind } from '@/features/portfolioV2/types'
+
+const CATEGORY_LABELS: Record<ValuationCategory, string> = {
+    CEDEAR: 'CEDEARs',
+    BOND: 'Bonos y ONs',
+    FCI: 'Fondos (FCI)',
+    CRYPTO: 'Cripto',
+    STABLE: 'Stablecoins',
+}
+
+const KIND_LABELS: Partial<Record<ItemKind, string>> = {
+    cash_ars: 'Pesos',
+    cash_usd: 'Dólares',
+    wallet_yield: 'Cuenta remunerada',
+    plazo_fijo: 'Plazo fijo',
+    cedear: 'CEDEARs',
+    crypto: 'Cripto',
+    stable: 'Stablecoins',
+    fci: 'FCI',
+    bond: 'Bonos',
+}
+
+const FX_KEYS: FxKey[] = ['oficial', 'mep', 'cripto']
+
+export function ValuationPolicyCard() {
+    const { defaults, setDefault, resetDefaults } = useValuationDefaults()
+    const { overrides, clearOverride } = useFxOverrides()
+    const { getDisplayName } = useAccountSettings()
+    const { data: accounts = [] } = useAccounts()
+
+    const overrideRows = Object.entries(overrides).map(([key, override]) => {
+        const separator = key.lastIndexOf(':')
+        const accountId = key.slice(0, separator)
+        const kind = key.slice(separator + 1) as ItemKind
+        const accountName = accounts.find(a => a.id === accountId)?.name
+        return { key, accountId, kind, override, accountLabel: getDisplayName(accountId, accountName) }
+    })
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                    <Scale className="h-4 w-4" />
+                    Política de valuación
+                </CardTitle>
+                <CardDescription>
+                    Qué dólar valúa cada tipo de activo en el portfolio, los snapshots y los resultados
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="space-y-3">
+                    {VALUATION_CATEGORIES.map(category => (
+                        <div key={category} className="flex items-center justify-between gap-3">
+                            <p className="text-sm font-medium">{CATEGORY_LABELS[category]}</p>
+                            <div className="flex gap-1">
+                                {FX_KEYS.map(fxKey => (
+                                    <Button
+                                        key={fxKey}
+                                        size="sm"
+                                        variant={defaults[category] === fxKey ? 'default' : 'outline'}
+                                        onClick={() => setDefault(category, fxKey)}
+                                    >
+                                        {fxKeyToFamily(fxKey)}
+                                    </Button>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                    <div className="flex items-center justify-between">
+                        <p className="text-xs text-muted-foreground">
+                            Pesos y dólares en cuenta usan el dólar según el tipo de cuenta.
+                        </p>
+                        <Button variant="ghost" size="sm" onClick={resetDefaults}>
+                            <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                            Restablecer
+                        </Button>
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <p className="text-sm font-medium">Excepciones por cuenta</p>
+                    {overrideRows.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">
+                            Sin excepciones. Podés fijar el TC de una cuenta desde Mis Activos.
+                        </p>
+                    ) : (
+                        <ul className="space-y-1">
+                            {overrideRows.map(row => (
+                                <li key={row.key} className="flex items-center justify-between gap-3 rounded-md bg-muted/30 px-3 py-2 text-sm">
+                                    <span>
+                                        {row.accountLabel}
+                                        <span className="text-muted-foreground"> · {KIND_LABELS[row.kind] ?? row.kind}</span>
+                                    </span>
+                                    <span className="flex items-center gap-2">
+                                        <span className="font-mono text-xs">
+                                            {row.override.family} {row.override.side === 'C' ? 'Compra' : 'Venta'}
+                                        </span>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-6 w-6"
+                                            onClick={() => clearOverride(row.accountId, row.kind)}
+                                            aria-label="Quitar excepción"
+                                        >
+                                            <X className="h-3.5 w-3.5" />
+                                        </Button>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useState } from 'react'
+import { GitCompare } from 'lucide-react'
+import { useQueryClient } from '@tanstack/react-query'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { formatMoney, formatQty } from '@/lib/format'
+import { useAccounts, useInstruments } from '@/hooks/use-instruments'
+import { diffRecordFields } from '@/sync/change-tracking'
+import { listSyncConflicts, resolveSyncConflict, subscribeSyncConflicts } from '@/sync/remote-sync'
+import type { SyncConflictRecord, SyncEntity, SyncRecord } from '@/db/schema'
+import type { Movement } from '@/domain/types'
+
+const entityLabels: Record<SyncEntity, string> = {
+    movements: 'Movimiento',
+    accounts: 'Cuenta',
+    instruments: 'Instrumento',
+    priceAlerts: 'Alerta de precio',
+    accountSettings: 'Ajustes de cuenta',
+}
+
+const movementTypeLabels: Record<string, string> = {
+    BUY: 'Compra',
+    SELL: 'Venta',
+    DEPOSIT: 'Depósito',
+    WITHDRAW: 'Retiro',
+    DIVIDEND: 'Dividendo',
+    INTEREST: 'Interés',
+    FEE: 'Comisión',
+    TRANSFER_IN: 'Transfer In',
+    TRANSFER_OUT: 'Transfer Out',
+    DEBT_ADD: 'Nueva Deuda',
+    DEBT_PAY: 'Pago Deuda',
+    BUY_USD: 'Compra USD',
+    SELL_USD: 'Venta USD',
+    ADJUSTMENT: 'Ajuste',
+}
+
+// Fields always shown for movements, in this order; other differing fields are appended
+const movementFields: Array<{ key: keyof Movement; label: string }> = [
+    { key: 'datetimeISO', label: 'Fecha' },
+    { key: 'type', label: 'Tipo' },
+    { key: 'accountId', label: 'Cuenta' },
+    { key: 'instrumentId', label: 'Instrumento' },
+    { key: 'quantity', label: 'Cantidad' },
+    { key: 'unitPrice', label: 'Precio' },
+    { key: 'totalAmount', label: 'Total' },
+    { key: 'tradeCurrency', label: 'Moneda' },
+    { key: 'fxAtTrade', label: 'TC' },
+    { key: 'notes', label: 'Notas' },
+]
+
+interface SyncConflictsDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+}
+
+export function SyncConflictsDialog({ open, onOpenChange }: SyncConflictsDialogProps) {
+    const queryClient = useQueryClient()
+    const [conflicts, setConflicts] = useState<SyncConflictRecord[]>([])
+    const [resolvingKey, setResolvingKey] = useState<string | null>(null)
+
+    const reload = useCallback(() => {
+        listSyncConflicts().then(setConflicts).catch((error) => {
+            console.warn('[sync-conflicts] load failed', error)
+        })
+    }, [])
+
+    useEffect(() => {
+        if (!open) return
+        reload()
+        return subscribeSyncConflicts(reload)
+    }, [open, reload])
+
+    const handleResolve = async (key: string, keep: 'local' | 'remote') => {
+        setResolvingKey(key)
+        try {
+            await resolveSyncConflict(key, keep)
+            queryClient.invalidateQueries({ queryKey: ['accounts'] })
+            queryClient.invalidateQueries({ queryKey: ['movements'] })
+            queryClient.invalidateQueries({ queryKey: ['instruments'] })
+            queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+            queryClient.invalidateQueries({ queryKey: ['price-alerts'] })
+            queryClient.invalidateQueries({ queryKey: ['accountSettings'] })
+            reload()
+        } finally {
+            setResolvingKey(null)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-3xl">
+                <DialogHeader>
+                    <div className="flex items-center gap-3">
+                        <div className="h-10 w-10 rounded-full bg-warning/10 flex items-center justify-center">
+                            <GitCompare className="h-5 w-5 text-warning" />
+                        </div>
+                        <DialogTitle>Conflictos de sincronización</DialogTitle>
+                    </div>
+                    <DialogDescription className="pt-2">
+                        Estos registros se editaron en este dispositivo y en otro antes de sincronizar.
+                        Elegí qué versión conservar; la otra se descarta.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 px-6 pb-2">
+                    {conflicts.length === 0 && (
+                        <p className="text-sm text-muted-foreground py-6 text-center">
+                            No hay conflictos pendientes.
+                        </p>
+                    )}
+                    {conflicts.map((conflict) => (
+                        <ConflictCard
+                            key={conflict.key}
+                            conflict={conflict}
+                            isResolving={resolvingKey === conflict.key}
+                            onResolve={(keep) => handleResolve(conflict.key, keep)}
+                        />
+                    ))}
+                </div>
+
+                <DialogFooter className="pt-4">
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                        Cerrar
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+function ConflictCard({
+    conflict,
+    isResolving,
+    onResolve,
+}: {
+    conflict: SyncConflictRecord
+    isResolving: boolean
+    onResolve: (keep: 'local' | 'remote') => void
+}) {
+    const { data: accounts = [] } = useAccounts()
+    const { data: instruments = [] } = useInstruments()
+    const changed = new Set(diffRecordFields(conflict.local, conflict.remote))
+
+    const rows: Array<{ key: string; label: string }> = conflict.entity === 'movements'
+        ? [
+            ...movementFields.map(({ key, label }) => ({ key: key as string, label })),
+            ...Array.from(changed)
+                .filter(key => !movementFields.some(field => field.key === key))
+                .map(key => ({ key, label: key })),
+        ]
+        : Array.from(changed).map(key => ({ key, label: key }))
+
+    const formatField = (record: SyncRecord | null, key: string): string => {
+        if (!record) return '—'
+        const value = (record as unknown as Record<string, unknown>)[key]
+        if (value == null || value === '') return '—'
+
+        if (conflict.entity === 'movements') {
+            const movement = record as Movement
+            if (key === 'datetimeISO') return new Date(String(value)).toLocaleString('es-AR')
+            if (key === 'type') return movementTypeLabels[String(value)] ?? String(value)
+            if (key === 'accountId') return accounts.find(a => a.id === value)?.name ?? String(value)
+            if (key === 'instrumentId') return instruments.find(i => i.id === value)?.symbol ?? String(value)
+            if (key === 'quantity' && typeof value === 'number') return formatQty(value)
+            if ((key === 'unitPrice' || key === 'totalAmount') && typeof value === 'number') {
+                return formatMoney(value, movement.tradeCurrency)
+            }
+        }
+
+        return typeof value === 'object' ? JSON.stringify(value) : String(value)
+    }
+
+    const current = conflict.local ?? conflict.remote
+    const movement = conflict.entity === 'movements' ? current as Movement | null : null
+    // Accounts and instruments have a name, price alert rules a label; settings are keyed by account
+    const named: { name?: string; label?: string } | null = conflict.entity === 'accountSettings'
+        ? accounts.find(a => a.id === conflict.recordId) ?? null
+        : current as { name?: string; label?: string } | null
+    const title = movement
+        ? [
+            movementTypeLabels[movement.type] ?? movement.type,
+            instruments.find(i => i.id === movement.instrumentId)?.symbol ?? movement.ticker,
+        ].filter(Boolean).join(' · ')
+        : named?.name ?? named?.label ?? conflict.recordId
+
+    return (
+        <div className="rounded-lg border border-border">
+            <div className="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+                <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{title}</p>
+                    <p className="text-xs text-muted-foreground">
+                        {entityLabels[conflict.entity]} · remoto v{conflict.remoteVersion}
+                        {conflict.remoteUpdatedAtISO && ` · ${new Date(conflict.remoteUpdatedAtISO).toLocaleString('es-AR')}`}
+                    </p>
+                </div>
+                <Badge variant="outline">{changed.size} campo(s) distintos</Badge>
+            </div>
+
+            <div className="grid grid-cols-[minmax(90px,auto)_1fr_1fr] text-sm">
+                <div className="px-3 py-1.5 text-xs font-medium text-muted-foreground" />
+                <div className="px-3 py-1.5 text-xs font-medium text-muted-foreground">Este dispositivo</div>
+                <div className="px-3 py-1.5 text-xs font-medium text-muted-foreground">Otro dispositivo</div>
+                {conflict.local == null && (
+                    <div className="col-span-3 px-3 py-1.5 text-xs text-destructive">Eliminado en este dispositivo</div>
+                )}
+                {conflict.remote == null && (
+                    <div className="col-span-3 px-3 py-1.5 text-xs text-destructive">Eliminado en otro dispositivo</div>
+                )}
+                {rows.map(({ key, label }) => {
+                    const differs = changed.has(key)
+                    return (
+                        <div key={key} className={cn('contents', differs && 'font-medium')}>
+                            <div className={cn('px-3 py-1.5 text-muted-foreground', differs && 'bg-warning/10')}>{label}</div>
+                            <div className={cn('px-3 py-1.5 break-words', differs && 'bg-warning/10')}>{formatField(conflict.local, key)}</div>
+                            <div className={cn('px-3 py-1.5 break-words', differs && 'bg-warning/10')}>{formatField(conflict.remote, key)}</div>
+                        </div>
+                    )
+                })}
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-2 border-t border-border px-3 py-2">
+                <Button variant="outline" size="sm" disabled={isResolving} onClick={() => onResolve('remote')}>
+                    Usar versión remota
+                </Button>
+                <Button size="sm" disabled={isResolving} onClick={() => onResolve('local')}>
+                    Conservar este dispositivo
+                </Button>
+            </div>
+        </div>
+    )
+}
@@ -1,7 +1,8 @@
 
 
-// Map internal symbols to CoinGecko IDs
-// Add more as needed. Ideally this comes from a backend or configurable list.
+// Map internal symbols to CoinGecko IDs.
+// Seed list only: anything else is resolved through the /search coin list
+// (or picked in the typeahead) and remembered in the registry below.
 const COINGECKO_MAP: Record<string, string> = {
     BTC: 'bitcoin',
     ETH: 'ethereum',
@@ -19,19 +20,112 @@ const COINGECKO_MAP: Record<string, string> = {
     BNB: 'binancecoin',
 }
 
-export async function fetchCryptoPrices(symbols: string[]): Promise<Record<string, number>> {
-    // 0. Filter unique and map to IDs
-    const uniqueSymbols = Array.from(new Set(symbols.map(s => s.toUpperCase())))
-    const idsToFetch: string[] = []
-    const symbolToIdMap: Record<string, string> = {}
-
-    for (const sym of uniqueSymbols) {
-        const id = COINGECKO_MAP[sym]
-        if (id) {
-            idsToFetch.push(id)
-            symbolToIdMap[sym] = id
+const REGISTRY_STORAGE_KEY = 'argfolio_coingecko_ids_v1'
+
+export interface CoinSearchResult {
+    id: string
+    symbol: string
+    name: string
+    thumb?: string
+    marketCapRank?: number
+}
+
+function readRegistry(): Record<string, string> {
+    try {
+        const stored = localStorage.getItem(REGISTRY_STORAGE_KEY)
+        return stored ? JSON.parse(stored) : {}
+    } catch {
+        return {}
+    }
+}
+
+/**
+ * Remember which CoinGecko id a symbol refers to (e.g. picked in the
+ * typeahead). User choices win over the seed map.
+ */
+export function registerCoingeckoId(symbol: string, id: string): void {
+    const registry = readRegistry()
+    const sym = symbol.toUpperCase()
+    if (registry[sym] === id) return
+    registry[sym] = id
+    try {
+        localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify(registry))
+    } catch {
+        // Storage full / unavailable: the id is resolved again next time
+    }
+}
+
+export function getCoingeckoId(symbol: string): string | undefined {
+    const sym = symbol.toUpperCase()
+    return readRegistry()[sym] ?? COINGECKO_MAP[sym]
+}
+
+// Per-session caches: search results by query, symbols with no exact match
+const searchCache = new Map<string, CoinSearchResult[]>()
+const unresolvable = new Set<string>()
+
+export async function searchCoins(query: string): Promise<CoinSearchResult[]> {
+    const q = query.trim().toLowerCase()
+    if (!q) return []
+    const cached = searchCache.get(q)
+    if (cached) return cached
+
+    const response = await fetch(`https://api.coingecko.com/api/v3/search?query=${encodeURIComponent(q)}`)
+    if (!response.ok) {
+        if (response.status === 429) console.warn('CoinGecko rate limit hit')
+        throw new Error(`CoinGecko search error: ${response.statusText}`)
+    }
+    const data = await response.json()
+    const coins: CoinSearchResult[] = (data.coins ?? []).map((c: { id: string; symbol: string; name: string; thumb?: string; market_cap_rank?: number | null }) => ({
+        id: c.id,
+        symbol: c.symbol.toUpperCase(),
+        name: c.name,
+        thumb: c.thumb,
+        marketCapRank: c.market_cap_rank ?? undefined,
+    }))
+    searchCache.set(q, coins)
+    return coins
+}
+
+/**
+ * Resolve CoinGecko ids for symbols outside the seed map. Picks the exact
+ * ticker match with the best market-cap rank (tickers are not unique on
+ * CoinGecko) and registers it. Misses are not retried within the session.
+ */
+export async function resolveCoingeckoIds(symbols: string[]): Promise<Record<string, string>> {
+    const resolved: Record<string, string> = {}
+    for (const raw of symbols) {
+        const sym = raw.toUpperCase()
+        const known = getCoingeckoId(sym)
+        if (known) {
+            resolved[sym] = known
+            continue
+        }
+        if (unresolvable.has(sym)) continue
+
+        try {
+            const best = (await searchCoins(sym))
+                .filter(c => c.symbol === sym)
+                .sort((a, b) => (a.marketCapRank ?? Infinity) - (b.marketCapRank ?? Infinity))[0]
+            if (best) {
+                registerCoingeckoId(sym, best.id)
+                resolved[sym] = best.id
+            } else {
+                unresolvable.add(sym)
+            }
+        } catch (error) {
+            // Rate limited or offline: leave it for the next refresh
+            console.warn(`Could not resolve CoinGecko id for ${sym}`, error)
         }
     }
+    return resolved
+}
+
+export async function fetchCryptoPrices(symbols: string[]): Promise<Record<string, number>> {
+    // 0. Filter unique and map to IDs (unknown symbols go through the coin list)
+    const uniqueSymbols = Array.from(new Set(symbols.map(s => s.toUpperCase())))
+    const symbolToIdMap = await resolveCoingeckoIds(uniqueSymbols)
+    const idsToFetch = Array.from(new Set(Object.values(symbolToIdMap)))
 
     if (idsToFetch.length === 0) {
         return {}
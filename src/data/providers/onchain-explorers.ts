@@ -0,0 +1,50 @@
+import type { BlockscoutTx, EsploraTx } from '@/domain/import/connectors'
+
+// Public explorers, no API key. Histories are paged; stop after a few pages
+// so a busy address (an exchange hot wallet pasted by mistake) can't loop.
+const MAX_PAGES = 10
+
+// mempool.space (Esplora API): 25 txs per page, newest first, keyed by last txid
+export async function fetchBitcoinAddressHistory(address: string): Promise<EsploraTx[]> {
+    const base = `https://mempool.space/api/address/${encodeURIComponent(address)}/txs`
+    const all: EsploraTx[] = []
+    let url = base
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+        const response = await fetch(url)
+        if (!response.ok) {
+            throw new Error(`mempool.space error: ${response.statusText}`)
+        }
+        const txs: EsploraTx[] = await response.json()
+        // The first page also lists mempool txs; chain pages are confirmed only
+        const confirmed = txs.filter(tx => tx.status.confirmed)
+        all.push(...(page === 0 ? txs : confirmed))
+        if (confirmed.length < 25) break
+        url = `${base}/chain/${confirmed[confirmed.length - 1].txid}`
+    }
+
+    return all
+}
+
+// Blockscout v2: 50 txs per page, cursor in `next_page_params`
+export async function fetchEthereumAddressHistory(address: string): Promise<BlockscoutTx[]> {
+    const base = `https://eth.blockscout.com/api/v2/addresses/${encodeURIComponent(address)}/transactions`
+    const all: BlockscoutTx[] = []
+    let params: Record<string, string | number> | null = null
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+        const query: string = params
+            ? '?' + new URLSearchParams(Object.entries(params).map(([k, v]) => [k, String(v)])).toString()
+            : ''
+        const response = await fetch(base + query)
+        if (!response.ok) {
+            throw new Error(`Blockscout error: ${response.statusText}`)
+        }
+        const data: { items: BlockscoutTx[]; next_page_params: Record<string, string | number> | null } = await response.json()
+        all.push(...data.items)
+        params = data.next_page_params
+        if (!params) break
+    }
+
+    return all
+}
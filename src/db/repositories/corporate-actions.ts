@@ -0,0 +1,48 @@
+import { db } from '../schema'
+import { dueTickerChanges, type CorporateAction } from '@/domain/corporate-actions'
+import { instrumentsRepo } from './instruments'
+
+export const corporateActionsRepo = {
+    async list(): Promise<CorporateAction[]> {
+        return db.corporateActions.orderBy('effectiveDate').toArray()
+    },
+
+    async listByInstrument(instrumentId: string): Promise<CorporateAction[]> {
+        return (await db.corporateActions.where('instrumentId').equals(instrumentId).toArray())
+            .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))
+    },
+
+    async save(action: CorporateAction): Promise<string> {
+        return db.corporateActions.put(action)
+    },
+
+    async delete(id: string): Promise<void> {
+        await db.corporateActions.delete(id)
+    },
+
+    /**
+     * Renames instruments whose TICKER_CHANGE is already effective. Movements
+     * reference the instrument id, so history stays attached to the new ticker.
+     * Returns how many instruments were renamed.
+     */
+    async applyDueTickerChanges(): Promise<number> {
+        const actions = await db.corporateActions.filter(a => a.type === 'TICKER_CHANGE').toArray()
+        if (actions.length === 0) return 0
+
+        const instruments = await db.instruments.bulkGet(actions.map(a => a.instrumentId))
+        const symbols = new Map<string, string>()
+        for (const instrument of instruments) {
+            if (instrument) symbols.set(instrument.id, instrument.symbol)
+        }
+
+        const due = dueTickerChanges(actions, symbols)
+        for (const action of due) {
+            const newSymbol = action.newSymbol!.toUpperCase()
+            await instrumentsRepo.update(action.instrumentId, {
+                symbol: newSymbol,
+                priceKey: newSymbol.toLowerCase(),
+            })
+        }
+        return due.length
+    },
+}
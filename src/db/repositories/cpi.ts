@@ -0,0 +1,19 @@
+import { db } from '../schema'
+import type { CpiMonth } from '@/domain/inflation'
+
+export const cpiRepo = {
+    async list(): Promise<CpiMonth[]> {
+        return db.cpiMonths.orderBy('month').toArray()
+    },
+
+    async replaceAll(months: CpiMonth[]): Promise<void> {
+        await db.transaction('rw', db.cpiMonths, async () => {
+            await db.cpiMonths.clear()
+            await db.cpiMonths.bulkPut(months)
+        })
+    },
+
+    async upsertMany(months: CpiMonth[]): Promise<void> {
+        await db.cpiMonths.bulkPut(months)
+    },
+}
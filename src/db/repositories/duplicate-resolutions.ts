@@ -0,0 +1,16 @@
+import { db } from '../schema'
+import type { DuplicateResolution } from '@/domain/duplicates'
+
+export const duplicateResolutionsRepo = {
+    async list(): Promise<DuplicateResolution[]> {
+        return (await db.duplicateResolutions.orderBy('createdAtISO').toArray()).reverse()
+    },
+
+    async save(resolution: DuplicateResolution): Promise<string> {
+        return db.duplicateResolutions.put(resolution)
+    },
+
+    async delete(id: string): Promise<void> {
+        await db.duplicateResolutions.delete(id)
+    },
+}
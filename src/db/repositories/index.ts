@@ -4,3 +4,11 @@ export { accountsRepo } from './accounts'
 export { snapshotsRepo } from './snapshots'
 export { debtsRepo } from './debts'
 export { manualPricesRepo } from './manual-prices'
+export { priceAlertsRepo } from './price-alerts'
+export { movementDraftsRepo } from './movement-drafts'
+export { corporateActionsRepo } from './corporate-actions'
+export { cpiRepo } from './cpi'
+export { priceHistoryRepo } from './price-history'
+export { uvaRepo } from './uva'
+export { reconciliationsRepo } from './reconciliations'
+export { duplicateResolutionsRepo } from './duplicate-resolutions'
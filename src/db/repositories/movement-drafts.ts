@@ -0,0 +1,37 @@
+import { db } from '../schema'
+import type { Movement } from '@/domain/types'
+import { movementsRepo } from './movements'
+
+export const movementDraftsRepo = {
+    async list(): Promise<Movement[]> {
+        return db.movementDrafts.orderBy('datetimeISO').toArray()
+    },
+
+    async saveAll(drafts: Movement[]): Promise<void> {
+        await db.movementDrafts.bulkPut(drafts)
+    },
+
+    async delete(id: string): Promise<void> {
+        await db.movementDrafts.delete(id)
+    },
+
+    /** Clears every draft, or only those created by one feature (meta.source) */
+    async clear(source?: string): Promise<void> {
+        if (!source) {
+            await db.movementDrafts.clear()
+            return
+        }
+        await db.movementDrafts.filter(d => d.meta?.source === source).delete()
+    },
+
+    /**
+     * Promotes a draft to a real movement (goes through movementsRepo so it
+     * syncs like any other create), dated now unless the fill says otherwise.
+     */
+    async confirm(id: string, fill: Partial<Movement> = {}): Promise<void> {
+        const draft = await db.movementDrafts.get(id)
+        if (!draft) return
+        await movementsRepo.create({ ...draft, datetimeISO: new Date().toISOString(), ...fill, id: draft.id })
+        await db.movementDrafts.delete(id)
+    },
+}
@@ -0,0 +1,62 @@
+import { db } from '../schema'
+import type { AlertEvaluation, PriceAlertEvent, PriceAlertRule } from '@/domain/alerts'
+import { markPriceAlertsModified } from '@/sync/remote-sync'
+
+const MAX_EVENTS = 200
+
+export const priceAlertsRepo = {
+    async list(): Promise<PriceAlertRule[]> {
+        return (await db.priceAlerts.toArray())
+            .sort((a, b) => a.createdAtISO.localeCompare(b.createdAtISO))
+    },
+
+    async save(rule: PriceAlertRule): Promise<string> {
+        const id = await db.priceAlerts.put(rule)
+        await markPriceAlertsModified([rule.id])
+        return id
+    },
+
+    async update(id: string, updates: Partial<PriceAlertRule>): Promise<void> {
+        await db.priceAlerts.update(id, { ...updates, updatedAtISO: new Date().toISOString() })
+        await markPriceAlertsModified([id])
+    },
+
+    async delete(id: string): Promise<void> {
+        await db.priceAlerts.delete(id)
+        await markPriceAlertsModified([id], true)
+    },
+
+    /**
+     * Persists evaluation state and fired events. State is per device,
+     * so this does not mark the rules as modified for sync.
+     */
+    async applyEvaluation({ updatedRules, events }: AlertEvaluation): Promise<void> {
+        if (updatedRules.length === 0 && events.length === 0) return
+        await db.transaction('rw', [db.priceAlerts, db.priceAlertEvents], async () => {
+            // Only touch rules that still exist (a delete may have landed mid-evaluation)
+            const existing = await db.priceAlerts.bulkGet(updatedRules.map(rule => rule.id))
+            const stillPresent = updatedRules.filter((_, index) => existing[index] != null)
+            if (stillPresent.length > 0) await db.priceAlerts.bulkPut(stillPresent)
+            if (events.length > 0) await db.priceAlertEvents.bulkAdd(events)
+
+            const count = await db.priceAlertEvents.count()
+            if (count > MAX_EVENTS) {
+                const oldest = await db.priceAlertEvents.orderBy('firedAtISO').limit(count - MAX_EVENTS).primaryKeys()
+                await db.priceAlertEvents.bulkDelete(oldest)
+            }
+        })
+    },
+
+    async listEvents(): Promise<PriceAlertEvent[]> {
+        return db.priceAlertEvents.orderBy('firedAtISO').reverse().toArray()
+    },
+
+    async markEventsRead(): Promise<void> {
+        const readAtISO = new Date().toISOString()
+        await db.priceAlertEvents.filter(event => !event.readAtISO).modify({ readAtISO })
+    },
+
+    async clearEvents(): Promise<void> {
+        await db.priceAlertEvents.clear()
+    },
+}
@@ -0,0 +1,24 @@
+import { db } from '../schema'
+import type { PriceHistoryPoint } from '@/domain/prices/price-history'
+
+export const priceHistoryRepo = {
+    async list(): Promise<PriceHistoryPoint[]> {
+        return db.priceHistory.toArray()
+    },
+
+    async listByKey(key: string): Promise<PriceHistoryPoint[]> {
+        return db.priceHistory.where('[key+date]').between([key, ''], [key, '\uffff']).toArray()
+    },
+
+    async upsertMany(points: PriceHistoryPoint[]): Promise<void> {
+        await db.priceHistory.bulkPut(points)
+    },
+
+    async deleteKey(key: string): Promise<void> {
+        await db.priceHistory.where('key').equals(key).delete()
+    },
+
+    async clearAll(): Promise<void> {
+        await db.priceHistory.clear()
+    },
+}
@@ -0,0 +1,17 @@
+import { db } from '../schema'
+import type { Reconciliation } from '@/domain/reconciliation'
+
+export const reconciliationsRepo = {
+    async listByAccount(accountId: string): Promise<Reconciliation[]> {
+        return (await db.reconciliations.where('accountId').equals(accountId).toArray())
+            .sort((a, b) => a.dateLocal.localeCompare(b.dateLocal))
+    },
+
+    async save(reconciliation: Reconciliation): Promise<string> {
+        return db.reconciliations.put(reconciliation)
+    },
+
+    async delete(id: string): Promise<void> {
+        await db.reconciliations.delete(id)
+    },
+}
@@ -40,6 +40,11 @@ export const snapshotsRepo = {
         return normalized
     },
 
+    /** Bulk insert for dates without a snapshot (reconstructed history) */
+    async putMany(snapshots: Snapshot[]): Promise<void> {
+        await db.snapshots.bulkPut(snapshots.map(normalizeSnapshot))
+    },
+
     async delete(id: string): Promise<void> {
         await db.snapshots.delete(id)
     },
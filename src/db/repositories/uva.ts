@@ -0,0 +1,16 @@
+import { db } from '../schema'
+import type { UvaPoint } from '@/domain/inflation'
+
+export const uvaRepo = {
+    async list(): Promise<UvaPoint[]> {
+        return db.uvaIndex.orderBy('date').toArray()
+    },
+
+    async upsertMany(points: UvaPoint[]): Promise<void> {
+        await db.uvaIndex.bulkPut(points)
+    },
+
+    async clearAll(): Promise<void> {
+        await db.uvaIndex.clear()
+    },
+}
@@ -1,5 +1,14 @@
 import Dexie, { Table } from 'dexie'
 import type { Movement, Instrument, Account, Snapshot, Debt } from '@/domain/types'
+import type { PriceAlertEvent, PriceAlertRule } from '@/domain/alerts'
+import type { AllocationTarget } from '@/features/rebalance/types'
+import type { DcaPlan } from '@/features/dca/types'
+import type { CorporateAction } from '@/domain/corporate-actions'
+import type { CpiMonth, UvaPoint } from '@/domain/inflation'
+import type { PriceHistoryPoint } from '@/domain/prices/price-history'
+import type { FxOverride } from '@/domain/fx/valuation-policy'
+import type { Reconciliation } from '@/domain/reconciliation'
+import type { DuplicateResolution } from '@/domain/duplicates'
 
 // =============================================================================
 // Personal Finances V3 Types (DB-level)
@@ -60,6 +69,7 @@ export interface PFStatement {
     paidAmount?: number           // Actual amount paid (supports partial later)
     paymentMovementId?: string    // Link to the movement created for payment
     paymentAccountId?: string
+    paymentBudgetEventTs?: number // Finanzas Express ledger event that paid it
     createdAt: string
     updatedAt?: string
 }
@@ -131,6 +141,7 @@ export interface PFFixedExpense {
         amount: number
         accountId?: string
         movementId?: string
+        budgetEventTs?: number    // Finanzas Express ledger event that paid it
     }>
     createdAt: string
 }
@@ -178,9 +189,37 @@ export interface AccountSettings {
     rubroOverride?: RubroOverride   // Manual rubro classification
     tnaOverride?: number            // Override TNA for yield calculation
     hidden?: boolean                // Hide from all views
+    fxOverrides?: Partial<Record<string, FxOverride>> // Valuation dollar by item kind (cash_usd, crypto, ...)
     updatedAt: string               // ISO datetime
 }
 
+// Incremental sync state (server version per record + pending local writes)
+export type SyncEntity = 'accounts' | 'movements' | 'instruments' | 'priceAlerts' | 'accountSettings'
+
+export type SyncRecord = Account | Movement | Instrument | PriceAlertRule | AccountSettings
+
+export interface SyncMetaRecord {
+    key: string                     // `${entity}:${recordId}`
+    entity: SyncEntity
+    recordId: string
+    version: number                 // Last server version seen (0 = never accepted)
+    dirty: 0 | 1                    // Local write not yet accepted by the server
+    deleted?: boolean               // Pending write is a deletion
+    updatedAtISO: string
+}
+
+export interface SyncConflictRecord {
+    key: string                     // Same key as SyncMetaRecord
+    entity: SyncEntity
+    recordId: string
+    local: SyncRecord | null        // null = deleted on this device
+    remote: SyncRecord | null       // null = deleted on the server
+    remoteVersion: number
+    remoteUpdatedAtISO?: string
+    remoteUpdatedBy?: string | null // Device id of the remote write
+    detectedAtISO: string
+}
+
 // =============================================================================
 // Dexie Database Schema
 // =============================================================================
@@ -208,6 +247,39 @@ export class ArgfolioDatabase extends Dexie {
     // Account Settings (display names, rubro overrides)
     accountSettings!: Table<AccountSettings, string>
 
+    // Incremental sync bookkeeping
+    syncMeta!: Table<SyncMetaRecord, string>
+    syncConflicts!: Table<SyncConflictRecord, string>
+
+    // Market price alerts (rules sync cross-device, fired events stay local)
+    priceAlerts!: Table<PriceAlertRule, string>
+    priceAlertEvents!: Table<PriceAlertEvent, string>
+
+    // Rebalance planner: target allocation per rubro + unconfirmed draft movements
+    allocationTargets!: Table<AllocationTarget, string>
+    movementDrafts!: Table<Movement, string>
+
+    // CEDEAR splits / ratio changes / ticker changes
+    corporateActions!: Table<CorporateAction, string>
+
+    // Monthly CPI (INDEC) for real-peso views, local to this device
+    cpiMonths!: Table<CpiMonth, string>
+
+    // Daily closes (instruments + FX) used to reconstruct past snapshots
+    priceHistory!: Table<PriceHistoryPoint, [string, string]>
+
+    // Daily UVA values (BCRA) for UVA plazos fijos
+    uvaIndex!: Table<UvaPoint, string>
+
+    // Statement balances checked against the cash ledger, per account and currency
+    reconciliations!: Table<Reconciliation, string>
+
+    // Duplicate movement merges/deletions with the diff to undo them, plus "keep both" choices
+    duplicateResolutions!: Table<DuplicateResolution, string>
+
+    // Recurring purchase plans; their due dates become movementDrafts
+    dcaPlans!: Table<DcaPlan, string>
+
     constructor() {
         super('argfolio-db')
 
@@ -260,6 +332,67 @@ export class ArgfolioDatabase extends Dexie {
                 }
             })
         })
+
+        // V8: Per-record sync versions + unresolved sync conflicts
+        this.version(8).stores({
+            syncMeta: 'key, entity, dirty',
+            syncConflicts: 'key, entity, detectedAtISO',
+        })
+
+        // V9: Market price alerts + fired alert inbox
+        this.version(9).stores({
+            priceAlerts: 'id, assetKind, assetId',
+            priceAlertEvents: 'id, ruleId, firedAtISO',
+        })
+
+        // V10: Rebalance targets + draft movements generated from a plan
+        this.version(10).stores({
+            allocationTargets: 'id',
+            movementDrafts: 'id, datetimeISO, accountId',
+        })
+
+        // V11: Corporate actions (restate holdings from an effective date)
+        this.version(11).stores({
+            corporateActions: 'id, instrumentId, effectiveDate',
+        })
+
+        // V12: CPI series (previously a localStorage entry of the benchmark card)
+        this.version(12).stores({
+            cpiMonths: 'month',
+        }).upgrade(async (tx) => {
+            if (typeof localStorage === 'undefined') return
+            const legacyKey = 'argfolio.benchmarks.cpi'
+            try {
+                const parsed = JSON.parse(localStorage.getItem(legacyKey) ?? '[]')
+                if (Array.isArray(parsed) && parsed.length > 0) {
+                    await tx.table('cpiMonths').bulkPut(parsed)
+                }
+            } catch {
+                // Unreadable legacy entry: the user can load the series again
+            }
+            localStorage.removeItem(legacyKey)
+        })
+
+        // V13: Price history for the snapshot backfill
+        this.version(13).stores({
+            priceHistory: '[key+date], key, date',
+        })
+
+        this.version(14).stores({
+            uvaIndex: 'date',
+        })
+
+        this.version(15).stores({
+            reconciliations: 'id, [accountId+currency], accountId, dateLocal',
+        })
+
+        this.version(16).stores({
+            duplicateResolutions: 'id, groupKey, createdAtISO',
+        })
+
+        this.version(17).stores({
+            dcaPlans: 'id, accountId, instrumentId',
+        })
     }
 }
 
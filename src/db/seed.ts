@@ -1,4 +1,5 @@
 import { db } from './schema'
+import { resetSyncState } from '@/sync/remote-sync'
 import type { Instrument, Account } from '@/domain/types'
 
 const SEED_KEY = 'argfolio-seeded'
@@ -63,6 +64,8 @@ export async function resetDatabase(): Promise<void> {
         await db.snapshots.clear()
         await db.debts.clear()
     })
+    // Versions/cursor describe the cleared data; the next bootstrap must pull everything
+    await resetSyncState()
 
     localStorage.removeItem(SEED_KEY)
 
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import { describeAlertRule, evaluatePriceAlerts } from './evaluate'
+import type { AlertQuote, PriceAlertRule } from './types'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const NOW = '2025-06-02T15:00:00.000Z'
+
+function rule(overrides: Partial<PriceAlertRule> & Pick<PriceAlertRule, 'condition' | 'threshold'>): PriceAlertRule {
+    return {
+        id: 'rule-1',
+        assetKind: 'cedear',
+        assetId: 'AAPL',
+        label: 'AAPL',
+        currency: 'ARS',
+        enabled: true,
+        createdAtISO: '2025-06-01T10:00:00.000Z',
+        updatedAtISO: '2025-06-01T10:00:00.000Z',
+        ...overrides,
+    }
+}
+
+function cedear(value: number | null, changePct1d: number | null = null, valueUsd: number | null = null): AlertQuote {
+    return { assetKind: 'cedear', assetId: 'AAPL', value, valueUsd, changePct1d }
+}
+
+let idCounter = 0
+const nextId = () => `evt-${++idCounter}`
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('evaluatePriceAlerts', () => {
+    it('fires once when a below rule is breached and re-arms after recovering', () => {
+        const base = rule({ condition: 'below', threshold: 15000 })
+
+        const first = evaluatePriceAlerts([base], [cedear(14800)], NOW, nextId)
+        expect(first.events).toHaveLength(1)
+        expect(first.events[0].ruleId).toBe('rule-1')
+        expect(first.updatedRules[0].triggeredAtISO).toBe(NOW)
+
+        const stillBelow = evaluatePriceAlerts(first.updatedRules, [cedear(14700)], NOW, nextId)
+        expect(stillBelow.events).toHaveLength(0)
+
+        const recovered = evaluatePriceAlerts(stillBelow.updatedRules, [cedear(15200)], NOW, nextId)
+        expect(recovered.events).toHaveLength(0)
+        expect(recovered.updatedRules[0].triggeredAtISO).toBeUndefined()
+
+        const breachedAgain = evaluatePriceAlerts(recovered.updatedRules, [cedear(14900)], NOW, nextId)
+        expect(breachedAgain.events).toHaveLength(1)
+    })
+
+    it('uses the USD price for CEDEAR rules in USD', () => {
+        const usdRule = rule({ condition: 'above', threshold: 12, currency: 'USD' })
+        expect(evaluatePriceAlerts([usdRule], [cedear(14000, null, 12.5)], NOW, nextId).events).toHaveLength(1)
+        expect(evaluatePriceAlerts([usdRule], [cedear(20000, null, 11)], NOW, nextId).events).toHaveLength(0)
+    })
+
+    it('evaluates daily change rules against changePct1d', () => {
+        const btcUp = rule({
+            assetKind: 'crypto',
+            assetId: 'bitcoin',
+            label: 'BTC',
+            currency: undefined,
+            condition: 'change_up',
+            threshold: 5,
+        })
+        const quote = (changePct1d: number): AlertQuote => ({ assetKind: 'crypto', assetId: 'bitcoin', value: 65000, changePct1d })
+
+        expect(evaluatePriceAlerts([btcUp], [quote(4.9)], NOW, nextId).events).toHaveLength(0)
+        expect(evaluatePriceAlerts([btcUp], [quote(5.3)], NOW, nextId).events).toHaveLength(1)
+
+        const btcDown = { ...btcUp, condition: 'change_down' as const }
+        expect(evaluatePriceAlerts([btcDown], [quote(-6)], NOW, nextId).events).toHaveLength(1)
+        expect(evaluatePriceAlerts([btcDown], [quote(6)], NOW, nextId).events).toHaveLength(0)
+    })
+
+    it('fires "crosses" only when the value moves across the threshold', () => {
+        const riesgo = rule({
+            assetKind: 'indicator',
+            assetId: 'riesgoPais',
+            label: 'Riesgo País',
+            currency: undefined,
+            condition: 'crosses',
+            threshold: 700,
+        })
+        const quote = (value: number): AlertQuote => ({ assetKind: 'indicator', assetId: 'riesgoPais', value, changePct1d: null })
+
+        // First observation only records the value
+        const first = evaluatePriceAlerts([riesgo], [quote(720)], NOW, nextId)
+        expect(first.events).toHaveLength(0)
+        expect(first.updatedRules[0].lastValue).toBe(720)
+
+        const down = evaluatePriceAlerts(first.updatedRules, [quote(690)], NOW, nextId)
+        expect(down.events).toHaveLength(1)
+
+        const flat = evaluatePriceAlerts(down.updatedRules, [quote(680)], NOW, nextId)
+        expect(flat.events).toHaveLength(0)
+
+        const up = evaluatePriceAlerts(flat.updatedRules, [quote(705)], NOW, nextId)
+        expect(up.events).toHaveLength(1)
+    })
+
+    it('leaves disabled rules and rules without a quote untouched', () => {
+        const disabled = rule({ condition: 'below', threshold: 15000, enabled: false })
+        const otherAsset = rule({ id: 'rule-2', assetId: 'MSFT', label: 'MSFT', condition: 'below', threshold: 15000 })
+
+        const result = evaluatePriceAlerts([disabled, otherAsset], [cedear(100)], NOW, nextId)
+        expect(result.events).toHaveLength(0)
+        expect(result.updatedRules).toHaveLength(0)
+    })
+
+    it('skips quotes without a value', () => {
+        const result = evaluatePriceAlerts([rule({ condition: 'below', threshold: 15000 })], [cedear(null)], NOW, nextId)
+        expect(result.events).toHaveLength(0)
+        expect(result.updatedRules).toHaveLength(0)
+    })
+
+    it('matches tickers case-insensitively', () => {
+        const lower: AlertQuote = { assetKind: 'cedear', assetId: 'aapl', value: 100, changePct1d: null }
+        expect(evaluatePriceAlerts([rule({ condition: 'below', threshold: 15000 })], [lower], NOW, nextId).events).toHaveLength(1)
+    })
+})
+
+describe('describeAlertRule', () => {
+    it('summarizes indicator and change rules', () => {
+        expect(describeAlertRule(rule({
+            assetKind: 'indicator',
+            assetId: 'riesgoPais',
+            label: 'Riesgo País',
+            condition: 'crosses',
+            threshold: 700,
+        }))).toBe('Riesgo País cruza 700 pb')
+        expect(describeAlertRule(rule({ condition: 'change_down', threshold: 3 }))).toBe('AAPL baja -3,00% en el día')
+    })
+})
@@ -0,0 +1,182 @@
+/**
+ * Price Alert Evaluation
+ *
+ * Rules are edge-triggered: above/below/change_* fire once when the condition
+ * starts to hold and re-arm after it stops holding, so a 5-minute refresh loop
+ * doesn't notify the same breach over and over. "crosses" fires on every
+ * crossing between two consecutive observations.
+ */
+
+import { formatMoneyARS, formatMoneyUSD, formatNumberAR } from '@/lib/format'
+import type {
+    AlertCondition,
+    AlertIndicatorId,
+    AlertQuote,
+    PriceAlertEvent,
+    PriceAlertRule,
+} from './types'
+
+export const ALERT_INDICATOR_LABELS: Record<AlertIndicatorId, string> = {
+    mep: 'Dólar MEP',
+    ccl: 'Dólar CCL',
+    riesgoPais: 'Riesgo País',
+    merval: 'MERVAL',
+    sp500: 'S&P 500',
+}
+
+export const ALERT_CONDITION_LABELS: Record<AlertCondition, string> = {
+    above: 'Por encima de',
+    below: 'Por debajo de',
+    crosses: 'Cruza',
+    change_up: 'Sube en el día (%)',
+    change_down: 'Baja en el día (%)',
+}
+
+export interface AlertEvaluation {
+    /** Rules whose evaluation state changed and must be persisted */
+    updatedRules: PriceAlertRule[]
+    events: PriceAlertEvent[]
+}
+
+function isChangeCondition(condition: AlertCondition): boolean {
+    return condition === 'change_up' || condition === 'change_down'
+}
+
+function quoteKey(assetKind: string, assetId: string): string {
+    return `${assetKind}:${assetId.toUpperCase()}`
+}
+
+function observedValue(rule: PriceAlertRule, quote: AlertQuote): number | null {
+    const value = isChangeCondition(rule.condition)
+        ? quote.changePct1d
+        : rule.assetKind === 'cedear' && rule.currency === 'USD'
+            ? quote.valueUsd ?? null
+            : quote.value
+    return value != null && Number.isFinite(value) ? value : null
+}
+
+/**
+ * Formats a price/level in the unit the rule watches.
+ */
+export function formatAlertValue(rule: Pick<PriceAlertRule, 'assetKind' | 'assetId' | 'currency'>, value: number): string {
+    if (rule.assetKind === 'crypto') return formatMoneyUSD(value)
+    if (rule.assetKind === 'cedear') {
+        return rule.currency === 'USD' ? formatMoneyUSD(value) : formatMoneyARS(value)
+    }
+    if (rule.assetId === 'mep' || rule.assetId === 'ccl') return formatMoneyARS(value)
+    if (rule.assetId === 'riesgoPais') return `${formatNumberAR(value, 0, 0)} pb`
+    return formatNumberAR(value, 0, 2)
+}
+
+function formatPct(value: number): string {
+    return `${value > 0 ? '+' : ''}${formatNumberAR(value, 2, 2)}%`
+}
+
+/**
+ * Human-readable rule summary, e.g. "AAPL por debajo de $ 15.000,00".
+ */
+export function describeAlertRule(rule: PriceAlertRule): string {
+    const threshold = Math.abs(rule.threshold)
+    switch (rule.condition) {
+        case 'above':
+            return `${rule.label} por encima de ${formatAlertValue(rule, rule.threshold)}`
+        case 'below':
+            return `${rule.label} por debajo de ${formatAlertValue(rule, rule.threshold)}`
+        case 'crosses':
+            return `${rule.label} cruza ${formatAlertValue(rule, rule.threshold)}`
+        case 'change_up':
+            return `${rule.label} sube ${formatPct(threshold)} en el día`
+        case 'change_down':
+            return `${rule.label} baja ${formatPct(-threshold)} en el día`
+    }
+}
+
+function buildMessage(rule: PriceAlertRule, value: number, previous: number | undefined): string {
+    const current = isChangeCondition(rule.condition) ? formatPct(value) : formatAlertValue(rule, value)
+    switch (rule.condition) {
+        case 'above':
+            return `${rule.label} está en ${current}, por encima de ${formatAlertValue(rule, rule.threshold)}`
+        case 'below':
+            return `${rule.label} está en ${current}, por debajo de ${formatAlertValue(rule, rule.threshold)}`
+        case 'crosses':
+            return `${rule.label} cruzó ${formatAlertValue(rule, rule.threshold)} (${previous != null ? formatAlertValue(rule, previous) : '—'} → ${current})`
+        case 'change_up':
+        case 'change_down':
+            return `${rule.label} ${value >= 0 ? 'sube' : 'baja'} ${current} en el día`
+    }
+}
+
+function conditionHolds(rule: PriceAlertRule, value: number): boolean {
+    const threshold = rule.threshold
+    switch (rule.condition) {
+        case 'above':
+            return value >= threshold
+        case 'below':
+            return value <= threshold
+        case 'change_up':
+            return value >= Math.abs(threshold)
+        case 'change_down':
+            return value <= -Math.abs(threshold)
+        case 'crosses': {
+            const previous = rule.lastValue
+            if (previous == null) return false
+            return (previous < threshold && value >= threshold) || (previous > threshold && value <= threshold)
+        }
+    }
+}
+
+/**
+ * Evaluates enabled rules against fresh quotes.
+ * Rules without a matching quote (other tab, asset not loaded) are left untouched.
+ */
+export function evaluatePriceAlerts(
+    rules: PriceAlertRule[],
+    quotes: AlertQuote[],
+    nowISO: string,
+    createId: () => string = () => crypto.randomUUID()
+): AlertEvaluation {
+    const quoteMap = new Map<string, AlertQuote>()
+    quotes.forEach(quote => quoteMap.set(quoteKey(quote.assetKind, quote.assetId), quote))
+
+    const updatedRules: PriceAlertRule[] = []
+    const events: PriceAlertEvent[] = []
+
+    for (const rule of rules) {
+        if (!rule.enabled) continue
+        const quote = quoteMap.get(quoteKey(rule.assetKind, rule.assetId))
+        if (!quote) continue
+        const value = observedValue(rule, quote)
+        if (value == null) continue
+
+        const holds = conditionHolds(rule, value)
+        const next: PriceAlertRule = { ...rule, lastValue: value }
+        let fire = false
+
+        if (rule.condition === 'crosses') {
+            fire = holds
+            if (holds) next.triggeredAtISO = nowISO
+        } else if (holds && !rule.triggeredAtISO) {
+            fire = true
+            next.triggeredAtISO = nowISO
+        } else if (!holds && rule.triggeredAtISO) {
+            delete next.triggeredAtISO
+        }
+
+        if (fire) {
+            events.push({
+                id: createId(),
+                ruleId: rule.id,
+                label: rule.label,
+                message: buildMessage(rule, value, rule.lastValue),
+                value,
+                firedAtISO: nowISO,
+            })
+        }
+
+        if (next.lastValue !== rule.lastValue || next.triggeredAtISO !== rule.triggeredAtISO) {
+            updatedRules.push(next)
+        }
+    }
+
+    return { updatedRules, events }
+}
@@ -0,0 +1,58 @@
+/**
+ * Price Alert Types
+ * Rules evaluated against Market page quotes (CEDEARs, crypto, indicators)
+ */
+
+/**
+ * What a rule watches.
+ * - cedear: assetId is the CEDEAR ticker (e.g. "AAPL")
+ * - crypto: assetId is the CoinGecko id (e.g. "bitcoin")
+ * - indicator: assetId is an AlertIndicatorId
+ */
+export type AlertAssetKind = 'cedear' | 'crypto' | 'indicator'
+
+export type AlertIndicatorId = 'mep' | 'ccl' | 'riesgoPais' | 'merval' | 'sp500'
+
+/**
+ * - above / below: value is above / below the threshold
+ * - crosses: value moved from one side of the threshold to the other since the last refresh
+ * - change_up / change_down: 1D change is at least +threshold% / at most -threshold%
+ */
+export type AlertCondition = 'above' | 'below' | 'crosses' | 'change_up' | 'change_down'
+
+export interface PriceAlertRule {
+    id: string
+    assetKind: AlertAssetKind
+    assetId: string
+    label: string                   // Display name, e.g. "AAPL" or "Dólar MEP"
+    condition: AlertCondition
+    threshold: number               // Price/level, or percent for change_* conditions
+    currency?: 'ARS' | 'USD'        // CEDEAR price currency (crypto is always USD)
+    enabled: boolean
+    createdAtISO: string
+    updatedAtISO: string
+
+    // Evaluation state — per device, not synced
+    lastValue?: number              // Last observed value (needed for "crosses")
+    triggeredAtISO?: string         // Set while the condition holds; cleared to re-arm
+}
+
+/** Fired alert, shown in the in-app inbox */
+export interface PriceAlertEvent {
+    id: string
+    ruleId: string
+    label: string
+    message: string
+    value: number
+    firedAtISO: string
+    readAtISO?: string
+}
+
+/** Normalized quote a rule is evaluated against */
+export interface AlertQuote {
+    assetKind: AlertAssetKind
+    assetId: string
+    value: number | null            // Native price/level (CEDEAR in ARS, crypto in USD)
+    valueUsd?: number | null        // CEDEAR price in USD (via MEP)
+    changePct1d: number | null
+}
@@ -9,7 +9,7 @@ import type { PriceResult } from '@/domain/prices/price-result'
 /**
  * Asset class categories for valuation rules
  */
-export type AssetClass = 'CEDEAR' | 'CRYPTO' | 'CASH_ARS' | 'CASH_USD' | 'STABLE' | 'FCI' | 'PF' | 'OTHER'
+export type AssetClass = 'CEDEAR' | 'CRYPTO' | 'CASH_ARS' | 'CASH_USD' | 'STABLE' | 'FCI' | 'PF' | 'BOND' | 'OTHER'
 
 /**
  * CEDEAR-specific structural information
@@ -7,6 +7,7 @@ import { describe, it, expect } from 'vitest'
 import { computeAssetMetrics, computePortfolioTotals, getFxKeyForAsset } from './valuation'
 import type { AssetInput, AssetPrices } from './types'
 import type { FxQuotes } from '@/domain/fx/types'
+import { DEFAULT_VALUATION_DEFAULTS, parseValuationDefaults } from '@/domain/fx/valuation-policy'
 
 // Test Fixtures
 const fxQuotes: FxQuotes = {
@@ -28,6 +29,18 @@ describe('getFxKeyForAsset', () => {
         expect(getFxKeyForAsset('CASH_ARS')).toBe('oficial')
         expect(getFxKeyForAsset('ARS_CASH')).toBe('oficial')
     })
+
+    it('follows the global valuation policy when given one', () => {
+        const defaults = { ...DEFAULT_VALUATION_DEFAULTS, CEDEAR: 'cripto' as const }
+        expect(getFxKeyForAsset('CEDEAR', defaults)).toBe('cripto')
+        expect(getFxKeyForAsset('CASH_ARS', defaults)).toBe('oficial')
+    })
+
+    it('ignores unknown or invalid stored policy entries', () => {
+        const parsed = parseValuationDefaults(JSON.stringify({ CEDEAR: 'oficial', CRYPTO: 'blue', FOO: 'mep' }))
+        expect(parsed).toEqual({ ...DEFAULT_VALUATION_DEFAULTS, CEDEAR: 'oficial' })
+        expect(parseValuationDefaults('not json')).toEqual(DEFAULT_VALUATION_DEFAULTS)
+    })
 })
 
 describe('computeAssetMetrics - CEDEAR', () => {
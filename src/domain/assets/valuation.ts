@@ -5,6 +5,8 @@
 
 import type { FxQuotes, FxKey } from '@/domain/fx/types'
 import { toUsdFromArs, toArsFromUsd, getEffectiveRate } from '@/domain/fx/convert'
+import { BOND_PRICE_BASE } from '@/domain/bonds/schedule'
+import { DEFAULT_VALUATION_DEFAULTS, isValuationCategory, type ValuationDefaults } from '@/domain/fx/valuation-policy'
 import type { AssetMetrics, AssetInput, AssetPrices, CedearDetails, PortfolioAssetTotals } from './types'
 
 /**
@@ -17,17 +19,15 @@ const FX_LABELS: Record<FxKey, string> = {
 }
 
 /**
- * Get the appropriate FX key for an asset class
+ * Get the appropriate FX key for an asset class (global valuation policy;
+ * cash always uses the official rate here)
  */
-export function getFxKeyForAsset(category: string): FxKey {
+export function getFxKeyForAsset(
+    category: string,
+    defaults: ValuationDefaults = DEFAULT_VALUATION_DEFAULTS
+): FxKey {
+    if (isValuationCategory(category)) return defaults[category]
     switch (category) {
-        case 'CEDEAR':
-            return 'mep'
-        case 'FCI':
-            return 'oficial'
-        case 'CRYPTO':
-        case 'STABLE':
-            return 'cripto'
         case 'CASH_ARS':
         case 'CASH_USD':
         case 'ARS_CASH':
@@ -76,10 +76,11 @@ function safePct(value: number | null, base: number | null): number | null {
     if (value == null || base == null || !Number.isFinite(value) || !Number.isFinite(base)) {
         return null
     }
-    if (base <= 0 || Math.abs(base) < 1e-8) {
+    if (Math.abs(base) < 1e-8) {
         return null
     }
-    return value / base
+    // Short positions carry a negative basis (the proceeds)
+    return value / Math.abs(base)
 }
 
 /**
@@ -88,9 +89,10 @@ function safePct(value: number | null, base: number | null): number | null {
 export function computeAssetMetrics(
     asset: AssetInput,
     prices: AssetPrices,
-    fxQuotes: FxQuotes
+    fxQuotes: FxQuotes,
+    valuationDefaults?: ValuationDefaults
 ): AssetMetrics {
-    const fxKey = getFxKeyForAsset(asset.category)
+    const fxKey = getFxKeyForAsset(asset.category, valuationDefaults)
     const fx = fxQuotes[fxKey]
 
     let valArs: number | null = null
@@ -181,6 +183,34 @@ export function computeAssetMetrics(
             break
         }
 
+        case 'BOND': {
+            // BOND: quote is per 100 VN in the native currency (AL30 in ARS, AL30D in USD), MEP for the
+            // other side. Like FCI, a missing quote falls back to average cost instead of valuing at 0.
+            const quotePer100 = (prices.currentPrice != null && Number.isFinite(prices.currentPrice) && prices.currentPrice > 0)
+                ? prices.currentPrice
+                : null
+            const unitPrice = quotePer100 != null
+                ? quotePer100 / BOND_PRICE_BASE
+                : (asset.avgCostNative > 0 ? asset.avgCostNative : null)
+
+            if (unitPrice != null) {
+                if (asset.nativeCurrency === 'USD') {
+                    valUsdEq = asset.quantity * unitPrice
+                    valArs = toArsFromUsd(valUsdEq, fx)
+                } else {
+                    valArs = asset.quantity * unitPrice
+                    valUsdEq = toUsdFromArs(valArs, fx)
+                }
+            }
+
+            if (asset.costBasisUsdEq != null && asset.costBasisUsdEq !== 0) {
+                costUsdEq = asset.costBasisUsdEq
+            } else {
+                costUsdEq = toUsdFromArs(costArs, fx)
+            }
+            break
+        }
+
         case 'CRYPTO':
         case 'STABLE': {
             // CRYPTO/STABLE: Native price is USD
@@ -313,8 +343,13 @@ export function computeAssetMetrics(
         fxRate,
         currentPrice: prices.currentPrice,
         // Force average cost calculation from basis to ensure consistency (especially for CEDEARs ARS vs USD)
-        avgCost: asset.quantity > 0 ? (asset.category === 'CEDEAR' ? costArs / asset.quantity : asset.avgCostNative) : 0,
-        avgCostUsdEq: (asset.quantity > 0 && costUsdEq != null) ? costUsdEq / asset.quantity : 0,
+        avgCost: asset.quantity !== 0
+            ? (asset.category === 'CEDEAR'
+                ? costArs / asset.quantity
+                // Bonds: per 100 VN, like the quote
+                : asset.category === 'BOND' ? asset.avgCostNative * BOND_PRICE_BASE : asset.avgCostNative)
+            : 0,
+        avgCostUsdEq: (asset.quantity !== 0 && costUsdEq != null) ? costUsdEq / asset.quantity : 0,
         investedArs: costArs,
         nativeCurrency: asset.nativeCurrency,
         cedearDetails,
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import type { BondTerms } from '@/domain/types'
+import { accruedInterest, analyzeBond, residualValue, scaleFlows } from './analytics'
+import { getBondByTicker } from './catalog'
+import { buildBondSchedule, buildCapitalizingSchedule } from './schedule'
+
+const bulletOn: BondTerms = {
+    kind: 'corporate',
+    currency: 'USD',
+    issueDate: '2025-01-01',
+    maturityDate: '2027-01-01',
+    flows: buildBondSchedule({
+        issueDate: '2025-01-01',
+        maturityDate: '2027-01-01',
+        frequency: 2,
+        couponSteps: [{ from: '2025-01-01', rate: 10 }],
+    }),
+}
+
+describe('analyzeBond', () => {
+    it('accrues the running coupon and splits the clean price', () => {
+        expect(accruedInterest(bulletOn, '2025-04-01')).toBeCloseTo(2.5)
+        expect(accruedInterest(bulletOn, '2025-07-01')).toBe(0) // Coupon paid that day
+
+        const result = analyzeBond(bulletOn, 102.5, '2025-04-01')
+        expect(result.cleanPrice).toBeCloseTo(100)
+        expect(result.parity).toBeCloseTo(100)
+        expect(result.technicalValue).toBeCloseTo(102.5)
+        expect(result.nextFlow?.date).toBe('2025-07-01')
+    })
+
+    it('prices a zero-coupon flow back to its yield and duration', () => {
+        const lecap: BondTerms = {
+            kind: 'lecap',
+            currency: 'ARS',
+            issueDate: '2025-01-01',
+            maturityDate: '2026-01-01',
+            flows: [{ date: '2026-01-01', coupon: 10, amortization: 100 }],
+        }
+
+        const result = analyzeBond(lecap, 100, '2025-01-01')
+        expect(result.ytm).toBeCloseTo(0.1, 6)
+        expect(result.macaulayDuration).toBeCloseTo(1)
+        expect(result.modifiedDuration).toBeCloseTo(1 / 1.1, 6)
+    })
+
+    it('values a par bond near its coupon rate', () => {
+        const result = analyzeBond(bulletOn, 100, '2025-01-01')
+        expect(result.ytm).toBeCloseTo(Math.pow(1.05, 2) - 1, 2)
+        expect(result.macaulayDuration!).toBeLessThan(2)
+    })
+
+    it('tracks the AL30 residual value and returns null without flows', () => {
+        const { terms } = getBondByTicker('AL30')!
+        expect(residualValue(terms, '2024-06-30')).toBe(100)
+        expect(residualValue(terms, '2025-01-09')).toBe(88)
+
+        const after = analyzeBond(terms, 50, '2031-01-01')
+        expect(after.ytm).toBeNull()
+        expect(after.remainingFlows).toEqual([])
+    })
+
+    it('scales flows to a holding', () => {
+        const flows = buildCapitalizingSchedule('2025-01-01', '2025-07-01', 2)
+        const [flow] = scaleFlows(flows, 5000)
+        expect(flow.amortization).toBe(5000)
+        expect(flow.coupon).toBeCloseTo(flows[0].coupon * 50)
+    })
+})
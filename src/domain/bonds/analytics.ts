@@ -0,0 +1,129 @@
+/**
+ * Bond analytics at a quote: residual and technical value, accrued interest,
+ * parity, TIR and duration.
+ *
+ * Quotes are taken as what a buyer pays per 100 VN original, accrued interest
+ * included; the clean price is the quote minus the accrued interest. TIR is
+ * an effective annual rate over actual/365 times from the valuation date.
+ */
+
+import type { BondCashFlow, BondTerms } from '@/domain/types'
+import { BOND_PRICE_BASE, yearFraction30360 } from './schedule'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface BondAnalytics {
+    /** Face value still outstanding, per 100 VN original */
+    residualValue: number
+    accruedInterest: number
+    /** Residual + accrued: what the bond would pay if called today */
+    technicalValue: number
+    cleanPrice: number
+    /** Clean price over residual value, % (100 = at par) */
+    parity: number | null
+    /** Effective annual yield as a fraction; null when no rate matches the price */
+    ytm: number | null
+    /** Years */
+    macaulayDuration: number | null
+    modifiedDuration: number | null
+    nextFlow: BondCashFlow | null
+    remainingFlows: BondCashFlow[]
+}
+
+function yearsBetween(fromKey: string, toKey: string): number {
+    return (Date.parse(`${toKey}T00:00:00Z`) - Date.parse(`${fromKey.slice(0, 10)}T00:00:00Z`)) / DAY_MS / 365
+}
+
+/** Flows still to be paid after `dateKey` (a flow on that date was already paid) */
+export function remainingFlows(terms: BondTerms, dateKey: string): BondCashFlow[] {
+    const key = dateKey.slice(0, 10)
+    return terms.flows.filter(f => f.date > key)
+}
+
+export function residualValue(terms: BondTerms, dateKey: string): number {
+    const paid = terms.flows
+        .filter(f => f.date <= dateKey.slice(0, 10))
+        .reduce((sum, f) => sum + f.amortization, 0)
+    return Math.max(0, BOND_PRICE_BASE - paid)
+}
+
+/** Share of the running coupon earned since the last payment, 30/360 */
+export function accruedInterest(terms: BondTerms, dateKey: string): number {
+    const key = dateKey.slice(0, 10)
+    const idx = terms.flows.findIndex(f => f.date > key)
+    if (idx < 0) return 0
+    const periodStart = idx > 0 ? terms.flows[idx - 1].date : terms.issueDate
+    if (key < periodStart) return 0
+    const period = yearFraction30360(periodStart, terms.flows[idx].date)
+    if (period <= 0) return 0
+    return terms.flows[idx].coupon * (yearFraction30360(periodStart, key) / period)
+}
+
+function presentValue(flows: BondCashFlow[], dateKey: string, rate: number): number {
+    return flows.reduce(
+        (sum, f) => sum + (f.coupon + f.amortization) / Math.pow(1 + rate, yearsBetween(dateKey, f.date)),
+        0
+    )
+}
+
+/**
+ * Rate that discounts the remaining flows to `pricePer100`, by bisection.
+ * Present value falls as the rate rises, so the root is unique.
+ */
+export function bondYield(terms: BondTerms, pricePer100: number, dateKey: string): number | null {
+    const flows = remainingFlows(terms, dateKey)
+    if (flows.length === 0 || !(pricePer100 > 0)) return null
+
+    let low = -0.99
+    let high = 10
+    if (presentValue(flows, dateKey, low) < pricePer100 || presentValue(flows, dateKey, high) > pricePer100) {
+        return null
+    }
+    for (let i = 0; i < 200; i++) {
+        const mid = (low + high) / 2
+        if (presentValue(flows, dateKey, mid) > pricePer100) low = mid
+        else high = mid
+        if (high - low < 1e-10) break
+    }
+    return (low + high) / 2
+}
+
+/** Macaulay duration in years at `rate` */
+export function macaulayDuration(terms: BondTerms, dateKey: string, rate: number): number | null {
+    const flows = remainingFlows(terms, dateKey)
+    const pv = presentValue(flows, dateKey, rate)
+    if (!(pv > 0)) return null
+    const weighted = flows.reduce((sum, f) => {
+        const t = yearsBetween(dateKey, f.date)
+        return sum + t * (f.coupon + f.amortization) / Math.pow(1 + rate, t)
+    }, 0)
+    return weighted / pv
+}
+
+export function analyzeBond(terms: BondTerms, pricePer100: number, dateKey: string): BondAnalytics {
+    const residual = residualValue(terms, dateKey)
+    const accrued = accruedInterest(terms, dateKey)
+    const cleanPrice = pricePer100 - accrued
+    const flows = remainingFlows(terms, dateKey)
+    const ytm = bondYield(terms, pricePer100, dateKey)
+    const macaulay = ytm != null ? macaulayDuration(terms, dateKey, ytm) : null
+
+    return {
+        residualValue: residual,
+        accruedInterest: accrued,
+        technicalValue: residual + accrued,
+        cleanPrice,
+        parity: residual > 0 ? (cleanPrice / residual) * 100 : null,
+        ytm,
+        macaulayDuration: macaulay,
+        modifiedDuration: macaulay != null && ytm != null ? macaulay / (1 + ytm) : null,
+        nextFlow: flows[0] ?? null,
+        remainingFlows: flows,
+    }
+}
+
+/** Flows of a holding of `faceValue` VN, in the payment currency */
+export function scaleFlows(flows: BondCashFlow[], faceValue: number): BondCashFlow[] {
+    const factor = faceValue / BOND_PRICE_BASE
+    return flows.map(f => ({ date: f.date, coupon: f.coupon * factor, amortization: f.amortization * factor }))
+}
@@ -0,0 +1,79 @@
+/**
+ * Known sovereign bonds (2020 restructuring), so the wizard doesn't need the
+ * schedule typed in. Lecaps and ONs are entered with custom terms.
+ */
+
+import type { BondTerms } from '@/domain/types'
+import { addMonthsKey, buildBondSchedule, type BondAmortization } from './schedule'
+
+export interface BondCatalogItem {
+    ticker: string
+    name: string
+    /** Currency the bond is quoted in on this ticker (AL30 in pesos, AL30D in dollars) */
+    quoteCurrency: 'ARS' | 'USD'
+    terms: BondTerms
+}
+
+function semiannualInstallments(first: string, count: number, pct: number): BondAmortization[] {
+    return Array.from({ length: count }, (_, i) => ({ date: addMonthsKey(first, i * 6), pct }))
+}
+
+// Bonares (AL, local law) and Globales (GD, NY law) share the schedule
+const TERMS_2029: BondTerms = {
+    kind: 'sovereign',
+    currency: 'USD',
+    issuer: 'República Argentina',
+    issueDate: '2020-09-04',
+    maturityDate: '2029-07-09',
+    flows: buildBondSchedule({
+        issueDate: '2020-09-04',
+        maturityDate: '2029-07-09',
+        frequency: 2,
+        firstCouponDate: '2021-07-09',
+        couponSteps: [{ from: '2020-09-04', rate: 1 }],
+        amortizations: semiannualInstallments('2025-01-09', 10, 10),
+    }),
+}
+
+const TERMS_2030: BondTerms = {
+    kind: 'sovereign',
+    currency: 'USD',
+    issuer: 'República Argentina',
+    issueDate: '2020-09-04',
+    maturityDate: '2030-07-09',
+    flows: buildBondSchedule({
+        issueDate: '2020-09-04',
+        maturityDate: '2030-07-09',
+        frequency: 2,
+        firstCouponDate: '2021-07-09',
+        couponSteps: [
+            { from: '2020-09-04', rate: 0.125 },
+            { from: '2021-07-09', rate: 0.5 },
+            { from: '2027-07-09', rate: 0.75 },
+        ],
+        amortizations: [
+            { date: '2024-07-09', pct: 4 },
+            ...semiannualInstallments('2025-01-09', 12, 8),
+        ],
+    }),
+}
+
+const BOND_CATALOG: BondCatalogItem[] = [
+    { ticker: 'AL29', name: 'Bonar 2029 (Ley local)', quoteCurrency: 'ARS', terms: TERMS_2029 },
+    { ticker: 'AL29D', name: 'Bonar 2029 (Ley local) - USD', quoteCurrency: 'USD', terms: TERMS_2029 },
+    { ticker: 'GD29', name: 'Global 2029 (Ley NY)', quoteCurrency: 'ARS', terms: TERMS_2029 },
+    { ticker: 'GD29D', name: 'Global 2029 (Ley NY) - USD', quoteCurrency: 'USD', terms: TERMS_2029 },
+    { ticker: 'AL30', name: 'Bonar 2030 (Ley local)', quoteCurrency: 'ARS', terms: TERMS_2030 },
+    { ticker: 'AL30D', name: 'Bonar 2030 (Ley local) - USD', quoteCurrency: 'USD', terms: TERMS_2030 },
+    { ticker: 'GD30', name: 'Global 2030 (Ley NY)', quoteCurrency: 'ARS', terms: TERMS_2030 },
+    { ticker: 'GD30D', name: 'Global 2030 (Ley NY) - USD', quoteCurrency: 'USD', terms: TERMS_2030 },
+]
+
+export function listBonds(): BondCatalogItem[] {
+    return BOND_CATALOG
+}
+
+export function getBondByTicker(ticker: string): BondCatalogItem | undefined {
+    const t = ticker.trim().toUpperCase()
+    return BOND_CATALOG.find(b => b.ticker === t)
+}
@@ -0,0 +1,3 @@
+export * from './schedule'
+export * from './analytics'
+export * from './catalog'
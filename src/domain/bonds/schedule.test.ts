@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { getBondByTicker } from './catalog'
+import { addMonthsKey, buildBondSchedule, buildCapitalizingSchedule, yearFraction30360 } from './schedule'
+
+describe('schedule helpers', () => {
+    it('moves dates by months clamping to the month end', () => {
+        expect(addMonthsKey('2030-07-09', -6)).toBe('2030-01-09')
+        expect(addMonthsKey('2025-08-31', 6)).toBe('2026-02-28')
+        expect(addMonthsKey('2025-01-15', -13)).toBe('2023-12-15')
+    })
+
+    it('counts 30/360 year fractions', () => {
+        expect(yearFraction30360('2025-01-09', '2025-07-09')).toBe(0.5)
+        expect(yearFraction30360('2025-01-31', '2025-03-31')).toBeCloseTo(60 / 360)
+    })
+})
+
+describe('buildBondSchedule', () => {
+    it('pays a bullet ON with a fixed coupon', () => {
+        const flows = buildBondSchedule({
+            issueDate: '2025-03-01',
+            maturityDate: '2027-03-01',
+            frequency: 2,
+            couponSteps: [{ from: '2025-03-01', rate: 8 }],
+        })
+
+        expect(flows.map(f => f.date)).toEqual(['2025-09-01', '2026-03-01', '2026-09-01', '2027-03-01'])
+        expect(flows.every(f => Math.abs(f.coupon - 4) < 1e-9)).toBe(true)
+        expect(flows.map(f => f.amortization)).toEqual([0, 0, 0, 100])
+    })
+
+    it('builds the AL30 step-up coupons on the amortized residual', () => {
+        const { flows } = getBondByTicker('al30')!.terms
+
+        expect(flows[0].date).toBe('2021-07-09')
+        expect(flows[flows.length - 1].date).toBe('2030-07-09')
+        expect(flows.reduce((sum, f) => sum + f.amortization, 0)).toBeCloseTo(100)
+
+        const jan2025 = flows.find(f => f.date === '2025-01-09')!
+        expect(jan2025.coupon).toBeCloseTo(96 * 0.005 / 2) // 4% already amortized
+        expect(jan2025.amortization).toBe(8)
+
+        const jan2028 = flows.find(f => f.date === '2028-01-09')!
+        expect(jan2028.coupon).toBeCloseTo(48 * 0.0075 / 2) // 0.75% from Jul 2027
+    })
+
+    it('capitalizes a Lecap into one payment', () => {
+        const [flow] = buildCapitalizingSchedule('2025-01-15', '2025-07-15', 3)
+        expect(flow.date).toBe('2025-07-15')
+        expect(flow.amortization).toBe(100)
+        expect(flow.coupon).toBeCloseTo(100 * (Math.pow(1.03, 6) - 1))
+    })
+})
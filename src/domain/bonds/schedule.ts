@@ -0,0 +1,115 @@
+/**
+ * Bond cash-flow schedules.
+ *
+ * Flows are expressed per 100 VN of original face value, the way bond
+ * prospectuses and market quotes are. Coupons accrue 30/360 on the residual
+ * value at the start of each period, so step-up coupons and amortizing bonds
+ * (AL30/GD30) come out of the same builder as bullet ONs.
+ */
+
+import type { BondCashFlow } from '@/domain/types'
+
+/** Quotes and flows are per 100 VN */
+export const BOND_PRICE_BASE = 100
+
+export interface BondCouponStep {
+    from: string // YYYY-MM-DD: periods starting on or after this date use `rate`
+    rate: number // Annual %, e.g. 0.75 = 0.75%
+}
+
+export interface BondAmortization {
+    date: string // YYYY-MM-DD
+    pct: number // % of the original face value paid back
+}
+
+export interface BondScheduleParams {
+    issueDate: string
+    maturityDate: string
+    /** Payments per year (2 = semiannual) */
+    frequency: 1 | 2 | 4 | 12
+    couponSteps: BondCouponStep[]
+    /** Bullet at maturity when missing */
+    amortizations?: BondAmortization[]
+    /** Earlier dates of the grid are skipped (long first coupon) */
+    firstCouponDate?: string
+}
+
+function parseKey(dateKey: string): [number, number, number] {
+    const [year, month, day] = dateKey.slice(0, 10).split('-').map(Number)
+    return [year, month, day]
+}
+
+function toKey(year: number, month: number, day: number): string {
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/** Same day-of-month `months` later (or earlier), clamped to the month end */
+export function addMonthsKey(dateKey: string, months: number): string {
+    const [year, month, day] = parseKey(dateKey)
+    const total = year * 12 + (month - 1) + months
+    const targetYear = Math.floor(total / 12)
+    const targetMonth = total - targetYear * 12 + 1
+    const lastDay = new Date(Date.UTC(targetYear, targetMonth, 0)).getUTCDate()
+    return toKey(targetYear, targetMonth, Math.min(day, lastDay))
+}
+
+/** Year fraction between two dates, 30/360 (US) */
+export function yearFraction30360(fromKey: string, toKey: string): number {
+    const [y1, m1, d1Raw] = parseKey(fromKey)
+    const [y2, m2, d2Raw] = parseKey(toKey)
+    const d1 = Math.min(d1Raw, 30)
+    const d2 = d2Raw === 31 && d1 === 30 ? 30 : d2Raw
+    return ((y2 - y1) * 360 + (m2 - m1) * 30 + (d2 - d1)) / 360
+}
+
+function couponRateFor(steps: BondCouponStep[], periodStart: string): number {
+    let rate = 0
+    for (const step of [...steps].sort((a, b) => a.from.localeCompare(b.from))) {
+        if (step.from <= periodStart) rate = step.rate
+    }
+    return rate
+}
+
+/**
+ * Payment dates run back from maturity every 12/frequency months. Each flow
+ * pays the coupon for the period ending on its date plus any amortization.
+ */
+export function buildBondSchedule(params: BondScheduleParams): BondCashFlow[] {
+    const step = 12 / params.frequency
+    const dates: string[] = []
+    for (let i = 0; ; i++) {
+        const date = addMonthsKey(params.maturityDate, -step * i)
+        if (date <= params.issueDate) break
+        if (params.firstCouponDate && date < params.firstCouponDate) break
+        dates.unshift(date)
+    }
+
+    const amortizationByDate = new Map<string, number>()
+    const amortizations = params.amortizations?.length
+        ? params.amortizations
+        : [{ date: params.maturityDate, pct: 100 }]
+    for (const a of amortizations) {
+        amortizationByDate.set(a.date, (amortizationByDate.get(a.date) ?? 0) + a.pct)
+    }
+
+    let residual = BOND_PRICE_BASE
+    let periodStart = params.issueDate
+    return dates.map((date) => {
+        const rate = couponRateFor(params.couponSteps, periodStart)
+        const coupon = residual * (rate / 100) * yearFraction30360(periodStart, date)
+        const amortization = Math.min(residual, amortizationByDate.get(date) ?? 0)
+        residual -= amortization
+        periodStart = date
+        return { date, coupon, amortization }
+    })
+}
+
+/**
+ * Lecap/Boncap: no coupons, the monthly effective rate (TEM) capitalizes
+ * until maturity and everything is paid in a single flow.
+ */
+export function buildCapitalizingSchedule(issueDate: string, maturityDate: string, temPct: number): BondCashFlow[] {
+    const months = yearFraction30360(issueDate, maturityDate) * 12
+    const final = BOND_PRICE_BASE * Math.pow(1 + temPct / 100, months)
+    return [{ date: maturityDate, coupon: final - BOND_PRICE_BASE, amortization: BOND_PRICE_BASE }]
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import type { Movement } from '@/domain/types'
+import { computeCashBalances } from '@/domain/portfolio/cash-ledger'
+import {
+    buildCaucionOpening,
+    buildCaucionRateHistory,
+    buildCaucionSettlement,
+    caucionSettlementId,
+    computeCaucionInterest,
+    deriveCaucionPositions,
+} from './processor'
+
+const START = '2026-03-02T14:00:00.000Z'
+
+function open(side: 'colocadora' | 'tomadora', id: string, overrides: Partial<{ tna: number; termDays: number; feeTna: number; startDate: string }> = {}): Movement {
+    return buildCaucionOpening({
+        side,
+        accountId: 'iol',
+        principalARS: 1_000_000,
+        tna: overrides.tna ?? 36.5,
+        termDays: overrides.termDays ?? 7,
+        feeTna: overrides.feeTna,
+        startDate: overrides.startDate ?? START,
+    }, () => id)
+}
+
+describe('caución terms', () => {
+    it('charges simple interest on a 365-day TNA and nets fees by side', () => {
+        expect(computeCaucionInterest(1_000_000, 36.5, 7)).toBeCloseTo(7000)
+
+        const lend = open('colocadora', 'c1', { feeTna: 3.65 }).meta!.caucion!
+        expect(lend.maturityDate).toBe('2026-03-09T14:00:00.000Z')
+        expect(lend.feesARS).toBeCloseTo(700)
+        expect(lend.totalARS).toBeCloseTo(1_006_300)
+
+        const borrow = open('tomadora', 't1', { feeTna: 3.65 }).meta!.caucion!
+        expect(borrow.totalARS).toBeCloseTo(1_007_700)
+    })
+})
+
+describe('deriveCaucionPositions', () => {
+    it('accrues active positions and flags unsettled matured ones', () => {
+        const movements = [
+            open('colocadora', 'c1'),
+            open('tomadora', 't1', { termDays: 1, startDate: '2026-03-01T14:00:00.000Z' }),
+        ]
+        const state = deriveCaucionPositions(movements, new Date('2026-03-05T15:00:00.000Z'))
+
+        expect(state.active.map(p => p.id)).toEqual(['c1'])
+        expect(state.active[0].daysElapsed).toBe(3)
+        expect(state.active[0].accruedARS).toBeCloseTo(3000)
+        expect(state.active[0].daysRemaining).toBe(4)
+        expect(state.matured.map(p => p.id)).toEqual(['t1'])
+    })
+
+    it('closes a position once its settlement exists and moves the cash', () => {
+        const opening = open('colocadora', 'c1')
+        const [matured] = deriveCaucionPositions([opening], new Date('2026-03-10T00:00:00.000Z')).matured
+        const settlement = buildCaucionSettlement(matured, 'auto')
+
+        expect(settlement.id).toBe(caucionSettlementId('c1'))
+        expect(settlement.type).toBe('SELL')
+        expect(settlement.datetimeISO).toBe(matured.maturityDate)
+
+        const state = deriveCaucionPositions([opening, settlement], new Date('2026-03-10T00:00:00.000Z'))
+        expect(state.matured).toEqual([])
+        expect(state.settled[0].settlementId).toBe(settlement.id)
+
+        const deposit: Movement = {
+            id: 'dep',
+            datetimeISO: '2026-03-01T10:00:00.000Z',
+            type: 'DEPOSIT',
+            accountId: 'iol',
+            tradeCurrency: 'ARS',
+            totalAmount: 1_000_000,
+        }
+        const cash = computeCashBalances([deposit, opening, settlement]).get('iol')?.get('ARS')
+        expect(cash).toBeCloseTo(1_007_000)
+    })
+
+    it('keeps the borrowed cash and charges the tomadora at maturity', () => {
+        const opening = open('tomadora', 't1')
+        const [matured] = deriveCaucionPositions([opening], new Date('2026-03-10T00:00:00.000Z')).matured
+        const settlement = buildCaucionSettlement(matured, 'manual')
+
+        expect(opening.type).toBe('SELL')
+        expect(settlement.type).toBe('BUY')
+        expect(computeCashBalances([opening]).get('iol')?.get('ARS')).toBeCloseTo(1_000_000)
+    })
+})
+
+describe('buildCaucionRateHistory', () => {
+    it('lists the rate of each opening, oldest first', () => {
+        const movements = [
+            open('colocadora', 'c2', { tna: 30, startDate: '2026-03-09T14:00:00.000Z' }),
+            open('colocadora', 'c1', { tna: 32 }),
+        ]
+        const [matured] = deriveCaucionPositions(movements, new Date('2026-03-10T00:00:00.000Z')).matured
+        movements.push(buildCaucionSettlement(matured, 'auto'))
+
+        expect(buildCaucionRateHistory(movements).map(p => [p.dateKey, p.tna])).toEqual([
+            ['2026-03-02', 32],
+            ['2026-03-09', 30],
+        ])
+    })
+})
@@ -0,0 +1,199 @@
+/**
+ * Caución bursátil (repo) positions.
+ *
+ * A caución is a fixed-term loan between brokers' clients, 1 to 30 days,
+ * with simple interest on a 365-day TNA. The colocadora lends pesos (BUY,
+ * cash out) and collects principal + interest - fees at maturity (SELL); the
+ * tomadora borrows them (SELL, cash in) and pays principal + interest + fees
+ * (BUY). Both movements carry `meta.caucion`, so the cash ledger needs no
+ * special case and the settlement points back with `caucionId`.
+ */
+
+import type { CaucionMeta, CaucionSide, Movement } from '@/domain/types'
+import type { CaucionDerivedState, CaucionPosition, CaucionRatePoint } from './types'
+
+export const CAUCION_TERM_MIN_DAYS = 1
+export const CAUCION_TERM_MAX_DAYS = 30
+
+const DAY_MS = 86_400_000
+
+export const CAUCION_SIDE_LABELS: Record<CaucionSide, string> = {
+    colocadora: 'Colocadora',
+    tomadora: 'Tomadora',
+}
+
+/** Deterministic id, so retries and other tabs can't settle twice */
+export function caucionSettlementId(caucionId: string): string {
+    return `caucion-settle:${caucionId}`
+}
+
+/** Simple interest on a 365-day TNA (%) */
+export function computeCaucionInterest(principalARS: number, tna: number, termDays: number): number {
+    if (!(principalARS > 0) || !(tna > 0) || !(termDays > 0)) return 0
+    return principalARS * (tna / 100) * (termDays / 365)
+}
+
+export interface CaucionTermsInput {
+    side: CaucionSide
+    principalARS: number
+    tna: number
+    termDays: number
+    startDate: string // ISO
+    /** Arancel + derechos de mercado as an annual rate (%), prorated like the interest */
+    feeTna?: number
+}
+
+export function buildCaucionMeta(input: CaucionTermsInput): CaucionMeta {
+    const start = new Date(input.startDate)
+    const maturity = new Date(start.getTime() + input.termDays * DAY_MS)
+    const interestARS = computeCaucionInterest(input.principalARS, input.tna, input.termDays)
+    const feesARS = computeCaucionInterest(input.principalARS, input.feeTna ?? 0, input.termDays)
+    const totalARS = input.side === 'colocadora'
+        ? input.principalARS + interestARS - feesARS
+        : input.principalARS + interestARS + feesARS
+
+    return {
+        side: input.side,
+        principalARS: input.principalARS,
+        tna: input.tna,
+        termDays: input.termDays,
+        startDate: start.toISOString(),
+        maturityDate: maturity.toISOString(),
+        interestARS,
+        feesARS,
+        totalARS,
+    }
+}
+
+export function buildCaucionOpening(
+    input: CaucionTermsInput & { accountId: string; notes?: string },
+    createId: () => string = () => crypto.randomUUID()
+): Movement {
+    const caucion = buildCaucionMeta(input)
+    return {
+        id: createId(),
+        datetimeISO: caucion.startDate,
+        type: caucion.side === 'colocadora' ? 'BUY' : 'SELL',
+        assetClass: 'caucion',
+        accountId: input.accountId,
+        assetName: `Caución ${CAUCION_SIDE_LABELS[caucion.side].toLowerCase()}`,
+        ticker: 'CAUCION',
+        tradeCurrency: 'ARS',
+        totalAmount: caucion.principalARS,
+        totalARS: caucion.principalARS,
+        notes: input.notes,
+        source: 'user',
+        meta: { caucion },
+    }
+}
+
+/** Closing movement at maturity: the colocadora collects, the tomadora pays */
+export function buildCaucionSettlement(
+    position: CaucionPosition,
+    settlementMode: 'auto' | 'manual'
+): Movement {
+    return {
+        id: caucionSettlementId(position.id),
+        datetimeISO: position.maturityDate,
+        type: position.side === 'colocadora' ? 'SELL' : 'BUY',
+        assetClass: 'caucion',
+        accountId: position.accountId,
+        assetName: `Caución ${CAUCION_SIDE_LABELS[position.side].toLowerCase()}`,
+        ticker: 'CAUCION',
+        tradeCurrency: 'ARS',
+        totalAmount: position.totalARS,
+        totalARS: position.totalARS,
+        notes: `Vencimiento caución ${position.termDays}d (${settlementMode === 'auto' ? 'Auto-Liquidación' : 'Manual'})`,
+        isAuto: settlementMode === 'auto',
+        source: settlementMode === 'auto' ? 'system' : 'user',
+        meta: {
+            caucion: {
+                side: position.side,
+                principalARS: position.principalARS,
+                tna: position.tna,
+                termDays: position.termDays,
+                startDate: position.startDate,
+                maturityDate: position.maturityDate,
+                interestARS: position.interestARS,
+                feesARS: position.feesARS,
+                totalARS: position.totalARS,
+                caucionId: position.id,
+                settlementMode,
+            },
+        },
+    }
+}
+
+function isOpening(m: Movement): boolean {
+    return m.assetClass === 'caucion' && !!m.meta?.caucion && !m.meta.caucion.caucionId
+}
+
+/**
+ * Positions from the opening movements, with interest accrued linearly up to
+ * `now`. A caución is matured from its maturity date until its settlement
+ * movement exists.
+ */
+export function deriveCaucionPositions(movements: Movement[], now: Date = new Date()): CaucionDerivedState {
+    const state: CaucionDerivedState = { active: [], matured: [], settled: [] }
+
+    const settlements = new Map<string, string>()
+    for (const m of movements) {
+        const caucionId = m.assetClass === 'caucion' ? m.meta?.caucion?.caucionId : undefined
+        if (caucionId) settlements.set(caucionId, m.id)
+    }
+
+    for (const m of movements) {
+        if (!isOpening(m)) continue
+        const meta = m.meta!.caucion!
+
+        const startMs = new Date(meta.startDate).getTime()
+        const maturityMs = new Date(meta.maturityDate).getTime()
+        const elapsedMs = Math.min(Math.max(0, now.getTime() - startMs), maturityMs - startMs)
+        const daysElapsed = Math.floor(elapsedMs / DAY_MS)
+        const netInterest = meta.side === 'colocadora'
+            ? meta.interestARS - meta.feesARS
+            : meta.interestARS + meta.feesARS
+        const settlementId = settlements.get(m.id)
+
+        const position: CaucionPosition = {
+            id: m.id,
+            accountId: m.accountId,
+            side: meta.side,
+            principalARS: meta.principalARS,
+            tna: meta.tna,
+            termDays: meta.termDays,
+            startDate: meta.startDate,
+            maturityDate: meta.maturityDate,
+            interestARS: meta.interestARS,
+            feesARS: meta.feesARS,
+            totalARS: meta.totalARS,
+            accruedARS: meta.termDays > 0 ? netInterest * Math.min(1, daysElapsed / meta.termDays) : 0,
+            daysElapsed,
+            daysRemaining: Math.max(0, Math.ceil((maturityMs - now.getTime()) / DAY_MS)),
+            status: settlementId ? 'settled' : now.getTime() >= maturityMs ? 'matured' : 'active',
+            settlementId,
+        }
+
+        state[position.status].push(position)
+    }
+
+    const byStart = (a: CaucionPosition, b: CaucionPosition) => a.startDate.localeCompare(b.startDate)
+    state.active.sort(byStart)
+    state.matured.sort(byStart)
+    state.settled.sort(byStart)
+    return state
+}
+
+/** Rates of every caución opened, oldest first */
+export function buildCaucionRateHistory(movements: Movement[]): CaucionRatePoint[] {
+    return movements
+        .filter(isOpening)
+        .map(m => ({
+            dateKey: m.meta!.caucion!.startDate.slice(0, 10),
+            side: m.meta!.caucion!.side,
+            termDays: m.meta!.caucion!.termDays,
+            tna: m.meta!.caucion!.tna,
+            accountId: m.accountId,
+        }))
+        .sort((a, b) => a.dateKey.localeCompare(b.dateKey))
+}
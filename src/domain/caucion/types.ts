@@ -0,0 +1,37 @@
+import type { CaucionSide } from '@/domain/types'
+
+export interface CaucionPosition {
+    id: string // Opening movement id
+    accountId: string
+    side: CaucionSide
+    principalARS: number
+    tna: number
+    termDays: number
+    startDate: string // ISO
+    maturityDate: string // ISO
+    interestARS: number
+    feesARS: number
+    totalARS: number // Collected (colocadora) or paid (tomadora) at maturity
+    /** Interest net of fees earned (colocadora) or owed (tomadora) up to today */
+    accruedARS: number
+    daysElapsed: number
+    daysRemaining: number
+    status: 'active' | 'matured' | 'settled'
+    settlementId?: string
+}
+
+export interface CaucionDerivedState {
+    active: CaucionPosition[]
+    /** Past maturity with no settlement movement yet */
+    matured: CaucionPosition[]
+    settled: CaucionPosition[]
+}
+
+/** One point per caución opened: the rate the market paid that day for that term */
+export interface CaucionRatePoint {
+    dateKey: string
+    side: CaucionSide
+    termDays: number
+    tna: number
+    accountId: string
+}
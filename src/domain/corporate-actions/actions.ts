@@ -0,0 +1,122 @@
+/**
+ * Corporate Actions Engine
+ *
+ * Holdings engines (average cost, FIFO, lot allocation, realized PnL) all work
+ * on movement quantities and unit prices. Instead of teaching each one about
+ * splits, movements dated before an action are restated in post-action units:
+ * quantity × factor, unit price ÷ factor. Amounts (totalAmount, netAmount,
+ * totalARS/USD) are untouched, so cost basis and cash are preserved while
+ * quantities and FifoLot unit costs line up with what the broker shows today.
+ *
+ * Restated movements are only for computations: never persist them.
+ */
+
+import type { Movement } from '@/domain/types'
+import { toLocalDateKey } from '@/lib/dates'
+import type { CorporateAction } from './types'
+
+/** Quantity multiplier of an action (1 for ticker changes or incomplete data) */
+export function quantityFactor(action: CorporateAction): number {
+    if (action.type === 'TICKER_CHANGE') return 1
+    const from = action.ratioFrom ?? 0
+    const to = action.ratioTo ?? 0
+    if (!(from > 0) || !(to > 0)) return 1
+    return to / from
+}
+
+export function isActionEffective(action: CorporateAction, asOfISO: string): boolean {
+    return action.effectiveDate <= toLocalDateKey(asOfISO)
+}
+
+/**
+ * Restates movements dated before each effective action of their instrument.
+ * Returns the same array when nothing applies (keeps memoized consumers stable).
+ */
+export function applyCorporateActions(
+    movements: Movement[],
+    actions: CorporateAction[],
+    asOfISO: string = new Date().toISOString()
+): Movement[] {
+    const byInstrument = new Map<string, CorporateAction[]>()
+    for (const action of actions) {
+        if (quantityFactor(action) === 1 || !isActionEffective(action, asOfISO)) continue
+        const list = byInstrument.get(action.instrumentId) ?? []
+        list.push(action)
+        byInstrument.set(action.instrumentId, list)
+    }
+    if (byInstrument.size === 0) return movements
+
+    return movements.map(mov => {
+        const instrumentActions = mov.instrumentId ? byInstrument.get(mov.instrumentId) : undefined
+        if (!instrumentActions) return mov
+
+        const movDate = toLocalDateKey(mov.datetimeISO)
+        const factor = instrumentActions
+            .filter(action => movDate < action.effectiveDate)
+            .reduce((acc, action) => acc * quantityFactor(action), 1)
+        if (factor === 1) return mov
+
+        const allocations = mov.meta?.allocations
+        return {
+            ...mov,
+            quantity: mov.quantity != null ? mov.quantity * factor : mov.quantity,
+            unitPrice: mov.unitPrice != null ? mov.unitPrice / factor : mov.unitPrice,
+            meta: allocations
+                ? { ...mov.meta, allocations: allocations.map(a => ({ ...a, qty: a.qty * factor })) }
+                : mov.meta,
+        }
+    })
+}
+
+/**
+ * Current CEDEARs-per-underlying ratio: the latest effective RATIO_CHANGE wins
+ * over the static master list.
+ */
+export function resolveCedearRatio(
+    instrumentId: string | undefined,
+    baseRatio: number,
+    actions: CorporateAction[],
+    asOfISO: string = new Date().toISOString()
+): number {
+    if (!instrumentId) return baseRatio
+    const latest = actions
+        .filter(a => a.instrumentId === instrumentId && a.type === 'RATIO_CHANGE' && (a.ratioTo ?? 0) > 0)
+        .filter(a => isActionEffective(a, asOfISO))
+        .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate))[0]
+    return latest?.ratioTo ?? baseRatio
+}
+
+/**
+ * Effective ticker changes whose instrument still carries the old symbol, in
+ * the order they must be applied (chained renames A → B → C all qualify).
+ */
+export function dueTickerChanges(
+    actions: CorporateAction[],
+    symbolsByInstrument: Map<string, string>,
+    asOfISO: string = new Date().toISOString()
+): CorporateAction[] {
+    const symbols = new Map(symbolsByInstrument)
+    const due: CorporateAction[] = []
+    const effective = actions
+        .filter(a => a.type === 'TICKER_CHANGE' && !!a.newSymbol && isActionEffective(a, asOfISO))
+        .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))
+
+    for (const action of effective) {
+        const current = symbols.get(action.instrumentId)
+        if (current == null || current.toUpperCase() !== action.symbol.toUpperCase()) continue
+        due.push(action)
+        symbols.set(action.instrumentId, action.newSymbol!)
+    }
+    return due
+}
+
+export function describeCorporateAction(action: CorporateAction): string {
+    switch (action.type) {
+        case 'SPLIT':
+            return `Split ${action.ratioFrom ?? '?'}:${action.ratioTo ?? '?'} del subyacente`
+        case 'RATIO_CHANGE':
+            return `Cambio de ratio ${action.ratioFrom ?? '?'}:1 → ${action.ratioTo ?? '?'}:1`
+        case 'TICKER_CHANGE':
+            return `Cambio de ticker ${action.symbol} → ${action.newSymbol ?? '?'}`
+    }
+}
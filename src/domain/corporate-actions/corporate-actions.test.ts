@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import { applyCorporateActions, dueTickerChanges, resolveCedearRatio } from './actions'
+import { buildDividendHistory, buildDividendMovement } from './dividends'
+import { buildFifoLots } from '@/domain/portfolio/fifo'
+import type { Movement } from '@/domain/types'
+import type { CorporateAction } from './types'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function buy(id: string, datetimeISO: string, quantity: number, unitPrice: number): Movement {
+    return {
+        id,
+        datetimeISO,
+        type: 'BUY',
+        assetClass: 'cedear',
+        instrumentId: 'aapl',
+        accountId: 'iol',
+        quantity,
+        unitPrice,
+        tradeCurrency: 'ARS',
+        totalAmount: quantity * unitPrice,
+        fxAtTrade: 1000,
+    }
+}
+
+function action(overrides: Partial<CorporateAction> & Pick<CorporateAction, 'type' | 'effectiveDate'>): CorporateAction {
+    return {
+        id: `${overrides.type}-${overrides.effectiveDate}`,
+        instrumentId: 'aapl',
+        symbol: 'AAPL',
+        createdAtISO: '2026-01-01T00:00:00.000Z',
+        updatedAtISO: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    }
+}
+
+const AS_OF = '2026-06-30T12:00:00.000Z'
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('applyCorporateActions', () => {
+    it('restates quantities and unit costs of movements before the effective date', () => {
+        const movements = [
+            buy('m1', '2026-01-10T12:00:00.000Z', 10, 20_000),
+            buy('m2', '2026-05-10T12:00:00.000Z', 5, 5_000),
+        ]
+        const split = action({ type: 'SPLIT', effectiveDate: '2026-03-01', ratioFrom: 1, ratioTo: 4 })
+
+        const adjusted = applyCorporateActions(movements, [split], AS_OF)
+
+        expect(adjusted[0]).toMatchObject({ quantity: 40, unitPrice: 5_000, totalAmount: 200_000 })
+        expect(adjusted[1]).toBe(movements[1])
+        // Inputs are never mutated
+        expect(movements[0].quantity).toBe(10)
+
+        const fifo = buildFifoLots(adjusted)
+        expect(fifo.totalQuantity).toBe(45)
+        expect(fifo.lots[0].unitCostNative).toBe(5_000)
+        expect(fifo.totalCostArs).toBeCloseTo(225_000)
+    })
+
+    it('ignores future actions and returns the same array when nothing applies', () => {
+        const movements = [buy('m1', '2026-01-10T12:00:00.000Z', 10, 20_000)]
+        const future = action({ type: 'SPLIT', effectiveDate: '2026-12-01', ratioFrom: 1, ratioTo: 2 })
+        const rename = action({ type: 'TICKER_CHANGE', effectiveDate: '2026-02-01', newSymbol: 'APPL' })
+
+        expect(applyCorporateActions(movements, [future, rename], AS_OF)).toBe(movements)
+    })
+
+    it('compounds successive actions and scales stored sale allocations', () => {
+        const sale: Movement = {
+            ...buy('s1', '2026-02-10T12:00:00.000Z', 2, 30_000),
+            type: 'SELL',
+            meta: { allocations: [{ lotId: 'lot-1', qty: 2, costUsd: 40 }] },
+        }
+        const adjusted = applyCorporateActions([sale], [
+            action({ type: 'SPLIT', effectiveDate: '2026-03-01', ratioFrom: 1, ratioTo: 2 }),
+            action({ type: 'RATIO_CHANGE', effectiveDate: '2026-04-01', ratioFrom: 10, ratioTo: 30 }),
+        ], AS_OF)
+
+        expect(adjusted[0].quantity).toBe(12)
+        expect(adjusted[0].unitPrice).toBe(5_000)
+        expect(adjusted[0].meta?.allocations?.[0].qty).toBe(12)
+    })
+})
+
+describe('resolveCedearRatio', () => {
+    it('uses the latest effective ratio change over the master ratio', () => {
+        const actions = [
+            action({ type: 'RATIO_CHANGE', effectiveDate: '2026-02-01', ratioFrom: 10, ratioTo: 20 }),
+            action({ type: 'RATIO_CHANGE', effectiveDate: '2026-04-01', ratioFrom: 20, ratioTo: 40 }),
+            action({ type: 'RATIO_CHANGE', effectiveDate: '2026-09-01', ratioFrom: 40, ratioTo: 80 }),
+        ]
+
+        expect(resolveCedearRatio('aapl', 10, actions, AS_OF)).toBe(40)
+        expect(resolveCedearRatio('msft', 30, actions, AS_OF)).toBe(30)
+    })
+})
+
+describe('dueTickerChanges', () => {
+    it('applies chained renames in order and skips the ones already applied', () => {
+        const actions = [
+            action({ id: 'b', type: 'TICKER_CHANGE', symbol: 'FB2', effectiveDate: '2026-03-01', newSymbol: 'META' }),
+            action({ id: 'a', type: 'TICKER_CHANGE', symbol: 'FB', effectiveDate: '2026-02-01', newSymbol: 'FB2' }),
+        ]
+
+        expect(dueTickerChanges(actions, new Map([['aapl', 'FB']]), AS_OF).map(a => a.id)).toEqual(['a', 'b'])
+        expect(dueTickerChanges(actions, new Map([['aapl', 'META']]), AS_OF)).toEqual([])
+    })
+})
+
+describe('dividends', () => {
+    it('builds a DIVIDEND movement net of withholding that adds no quantity', () => {
+        const movement = buildDividendMovement({
+            instrumentId: 'aapl',
+            symbol: 'AAPL',
+            accountId: 'iol',
+            datetimeISO: '2026-05-15T12:00:00.000Z',
+            currency: 'USD',
+            grossAmount: 10,
+            withholdingPct: 30,
+            sharesHeld: 40,
+            fxRate: 1200,
+        }, () => 'div-1')
+
+        expect(movement).toMatchObject({
+            id: 'div-1',
+            type: 'DIVIDEND',
+            totalAmount: 10,
+            netAmount: 7,
+            totalUSD: 7,
+            totalARS: 8400,
+            meta: { dividend: { grossAmount: 10, withholdingAmount: 3, perShare: 0.25 } },
+        })
+        expect(movement.quantity).toBeUndefined()
+        // Only an empty placeholder lot, so later lot indices stay stable
+        const fifo = buildFifoLots([movement])
+        expect(fifo.lots.map(lot => lot.quantity)).toEqual([0])
+        expect(fifo.totalQuantity).toBe(0)
+    })
+
+    it('builds the per-instrument history with totals per currency', () => {
+        const legacy: Movement = {
+            id: 'div-0',
+            datetimeISO: '2026-01-15T12:00:00.000Z',
+            type: 'DIVIDEND',
+            assetClass: 'cedear',
+            instrumentId: 'aapl',
+            accountId: 'iol',
+            tradeCurrency: 'USD',
+            totalAmount: 5,
+            fxAtTrade: 1000,
+        }
+        const recent = buildDividendMovement({
+            instrumentId: 'aapl',
+            symbol: 'AAPL',
+            accountId: 'iol',
+            datetimeISO: '2026-05-15T12:00:00.000Z',
+            currency: 'USD',
+            grossAmount: 10,
+            withholdingPct: 30,
+            fxRate: 1200,
+        }, () => 'div-1')
+
+        const history = buildDividendHistory([legacy, recent, buy('m1', '2026-01-10T12:00:00.000Z', 10, 1)], 'aapl')
+
+        expect(history.rows.map(r => r.movementId)).toEqual(['div-1', 'div-0'])
+        expect(history.rows[1]).toMatchObject({ grossAmount: 5, withholdingAmount: 0, netAmount: 5, netArs: 5000 })
+        expect(history.totalsByCurrency.USD).toEqual({ grossAmount: 15, withholdingAmount: 3, netAmount: 12 })
+        expect(history.totalNetArs).toBeCloseTo(13_400)
+    })
+})
@@ -0,0 +1,112 @@
+/**
+ * CEDEAR dividends
+ *
+ * Dividends are paid by the underlying in USD, minus the US withholding
+ * (30% by default for Argentine holders). The broker credits the net amount,
+ * so DIVIDEND movements carry the net in `netAmount` (what the cash ledger
+ * uses) and the breakdown in `meta.dividend`.
+ */
+
+import type { DividendMeta, Movement } from '@/domain/types'
+import type { DividendHistory, DividendHistoryRow } from './types'
+
+export const DEFAULT_DIVIDEND_WITHHOLDING_PCT = 30
+
+export interface DividendInput {
+    instrumentId: string
+    symbol: string
+    name?: string
+    accountId: string
+    datetimeISO: string
+    currency: 'ARS' | 'USD'
+    grossAmount: number
+    withholdingPct: number
+    sharesHeld?: number
+    /** MEP used to value the dividend in the other currency */
+    fxRate: number
+}
+
+export function buildDividendMovement(
+    input: DividendInput,
+    createId: () => string = () => crypto.randomUUID()
+): Movement {
+    const withholdingPct = Math.min(Math.max(input.withholdingPct, 0), 100)
+    const withholdingAmount = input.grossAmount * (withholdingPct / 100)
+    const netAmount = input.grossAmount - withholdingAmount
+    const isUsd = input.currency === 'USD'
+
+    const dividend: DividendMeta = {
+        grossAmount: input.grossAmount,
+        withholdingPct,
+        withholdingAmount,
+        sharesHeld: input.sharesHeld,
+        perShare: input.sharesHeld && input.sharesHeld > 0 ? input.grossAmount / input.sharesHeld : undefined,
+    }
+
+    return {
+        id: createId(),
+        datetimeISO: input.datetimeISO,
+        type: 'DIVIDEND',
+        assetClass: 'cedear',
+        instrumentId: input.instrumentId,
+        accountId: input.accountId,
+        ticker: input.symbol,
+        assetName: input.name,
+        // No quantity: a cash dividend does not change the holding
+        tradeCurrency: input.currency,
+        totalAmount: input.grossAmount,
+        netAmount,
+        totalARS: isUsd ? netAmount * input.fxRate : netAmount,
+        totalUSD: isUsd ? netAmount : (input.fxRate > 0 ? netAmount / input.fxRate : 0),
+        fxAtTrade: input.fxRate,
+        fx: {
+            kind: 'MEP',
+            rate: input.fxRate,
+            side: 'buy',
+            asOf: input.datetimeISO,
+        },
+        source: 'user',
+        meta: { dividend },
+    }
+}
+
+/** Per-instrument dividend history. Legacy DIVIDEND movements without a breakdown count as fully net. */
+export function buildDividendHistory(movements: Movement[], instrumentId: string): DividendHistory {
+    const rows: DividendHistoryRow[] = movements
+        .filter(m => m.type === 'DIVIDEND' && m.instrumentId === instrumentId)
+        .map(m => {
+            const currency: 'ARS' | 'USD' = m.tradeCurrency === 'ARS' ? 'ARS' : 'USD'
+            const meta = m.meta?.dividend
+            const grossAmount = meta?.grossAmount ?? m.totalAmount
+            const netAmount = m.netAmount ?? (grossAmount - (meta?.withholdingAmount ?? 0))
+            const fx = m.fxAtTrade ?? m.fx?.rate ?? 0
+            return {
+                movementId: m.id,
+                dateISO: m.datetimeISO,
+                accountId: m.accountId,
+                currency,
+                grossAmount,
+                withholdingAmount: meta?.withholdingAmount ?? Math.max(0, grossAmount - netAmount),
+                netAmount,
+                netArs: m.totalARS ?? (currency === 'ARS' ? netAmount : netAmount * fx),
+                sharesHeld: meta?.sharesHeld,
+                perShare: meta?.perShare,
+            }
+        })
+        .sort((a, b) => b.dateISO.localeCompare(a.dateISO))
+
+    const totalsByCurrency: DividendHistory['totalsByCurrency'] = {}
+    for (const row of rows) {
+        const totals = totalsByCurrency[row.currency] ?? { grossAmount: 0, withholdingAmount: 0, netAmount: 0 }
+        totals.grossAmount += row.grossAmount
+        totals.withholdingAmount += row.withholdingAmount
+        totals.netAmount += row.netAmount
+        totalsByCurrency[row.currency] = totals
+    }
+
+    return {
+        rows,
+        totalsByCurrency,
+        totalNetArs: rows.reduce((sum, row) => sum + row.netArs, 0),
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * Corporate Action Types
+ * CEDEAR ratio changes, underlying splits and ticker changes, plus the
+ * per-instrument dividend history.
+ */
+
+export type { DividendMeta } from '@/domain/types'
+
+/**
+ * - SPLIT: the underlying splits ratioFrom:ratioTo (e.g. 1:4), CEDEAR holdings follow
+ * - RATIO_CHANGE: BYMA changes the CEDEAR ratio from ratioFrom to ratioTo CEDEARs per underlying share
+ * - TICKER_CHANGE: the instrument trades as newSymbol from the effective date
+ */
+export type CorporateActionType = 'SPLIT' | 'RATIO_CHANGE' | 'TICKER_CHANGE'
+
+export interface CorporateAction {
+    id: string
+    instrumentId: string
+    symbol: string                  // Ticker when the action was recorded (display)
+    type: CorporateActionType
+    effectiveDate: string           // YYYY-MM-DD (local), first day in the new units
+    ratioFrom?: number
+    ratioTo?: number
+    newSymbol?: string              // TICKER_CHANGE only
+    notes?: string
+    createdAtISO: string
+    updatedAtISO: string
+}
+
+export interface DividendHistoryRow {
+    movementId: string
+    dateISO: string
+    accountId: string
+    currency: 'ARS' | 'USD'
+    grossAmount: number
+    withholdingAmount: number
+    netAmount: number
+    netArs: number
+    sharesHeld?: number
+    perShare?: number
+}
+
+export interface DividendTotals {
+    grossAmount: number
+    withholdingAmount: number
+    netAmount: number
+}
+
+export interface DividendHistory {
+    rows: DividendHistoryRow[]              // Newest first
+    totalsByCurrency: Partial<Record<'ARS' | 'USD', DividendTotals>>
+    totalNetArs: number
+}
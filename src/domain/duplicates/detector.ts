@@ -0,0 +1,193 @@
+/**
+ * Fuzzy duplicate detection
+ *
+ * Candidates must share account, type, instrument and currency; date, amount,
+ * quantity and import batch then add (or subtract) evidence. Pairs above the
+ * threshold are chained into groups, so a trade imported three times is one
+ * group of three.
+ */
+
+import type { Movement } from '@/domain/types'
+import { toLocalDateKey } from '@/lib/dates'
+import type {
+    DuplicateDetectionOptions,
+    DuplicateSignal,
+    MovementDuplicateGroup,
+} from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_WINDOW_DAYS = 3
+
+const SIGNAL_WEIGHTS: Record<DuplicateSignal, number> = {
+    same_time: 3,
+    same_day: 2,
+    near_date: 0,
+    same_amount: 3,
+    near_amount: 1,
+    same_quantity: 2,
+    different_imports: 2,
+    import_and_manual: 1,
+    same_import: -3,
+}
+
+const MIN_SCORE = 4
+const HIGH_CONFIDENCE_SCORE = 7
+
+// Reconciliation adjustments are corrections by design; never merge them
+const EXCLUDED_TYPES = new Set<Movement['type']>(['ADJUSTMENT'])
+
+export function duplicateGroupKey(ids: string[]): string {
+    return [...ids].sort().join('|')
+}
+
+function relativeDiff(a: number, b: number): number {
+    const scale = Math.max(Math.abs(a), Math.abs(b))
+    return scale === 0 ? 0 : Math.abs(a - b) / scale
+}
+
+function blockKey(mov: Movement): string {
+    const instrument = mov.instrumentId ?? mov.ticker?.toUpperCase() ?? mov.assetClass ?? 'cash'
+    return [mov.accountId, mov.type, instrument, mov.tradeCurrency].join('|')
+}
+
+function movementAmount(mov: Movement): number {
+    return Number.isFinite(mov.totalAmount) ? mov.totalAmount : (mov.netAmount ?? 0)
+}
+
+/** Evidence for a pair, or null when they cannot be the same operation */
+export function compareMovements(a: Movement, b: Movement, windowDays = DEFAULT_WINDOW_DAYS): DuplicateSignal[] | null {
+    const signals: DuplicateSignal[] = []
+
+    const timeA = new Date(a.datetimeISO).getTime()
+    const timeB = new Date(b.datetimeISO).getTime()
+    if (Math.abs(timeA - timeB) > windowDays * DAY_MS) return null
+    if (Math.abs(timeA - timeB) < 60_000) signals.push('same_time')
+    else if (toLocalDateKey(a.datetimeISO) === toLocalDateKey(b.datetimeISO)) signals.push('same_day')
+    else signals.push('near_date')
+
+    const amountDiff = relativeDiff(movementAmount(a), movementAmount(b))
+    if (amountDiff <= 0.0001) signals.push('same_amount')
+    else if (amountDiff <= 0.01) signals.push('near_amount')
+    else return null
+
+    if (a.quantity != null && b.quantity != null) {
+        const quantityDiff = relativeDiff(a.quantity, b.quantity)
+        if (quantityDiff <= 1e-6) signals.push('same_quantity')
+        else if (quantityDiff > 0.01) return null
+    }
+
+    if (a.importBatchId && b.importBatchId) {
+        signals.push(a.importBatchId === b.importBatchId ? 'same_import' : 'different_imports')
+    } else if (a.importBatchId || b.importBatchId) {
+        signals.push('import_and_manual')
+    }
+
+    return signals
+}
+
+export function scoreSignals(signals: DuplicateSignal[]): number {
+    return signals.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal], 0)
+}
+
+/** How much data a movement carries; the richest one is kept */
+function completeness(mov: Movement): number {
+    const fields = Object.values(mov).filter(v => v != null && v !== '').length
+    return fields + Object.keys(mov.meta ?? {}).length
+}
+
+function pickKeep(movements: Movement[]): Movement {
+    return [...movements].sort((a, b) =>
+        completeness(b) - completeness(a)
+        || a.datetimeISO.localeCompare(b.datetimeISO)
+        || a.id.localeCompare(b.id)
+    )[0]
+}
+
+export function detectDuplicateGroups(
+    movements: Movement[],
+    options: DuplicateDetectionOptions = {}
+): MovementDuplicateGroup[] {
+    const windowDays = options.windowDays ?? DEFAULT_WINDOW_DAYS
+    const dismissed = new Set(options.dismissedKeys ?? [])
+
+    const blocks = new Map<string, Movement[]>()
+    for (const mov of movements) {
+        if (EXCLUDED_TYPES.has(mov.type)) continue
+        const key = blockKey(mov)
+        const block = blocks.get(key) ?? []
+        block.push(mov)
+        blocks.set(key, block)
+    }
+
+    // Union-find over matching pairs; keep the signals of the best pair per group
+    const parent = new Map<string, string>()
+    const find = (id: string): string => {
+        let root = id
+        while (parent.get(root) !== root) root = parent.get(root)!
+        parent.set(id, root)
+        return root
+    }
+    const best = new Map<string, { score: number; signals: DuplicateSignal[] }>()
+    const byId = new Map<string, Movement>()
+
+    for (const block of blocks.values()) {
+        if (block.length < 2) continue
+        block.sort((a, b) => a.datetimeISO.localeCompare(b.datetimeISO))
+        for (let i = 0; i < block.length; i++) {
+            for (let j = i + 1; j < block.length; j++) {
+                const a = block[i]
+                const b = block[j]
+                if (new Date(b.datetimeISO).getTime() - new Date(a.datetimeISO).getTime() > windowDays * DAY_MS) break
+
+                const signals = compareMovements(a, b, windowDays)
+                if (!signals) continue
+                const score = scoreSignals(signals)
+                if (score < MIN_SCORE) continue
+
+                for (const mov of [a, b]) {
+                    if (!parent.has(mov.id)) parent.set(mov.id, mov.id)
+                    byId.set(mov.id, mov)
+                }
+                const rootA = find(a.id)
+                const rootB = find(b.id)
+                const previous = [best.get(rootA), best.get(rootB)]
+                    .filter((entry): entry is NonNullable<typeof entry> => !!entry)
+                    .sort((x, y) => y.score - x.score)[0]
+                if (rootA !== rootB) {
+                    parent.set(rootB, rootA)
+                    best.delete(rootB)
+                }
+                best.set(rootA, previous && previous.score >= score ? previous : { score, signals })
+            }
+        }
+    }
+
+    const members = new Map<string, Movement[]>()
+    for (const id of parent.keys()) {
+        const root = find(id)
+        const list = members.get(root) ?? []
+        list.push(byId.get(id)!)
+        members.set(root, list)
+    }
+
+    const groups: MovementDuplicateGroup[] = []
+    for (const [root, list] of members) {
+        const key = duplicateGroupKey(list.map(m => m.id))
+        if (dismissed.has(key)) continue
+
+        const keep = pickKeep(list)
+        const { score, signals } = best.get(root)!
+        groups.push({
+            key,
+            movements: [keep, ...list.filter(m => m.id !== keep.id).sort((a, b) => a.datetimeISO.localeCompare(b.datetimeISO))],
+            keepId: keep.id,
+            score,
+            confidence: score >= HIGH_CONFIDENCE_SCORE ? 'high' : 'medium',
+            signals,
+        })
+    }
+
+    return groups.sort((a, b) =>
+        b.score - a.score || b.movements[0].datetimeISO.localeCompare(a.movements[0].datetimeISO)
+    )
+}
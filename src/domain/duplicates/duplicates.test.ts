@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { compareMovements, detectDuplicateGroups, duplicateGroupKey } from './detector'
+import { buildMergePatch } from './merge'
+import type { Movement } from '@/domain/types'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function buy(id: string, datetimeISO: string, overrides: Partial<Movement> = {}): Movement {
+    return {
+        id,
+        datetimeISO,
+        type: 'BUY',
+        assetClass: 'cedear',
+        instrumentId: 'aapl',
+        accountId: 'iol',
+        quantity: 10,
+        unitPrice: 1000,
+        tradeCurrency: 'ARS',
+        totalAmount: 10000,
+        ...overrides,
+    }
+}
+
+describe('compareMovements', () => {
+    it('collects evidence for a re-imported trade', () => {
+        const a = buy('a', '2026-03-02T14:00:00.000Z', { importBatchId: 'batch-1' })
+        const b = buy('b', '2026-03-02T14:00:00.000Z', { importBatchId: 'batch-2' })
+        expect(compareMovements(a, b)).toEqual(['same_time', 'same_amount', 'same_quantity', 'different_imports'])
+    })
+
+    it('rejects pairs too far apart in date, amount or quantity', () => {
+        const a = buy('a', '2026-03-02T14:00:00.000Z')
+        expect(compareMovements(a, buy('b', '2026-03-10T14:00:00.000Z'))).toBeNull()
+        expect(compareMovements(a, buy('b', '2026-03-02T14:00:00.000Z', { totalAmount: 12000 }))).toBeNull()
+        expect(compareMovements(a, buy('b', '2026-03-02T14:00:00.000Z', { quantity: 20 }))).toBeNull()
+    })
+})
+
+describe('detectDuplicateGroups', () => {
+    const movements: Movement[] = [
+        buy('manual', '2026-03-02T14:00:00.000Z', { notes: 'Compra AAPL' }),
+        buy('import-1', '2026-03-02T17:00:00.000Z', { importBatchId: 'batch-1' }),
+        buy('import-2', '2026-03-02T17:00:10.000Z', { importBatchId: 'batch-2' }),
+        buy('other-account', '2026-03-02T14:00:00.000Z', { accountId: 'balanz' }),
+        buy('same-file', '2026-04-01T14:00:00.000Z', { importBatchId: 'batch-3', assetClass: 'crypto', instrumentId: 'btc' }),
+        buy('same-file-2', '2026-04-01T14:00:00.000Z', { importBatchId: 'batch-3', assetClass: 'crypto', instrumentId: 'btc' }),
+        { ...buy('adj-1', '2026-03-02T14:00:00.000Z'), type: 'ADJUSTMENT' },
+        { ...buy('adj-2', '2026-03-02T14:00:00.000Z'), type: 'ADJUSTMENT' },
+    ]
+
+    it('chains matches into one group per operation and ranks by evidence', () => {
+        const groups = detectDuplicateGroups(movements)
+
+        expect(groups.map(g => [g.key, g.confidence])).toEqual([
+            [duplicateGroupKey(['import-1', 'import-2', 'manual']), 'high'],
+            [duplicateGroupKey(['same-file', 'same-file-2']), 'medium'],
+        ])
+        expect(groups[0].movements.map(m => m.id)).toEqual(['manual', 'import-1', 'import-2'])
+        expect(groups[0].signals).toContain('different_imports')
+    })
+
+    it('skips groups the user kept as separate movements', () => {
+        const dismissed = [duplicateGroupKey(['same-file', 'same-file-2'])]
+        expect(detectDuplicateGroups(movements, { dismissedKeys: dismissed })).toHaveLength(1)
+    })
+})
+
+describe('buildMergePatch', () => {
+    it('fills only what the kept movement is missing and records previous values', () => {
+        const keep = buy('keep', '2026-03-02T14:00:00.000Z', { notes: 'Mía', meta: { pfGroupId: 'g' } })
+        const dup = buy('dup', '2026-03-02T14:00:00.000Z', {
+            notes: 'Importada',
+            importBatchId: 'batch-1',
+            meta: { pfGroupId: 'other', settlementCurrency: 'ARS' },
+        })
+
+        const patch = buildMergePatch(keep, [dup])
+        expect(patch.after).toEqual({
+            importBatchId: 'batch-1',
+            meta: { pfGroupId: 'g', settlementCurrency: 'ARS' },
+        })
+        expect(patch.before).toEqual({ importBatchId: undefined, meta: { pfGroupId: 'g' } })
+    })
+
+    it('never copies economic fields from a duplicate', () => {
+        const keep = buy('keep', '2026-03-02T14:00:00.000Z')
+        const dup = buy('dup', '2026-03-02T14:00:00.000Z', {
+            totalAmount: 10001,
+            fee: { mode: 'PERCENT', percent: 0.5, amount: 50, currency: 'ARS' },
+            totalARS: 10050,
+            totalUSD: 8.5,
+            fxAtTrade: 1180,
+            fx: { kind: 'MEP', side: 'sell', rate: 1180, asOf: '2026-03-02T14:00:00.000Z' },
+        })
+
+        expect(buildMergePatch(keep, [dup])).toEqual({ before: {}, after: {} })
+    })
+})
@@ -0,0 +1,52 @@
+/**
+ * Merge plans
+ *
+ * Merging keeps one movement and completes it with the descriptive fields
+ * only the duplicates carried (notes, import batch, meta). Economics (fee,
+ * totals, FX) stay as recorded on the kept movement. The patch records
+ * previous values so the merge can be reverted field by field.
+ */
+
+import type { Movement } from '@/domain/types'
+
+// Descriptive fields a duplicate may fill in; everything else (identity,
+// amounts, fee, totals, FX) is kept exactly as on the surviving movement
+const MERGEABLE_FIELDS = new Set<keyof Movement>([
+    'notes', 'importBatchId', 'ticker', 'assetName',
+])
+
+function isEmpty(value: unknown): boolean {
+    return value == null || value === ''
+}
+
+export function buildMergePatch(keep: Movement, duplicates: Movement[]): {
+    before: Partial<Movement>
+    after: Partial<Movement>
+} {
+    const after: Record<string, unknown> = {}
+
+    for (const dup of duplicates) {
+        for (const [field, value] of Object.entries(dup)) {
+            if (!MERGEABLE_FIELDS.has(field as keyof Movement) || isEmpty(value)) continue
+            if (isEmpty((keep as unknown as Record<string, unknown>)[field]) && !(field in after)) {
+                after[field] = value
+            }
+        }
+    }
+
+    // Meta is merged key by key (kept values win)
+    const mergedMeta = duplicates.reduce<Movement['meta']>(
+        (meta, dup) => (dup.meta ? { ...dup.meta, ...meta } : meta),
+        keep.meta
+    )
+    if (mergedMeta && Object.keys(mergedMeta).length > Object.keys(keep.meta ?? {}).length) {
+        after.meta = mergedMeta
+    }
+
+    const before: Record<string, unknown> = {}
+    for (const field of Object.keys(after)) {
+        before[field] = (keep as unknown as Record<string, unknown>)[field]
+    }
+
+    return { before: before as Partial<Movement>, after: after as Partial<Movement> }
+}
@@ -0,0 +1,69 @@
+/**
+ * Duplicate movement types
+ * Movements entered twice (re-imported files, sync replays, manual + import)
+ * across every asset class, and the saved diffs that let a resolution be undone.
+ */
+
+import type { Movement } from '@/domain/types'
+
+/**
+ * Evidence that two movements are the same operation:
+ * - same_time / same_day / near_date: how close their dates are
+ * - same_amount / near_amount: total within 0.01% / 1%
+ * - same_quantity: identical quantity
+ * - different_imports: each came from a different import batch (file imported twice)
+ * - import_and_manual: one imported, the other entered by hand or synced
+ * - same_import: both rows come from one file (counts against: files list trades once)
+ */
+export type DuplicateSignal =
+    | 'same_time'
+    | 'same_day'
+    | 'near_date'
+    | 'same_amount'
+    | 'near_amount'
+    | 'same_quantity'
+    | 'different_imports'
+    | 'import_and_manual'
+    | 'same_import'
+
+export type DuplicateConfidence = 'high' | 'medium'
+
+export interface MovementDuplicateGroup {
+    /** Sorted movement ids, stable across runs (used to remember "keep both") */
+    key: string
+    /** Suggested movement to keep first, then its duplicates */
+    movements: Movement[]
+    keepId: string
+    score: number
+    confidence: DuplicateConfidence
+    signals: DuplicateSignal[]
+}
+
+export interface DuplicateDetectionOptions {
+    /** Max distance between dates, in days (default 3) */
+    windowDays?: number
+    /** Group keys the user chose to keep as separate movements */
+    dismissedKeys?: Iterable<string>
+}
+
+/**
+ * - merge: fill the kept movement with the data only the duplicates had, delete the rest
+ * - delete: delete the duplicates, kept movement untouched
+ * - keep_both: not duplicates, stop suggesting the group
+ */
+export type DuplicateResolutionAction = 'merge' | 'delete' | 'keep_both'
+
+export interface DuplicateResolution {
+    id: string
+    groupKey: string
+    action: DuplicateResolutionAction
+    keptId?: string
+    /** Full copies of every deleted movement, restored on undo */
+    removed: Movement[]
+    /** Fields written on the kept movement and their previous values */
+    patch?: {
+        before: Partial<Movement>
+        after: Partial<Movement>
+    }
+    createdAtISO: string
+}
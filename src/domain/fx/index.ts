@@ -1,2 +1,3 @@
 export * from './types'
 export * from './convert'
+export * from './valuation-policy'
@@ -0,0 +1,111 @@
+/**
+ * Valuation Policy
+ * Which dollar values each asset class (global defaults) and which
+ * family/side a given account overrides it with (stored on AccountSettings).
+ */
+
+import type { FxKey } from './types'
+
+export type FxOverrideFamily = 'Oficial' | 'MEP' | 'Cripto'
+export type FxOverrideSide = 'C' | 'V'
+
+export interface FxOverride {
+    family: FxOverrideFamily
+    side: FxOverrideSide
+}
+
+/** Asset classes whose dollar is a user choice (cash follows the account kind) */
+export type ValuationCategory = 'CEDEAR' | 'BOND' | 'FCI' | 'CRYPTO' | 'STABLE'
+
+export type ValuationDefaults = Record<ValuationCategory, FxKey>
+
+export const VALUATION_CATEGORIES: ValuationCategory[] = ['CEDEAR', 'BOND', 'FCI', 'CRYPTO', 'STABLE']
+
+/** Per-account overrides flattened as `${accountId}:${itemKind}` */
+export type FxOverridesMap = Record<string, FxOverride>
+
+export interface ValuationPolicy {
+    defaults: ValuationDefaults
+    overrides: FxOverridesMap
+}
+
+export const DEFAULT_VALUATION_DEFAULTS: ValuationDefaults = {
+    CEDEAR: 'mep',
+    BOND: 'mep',
+    FCI: 'oficial',
+    CRYPTO: 'cripto',
+    STABLE: 'cripto',
+}
+
+/** Synced preference key (see SYNCED_PREFERENCE_KEYS) */
+export const VALUATION_POLICY_STORAGE_KEY = 'argfolio.valuationPolicy'
+
+const FX_KEYS: FxKey[] = ['oficial', 'mep', 'cripto']
+
+const FAMILY_BY_KEY: Record<FxKey, FxOverrideFamily> = {
+    oficial: 'Oficial',
+    mep: 'MEP',
+    cripto: 'Cripto',
+}
+
+export function isValuationCategory(category: string): category is ValuationCategory {
+    return (VALUATION_CATEGORIES as string[]).includes(category)
+}
+
+export function fxKeyToFamily(key: FxKey): FxOverrideFamily {
+    return FAMILY_BY_KEY[key]
+}
+
+/**
+ * Flatten the overrides stored on each AccountSettings record.
+ */
+export function buildFxOverridesMap(
+    settings: Array<{ id: string; fxOverrides?: Partial<Record<string, FxOverride>> }>
+): FxOverridesMap {
+    const map: FxOverridesMap = {}
+    for (const s of settings) {
+        for (const [kind, override] of Object.entries(s.fxOverrides ?? {})) {
+            if (override) map[`${s.id}:${kind}`] = override
+        }
+    }
+    return map
+}
+
+/**
+ * Parse the stored defaults; unknown or missing categories keep the built-in choice.
+ */
+export function parseValuationDefaults(raw: string | null | undefined): ValuationDefaults {
+    const defaults = { ...DEFAULT_VALUATION_DEFAULTS }
+    if (!raw) return defaults
+    try {
+        const parsed = JSON.parse(raw)
+        if (!parsed || typeof parsed !== 'object') return defaults
+        for (const category of VALUATION_CATEGORIES) {
+            const value = parsed[category]
+            if (FX_KEYS.includes(value)) defaults[category] = value
+        }
+    } catch {
+        // Corrupt preference: fall back to the built-in policy
+    }
+    return defaults
+}
+
+export function readValuationDefaults(): ValuationDefaults {
+    try {
+        return parseValuationDefaults(localStorage.getItem(VALUATION_POLICY_STORAGE_KEY))
+    } catch {
+        return { ...DEFAULT_VALUATION_DEFAULTS }
+    }
+}
+
+/**
+ * Short, stable description of a policy (recorded on snapshots so a reader
+ * can tell which dollar valued them). Built-in defaults are omitted.
+ */
+export function describeValuationPolicy(defaults: ValuationDefaults, overrideCount = 0): string {
+    const changed = VALUATION_CATEGORIES
+        .filter(category => defaults[category] !== DEFAULT_VALUATION_DEFAULTS[category])
+        .map(category => `${category}:${defaults[category]}`)
+    if (overrideCount > 0) changed.push(`overrides:${overrideCount}`)
+    return changed.length > 0 ? changed.join('|') : 'default'
+}
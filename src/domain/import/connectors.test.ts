@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest'
+import { detectConnector } from './connectors'
+import type { BinanceApiTrade, BlockscoutTx, EsploraTx } from './connectors'
+import { createMovementDeduper } from './dedupe'
+import type { Movement } from '@/domain/types'
+
+describe('exchange CSV connectors', () => {
+    it('maps Buenbit markets and turns coin deposits into transfers', () => {
+        const headers = ['Fecha', 'Operación', 'Mercado', 'Cantidad', 'Precio', 'Total', 'Comisión']
+        const data = [
+            ['10/02/2025', 'Compra', 'BTC/ARS', '0,01', '100.000.000,00', '1.000.000,00', '5.000,00'],
+            ['11/02/2025', 'Depósito', 'ETH', '0,5', '', '', ''],
+        ]
+        const source = { kind: 'csv' as const, headers, data }
+        const connector = detectConnector(source)
+        expect(connector?.id).toBe('buenbit')
+
+        const [buy, deposit] = connector!.map(source).rows
+        expect(buy.type).toBe('BUY')
+        expect(buy.symbol).toBe('BTC')
+        expect(buy.tradeCurrency).toBe('ARS')
+        expect(buy.feeCurrency).toBe('ARS')
+        expect(buy.assetCategory).toBe('CRYPTO')
+
+        expect(deposit.type).toBe('TRANSFER_IN')
+        expect(deposit.symbol).toBe('ETH')
+    })
+
+    it('reads a Belo swap into pesos as a sale of the origin coin', () => {
+        const headers = ['Fecha', 'Tipo', 'Moneda origen', 'Monto origen', 'Moneda destino', 'Monto destino', 'Comisión']
+        const data = [['12/02/2025', 'Conversión', 'USDT', '100', 'ARS', '120.000,00', '']]
+        const source = { kind: 'csv' as const, headers, data }
+        const connector = detectConnector(source)
+        expect(connector?.id).toBe('belo')
+
+        const [sell] = connector!.map(source).rows
+        expect(sell.type).toBe('SELL')
+        expect(sell.symbol).toBe('USDT')
+        expect(sell.quantity).toBeCloseTo(100, 6)
+        expect(sell.totalAmount).toBeCloseTo(120000, 2)
+        expect(sell.unitPrice).toBeCloseTo(1200, 2)
+        expect(sell.tradeCurrency).toBe('ARS')
+    })
+})
+
+describe('Binance API connector', () => {
+    it('detects a myTrades dump and keeps the trade id', () => {
+        const trades: BinanceApiTrade[] = [{
+            symbol: 'SOLUSDT', id: 42, price: '150.5', qty: '2', quoteQty: '301',
+            commission: '0.002', commissionAsset: 'SOL', time: Date.UTC(2025, 0, 5, 12), isBuyer: true,
+        }]
+        const source = { kind: 'json' as const, payload: trades }
+        const connector = detectConnector(source)
+        expect(connector?.id).toBe('binance')
+
+        const { rows } = connector!.map(source)
+        expect(rows).toHaveLength(1)
+        expect(rows[0]).toMatchObject({
+            type: 'BUY',
+            symbol: 'SOL',
+            tradeCurrency: 'USDT',
+            totalAmount: 301,
+            feeAmount: 0.002,
+            externalId: 'binance:SOLUSDT:42',
+            datetimeISO: '2025-01-05T12:00:00.000Z',
+        })
+    })
+
+    it('ignores unrelated JSON', () => {
+        expect(detectConnector({ kind: 'json', payload: { foo: 1 } })).toBeNull()
+    })
+})
+
+describe('on-chain connectors', () => {
+    const btcAddress = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq'
+    const ethAddress = '0x' + 'a'.repeat(40)
+
+    it('nets change and fee out of a Bitcoin send', () => {
+        const txs: EsploraTx[] = [
+            {
+                txid: 'in1', fee: 200,
+                vin: [{ prevout: { scriptpubkey_address: 'other', value: 1_000_000 } }],
+                vout: [{ scriptpubkey_address: btcAddress, value: 500_000 }],
+                status: { confirmed: true, block_time: 1_700_000_000 },
+            },
+            {
+                txid: 'out1', fee: 1_000,
+                vin: [{ prevout: { scriptpubkey_address: btcAddress, value: 500_000 } }],
+                vout: [
+                    { scriptpubkey_address: 'other', value: 300_000 },
+                    { scriptpubkey_address: btcAddress, value: 199_000 },
+                ],
+                status: { confirmed: true, block_time: 1_700_100_000 },
+            },
+            { txid: 'pending', fee: 0, vin: [], vout: [], status: { confirmed: false } },
+        ]
+        const source = { kind: 'address' as const, address: btcAddress, transactions: txs }
+        const connector = detectConnector(source)
+        expect(connector?.id).toBe('bitcoin-address')
+
+        const { rows, skipped } = connector!.map(source)
+        expect(rows.map(r => r.type)).toEqual(['TRANSFER_IN', 'TRANSFER_OUT'])
+        expect(rows[0].quantity).toBeCloseTo(0.005, 8)
+        expect(rows[1].quantity).toBeCloseTo(0.003, 8)
+        expect(rows[1].feeAmount).toBeCloseTo(0.00001, 8)
+        expect(rows[1].externalId).toBe('btc:out1')
+        expect(skipped).toEqual([{ rowIndex: 2, label: 'sin confirmar' }])
+    })
+
+    it('maps native ETH transfers and skips failed or valueless ones', () => {
+        const txs: BlockscoutTx[] = [
+            { hash: '0x1', timestamp: '2025-03-01T00:00:00Z', from: { hash: '0xbb' }, to: { hash: ethAddress.toUpperCase().replace('0X', '0x') }, value: '1000000000000000000', status: 'ok' },
+            { hash: '0x2', timestamp: '2025-03-02T00:00:00Z', from: { hash: ethAddress }, to: { hash: '0xcc' }, value: '0', status: 'ok' },
+            { hash: '0x3', timestamp: '2025-03-03T00:00:00Z', from: { hash: ethAddress }, to: { hash: '0xcc' }, value: '500000000000000000', fee: { value: '21000000000000' }, status: 'error' },
+        ]
+        const source = { kind: 'address' as const, address: ethAddress, transactions: txs }
+        const { rows, skipped } = detectConnector(source)!.map(source)
+
+        expect(rows).toHaveLength(1)
+        expect(rows[0]).toMatchObject({ type: 'TRANSFER_IN', symbol: 'ETH', quantity: 1, externalId: 'eth:0x1' })
+        expect(skipped.map(s => s.label)).toEqual(['sin valor', 'fallida'])
+    })
+})
+
+describe('createMovementDeduper', () => {
+    const base: Movement = {
+        id: 'm1',
+        datetimeISO: '2025-01-05T12:00:00.000Z',
+        type: 'BUY',
+        assetClass: 'crypto',
+        instrumentId: 'sol',
+        accountId: 'binance',
+        quantity: 2,
+        unitPrice: 150.5,
+        tradeCurrency: 'USDT',
+        totalAmount: 301,
+    }
+
+    it('skips movements whose source id was already imported', () => {
+        const deduper = createMovementDeduper([{ ...base, meta: { externalId: 'binance:SOLUSDT:42' } }])
+        expect(deduper.isDuplicate({ ...base, id: 'm2', quantity: 3, meta: { externalId: 'binance:SOLUSDT:42' } })).toBe(true)
+        expect(deduper.isDuplicate({ ...base, id: 'm3', quantity: 3, meta: { externalId: 'binance:SOLUSDT:43' } })).toBe(false)
+    })
+
+    it('matches fingerprints as a multiset', () => {
+        const deduper = createMovementDeduper([base])
+        expect(deduper.isDuplicate({ ...base, id: 'new1' })).toBe(true)
+        // A second identical fill in the file is not in the database yet
+        expect(deduper.isDuplicate({ ...base, id: 'new2' })).toBe(false)
+    })
+})
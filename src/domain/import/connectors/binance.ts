@@ -0,0 +1,64 @@
+/**
+ * Binance trade history as returned by the `myTrades` endpoint (one object
+ * per fill), e.g. saved from the API or a third-party exporter.
+ */
+
+import type { MappedRow } from '../mapper'
+import type { ProfileMappingResult } from '../profiles'
+import { STABLE_CODES, splitCryptoPair, toCryptoCurrency } from '../profiles'
+
+export interface BinanceApiTrade {
+    symbol: string
+    id: number
+    price: string
+    qty: string
+    quoteQty: string
+    commission: string
+    commissionAsset: string
+    time: number
+    isBuyer: boolean
+}
+
+export function isBinanceTradeList(payload: unknown): payload is BinanceApiTrade[] {
+    if (!Array.isArray(payload) || payload.length === 0) return false
+    const first = payload[0] as Record<string, unknown>
+    return typeof first === 'object' && first !== null
+        && 'symbol' in first && 'qty' in first && 'isBuyer' in first && 'commissionAsset' in first
+}
+
+export function mapBinanceTrades(trades: BinanceApiTrade[], accountName: string): ProfileMappingResult {
+    const rows: MappedRow[] = []
+    const skipped: ProfileMappingResult['skipped'] = []
+
+    trades.forEach((trade, rowIndex) => {
+        const quantity = Math.abs(parseFloat(trade.qty))
+        const unitPrice = Math.abs(parseFloat(trade.price))
+        const quoteQty = Math.abs(parseFloat(trade.quoteQty))
+        if (!Number.isFinite(quantity) || quantity === 0 || !Number.isFinite(trade.time)) {
+            skipped.push({ rowIndex, label: trade.symbol })
+            return
+        }
+
+        const { base, quote } = splitCryptoPair(trade.symbol)
+        const feeAmount = Math.abs(parseFloat(trade.commission)) || undefined
+        rows.push({
+            datetimeISO: new Date(trade.time).toISOString(),
+            type: trade.isBuyer ? 'BUY' : 'SELL',
+            symbol: base,
+            account: accountName,
+            quantity,
+            unitPrice,
+            tradeCurrency: quote,
+            totalAmount: Number.isFinite(quoteQty) ? quoteQty : quantity * unitPrice,
+            feeAmount,
+            feeCurrency: feeAmount ? toCryptoCurrency(trade.commissionAsset.toUpperCase()) : undefined,
+            notes: 'Importado desde Binance (API)',
+            rawRow: [trade.symbol, String(trade.id)],
+            rowIndex,
+            assetCategory: STABLE_CODES.includes(base) ? 'STABLE' : 'CRYPTO',
+            externalId: `binance:${trade.symbol}:${trade.id}`,
+        })
+    })
+
+    return { rows, skipped }
+}
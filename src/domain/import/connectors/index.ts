@@ -0,0 +1,102 @@
+/**
+ * Crypto Connectors
+ *
+ * One entry point for every crypto source the importer understands:
+ * exchange CSV exports (backed by the broker profiles), Binance API trade
+ * dumps (JSON) and public address histories (Bitcoin / Ethereum).
+ *
+ * Connectors only map: fetching an address history is the data layer's job
+ * (`@/data/providers/onchain-explorers`). The output feeds the same
+ * validate → import pipeline as any other file.
+ */
+
+import type { BrokerProfileId, ProfileMappingResult } from '../profiles'
+import { detectBrokerProfile, getBrokerProfile, mapRowsWithProfile } from '../profiles'
+import { isBinanceTradeList, mapBinanceTrades } from './binance'
+import type { BlockscoutTx, EsploraTx } from './onchain'
+import {
+    BITCOIN_ADDRESS_PATTERN,
+    ETHEREUM_ADDRESS_PATTERN,
+    mapBitcoinAddressTxs,
+    mapEthereumAddressTxs,
+} from './onchain'
+import type { ConnectorSource, CryptoConnector, CryptoConnectorId } from './types'
+
+const EMPTY_RESULT: ProfileMappingResult = { rows: [], skipped: [] }
+
+function profileConnector(id: BrokerProfileId & CryptoConnectorId): CryptoConnector {
+    const profile = getBrokerProfile(id)
+    if (!profile) throw new Error(`Perfil de importación desconocido: ${id}`)
+
+    // Only Binance has a JSON (API) flavour
+    const jsonTrades = (source: ConnectorSource) =>
+        id === 'binance' && source.kind === 'json' && isBinanceTradeList(source.payload) ? source.payload : null
+
+    return {
+        id,
+        label: profile.label.replace(/\s*\(.*\)$/, ''),
+        accountName: profile.accountName,
+        accountKind: profile.accountKind,
+        defaultCurrency: profile.defaultCurrency,
+        accepts: id === 'binance' ? ['csv', 'json'] : ['csv'],
+        detect: (source) => {
+            if (source.kind === 'csv') return detectBrokerProfile(source.headers)?.id === id
+            return jsonTrades(source) !== null
+        },
+        map: (source) => {
+            if (source.kind === 'csv') return mapRowsWithProfile(profile, source.headers, source.data)
+            const trades = jsonTrades(source)
+            return trades ? mapBinanceTrades(trades, profile.accountName) : EMPTY_RESULT
+        },
+    }
+}
+
+export const CRYPTO_CONNECTORS: CryptoConnector[] = [
+    profileConnector('binance'),
+    profileConnector('lemon'),
+    profileConnector('belo'),
+    profileConnector('buenbit'),
+    {
+        id: 'bitcoin-address',
+        label: 'Dirección Bitcoin',
+        accountName: 'Wallet BTC',
+        accountKind: 'WALLET',
+        defaultCurrency: 'USD',
+        accepts: ['address'],
+        detect: (source) => source.kind === 'address' && BITCOIN_ADDRESS_PATTERN.test(source.address),
+        map: (source) => source.kind === 'address'
+            ? mapBitcoinAddressTxs(source.address, source.transactions as EsploraTx[], 'Wallet BTC')
+            : EMPTY_RESULT,
+    },
+    {
+        id: 'ethereum-address',
+        label: 'Dirección Ethereum',
+        accountName: 'Wallet ETH',
+        accountKind: 'WALLET',
+        defaultCurrency: 'USD',
+        accepts: ['address'],
+        detect: (source) => source.kind === 'address' && ETHEREUM_ADDRESS_PATTERN.test(source.address),
+        map: (source) => source.kind === 'address'
+            ? mapEthereumAddressTxs(source.address, source.transactions as BlockscoutTx[], 'Wallet ETH')
+            : EMPTY_RESULT,
+    },
+]
+
+export function detectConnector(source: ConnectorSource): CryptoConnector | null {
+    return CRYPTO_CONNECTORS.find(c => c.accepts.includes(source.kind) && c.detect(source)) ?? null
+}
+
+export function getConnector(id: CryptoConnectorId): CryptoConnector | undefined {
+    return CRYPTO_CONNECTORS.find(c => c.id === id)
+}
+
+export { isBinanceTradeList, mapBinanceTrades } from './binance'
+export type { BinanceApiTrade } from './binance'
+export {
+    BITCOIN_ADDRESS_PATTERN,
+    ETHEREUM_ADDRESS_PATTERN,
+    mapBitcoinAddressTxs,
+    mapEthereumAddressTxs,
+} from './onchain'
+export type { BlockscoutTx, EsploraTx } from './onchain'
+export type { ConnectorSource, CryptoConnector, CryptoConnectorId } from './types'
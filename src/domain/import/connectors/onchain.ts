@@ -0,0 +1,130 @@
+/**
+ * On-chain address histories.
+ *
+ * Receiving coins is a TRANSFER_IN and sending them a TRANSFER_OUT: a
+ * self-custody wallet doesn't trade, so the cost basis stays with the
+ * exchange movement on the other side. The network fee paid by the address
+ * goes in the fee of the send.
+ *
+ * Bitcoin: mempool.space (Esplora) transactions. Ethereum: Blockscout v2
+ * transactions, native ETH transfers only (token transfers and contract
+ * calls without value are skipped).
+ */
+
+import type { MappedRow } from '../mapper'
+import type { ProfileMappingResult } from '../profiles'
+
+const SATS_PER_BTC = 100_000_000
+const WEI_PER_ETH = 1e18
+
+export const BITCOIN_ADDRESS_PATTERN = /^(bc1[02-9ac-hj-np-z]{11,71}|[13][1-9A-HJ-NP-Za-km-z]{25,34})$/
+export const ETHEREUM_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/
+
+export interface EsploraTx {
+    txid: string
+    fee: number
+    vin: Array<{ prevout?: { scriptpubkey_address?: string; value: number } | null }>
+    vout: Array<{ scriptpubkey_address?: string; value: number }>
+    status: { confirmed: boolean; block_time?: number }
+}
+
+export interface BlockscoutTx {
+    hash: string
+    timestamp: string
+    from: { hash: string } | null
+    to: { hash: string } | null
+    value: string
+    fee?: { value: string } | null
+    status?: string | null
+}
+
+function transferRow(
+    base: Pick<MappedRow, 'datetimeISO' | 'symbol' | 'account' | 'externalId'>,
+    type: 'TRANSFER_IN' | 'TRANSFER_OUT',
+    quantity: number,
+    rowIndex: number,
+    fee?: number
+): MappedRow {
+    return {
+        ...base,
+        type,
+        quantity,
+        tradeCurrency: 'USD',
+        totalAmount: 0,
+        feeAmount: fee && fee > 0 ? fee : undefined,
+        feeCurrency: fee && fee > 0 ? (base.symbol as MappedRow['tradeCurrency']) : undefined,
+        notes: `${type === 'TRANSFER_IN' ? 'Recibido' : 'Enviado'} on-chain (${base.externalId?.split(':')[1]?.slice(0, 10)}…)`,
+        rawRow: [base.externalId ?? ''],
+        rowIndex,
+        assetCategory: 'CRYPTO',
+    }
+}
+
+export function mapBitcoinAddressTxs(address: string, txs: EsploraTx[], accountName: string): ProfileMappingResult {
+    const rows: MappedRow[] = []
+    const skipped: ProfileMappingResult['skipped'] = []
+
+    txs.forEach((tx, rowIndex) => {
+        // Unconfirmed transactions can still be replaced: wait for a block
+        if (!tx.status.confirmed || !tx.status.block_time) {
+            skipped.push({ rowIndex, label: 'sin confirmar' })
+            return
+        }
+
+        const spent = tx.vin.reduce((sum, input) => sum + (input.prevout?.scriptpubkey_address === address ? input.prevout.value : 0), 0)
+        const received = tx.vout.reduce((sum, output) => sum + (output.scriptpubkey_address === address ? output.value : 0), 0)
+        const base = {
+            datetimeISO: new Date(tx.status.block_time * 1000).toISOString(),
+            symbol: 'BTC',
+            account: accountName,
+            externalId: `btc:${tx.txid}`,
+        }
+
+        if (spent === 0 && received > 0) {
+            rows.push(transferRow(base, 'TRANSFER_IN', received / SATS_PER_BTC, rowIndex))
+            return
+        }
+        // Inputs from the address pay the fee; change coming back isn't a transfer
+        const sent = spent - received - tx.fee
+        if (spent > 0 && sent > 0) {
+            rows.push(transferRow(base, 'TRANSFER_OUT', sent / SATS_PER_BTC, rowIndex, tx.fee / SATS_PER_BTC))
+            return
+        }
+        skipped.push({ rowIndex, label: 'sin movimiento neto' })
+    })
+
+    return { rows, skipped }
+}
+
+export function mapEthereumAddressTxs(address: string, txs: BlockscoutTx[], accountName: string): ProfileMappingResult {
+    const rows: MappedRow[] = []
+    const skipped: ProfileMappingResult['skipped'] = []
+    const self = address.toLowerCase()
+
+    txs.forEach((tx, rowIndex) => {
+        const value = Number(tx.value) / WEI_PER_ETH
+        const from = tx.from?.hash.toLowerCase()
+        const to = tx.to?.hash.toLowerCase()
+        if ((tx.status && tx.status !== 'ok') || !(value > 0) || from === to) {
+            skipped.push({ rowIndex, label: tx.status && tx.status !== 'ok' ? 'fallida' : 'sin valor' })
+            return
+        }
+
+        const base = {
+            datetimeISO: new Date(tx.timestamp).toISOString(),
+            symbol: 'ETH',
+            account: accountName,
+            externalId: `eth:${tx.hash}`,
+        }
+        if (to === self) {
+            rows.push(transferRow(base, 'TRANSFER_IN', value, rowIndex))
+        } else if (from === self) {
+            const fee = tx.fee?.value ? Number(tx.fee.value) / WEI_PER_ETH : undefined
+            rows.push(transferRow(base, 'TRANSFER_OUT', value, rowIndex, fee))
+        } else {
+            skipped.push({ rowIndex, label: 'otra dirección' })
+        }
+    })
+
+    return { rows, skipped }
+}
@@ -0,0 +1,34 @@
+import type { AccountKind, Currency } from '@/domain/types'
+import type { ProfileMappingResult } from '../profiles'
+
+export type CryptoConnectorId =
+    | 'binance'
+    | 'lemon'
+    | 'belo'
+    | 'buenbit'
+    | 'bitcoin-address'
+    | 'ethereum-address'
+
+/**
+ * What a connector reads. Everything is local: exchange exports the user
+ * downloads (CSV / JSON), or the transaction history of a public address
+ * already fetched from a block explorer. No API keys leave the browser.
+ */
+export type ConnectorSource =
+    | { kind: 'csv'; headers: string[]; data: string[][] }
+    | { kind: 'json'; payload: unknown }
+    | { kind: 'address'; address: string; transactions: unknown[] }
+
+export interface CryptoConnector {
+    id: CryptoConnectorId
+    label: string
+    /** Account name used for every row */
+    accountName: string
+    accountKind: AccountKind
+    defaultCurrency: Currency
+    accepts: Array<ConnectorSource['kind']>
+    /** True when the source looks like this connector's format */
+    detect: (source: ConnectorSource) => boolean
+    /** Rows ready for validation / import (same contract as broker profiles) */
+    map: (source: ConnectorSource) => ProfileMappingResult
+}
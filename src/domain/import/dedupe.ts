@@ -0,0 +1,60 @@
+/**
+ * Import deduplication.
+ *
+ * Re-importing an overlapping export (or refreshing an address history)
+ * must not double the holdings. A movement counts as already imported when
+ * an existing one carries the same source id (`meta.externalId`) or, for
+ * sources without ids, the same fingerprint: account, type, asset, second,
+ * quantity and total.
+ *
+ * Fingerprints are matched as a multiset, so two genuinely identical fills
+ * in the same second survive as long as the file has more of them than the
+ * database.
+ */
+
+import type { Movement } from '@/domain/types'
+
+export function movementFingerprint(m: Pick<Movement,
+    'accountId' | 'type' | 'instrumentId' | 'tradeCurrency' | 'datetimeISO' | 'quantity' | 'totalAmount'>): string {
+    const second = new Date(m.datetimeISO).toISOString().slice(0, 19)
+    return [
+        m.accountId,
+        m.type,
+        m.instrumentId ?? m.tradeCurrency,
+        second,
+        (m.quantity ?? 0).toFixed(8),
+        m.totalAmount.toFixed(2),
+    ].join('|')
+}
+
+export interface MovementDeduper {
+    /** True (and consumes the match) when the movement already exists */
+    isDuplicate: (movement: Movement) => boolean
+}
+
+export function createMovementDeduper(existing: Movement[]): MovementDeduper {
+    const externalIds = new Set<string>()
+    const fingerprints = new Map<string, number>()
+    for (const m of existing) {
+        if (m.meta?.externalId) externalIds.add(m.meta.externalId)
+        const key = movementFingerprint(m)
+        fingerprints.set(key, (fingerprints.get(key) ?? 0) + 1)
+    }
+
+    return {
+        isDuplicate: (movement) => {
+            const externalId = movement.meta?.externalId
+            if (externalId) {
+                if (externalIds.has(externalId)) return true
+                externalIds.add(externalId)
+            }
+            const key = movementFingerprint(movement)
+            const remaining = fingerprints.get(key) ?? 0
+            if (remaining > 0) {
+                fingerprints.set(key, remaining - 1)
+                return true
+            }
+            return false
+        },
+    }
+}
@@ -1,14 +1,20 @@
 import { db } from '@/db/schema'
 import type { MappedRow } from './mapper'
-import type { Movement, Instrument, Account, AssetCategory, Currency } from '@/domain/types'
+import type { Movement, Instrument, Account, AccountKind, AssetCategory, Currency } from '@/domain/types'
 import { suggestInstrumentId, suggestAccountId } from './validator'
 import { syncMovementsBatch } from '@/sync/remote-sync'
+import { BOND_PRICE_BASE } from '@/domain/bonds/schedule'
+import { getBondByTicker } from '@/domain/bonds/catalog'
+import { parseBymaOptionTicker } from '@/domain/options/ticker'
+import { createMovementDeduper } from './dedupe'
 
 export interface ImportResult {
     batchId: string
     movementsCreated: number
     instrumentsCreated: string[]
     accountsCreated: string[]
+    /** Rows that matched a movement already in the database */
+    duplicatesSkipped: number
     errors: string[]
 }
 
@@ -20,24 +26,34 @@ export function generateBatchId(): string {
 }
 
 /**
- * Create missing instruments
+ * Create missing instruments.
+ * `details` (keyed by uppercase symbol) overrides the defaults per symbol,
+ * e.g. CEDEAR name/ratio hints coming from a broker profile.
  */
 export async function createMissingInstruments(
     symbols: Set<string>,
     category: AssetCategory = 'CRYPTO',
-    currency: Currency = 'USD'
+    currency: Currency = 'USD',
+    details?: Map<string, Partial<Instrument>>
 ): Promise<Instrument[]> {
     const created: Instrument[] = []
 
     for (const symbol of symbols) {
         const id = suggestInstrumentId(symbol)
+        // Known bonds bring their schedule and quote currency
+        const catalogBond = category === 'BOND' ? getBondByTicker(symbol) : undefined
+        // BYMA option tickers carry the terms (the year is resolved from the trade date in details)
+        const optionTerms = category === 'OPTION' ? parseBymaOptionTicker(symbol) : null
         const instrument: Instrument = {
             id,
             symbol: symbol.toUpperCase(),
-            name: symbol.toUpperCase(),
+            name: catalogBond?.name ?? symbol.toUpperCase(),
             category,
-            nativeCurrency: currency,
+            nativeCurrency: catalogBond?.quoteCurrency ?? (optionTerms ? 'ARS' : currency),
             priceKey: id,
+            ...(catalogBond ? { bond: catalogBond.terms } : {}),
+            ...(optionTerms ? { option: optionTerms } : {}),
+            ...details?.get(symbol.toUpperCase()),
         }
         await db.instruments.put(instrument)
         created.push(instrument)
@@ -50,7 +66,9 @@ export async function createMissingInstruments(
  * Create missing accounts
  */
 export async function createMissingAccounts(
-    names: Set<string>
+    names: Set<string>,
+    kind: AccountKind = 'EXCHANGE',
+    defaultCurrency: Currency = 'USD'
 ): Promise<Account[]> {
     const created: Account[] = []
 
@@ -59,8 +77,8 @@ export async function createMissingAccounts(
         const account: Account = {
             id,
             name: name.trim(),
-            kind: 'EXCHANGE',
-            defaultCurrency: 'USD',
+            kind,
+            defaultCurrency,
         }
         await db.accounts.put(account)
         created.push(account)
@@ -69,6 +87,62 @@ export async function createMissingAccounts(
     return created
 }
 
+/**
+ * Instrument hints gathered from profile-mapped rows (keyed by uppercase symbol).
+ */
+export function buildInstrumentDetailsFromRows(rows: MappedRow[]): Map<string, Partial<Instrument>> {
+    const details = new Map<string, Partial<Instrument>>()
+    for (const row of rows) {
+        if (!row.assetCategory || details.has(row.symbol)) continue
+        const isCedear = row.assetCategory === 'CEDEAR'
+        const optionTerms = row.assetCategory === 'OPTION'
+            ? parseBymaOptionTicker(row.symbol, row.datetimeISO.slice(0, 10))
+            : null
+        details.set(row.symbol, {
+            category: row.assetCategory,
+            nativeCurrency: isCedear || optionTerms ? 'ARS' : (row.assetCategory === 'STABLE' ? (row.symbol as Currency) : 'USD'),
+            ...(row.assetName ? { name: row.assetName } : {}),
+            ...(isCedear && row.cedearRatio ? { cedearRatio: row.cedearRatio, underlyingSymbol: row.symbol } : {}),
+            ...(optionTerms ? { option: optionTerms } : {}),
+        })
+    }
+    return details
+}
+
+const CATEGORY_ASSET_CLASS: Partial<Record<AssetCategory, Movement['assetClass']>> = {
+    CEDEAR: 'cedear',
+    CRYPTO: 'crypto',
+    STABLE: 'crypto',
+    FCI: 'fci',
+    BOND: 'bond',
+    OPTION: 'option',
+}
+
+/**
+ * Broker statements quote bonds per 100 VN; movements keep the price per VN.
+ * Totals derived by the mapper from the quote are rescaled too.
+ */
+function bondTradeFields(row: MappedRow): Pick<Movement, 'unitPrice' | 'totalAmount' | 'meta'> {
+    if (!row.unitPrice) return { unitPrice: row.unitPrice, totalAmount: row.totalAmount }
+    const unitPrice = row.unitPrice / BOND_PRICE_BASE
+    const derivedTotal = row.quantity != null && Math.abs(row.totalAmount - row.quantity * row.unitPrice) < 1e-6
+    return {
+        unitPrice,
+        totalAmount: derivedTotal ? row.quantity! * unitPrice : row.totalAmount,
+        meta: { bond: { pricePer100: row.unitPrice } },
+    }
+}
+
+/**
+ * Broker statements count options in contracts with the premium per share;
+ * movements keep underlying units. Only rescales when the total shows it.
+ */
+function optionTradeFields(row: MappedRow, lotSize: number): Pick<Movement, 'quantity'> {
+    if (row.quantity == null || !row.unitPrice || lotSize <= 1) return { quantity: row.quantity }
+    const inContracts = Math.abs(row.totalAmount - row.quantity * row.unitPrice * lotSize) < 1e-6 * Math.max(1, row.totalAmount)
+    return { quantity: inContracts ? row.quantity * lotSize : row.quantity }
+}
+
 /**
  * Import validated rows as movements
  */
@@ -83,9 +157,12 @@ export async function importMovements(
         movementsCreated: 0,
         instrumentsCreated: [],
         accountsCreated: [],
+        duplicatesSkipped: 0,
         errors: [],
     }
 
+    const deduper = createMovementDeduper(await db.movements.toArray())
+
     // Build lookup maps by symbol/name
     const instrumentBySymbol = new Map(
         Array.from(instruments.values()).map((i) => [i.symbol.toUpperCase(), i])
@@ -115,6 +192,7 @@ export async function importMovements(
                 id: `${batchId}-${row.rowIndex}`,
                 datetimeISO: row.datetimeISO,
                 type: row.type,
+                assetClass: CATEGORY_ASSET_CLASS[instrument.category],
                 instrumentId: instrument.id,
                 accountId: account.id,
                 quantity: row.quantity,
@@ -126,8 +204,17 @@ export async function importMovements(
                 fxAtTrade: row.fxAtTrade,
                 notes: row.notes,
                 importBatchId: batchId,
+                ...(instrument.category === 'BOND' ? bondTradeFields(row) : {}),
+                ...(instrument.option ? optionTradeFields(row, instrument.option.lotSize) : {}),
+            }
+            if (row.externalId) {
+                movement.meta = { ...movement.meta, externalId: row.externalId }
             }
 
+            if (deduper.isDuplicate(movement)) {
+                result.duplicatesSkipped++
+                continue
+            }
             movements.push(movement)
         } catch (error) {
             result.errors.push(`Error en fila ${row.rowIndex + 2}: ${error}`)
@@ -151,9 +238,9 @@ export async function importMovements(
  * Undo an import by deleting all movements with matching batchId
  */
 export async function undoImport(batchId: string): Promise<number> {
+    // importBatchId is not indexed
     const movements = await db.movements
-        .where('importBatchId')
-        .equals(batchId)
+        .filter((m) => m.importBatchId === batchId)
         .toArray()
 
     const ids = movements.map((m) => m.id)
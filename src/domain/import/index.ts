@@ -1,4 +1,4 @@
-export { parseCSV, parseExcel, readFileAsText, readFileAsArrayBuffer, isCSVFile, isExcelFile } from './parser'
+export { parseCSV, parseExcel, readFileAsText, readFileAsArrayBuffer, isCSVFile, isExcelFile, isJSONFile } from './parser'
 export type { ParseResult } from './parser'
 
 export {
@@ -22,5 +22,27 @@ export {
     importMovements,
     undoImport,
     getImportBatches,
+    buildInstrumentDetailsFromRows,
 } from './importer'
 export type { ImportResult } from './importer'
+
+export {
+    BROKER_PROFILES,
+    detectBrokerProfile,
+    getBrokerProfile,
+    mapRowsWithProfile,
+    parseNumberWithFormat,
+} from './profiles'
+export type { BrokerProfile, BrokerProfileId, NumberFormat, ProfileMappingResult } from './profiles'
+
+export { movementFingerprint, createMovementDeduper } from './dedupe'
+export type { MovementDeduper } from './dedupe'
+
+export {
+    CRYPTO_CONNECTORS,
+    detectConnector,
+    getConnector,
+    BITCOIN_ADDRESS_PATTERN,
+    ETHEREUM_ADDRESS_PATTERN,
+} from './connectors'
+export type { ConnectorSource, CryptoConnector, CryptoConnectorId } from './connectors'
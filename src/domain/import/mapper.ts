@@ -1,4 +1,4 @@
-import type { MovementType, Currency } from '@/domain/types'
+import type { MovementType, Currency, AssetCategory } from '@/domain/types'
 
 export interface ColumnMapping {
     datetime?: number
@@ -32,6 +32,12 @@ export interface MappedRow {
     notes?: string
     rawRow: string[]
     rowIndex: number
+    // Instrument hints filled by broker profiles (used when creating missing instruments)
+    assetCategory?: AssetCategory
+    assetName?: string
+    cedearRatio?: number
+    /** Trade id / tx hash at the source, used to skip rows already imported */
+    externalId?: string
 }
 
 const TYPE_MAPPINGS: Record<string, MovementType> = {
@@ -128,3 +128,10 @@ export function isExcelFile(file: File): boolean {
     const ext = file.name.split('.').pop()?.toLowerCase()
     return ext === 'xlsx' || ext === 'xls'
 }
+
+/**
+ * Detect if file is JSON (e.g. an exchange API trade dump) by extension
+ */
+export function isJSONFile(file: File): boolean {
+    return file.name.split('.').pop()?.toLowerCase() === 'json'
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { detectBrokerProfile, getBrokerProfile, mapRowsWithProfile, parseNumberWithFormat } from './profiles'
+
+describe('detectBrokerProfile', () => {
+    it('detects IOL from accented headers', () => {
+        const headers = ['Fecha Concertación', 'Fecha Liquidación', 'Tipo Transacción', 'Símbolo', 'Cantidad', 'Precio Ponderado', 'Monto']
+        expect(detectBrokerProfile(headers)?.id).toBe('iol')
+    })
+
+    it('detects Binance trade history', () => {
+        const headers = ['Date(UTC)', 'Pair', 'Side', 'Price', 'Executed', 'Amount', 'Fee']
+        expect(detectBrokerProfile(headers)?.id).toBe('binance')
+    })
+
+    it('returns null for a generic layout', () => {
+        expect(detectBrokerProfile(['date', 'type', 'symbol', 'quantity'])).toBeNull()
+    })
+})
+
+describe('parseNumberWithFormat', () => {
+    it('parses argentine and us formats explicitly', () => {
+        expect(parseNumberWithFormat('$ 1.234,56', 'ar')).toBeCloseTo(1234.56, 2)
+        expect(parseNumberWithFormat('1,234.56', 'us')).toBeCloseTo(1234.56, 2)
+        expect(parseNumberWithFormat('0.015BTC', 'us')).toBeCloseTo(0.015, 6)
+        expect(parseNumberWithFormat('', 'ar')).toBeUndefined()
+    })
+})
+
+describe('mapRowsWithProfile', () => {
+    it('maps IOL rows, resolves MEP tickers and skips unknown operations', () => {
+        const profile = getBrokerProfile('iol')!
+        const headers = ['Fecha Concertación', 'Tipo Transacción', 'Símbolo', 'Cantidad', 'Precio Ponderado', 'Monto', 'Moneda', 'Comisión']
+        const data = [
+            ['15/03/2025', 'Compra', 'AAPL', '10', '15.000,00', '-150.000,00', 'Pesos', '750,00'],
+            ['16/03/2025', 'Venta 48hs', 'AAPLD', '5', '12,50', '62,50', 'Dólares', ''],
+            ['17/03/2025', 'Depósito de Fondos', '', '', '', '200.000,00', 'Pesos', ''],
+            ['18/03/2025', 'Suscripción FCI', 'XYZ', '1', '1', '1', 'Pesos', ''],
+        ]
+
+        const { rows, skipped } = mapRowsWithProfile(profile, headers, data)
+
+        expect(rows).toHaveLength(3)
+        expect(skipped).toEqual([{ rowIndex: 3, label: 'Suscripción FCI' }])
+
+        const [buy, sell, deposit] = rows
+        expect(buy.type).toBe('BUY')
+        expect(buy.symbol).toBe('AAPL')
+        expect(buy.account).toBe('InvertirOnline')
+        expect(buy.totalAmount).toBeCloseTo(150000, 2)
+        expect(buy.feeAmount).toBeCloseTo(750, 2)
+        expect(buy.assetCategory).toBe('CEDEAR')
+        expect(buy.cedearRatio).toBeGreaterThan(0)
+
+        expect(sell.type).toBe('SELL')
+        expect(sell.symbol).toBe('AAPL')
+        expect(sell.tradeCurrency).toBe('USD')
+
+        expect(deposit.type).toBe('DEPOSIT')
+        expect(deposit.symbol).toBe('ARS')
+        expect(deposit.quantity).toBeCloseTo(200000, 2)
+        expect(deposit.unitPrice).toBe(1)
+    })
+
+    it('splits Binance pairs and keeps UTC timestamps', () => {
+        const profile = getBrokerProfile('binance')!
+        const headers = ['Date(UTC)', 'Pair', 'Side', 'Price', 'Executed', 'Amount', 'Fee']
+        const data = [['2025-01-05 13:20:11', 'BTCUSDT', 'BUY', '95,000.00', '0.01BTC', '950.00USDT', '0.00001BTC']]
+
+        const [row] = mapRowsWithProfile(profile, headers, data).rows
+        expect(row.datetimeISO).toBe('2025-01-05T13:20:11.000Z')
+        expect(row.symbol).toBe('BTC')
+        expect(row.tradeCurrency).toBe('USDT')
+        expect(row.quantity).toBeCloseTo(0.01, 6)
+        expect(row.totalAmount).toBeCloseTo(950, 2)
+        expect(row.feeCurrency).toBe('BTC')
+        expect(row.assetCategory).toBe('CRYPTO')
+    })
+})
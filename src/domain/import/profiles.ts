@@ -0,0 +1,569 @@
+/**
+ * Broker Import Profiles
+ *
+ * Named presets that know each broker's export layout (header names),
+ * number format and operation vocabulary, so a raw statement can be turned
+ * straight into MappedRows without the manual column-mapping step.
+ *
+ * Profiles are picked automatically from the file headers via
+ * `detectBrokerProfile`. CEDEAR metadata (name, ratio) comes from the
+ * Comafi master list through `getCedearByTicker`.
+ */
+
+import type { AccountKind, AssetCategory, Currency, MovementType } from '@/domain/types'
+import { getCedearByTicker } from '@/domain/cedears/master'
+import { normalizeCurrency, normalizeSymbol, parseDate } from './mapper'
+import type { MappedRow } from './mapper'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type BrokerProfileId = 'iol' | 'ppi' | 'balanz' | 'cocos' | 'binance' | 'lemon' | 'belo' | 'buenbit'
+
+/**
+ * 'ar' = 1.234,56 — 'us' = 1,234.56
+ */
+export type NumberFormat = 'ar' | 'us'
+
+export type ProfileField =
+    | 'date'
+    | 'type'
+    | 'symbol'
+    | 'quantity'
+    | 'unitPrice'
+    | 'totalAmount'
+    | 'currency'
+    | 'feeAmount'
+    | 'notes'
+
+export interface BrokerProfile {
+    id: BrokerProfileId
+    label: string
+    /** Account name used for every row (matches the seeded account when present) */
+    accountName: string
+    accountKind: AccountKind
+    numberFormat: NumberFormat
+    defaultCurrency: Currency
+    /** Category assigned to traded symbols that are not cash */
+    assetCategory: AssetCategory
+    /** Normalized headers that must ALL be present for auto-detection */
+    signature: string[]
+    /** Normalized header aliases per field (first match wins) */
+    columns: Partial<Record<ProfileField, string[]>>
+    /** Normalized operation label → MovementType. Unknown labels are skipped. */
+    typeVocabulary: Record<string, MovementType>
+    /** Optional per-profile row hook (e.g. splitting Binance pairs) */
+    transform?: (row: MappedRow, raw: Record<ProfileField, string>) => MappedRow
+}
+
+export interface ProfileMappingResult {
+    rows: MappedRow[]
+    /** Raw rows whose operation type is not in the profile vocabulary */
+    skipped: Array<{ rowIndex: number; label: string }>
+}
+
+// ---------------------------------------------------------------------------
+// Profiles
+// ---------------------------------------------------------------------------
+
+const CASH_TYPES: MovementType[] = ['DEPOSIT', 'WITHDRAW', 'FEE', 'INTEREST']
+const FIAT_CODES = ['ARS', 'USD']
+export const STABLE_CODES = ['USDT', 'USDC', 'DAI']
+
+export const BROKER_PROFILES: BrokerProfile[] = [
+    {
+        id: 'iol',
+        label: 'InvertirOnline (IOL)',
+        accountName: 'InvertirOnline',
+        accountKind: 'BROKER',
+        numberFormat: 'ar',
+        defaultCurrency: 'ARS',
+        assetCategory: 'CEDEAR',
+        signature: ['fecha concertacion', 'tipo transaccion', 'simbolo'],
+        columns: {
+            date: ['fecha concertacion', 'fecha liquidacion'],
+            type: ['tipo transaccion'],
+            symbol: ['simbolo'],
+            quantity: ['cantidad'],
+            unitPrice: ['precio ponderado', 'precio'],
+            totalAmount: ['monto', 'importe'],
+            currency: ['moneda'],
+            feeAmount: ['comision', 'gastos'],
+            notes: ['descripcion'],
+        },
+        typeVocabulary: {
+            'compra': 'BUY',
+            'venta': 'SELL',
+            'pago de dividendos': 'DIVIDEND',
+            'pago de renta': 'INTEREST',
+            'deposito de fondos': 'DEPOSIT',
+            'extraccion de fondos': 'WITHDRAW',
+        },
+    },
+    {
+        id: 'ppi',
+        label: 'Portfolio Personal (PPI)',
+        accountName: 'PPI',
+        accountKind: 'BROKER',
+        numberFormat: 'ar',
+        defaultCurrency: 'ARS',
+        assetCategory: 'CEDEAR',
+        signature: ['fecha', 'operacion', 'especie'],
+        columns: {
+            date: ['fecha'],
+            type: ['operacion'],
+            symbol: ['especie'],
+            quantity: ['cantidad'],
+            unitPrice: ['precio'],
+            totalAmount: ['importe', 'monto'],
+            currency: ['moneda'],
+            feeAmount: ['comision', 'aranceles'],
+            notes: ['descripcion', 'observaciones'],
+        },
+        typeVocabulary: {
+            'compra': 'BUY',
+            'venta': 'SELL',
+            'dividendo': 'DIVIDEND',
+            'renta': 'INTEREST',
+            'ingreso de fondos': 'DEPOSIT',
+            'egreso de fondos': 'WITHDRAW',
+        },
+    },
+    {
+        id: 'balanz',
+        label: 'Balanz',
+        accountName: 'Balanz',
+        accountKind: 'BROKER',
+        numberFormat: 'ar',
+        defaultCurrency: 'ARS',
+        assetCategory: 'CEDEAR',
+        signature: ['fecha', 'tipo', 'ticker', 'gastos'],
+        columns: {
+            date: ['fecha'],
+            type: ['tipo'],
+            symbol: ['ticker'],
+            quantity: ['cantidad'],
+            unitPrice: ['precio'],
+            totalAmount: ['importe'],
+            currency: ['moneda'],
+            feeAmount: ['gastos'],
+            notes: ['descripcion'],
+        },
+        typeVocabulary: {
+            'compra': 'BUY',
+            'venta': 'SELL',
+            'dividendos': 'DIVIDEND',
+            'dividendo': 'DIVIDEND',
+            'renta': 'INTEREST',
+            'deposito': 'DEPOSIT',
+            'retiro': 'WITHDRAW',
+        },
+    },
+    {
+        id: 'cocos',
+        label: 'Cocos Capital',
+        accountName: 'Cocos Capital',
+        accountKind: 'BROKER',
+        numberFormat: 'ar',
+        defaultCurrency: 'ARS',
+        assetCategory: 'CEDEAR',
+        signature: ['fecha', 'tipo de operacion', 'instrumento', 'monto total'],
+        columns: {
+            date: ['fecha'],
+            type: ['tipo de operacion'],
+            symbol: ['instrumento'],
+            quantity: ['cantidad'],
+            unitPrice: ['precio'],
+            totalAmount: ['monto total'],
+            currency: ['moneda'],
+            feeAmount: ['comisiones', 'comision'],
+        },
+        typeVocabulary: {
+            'compra': 'BUY',
+            'venta': 'SELL',
+            'dividendo': 'DIVIDEND',
+            'renta': 'INTEREST',
+            'ingreso': 'DEPOSIT',
+            'egreso': 'WITHDRAW',
+        },
+    },
+    {
+        id: 'binance',
+        label: 'Binance (Trade History)',
+        accountName: 'Binance',
+        accountKind: 'EXCHANGE',
+        numberFormat: 'us',
+        defaultCurrency: 'USDT',
+        assetCategory: 'CRYPTO',
+        signature: ['date(utc)', 'pair', 'side', 'executed'],
+        columns: {
+            date: ['date(utc)'],
+            type: ['side'],
+            symbol: ['pair'],
+            quantity: ['executed'],
+            unitPrice: ['price'],
+            totalAmount: ['amount'],
+            feeAmount: ['fee'],
+        },
+        typeVocabulary: {
+            'buy': 'BUY',
+            'sell': 'SELL',
+        },
+        transform: (row, raw) => {
+            const { base, quote } = splitCryptoPair(raw.symbol)
+            // Binance appends the asset to the number cells (e.g. "0.01BTC", "12.5USDT")
+            const feeAsset = raw.feeAmount.replace(/[\d.,\s-]/g, '').toUpperCase()
+            return {
+                ...row,
+                // Binance exports UTC timestamps without zone designator
+                datetimeISO: parseDate(`${raw.date.replace(' ', 'T')}Z`),
+                symbol: base,
+                tradeCurrency: quote,
+                feeCurrency: feeAsset ? toCryptoCurrency(feeAsset) : quote,
+            }
+        },
+    },
+    {
+        id: 'lemon',
+        label: 'Lemon Cash',
+        accountName: 'Lemon',
+        accountKind: 'EXCHANGE',
+        numberFormat: 'ar',
+        defaultCurrency: 'ARS',
+        assetCategory: 'CRYPTO',
+        signature: ['fecha', 'tipo de transaccion', 'moneda', 'monto en pesos'],
+        columns: {
+            date: ['fecha'],
+            type: ['tipo de transaccion'],
+            // "Moneda" is the coin; every trade settles in pesos
+            symbol: ['moneda'],
+            quantity: ['cantidad'],
+            unitPrice: ['precio'],
+            totalAmount: ['monto en pesos'],
+            feeAmount: ['comision'],
+            notes: ['descripcion'],
+        },
+        typeVocabulary: {
+            'compra': 'BUY',
+            'venta': 'SELL',
+            'cashback': 'INTEREST',
+            'rendimiento': 'INTEREST',
+            'deposito': 'DEPOSIT',
+            'retiro': 'WITHDRAW',
+        },
+        transform: (row) => toCryptoTransfer(row),
+    },
+    {
+        id: 'belo',
+        label: 'Belo',
+        accountName: 'Belo',
+        accountKind: 'EXCHANGE',
+        numberFormat: 'ar',
+        defaultCurrency: 'ARS',
+        assetCategory: 'CRYPTO',
+        signature: ['fecha', 'moneda origen', 'moneda destino'],
+        columns: {
+            date: ['fecha'],
+            type: ['tipo', 'operacion'],
+            symbol: ['moneda destino'],
+            quantity: ['monto destino'],
+            totalAmount: ['monto origen'],
+            currency: ['moneda origen'],
+            feeAmount: ['comision'],
+        },
+        typeVocabulary: {
+            'conversion': 'BUY',
+            'swap': 'BUY',
+            'compra': 'BUY',
+            'venta': 'BUY',
+            'deposito': 'DEPOSIT',
+            'retiro': 'WITHDRAW',
+        },
+        // Belo exports swaps (origin -> destination): swapping a coin into pesos
+        // or dollars (or a volatile coin into a stablecoin) reads as a SELL of the origin coin
+        transform: (row, raw) => {
+            const from = raw.currency.toUpperCase()
+            const to = row.symbol
+            const isSale = FIAT_CODES.includes(to) ? !FIAT_CODES.includes(from) : STABLE_CODES.includes(to) && !isFiatOrStable(from)
+            if (row.type === 'BUY' && isSale && from) {
+                const quantity = absOrUndefined(parseNumberWithFormat(raw.totalAmount, 'ar'))
+                const totalAmount = absOrUndefined(parseNumberWithFormat(raw.quantity, 'ar')) ?? 0
+                return {
+                    ...row,
+                    type: 'SELL',
+                    symbol: from,
+                    quantity,
+                    unitPrice: quantity ? totalAmount / quantity : undefined,
+                    tradeCurrency: toCryptoCurrency(to),
+                    totalAmount,
+                    feeCurrency: row.feeAmount ? toCryptoCurrency(to) : undefined,
+                }
+            }
+            if (row.type === 'BUY') {
+                const tradeCurrency = toCryptoCurrency(from || row.tradeCurrency)
+                return {
+                    ...row,
+                    unitPrice: row.quantity ? row.totalAmount / row.quantity : undefined,
+                    tradeCurrency,
+                    feeCurrency: row.feeAmount ? tradeCurrency : undefined,
+                }
+            }
+            return toCryptoTransfer(row)
+        },
+    },
+    {
+        id: 'buenbit',
+        label: 'Buenbit',
+        accountName: 'Buenbit',
+        accountKind: 'EXCHANGE',
+        numberFormat: 'ar',
+        defaultCurrency: 'ARS',
+        assetCategory: 'CRYPTO',
+        signature: ['fecha', 'operacion', 'mercado', 'total'],
+        columns: {
+            date: ['fecha'],
+            type: ['operacion'],
+            symbol: ['mercado'],
+            quantity: ['cantidad'],
+            unitPrice: ['precio'],
+            totalAmount: ['total'],
+            feeAmount: ['comision'],
+        },
+        typeVocabulary: {
+            'compra': 'BUY',
+            'venta': 'SELL',
+            'deposito': 'DEPOSIT',
+            'retiro': 'WITHDRAW',
+        },
+        transform: (row, raw) => {
+            // Trades come as a market ("BTC/ARS"); deposits and withdrawals as a single coin
+            if (row.type !== 'BUY' && row.type !== 'SELL') return toCryptoTransfer(row)
+            const { base, quote } = splitCryptoPair(raw.symbol)
+            return {
+                ...row,
+                symbol: base,
+                tradeCurrency: quote,
+                feeCurrency: row.feeAmount ? quote : undefined,
+            }
+        },
+    },
+]
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Pick the profile whose signature headers are all present.
+ * When several match, the one with the longest signature wins (most specific).
+ */
+export function detectBrokerProfile(headers: string[]): BrokerProfile | null {
+    const normalized = new Set(headers.map(normalizeHeader))
+    let best: BrokerProfile | null = null
+
+    for (const profile of BROKER_PROFILES) {
+        const matches = profile.signature.every(h => normalized.has(h))
+        if (!matches) continue
+        if (!best || profile.signature.length > best.signature.length) {
+            best = profile
+        }
+    }
+
+    return best
+}
+
+export function getBrokerProfile(id: BrokerProfileId): BrokerProfile | undefined {
+    return BROKER_PROFILES.find(p => p.id === id)
+}
+
+/**
+ * Map raw rows to MappedRows using a broker profile.
+ */
+export function mapRowsWithProfile(
+    profile: BrokerProfile,
+    headers: string[],
+    data: string[][]
+): ProfileMappingResult {
+    const normalizedHeaders = headers.map(normalizeHeader)
+    const columnIndex = {} as Record<ProfileField, number | undefined>
+    for (const [field, aliases] of Object.entries(profile.columns) as Array<[ProfileField, string[]]>) {
+        columnIndex[field] = aliases
+            .map(alias => normalizedHeaders.indexOf(alias))
+            .find(idx => idx !== -1)
+    }
+
+    const rows: MappedRow[] = []
+    const skipped: ProfileMappingResult['skipped'] = []
+
+    data.forEach((rawRow, rowIndex) => {
+        const get = (field: ProfileField) => {
+            const idx = columnIndex[field]
+            return idx !== undefined ? String(rawRow[idx] ?? '').trim() : ''
+        }
+        const raw = {
+            date: get('date'),
+            type: get('type'),
+            symbol: get('symbol'),
+            quantity: get('quantity'),
+            unitPrice: get('unitPrice'),
+            totalAmount: get('totalAmount'),
+            currency: get('currency'),
+            feeAmount: get('feeAmount'),
+            notes: get('notes'),
+        }
+
+        const type = resolveProfileType(profile, raw.type)
+        if (!type) {
+            if (raw.type || raw.symbol) skipped.push({ rowIndex, label: raw.type })
+            return
+        }
+
+        const quantity = absOrUndefined(parseNumberWithFormat(raw.quantity, profile.numberFormat))
+        const unitPrice = absOrUndefined(parseNumberWithFormat(raw.unitPrice, profile.numberFormat))
+        const feeAmount = absOrUndefined(parseNumberWithFormat(raw.feeAmount, profile.numberFormat))
+        let totalAmount = absOrUndefined(parseNumberWithFormat(raw.totalAmount, profile.numberFormat))
+        if (!totalAmount && quantity && unitPrice) {
+            totalAmount = quantity * unitPrice
+        }
+
+        const tradeCurrency = raw.currency ? normalizeCurrency(raw.currency) : profile.defaultCurrency
+        const symbol = normalizeSymbol(raw.symbol)
+        const isCash = CASH_TYPES.includes(type) && (!symbol || symbol === tradeCurrency)
+
+        let mapped: MappedRow = {
+            datetimeISO: parseDate(raw.date),
+            type,
+            symbol: isCash ? tradeCurrency : symbol,
+            account: profile.accountName,
+            quantity: isCash ? (quantity ?? totalAmount) : quantity,
+            unitPrice: isCash ? 1 : unitPrice,
+            tradeCurrency,
+            totalAmount: totalAmount ?? 0,
+            feeAmount,
+            feeCurrency: feeAmount ? tradeCurrency : undefined,
+            notes: raw.notes || `Importado desde ${profile.label}`,
+            rawRow,
+            rowIndex,
+        }
+
+        if (profile.transform) {
+            mapped = profile.transform(mapped, raw)
+        }
+
+        // Enrich traded instruments with category / CEDEAR master data
+        if (!isCash && mapped.symbol) {
+            if (profile.assetCategory === 'CEDEAR') {
+                const bymaTicker = resolveBymaTicker(mapped.symbol)
+                const cedear = getCedearByTicker(bymaTicker.ticker)
+                mapped = {
+                    ...mapped,
+                    symbol: bymaTicker.ticker,
+                    tradeCurrency: bymaTicker.currency ?? mapped.tradeCurrency,
+                    assetCategory: cedear ? 'CEDEAR' : undefined,
+                    assetName: cedear?.name,
+                    cedearRatio: cedear?.ratio,
+                }
+            } else {
+                mapped = {
+                    ...mapped,
+                    assetCategory: STABLE_CODES.includes(mapped.symbol) ? 'STABLE' : profile.assetCategory,
+                }
+            }
+        }
+
+        rows.push(mapped)
+    })
+
+    return { rows, skipped }
+}
+
+/**
+ * Parse a number with an explicit locale (no guessing).
+ * Strips currency symbols and trailing asset codes ("12.5USDT").
+ */
+export function parseNumberWithFormat(value: string, format: NumberFormat): number | undefined {
+    if (!value) return undefined
+    let normalized = value.replace(/[^\d.,-]/g, '')
+    if (normalized === '' || normalized === '-') return undefined
+
+    if (format === 'ar') {
+        normalized = normalized.replace(/\./g, '').replace(',', '.')
+    } else {
+        normalized = normalized.replace(/,/g, '')
+    }
+
+    const num = parseFloat(normalized)
+    return isNaN(num) ? undefined : num
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function normalizeHeader(header: string): string {
+    return String(header ?? '')
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+}
+
+function resolveProfileType(profile: BrokerProfile, label: string): MovementType | undefined {
+    const key = normalizeHeader(label)
+    if (!key) return undefined
+    if (profile.typeVocabulary[key]) return profile.typeVocabulary[key]
+    // Brokers often append the instrument or settlement term ("Compra CEDEAR", "Venta 48hs")
+    const prefix = Object.keys(profile.typeVocabulary).find(v => key.startsWith(`${v} `))
+    return prefix ? profile.typeVocabulary[prefix] : undefined
+}
+
+/**
+ * BYMA lists the same CEDEAR in ARS, MEP dollars ("D" suffix) and cable ("C" suffix).
+ * Map "AAPLD" → AAPL traded in USD, unless the full ticker is itself a known CEDEAR.
+ */
+function resolveBymaTicker(ticker: string): { ticker: string; currency?: Currency } {
+    if (getCedearByTicker(ticker)) return { ticker }
+    const suffix = ticker.slice(-1)
+    const base = ticker.slice(0, -1)
+    if ((suffix === 'D' || suffix === 'C') && base && getCedearByTicker(base)) {
+        return { ticker: base, currency: 'USD' }
+    }
+    return { ticker }
+}
+
+const KNOWN_QUOTES = ['USDT', 'USDC', 'BUSD', 'FDUSD', 'DAI', 'ARS', 'BRL', 'BTC', 'ETH', 'BNB']
+
+export function splitCryptoPair(pair: string): { base: string; quote: Currency } {
+    const upper = pair.toUpperCase().replace(/[-/_]/g, '')
+    const quote = KNOWN_QUOTES.find(q => upper.endsWith(q) && upper.length > q.length)
+    if (!quote) return { base: upper, quote: 'USDT' }
+    return { base: upper.slice(0, -quote.length), quote: toCryptoCurrency(quote) }
+}
+
+/**
+ * normalizeCurrency folds unknown codes into USD; keep BTC/ETH as their own currency.
+ */
+export function toCryptoCurrency(code: string): Currency {
+    return code === 'BTC' || code === 'ETH' ? code : normalizeCurrency(code)
+}
+
+function isFiatOrStable(code: string): boolean {
+    return FIAT_CODES.includes(code) || STABLE_CODES.includes(code)
+}
+
+/**
+ * Exchanges call moving coins in or out "deposit"/"withdrawal": only pesos and
+ * dollars are cash, coins are transfers of the position.
+ */
+function toCryptoTransfer(row: MappedRow): MappedRow {
+    if (FIAT_CODES.includes(row.symbol) || row.symbol === row.tradeCurrency) return row
+    if (row.type === 'DEPOSIT') return { ...row, type: 'TRANSFER_IN', unitPrice: undefined }
+    if (row.type === 'WITHDRAW') return { ...row, type: 'TRANSFER_OUT', unitPrice: undefined }
+    return row
+}
+
+function absOrUndefined(value: number | undefined): number | undefined {
+    return value === undefined ? undefined : Math.abs(value)
+}
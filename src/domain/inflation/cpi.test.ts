@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { cpiToIndexPoints, createCpiDeflator, parseCpiCsv, parseCpiSeries } from './cpi'
+import { computeAverageCost } from '@/domain/portfolio/average-cost'
+import type { Movement } from '@/domain/types'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function trade(id: string, type: 'BUY' | 'SELL', datetimeISO: string, quantity: number, unitPrice: number): Movement {
+    return {
+        id,
+        datetimeISO,
+        type,
+        assetClass: 'cedear',
+        instrumentId: 'aapl',
+        accountId: 'iol',
+        quantity,
+        unitPrice,
+        tradeCurrency: 'ARS',
+        totalAmount: quantity * unitPrice,
+        fxAtTrade: 1000,
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('parseCpiSeries', () => {
+    it('parses common pasted formats and reports invalid lines', () => {
+        const { months, invalidLines } = parseCpiSeries('2025-02 2,4\n# comentario\n01/2025;2.2%\nfoo\n2025-02 2.5')
+
+        expect(months).toEqual([
+            { month: '2025-01', pct: 2.2 },
+            { month: '2025-02', pct: 2.5 },
+        ])
+        expect(invalidLines).toEqual([4])
+    })
+})
+
+describe('parseCpiCsv', () => {
+    it('turns an index level export into monthly changes', () => {
+        const csv = 'indice_tiempo,ipc_ng_nacional\n2025-01-01,100\n2025-02-01,102\n2025-03-01,104.04\n2025-05-01,110'
+
+        const { months, invalidLines } = parseCpiCsv(csv)
+
+        expect(months.map(m => m.month)).toEqual(['2025-02', '2025-03'])
+        expect(months[0].pct).toBeCloseTo(2)
+        expect(months[1].pct).toBeCloseTo(2)
+        // May follows a missing April: its change can't be derived
+        expect(invalidLines).toEqual([5])
+    })
+
+    it('reads a monthly change column with decimal commas', () => {
+        const csv = 'Fecha;Nivel general;Var. mensual %\n01/2025;"7.864,1";2,2\n02/2025;"8.052,9";2,4\nfoo;1;x'
+
+        const { months, invalidLines } = parseCpiCsv(csv)
+
+        expect(months).toEqual([
+            { month: '2025-01', pct: 2.2 },
+            { month: '2025-02', pct: 2.4 },
+        ])
+        expect(invalidLines).toEqual([4])
+    })
+})
+
+describe('createCpiDeflator', () => {
+    it('restates past pesos with interpolation and clamps outside the series', () => {
+        expect(cpiToIndexPoints([{ month: '2025-12', pct: 10 }]).map(p => p.date)).toEqual(['2025-12-01', '2026-01-01'])
+
+        const deflator = createCpiDeflator([
+            { month: '2025-11', pct: 10 },
+            { month: '2025-12', pct: 10 },
+        ], '2026-03-15')!
+
+        expect(deflator.coveredTo).toBe('2026-01-01')
+        expect(deflator.factorAt('2025-11-01')).toBeCloseTo(1.21)
+        expect(deflator.factorAt('2025-12-01')).toBeCloseTo(1.1)
+        expect(deflator.factorAt('2025-12-16')).toBeGreaterThan(1.04)
+        expect(deflator.factorAt('2025-12-16')).toBeLessThan(1.06)
+        // Before the series: no inflation known beyond the first month
+        expect(deflator.factorAt('2024-06-01')).toBeCloseTo(1.21)
+        // After the last published month: flat
+        expect(deflator.factorAt('2026-02-10')).toBe(1)
+        expect(createCpiDeflator([], '2026-03-15')).toBeNull()
+    })
+})
+
+describe('computeAverageCost with a deflator', () => {
+    it('restates each purchase at its date and reduces the real basis on sales', () => {
+        const deflator = createCpiDeflator([
+            { month: '2025-11', pct: 10 },
+            { month: '2025-12', pct: 10 },
+        ], '2026-01-01')!
+        const movements = [
+            trade('b1', 'BUY', '2025-11-01T12:00:00.000Z', 10, 100),
+            trade('b2', 'BUY', '2026-01-01T12:00:00.000Z', 10, 150),
+            trade('s1', 'SELL', '2026-01-01T13:00:00.000Z', 10, 160),
+        ]
+
+        const result = computeAverageCost(movements, deflator.factorAt)
+
+        expect(result.costBasisArs).toBeCloseTo(1250)
+        expect(result.costBasisRealArs).toBeCloseTo((1000 * 1.21 + 1500) / 2)
+        expect(computeAverageCost(movements).costBasisRealArs).toBeUndefined()
+    })
+})
@@ -0,0 +1,236 @@
+/**
+ * CPI series (INDEC IPC)
+ *
+ * The series is stored as monthly changes. It can be pasted one month per line
+ * or imported from a CSV with either monthly changes or index levels (the
+ * INDEC / datos.gob.ar downloads publish levels). The deflator restates past
+ * pesos in pesos of a reference date, interpolating geometrically inside each
+ * month.
+ */
+
+import type { CpiDeflator, CpiIndexPoint, CpiMonth, CpiParseResult } from './types'
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const CPI_LINE_YEAR_FIRST = /^(\d{4})[-/](\d{1,2})[\s,;]+(-?\d+(?:[.,]\d+)?)\s*%?$/
+const CPI_LINE_MONTH_FIRST = /^(\d{1,2})[-/](\d{4})[\s,;]+(-?\d+(?:[.,]\d+)?)\s*%?$/
+
+const CSV_DATE_HEADER = /^(fecha|indice_tiempo|periodo|período|mes|month|date)$/i
+const CSV_PCT_HEADER = /var|pct|%|mensual|cambio|change/i
+const CSV_LEVEL_HEADER = /indice|índice|nivel|index|ipc|general/i
+
+function toMonthKey(year: number, month: number): string | null {
+    if (!Number.isInteger(year) || year < 1900 || month < 1 || month > 12) return null
+    return `${year}-${String(month).padStart(2, '0')}`
+}
+
+function nextMonthKey(month: string): string {
+    const [year, monthNum] = month.split('-').map(Number)
+    return monthNum === 12 ? `${year + 1}-01` : `${year}-${String(monthNum + 1).padStart(2, '0')}`
+}
+
+function sortMonths(byMonth: Map<string, number>): CpiMonth[] {
+    return [...byMonth.entries()]
+        .map(([month, pct]) => ({ month, pct }))
+        .sort((a, b) => a.month.localeCompare(b.month))
+}
+
+/** "2025-01", "2025-01-01", "2025/01", "01/2025" or "01/01/2025" */
+function parseCpiDate(raw: string): string | null {
+    const value = raw.trim()
+    let match = /^(\d{4})[-/](\d{1,2})(?:[-/]\d{1,2})?$/.exec(value)
+    if (match) return toMonthKey(Number(match[1]), Number(match[2]))
+
+    match = /^(?:\d{1,2}[-/])?(\d{1,2})[-/](\d{4})$/.exec(value)
+    if (match) return toMonthKey(Number(match[2]), Number(match[1]))
+
+    return null
+}
+
+/** Accepts "2.2", "2,2" and "8.585,5" (thousands dot, decimal comma) */
+function parseCpiNumber(raw: string): number {
+    const value = raw.trim().replace(/%$/, '').trim()
+    if (!value) return NaN
+    const normalized = value.includes(',')
+        ? value.replace(/\./g, '').replace(',', '.')
+        : value
+    return Number(normalized)
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+    return line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1').trim())
+}
+
+/**
+ * Parses a pasted monthly CPI series, one month per line:
+ * "2025-01 2.2", "2025-01;2,2" or "01/2025 2.2%". Later lines win on duplicates.
+ */
+export function parseCpiSeries(text: string): CpiParseResult {
+    const byMonth = new Map<string, number>()
+    const invalidLines: number[] = []
+
+    text.split(/\r?\n/).forEach((raw, idx) => {
+        const line = raw.trim()
+        if (!line || line.startsWith('#')) return
+
+        const yearFirst = CPI_LINE_YEAR_FIRST.exec(line)
+        const monthFirst = yearFirst ? null : CPI_LINE_MONTH_FIRST.exec(line)
+        const [year, month, pctRaw] = yearFirst
+            ? [yearFirst[1], yearFirst[2], yearFirst[3]]
+            : monthFirst
+                ? [monthFirst[2], monthFirst[1], monthFirst[3]]
+                : []
+        const monthKey = year ? toMonthKey(Number(year), Number(month)) : null
+        const pct = Number(pctRaw?.replace(',', '.'))
+
+        if (!monthKey || !Number.isFinite(pct) || pct <= -100) {
+            invalidLines.push(idx + 1)
+            return
+        }
+        byMonth.set(monthKey, pct)
+    })
+
+    return { months: sortMonths(byMonth), invalidLines }
+}
+
+/**
+ * Parses a CPI CSV export. With a header row, the value column is read as
+ * monthly change when its name looks like one ("var_mensual", "%") and as an
+ * index level otherwise ("indice_tiempo,ipc_ng_nacional"); levels are turned
+ * into monthly changes, so the first month of a level series is only a base.
+ * Files without a header fall back to parseCpiSeries.
+ */
+export function parseCpiCsv(text: string): CpiParseResult {
+    const lines = text.split(/\r?\n/)
+    const headerIdx = lines.findIndex((line) => line.trim() && !line.trim().startsWith('#'))
+    if (headerIdx < 0) return { months: [], invalidLines: [] }
+
+    const headerLine = lines[headerIdx]
+    const delimiter = headerLine.includes(';') ? ';' : headerLine.includes('\t') ? '\t' : ','
+    const header = splitCsvLine(headerLine, delimiter)
+    if (parseCpiDate(header[0] ?? '')) return parseCpiSeries(text)
+
+    const foundDateCol = header.findIndex((cell) => CSV_DATE_HEADER.test(cell))
+    const dateCol = foundDateCol >= 0 ? foundDateCol : 0
+    const valueCols = header.map((_, idx) => idx).filter((idx) => idx !== dateCol)
+    const pctCol = valueCols.find((idx) => CSV_PCT_HEADER.test(header[idx]))
+    const levelCol = valueCols.find((idx) => CSV_LEVEL_HEADER.test(header[idx]))
+    const valueCol = pctCol ?? levelCol ?? valueCols[0]
+    const isLevel = pctCol == null
+    if (valueCol == null) return { months: [], invalidLines: [headerIdx + 1] }
+
+    const values = new Map<string, { value: number; line: number }>()
+    const invalidLines: number[] = []
+
+    lines.forEach((raw, idx) => {
+        if (idx <= headerIdx) return
+        const line = raw.trim()
+        if (!line || line.startsWith('#')) return
+
+        const cells = splitCsvLine(line, delimiter)
+        const month = parseCpiDate(cells[dateCol] ?? '')
+        const value = parseCpiNumber(cells[valueCol] ?? '')
+        if (!month || !Number.isFinite(value) || (isLevel ? value <= 0 : value <= -100)) {
+            invalidLines.push(idx + 1)
+            return
+        }
+        values.set(month, { value, line: idx + 1 })
+    })
+
+    const byMonth = new Map<string, number>()
+    if (!isLevel) {
+        for (const [month, { value }] of values) byMonth.set(month, value)
+        return { months: sortMonths(byMonth), invalidLines }
+    }
+
+    const sorted = [...values.entries()].sort(([a], [b]) => a.localeCompare(b))
+    for (let idx = 1; idx < sorted.length; idx++) {
+        const [prevMonth, prev] = sorted[idx - 1]
+        const [month, current] = sorted[idx]
+        // A gap hides the change of the missing months: don't spread it silently
+        if (nextMonthKey(prevMonth) !== month) {
+            invalidLines.push(current.line)
+            continue
+        }
+        byMonth.set(month, (current.value / prev.value - 1) * 100)
+    }
+
+    return { months: sortMonths(byMonth), invalidLines: invalidLines.sort((a, b) => a - b) }
+}
+
+/**
+ * Merges two series; months in `incoming` replace the stored ones.
+ */
+export function mergeCpiMonths(current: CpiMonth[], incoming: CpiMonth[]): CpiMonth[] {
+    const byMonth = new Map(current.map(({ month, pct }) => [month, pct]))
+    for (const { month, pct } of incoming) byMonth.set(month, pct)
+    return sortMonths(byMonth)
+}
+
+// ---------------------------------------------------------------------------
+// Index & deflator
+// ---------------------------------------------------------------------------
+
+/**
+ * CPI index (100 at the start of the first month). Each month's change is
+ * reached on the first day of the next month.
+ */
+export function cpiToIndexPoints(months: CpiMonth[]): CpiIndexPoint[] {
+    if (months.length === 0) return []
+    const sorted = [...months].sort((a, b) => a.month.localeCompare(b.month))
+
+    const points: CpiIndexPoint[] = [{ date: `${sorted[0].month}-01`, value: 100 }]
+    let level = 100
+    for (const { month, pct } of sorted) {
+        level *= 1 + pct / 100
+        points.push({ date: `${nextMonthKey(month)}-01`, value: level })
+    }
+    return points
+}
+
+function dateMs(dateKey: string): number {
+    return new Date(`${dateKey}T00:00:00Z`).getTime()
+}
+
+/**
+ * Index level on a date, clamped to the ends of the series: dates before the
+ * first month carry no inflation, months not yet published carry the last
+ * known level.
+ */
+function levelAt(points: CpiIndexPoint[], dateKey: string): number {
+    if (dateKey <= points[0].date) return points[0].value
+
+    let low = 0
+    let high = points.length - 1
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2)
+        if (points[mid].date <= dateKey) low = mid
+        else high = mid - 1
+    }
+
+    const prev = points[low]
+    const next = points[low + 1]
+    if (!next || prev.date === dateKey) return prev.value
+
+    const span = dateMs(next.date) - dateMs(prev.date)
+    const elapsed = dateMs(dateKey) - dateMs(prev.date)
+    return prev.value * Math.pow(next.value / prev.value, elapsed / span)
+}
+
+/**
+ * Deflator to pesos of `referenceDate` (YYYY-MM-DD), or null without a series.
+ */
+export function createCpiDeflator(months: CpiMonth[], referenceDate: string): CpiDeflator | null {
+    const points = cpiToIndexPoints(months)
+    if (points.length === 0) return null
+
+    const referenceLevel = levelAt(points, referenceDate)
+    return {
+        referenceDate,
+        coveredFrom: points[0].date,
+        coveredTo: points[points.length - 1].date,
+        factorAt: (dateKey: string) => referenceLevel / levelAt(points, dateKey.slice(0, 10)),
+    }
+}
@@ -0,0 +1,3 @@
+export * from './types'
+export * from './cpi'
+export * from './uva'
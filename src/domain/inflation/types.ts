@@ -0,0 +1,42 @@
+export interface CpiMonth {
+    month: string // YYYY-MM
+    pct: number // monthly change, e.g. 2.7 = 2.7%
+}
+
+export interface CpiIndexPoint {
+    date: string // YYYY-MM-DD
+    value: number
+}
+
+export interface CpiParseResult {
+    months: CpiMonth[]
+    /** 1-based line numbers that could not be parsed */
+    invalidLines: number[]
+}
+
+/**
+ * Restates nominal pesos of a past date in pesos of the reference date.
+ */
+export interface CpiDeflator {
+    /** Reference date (YYYY-MM-DD): amounts are expressed in pesos of this day */
+    referenceDate: string
+    /** First and last day covered by the series */
+    coveredFrom: string
+    coveredTo: string
+    /** CPI(reference) / CPI(date); 1 for the reference date itself */
+    factorAt(dateKey: string): number
+}
+
+export interface UvaPoint {
+    date: string // YYYY-MM-DD
+    value: number // ARS per UVA
+}
+
+export interface UvaParseResult {
+    points: UvaPoint[]
+    /** 1-based line numbers that could not be parsed */
+    invalidLines: number[]
+}
+
+/** Latest UVA value published on or before a date, null before the series starts */
+export type UvaLookup = (dateKey: string) => UvaPoint | null
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { createUvaLookup, parseUvaCsv } from './uva'
+
+describe('parseUvaCsv', () => {
+    it('reads a BCRA export with header, decimal commas and day-first dates', () => {
+        const csv = [
+            'Fecha;Valor',
+            '01/01/2026;1.450,25',
+            '02/01/2026;1.451,10',
+            '03/01/2026;n/d',
+        ].join('\n')
+
+        const result = parseUvaCsv(csv)
+        expect(result.points).toEqual([
+            { date: '2026-01-01', value: 1450.25 },
+            { date: '2026-01-02', value: 1451.1 },
+        ])
+        expect(result.invalidLines).toEqual([4])
+    })
+
+    it('reads files without a header row', () => {
+        const result = parseUvaCsv('2026-01-02,1451.1\n2026-01-01,1450.25\n')
+        expect(result.points.map(p => p.date)).toEqual(['2026-01-01', '2026-01-02'])
+        expect(result.invalidLines).toEqual([])
+    })
+})
+
+describe('createUvaLookup', () => {
+    it('carries the last published value forward, never backwards', () => {
+        const lookup = createUvaLookup([
+            { date: '2026-01-01', value: 1450 },
+            { date: '2026-01-05', value: 1460 },
+        ])!
+
+        expect(lookup('2025-12-31')).toBeNull()
+        expect(lookup('2026-01-03')?.value).toBe(1450)
+        expect(lookup('2026-01-05T12:00:00.000Z')?.value).toBe(1460)
+        expect(lookup('2026-03-01')).toEqual({ date: '2026-01-05', value: 1460 })
+        expect(createUvaLookup([])).toBeNull()
+    })
+})
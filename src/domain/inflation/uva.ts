@@ -0,0 +1,115 @@
+/**
+ * UVA series (Unidad de Valor Adquisitivo, BCRA)
+ *
+ * Daily values in ARS, used to adjust the capital of UVA plazos fijos. The
+ * series is imported from the BCRA / datos.gob.ar downloads ("fecha,valor")
+ * and kept on this device. UVA is published for every calendar day, so a
+ * lookup simply carries the last known value forward.
+ */
+
+import type { UvaLookup, UvaParseResult, UvaPoint } from './types'
+
+const CSV_DATE_HEADER = /^(fecha|date|dia|día|indice_tiempo)$/i
+const CSV_VALUE_HEADER = /uva|valor|value|cierre|indice|índice/i
+
+/** "2025-01-31", "2025/01/31" or "31/01/2025" */
+function parseUvaDate(raw: string): string | null {
+    const value = raw.trim()
+    const yearFirst = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ].*)?$/.exec(value)
+    const dayFirst = yearFirst ? null : /^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/.exec(value)
+    const parts = yearFirst
+        ? [yearFirst[1], yearFirst[2], yearFirst[3]]
+        : dayFirst
+            ? [dayFirst[3], dayFirst[2], dayFirst[1]]
+            : null
+    if (!parts) return null
+
+    const [year, month, day] = parts.map(Number)
+    const date = new Date(Date.UTC(year, month - 1, day))
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+    return date.toISOString().slice(0, 10)
+}
+
+/** Accepts "1450.25", "1450,25" and "1.450,25" (thousands dot, decimal comma) */
+function parseUvaNumber(raw: string): number {
+    const value = raw.trim()
+    if (!value) return NaN
+    const normalized = value.includes(',')
+        ? value.replace(/\./g, '').replace(',', '.')
+        : value
+    return Number(normalized)
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+    return line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1').trim())
+}
+
+/**
+ * Parses a UVA CSV: a date column and a value column, with or without a
+ * header row. Later lines win on duplicates.
+ */
+export function parseUvaCsv(text: string): UvaParseResult {
+    const lines = text.split(/\r?\n/)
+    const firstIdx = lines.findIndex((line) => line.trim() && !line.trim().startsWith('#'))
+    if (firstIdx < 0) return { points: [], invalidLines: [] }
+
+    const firstLine = lines[firstIdx]
+    const delimiter = firstLine.includes(';') ? ';' : firstLine.includes('\t') ? '\t' : ','
+    const first = splitCsvLine(firstLine, delimiter)
+    const hasHeader = !parseUvaDate(first[0] ?? '')
+
+    let dateCol = 0
+    let valueCol = 1
+    if (hasHeader) {
+        const foundDateCol = first.findIndex((cell) => CSV_DATE_HEADER.test(cell))
+        dateCol = foundDateCol >= 0 ? foundDateCol : 0
+        const foundValueCol = first.findIndex((cell, idx) => idx !== dateCol && CSV_VALUE_HEADER.test(cell))
+        valueCol = foundValueCol >= 0 ? foundValueCol : (dateCol === 0 ? 1 : 0)
+    }
+
+    const byDate = new Map<string, number>()
+    const invalidLines: number[] = []
+
+    lines.forEach((raw, idx) => {
+        if (idx < firstIdx || (hasHeader && idx === firstIdx)) return
+        const line = raw.trim()
+        if (!line || line.startsWith('#')) return
+
+        const cells = splitCsvLine(line, delimiter)
+        const date = parseUvaDate(cells[dateCol] ?? '')
+        const value = parseUvaNumber(cells[valueCol] ?? '')
+        if (!date || !Number.isFinite(value) || value <= 0) {
+            invalidLines.push(idx + 1)
+            return
+        }
+        byDate.set(date, value)
+    })
+
+    const points = [...byDate.entries()]
+        .map(([date, value]) => ({ date, value }))
+        .sort((a, b) => a.date.localeCompare(b.date))
+    return { points, invalidLines }
+}
+
+/**
+ * Lookup of the UVA value on a date (the last published one when the series
+ * ends before it).
+ */
+export function createUvaLookup(points: UvaPoint[]): UvaLookup | null {
+    if (points.length === 0) return null
+    const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date))
+
+    return (dateKey) => {
+        const key = dateKey.slice(0, 10)
+        if (key < sorted[0].date) return null
+
+        let low = 0
+        let high = sorted.length - 1
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2)
+            if (sorted[mid].date <= key) low = mid
+            else high = mid - 1
+        }
+        return sorted[low]
+    }
+}
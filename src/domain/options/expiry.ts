@@ -0,0 +1,135 @@
+/**
+ * Option expiry.
+ *
+ * Positions still open after their expiry date are closed with a movement at
+ * price zero, so the premium ends up realized. An in-the-money option is
+ * exercised (long) or assigned (short): the underlying trades at the strike
+ * for the same number of units, which moves the cash like any other trade.
+ */
+
+import type { Instrument, Movement, OptionEventMeta, OptionTerms } from '@/domain/types'
+import { computeAverageCost } from '@/domain/portfolio/average-cost'
+import { toLocalDateKey } from '@/lib/dates'
+
+export interface OptionPosition {
+    instrument: Instrument & { option: OptionTerms }
+    accountId: string
+    /** Underlying units, negative when written (short) */
+    quantity: number
+}
+
+/** Value per underlying unit if exercised now */
+export function optionIntrinsicValue(terms: OptionTerms, underlyingPrice: number): number {
+    const diff = terms.optionType === 'call'
+        ? underlyingPrice - terms.strike
+        : terms.strike - underlyingPrice
+    return Math.max(0, diff)
+}
+
+/** Deterministic ids, so retries and other tabs can't process an expiry twice */
+export function optionExpiryId(instrumentId: string, accountId: string, leg: OptionEventMeta['leg']): string {
+    return `option-${leg === 'option' ? 'expiry' : 'exercise'}:${instrumentId}:${accountId}`
+}
+
+/** Open option positions whose expiry date is before `now` */
+export function findExpiredOptionPositions(
+    movements: Movement[],
+    instruments: Instrument[],
+    now: Date = new Date()
+): OptionPosition[] {
+    const todayKey = toLocalDateKey(now.toISOString())
+    const expired = new Map<string, Instrument & { option: OptionTerms }>()
+    for (const instrument of instruments) {
+        if (instrument.category === 'OPTION' && instrument.option && instrument.option.expiry < todayKey) {
+            expired.set(instrument.id, instrument as Instrument & { option: OptionTerms })
+        }
+    }
+    if (expired.size === 0) return []
+
+    const groups = new Map<string, Movement[]>()
+    for (const m of movements) {
+        if (!m.instrumentId || !expired.has(m.instrumentId)) continue
+        const key = `${m.instrumentId}::${m.accountId}`
+        if (!groups.has(key)) groups.set(key, [])
+        groups.get(key)!.push(m)
+    }
+
+    const positions: OptionPosition[] = []
+    for (const [key, group] of groups) {
+        const [instrumentId, accountId] = key.split('::')
+        const { quantity } = computeAverageCost(group)
+        if (quantity === 0) continue
+        positions.push({ instrument: expired.get(instrumentId)!, accountId, quantity })
+    }
+    return positions
+}
+
+/**
+ * Movements that settle an expired position, or null when it can't be decided:
+ * without the underlying price, or in the money with no underlying instrument.
+ */
+export function buildOptionExpiryMovements(
+    position: OptionPosition,
+    underlyingPrice: number | undefined,
+    underlying: Instrument | undefined
+): Movement[] | null {
+    if (underlyingPrice == null || !Number.isFinite(underlyingPrice) || underlyingPrice <= 0) return null
+
+    const { instrument, accountId, quantity } = position
+    const terms = instrument.option
+    const exercised = optionIntrinsicValue(terms, underlyingPrice) > 0
+    if (exercised && !underlying) return null
+
+    const isLong = quantity > 0
+    const units = Math.abs(quantity)
+    const event: OptionEventMeta['event'] = !exercised ? 'expiry' : isLong ? 'exercise' : 'assignment'
+    // End of the trading day of the expiry (18:00 ART)
+    const datetimeISO = `${terms.expiry}T21:00:00.000Z`
+    const label = event === 'expiry' ? 'Vencimiento sin ejercer' : event === 'exercise' ? 'Ejercicio' : 'Asignación'
+
+    const optionLeg: Movement = {
+        id: optionExpiryId(instrument.id, accountId, 'option'),
+        datetimeISO,
+        type: isLong ? 'SELL' : 'BUY',
+        assetClass: 'option',
+        instrumentId: instrument.id,
+        accountId,
+        ticker: instrument.symbol,
+        assetName: instrument.name,
+        quantity: units,
+        unitPrice: 0,
+        tradeCurrency: instrument.nativeCurrency,
+        totalAmount: 0,
+        notes: `${label} ${instrument.symbol}`,
+        isAuto: true,
+        source: 'system',
+        meta: { option: { event, optionInstrumentId: instrument.id, leg: 'option' } },
+    }
+    if (!exercised || !underlying) return [optionLeg]
+
+    // Long call / short put buy the underlying; long put / short call sell it,
+    // going short when the underlying isn't held (naked call, unhedged put)
+    const buysUnderlying = (terms.optionType === 'call') === isLong
+    const underlyingLeg: Movement = {
+        id: optionExpiryId(instrument.id, accountId, 'underlying'),
+        datetimeISO,
+        type: buysUnderlying ? 'BUY' : 'SELL',
+        assetClass: underlying.category === 'CEDEAR' ? 'cedear' : undefined,
+        instrumentId: underlying.id,
+        accountId,
+        ticker: underlying.symbol,
+        assetName: underlying.name,
+        quantity: units,
+        unitPrice: terms.strike,
+        tradeCurrency: instrument.nativeCurrency,
+        totalAmount: units * terms.strike,
+        notes: `${label} ${instrument.symbol} a ${terms.strike}`,
+        isAuto: true,
+        source: 'system',
+        meta: {
+            option: { event, optionInstrumentId: instrument.id, leg: 'underlying' },
+            ...(buysUnderlying ? {} : { short: true }),
+        },
+    }
+    return [optionLeg, underlyingLeg]
+}
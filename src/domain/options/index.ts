@@ -0,0 +1,2 @@
+export * from './ticker'
+export * from './expiry'
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+import type { FxRates, Instrument, Movement } from '@/domain/types'
+import { buildFifoLots } from '@/domain/portfolio/fifo'
+import { computeAverageCost } from '@/domain/portfolio/average-cost'
+import { computeRealizedPnL } from '@/domain/portfolio/computePnL'
+import { parseBymaOptionTicker, thirdFridayKey } from './ticker'
+import { buildOptionExpiryMovements, findExpiredOptionPositions, optionExpiryId } from './expiry'
+
+const FX = {} as FxRates
+
+const GGAL: Instrument = {
+    id: 'ggal',
+    symbol: 'GGAL',
+    name: 'Grupo Galicia',
+    category: 'STOCK',
+    nativeCurrency: 'ARS',
+    priceKey: 'ggal',
+}
+
+const CALL: Instrument = {
+    id: 'gfgc5000di',
+    symbol: 'GFGC5000DI',
+    name: 'GGAL call 5000 DI',
+    category: 'OPTION',
+    nativeCurrency: 'ARS',
+    priceKey: 'gfgc5000di',
+    option: { optionType: 'call', underlyingSymbol: 'GGAL', underlyingInstrumentId: 'ggal', strike: 5000, expiry: '2026-12-18', lotSize: 100 },
+}
+
+let seq = 0
+function trade(type: 'BUY' | 'SELL', quantity: number, unitPrice: number, day: string, instrumentId = CALL.id): Movement {
+    return {
+        id: `m${++seq}`,
+        datetimeISO: `${day}T14:00:00.000Z`,
+        type,
+        instrumentId,
+        accountId: 'iol',
+        quantity,
+        unitPrice,
+        tradeCurrency: 'ARS',
+        totalAmount: quantity * unitPrice,
+        ...(instrumentId === CALL.id ? { assetClass: 'option' as const } : {}),
+    }
+}
+
+describe('parseBymaOptionTicker', () => {
+    it('reads underlying, side, strike and the next expiry', () => {
+        expect(thirdFridayKey(2026, 12)).toBe('2026-12-18')
+        expect(parseBymaOptionTicker('GFGC5000DI', '2026-10-18')).toEqual({
+            optionType: 'call',
+            underlyingSymbol: 'GGAL',
+            strike: 5000,
+            expiry: '2026-12-18',
+            lotSize: 100,
+        })
+        expect(parseBymaOptionTicker('gfgv4200oc', '2026-10-18')).toMatchObject({ optionType: 'put', strike: 4200, expiry: '2027-10-15' })
+        expect(parseBymaOptionTicker('GGAL', '2026-10-18')).toBeNull()
+    })
+})
+
+describe('short positions', () => {
+    it('opens a short lot when a SELL exceeds the position and covers it on BUY', () => {
+        const lots = buildFifoLots([
+            trade('BUY', 100, 50, '2026-10-01'),
+            trade('SELL', 300, 80, '2026-10-02'),
+            trade('BUY', 50, 60, '2026-10-03'),
+        ])
+        expect(lots.lots).toHaveLength(1)
+        expect(lots.lots[0].quantity).toBe(-150)
+        expect(lots.lots[0].unitCostNative).toBe(80)
+        expect(lots.totalQuantity).toBe(-150)
+
+        const avg = computeAverageCost([
+            trade('SELL', 200, 80, '2026-10-02'),
+            trade('BUY', 50, 60, '2026-10-03'),
+        ])
+        expect(avg.quantity).toBe(-150)
+        expect(avg.costBasisArs).toBeCloseTo(-12_000)
+        expect(avg.avgCostArs).toBeCloseTo(80)
+    })
+
+    it('caps an oversell at zero unless the instrument can be shorted', () => {
+        const oversell = [
+            trade('BUY', 100, 50, '2026-10-01', GGAL.id),
+            trade('SELL', 300, 80, '2026-10-02', GGAL.id),
+        ]
+        expect(buildFifoLots(oversell).totalQuantity).toBe(0)
+        expect(computeAverageCost(oversell)).toMatchObject({ quantity: 0, costBasisArs: 0 })
+        expect(computeRealizedPnL(oversell, FX).realizedArs).toBeCloseTo(3_000)
+
+        // A later buy starts a fresh long position instead of covering anything
+        const avg = computeAverageCost([...oversell, trade('BUY', 10, 60, '2026-10-03', GGAL.id)])
+        expect(avg.quantity).toBe(10)
+        expect(avg.avgCostArs).toBeCloseTo(60)
+
+        // The same sell flagged as a short sale does go negative
+        const flagged = { ...oversell[1], meta: { short: true } }
+        expect(computeAverageCost([oversell[0], flagged]).quantity).toBe(-200)
+    })
+
+    it('realizes the premium of a written call that expires worthless', () => {
+        const writeCall = trade('SELL', 100, 120, '2026-12-01')
+        const [position] = findExpiredOptionPositions([writeCall], [CALL, GGAL], new Date('2026-12-21T12:00:00.000Z'))
+        expect(position.quantity).toBe(-100)
+
+        const legs = buildOptionExpiryMovements(position, 4800, GGAL)!
+        expect(legs).toHaveLength(1)
+        expect(legs[0]).toMatchObject({ id: optionExpiryId(CALL.id, 'iol', 'option'), type: 'BUY', unitPrice: 0 })
+
+        const pnl = computeRealizedPnL([writeCall, ...legs], FX)
+        expect(pnl.realizedArs).toBeCloseTo(12_000)
+        expect(computeAverageCost([writeCall, ...legs]).quantity).toBe(0)
+    })
+
+    it('delivers the underlying at the strike when an in-the-money call is assigned', () => {
+        const writeCall = trade('SELL', 100, 120, '2026-12-01')
+        const [position] = findExpiredOptionPositions([writeCall], [CALL, GGAL], new Date('2026-12-21T12:00:00.000Z'))
+        const legs = buildOptionExpiryMovements(position, 5300, GGAL)!
+
+        expect(legs.map(l => [l.type, l.instrumentId, l.quantity, l.unitPrice])).toEqual([
+            ['BUY', CALL.id, 100, 0],
+            ['SELL', GGAL.id, 100, 5000],
+        ])
+        expect(legs[1].meta?.option).toEqual({ event: 'assignment', optionInstrumentId: CALL.id, leg: 'underlying' })
+        // A naked call assignment leaves the account short the underlying
+        expect(computeAverageCost([legs[1]]).quantity).toBe(-100)
+        expect(buildOptionExpiryMovements(position, 5300, undefined)).toBeNull()
+        expect(buildOptionExpiryMovements(position, undefined, GGAL)).toBeNull()
+    })
+})
@@ -0,0 +1,77 @@
+/**
+ * BYMA option tickers: underlying code (3 letters), C (call) or V (put),
+ * strike and month code, e.g. GFGC4700DI = GGAL call, strike 4700, December.
+ * Options expire on the third Friday of the month.
+ */
+
+import type { OptionTerms } from '@/domain/types'
+
+/** Underlying units per contract on BYMA */
+export const BYMA_OPTION_LOT_SIZE = 100
+
+/** Option code -> underlying ticker, for the series with listed options */
+const BYMA_UNDERLYINGS: Record<string, string> = {
+    GFG: 'GGAL',
+    YPF: 'YPFD',
+    PAM: 'PAMP',
+    ALU: 'ALUA',
+    COM: 'COME',
+    TXA: 'TXAR',
+    BMA: 'BMA',
+    SUP: 'SUPV',
+    TEC: 'TECO2',
+    CRE: 'CRES',
+    EDN: 'EDN',
+    MIR: 'MIRG',
+    TGS: 'TGSU2',
+    BBA: 'BBAR',
+    CEP: 'CEPU',
+    LOM: 'LOMA',
+    BYM: 'BYMA',
+    TRA: 'TRAN',
+    VAL: 'VALO',
+}
+
+const MONTH_CODES: Record<string, number> = {
+    EN: 1, FE: 2, MR: 3, AB: 4, MY: 5, JU: 6,
+    JL: 7, AG: 8, SE: 9, OC: 10, NO: 11, DI: 12,
+}
+
+const TICKER_PATTERN = /^([A-Z]{3})([CV])(\d+(?:[.,]\d+)?)([A-Z]{2})$/
+
+/** Third Friday of a month (1-12), as YYYY-MM-DD */
+export function thirdFridayKey(year: number, month: number): string {
+    const firstDow = new Date(Date.UTC(year, month - 1, 1)).getUTCDay()
+    const firstFriday = 1 + ((5 - firstDow + 7) % 7)
+    return new Date(Date.UTC(year, month - 1, firstFriday + 14)).toISOString().slice(0, 10)
+}
+
+/**
+ * Terms from a BYMA ticker, or null if it doesn't look like one. The ticker
+ * carries no year: the expiry is the first one on or after `asOfDateKey`.
+ */
+export function parseBymaOptionTicker(
+    ticker: string,
+    asOfDateKey: string = new Date().toISOString().slice(0, 10)
+): OptionTerms | null {
+    const match = TICKER_PATTERN.exec(ticker.trim().toUpperCase())
+    if (!match) return null
+
+    const [, code, side, strikeRaw, monthCode] = match
+    const underlyingSymbol = BYMA_UNDERLYINGS[code]
+    const month = MONTH_CODES[monthCode]
+    const strike = parseFloat(strikeRaw.replace(',', '.'))
+    if (!underlyingSymbol || !month || !(strike > 0)) return null
+
+    const asOfYear = Number(asOfDateKey.slice(0, 4))
+    let expiry = thirdFridayKey(asOfYear, month)
+    if (expiry < asOfDateKey) expiry = thirdFridayKey(asOfYear + 1, month)
+
+    return {
+        optionType: side === 'C' ? 'call' : 'put',
+        underlyingSymbol,
+        strike,
+        expiry,
+        lotSize: BYMA_OPTION_LOT_SIZE,
+    }
+}
@@ -0,0 +1,11 @@
+export {
+    parseStatement,
+    parseStatementText,
+    detectStatementParser,
+    registerStatementParser,
+    getStatementParsers,
+} from './statementParsers'
+export type { StatementParser } from './statementParsers'
+export { parseStatementLines } from './parseStatementLines'
+export type { CardNetwork, ParsedStatement, StatementLayout } from './parseStatementLines'
+export { parseVisaStatement } from './parseVisaStatement'
@@ -0,0 +1,387 @@
+/**
+ * Generic credit card statement engine.
+ *
+ * Argentine issuers (Prisma/Visa, First Data/Mastercard, Amex) share the same
+ * statement skeleton: a summary block (cierre, vencimiento, saldos), a
+ * movement table headed by FECHA + DETALLE/DESCRIPCION with PESOS / DOLARES
+ * columns, per-cardholder subtotals and a footer with SALDO ACTUAL.
+ * Network specifics (keywords, table markers) live in a `StatementLayout`.
+ */
+
+export type CardNetwork = 'VISA' | 'MASTERCARD' | 'AMEX' | 'UNKNOWN'
+
+export type ParsedStatement = {
+    meta: {
+        issuer?: CardNetwork
+        bank?: string
+        parserId?: string
+        last4?: string
+        periodClose?: string
+        dueDate?: string
+        previousBalance?: number
+        totalPurchases?: number
+        totalPurchasesUsd?: number
+        currentBalance?: number
+        currentBalanceUsd?: number
+        minimumPayment?: number
+        currency: 'ARS' | 'USD'
+    }
+    purchases: Array<{
+        date: string
+        description: string
+        voucher?: string
+        amount: number
+        currency: 'ARS' | 'USD'
+        installments?: { current: number; total: number } | null
+        confidence: 'high' | 'medium' | 'low'
+        raw: string
+    }>
+    otherMovements: Array<{
+        type: 'PAYMENT' | 'FEE' | 'TAX' | 'OTHER'
+        description: string
+        date?: string
+        amount: number
+        currency: 'ARS' | 'USD'
+        confidence: 'high' | 'medium' | 'low'
+        raw: string
+    }>
+    validation: {
+        purchasesSum: number
+        purchasesSumUsd: number
+        matchesTotalPurchases?: boolean
+        computedBalance: number
+        matchesCurrentBalance?: boolean
+        diffPurchases?: number
+        diffBalance?: number
+        warnings: string[]
+    }
+}
+
+export interface StatementLayout {
+    network: CardNetwork
+    /** Upper-cased line is the movement table header */
+    isTableHeader: (upper: string) => boolean
+    /** Upper-cased markers that close the movement table */
+    tableEnd: string[]
+}
+
+type MovementType = ParsedStatement['otherMovements'][number]['type']
+
+const MONTHS: Record<string, number> = {
+    ene: 1,
+    jan: 1,
+    feb: 2,
+    mar: 3,
+    abr: 4,
+    apr: 4,
+    may: 5,
+    jun: 6,
+    jul: 7,
+    ago: 8,
+    aug: 8,
+    sep: 9,
+    set: 9,
+    oct: 10,
+    nov: 11,
+    dic: 12,
+    dec: 12,
+}
+
+const BANKS: Array<{ name: string; keywords: string[] }> = [
+    { name: 'Santander', keywords: ['SANTANDER'] },
+    { name: 'Galicia', keywords: ['GALICIA'] },
+    { name: 'BBVA', keywords: ['BBVA', 'BANCO FRANCES'] },
+    { name: 'Macro', keywords: ['BANCO MACRO', 'MACRO S.A'] },
+    { name: 'Banco Nación', keywords: ['BANCO DE LA NACION', 'BANCO NACION', 'DEL BNA'] },
+    { name: 'ICBC', keywords: ['ICBC'] },
+    { name: 'HSBC', keywords: ['HSBC'] },
+    { name: 'Supervielle', keywords: ['SUPERVIELLE'] },
+    { name: 'Credicoop', keywords: ['CREDICOOP'] },
+    { name: 'Patagonia', keywords: ['BANCO PATAGONIA'] },
+    { name: 'Banco Ciudad', keywords: ['BANCO CIUDAD'] },
+    { name: 'Banco Provincia', keywords: ['BANCO PROVINCIA', 'BAPRO'] },
+]
+
+// Order matters: "IVA COM ADM" is a tax, "COM ADM" alone is a fee
+const OTHER_MOVEMENT_RULES: Array<{ type: MovementType; pattern: RegExp }> = [
+    { type: 'PAYMENT', pattern: /\bSU PAGO\b|\bPAGO EN (PESOS|DOLARES|USD)\b/ },
+    { type: 'TAX', pattern: /\bIVA\b|\bIMPUESTO|\bIMP\.|\bSELLOS\b|\bPERCEP|\bRG\s?\d{4}|\bIIBB\b|\bING\.? ?BRUTOS\b/ },
+    { type: 'FEE', pattern: /\bCOMISION\b|\bCOM\.? ADM|\bCARGO POR\b|\bINTERES(ES)?\b|\bPUNITORIO|\bRENOVACION\b|\bMANTENIMIENTO\b/ },
+]
+
+// Amounts use es-AR format; payments/credits carry a leading or trailing minus
+const AMOUNT_REGEX = /-?\d+(?:\.\d{3})*,\d{2}-?/g
+const USD_MARKER = /(^|\s)(USD|U\$S|US\$)(\s|$)/
+const INSTALLMENT_PATTERNS = [
+    /\bC(?:UOTA|TA)?\.?\s*(\d{1,2})\/(\d{1,2})\b/i,
+    /\b(\d{1,2})\/(\d{1,2})\b/,
+]
+
+export function parseAmount(value: string): number {
+    const negative = value.startsWith('-') || value.endsWith('-')
+    const normalized = value.replace(/-/g, '').replace(/\./g, '').replace(',', '.')
+    const amount = Number(normalized)
+    return negative ? -amount : amount
+}
+
+function toISODate(year: number, month: number, day: number): string | undefined {
+    if (!month || month > 12 || !day || day > 31) return undefined
+    return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10)
+}
+
+function fullYear(value: string): number {
+    const year = Number(value)
+    return value.length === 2 ? 2000 + year : year
+}
+
+/**
+ * Movement date at the start of a line: 31.12.25, 31/12/25, 31-Dic-25 or 31 Dic 25.
+ */
+export function parseMovementDate(line: string): { dateISO: string; token: string } | undefined {
+    const numeric = line.match(/^(\d{2})[./](\d{2})[./](\d{2}|\d{4})\b/)
+    if (numeric) {
+        const dateISO = toISODate(fullYear(numeric[3]), Number(numeric[2]), Number(numeric[1]))
+        return dateISO ? { dateISO, token: numeric[0] } : undefined
+    }
+    const named = line.match(/^(\d{1,2})[-\s]([A-Za-z]{3})[-\s](\d{2})\b/)
+    if (named) {
+        const dateISO = toISODate(fullYear(named[3]), MONTHS[named[2].toLowerCase()], Number(named[1]))
+        return dateISO ? { dateISO, token: named[0] } : undefined
+    }
+    return undefined
+}
+
+/**
+ * Summary date anywhere in a line: "31 Dic 25" / "31-Dic-25".
+ */
+export function parseShortDate(text: string): string | undefined {
+    const match = text.match(/\b(\d{1,2})[-\s]([A-Za-z]{3})[-\s](\d{2})\b/)
+    if (!match) return undefined
+    const month = MONTHS[match[2].toLowerCase()]
+    if (!month) return undefined
+    return toISODate(fullYear(match[3]), month, Number(match[1]))
+}
+
+export function detectBank(upperLines: string[]): string | undefined {
+    for (const bank of BANKS) {
+        if (upperLines.some(line => bank.keywords.some(keyword => line.includes(keyword)))) {
+            return bank.name
+        }
+    }
+    return undefined
+}
+
+function normalizeDescription(value: string): string {
+    return value.replace(/\s+/g, ' ').trim()
+}
+
+function extractInstallments(description: string): {
+    description: string
+    installments: { current: number; total: number } | null
+} {
+    for (const pattern of INSTALLMENT_PATTERNS) {
+        const match = description.match(pattern)
+        if (!match) continue
+        const current = Number(match[1])
+        const total = Number(match[2])
+        if (current < 1 || total < 2 || current > total) continue
+        return {
+            description: normalizeDescription(description.replace(match[0], '')),
+            installments: { current, total },
+        }
+    }
+    return { description, installments: null }
+}
+
+function classifyMovement(upper: string, amount: number): MovementType | undefined {
+    const rule = OTHER_MOVEMENT_RULES.find(r => r.pattern.test(upper))
+    if (rule) return rule.type
+    // Refunds / credits
+    return amount < 0 ? 'OTHER' : undefined
+}
+
+function firstAmounts(line: string): number[] {
+    return (line.match(AMOUNT_REGEX) ?? []).map(parseAmount)
+}
+
+export function parseStatementLines(lines: string[], layout: StatementLayout): ParsedStatement {
+    const upperLines = lines.map(line => line.toUpperCase())
+
+    let last4: string | undefined
+    let periodClose: string | undefined
+    let dueDate: string | undefined
+    let currentBalance: number | undefined
+    let currentBalanceUsd: number | undefined
+    let minimumPayment: number | undefined
+
+    for (let i = 0; i < lines.length; i += 1) {
+        const line = lines[i]
+        const upper = upperLines[i]
+        const isPastOrNext = upper.includes('ANTERIOR') || upper.includes('ANT.') || upper.includes('PROXIMO')
+
+        if (!last4 && upper.includes('TARJ')) {
+            const match = upper.match(/\b(\d{4})\b/)
+            if (match) last4 = match[1]
+        }
+
+        // Labels may share a line ("CIERRE 28-Nov-25 VENCIMIENTO 10-Dic-25"): read after the label
+        if (!periodClose && upper.includes('CIERRE') && !isPastOrNext) {
+            periodClose = parseShortDate(line.slice(upper.indexOf('CIERRE')))
+        }
+
+        // Due date sometimes sits on the row below its label (column layout)
+        if (!dueDate && upper.includes('VENC') && !isPastOrNext) {
+            dueDate = parseShortDate(line.slice(upper.indexOf('VENC')))
+                ?? (lines[i + 1] ? parseShortDate(lines[i + 1]) : undefined)
+        }
+
+        if (currentBalance === undefined && upper.includes('SALDO') && upper.includes('ACTUAL')) {
+            const amounts = firstAmounts(line)
+            if (amounts.length > 0) {
+                currentBalance = amounts[0]
+                currentBalanceUsd = amounts[1]
+            }
+        }
+
+        if (minimumPayment === undefined && upper.includes('PAGO') && upper.includes('MIN') && !isPastOrNext) {
+            const amounts = firstAmounts(line)
+            if (amounts.length > 0) minimumPayment = amounts[0]
+        }
+    }
+
+    const headerIndex = upperLines.findIndex(layout.isTableHeader)
+
+    const purchases: ParsedStatement['purchases'] = []
+    const otherMovements: ParsedStatement['otherMovements'] = []
+    let previousBalance: number | undefined
+    let totalPurchases: number | undefined
+    let totalPurchasesUsd: number | undefined
+
+    if (headerIndex >= 0) {
+        for (let i = headerIndex + 1; i < lines.length; i += 1) {
+            const rawLine = lines[i]
+            const upper = upperLines[i]
+            if (layout.tableEnd.some(marker => upper.includes(marker))) break
+
+            if (upper.includes('SALDO ANTERIOR')) {
+                previousBalance = firstAmounts(rawLine)[0] ?? previousBalance
+                continue
+            }
+
+            // Per-cardholder subtotals ("Tarjeta 1234 Total Consumos de ...  ARS  USD")
+            if (upper.includes('TOTAL')) {
+                if (upper.includes('CONSUM')) {
+                    const [ars, usd] = firstAmounts(rawLine)
+                    if (ars !== undefined) totalPurchases = (totalPurchases ?? 0) + ars
+                    if (usd !== undefined) totalPurchasesUsd = (totalPurchasesUsd ?? 0) + usd
+                }
+                continue
+            }
+
+            const date = parseMovementDate(rawLine)
+            if (!date) continue
+
+            const amountTokens = rawLine.match(AMOUNT_REGEX)
+            if (!amountTokens || amountTokens.length === 0) continue
+            const amountToken = amountTokens[amountTokens.length - 1]
+            const amount = parseAmount(amountToken)
+            const currency: 'ARS' | 'USD' = USD_MARKER.test(upper) ? 'USD' : 'ARS'
+
+            // Strip date, trailing amount (and the original-currency amount for USD lines)
+            let rest = rawLine.slice(date.token.length)
+            const amountIndex = rest.lastIndexOf(amountToken)
+            if (amountIndex >= 0) rest = rest.slice(0, amountIndex)
+            rest = rest.replace(/(^|\s)(USD|U\$S|US\$)\s+-?\d+(?:\.\d{3})*,\d{2}-?/i, ' ')
+
+            const tokens = rest.trim().split(/\s+/).filter(Boolean)
+            let voucher: string | undefined
+            if (tokens.length > 1 && /^\d{3,}[A-Z*]?$/i.test(tokens[0])) {
+                voucher = tokens.shift()
+            }
+
+            const { description, installments } = extractInstallments(normalizeDescription(tokens.join(' ')))
+
+            const confidence: 'high' | 'medium' | 'low' =
+                description.length > 4 ? 'high' : description.length > 0 ? 'medium' : 'low'
+
+            const movementType = classifyMovement(upper, amount)
+            if (movementType) {
+                otherMovements.push({
+                    type: movementType,
+                    description: description || rawLine,
+                    date: date.dateISO,
+                    amount: movementType === 'PAYMENT' ? -Math.abs(amount) : amount,
+                    currency,
+                    confidence,
+                    raw: rawLine,
+                })
+                continue
+            }
+
+            purchases.push({
+                date: date.dateISO,
+                description: description || rawLine,
+                voucher,
+                amount: Math.abs(amount),
+                currency,
+                installments,
+                confidence,
+                raw: rawLine,
+            })
+        }
+    }
+
+    const sumBy = <T extends { amount: number; currency: 'ARS' | 'USD' }>(items: T[], currency: 'ARS' | 'USD') =>
+        items.filter(item => item.currency === currency).reduce((sum, item) => sum + item.amount, 0)
+
+    const purchasesSum = sumBy(purchases, 'ARS')
+    const purchasesSumUsd = sumBy(purchases, 'USD')
+    const computedBalance = (previousBalance ?? 0) + purchasesSum + sumBy(otherMovements, 'ARS')
+    const diffPurchases = totalPurchases !== undefined ? Math.abs(purchasesSum - totalPurchases) : undefined
+    const diffBalance = currentBalance !== undefined ? Math.abs(computedBalance - currentBalance) : undefined
+    const matchesTotalPurchases = diffPurchases !== undefined ? diffPurchases <= 1 : undefined
+    const matchesCurrentBalance = diffBalance !== undefined ? diffBalance <= 1 : undefined
+
+    const warnings: string[] = []
+    if (totalPurchases !== undefined && matchesTotalPurchases === false) {
+        warnings.push('La suma de consumos no coincide con el total de consumos.')
+    }
+    if (totalPurchasesUsd !== undefined && Math.abs(purchasesSumUsd - totalPurchasesUsd) > 0.01) {
+        warnings.push('La suma de consumos en USD no coincide con el total en dólares.')
+    }
+    if (currentBalance !== undefined && matchesCurrentBalance === false) {
+        warnings.push('El saldo calculado no coincide con el saldo actual.')
+    }
+    if (headerIndex < 0) {
+        warnings.push('No se detectó la tabla de consumos.')
+    }
+
+    return {
+        meta: {
+            issuer: layout.network,
+            bank: detectBank(upperLines),
+            last4,
+            periodClose,
+            dueDate,
+            previousBalance,
+            totalPurchases,
+            totalPurchasesUsd,
+            currentBalance,
+            currentBalanceUsd,
+            minimumPayment,
+            currency: 'ARS',
+        },
+        purchases,
+        otherMovements,
+        validation: {
+            purchasesSum,
+            purchasesSumUsd,
+            matchesTotalPurchases,
+            computedBalance,
+            matchesCurrentBalance,
+            diffPurchases,
+            diffBalance,
+            warnings,
+        },
+    }
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import { detectStatementParser, parseStatementText, registerStatementParser, getStatementParsers } from './statementParsers'
+import { parseMovementDate, parseAmount } from './parseStatementLines'
+
+// Lines as produced by extractTextFromPdf for docs/samples/resumen_cuenta_visa_Dec_2025.pdf (trimmed)
+const VISA_LINES = [
+    'VISA CLASSIC PAGINA: 1/ 2',
+    'TITULAR DE CUENTA: PEREZ JUAN',
+    'PEREZ JUAN CIERRE ACTUAL: 31 Dic 25',
+    'SANTA FE 123 VENCIMIENTO SALDO $ SALDO U$S PAGO MIN.$ PAGO MIN.U$S',
+    '3440 PROV CORRIENTES 13 Ene 26 87.025,12 12,99 32.468,00 -,--',
+    'CIERRE ANTERIOR PAGO MIN. ANT. $ PROXIMO VTO.',
+    '27 Nov 25 26218,00 11 Feb 26',
+    'FECHA COMPROBANTE DETALLE DE TRANSACCION PESOS DOLARES',
+    'SALDO ANTERIOR 190.171,67 0,00',
+    '09.12.25 SU PAGO EN PESOS 190.171,67- _',
+    '03.01.25 000548K SHOWSPORT Cuota 12/12 15.566,50',
+    '01.12.25 154976K FARMACIA FARMAR GOYA 11.413,78',
+    '09.12.25 009227* PAYU*AR*UBER 2.210,00',
+    '15.12.25 512345* NETFLIX.COM USD 12,99 12,99',
+    'Tarjeta 3123 Total Consumos de JUAN PEREZ 29.190,28 12,99 _',
+    '10.12.25 002233K LIBRERIA SANTA FE 50.000,00',
+    'Tarjeta 4455 Total Consumos de ANA PEREZ 50.000,00 0,00 _',
+    '31.12.25 DB IVA $ 21% 6.612,00 1.388,52',
+    '31.12.25 COM ADM DE CUENTA 6.612,00',
+    '31.12.25 DB.RG 5617 30% 150,00',
+    'SALDO ACTUAL $ 87.340,80 U$S 12,99',
+    'PAGO MINIMO $ 32.468,00',
+    'Plan V: abonando el pago mínimo de $ 32468,00 usted puede cancelar en cuotas',
+    '24.12.25 000001 NO ES UN CONSUMO 1.000,00',
+    'Centro de Servicios Visa: (011)4379-3400. Préstamo Nación Efectivo del BNA.',
+]
+
+const MASTERCARD_LINES = [
+    'Resumen de cuenta MASTERCARD Banco Galicia',
+    'CIERRE 28-Nov-25 VENCIMIENTO 10-Dic-25',
+    'FECHA NRO. CUPON DETALLE PESOS DOLARES',
+    '02-Nov-25 003311 MERCADOLIBRE C.02/06 8.500,00',
+    '14-Nov-25 PAGO EN USD 5,00-',
+    '20-Nov-25 004567 SPOTIFY USD 4,99 4,99',
+    '21-Nov-25 INTERESES FINANCIACION 1.200,00',
+    'SALDO ACTUAL $ 9.700,00 U$S 0,00',
+]
+
+describe('detectStatementParser', () => {
+    it('picks the network with the most keyword hits', () => {
+        expect(detectStatementParser(VISA_LINES)?.id).toBe('visa')
+        expect(detectStatementParser(MASTERCARD_LINES)?.id).toBe('mastercard')
+        expect(detectStatementParser(['AMERICAN EXPRESS', 'FECHA DESCRIPCION PESOS DOLARES'])?.id).toBe('amex')
+        expect(detectStatementParser(['Resumen', 'FECHA DETALLE'])).toBeUndefined()
+    })
+})
+
+describe('parseStatementText (Visa)', () => {
+    const parsed = parseStatementText(VISA_LINES)
+
+    it('reads summary metadata', () => {
+        expect(parsed.meta.issuer).toBe('VISA')
+        expect(parsed.meta.parserId).toBe('visa')
+        expect(parsed.meta.bank).toBe('Banco Nación')
+        expect(parsed.meta.last4).toBe('3123')
+        expect(parsed.meta.periodClose).toBe('2025-12-31')
+        expect(parsed.meta.dueDate).toBe('2026-01-13')
+        expect(parsed.meta.previousBalance).toBeCloseTo(190171.67, 2)
+        expect(parsed.meta.currentBalance).toBeCloseTo(87340.8, 2)
+        expect(parsed.meta.currentBalanceUsd).toBeCloseTo(12.99, 2)
+        expect(parsed.meta.minimumPayment).toBeCloseTo(32468, 2)
+    })
+
+    it('keeps parsing past per-cardholder subtotals and stops at the footer', () => {
+        expect(parsed.purchases.map(p => p.description)).toEqual([
+            'SHOWSPORT',
+            'FARMACIA FARMAR GOYA',
+            'PAYU*AR*UBER',
+            'NETFLIX.COM',
+            'LIBRERIA SANTA FE',
+        ])
+        expect(parsed.meta.totalPurchases).toBeCloseTo(79190.28, 2)
+        expect(parsed.meta.totalPurchasesUsd).toBeCloseTo(12.99, 2)
+    })
+
+    it('extracts installments, vouchers and USD lines', () => {
+        const [showsport, , uber, netflix] = parsed.purchases
+        expect(showsport.installments).toEqual({ current: 12, total: 12 })
+        expect(showsport.voucher).toBe('000548K')
+        expect(showsport.date).toBe('2025-01-03')
+        expect(uber.voucher).toBe('009227*')
+        expect(netflix.currency).toBe('USD')
+        expect(netflix.amount).toBeCloseTo(12.99, 2)
+    })
+
+    it('classifies payments, fees and taxes', () => {
+        expect(parsed.otherMovements.map(m => [m.type, m.amount])).toEqual([
+            ['PAYMENT', -190171.67],
+            ['TAX', 1388.52],
+            ['FEE', 6612],
+            ['TAX', 150],
+        ])
+    })
+
+    it('reconciles totals and balance', () => {
+        expect(parsed.validation.matchesTotalPurchases).toBe(true)
+        expect(parsed.validation.matchesCurrentBalance).toBe(true)
+        expect(parsed.validation.warnings).toEqual([])
+    })
+})
+
+describe('parseStatementText (Mastercard)', () => {
+    const parsed = parseStatementText(MASTERCARD_LINES)
+
+    it('parses First Data dates, cuotas and USD payments', () => {
+        expect(parsed.meta.issuer).toBe('MASTERCARD')
+        expect(parsed.meta.bank).toBe('Galicia')
+        expect(parsed.meta.periodClose).toBe('2025-11-28')
+        expect(parsed.meta.dueDate).toBe('2025-12-10')
+
+        const [meli, spotify] = parsed.purchases
+        expect(meli.date).toBe('2025-11-02')
+        expect(meli.description).toBe('MERCADOLIBRE')
+        expect(meli.installments).toEqual({ current: 2, total: 6 })
+        expect(spotify.currency).toBe('USD')
+
+        expect(parsed.otherMovements).toEqual([
+            expect.objectContaining({ type: 'PAYMENT', currency: 'USD', amount: -5 }),
+            expect.objectContaining({ type: 'FEE', currency: 'ARS', amount: 1200 }),
+        ])
+    })
+})
+
+describe('registerStatementParser', () => {
+    it('lets a custom parser take over detection', () => {
+        const visa = getStatementParsers().find(p => p.id === 'visa')!
+        registerStatementParser({ ...visa, id: 'custom-visa', detect: () => 100 })
+        expect(detectStatementParser(VISA_LINES)?.id).toBe('custom-visa')
+    })
+})
+
+describe('helpers', () => {
+    it('parses signed es-AR amounts and movement dates', () => {
+        expect(parseAmount('190.171,67-')).toBeCloseTo(-190171.67, 2)
+        expect(parseAmount('26218,00')).toBe(26218)
+        expect(parseMovementDate('31/12/25 AMAZON')?.dateISO).toBe('2025-12-31')
+        expect(parseMovementDate('5 Ene 26 AMAZON')?.dateISO).toBe('2026-01-05')
+        expect(parseMovementDate('AMAZON 31.12.25')).toBeUndefined()
+    })
+})
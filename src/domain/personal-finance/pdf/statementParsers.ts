@@ -0,0 +1,106 @@
+import { extractTextFromPdf } from '@/lib/pdf/extractTextFromPdf'
+import { parseStatementLines, type CardNetwork, type ParsedStatement, type StatementLayout } from './parseStatementLines'
+
+/**
+ * Pluggable statement parser. `detect` returns a score (0 = not this layout);
+ * the highest scoring parser wins.
+ */
+export interface StatementParser {
+    id: string
+    label: string
+    network: CardNetwork
+    detect: (upperLines: string[]) => number
+    parse: (lines: string[]) => ParsedStatement
+}
+
+function countMatches(upperLines: string[], keywords: string[]): number {
+    return upperLines.filter(line => keywords.some(keyword => line.includes(keyword))).length
+}
+
+function createLayoutParser(
+    id: string,
+    label: string,
+    keywords: string[],
+    layout: StatementLayout
+): StatementParser {
+    return {
+        id,
+        label,
+        network: layout.network,
+        detect: upperLines => countMatches(upperLines, keywords),
+        parse: lines => {
+            const parsed = parseStatementLines(lines, layout)
+            return { ...parsed, meta: { ...parsed.meta, parserId: id } }
+        },
+    }
+}
+
+// Prisma (Visa): "FECHA COMPROBANTE DETALLE DE TRANSACCION PESOS DOLARES", dates 31.12.25
+const VISA_LAYOUT: StatementLayout = {
+    network: 'VISA',
+    isTableHeader: upper => upper.includes('FECHA') && upper.includes('DETALLE'),
+    tableEnd: ['SALDO ACTUAL', 'PAGO MINIMO', 'PLAN V:'],
+}
+
+// First Data (Mastercard): "FECHA NRO. CUPON DETALLE PESOS DOLARES", dates 31-Dic-25
+const MASTERCARD_LAYOUT: StatementLayout = {
+    network: 'MASTERCARD',
+    isTableHeader: upper => upper.includes('FECHA') && (upper.includes('DETALLE') || upper.includes('CUPON')),
+    tableEnd: ['SALDO ACTUAL', 'SALDO A PAGAR', 'PAGO MINIMO'],
+}
+
+// American Express: "FECHA DESCRIPCION ... PESOS DOLARES", dates 31/12/25 or 31 Dic 25
+const AMEX_LAYOUT: StatementLayout = {
+    network: 'AMEX',
+    isTableHeader: upper => upper.includes('FECHA') && (upper.includes('DESCRIPCION') || upper.includes('DETALLE')),
+    tableEnd: ['SALDO ACTUAL', 'SALDO A PAGAR', 'PAGO MINIMO'],
+}
+
+const parsers: StatementParser[] = [
+    createLayoutParser('visa', 'Visa', ['VISA'], VISA_LAYOUT),
+    createLayoutParser('mastercard', 'Mastercard', ['MASTERCARD', 'MASTER CARD'], MASTERCARD_LAYOUT),
+    createLayoutParser('amex', 'American Express', ['AMERICAN EXPRESS', 'AMEX'], AMEX_LAYOUT),
+]
+
+/**
+ * Register an additional parser (e.g. a bank-specific layout).
+ * Parsers registered later win ties against the built-in ones.
+ */
+export function registerStatementParser(parser: StatementParser): void {
+    const existing = parsers.findIndex(p => p.id === parser.id)
+    if (existing >= 0) parsers.splice(existing, 1)
+    parsers.unshift(parser)
+}
+
+export function getStatementParsers(): readonly StatementParser[] {
+    return parsers
+}
+
+export function detectStatementParser(lines: string[]): StatementParser | undefined {
+    const upperLines = lines.map(line => line.toUpperCase())
+    let best: StatementParser | undefined
+    let bestScore = 0
+    for (const parser of parsers) {
+        const score = parser.detect(upperLines)
+        if (score > bestScore) {
+            best = parser
+            bestScore = score
+        }
+    }
+    return best
+}
+
+/**
+ * Parse already-extracted statement lines with the best matching parser.
+ * Unknown layouts fall back to the Visa table rules with issuer UNKNOWN.
+ */
+export function parseStatementText(lines: string[]): ParsedStatement {
+    const parser = detectStatementParser(lines)
+    if (parser) return parser.parse(lines)
+    return parseStatementLines(lines, { ...VISA_LAYOUT, network: 'UNKNOWN' })
+}
+
+export async function parseStatement(file: File): Promise<ParsedStatement> {
+    const lines = await extractTextFromPdf(file)
+    return parseStatementText(lines)
+}
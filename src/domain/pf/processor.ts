@@ -1,6 +1,9 @@
 
 import { Movement, FxRates } from '@/domain/types'
+import { toLocalDateKey } from '@/lib/dates'
+import type { UvaLookup } from '@/domain/inflation'
 import { PFPosition } from './types'
+import { computeFixedDepositMaturity, computeFixedDepositPrecancel, type FixedDepositTerms } from './valuation'
 
 export interface PFTotals {
     totalActiveARS: number
@@ -26,9 +29,13 @@ export interface PFDerivedState {
  * 2. Filter SELL movements (Redemptions/Rescues).
  * 3. Match Redemptions to Constitutions (Heuristic: Bank + Date > Start).
  * 4. Categorize as Active, Matured, or Closed (Rescued).
- * 5. Calculate Valuations (ARS + Official USD).
+ * 5. Calculate Valuations (ARS + Official USD), UVA-adjusted when a UVA series is given.
  */
-export function derivePFPositions(movements: Movement[] | undefined, fxRates: FxRates | undefined): PFDerivedState {
+export function derivePFPositions(
+    movements: Movement[] | undefined,
+    fxRates: FxRates | undefined,
+    uva: UvaLookup | null = null
+): PFDerivedState {
     const defaultState: PFDerivedState = {
         active: [],
         matured: [],
@@ -48,6 +55,7 @@ export function derivePFPositions(movements: Movement[] | undefined, fxRates: Fx
     const now = new Date()
     // Start of today (00:00) for comparison
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    const todayKey = toLocalDateKey(now.toISOString())
 
     // 1. Identify Constitutions (BUY) and Redemptions (SELL)
     const constitutions = movements.filter(m => m.assetClass === 'pf' && (m.type === 'BUY' || m.type === 'DEPOSIT')) // Usually BUY
@@ -123,9 +131,11 @@ export function derivePFPositions(movements: Movement[] | undefined, fxRates: Fx
         const tea = Math.pow(1 + ratePeriod, 365 / termDays) - 1
 
         // Interest Calc: Principal * (TNA/100) * (Days/365)
-        // Standard convention TNA is 365.
-        const interest = (principal * (tna / 100) * termDays) / 365
-        const total = principal + interest
+        // Standard convention TNA is 365. UVA deposits also adjust the principal.
+        const terms = fixedDepositTermsFromMovement(m)
+        const valuation = computeFixedDepositMaturity(terms, uva, todayKey)
+        const interest = valuation.interestARS
+        const total = valuation.totalARS
 
         const initialFx = m.fx?.rate || m.fxAtTrade || undefined
 
@@ -135,6 +145,7 @@ export function derivePFPositions(movements: Movement[] | undefined, fxRates: Fx
             accountId: m.accountId || 'unknown',
             bank: m.bank || 'Desconocido',
             alias: m.alias,
+            depositType: terms.depositType,
             principalARS: principal,
             termDays,
             tna,
@@ -143,10 +154,18 @@ export function derivePFPositions(movements: Movement[] | undefined, fxRates: Fx
             maturityTs: maturityDate.toISOString(),
             expectedInterestARS: interest,
             expectedTotalARS: total,
+            uvaStart: valuation.uvaStart,
+            uvaEnd: valuation.uvaEnd,
+            uvaEndDate: valuation.uvaEndDate,
+            precancelTna: terms.precancelTna,
+            precancelFromDays: terms.precancelFromDays,
+            precancelTotalARS: computeFixedDepositPrecancel(terms, todayKey)?.totalARS,
             status: 'active', // Default, updated below
             initialFx,
             pfGroupId: m.meta?.pfGroupId || m.meta?.fixedDeposit?.pfGroupId,
-            pfCode: m.meta?.pfCode || m.alias // Fallback to alias if code not present
+            pfCode: m.meta?.pfCode || m.alias, // Fallback to alias if code not present
+            rollover: m.meta?.fixedDeposit?.rollover,
+            renewedFromId: m.meta?.fixedDeposit?.renewedFromId,
         }
 
         // Determine Status
@@ -181,3 +200,26 @@ export function derivePFPositions(movements: Movement[] | undefined, fxRates: Fx
 
     return defaultState
 }
+
+/**
+ * Valuation terms of a constitution movement: the flat fields the position
+ * uses, plus the product type from the fixedDeposit meta.
+ */
+export function fixedDepositTermsFromMovement(m: Movement): FixedDepositTerms {
+    const fd = m.meta?.fixedDeposit
+    const startISO = new Date(m.startDate || m.datetimeISO).toISOString()
+    const termDays = m.termDays || 30
+    const maturityISO = new Date(new Date(startISO).getTime() + (termDays * 24 * 60 * 60 * 1000)).toISOString()
+
+    return {
+        depositType: fd?.depositType ?? 'traditional',
+        principalARS: m.principalARS || m.quantity || 0,
+        tna: m.tna || 0,
+        termDays,
+        startISO,
+        maturityISO,
+        uvaStart: fd?.uvaStart,
+        precancelTna: fd?.precancelTna,
+        precancelFromDays: fd?.precancelFromDays,
+    }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import type { FxRates, Movement } from '@/domain/types'
+import { derivePFPositions } from './processor'
+import { buildPFChain, buildPFRenewal, computeRolloverAmount, nextRenewalCode } from './rollover'
+
+const fxRates = { oficial: { buy: 1000, sell: 1000 } } as FxRates
+
+function constitution(overrides: Partial<Movement> = {}): Movement {
+    return {
+        id: 'pf-1',
+        datetimeISO: '2025-01-01T12:00:00.000Z',
+        type: 'BUY',
+        assetClass: 'pf',
+        instrumentId: 'pf-instrument',
+        accountId: 'acc-1',
+        bank: 'Galicia',
+        principalARS: 100000,
+        tna: 36.5,
+        termDays: 30,
+        quantity: 100000,
+        tradeCurrency: 'ARS',
+        totalAmount: 100000,
+        meta: {
+            pfGroupId: 'group-1',
+            pfCode: 'PF-20250101-ABCD',
+            fixedDeposit: {
+                principalARS: 100000,
+                interestARS: 3000,
+                totalARS: 103000,
+                tna: 36.5,
+                termDays: 30,
+                startDate: '2025-01-01T12:00:00.000Z',
+                maturityDate: '2025-01-31T12:00:00.000Z',
+                rollover: { mode: 'principal_plus_interest' },
+            },
+        },
+        ...overrides,
+    }
+}
+
+describe('computeRolloverAmount', () => {
+    const pf = { principalARS: 100000, expectedTotalARS: 103000 }
+
+    it('picks the amount for each mode', () => {
+        expect(computeRolloverAmount(pf, { mode: 'principal' })).toBe(100000)
+        expect(computeRolloverAmount(pf, { mode: 'principal_plus_interest' })).toBe(103000)
+        expect(computeRolloverAmount(pf, { mode: 'fixed_amount', amountARS: 50000 })).toBe(50000)
+        expect(computeRolloverAmount(pf, { mode: 'fixed_amount' })).toBe(0)
+    })
+
+    it('numbers renewal codes', () => {
+        expect(nextRenewalCode('PF-20250101-ABCD')).toBe('PF-20250101-ABCD-R1')
+        expect(nextRenewalCode('PF-20250101-ABCD-R1')).toBe('PF-20250101-ABCD-R2')
+    })
+})
+
+describe('buildPFRenewal', () => {
+    it('redeems the deposit and constitutes the renewal at maturity in the same group', () => {
+        const [pf] = derivePFPositions([constitution()], fxRates).matured
+        const renewal = buildPFRenewal(pf, { mode: 'principal_plus_interest', tna: 30 }, 'manual')!
+        const [sell, deposit, buy] = renewal
+
+        expect(sell.type).toBe('SELL')
+        expect(sell.pf?.pfId).toBe('pf-1')
+        expect(sell.totalAmount).toBeCloseTo(103000)
+        expect(deposit.totalAmount).toBeCloseTo(103000)
+        expect(buy.type).toBe('BUY')
+        expect(buy.datetimeISO).toBe(pf.maturityTs)
+        expect(buy.principalARS).toBeCloseTo(103000)
+        expect(buy.tna).toBe(30)
+        expect(buy.meta?.pfGroupId).toBe('group-1')
+        expect(buy.meta?.pfCode).toBe('PF-20250101-ABCD-R1')
+        expect(buy.meta?.fixedDeposit?.renewedFromId).toBe('pf-1')
+        expect(buy.meta?.fixedDeposit?.rollover).toEqual({ mode: 'principal_plus_interest', tna: 30 })
+    })
+
+    it('closes only the renewed link and chains the yield', () => {
+        const original = constitution()
+        const [pf] = derivePFPositions([original], fxRates).matured
+        const movements = [original, ...buildPFRenewal(pf, { mode: 'principal_plus_interest' }, 'manual')!]
+        const state = derivePFPositions(movements, fxRates)
+
+        expect(state.closed.map(p => p.id)).toEqual(['pf-1'])
+        expect(state.matured.map(p => p.id)).toEqual(['pf-renew:pf-1'])
+
+        const chain = buildPFChain(state, movements, 'pf-renew:pf-1')!
+        expect(chain.links.map(l => l.position.id)).toEqual(['pf-1', 'pf-renew:pf-1'])
+        expect(chain.initialPrincipalARS).toBe(100000)
+        expect(chain.totalInterestARS).toBeCloseTo(3000 + 3090)
+        expect(chain.cumulativeReturn).toBeCloseTo(1.03 * 1.03 - 1)
+    })
+})
@@ -0,0 +1,308 @@
+/**
+ * Plazo fijo renewals (renovación).
+ *
+ * A constitution can carry a rollover rule in `meta.fixedDeposit.rollover`.
+ * At maturity the deposit is renewed instead of settled: the old one is
+ * redeemed (SELL + cash DEPOSIT, like a settlement) and a new constitution
+ * starts on the maturity date for the amount the rule picks. The new one
+ * shares the pfGroupId, points back with `renewedFromId` and inherits the
+ * rule, so renewals keep chaining until the rule is removed.
+ */
+
+import type { FixedDepositMeta, FixedDepositRollover, Movement } from '@/domain/types'
+import type { PFDerivedState } from './processor'
+import type { PFPosition } from './types'
+
+export const ROLLOVER_MODE_LABELS: Record<FixedDepositRollover['mode'], string> = {
+    principal: 'Solo capital',
+    principal_plus_interest: 'Capital + intereses',
+    fixed_amount: 'Monto fijo',
+}
+
+/** Deterministic ids, so retries and other tabs can't renew twice */
+export function renewalMovementIds(pfId: string) {
+    return {
+        sellId: `pf-renew-sell:${pfId}`,
+        depositId: `pf-renew-dep:${pfId}`,
+        constitutionId: `pf-renew:${pfId}`,
+    }
+}
+
+/** Capital of the renewed deposit; 0 when the rule can't be applied */
+export function computeRolloverAmount(
+    pf: Pick<PFPosition, 'principalARS' | 'expectedTotalARS'>,
+    rule: FixedDepositRollover
+): number {
+    switch (rule.mode) {
+        case 'principal':
+            return pf.principalARS
+        case 'principal_plus_interest':
+            return pf.expectedTotalARS
+        case 'fixed_amount':
+            return rule.amountARS && rule.amountARS > 0 ? rule.amountARS : 0
+    }
+}
+
+/** "PF-20260101-ABCD" -> "PF-20260101-ABCD-R1", "...-R1" -> "...-R2" */
+export function nextRenewalCode(pfCode: string | undefined): string {
+    const code = pfCode || 'PF'
+    const match = /^(.*)-R(\d+)$/.exec(code)
+    return match ? `${match[1]}-R${Number(match[2]) + 1}` : `${code}-R1`
+}
+
+/**
+ * Movements renewing a matured deposit: redemption SELL, cash DEPOSIT of the
+ * collected total and the new constitution, all dated at maturity. The cash
+ * ledger nets them to `total - renewed amount`. Null when the rule yields no
+ * amount.
+ */
+export function buildPFRenewal(
+    pf: PFPosition,
+    rule: FixedDepositRollover,
+    settlementMode: 'auto' | 'manual'
+): Movement[] | null {
+    const amount = computeRolloverAmount(pf, rule)
+    if (amount <= 0) return null
+
+    const { sellId, depositId, constitutionId } = renewalMovementIds(pf.id)
+    const renewedAt = pf.maturityTs
+    const pfGroupId = pf.pfGroupId || `pf-chain:${pf.id}`
+    const pfCode = pf.pfCode || 'PF'
+    const total = pf.expectedTotalARS
+
+    const tna = rule.tna ?? pf.tna
+    const termDays = rule.termDays ?? pf.termDays
+    const maturity = new Date(new Date(renewedAt).getTime() + termDays * 24 * 60 * 60 * 1000).toISOString()
+    const interest = amount * (tna / 100) * (termDays / 365)
+    const newCode = nextRenewalCode(pf.pfCode)
+
+    const redeemMov: Movement = {
+        id: sellId,
+        assetClass: 'pf',
+        instrumentId: 'pf-instrument',
+        assetName: 'Plazo Fijo',
+        type: 'SELL',
+        accountId: pf.accountId,
+        bank: pf.bank,
+        datetimeISO: renewedAt,
+        quantity: 1,
+        unitPrice: total,
+        tradeCurrency: 'ARS',
+        totalAmount: total,
+        notes: `Vencimiento PF (Renovación) ${pfCode}`,
+        isAuto: settlementMode === 'auto',
+        meta: {
+            pfGroupId,
+            pfCode,
+            fixedDeposit: {
+                pfGroupId,
+                pfCode,
+                settlementMode,
+                redeemedAt: renewedAt,
+                depositType: pf.depositType,
+                principalARS: pf.principalARS,
+                interestARS: pf.expectedInterestARS || 0,
+                totalARS: total,
+                tna: pf.tna,
+                termDays: pf.termDays,
+                startDate: pf.startTs,
+                maturityDate: pf.maturityTs,
+            },
+        },
+        pf: {
+            kind: 'redeem',
+            pfId: pf.id,
+            action: 'SETTLE',
+        },
+    }
+
+    const depositMov: Movement = {
+        id: depositId,
+        type: 'DEPOSIT',
+        instrumentId: 'ars-cash',
+        assetName: 'Pesos Argentinos',
+        accountId: pf.accountId,
+        tradeCurrency: 'ARS',
+        bank: pf.bank,
+        datetimeISO: renewedAt,
+        quantity: total,
+        unitPrice: 1,
+        totalAmount: total,
+        ticker: 'ARS',
+        notes: `Acreditación PF renovado: ${pfCode}`,
+        isAuto: settlementMode === 'auto',
+        meta: {
+            pfGroupId,
+            pfCode,
+        },
+    }
+
+    const fixedDeposit: FixedDepositMeta = {
+        depositType: pf.depositType,
+        ...(pf.depositType === 'uva_precancelable' ? {
+            precancelTna: pf.precancelTna,
+            precancelFromDays: pf.precancelFromDays,
+        } : {}),
+        pfGroupId,
+        pfCode: newCode,
+        providerName: pf.bank,
+        principalARS: amount,
+        interestARS: interest,
+        totalARS: amount + interest,
+        tna,
+        termDays,
+        startDate: renewedAt,
+        maturityDate: maturity,
+        expectedInterestARS: interest,
+        expectedTotalARS: amount + interest,
+        renewedFromId: pf.id,
+        rollover: rule,
+    }
+
+    const constitutionMov: Movement = {
+        id: constitutionId,
+        assetClass: 'pf',
+        instrumentId: 'pf-instrument',
+        assetName: 'Plazo Fijo',
+        ticker: pf.bank,
+        type: 'BUY',
+        accountId: pf.accountId,
+        bank: pf.bank,
+        alias: pf.alias,
+        datetimeISO: renewedAt,
+        startDate: renewedAt,
+        principalARS: amount,
+        tna,
+        termDays,
+        quantity: amount,
+        unitPrice: 1,
+        tradeCurrency: 'ARS',
+        totalAmount: amount,
+        netAmount: amount,
+        totalARS: amount,
+        notes: `Renovación de ${pfCode}`,
+        isAuto: settlementMode === 'auto',
+        meta: {
+            pfGroupId,
+            pfCode: newCode,
+            fixedDeposit,
+        },
+        pf: {
+            kind: 'constitute',
+            pfId: constitutionId,
+            bank: pf.bank,
+            alias: newCode,
+            capitalARS: amount,
+            tna,
+            termDays,
+            startAtISO: renewedAt,
+            maturityISO: maturity,
+            interestARS: interest,
+            totalToCollectARS: amount + interest,
+        },
+    }
+
+    return [redeemMov, depositMov, constitutionMov]
+}
+
+/**
+ * Meta of a constitution with its rollover rule replaced (removed when
+ * `rule` is undefined). Legacy constitutions without a fixedDeposit meta get
+ * one built from the flat fields.
+ */
+export function withRolloverRule(
+    m: Movement,
+    rule: FixedDepositRollover | undefined
+): NonNullable<Movement['meta']> {
+    const principal = m.principalARS || m.quantity || 0
+    const termDays = m.termDays || 30
+    const tna = m.tna || 0
+    const start = new Date(m.startDate || m.datetimeISO)
+    const interest = principal * (tna / 100) * (termDays / 365)
+
+    const fixedDeposit: FixedDepositMeta = m.meta?.fixedDeposit ?? {
+        principalARS: principal,
+        interestARS: interest,
+        totalARS: principal + interest,
+        tna,
+        termDays,
+        startDate: start.toISOString(),
+        maturityDate: new Date(start.getTime() + termDays * 24 * 60 * 60 * 1000).toISOString(),
+    }
+
+    const next: FixedDepositMeta = { ...fixedDeposit, rollover: rule }
+    if (!rule) delete next.rollover
+    return { ...m.meta, fixedDeposit: next }
+}
+
+export interface PFChainLink {
+    position: PFPosition
+    status: 'active' | 'matured' | 'closed'
+    /** Collected (closed) or expected total */
+    totalARS: number
+    interestARS: number
+}
+
+export interface PFChain {
+    links: PFChainLink[] // Oldest first
+    initialPrincipalARS: number
+    totalInterestARS: number
+    /** Compounded return of all links, as a fraction (0.12 = 12%) */
+    cumulativeReturn: number
+}
+
+/**
+ * Renewal chain of a deposit: walks `renewedFromId` back to the first
+ * constitution and forward to the latest renewal.
+ */
+export function buildPFChain(state: PFDerivedState, movements: Movement[], pfId: string): PFChain | null {
+    const statusById = new Map<string, { position: PFPosition; status: PFChainLink['status'] }>()
+    state.active.forEach(position => statusById.set(position.id, { position, status: 'active' }))
+    state.matured.forEach(position => statusById.set(position.id, { position, status: 'matured' }))
+    state.closed.forEach(position => statusById.set(position.id, { position, status: 'closed' }))
+
+    let first = statusById.get(pfId)
+    if (!first) return null
+    const visited = new Set<string>([pfId])
+    while (first.position.renewedFromId && !visited.has(first.position.renewedFromId)) {
+        const previous = statusById.get(first.position.renewedFromId)
+        if (!previous) break
+        visited.add(previous.position.id)
+        first = previous
+    }
+
+    const renewalOf = new Map<string, string>()
+    for (const { position } of statusById.values()) {
+        if (position.renewedFromId) renewalOf.set(position.renewedFromId, position.id)
+    }
+
+    const links: PFChainLink[] = []
+    const seen = new Set<string>()
+    let current: typeof first | undefined = first
+    while (current && !seen.has(current.position.id)) {
+        seen.add(current.position.id)
+        const { position, status } = current
+        const redemption = status === 'closed'
+            ? movements.find(m => m.type === 'SELL' && m.pf?.pfId === position.id)
+            : undefined
+        const totalARS = redemption
+            ? redemption.meta?.fixedDeposit?.totalARS ?? redemption.totalAmount
+            : position.expectedTotalARS
+        links.push({ position, status, totalARS, interestARS: totalARS - position.principalARS })
+
+        const nextId = renewalOf.get(position.id)
+        current = nextId ? statusById.get(nextId) : undefined
+    }
+
+    const cumulativeGrowth = links.reduce(
+        (acc, link) => link.position.principalARS > 0 ? acc * (link.totalARS / link.position.principalARS) : acc,
+        1
+    )
+
+    return {
+        links,
+        initialPrincipalARS: links[0].position.principalARS,
+        totalInterestARS: links.reduce((sum, link) => sum + link.interestARS, 0),
+        cumulativeReturn: cumulativeGrowth - 1,
+    }
+}
@@ -1,21 +1,34 @@
+import type { FixedDepositRollover, FixedDepositType } from '@/domain/types'
+
 export interface PFPosition {
     id: string
     bank: string
     alias?: string
+    depositType: FixedDepositType
     principalARS: number
     termDays: number
     tna: number
     tea: number
     startTs: string // ISO date
     maturityTs: string // ISO date
-    expectedInterestARS: number
+    expectedInterestARS: number // UVA adjustment included
     expectedTotalARS: number
+    // UVA deposits: values behind the adjustment (missing without a UVA series)
+    uvaStart?: number
+    uvaEnd?: number
+    uvaEndDate?: string
+    // Precancelable deposits
+    precancelTna?: number
+    precancelFromDays?: number
+    precancelTotalARS?: number // Collected if cancelled today (once allowed)
     status: 'active' | 'matured'
     movementId: string // Link to the creation movement
     accountId: string // Account where the PF is held
     initialFx?: number // Historical FX at constitution
     pfGroupId?: string
     pfCode?: string
+    rollover?: FixedDepositRollover
+    renewedFromId?: string
 }
 
 export type BankSuggestion = {
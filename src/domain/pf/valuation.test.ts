@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { createUvaLookup } from '@/domain/inflation'
+import {
+    computeFixedDepositMaturity,
+    computeFixedDepositPrecancel,
+    computeFixedDepositRedemption,
+    type FixedDepositTerms,
+} from './valuation'
+
+const uva = createUvaLookup([
+    { date: '2026-01-01', value: 1000 },
+    { date: '2026-02-15', value: 1050 },
+    { date: '2026-04-01', value: 1100 },
+])
+
+function terms(overrides: Partial<FixedDepositTerms> = {}): FixedDepositTerms {
+    return {
+        depositType: 'uva',
+        principalARS: 100000,
+        tna: 1,
+        termDays: 90,
+        startISO: '2026-01-01T12:00:00.000Z',
+        maturityISO: '2026-04-01T12:00:00.000Z',
+        ...overrides,
+    }
+}
+
+describe('computeFixedDepositMaturity', () => {
+    it('keeps simple interest for traditional deposits', () => {
+        const result = computeFixedDepositMaturity(terms({ depositType: 'traditional', tna: 36.5 }), uva, '2026-02-15')
+        expect(result.totalARS).toBeCloseTo(109000, 6)
+        expect(result.uvaEnd).toBeUndefined()
+    })
+
+    it('adjusts UVA capital with the latest known UVA, up to maturity', () => {
+        const midTerm = computeFixedDepositMaturity(terms(), uva, '2026-03-01')
+        expect(midTerm.uvaStart).toBe(1000)
+        expect(midTerm.uvaEnd).toBe(1050)
+        expect(midTerm.adjustedPrincipalARS).toBeCloseTo(105000, 6)
+
+        const atMaturity = computeFixedDepositMaturity(terms(), uva, '2026-06-01')
+        expect(atMaturity.uvaEndDate).toBe('2026-04-01')
+        expect(atMaturity.totalARS).toBeCloseTo(110000 * (1 + 0.01 * 90 / 365), 6)
+        expect(atMaturity.interestARS).toBeCloseTo(atMaturity.totalARS - 100000, 6)
+    })
+
+    it('prefers the UVA stored at constitution and stays nominal without a series', () => {
+        expect(computeFixedDepositMaturity(terms({ uvaStart: 1100 }), uva, '2026-04-01').adjustedPrincipalARS)
+            .toBeCloseTo(100000, 6)
+        expect(computeFixedDepositMaturity(terms(), null, '2026-04-01').adjustedPrincipalARS).toBe(100000)
+    })
+})
+
+describe('computeFixedDepositPrecancel', () => {
+    const precancelable = terms({
+        depositType: 'uva_precancelable',
+        termDays: 180,
+        maturityISO: '2026-06-30T12:00:00.000Z',
+        precancelTna: 36.5,
+    })
+
+    it('pays capital plus the penalty rate for the days held, once allowed', () => {
+        expect(computeFixedDepositPrecancel(precancelable, '2026-01-20')).toBeNull()
+
+        const result = computeFixedDepositPrecancel(precancelable, '2026-02-10')!
+        expect(result.precancelled).toBe(true)
+        expect(result.totalARS).toBeCloseTo(100000 * (1 + 0.365 * 40 / 365), 6)
+    })
+
+    it('falls back to the maturity value when cancelling is not possible', () => {
+        expect(computeFixedDepositPrecancel(terms({ precancelTna: 36.5 }), '2026-02-10')).toBeNull()
+        expect(computeFixedDepositRedemption(precancelable, '2026-01-20', uva).precancelled).toBe(false)
+        expect(computeFixedDepositRedemption(precancelable, '2026-06-30', uva).uvaEnd).toBe(1100)
+    })
+})
@@ -0,0 +1,124 @@
+/**
+ * Plazo fijo valuation by product type.
+ *
+ * - traditional: simple interest at the TNA (base 365).
+ * - uva: capital adjusted by UVA(maturity) / UVA(start), plus the TNA on the
+ *   adjusted capital. Before maturity the last published UVA stands in for the
+ *   maturity one, so the expected total grows as the series advances.
+ * - uva_precancelable: a UVA deposit that can be cancelled early (after
+ *   `precancelFromDays`), paying capital + the penalty TNA for the days held
+ *   and no UVA adjustment.
+ */
+
+import type { FixedDepositType } from '@/domain/types'
+import type { UvaLookup } from '@/domain/inflation'
+
+/** BCRA minimum: UVA precancelable deposits can be cancelled from day 30 */
+export const PRECANCEL_DEFAULT_FROM_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface FixedDepositTerms {
+    depositType: FixedDepositType
+    principalARS: number
+    tna: number
+    termDays: number
+    startISO: string
+    maturityISO: string
+    /** UVA at constitution; looked up in the series when missing */
+    uvaStart?: number
+    precancelTna?: number
+    precancelFromDays?: number
+}
+
+export interface FixedDepositValuation {
+    /** Capital after the UVA adjustment (the principal otherwise) */
+    adjustedPrincipalARS: number
+    /** Everything over the principal, UVA adjustment included */
+    interestARS: number
+    totalARS: number
+    /** UVA values used; missing when the series does not cover the dates */
+    uvaStart?: number
+    uvaEnd?: number
+    uvaEndDate?: string
+    /** Valued as an early cancellation at the penalty rate */
+    precancelled: boolean
+}
+
+export function isUvaDeposit(type: FixedDepositType | undefined): boolean {
+    return type === 'uva' || type === 'uva_precancelable'
+}
+
+function daysBetween(fromKey: string, toKey: string): number {
+    return Math.round((Date.parse(`${toKey}T00:00:00Z`) - Date.parse(`${fromKey}T00:00:00Z`)) / DAY_MS)
+}
+
+/**
+ * Amount collected at maturity, with the UVA known as of `asOfKey`
+ * (YYYY-MM-DD; the maturity UVA once the series reaches it).
+ */
+export function computeFixedDepositMaturity(
+    terms: FixedDepositTerms,
+    uva: UvaLookup | null,
+    asOfKey: string
+): FixedDepositValuation {
+    let adjustedPrincipalARS = terms.principalARS
+    let uvaStart: number | undefined
+    let uvaEnd: number | undefined
+    let uvaEndDate: string | undefined
+
+    if (isUvaDeposit(terms.depositType)) {
+        const maturityKey = terms.maturityISO.slice(0, 10)
+        uvaStart = terms.uvaStart ?? uva?.(terms.startISO.slice(0, 10))?.value
+        const end = uva?.(asOfKey < maturityKey ? asOfKey : maturityKey)
+        uvaEnd = end?.value
+        uvaEndDate = end?.date
+        if (uvaStart && uvaEnd) adjustedPrincipalARS = terms.principalARS * (uvaEnd / uvaStart)
+    }
+
+    const totalARS = adjustedPrincipalARS * (1 + (terms.tna / 100) * (terms.termDays / 365))
+    return {
+        adjustedPrincipalARS,
+        interestARS: totalARS - terms.principalARS,
+        totalARS,
+        uvaStart,
+        uvaEnd,
+        uvaEndDate,
+        precancelled: false,
+    }
+}
+
+/**
+ * Early cancellation on `dateKey`, or null when the deposit is not
+ * precancelable, the minimum term has not passed or it already matured.
+ */
+export function computeFixedDepositPrecancel(
+    terms: FixedDepositTerms,
+    dateKey: string
+): FixedDepositValuation | null {
+    if (terms.depositType !== 'uva_precancelable' || terms.precancelTna == null) return null
+    if (dateKey >= terms.maturityISO.slice(0, 10)) return null
+
+    const daysHeld = daysBetween(terms.startISO.slice(0, 10), dateKey)
+    if (daysHeld < (terms.precancelFromDays ?? PRECANCEL_DEFAULT_FROM_DAYS)) return null
+
+    const interestARS = terms.principalARS * (terms.precancelTna / 100) * (daysHeld / 365)
+    return {
+        adjustedPrincipalARS: terms.principalARS,
+        interestARS,
+        totalARS: terms.principalARS + interestARS,
+        precancelled: true,
+    }
+}
+
+/**
+ * Amount collected when redeeming on `dateKey`: the early cancellation value
+ * before maturity when allowed, the maturity value otherwise.
+ */
+export function computeFixedDepositRedemption(
+    terms: FixedDepositTerms,
+    dateKey: string,
+    uva: UvaLookup | null
+): FixedDepositValuation {
+    return computeFixedDepositPrecancel(terms, dateKey) ?? computeFixedDepositMaturity(terms, uva, dateKey)
+}
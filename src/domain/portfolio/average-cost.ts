@@ -5,12 +5,15 @@
  */
 
 import type { Movement } from '@/domain/types'
+import { canOpenShort } from './shorts'
 
 export interface AverageCostResult {
     quantity: number
     costBasisNative: number
     costBasisArs: number
     costBasisUsd: number
+    /** ARS cost restated in pesos of the deflator's reference date (only with a deflator) */
+    costBasisRealArs?: number
 
     // Averages
     avgCostNative: number
@@ -18,11 +21,45 @@ export interface AverageCostResult {
     avgCostUsd: number
 }
 
+/** Leftovers below this are float noise, not a position */
+const QTY_EPSILON = 0.00000001
+
+/** ARS and USD amounts of a trade, from its totals when present */
+function resolveTradeAmounts(mov: Movement, qty: number, price: number, fxRate: number): { ars: number; usd: number } {
+    // USD Cash (BUY_USD or DEPOSIT USD)
+    // If it's a USD Deposit, we assume it carries a Cost Basis in ARS (either Manual or Implied)
+    if (mov.type === 'BUY_USD' || (mov.tradeCurrency === 'USD' && mov.type === 'DEPOSIT')) {
+        // Qty = USD Bought
+        // Cost ARS = totalAmount (ARS Paid)
+        // Cost USD = totalUSD (USD Value, usually equal to Qty)
+        return { ars: mov.totalAmount || 0, usd: mov.totalUSD || qty }
+    }
+    if (mov.tradeCurrency === 'ARS') {
+        // Bought/Deposited with ARS
+        // For Cash ARS, Quantity IS the Amount. price usually 1.
+        // Prefer totalAmount if available, else calc
+        let ars = mov.totalAmount || (qty * price)
+        if (ars === 0 && qty > 0) ars = qty // Fallback for Cash ARS if price missing
+        return { ars, usd: ars / fxRate }
+    }
+    // Other Foreign Currency Bought with USD? Or generic
+    const usd = mov.totalUSD || (qty * price)
+    return { ars: usd * fxRate, usd }
+}
+
 /**
- * Compute position using Weighted Average Cost
+ * Compute position using Weighted Average Cost.
+ * With `deflate` (CPI factor for a YYYY-MM-DD date), also tracks the ARS cost
+ * basis restated in constant pesos.
+ *
+ * A shortable SELL (see `canOpenShort`) beyond the long position opens a
+ * short: quantity and cost basis go negative (the basis being the proceeds),
+ * so averages stay positive and `value - basis` is still the unrealized PnL.
+ * Buys cover the short first. Any other oversell stops at zero.
  */
 export function computeAverageCost(
-    movements: Movement[]
+    movements: Movement[],
+    deflate?: (dateKey: string) => number
 ): AverageCostResult {
     // 1. Sort by date ascending to build history
     const sorted = [...movements].sort(
@@ -32,8 +69,19 @@ export function computeAverageCost(
     let quantity = 0
     let costBasisArs = 0    // Always ARS
     let costBasisUsd = 0    // Always USD
+    let costBasisRealArs = 0 // ARS in constant pesos (deflate only)
+
+    // Close part of the position at average cost (ratio capped at 100%)
+    const reduceBy = (closedQty: number) => {
+        const safeRatio = Math.min(closedQty / Math.abs(quantity), 1)
+        costBasisArs -= costBasisArs * safeRatio
+        costBasisUsd -= costBasisUsd * safeRatio
+        costBasisRealArs -= costBasisRealArs * safeRatio
+        quantity -= Math.sign(quantity) * closedQty
+    }
 
     for (const mov of sorted) {
+        // Cash-only movements (e.g. ADJUSTMENT) carry no instrument and no position
         if (!mov.instrumentId) continue
 
         const qty = mov.quantity ?? 0
@@ -50,7 +98,14 @@ export function computeAverageCost(
             fxRate = mov.fxAtTrade
         }
 
-        const tradeCcy = mov.tradeCurrency
+        // Opens (or extends) a position with `share` of the trade amounts
+        const open = (openedQty: number, share: number, sign: 1 | -1) => {
+            const amounts = resolveTradeAmounts(mov, qty, price, fxRate)
+            quantity += sign * openedQty
+            costBasisArs += sign * amounts.ars * share
+            costBasisUsd += sign * amounts.usd * share
+            if (deflate) costBasisRealArs += sign * amounts.ars * share * deflate(mov.datetimeISO.slice(0, 10))
+        }
 
         switch (mov.type) {
             case 'BUY':
@@ -61,34 +116,12 @@ export function computeAverageCost(
                 const addedQty = qty
                 if (addedQty <= 0) break
 
-                // Calculate Trade Amounts
-                let tradeAmtArs = 0
-                let tradeAmtUsd = 0
-
-                // USD Cash (BUY_USD or DEPOSIT USD)
-                // If it's a USD Deposit, we assume it carries a Cost Basis in ARS (either Manual or Implied)
-                if (mov.type === 'BUY_USD' || (mov.tradeCurrency === 'USD' && mov.type === 'DEPOSIT')) {
-                    // Qty = USD Bought
-                    // Cost ARS = totalAmount (ARS Paid)
-                    // Cost USD = totalUSD (USD Value, usually equal to Qty)
-                    tradeAmtArs = mov.totalAmount || 0
-                    tradeAmtUsd = mov.totalUSD || addedQty
-                } else if (tradeCcy === 'ARS') {
-                    // Bought/Deposited with ARS
-                    // For Cash ARS, Quantity IS the Amount. price usually 1.
-                    // Prefer totalAmount if available, else calc
-                    tradeAmtArs = mov.totalAmount || (addedQty * price)
-                    if (tradeAmtArs === 0 && addedQty > 0) tradeAmtArs = addedQty // Fallback for Cash ARS if price missing
-                    tradeAmtUsd = tradeAmtArs / fxRate
-                } else {
-                    // Other Foreign Currency Bought with USD? Or generic
-                    tradeAmtUsd = (mov.totalUSD || (addedQty * price))
-                    tradeAmtArs = tradeAmtUsd * fxRate
-                }
-
-                quantity += addedQty
-                costBasisArs += tradeAmtArs
-                costBasisUsd += tradeAmtUsd
+                // Cover an open short first
+                const covered = quantity < 0 ? Math.min(addedQty, -quantity) : 0
+                if (covered > 0) reduceBy(covered)
+
+                const remaining = addedQty - covered
+                if (remaining > QTY_EPSILON) open(remaining, remaining / addedQty, 1)
                 break
             }
 
@@ -105,32 +138,30 @@ export function computeAverageCost(
             case 'SELL_USD': { // USD Sale
                 const removedQty = qty
                 if (removedQty <= 0) break
-                if (quantity === 0) break
 
                 // Reduce basis proportionally (Average Cost)
-                const ratio = removedQty / quantity
-
-                // Capped at 1 (100%)
-                const safeRatio = Math.min(ratio, 1)
-
-                costBasisArs -= costBasisArs * safeRatio
-                costBasisUsd -= costBasisUsd * safeRatio
-                quantity -= removedQty
+                const closed = quantity > 0 ? Math.min(removedQty, quantity) : 0
+                if (closed > 0) reduceBy(closed)
 
-                // Floating point cleanup
-                if (quantity < 0.00000001) {
-                    quantity = 0
-                    costBasisArs = 0
-                    costBasisUsd = 0
-                }
+                // Only a shortable SELL goes short (or deeper); other outflows stop at zero
+                const excess = removedQty - closed
+                if (canOpenShort(mov) && excess > QTY_EPSILON) open(excess, excess / removedQty, -1)
                 break
             }
         }
+
+        // Floating point cleanup
+        if (Math.abs(quantity) < QTY_EPSILON) {
+            quantity = 0
+            costBasisArs = 0
+            costBasisUsd = 0
+            costBasisRealArs = 0
+        }
     }
 
     // Determine Averages
-    const avgCostArs = quantity > 0 ? costBasisArs / quantity : 0
-    const avgCostUsd = quantity > 0 ? costBasisUsd / quantity : 0
+    const avgCostArs = quantity !== 0 ? costBasisArs / quantity : 0
+    const avgCostUsd = quantity !== 0 ? costBasisUsd / quantity : 0
 
     // For return value, what is 'costBasisNative'?
     // We'll leave it 0 here and let the caller assign it from Usd or Ars depending on Instrument check.
@@ -141,6 +172,7 @@ export function computeAverageCost(
         costBasisNative: 0, // Caller must decide
         costBasisArs,
         costBasisUsd,
+        costBasisRealArs: deflate ? costBasisRealArs : undefined,
         avgCostNative: 0, // Caller must decide
         avgCostArs,
         avgCostUsd
@@ -5,7 +5,7 @@ export interface CashLedgerResult {
     openingBalances: Map<string, Map<Currency, number>>
 }
 
-interface CashDelta {
+export interface CashDelta {
     currency: Currency
     amount: number
 }
@@ -67,7 +67,7 @@ function resolveUsdQuantity(mov: Movement): number {
     return 0
 }
 
-function getMovementCashDeltas(mov: Movement): CashDelta[] {
+export function getMovementCashDeltas(mov: Movement): CashDelta[] {
     const deltas: CashDelta[] = []
     const tradeCurrency = resolveTradeCurrency(mov)
 
@@ -159,6 +159,12 @@ function getMovementCashDeltas(mov: Movement): CashDelta[] {
             }
             break
         }
+        case 'ADJUSTMENT': {
+            // Already signed
+            const amount = resolveNetAmount(mov, tradeCurrency, false)
+            deltas.push({ currency: tradeCurrency, amount })
+            break
+        }
     }
 
     const fee = resolveFee(mov, tradeCurrency)
@@ -3,12 +3,14 @@ import { computeAverageCost } from './average-cost'
 
 /**
  * Compute holdings from movements using FIFO/PEPS method for cost basis.
- * Groups by instrument + account.
+ * Groups by instrument + account. `deflate` adds the CPI-deflated ARS basis.
+ * Short positions come out with negative quantity and cost basis.
  */
 export function computeHoldings(
     movements: Movement[],
     instruments: Map<string, Instrument>,
-    accounts: Map<string, Account>
+    accounts: Map<string, Account>,
+    deflate?: (dateKey: string) => number
 ): Holding[] {
     // 1. Group movements by instrument+account
     const groups = new Map<string, Movement[]>()
@@ -33,9 +35,9 @@ export function computeHoldings(
         if (!instrument || !account) continue
 
         // Compute Position using Average Cost
-        const result = computeAverageCost(groupMovements)
+        const result = computeAverageCost(groupMovements, deflate)
 
-        if (result.quantity <= 0.00000001) continue
+        if (Math.abs(result.quantity) <= 0.00000001) continue
 
         // Resolve Native Basis based on Instrument
         let costBasisNative = 0
@@ -60,6 +62,7 @@ export function computeHoldings(
             costBasisNative,
             costBasisArs: result.costBasisArs,
             costBasisUsd: result.costBasisUsd,
+            costBasisRealArs: result.costBasisRealArs,
             // Averages
             avgCostNative,
             avgCostArs: result.avgCostArs,
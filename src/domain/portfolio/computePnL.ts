@@ -1,4 +1,5 @@
 import type { Movement, Holding, FxRates, FxType } from '@/domain/types'
+import { canOpenShort } from './shorts'
 
 export interface RealizedPnLResult {
     totalNative: number
@@ -12,6 +13,9 @@ export interface RealizedPnLResult {
 
 /**
  * Compute realized PnL from SELL movements using weighted average cost.
+ * A shortable SELL (see `canOpenShort`) beyond the position opens a short at
+ * the sale price; the BUY that covers it realizes (short price - buy price)
+ * per unit. Other oversells only realize the units actually held.
  */
 export function computeRealizedPnL(
     movements: Movement[],
@@ -22,7 +26,7 @@ export function computeRealizedPnL(
         (a, b) => new Date(a.datetimeISO).getTime() - new Date(b.datetimeISO).getTime()
     )
 
-    // Track cost basis per instrument+account
+    // Track cost basis per instrument+account (both negative while short)
     const costBasisMap = new Map<string, { quantity: number; costBasis: number }>()
     const pnlByInstrument = new Map<string, { ars: number, usd: number }>()
     const pnlByAccount = new Map<string, { ars: number, usd: number }>()
@@ -30,6 +34,25 @@ export function computeRealizedPnL(
     let totalArs = 0
     let totalUsd = 0
 
+    // Assuming tradeCurrency dictates PnL currency.
+    const record = (mov: Movement, instrumentId: string, pnl: number) => {
+        const iPnl = pnlByInstrument.get(instrumentId) || { ars: 0, usd: 0 }
+        const aPnl = pnlByAccount.get(mov.accountId) || { ars: 0, usd: 0 }
+
+        if (mov.tradeCurrency === 'ARS') {
+            totalArs += pnl
+            iPnl.ars += pnl
+            aPnl.ars += pnl
+        } else {
+            totalUsd += pnl
+            iPnl.usd += pnl
+            aPnl.usd += pnl
+        }
+
+        pnlByInstrument.set(instrumentId, iPnl)
+        pnlByAccount.set(mov.accountId, aPnl)
+    }
+
     for (const mov of sorted) {
         if (!mov.instrumentId) continue
 
@@ -52,52 +75,49 @@ export function computeRealizedPnL(
             mov.type === 'INTEREST' || // Reinvested interest adds to cost basis
             mov.type === 'DIVIDEND' // Reinvested dividend adds to cost basis
         ) {
-            position.quantity += qty
-            position.costBasis += qty * price
+            let addedQty = qty
+
+            // Cover an open short first
+            if (position.quantity < 0 && addedQty > 0) {
+                const shortPrice = position.costBasis / position.quantity
+                const coveredQty = Math.min(addedQty, -position.quantity)
+
+                // Only count PnL for explicit BUYs.
+                if (mov.type === 'BUY') record(mov, mov.instrumentId, coveredQty * (shortPrice - price))
+
+                position.quantity += coveredQty
+                position.costBasis += coveredQty * shortPrice
+                addedQty -= coveredQty
+            }
+
+            position.quantity += addedQty
+            position.costBasis += addedQty * price
         } else if (mov.type === 'SELL' || mov.type === 'SELL_USD' || mov.type === 'WITHDRAW') {
+            let removedQty = qty
+
             // SELL logic
             if (position.quantity > 0) {
                 const avgCost = position.costBasis / position.quantity
                 const soldQty = Math.min(qty, position.quantity)
                 const proceeds = soldQty * price
                 const cost = soldQty * avgCost
-                const pnl = proceeds - cost
-
-                if (mov.type === 'SELL' || mov.type === 'SELL_USD') {
-                    // Only count PnL for explicit SELLs.
-                    // Assuming tradeCurrency dictates PnL currency.
-                    const isArs = mov.tradeCurrency === 'ARS'
-
-                    if (isArs) {
-                        totalArs += pnl
-
-                        const iPnl = pnlByInstrument.get(mov.instrumentId) || { ars: 0, usd: 0 }
-                        iPnl.ars += pnl
-                        pnlByInstrument.set(mov.instrumentId, iPnl)
-
-                        const aPnl = pnlByAccount.get(mov.accountId) || { ars: 0, usd: 0 }
-                        aPnl.ars += pnl
-                        pnlByAccount.set(mov.accountId, aPnl)
 
-                    } else {
-                        totalUsd += pnl
-
-                        const iPnl = pnlByInstrument.get(mov.instrumentId) || { ars: 0, usd: 0 }
-                        iPnl.usd += pnl
-                        pnlByInstrument.set(mov.instrumentId, iPnl)
-
-                        const aPnl = pnlByAccount.get(mov.accountId) || { ars: 0, usd: 0 }
-                        aPnl.usd += pnl
-                        pnlByAccount.set(mov.accountId, aPnl)
-                    }
-                }
+                // Only count PnL for explicit SELLs.
+                if (mov.type === 'SELL' || mov.type === 'SELL_USD') record(mov, mov.instrumentId, proceeds - cost)
 
                 position.quantity -= soldQty
                 position.costBasis -= soldQty * avgCost
+                removedQty -= soldQty
+            }
+
+            // Selling beyond the position opens (or extends) a short, when allowed
+            if (canOpenShort(mov) && removedQty > 0.00000001) {
+                position.quantity -= removedQty
+                position.costBasis -= removedQty * price
             }
         }
 
-        if (position.quantity < 0.00000001) {
+        if (Math.abs(position.quantity) < 0.00000001) {
             position.quantity = 0
             position.costBasis = 0
         }
@@ -116,6 +136,7 @@ export function computeRealizedPnL(
 
 /**
  * Compute unrealized PnL for current holdings.
+ * Works for shorts too: value and cost basis are both negative there.
  */
 export function computeUnrealizedPnL(
     holdings: Holding[],
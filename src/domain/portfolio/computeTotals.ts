@@ -23,6 +23,8 @@ const categoryLabels: Record<AssetCategory, string> = {
     DEBT: 'Deudas',
     STOCK: 'Acciones',
     CURRENCY: 'Moneda',
+    BOND: 'Renta Fija',
+    OPTION: 'Opciones',
 }
 
 interface ComputeTotalsInput {
@@ -43,6 +45,7 @@ interface ComputeTotalsInput {
 
 import { getFxDailyChangePct } from '@/lib/daily-snapshot'
 import { calculateValuation } from './valuation'
+import { BOND_PRICE_BASE } from '@/domain/bonds/schedule'
 import { computeExposure } from './currencyExposure'
 
 /**
@@ -70,6 +73,9 @@ export function computeTotals(input: ComputeTotalsInput): PortfolioTotals {
             existing.totalCostBasis += h.costBasisNative
             existing.totalCostBasisArs += h.costBasisArs
             existing.totalCostBasisUsd += h.costBasisUsd
+            if (h.costBasisRealArs != null) {
+                existing.totalCostBasisRealArs = (existing.totalCostBasisRealArs ?? 0) + h.costBasisRealArs
+            }
             existing.byAccount.push(h)
         } else {
             aggregatedMap.set(h.instrumentId, {
@@ -79,6 +85,7 @@ export function computeTotals(input: ComputeTotalsInput): PortfolioTotals {
                 totalCostBasis: h.costBasisNative,
                 totalCostBasisArs: h.costBasisArs,
                 totalCostBasisUsd: h.costBasisUsd,
+                totalCostBasisRealArs: h.costBasisRealArs,
                 avgCost: h.avgCostNative,
                 avgCostArs: h.avgCostArs,
                 avgCostUsd: h.avgCostUsd,
@@ -198,10 +205,13 @@ export function computeTotals(input: ComputeTotalsInput): PortfolioTotals {
 
         // Calculate PnL (Native)
         if (agg.currentPrice !== undefined) {
-            agg.currentValue = agg.totalQuantity * agg.currentPrice
+            // Bond quotes are per 100 VN
+            const unitPrice = agg.instrument.category === 'BOND' ? agg.currentPrice / BOND_PRICE_BASE : agg.currentPrice
+            agg.currentValue = agg.totalQuantity * unitPrice
             agg.unrealizedPnL = agg.currentValue - agg.totalCostBasis
             agg.unrealizedPnLPercent =
-                agg.totalCostBasis > 0 ? (agg.unrealizedPnL / agg.totalCostBasis) * 100 : 0
+                // Shorts have a negative basis (the proceeds): measure against its size
+                agg.totalCostBasis !== 0 ? (agg.unrealizedPnL / Math.abs(agg.totalCostBasis)) * 100 : 0
         }
 
         // Calculate Dual PnL (Global Aggregation)
@@ -221,6 +231,9 @@ export function computeTotals(input: ComputeTotalsInput): PortfolioTotals {
 
             agg.unrealizedPnL_ARS = agg.valueARS - agg.totalCostBasisArs
             agg.unrealizedPnL_USD = agg.valueUSD - agg.totalCostBasisUsd
+            if (agg.totalCostBasisRealArs != null) {
+                agg.unrealizedPnL_RealARS = agg.valueARS - agg.totalCostBasisRealArs
+            }
 
             totalARS += agg.valueARS
             totalUSD += agg.valueUSD
@@ -4,10 +4,11 @@
  */
 
 import type { Movement } from '@/domain/types'
+import { canOpenShort } from './shorts'
 
 export interface FifoLot {
     date: string
-    quantity: number // Remaining quantity
+    quantity: number // Remaining quantity (negative for a short lot)
     originalQty: number
 
     // Cost Basis (Unit)
@@ -20,6 +21,9 @@ export interface FifoLot {
     fxType: string // 'mep' | 'cripto' | etc
 }
 
+/** Leftovers below this are float noise, not a position */
+const QTY_EPSILON = 0.00000001
+
 export interface FifoResult {
     lots: FifoLot[]
     totalQuantity: number
@@ -32,8 +36,10 @@ export interface FifoResult {
  * Build FIFO inventory from movements.
  * 
  * Strategy:
- * - ADD (Buy, TransferIn, etc): Create new lot.
+ * - ADD (Buy, TransferIn, etc): Cover open short lots, oldest first, then create a new lot.
  * - REMOVE (Sell, TransferOut): Consume from oldest lot.
+ * - A shortable SELL (see `canOpenShort`) beyond the long position opens a short lot
+ *   (negative quantity, unit cost = sale price). Other oversells stop at zero.
  */
 export function buildFifoLots(
     movements: Movement[]
@@ -45,6 +51,42 @@ export function buildFifoLots(
 
     const lots: FifoLot[] = []
 
+    const buildLot = (mov: Movement, quantity: number, price: number, fxRate: number): FifoLot => {
+        let unitCostArs = 0
+        let unitCostUsd = 0
+
+        if (mov.tradeCurrency === 'ARS') {
+            unitCostArs = price
+            unitCostUsd = fxRate > 0 ? price / fxRate : 0
+        } else {
+            // USD or Crypto
+            unitCostUsd = price
+            unitCostArs = price * fxRate
+        }
+
+        // If native is USD/Crypto, unitCostNative = unitCostUsd (mostly)
+        // If native is ARS (CEDEAR), unitCostNative = unitCostArs
+        // However, `movement.unitPrice` is usually in trade currency.
+        // We need `unitCostNative`.
+        // If tradeCurrency != nativeCurrency (e.g. buying Apple (USD native) with ARS),
+        // then price is in ARS. unitCostNative (USD) = priceArs / fx.
+        // If buying CEDEAR (ARS native) with ARS, unitCostNative = price.
+
+        // Simplified assumption: 
+        // We store unitCostArs and unitCostUsd explicitely.
+
+        return {
+            date: mov.datetimeISO,
+            quantity,
+            originalQty: quantity,
+            unitCostNative: price,
+            unitCostArs,
+            unitCostUsd,
+            fxAtTrade: fxRate,
+            fxType: 'implied'
+        }
+    }
+
     for (const mov of sorted) {
         if (!mov.instrumentId) continue
 
@@ -63,41 +105,31 @@ export function buildFifoLots(
             case 'DIVIDEND':
             case 'INTEREST':
             case 'DEBT_ADD': { // Assuming gaining asset via debt? Rarely used for assets.
-                // Create Lot
-                // Calculate unit costs
-                let unitCostArs = 0
-                let unitCostUsd = 0
-
-                if (mov.tradeCurrency === 'ARS') {
-                    unitCostArs = price
-                    unitCostUsd = fxRate > 0 ? price / fxRate : 0
-                } else {
-                    // USD or Crypto
-                    unitCostUsd = price
-                    unitCostArs = price * fxRate
+                // Cash dividends/interest carry no quantity, but still take a
+                // (empty) lot: sales store `lot-{idx}` allocations, so the
+                // numbering of later lots must not shift
+                if (qty <= 0) {
+                    lots.push(buildLot(mov, 0, price, fxRate))
+                    break
                 }
 
-                // If native is USD/Crypto, unitCostNative = unitCostUsd (mostly)
-                // If native is ARS (CEDEAR), unitCostNative = unitCostArs
-                // However, `movement.unitPrice` is usually in trade currency.
-                // We need `unitCostNative`.
-                // If tradeCurrency != nativeCurrency (e.g. buying Apple (USD native) with ARS),
-                // then price is in ARS. unitCostNative (USD) = priceArs / fx.
-                // If buying CEDEAR (ARS native) with ARS, unitCostNative = price.
-
-                // Simplified assumption: 
-                // We store unitCostArs and unitCostUsd explicitely.
-
-                lots.push({
-                    date: mov.datetimeISO,
-                    quantity: qty,
-                    originalQty: qty,
-                    unitCostNative: price,
-                    unitCostArs,
-                    unitCostUsd,
-                    fxAtTrade: fxRate,
-                    fxType: 'implied'
-                })
+                // Cover open shorts first (lots are all short or all long, plus empty ones)
+                let qtyToAdd = qty
+                while (qtyToAdd > 0 && lots.some(lot => lot.quantity < 0)) {
+                    const head = lots[0]
+                    if (head.quantity === 0) {
+                        lots.shift()
+                    } else if (-head.quantity > qtyToAdd) {
+                        head.quantity += qtyToAdd
+                        qtyToAdd = 0
+                    } else {
+                        qtyToAdd += head.quantity
+                        lots.shift()
+                    }
+                }
+
+                // Create Lot
+                if (qtyToAdd > QTY_EPSILON) lots.push(buildLot(mov, qtyToAdd, price, fxRate))
                 break
             }
 
@@ -109,7 +141,7 @@ export function buildFifoLots(
 
                 // Iterate mutable lots array
                 // We must remove from index 0
-                while (qtyToRemove > 0 && lots.length > 0) {
+                while (qtyToRemove > 0 && lots.length > 0 && lots[0].quantity >= 0) {
                     const head = lots[0]
 
                     if (head.quantity > qtyToRemove) {
@@ -122,6 +154,11 @@ export function buildFifoLots(
                         lots.shift() // Remove lot
                     }
                 }
+
+                // Selling beyond the position opens (or extends) a short, when allowed
+                if (canOpenShort(mov) && qtyToRemove > QTY_EPSILON) {
+                    lots.push(buildLot(mov, -qtyToRemove, price, fxRate))
+                }
                 break
             }
         }
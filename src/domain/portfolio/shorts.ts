@@ -0,0 +1,12 @@
+import type { Movement } from '@/domain/types'
+
+/**
+ * Whether a SELL beyond the held quantity may open a short.
+ *
+ * Only options (written calls/puts) and sells flagged `meta.short` go
+ * negative. Anything else that oversells, usually a partial import or a typo,
+ * is capped at zero so it can't invent a negative position.
+ */
+export function canOpenShort(mov: Movement): boolean {
+    return mov.type === 'SELL' && (mov.assetClass === 'option' || mov.meta?.short === true)
+}
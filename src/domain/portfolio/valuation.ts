@@ -4,6 +4,7 @@ import type {
     Currency,
     FxRates,
 } from '@/domain/types'
+import { BOND_PRICE_BASE } from '@/domain/bonds/schedule'
 
 /**
  * Calculates the valuation of a holding based on its category and currency.
@@ -16,6 +17,7 @@ import type {
  *    - valueUsd = valueArs / fxRates.mep (default)
  * 4) CASH in USD: valueUsd = amount; valueArs = valueUsd * fxRates.mep
  * 5) CASH in ARS: valueArs = amount; valueUsd = valueArs / fxRates.mep
+ * 6) BOND: valueNative = qty * pricePer100 / 100; MEP for the other currency
  * 
  * @param quantity Total quantity of the asset
  * @param price Current price (either USD for Crypto/Stable or ARS for Cedear)
@@ -153,6 +155,29 @@ export function calculateValuation(
         }
     }
 
+    // -------------------------------------------------------------------------
+    // 3c. BOND (Renta fija)
+    // Quotes are per 100 VN in the native currency; MEP for the other side.
+    // -------------------------------------------------------------------------
+    if (category === 'BOND') {
+        if (price === undefined || price === null || !Number.isFinite(price) || price <= 0) {
+            return nullResult
+        }
+
+        const valueNative = quantity * price / BOND_PRICE_BASE
+        const rate = fxRates.mep.sell || fxRates.mep.buy || 0
+        const valueUsd = currency === 'USD' ? valueNative : (rate > 0 ? valueNative / rate : null)
+        const valueArs = currency === 'USD' ? valueNative * rate : valueNative
+
+        return {
+            valueArs: Number.isFinite(valueArs) ? valueArs : null,
+            valueUsd: valueUsd != null && Number.isFinite(valueUsd) ? valueUsd : null,
+            fxUsed: 'MEP',
+            exchangeRate: rate,
+            ruleApplied: currency === 'USD' ? 'BOND_USD_MEP' : 'BOND_ARS_MEP'
+        }
+    }
+
     // -------------------------------------------------------------------------
     // 4. CASH (USD)
     // -------------------------------------------------------------------------
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { createPriceHistoryLookup, fxRatesToPricePoints, parsePriceHistoryCsv } from './price-history'
+
+describe('parsePriceHistoryCsv', () => {
+    it('reads the long layout with currencies and FX aliases', () => {
+        const csv = [
+            'fecha;simbolo;cierre;moneda',
+            '2026-01-02;aapl;15.200,50;ARS',
+            '02/01/2026;dolar_mep;1.180,5;',
+            '2026-01-03;BTC;abc;USD',
+        ].join('\n')
+
+        const result = parsePriceHistoryCsv(csv)
+        expect(result.points).toEqual([
+            { key: 'AAPL', date: '2026-01-02', close: 15200.5, currency: 'ARS' },
+            { key: 'FX:MEP', date: '2026-01-02', close: 1180.5, currency: 'ARS' },
+        ])
+        expect(result.invalidLines).toEqual([4])
+    })
+
+    it('reads one column per ticker and skips empty cells', () => {
+        const csv = 'date,AAPL,MEP\n2026-01-02,15000,1180\n2026-01-05,,1190\n'
+
+        const result = parsePriceHistoryCsv(csv)
+        expect(result.points.map(p => `${p.key}@${p.date}=${p.close}`)).toEqual([
+            'AAPL@2026-01-02=15000',
+            'FX:MEP@2026-01-02=1180',
+            'FX:MEP@2026-01-05=1190',
+        ])
+        expect(result.invalidLines).toEqual([])
+    })
+})
+
+describe('createPriceHistoryLookup', () => {
+    it('carries the last close forward a few days, never backwards', () => {
+        const lookup = createPriceHistoryLookup([
+            { key: 'AAPL', date: '2026-01-02', close: 100 },
+            { key: 'AAPL', date: '2026-01-05', close: 110 },
+        ], 7)
+
+        expect(lookup('AAPL', '2026-01-01')).toBeNull()
+        expect(lookup('AAPL', '2026-01-04')?.close).toBe(100)
+        expect(lookup('AAPL', '2026-01-05')?.close).toBe(110)
+        expect(lookup('AAPL', '2026-01-12')?.close).toBe(110)
+        expect(lookup('AAPL', '2026-01-13')).toBeNull()
+    })
+})
+
+describe('fxRatesToPricePoints', () => {
+    it('takes the sell side per FX type on the UTC day of the refresh', () => {
+        const points = fxRatesToPricePoints({
+            oficial: { buy: 1050, sell: 1090 },
+            blue: { buy: 1200, sell: null },
+            mep: { buy: 1170, sell: 1180 },
+            ccl: { buy: null, sell: null },
+            cripto: { buy: 1190, sell: 1210 },
+            updatedAtISO: '2026-01-02T23:30:00-03:00',
+            source: 'test',
+        })
+
+        expect(points.map(p => `${p.key}@${p.date}=${p.close}`)).toEqual([
+            'FX:OFICIAL@2026-01-03=1090',
+            'FX:MEP@2026-01-03=1180',
+            'FX:CRIPTO@2026-01-03=1210',
+            'FX:BLUE@2026-01-03=1200',
+        ])
+    })
+})
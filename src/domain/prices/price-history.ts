@@ -0,0 +1,243 @@
+/**
+ * Historical daily closes for instruments and FX, used to value past
+ * positions when reconstructing snapshots.
+ *
+ * Instruments are keyed by ticker (upper case; FCI by instrument id) and FX
+ * by `FX:<type>` (e.g. FX:MEP, in ARS per USD). The series fills up from every
+ * price refresh (the last quote of a day is its close) and from CSV imports.
+ * Closes are carried forward over weekends and holidays for a few days,
+ * never backwards.
+ */
+
+import type { FxRates, FxType } from '@/domain/types'
+
+export interface PriceHistoryPoint {
+    key: string // Ticker (AAPL, BTC) or FX:<type>
+    date: string // YYYY-MM-DD
+    close: number
+    /** Quote currency; instruments default to their native currency */
+    currency?: 'ARS' | 'USD'
+}
+
+export interface PriceHistoryParseResult {
+    points: PriceHistoryPoint[]
+    /** 1-based line numbers that could not be parsed */
+    invalidLines: number[]
+}
+
+export type PriceHistoryLookup = (key: string, date: string) => PriceHistoryPoint | null
+
+/** FX series kept in the history: the portfolio FX types plus blue */
+export type FxHistoryType = FxType | 'BLUE'
+
+/** Days a close stays valid when there is no newer one (long weekends, holidays) */
+export const PRICE_HISTORY_MAX_STALE_DAYS = 7
+
+const FX_KEY_PATTERN = /^(?:FX[:_ -]?|DOLAR[_ -]?)?(MEP|CCL|OFICIAL|CRIPTO|CRYPTO|BLUE)$/
+const CSV_DATE_HEADER = /^(fecha|date|dia|día|indice_tiempo)$/i
+const CSV_KEY_HEADER = /^(simbolo|símbolo|symbol|ticker|clave|key|activo|especie|instrumento)$/i
+const CSV_CLOSE_HEADER = /^(cierre|close|precio|price|valor|value|ultimo|último)$/i
+const CSV_CURRENCY_HEADER = /^(moneda|currency)$/i
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function fxHistoryKey(type: FxHistoryType): string {
+    return `FX:${type}`
+}
+
+/**
+ * Canonical key: upper-case ticker, FX aliases ("MEP", "dolar_mep",
+ * "fx:cripto") folded into FX:<type>.
+ */
+export function normalizePriceHistoryKey(raw: string): string {
+    const key = raw.trim().toUpperCase()
+    const fx = FX_KEY_PATTERN.exec(key)
+    if (fx) return fxHistoryKey(fx[1] === 'CRYPTO' ? 'CRIPTO' : fx[1] as FxHistoryType)
+    return key
+}
+
+export function isFxHistoryKey(key: string): boolean {
+    return key.startsWith('FX:')
+}
+
+/** UTC day of a timestamp, the same day key snapshots use */
+export function toPriceHistoryDate(iso: string): string {
+    const date = new Date(iso)
+    return Number.isNaN(date.getTime()) ? iso.slice(0, 10) : date.toISOString().slice(0, 10)
+}
+
+/**
+ * Closes of an FX refresh (sell side, buy when there is no sell).
+ */
+export function fxRatesToPricePoints(rates: FxRates): PriceHistoryPoint[] {
+    const date = toPriceHistoryDate(rates.updatedAtISO)
+    const pairs: Array<[FxHistoryType, FxRates[keyof FxRates]]> = [
+        ['OFICIAL', rates.oficial],
+        ['MEP', rates.mep],
+        ['CCL', rates.ccl],
+        ['CRIPTO', rates.cripto],
+        ['BLUE', rates.blue],
+    ]
+
+    const points: PriceHistoryPoint[] = []
+    for (const [type, pair] of pairs) {
+        if (!pair || typeof pair !== 'object') continue
+        const close = pair.sell ?? pair.buy
+        if (close == null || !Number.isFinite(close) || close <= 0) continue
+        points.push({ key: fxHistoryKey(type), date, close, currency: 'ARS' })
+    }
+    return points
+}
+
+/** "2025-01-31", "2025/01/31" or "31/01/2025" */
+function parseHistoryDate(raw: string): string | null {
+    const value = raw.trim()
+    const yearFirst = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ].*)?$/.exec(value)
+    const dayFirst = yearFirst ? null : /^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/.exec(value)
+    const parts = yearFirst
+        ? [yearFirst[1], yearFirst[2], yearFirst[3]]
+        : dayFirst
+            ? [dayFirst[3], dayFirst[2], dayFirst[1]]
+            : null
+    if (!parts) return null
+
+    const [year, month, day] = parts.map(Number)
+    const date = new Date(Date.UTC(year, month - 1, day))
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+    return date.toISOString().slice(0, 10)
+}
+
+/** Accepts "1234.5", "1234,5" and "1.234,5" (thousands dot, decimal comma) */
+function parseHistoryNumber(raw: string): number {
+    const value = raw.trim().replace(/^\$\s*/, '')
+    if (!value) return NaN
+    const normalized = value.includes(',')
+        ? value.replace(/\./g, '').replace(',', '.')
+        : value
+    return Number(normalized)
+}
+
+function parseCurrency(raw: string | undefined): PriceHistoryPoint['currency'] | undefined {
+    const value = raw?.trim().toUpperCase()
+    if (value === 'ARS' || value === 'USD') return value
+    return undefined
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+    return line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1').trim())
+}
+
+/**
+ * Parses a price history CSV. Two layouts are accepted:
+ * - long: "fecha,simbolo,cierre[,moneda]", one close per line
+ * - wide: "fecha,AAPL,BTC,MEP", one column per ticker / FX type (empty cells are skipped)
+ * FX columns are stored in ARS; other closes keep the given currency, if any.
+ * Later lines win on duplicates.
+ */
+export function parsePriceHistoryCsv(text: string): PriceHistoryParseResult {
+    const lines = text.split(/\r?\n/)
+    const headerIdx = lines.findIndex((line) => line.trim() && !line.trim().startsWith('#'))
+    if (headerIdx < 0) return { points: [], invalidLines: [] }
+
+    const headerLine = lines[headerIdx]
+    const delimiter = headerLine.includes(';') ? ';' : headerLine.includes('\t') ? '\t' : ','
+    const header = splitCsvLine(headerLine, delimiter)
+
+    const foundDateCol = header.findIndex((cell) => CSV_DATE_HEADER.test(cell))
+    const dateCol = foundDateCol >= 0 ? foundDateCol : 0
+    const keyCol = header.findIndex((cell) => CSV_KEY_HEADER.test(cell))
+    const closeCol = header.findIndex((cell) => CSV_CLOSE_HEADER.test(cell))
+    const currencyCol = header.findIndex((cell) => CSV_CURRENCY_HEADER.test(cell))
+    const isLong = keyCol >= 0 && closeCol >= 0
+
+    const wideCols = isLong
+        ? []
+        : header
+            .map((cell, idx) => ({ idx, key: normalizePriceHistoryKey(cell) }))
+            .filter(({ idx, key }) => idx !== dateCol && idx !== currencyCol && key.length > 0)
+    if (!isLong && wideCols.length === 0) return { points: [], invalidLines: [headerIdx + 1] }
+
+    const byKeyDate = new Map<string, PriceHistoryPoint>()
+    const invalidLines: number[] = []
+    const add = (key: string, date: string, close: number, currency?: PriceHistoryPoint['currency']) => {
+        const point: PriceHistoryPoint = { key, date, close }
+        const resolvedCurrency = isFxHistoryKey(key) ? 'ARS' : currency
+        if (resolvedCurrency) point.currency = resolvedCurrency
+        byKeyDate.set(`${key}|${date}`, point)
+    }
+
+    lines.forEach((raw, idx) => {
+        if (idx <= headerIdx) return
+        const line = raw.trim()
+        if (!line || line.startsWith('#')) return
+
+        const cells = splitCsvLine(line, delimiter)
+        const date = parseHistoryDate(cells[dateCol] ?? '')
+        if (!date) {
+            invalidLines.push(idx + 1)
+            return
+        }
+        const currency = currencyCol >= 0 ? parseCurrency(cells[currencyCol]) : undefined
+
+        if (isLong) {
+            const key = normalizePriceHistoryKey(cells[keyCol] ?? '')
+            const close = parseHistoryNumber(cells[closeCol] ?? '')
+            if (!key || !Number.isFinite(close) || close <= 0) {
+                invalidLines.push(idx + 1)
+                return
+            }
+            add(key, date, close, currency)
+            return
+        }
+
+        let lineValid = true
+        for (const { idx: col, key } of wideCols) {
+            const cell = cells[col] ?? ''
+            if (!cell) continue
+            const close = parseHistoryNumber(cell)
+            if (!Number.isFinite(close) || close <= 0) {
+                lineValid = false
+                continue
+            }
+            add(key, date, close, currency)
+        }
+        if (!lineValid) invalidLines.push(idx + 1)
+    })
+
+    const points = [...byKeyDate.values()]
+        .sort((a, b) => a.key.localeCompare(b.key) || a.date.localeCompare(b.date))
+    return { points, invalidLines }
+}
+
+/**
+ * Lookup of the latest close on or before a date, at most `maxStaleDays` old.
+ */
+export function createPriceHistoryLookup(
+    points: PriceHistoryPoint[],
+    maxStaleDays: number = PRICE_HISTORY_MAX_STALE_DAYS
+): PriceHistoryLookup {
+    const byKey = new Map<string, PriceHistoryPoint[]>()
+    for (const point of points) {
+        const list = byKey.get(point.key) ?? []
+        list.push(point)
+        byKey.set(point.key, list)
+    }
+    for (const list of byKey.values()) list.sort((a, b) => a.date.localeCompare(b.date))
+
+    return (key, date) => {
+        const list = byKey.get(key)
+        if (!list || list.length === 0 || list[0].date > date) return null
+
+        let low = 0
+        let high = list.length - 1
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2)
+            if (list[mid].date <= date) low = mid
+            else high = mid - 1
+        }
+
+        const point = list[low]
+        const ageDays = (Date.parse(`${date}T00:00:00Z`) - Date.parse(`${point.date}T00:00:00Z`)) / DAY_MS
+        return ageDays <= maxStaleDays ? point : null
+    }
+}
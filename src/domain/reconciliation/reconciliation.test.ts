@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import {
+    buildAdjustmentMovement,
+    buildReconciledPeriods,
+    computeLedgerBalanceAt,
+    findCandidateMovements,
+    isDateReconciled,
+} from './reconciliation'
+import type { Movement } from '@/domain/types'
+import type { Reconciliation } from './types'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function cash(id: string, day: string, type: Movement['type'], amount: number): Movement {
+    return {
+        id,
+        datetimeISO: new Date(`${day}T12:00:00`).toISOString(),
+        type,
+        assetClass: 'wallet',
+        accountId: 'bank',
+        tradeCurrency: 'ARS',
+        totalAmount: amount,
+    }
+}
+
+function reconciliation(overrides: Partial<Reconciliation> & Pick<Reconciliation, 'dateLocal' | 'statementBalance'>): Reconciliation {
+    return {
+        id: `rec-${overrides.dateLocal}`,
+        accountId: 'bank',
+        currency: 'ARS',
+        ledgerBalance: overrides.statementBalance,
+        difference: 0,
+        createdAtISO: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    }
+}
+
+const movements: Movement[] = [
+    cash('d1', '2026-03-01', 'DEPOSIT', 1000),
+    cash('w1', '2026-03-05', 'WITHDRAW', 200),
+    cash('w2', '2026-03-05', 'WITHDRAW', 200),
+    cash('f1', '2026-03-10', 'FEE', 15),
+    cash('d2', '2026-04-01', 'DEPOSIT', 500),
+]
+
+describe('computeLedgerBalanceAt', () => {
+    it('sums cash deltas up to the end of the day', () => {
+        expect(computeLedgerBalanceAt(movements, 'bank', 'ARS', '2026-03-05')).toBe(600)
+        expect(computeLedgerBalanceAt(movements, 'bank', 'ARS', '2026-03-31')).toBe(585)
+        expect(computeLedgerBalanceAt(movements, 'bank', 'USD', '2026-03-31')).toBe(0)
+    })
+
+    it('includes the inferred opening balance of the account', () => {
+        const noDeposit = [cash('w', '2026-03-02', 'WITHDRAW', 300), cash('d', '2026-03-09', 'DEPOSIT', 100)]
+        expect(computeLedgerBalanceAt(noDeposit, 'bank', 'ARS', '2026-03-01')).toBe(300)
+        expect(computeLedgerBalanceAt(noDeposit, 'bank', 'ARS', '2026-03-10')).toBe(100)
+    })
+})
+
+describe('findCandidateMovements', () => {
+    it('ranks a movement matching the difference first and flags duplicates', () => {
+        // Statement 800 vs ledger 585: the 200 withdrawal may be wrong
+        const candidates = findCandidateMovements(movements, 'bank', 'ARS', '2026-03-31', 215)
+        expect(candidates.map(c => [c.movement.id, c.reason])).toEqual([
+            ['w1', 'duplicate'],
+            ['w2', 'duplicate'],
+            ['f1', 'in_period'],
+            ['d1', 'in_period'],
+        ])
+
+        const matching = findCandidateMovements(movements, 'bank', 'ARS', '2026-03-31', 200)
+        expect(matching.slice(0, 2).map(c => c.reason)).toEqual(['matches_difference', 'matches_difference'])
+    })
+
+    it('detects sign flips and limits the search to the open period', () => {
+        const candidates = findCandidateMovements(movements, 'bank', 'ARS', '2026-03-31', 30, '2026-03-05')
+        expect(candidates).toEqual([{ movement: movements[3], delta: -15, reason: 'sign_flipped' }])
+    })
+})
+
+describe('buildAdjustmentMovement', () => {
+    it('books the signed difference at the end of the reconciled day', () => {
+        const mov = buildAdjustmentMovement(
+            { id: 'rec-1', accountId: 'bank', currency: 'ARS', dateLocal: '2026-03-31', difference: -42.5 },
+            () => 'adj-1'
+        )
+        expect(mov).toMatchObject({ id: 'adj-1', type: 'ADJUSTMENT', totalAmount: -42.5, meta: { reconciliationId: 'rec-1' } })
+        expect(new Date(mov.datetimeISO).getDate()).toBe(31)
+        expect(computeLedgerBalanceAt([...movements, mov], 'bank', 'ARS', '2026-03-31')).toBeCloseTo(542.5)
+    })
+})
+
+describe('buildReconciledPeriods', () => {
+    it('chains periods newest first and reports drift after later edits', () => {
+        const recs = [
+            reconciliation({ dateLocal: '2026-03-31', statementBalance: 585 }),
+            reconciliation({ dateLocal: '2026-03-05', statementBalance: 600 }),
+        ]
+        const edited = movements.filter(m => m.id !== 'f1')
+        const periods = buildReconciledPeriods(recs, edited, 'bank', 'ARS')
+
+        expect(periods.map(p => [p.fromDateLocal, p.toDateLocal, p.drift])).toEqual([
+            ['2026-03-05', '2026-03-31', 15],
+            [null, '2026-03-05', 0],
+        ])
+        expect(isDateReconciled(recs, 'bank', movements[3].datetimeISO)).toBe(true)
+        expect(isDateReconciled(recs, 'bank', movements[4].datetimeISO)).toBe(false)
+    })
+})
@@ -0,0 +1,179 @@
+/**
+ * Account reconciliation
+ *
+ * The ledger balance on a date is the inferred opening of the account (see
+ * computeCashLedger) plus every cash delta up to the end of that local day.
+ * A difference with the statement is closed by a signed ADJUSTMENT movement.
+ */
+
+import type { Currency, Movement } from '@/domain/types'
+import { computeCashLedger, getMovementCashDeltas } from '@/domain/portfolio/cash-ledger'
+import { toLocalDateKey } from '@/lib/dates'
+import type {
+    CandidateReason,
+    ReconciledPeriod,
+    Reconciliation,
+    ReconciliationCandidate,
+} from './types'
+
+const REASON_ORDER: CandidateReason[] = ['matches_difference', 'sign_flipped', 'duplicate', 'in_period']
+
+/** Differences below this are rounding noise (1 cent or 0.1% of the difference) */
+export function reconciliationTolerance(difference: number): number {
+    return Math.max(0.01, Math.abs(difference) * 0.001)
+}
+
+export function isWithinTolerance(difference: number): boolean {
+    return Math.abs(difference) < 0.01
+}
+
+function cashDeltaIn(mov: Movement, currency: Currency): number {
+    return getMovementCashDeltas(mov)
+        .filter(d => d.currency === currency)
+        .reduce((sum, d) => sum + d.amount, 0)
+}
+
+export function computeLedgerBalanceAt(
+    movements: Movement[],
+    accountId: string,
+    currency: Currency,
+    dateLocal: string
+): number {
+    const accountMovements = movements.filter(m => m.accountId === accountId)
+    const opening = computeCashLedger(accountMovements).openingBalances.get(accountId)?.get(currency) ?? 0
+
+    let balance = opening
+    for (const mov of accountMovements) {
+        if (toLocalDateKey(mov.datetimeISO) > dateLocal) continue
+        balance += cashDeltaIn(mov, currency)
+    }
+    return balance
+}
+
+/** Latest reconciliation strictly before a date (for the same account and currency) */
+export function findPreviousReconciliation(
+    reconciliations: Reconciliation[],
+    accountId: string,
+    currency: Currency,
+    dateLocal: string
+): Reconciliation | undefined {
+    return reconciliations
+        .filter(r => r.accountId === accountId && r.currency === currency && r.dateLocal < dateLocal)
+        .sort((a, b) => b.dateLocal.localeCompare(a.dateLocal))[0]
+}
+
+/**
+ * Movements of the period since the previous reconciliation that could
+ * explain a difference, most likely first.
+ */
+export function findCandidateMovements(
+    movements: Movement[],
+    accountId: string,
+    currency: Currency,
+    dateLocal: string,
+    difference: number,
+    fromDateLocal?: string | null
+): ReconciliationCandidate[] {
+    const tolerance = reconciliationTolerance(difference)
+
+    const inPeriod = movements
+        .filter(m => m.accountId === accountId)
+        .map(movement => ({ movement, day: toLocalDateKey(movement.datetimeISO), delta: cashDeltaIn(movement, currency) }))
+        .filter(({ day, delta }) => delta !== 0 && day <= dateLocal && (!fromDateLocal || day > fromDateLocal))
+
+    const duplicateKeys = new Map<string, number>()
+    const keyOf = (entry: typeof inPeriod[number]) => `${entry.movement.type}|${entry.day}|${entry.delta.toFixed(2)}`
+    for (const entry of inPeriod) {
+        duplicateKeys.set(keyOf(entry), (duplicateKeys.get(keyOf(entry)) ?? 0) + 1)
+    }
+
+    const candidates: ReconciliationCandidate[] = inPeriod.map(entry => {
+        let reason: CandidateReason = 'in_period'
+        if (!isWithinTolerance(difference)) {
+            // Removing the movement moves the ledger by -delta, flipping it by -2*delta
+            if (Math.abs(Math.abs(entry.delta) - Math.abs(difference)) <= tolerance) reason = 'matches_difference'
+            else if (Math.abs(-2 * entry.delta - difference) <= tolerance) reason = 'sign_flipped'
+        }
+        if (reason === 'in_period' && (duplicateKeys.get(keyOf(entry)) ?? 0) > 1) reason = 'duplicate'
+        return { movement: entry.movement, delta: entry.delta, reason }
+    })
+
+    return candidates.sort((a, b) =>
+        REASON_ORDER.indexOf(a.reason) - REASON_ORDER.indexOf(b.reason)
+        || b.movement.datetimeISO.localeCompare(a.movement.datetimeISO)
+    )
+}
+
+/** Signed cash correction booked at the end of the reconciled day */
+export function buildAdjustmentMovement(
+    reconciliation: Pick<Reconciliation, 'id' | 'accountId' | 'currency' | 'dateLocal' | 'difference' | 'notes'>,
+    createId: () => string = () => crypto.randomUUID()
+): Movement {
+    const [y, m, d] = reconciliation.dateLocal.split('-').map(Number)
+    const datetimeISO = new Date(y, m - 1, d, 23, 59, 59).toISOString()
+
+    return {
+        id: createId(),
+        datetimeISO,
+        type: 'ADJUSTMENT',
+        assetClass: 'wallet',
+        accountId: reconciliation.accountId,
+        tradeCurrency: reconciliation.currency,
+        totalAmount: reconciliation.difference,
+        netAmount: reconciliation.difference,
+        notes: reconciliation.notes || `Ajuste de conciliación al ${reconciliation.dateLocal}`,
+        source: 'user',
+        meta: { reconciliationId: reconciliation.id },
+    }
+}
+
+/**
+ * Reconciled periods of an account/currency, newest first. `drift` is how far
+ * the ledger moved from the statement after the reconciliation was recorded.
+ */
+export function buildReconciledPeriods(
+    reconciliations: Reconciliation[],
+    movements: Movement[],
+    accountId: string,
+    currency: Currency
+): ReconciledPeriod[] {
+    const sorted = reconciliations
+        .filter(r => r.accountId === accountId && r.currency === currency)
+        .sort((a, b) => a.dateLocal.localeCompare(b.dateLocal))
+
+    const periods = sorted.map((reconciliation, i) => {
+        const ledger = computeLedgerBalanceAt(movements, accountId, currency, reconciliation.dateLocal)
+        const drift = ledger - reconciliation.statementBalance
+        return {
+            reconciliation,
+            fromDateLocal: i > 0 ? sorted[i - 1].dateLocal : null,
+            toDateLocal: reconciliation.dateLocal,
+            drift: isWithinTolerance(drift) ? 0 : drift,
+        }
+    })
+    return periods.reverse()
+}
+
+/** Last reconciled day of an account (any currency unless one is given) */
+export function lastReconciledDate(
+    reconciliations: Reconciliation[],
+    accountId: string,
+    currency?: Currency
+): string | null {
+    let last: string | null = null
+    for (const r of reconciliations) {
+        if (r.accountId !== accountId || (currency && r.currency !== currency)) continue
+        if (!last || r.dateLocal > last) last = r.dateLocal
+    }
+    return last
+}
+
+export function isDateReconciled(
+    reconciliations: Reconciliation[],
+    accountId: string,
+    datetimeISO: string,
+    currency?: Currency
+): boolean {
+    const last = lastReconciledDate(reconciliations, accountId, currency)
+    return !!last && toLocalDateKey(datetimeISO) <= last
+}
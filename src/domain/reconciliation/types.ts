@@ -0,0 +1,42 @@
+/**
+ * Reconciliation Types
+ * A statement balance entered for an account/currency on a date, checked
+ * against the cash ledger derived from movements.
+ */
+
+import type { Currency, Movement } from '@/domain/types'
+
+export interface Reconciliation {
+    id: string
+    accountId: string
+    currency: Currency
+    dateLocal: string               // YYYY-MM-DD, balance at the end of the day
+    statementBalance: number        // What the bank / broker shows
+    ledgerBalance: number           // Computed from movements before the adjustment
+    difference: number              // statementBalance - ledgerBalance
+    adjustmentMovementId?: string   // ADJUSTMENT movement that closed the difference
+    notes?: string
+    createdAtISO: string
+}
+
+/**
+ * - matches_difference: its amount equals the difference (missing or extra movement)
+ * - sign_flipped: twice its amount equals the difference (deposit entered as withdrawal or vice versa)
+ * - duplicate: same type, amount and day as another movement
+ * - in_period: any other movement since the last reconciliation
+ */
+export type CandidateReason = 'matches_difference' | 'sign_flipped' | 'duplicate' | 'in_period'
+
+export interface ReconciliationCandidate {
+    movement: Movement
+    delta: number                   // Cash effect in the reconciled currency
+    reason: CandidateReason
+}
+
+export interface ReconciledPeriod {
+    reconciliation: Reconciliation
+    fromDateLocal: string | null    // Previous reconciliation date (exclusive), null for the first one
+    toDateLocal: string
+    /** Ledger minus statement today: non-zero when movements were added or edited afterwards */
+    drift: number
+}
@@ -0,0 +1,92 @@
+import 'fake-indexeddb/auto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Table } from 'dexie'
+import { db } from '@/db/schema'
+import { exportLocalBackup, importLocalBackup, parseBackupJson } from './local-backup'
+
+function makeStorage(): Storage {
+    const values = new Map<string, string>()
+    return {
+        get length() { return values.size },
+        clear: () => values.clear(),
+        getItem: (key) => values.get(key) ?? null,
+        key: (index) => Array.from(values.keys())[index] ?? null,
+        removeItem: (key) => { values.delete(key) },
+        setItem: (key, value) => { values.set(key, String(value)) },
+    }
+}
+
+/** One row per table, shaped only as far as each primary key needs */
+const ROWS: Record<string, Record<string, unknown>> = {
+    accounts: { id: 'iol', name: 'IOL', kind: 'BROKER', defaultCurrency: 'ARS' },
+    instruments: { id: 'SPY', symbol: 'SPY', name: 'SPDR S&P 500', category: 'CEDEAR', nativeCurrency: 'ARS', priceKey: 'spy' },
+    movements: { id: 'mov-1', datetimeISO: '2025-06-01T12:00:00.000Z', type: 'BUY', accountId: 'iol', instrumentId: 'SPY', quantity: 1, totalAmount: 1000, tradeCurrency: 'ARS' },
+    snapshots: { id: 'snap-1', dateLocal: '2025-06-01', totalARS: 1000, totalUSD: 1 },
+    manualPrices: { instrumentId: 'SPY', price: 1000, updatedAtISO: '2025-06-01T12:00:00.000Z' },
+    accountSettings: { id: 'iol', displayNameOverride: 'Invertir Online' },
+    priceAlerts: { id: 'alert-1', assetKind: 'cedear', assetId: 'SPY', condition: 'above', threshold: 1200 },
+    allocationTargets: { id: 'cedears', targetPct: 40 },
+    movementDrafts: { id: 'draft-1', datetimeISO: '2025-07-01T12:00:00.000Z', type: 'BUY', accountId: 'iol', instrumentId: 'SPY', quantity: 1, totalAmount: 1000, tradeCurrency: 'ARS' },
+    corporateActions: { id: 'ca-1', instrumentId: 'SPY', type: 'SPLIT', effectiveDate: '2025-05-01', ratio: 2 },
+    cpiMonths: { month: '2025-05', index: 8000 },
+    priceHistory: { key: 'cedear:SPY', date: '2025-05-30', price: 990 },
+    uvaIndex: { date: '2025-05-30', value: 1400 },
+    reconciliations: { id: 'rec-1', accountId: 'iol', currency: 'ARS', dateLocal: '2025-06-01', expected: 1000, actual: 1000 },
+    duplicateResolutions: { id: 'dup-1', groupKey: 'group-1', createdAtISO: '2025-06-01T12:00:00.000Z' },
+    dcaPlans: { id: 'dca-1', accountId: 'iol', instrumentId: 'SPY', amount: 50_000 },
+}
+
+function table(name: string): Table<unknown, unknown> {
+    return db.table(name)
+}
+
+describe('local backup', () => {
+    beforeEach(async () => {
+        vi.stubGlobal('localStorage', makeStorage())
+        await Promise.all(Object.keys(ROWS).map(name => table(name).clear()))
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('round-trips every user-data table through export and import', async () => {
+        for (const [name, row] of Object.entries(ROWS)) {
+            await table(name).put(row)
+        }
+        localStorage.setItem('argfolio.valuationPolicy', 'mep')
+
+        const payload = parseBackupJson(JSON.stringify(await exportLocalBackup()))
+
+        await Promise.all(Object.keys(ROWS).map(name => table(name).clear()))
+        localStorage.clear()
+
+        const result = await importLocalBackup(payload)
+
+        for (const [name, row] of Object.entries(ROWS)) {
+            expect(await table(name).toArray(), name).toEqual([row])
+            expect(result[name as keyof typeof result], name).toBe(1)
+        }
+        expect(localStorage.getItem('argfolio.valuationPolicy')).toBe('mep')
+    })
+
+    it('still imports backups written before the newer tables existed', async () => {
+        const payload = parseBackupJson(JSON.stringify({
+            version: 1,
+            exportedAtISO: '2025-01-01T00:00:00.000Z',
+            data: {
+                accounts: [ROWS.accounts],
+                instruments: [],
+                movements: [],
+                snapshots: [],
+                manualPrices: [],
+                preferences: {},
+            },
+        }))
+
+        const result = await importLocalBackup(payload)
+
+        expect(result).toMatchObject({ accounts: 1, priceAlerts: 0, dcaPlans: 0 })
+        expect(await db.accounts.count()).toBe(1)
+    })
+})
@@ -1,4 +1,5 @@
-import { db } from '@/db/schema'
+import type { Table } from 'dexie'
+import { db, type ArgfolioDatabase } from '@/db/schema'
 import type { Account, Instrument, ManualPrice, Movement, Snapshot } from '@/domain/types'
 
 const BACKUP_VERSION = 1
@@ -10,8 +11,32 @@ const PREFERENCE_KEYS = [
     'argfolio.cryptoCostingMethod',
     'argfolio.autoAccrueWalletInterest',
     'argfolio.autoSettleFixedTerms',
+    'argfolio.valuationPolicy',
 ] as const
 
+/**
+ * Tables added after the first backup format. Optional on import, so older
+ * backups still load. Left out on purpose: fired alert events (a per-device
+ * notification log) and sync bookkeeping (syncMeta / syncConflicts).
+ */
+const EXTRA_TABLES = [
+    'accountSettings',
+    'priceAlerts',
+    'allocationTargets',
+    'movementDrafts',
+    'corporateActions',
+    'cpiMonths',
+    'priceHistory',
+    'uvaIndex',
+    'reconciliations',
+    'duplicateResolutions',
+    'dcaPlans',
+] as const
+
+type ExtraTable = typeof EXTRA_TABLES[number]
+type RowOf<K extends ExtraTable> = Parameters<ArgfolioDatabase[K]['put']>[0]
+type ExtraTablesData = { [K in ExtraTable]?: RowOf<K>[] }
+
 export interface LocalBackupPayload {
     version: number
     exportedAtISO: string
@@ -23,7 +48,7 @@ export interface LocalBackupPayload {
         manualPrices: ManualPrice[]
         preferences: Partial<Record<typeof PREFERENCE_KEYS[number], string>>
         financeExpress?: string | null
-    }
+    } & ExtraTablesData
 }
 
 function assertArray(value: unknown, field: string): unknown[] {
@@ -38,6 +63,10 @@ function assertOptionalArray(value: unknown, field: string): unknown[] {
     return assertArray(value, field)
 }
 
+function extraTable(name: ExtraTable): Table<unknown, unknown> {
+    return db[name] as unknown as Table<unknown, unknown>
+}
+
 export async function exportLocalBackup(): Promise<LocalBackupPayload> {
     const [accounts, instruments, movements, snapshots, manualPrices] = await Promise.all([
         db.accounts.toArray(),
@@ -46,6 +75,10 @@ export async function exportLocalBackup(): Promise<LocalBackupPayload> {
         db.snapshots.toArray(),
         db.manualPrices.toArray(),
     ])
+    const extras: Record<string, unknown[]> = {}
+    for (const name of EXTRA_TABLES) {
+        extras[name] = await extraTable(name).toArray()
+    }
 
     const preferences: Partial<Record<typeof PREFERENCE_KEYS[number], string>> = {}
     for (const key of PREFERENCE_KEYS) {
@@ -66,6 +99,7 @@ export async function exportLocalBackup(): Promise<LocalBackupPayload> {
             manualPrices,
             preferences,
             financeExpress,
+            ...(extras as ExtraTablesData),
         },
     }
 }
@@ -96,6 +130,10 @@ export function parseBackupJson(raw: string): LocalBackupPayload {
     assertArray(data.movements, 'data.movements')
     const snapshots = assertOptionalArray(data.snapshots, 'data.snapshots')
     assertArray(data.manualPrices, 'data.manualPrices')
+    const extras: Record<string, unknown[]> = {}
+    for (const name of EXTRA_TABLES) {
+        extras[name] = assertOptionalArray(data[name], `data.${name}`)
+    }
 
     return {
         version: BACKUP_VERSION,
@@ -106,6 +144,7 @@ export function parseBackupJson(raw: string): LocalBackupPayload {
             movements: data.movements as Movement[],
             snapshots: snapshots as Snapshot[],
             manualPrices: data.manualPrices as ManualPrice[],
+            ...(extras as ExtraTablesData),
             preferences: (data.preferences && typeof data.preferences === 'object')
                 ? data.preferences as Partial<Record<typeof PREFERENCE_KEYS[number], string>>
                 : {},
@@ -120,15 +159,22 @@ export async function importLocalBackup(payload: LocalBackupPayload): Promise<{
     movements: number
     snapshots: number
     manualPrices: number
-}> {
+} & Record<ExtraTable, number>> {
     const { accounts, instruments, movements, snapshots, manualPrices, preferences } = payload.data
+    const extraCounts = {} as Record<ExtraTable, number>
 
-    await db.transaction('rw', [db.accounts, db.instruments, db.movements, db.snapshots, db.manualPrices], async () => {
+    const tables = [db.accounts, db.instruments, db.movements, db.snapshots, db.manualPrices, ...EXTRA_TABLES.map(extraTable)]
+    await db.transaction('rw', tables, async () => {
         if (accounts.length > 0) await db.accounts.bulkPut(accounts)
         if (instruments.length > 0) await db.instruments.bulkPut(instruments)
         if (movements.length > 0) await db.movements.bulkPut(movements)
         if (snapshots.length > 0) await db.snapshots.bulkPut(snapshots)
         if (manualPrices.length > 0) await db.manualPrices.bulkPut(manualPrices)
+        for (const name of EXTRA_TABLES) {
+            const rows = (payload.data[name] ?? []) as unknown[]
+            if (rows.length > 0) await extraTable(name).bulkPut(rows)
+            extraCounts[name] = rows.length
+        }
     })
 
     for (const key of PREFERENCE_KEYS) {
@@ -149,5 +195,6 @@ export async function importLocalBackup(payload: LocalBackupPayload): Promise<{
         movements: movements.length,
         snapshots: snapshots.length,
         manualPrices: manualPrices.length,
+        ...extraCounts,
     }
 }
@@ -0,0 +1,3 @@
+export * from './types'
+export * from './tax-report'
+export * from './workbook'
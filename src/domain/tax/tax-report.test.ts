@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest'
+import { buildTaxReport, computeRealizedGains } from './tax-report'
+import type { Instrument, Movement } from '@/domain/types'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const AAPL: Instrument = {
+    id: 'inst-aapl',
+    symbol: 'AAPL',
+    name: 'Apple',
+    category: 'CEDEAR',
+    nativeCurrency: 'ARS',
+    priceKey: 'aapl',
+}
+
+const BTC: Instrument = {
+    id: 'inst-btc',
+    symbol: 'BTC',
+    name: 'Bitcoin',
+    category: 'CRYPTO',
+    nativeCurrency: 'USD',
+    priceKey: 'btc',
+}
+
+const instrumentMap = new Map([AAPL, BTC].map(i => [i.id, i]))
+
+function trade(overrides: Partial<Movement> & Pick<Movement, 'id' | 'datetimeISO' | 'type' | 'quantity' | 'unitPrice'>): Movement {
+    const gross = overrides.quantity! * overrides.unitPrice!
+    return {
+        accountId: 'acc-broker',
+        instrumentId: AAPL.id,
+        assetClass: 'cedear',
+        tradeCurrency: 'ARS',
+        totalAmount: gross,
+        fxAtTrade: 1000,
+        ...overrides,
+    }
+}
+
+// Two CEDEAR lots: 10 @ 1000 (fx 1000) and 10 @ 2000 (fx 1000)
+const cedearBuys: Movement[] = [
+    trade({ id: 'b1', datetimeISO: '2025-02-01T12:00:00.000Z', type: 'BUY', quantity: 10, unitPrice: 1000 }),
+    trade({ id: 'b2', datetimeISO: '2025-03-01T12:00:00.000Z', type: 'BUY', quantity: 10, unitPrice: 2000 }),
+]
+
+// ---------------------------------------------------------------------------
+// Realized gains
+// ---------------------------------------------------------------------------
+
+describe('computeRealizedGains', () => {
+    it('resolves cost from stored lot allocations', () => {
+        const sale = trade({
+            id: 's1',
+            datetimeISO: '2025-06-01T12:00:00.000Z',
+            type: 'SELL',
+            quantity: 5,
+            unitPrice: 3000,
+            meta: { costingMethod: 'LIFO', allocations: [{ lotId: 'lot-1', qty: 5, costUsd: 10000 }] },
+        })
+
+        const [row] = computeRealizedGains([...cedearBuys, sale], 2025, instrumentMap)
+        expect(row.costSource).toBe('allocations')
+        expect(row.costingMethod).toBe('LIFO')
+        expect(row.proceedsArs).toBeCloseTo(15000, 2)
+        expect(row.costArs).toBeCloseTo(10000, 2)
+        expect(row.gainArs).toBeCloseTo(5000, 2)
+        expect(row.costUsd).toBeCloseTo(10, 4)
+    })
+
+    it('keeps lot numbering when a cash dividend precedes the buys', () => {
+        // Cash dividend (no quantity) from an earlier position: it still takes lot-0
+        const dividend = trade({ id: 'd1', datetimeISO: '2025-01-15T12:00:00.000Z', type: 'DIVIDEND', quantity: 0, unitPrice: 0, totalAmount: 500 })
+        const sale = trade({
+            id: 's1',
+            datetimeISO: '2025-06-01T12:00:00.000Z',
+            type: 'SELL',
+            quantity: 5,
+            unitPrice: 3000,
+            // Stored by the wizard, which listed the dividend's empty lot first
+            meta: { costingMethod: 'FIFO', allocations: [{ lotId: 'lot-1', qty: 5, costUsd: 5000 }] },
+        })
+
+        const [row] = computeRealizedGains([dividend, ...cedearBuys, sale], 2025, instrumentMap)
+        expect(row.costSource).toBe('allocations')
+        // lot-1 is the first buy (10 @ 1000), not the second one
+        expect(row.costArs).toBeCloseTo(5000, 2)
+        expect(row.gainArs).toBeCloseTo(10000, 2)
+    })
+
+    it('defaults to PPP when the sale has no allocations', () => {
+        const sale = trade({ id: 's1', datetimeISO: '2025-06-01T12:00:00.000Z', type: 'SELL', quantity: 10, unitPrice: 3000 })
+
+        const [row] = computeRealizedGains([...cedearBuys, sale], 2025, instrumentMap)
+        expect(row.costSource).toBe('method')
+        expect(row.costingMethod).toBe('PPP')
+        expect(row.costArs).toBeCloseTo(15000, 2)
+        expect(row.gainArs).toBeCloseTo(15000, 2)
+    })
+
+    it('re-runs the stored costing method without allocations', () => {
+        const sale = trade({
+            id: 's1',
+            datetimeISO: '2025-06-01T12:00:00.000Z',
+            type: 'SELL',
+            quantity: 10,
+            unitPrice: 3000,
+            meta: { costingMethod: 'FIFO' },
+        })
+
+        const [row] = computeRealizedGains([...cedearBuys, sale], 2025, instrumentMap)
+        expect(row.costArs).toBeCloseTo(10000, 2)
+    })
+
+    it('ignores sales outside the requested year', () => {
+        const sale = trade({ id: 's1', datetimeISO: '2024-06-01T12:00:00.000Z', type: 'SELL', quantity: 1, unitPrice: 3000 })
+        expect(computeRealizedGains([...cedearBuys, sale], 2025, instrumentMap)).toHaveLength(0)
+    })
+
+    it('reports plazo fijo interest as a gain', () => {
+        const constitute: Movement = {
+            id: 'pf-1',
+            datetimeISO: '2025-04-01T12:00:00.000Z',
+            type: 'BUY',
+            assetClass: 'pf',
+            accountId: 'acc-bank',
+            tradeCurrency: 'ARS',
+            totalAmount: 100000,
+            principalARS: 100000,
+        }
+        const redeem: Movement = {
+            id: 'pf-settle-sell:pf-1',
+            datetimeISO: '2025-05-01T12:00:00.000Z',
+            type: 'SELL',
+            assetClass: 'pf',
+            accountId: 'acc-bank',
+            tradeCurrency: 'ARS',
+            totalAmount: 103000,
+            pf: { kind: 'redeem', pfId: 'pf-1' },
+        }
+
+        const [row] = computeRealizedGains([constitute, redeem], 2025, instrumentMap)
+        expect(row.assetClass).toBe('pf')
+        expect(row.gainArs).toBeCloseTo(3000, 2)
+    })
+})
+
+// ---------------------------------------------------------------------------
+// Full report
+// ---------------------------------------------------------------------------
+
+describe('buildTaxReport', () => {
+    it('values year-end holdings with the official rate', () => {
+        const btcBuy: Movement = {
+            id: 'btc-1',
+            datetimeISO: '2025-03-01T12:00:00.000Z',
+            type: 'BUY',
+            assetClass: 'crypto',
+            instrumentId: BTC.id,
+            accountId: 'acc-exchange',
+            quantity: 0.5,
+            unitPrice: 60000,
+            tradeCurrency: 'USD',
+            totalAmount: 30000,
+            fxAtTrade: 1200,
+        }
+
+        const report = buildTaxReport(
+            [...cedearBuys, btcBuy],
+            [AAPL, BTC],
+            { year: 2025, fxOficialBuy: 1000, yearEndPrices: { [BTC.id]: 80000 } },
+        )
+
+        const aapl = report.bienesPersonales.find(r => r.instrumentId === AAPL.id)!
+        expect(aapl.quantity).toBe(20)
+        expect(aapl.priceSource).toBe('last_trade')
+        expect(aapl.valueArs).toBeCloseTo(40000, 2)
+
+        const btc = report.bienesPersonales.find(r => r.instrumentId === BTC.id)!
+        expect(btc.priceSource).toBe('manual')
+        expect(btc.valueArs).toBeCloseTo(0.5 * 80000 * 1000, 2)
+
+        expect(report.realized).toHaveLength(0)
+        expect(report.warnings).toHaveLength(0)
+    })
+
+    it('excludes holdings bought after 31/12', () => {
+        const report = buildTaxReport(cedearBuys, [AAPL], { year: 2024, fxOficialBuy: 1000 })
+        expect(report.bienesPersonales.filter(r => r.instrumentId)).toHaveLength(0)
+    })
+})
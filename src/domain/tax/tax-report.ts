@@ -0,0 +1,558 @@
+/**
+ * Tax Report Engine
+ *
+ * Builds the yearly tax workbook from raw movements:
+ *   Ganancias          — realized gains per SELL, split by CEDEAR / crypto / FCI / PF
+ *   Bienes Personales  — holdings at 31/12 valued with the official (BNA comprador) rate
+ *
+ * Sale cost is resolved with the same lot engine the buy/sell wizards use:
+ * lots are rebuilt with `buildFifoLots` from the movements prior to the sale,
+ * so the `lot-{idx}` ids stored in `meta.allocations` point at the same lots the
+ * user saw when confirming the sale. Sales without allocations re-run
+ * `allocateSale` with the stored `meta.costingMethod` (PPP when absent, matching
+ * the average-cost holdings engine).
+ */
+
+import type { Currency, Instrument, Movement } from '@/domain/types'
+import { buildFifoLots, type FifoLot } from '@/domain/portfolio/fifo'
+import { computeAverageCost } from '@/domain/portfolio/average-cost'
+import { computeCashBalances } from '@/domain/portfolio/cash-ledger'
+import { allocateSale, type AllocationEntry, type CostingMethod } from '@/domain/portfolio/lot-allocation'
+import type { LotDetail } from '@/features/portfolioV2/types'
+import type {
+    BienesPersonalesKind,
+    BienesPersonalesRow,
+    InstrumentGainSummary,
+    RealizedGainRow,
+    TaxAssetClass,
+    TaxClassTotals,
+    TaxReport,
+    TaxReportInput,
+} from './types'
+
+const EPSILON = 1e-8
+const TAX_CLASSES: TaxAssetClass[] = ['cedear', 'crypto', 'fci', 'pf']
+const DEFAULT_COSTING_METHOD: CostingMethod = 'PPP'
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the full tax report for a calendar year.
+ */
+export function buildTaxReport(
+    movements: Movement[],
+    instruments: Instrument[],
+    input: TaxReportInput,
+    now: Date = new Date(),
+): TaxReport {
+    const instrumentMap = new Map(instruments.map(i => [i.id, i]))
+    const warnings: string[] = []
+
+    const realized = computeRealizedGains(movements, input.year, instrumentMap)
+    const byInstrument = summarizeByInstrument(realized)
+    const byClass = summarizeByClass(realized)
+    const totalGainArs = realized.reduce((s, r) => s + r.gainArs, 0)
+
+    if (!(input.fxOficialBuy > 0)) {
+        warnings.push('Falta el tipo de cambio oficial comprador al 31/12: los activos en USD se valúan en 0.')
+    }
+
+    const bienesPersonales = computeBienesPersonales(movements, instrumentMap, input)
+    for (const row of bienesPersonales) {
+        if (row.priceSource === 'cost') {
+            warnings.push(`${row.symbol}: sin precio al 31/12, valuado a costo promedio.`)
+        }
+    }
+    const bienesPersonalesTotalArs = bienesPersonales.reduce((s, r) => s + r.valueArs, 0)
+
+    return {
+        year: input.year,
+        generatedAtISO: now.toISOString(),
+        fxOficialBuy: input.fxOficialBuy,
+        realized,
+        byInstrument,
+        byClass,
+        totalGainArs,
+        bienesPersonales,
+        bienesPersonalesTotalArs,
+        warnings,
+    }
+}
+
+/**
+ * Realized gains for every SELL (and PF redemption) dated within `year`.
+ */
+export function computeRealizedGains(
+    movements: Movement[],
+    year: number,
+    instruments: Map<string, Instrument>,
+): RealizedGainRow[] {
+    const rows: RealizedGainRow[] = []
+
+    // 1. Tradable instruments, grouped per instrument + account (same scope as the wizards)
+    const groups = new Map<string, Movement[]>()
+    for (const mov of movements) {
+        if (!mov.instrumentId) continue
+        const assetClass = resolveTaxAssetClass(mov, instruments.get(mov.instrumentId))
+        if (!assetClass || assetClass === 'pf') continue
+        const key = `${mov.instrumentId}::${mov.accountId}`
+        if (!groups.has(key)) groups.set(key, [])
+        groups.get(key)!.push(mov)
+    }
+
+    for (const groupMovements of groups.values()) {
+        const sorted = sortByDate(groupMovements)
+        sorted.forEach((mov, index) => {
+            if (mov.type !== 'SELL') return
+            if (yearOf(mov.datetimeISO) !== year) return
+            const instrument = instruments.get(mov.instrumentId!)
+            const assetClass = resolveTaxAssetClass(mov, instrument)!
+            rows.push(buildSaleRow(mov, sorted.slice(0, index), assetClass, instrument))
+        })
+    }
+
+    // 2. Plazo fijo redemptions (gain = interest collected)
+    const byId = new Map(movements.map(m => [m.id, m]))
+    for (const mov of movements) {
+        if (!isPfRedemption(mov)) continue
+        if (yearOf(mov.datetimeISO) !== year) continue
+        rows.push(buildPfRow(mov, mov.pf?.pfId ? byId.get(mov.pf.pfId) : undefined))
+    }
+
+    return rows.sort((a, b) => new Date(a.dateISO).getTime() - new Date(b.dateISO).getTime())
+}
+
+/**
+ * Bienes Personales valuation of every holding at 31/12 of `input.year`.
+ */
+export function computeBienesPersonales(
+    movements: Movement[],
+    instruments: Map<string, Instrument>,
+    input: TaxReportInput,
+): BienesPersonalesRow[] {
+    const yearEnd = new Date(input.year, 11, 31, 23, 59, 59, 999)
+    const upToYearEnd = movements.filter(m => new Date(m.datetimeISO).getTime() <= yearEnd.getTime())
+    const fx = input.fxOficialBuy > 0 ? input.fxOficialBuy : 0
+    const rows: BienesPersonalesRow[] = []
+
+    // 1. Instruments (CEDEAR, crypto, FCI)
+    const groups = new Map<string, Movement[]>()
+    for (const mov of upToYearEnd) {
+        if (!mov.instrumentId) continue
+        const assetClass = resolveTaxAssetClass(mov, instruments.get(mov.instrumentId))
+        if (!assetClass || assetClass === 'pf') continue
+        const key = `${mov.instrumentId}::${mov.accountId}`
+        if (!groups.has(key)) groups.set(key, [])
+        groups.get(key)!.push(mov)
+    }
+
+    for (const [key, groupMovements] of groups) {
+        const [instrumentId, accountId] = key.split('::')
+        const position = computeAverageCost(groupMovements)
+        if (position.quantity <= EPSILON) continue
+
+        const instrument = instruments.get(instrumentId)
+        const assetClass = resolveTaxAssetClass(groupMovements[0], instrument)!
+        const nativeCurrency = resolveNativeCurrency(instrument, assetClass)
+        const isArsNative = nativeCurrency === 'ARS'
+
+        let unitPriceNative: number
+        let priceSource: BienesPersonalesRow['priceSource']
+        const manual = input.yearEndPrices?.[instrumentId]
+        const lastTrade = findLastTradePriceNative(groupMovements, nativeCurrency)
+        if (manual != null && manual > 0) {
+            unitPriceNative = manual
+            priceSource = 'manual'
+        } else if (lastTrade != null) {
+            unitPriceNative = lastTrade
+            priceSource = 'last_trade'
+        } else {
+            unitPriceNative = isArsNative ? position.avgCostArs : position.avgCostUsd
+            priceSource = 'cost'
+        }
+
+        const valueNative = position.quantity * unitPriceNative
+        rows.push({
+            key,
+            kind: assetClass,
+            instrumentId,
+            symbol: instrument?.symbol ?? groupMovements[0].ticker ?? instrumentId,
+            accountId,
+            quantity: position.quantity,
+            nativeCurrency,
+            unitPriceNative,
+            valueNative,
+            valueArs: isArsNative ? valueNative : valueNative * fx,
+            priceSource,
+        })
+    }
+
+    // 2. Plazos fijos alive at 31/12 (principal + accrued interest)
+    rows.push(...computePfYearEndRows(movements, yearEnd))
+
+    // 3. Cash balances (ARS / USD)
+    const cash = computeCashBalances(upToYearEnd)
+    for (const [accountId, balances] of cash) {
+        for (const [currency, amount] of balances) {
+            if (amount <= EPSILON) continue
+            if (currency !== 'ARS' && currency !== 'USD') continue
+            const kind: BienesPersonalesKind = currency === 'ARS' ? 'cash_ars' : 'cash_usd'
+            rows.push({
+                key: `${accountId}::${currency}`,
+                kind,
+                symbol: currency,
+                accountId,
+                quantity: amount,
+                nativeCurrency: currency,
+                unitPriceNative: 1,
+                valueNative: amount,
+                valueArs: currency === 'ARS' ? amount : amount * fx,
+                priceSource: 'manual',
+            })
+        }
+    }
+
+    return rows
+}
+
+// ---------------------------------------------------------------------------
+// Internal: sales
+// ---------------------------------------------------------------------------
+
+function buildSaleRow(
+    sale: Movement,
+    priorMovements: Movement[],
+    assetClass: TaxAssetClass,
+    instrument: Instrument | undefined,
+): RealizedGainRow {
+    const qty = sale.quantity ?? 0
+    const { proceedsArs, proceedsUsd } = resolveProceeds(sale)
+
+    const lots = buildFifoLots(priorMovements).lots
+    const storedAllocations = sale.meta?.allocations ?? []
+    const costingMethod = (sale.meta?.costingMethod as CostingMethod | undefined) ?? DEFAULT_COSTING_METHOD
+
+    let cost: { ars: number; usd: number }
+    let costSource: RealizedGainRow['costSource']
+    if (storedAllocations.length > 0) {
+        cost = costFromAllocations(storedAllocations, lots, sale)
+        costSource = 'allocations'
+    } else {
+        cost = costFromMethod(lots, qty, costingMethod)
+        costSource = 'method'
+    }
+
+    return {
+        movementId: sale.id,
+        dateISO: sale.datetimeISO,
+        assetClass,
+        instrumentId: sale.instrumentId!,
+        symbol: instrument?.symbol ?? sale.ticker ?? sale.instrumentId!,
+        accountId: sale.accountId,
+        quantity: qty,
+        tradeCurrency: sale.tradeCurrency,
+        proceedsArs,
+        costArs: cost.ars,
+        gainArs: proceedsArs - cost.ars,
+        proceedsUsd,
+        costUsd: cost.usd,
+        gainUsd: proceedsUsd - cost.usd,
+        costingMethod: storedAllocations.length > 0 ? (sale.meta?.costingMethod ?? 'FIFO') : costingMethod,
+        costSource,
+    }
+}
+
+function toLotDetails(lots: FifoLot[]): LotDetail[] {
+    return lots.map((lot, idx) => ({
+        id: `lot-${idx}`,
+        dateISO: lot.date,
+        qty: lot.quantity,
+        unitCostNative: lot.unitCostNative,
+        totalCostNative: lot.quantity * lot.unitCostNative,
+        currentValueNative: 0,
+        pnlNative: 0,
+        pnlPct: 0,
+    }))
+}
+
+function costFromAllocations(
+    allocations: Array<Pick<AllocationEntry, 'lotId' | 'qty' | 'costUsd'>>,
+    lots: FifoLot[],
+    sale: Movement,
+): { ars: number; usd: number } {
+    const fx = resolveFx(sale)
+    let ars = 0
+    let usd = 0
+    for (const alloc of allocations) {
+        const idx = Number(alloc.lotId.replace(/^lot-/, ''))
+        const lot = Number.isInteger(idx) ? lots[idx] : undefined
+        if (lot) {
+            ars += alloc.qty * lot.unitCostArs
+            usd += alloc.qty * lot.unitCostUsd
+            continue
+        }
+        // Lot no longer resolvable (history edited after the sale): trust the stored native cost
+        if (sale.tradeCurrency === 'ARS') {
+            ars += alloc.costUsd
+            usd += fx > 0 ? alloc.costUsd / fx : 0
+        } else {
+            usd += alloc.costUsd
+            ars += alloc.costUsd * fx
+        }
+    }
+    return { ars, usd }
+}
+
+function costFromMethod(lots: FifoLot[], qty: number, method: CostingMethod): { ars: number; usd: number } {
+    const totalQty = lots.reduce((s, l) => s + l.quantity, 0)
+    if (totalQty <= EPSILON || qty <= 0) return { ars: 0, usd: 0 }
+
+    if (method === 'PPP') {
+        const soldQty = Math.min(qty, totalQty)
+        const avgArs = lots.reduce((s, l) => s + l.quantity * l.unitCostArs, 0) / totalQty
+        const avgUsd = lots.reduce((s, l) => s + l.quantity * l.unitCostUsd, 0) / totalQty
+        return { ars: soldQty * avgArs, usd: soldQty * avgUsd }
+    }
+
+    // MANUAL without stored allocations cannot be reproduced: fall back to FIFO
+    const effective: CostingMethod = method === 'MANUAL' ? 'FIFO' : method
+    const allocation = allocateSale(toLotDetails(lots), qty, 0, effective)
+    let ars = 0
+    let usd = 0
+    for (const entry of allocation.allocations) {
+        const lot = lots[Number(entry.lotId.replace(/^lot-/, ''))]
+        if (!lot) continue
+        ars += entry.qty * lot.unitCostArs
+        usd += entry.qty * lot.unitCostUsd
+    }
+    return { ars, usd }
+}
+
+function resolveProceeds(sale: Movement): { proceedsArs: number; proceedsUsd: number } {
+    const fx = resolveFx(sale)
+    const net = sale.netAmount ?? sale.totalAmount ?? 0
+
+    if (sale.tradeCurrency === 'ARS') {
+        return {
+            proceedsArs: net,
+            proceedsUsd: sale.totalUSD ?? (fx > 0 ? net / fx : 0),
+        }
+    }
+
+    const settlementArs = sale.meta?.settlementCurrency === 'ARS' ? sale.meta.settlementArs : undefined
+    return {
+        proceedsArs: settlementArs ?? sale.totalARS ?? net * fx,
+        proceedsUsd: net,
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Internal: plazos fijos
+// ---------------------------------------------------------------------------
+
+function isPfRedemption(mov: Movement): boolean {
+    if (mov.pf?.kind === 'redeem') return true
+    return mov.assetClass === 'pf' && mov.type === 'SELL'
+}
+
+function resolvePfPrincipal(redeem: Movement, constitution?: Movement): number {
+    return redeem.meta?.fixedDeposit?.principalARS
+        ?? constitution?.meta?.fixedDeposit?.principalARS
+        ?? constitution?.principalARS
+        ?? constitution?.pf?.capitalARS
+        ?? constitution?.totalAmount
+        ?? 0
+}
+
+function buildPfRow(redeem: Movement, constitution?: Movement): RealizedGainRow {
+    const proceedsArs = redeem.totalAmount ?? 0
+    const costArs = resolvePfPrincipal(redeem, constitution)
+    const fxOut = resolveFx(redeem)
+    const fxIn = constitution ? resolveFx(constitution) : 0
+    const proceedsUsd = fxOut > 0 ? proceedsArs / fxOut : 0
+    const costUsd = fxIn > 0 ? costArs / fxIn : 0
+
+    return {
+        movementId: redeem.id,
+        dateISO: redeem.datetimeISO,
+        assetClass: 'pf',
+        instrumentId: redeem.instrumentId ?? 'pf-instrument',
+        symbol: redeem.meta?.pfCode ?? constitution?.meta?.pfCode ?? redeem.bank ?? 'PF',
+        accountId: redeem.accountId,
+        quantity: 1,
+        tradeCurrency: 'ARS',
+        proceedsArs,
+        costArs,
+        gainArs: proceedsArs - costArs,
+        proceedsUsd,
+        costUsd,
+        gainUsd: proceedsUsd > 0 && costUsd > 0 ? proceedsUsd - costUsd : 0,
+        costingMethod: '-',
+        costSource: 'pf',
+    }
+}
+
+function computePfYearEndRows(movements: Movement[], yearEnd: Date): BienesPersonalesRow[] {
+    const yearEndTs = yearEnd.getTime()
+    const redeemedIds = new Set(
+        movements
+            .filter(m => isPfRedemption(m) && m.pf?.pfId && new Date(m.datetimeISO).getTime() <= yearEndTs)
+            .map(m => m.pf!.pfId)
+    )
+
+    const rows: BienesPersonalesRow[] = []
+    for (const m of movements) {
+        if (m.assetClass !== 'pf' || (m.type !== 'BUY' && m.type !== 'DEPOSIT')) continue
+        if (redeemedIds.has(m.id)) continue
+
+        const start = new Date(m.startDate || m.datetimeISO)
+        if (start.getTime() > yearEndTs) continue
+
+        // Same conventions as derivePFPositions (TNA base 365, simple interest)
+        const principal = m.principalARS || m.quantity || 0
+        const termDays = m.termDays || 30
+        const tna = m.tna || 0
+        const elapsedDays = Math.min(termDays, Math.max(0, Math.floor((yearEndTs - start.getTime()) / 86400000)))
+        const accrued = (principal * (tna / 100) * elapsedDays) / 365
+        const value = principal + accrued
+
+        rows.push({
+            key: m.id,
+            kind: 'pf',
+            symbol: m.meta?.pfCode || m.alias || m.bank || 'Plazo Fijo',
+            accountId: m.accountId,
+            quantity: 1,
+            nativeCurrency: 'ARS',
+            unitPriceNative: value,
+            valueNative: value,
+            valueArs: value,
+            priceSource: 'manual',
+        })
+    }
+    return rows
+}
+
+// ---------------------------------------------------------------------------
+// Internal: summaries
+// ---------------------------------------------------------------------------
+
+function summarizeByInstrument(rows: RealizedGainRow[]): InstrumentGainSummary[] {
+    const map = new Map<string, InstrumentGainSummary>()
+    for (const r of rows) {
+        const key = `${r.assetClass}::${r.instrumentId}`
+        const entry = map.get(key) ?? {
+            assetClass: r.assetClass,
+            instrumentId: r.instrumentId,
+            symbol: r.symbol,
+            quantitySold: 0,
+            proceedsArs: 0,
+            costArs: 0,
+            gainArs: 0,
+            proceedsUsd: 0,
+            costUsd: 0,
+            gainUsd: 0,
+            operations: 0,
+        }
+        entry.quantitySold += r.quantity
+        entry.proceedsArs += r.proceedsArs
+        entry.costArs += r.costArs
+        entry.gainArs += r.gainArs
+        entry.proceedsUsd += r.proceedsUsd
+        entry.costUsd += r.costUsd
+        entry.gainUsd += r.gainUsd
+        entry.operations += 1
+        map.set(key, entry)
+    }
+    return Array.from(map.values()).sort((a, b) =>
+        TAX_CLASSES.indexOf(a.assetClass) - TAX_CLASSES.indexOf(b.assetClass) || a.symbol.localeCompare(b.symbol)
+    )
+}
+
+function summarizeByClass(rows: RealizedGainRow[]): Record<TaxAssetClass, TaxClassTotals> {
+    const empty = (): TaxClassTotals => ({ proceedsArs: 0, costArs: 0, gainArs: 0, gainUsd: 0, operations: 0 })
+    const totals: Record<TaxAssetClass, TaxClassTotals> = {
+        cedear: empty(),
+        crypto: empty(),
+        fci: empty(),
+        pf: empty(),
+    }
+    for (const r of rows) {
+        const t = totals[r.assetClass]
+        t.proceedsArs += r.proceedsArs
+        t.costArs += r.costArs
+        t.gainArs += r.gainArs
+        t.gainUsd += r.gainUsd
+        t.operations += 1
+    }
+    return totals
+}
+
+// ---------------------------------------------------------------------------
+// Internal: helpers
+// ---------------------------------------------------------------------------
+
+function resolveTaxAssetClass(mov: Movement, instrument?: Instrument): TaxAssetClass | null {
+    switch (mov.assetClass) {
+        case 'cedear':
+        case 'crypto':
+        case 'fci':
+        case 'pf':
+            return mov.assetClass
+        case 'currency':
+        case 'wallet':
+            return null
+    }
+    switch (instrument?.category) {
+        case 'CEDEAR':
+            return 'cedear'
+        case 'CRYPTO':
+        case 'STABLE':
+            return 'crypto'
+        case 'FCI':
+            return 'fci'
+        case 'PF':
+            return 'pf'
+        default:
+            return null
+    }
+}
+
+function resolveNativeCurrency(instrument: Instrument | undefined, assetClass: TaxAssetClass): Currency {
+    if (instrument?.nativeCurrency) return instrument.nativeCurrency === 'ARS' ? 'ARS' : 'USD'
+    return assetClass === 'crypto' ? 'USD' : 'ARS'
+}
+
+function findLastTradePriceNative(movements: Movement[], nativeCurrency: Currency): number | null {
+    const trades = sortByDate(movements).filter(m =>
+        (m.type === 'BUY' || m.type === 'SELL') && (m.unitPrice ?? 0) > 0
+    )
+    const last = trades[trades.length - 1]
+    if (!last) return null
+
+    const price = last.unitPrice!
+    const tradeIsArs = last.tradeCurrency === 'ARS'
+    const nativeIsArs = nativeCurrency === 'ARS'
+    if (tradeIsArs === nativeIsArs) return price
+
+    const fx = resolveFx(last)
+    if (!(fx > 0)) return null
+    return nativeIsArs ? price * fx : price / fx
+}
+
+function resolveFx(mov: Movement): number {
+    if (mov.fx && mov.fx.rate > 0) return mov.fx.rate
+    if (mov.fxAtTrade && mov.fxAtTrade > 0) return mov.fxAtTrade
+    return 0
+}
+
+function sortByDate(movements: Movement[]): Movement[] {
+    return [...movements].sort(
+        (a, b) => new Date(a.datetimeISO).getTime() - new Date(b.datetimeISO).getTime()
+    )
+}
+
+function yearOf(iso: string): number {
+    return new Date(iso).getFullYear()
+}
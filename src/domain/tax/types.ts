@@ -0,0 +1,115 @@
+/**
+ * Tax Report Types
+ * Yearly Ganancias (realized gains) + Bienes Personales (31/12 valuation) workbook.
+ */
+
+import type { Currency } from '@/domain/types'
+
+/**
+ * Asset classes reported separately in the Ganancias section.
+ */
+export type TaxAssetClass = 'cedear' | 'crypto' | 'fci' | 'pf'
+
+/**
+ * Where the cost of a sale came from.
+ * - allocations: lot ids stored in `Movement.meta.allocations` at sale time
+ * - method: re-run of `allocateSale` with the stored (or default) costing method
+ * - pf: plazo fijo redemption (cost = principal)
+ */
+export type TaxCostSource = 'allocations' | 'method' | 'pf'
+
+/**
+ * A single realized gain event (one SELL / PF redemption).
+ */
+export interface RealizedGainRow {
+    movementId: string
+    dateISO: string
+    assetClass: TaxAssetClass
+    instrumentId: string
+    symbol: string
+    accountId: string
+    quantity: number
+    tradeCurrency: Currency
+    proceedsArs: number
+    costArs: number
+    gainArs: number
+    proceedsUsd: number
+    costUsd: number
+    gainUsd: number
+    costingMethod: string
+    costSource: TaxCostSource
+}
+
+export interface InstrumentGainSummary {
+    assetClass: TaxAssetClass
+    instrumentId: string
+    symbol: string
+    quantitySold: number
+    proceedsArs: number
+    costArs: number
+    gainArs: number
+    proceedsUsd: number
+    costUsd: number
+    gainUsd: number
+    operations: number
+}
+
+export interface TaxClassTotals {
+    proceedsArs: number
+    costArs: number
+    gainArs: number
+    gainUsd: number
+    operations: number
+}
+
+/**
+ * Where the 31/12 unit price came from.
+ * - manual: provided by the user in the report screen
+ * - last_trade: last BUY/SELL price on or before 31/12
+ * - cost: no trade price available, valued at average cost
+ */
+export type BienesPersonalesPriceSource = 'manual' | 'last_trade' | 'cost'
+
+export type BienesPersonalesKind = 'cedear' | 'crypto' | 'fci' | 'pf' | 'cash_ars' | 'cash_usd' | 'other'
+
+/**
+ * A single Bienes Personales line (holding at 31/12).
+ */
+export interface BienesPersonalesRow {
+    key: string
+    kind: BienesPersonalesKind
+    instrumentId?: string
+    symbol: string
+    accountId: string
+    quantity: number
+    nativeCurrency: Currency
+    unitPriceNative: number
+    valueNative: number
+    valueArs: number
+    priceSource: BienesPersonalesPriceSource
+}
+
+export interface TaxReportInput {
+    year: number
+    /** BNA comprador rate on the last business day of the year (ARS per USD) */
+    fxOficialBuy: number
+    /** Manual 31/12 unit prices in the instrument's native currency (instrumentId → price) */
+    yearEndPrices?: Record<string, number>
+}
+
+export interface TaxReport {
+    year: number
+    generatedAtISO: string
+    fxOficialBuy: number
+
+    realized: RealizedGainRow[]
+    byInstrument: InstrumentGainSummary[]
+    byClass: Record<TaxAssetClass, TaxClassTotals>
+    totalGainArs: number
+
+    bienesPersonales: BienesPersonalesRow[]
+    bienesPersonalesTotalArs: number
+
+    /** Human-readable notes about estimates (missing prices, missing FX, etc.) */
+    warnings: string[]
+}
@@ -0,0 +1,91 @@
+/**
+ * Tax Workbook Export
+ * Serializes a TaxReport into an XLSX workbook (one sheet per section).
+ */
+
+import * as XLSX from 'xlsx'
+import type { TaxAssetClass, TaxReport } from './types'
+
+const CLASS_LABELS: Record<TaxAssetClass, string> = {
+    cedear: 'CEDEARs',
+    crypto: 'Cripto',
+    fci: 'FCI',
+    pf: 'Plazo Fijo',
+}
+
+/**
+ * Build the workbook: Resumen, Ganancias (detalle), Ganancias por instrumento, Bienes Personales.
+ */
+export function buildTaxWorkbook(report: TaxReport, accountNames: Map<string, string> = new Map()): XLSX.WorkBook {
+    const accountName = (id: string) => accountNames.get(id) ?? id
+    const wb = XLSX.utils.book_new()
+
+    const summary: Array<Array<string | number>> = [
+        ['Período fiscal', report.year],
+        ['Generado', report.generatedAtISO],
+        ['TC Oficial comprador 31/12', report.fxOficialBuy],
+        [],
+        ['Clase', 'Operaciones', 'Ventas ARS', 'Costo ARS', 'Resultado ARS', 'Resultado USD'],
+        ...(Object.keys(CLASS_LABELS) as TaxAssetClass[]).map(cls => {
+            const t = report.byClass[cls]
+            return [CLASS_LABELS[cls], t.operations, t.proceedsArs, t.costArs, t.gainArs, t.gainUsd]
+        }),
+        ['Total', '', '', '', report.totalGainArs, ''],
+        [],
+        ['Bienes Personales (ARS)', report.bienesPersonalesTotalArs],
+        ...(report.warnings.length > 0 ? [[], ['Advertencias'], ...report.warnings.map(w => [w])] : []),
+    ]
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summary), 'Resumen')
+
+    const detail = report.realized.map(r => ({
+        Fecha: r.dateISO.slice(0, 10),
+        Clase: CLASS_LABELS[r.assetClass],
+        Instrumento: r.symbol,
+        Cuenta: accountName(r.accountId),
+        Cantidad: r.quantity,
+        Moneda: r.tradeCurrency,
+        'Venta ARS': r.proceedsArs,
+        'Costo ARS': r.costArs,
+        'Resultado ARS': r.gainArs,
+        'Venta USD': r.proceedsUsd,
+        'Costo USD': r.costUsd,
+        'Resultado USD': r.gainUsd,
+        Método: r.costingMethod,
+    }))
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(detail), 'Ganancias detalle')
+
+    const byInstrument = report.byInstrument.map(r => ({
+        Clase: CLASS_LABELS[r.assetClass],
+        Instrumento: r.symbol,
+        Operaciones: r.operations,
+        'Cantidad vendida': r.quantitySold,
+        'Venta ARS': r.proceedsArs,
+        'Costo ARS': r.costArs,
+        'Resultado ARS': r.gainArs,
+        'Resultado USD': r.gainUsd,
+    }))
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(byInstrument), 'Ganancias x instrumento')
+
+    const bp = report.bienesPersonales.map(r => ({
+        Tipo: r.kind,
+        Activo: r.symbol,
+        Cuenta: accountName(r.accountId),
+        Cantidad: r.quantity,
+        Moneda: r.nativeCurrency,
+        'Precio 31/12': r.unitPriceNative,
+        'Valor moneda origen': r.valueNative,
+        'Valor ARS': r.valueArs,
+        'Fuente precio': r.priceSource,
+    }))
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(bp), 'Bienes Personales')
+
+    return wb
+}
+
+/**
+ * Trigger a browser download of the workbook.
+ */
+export function downloadTaxWorkbook(report: TaxReport, accountNames?: Map<string, string>): void {
+    const wb = buildTaxWorkbook(report, accountNames)
+    XLSX.writeFile(wb, `argfolio-impuestos-${report.year}.xlsx`)
+}
@@ -20,6 +20,8 @@ export type AssetCategory =
     | 'WALLET'
     | 'DEBT'
     | 'CURRENCY' // New for "Moneda / Dólares"
+    | 'BOND' // Renta fija: sovereign bonds, Lecaps/Boncaps and ONs
+    | 'OPTION' // Calls / puts on a local stock (GGAL, YPFD...)
 
 export type MovementType =
     | 'BUY'
@@ -36,6 +38,8 @@ export type MovementType =
     // New specific types
     | 'BUY_USD'
     | 'SELL_USD'
+    // Signed cash correction (totalAmount = statement - ledger) from a reconciliation
+    | 'ADJUSTMENT'
 
 export type AccountKind = 'BROKER' | 'EXCHANGE' | 'BANK' | 'WALLET' | 'OTHER'
 
@@ -58,6 +62,47 @@ export interface Instrument {
     cedearRatio?: number
     underlyingSymbol?: string
     coingeckoId?: string // for real price fetching
+    bond?: BondTerms // BOND only: cash-flow schedule
+    option?: OptionTerms // OPTION only: contract terms
+}
+
+/** Bond family; Lecaps/Boncaps capitalize their interest into a single payment */
+export type BondKind = 'sovereign' | 'lecap' | 'corporate'
+
+/** One payment date, in units of currency per 100 VN (original face value) */
+export interface BondCashFlow {
+    date: string // YYYY-MM-DD
+    coupon: number
+    amortization: number
+}
+
+/**
+ * Terms of a bond or ON. Quotes are per 100 VN in the instrument's native
+ * currency; `currency` is the currency the flows are paid in.
+ */
+export interface BondTerms {
+    kind: BondKind
+    currency: 'ARS' | 'USD'
+    issuer?: string
+    issueDate: string // YYYY-MM-DD
+    maturityDate: string // YYYY-MM-DD
+    flows: BondCashFlow[] // Oldest first
+}
+
+export type OptionType = 'call' | 'put'
+
+/**
+ * Terms of a listed option. Movement quantities are in underlying units
+ * (contracts * lotSize) and prices are the premium per unit, as quoted, so
+ * the engine values options like any other instrument.
+ */
+export interface OptionTerms {
+    optionType: OptionType
+    underlyingSymbol: string
+    underlyingInstrumentId?: string
+    strike: number // Per underlying unit, in the instrument's native currency
+    expiry: string // YYYY-MM-DD
+    lotSize: number // Underlying units per contract (100 on BYMA)
 }
 
 export interface CashYieldParams {
@@ -87,7 +132,7 @@ export interface Movement {
     id: string
     datetimeISO: string
     type: MovementType
-    assetClass?: 'cedear' | 'crypto' | 'fci' | 'pf' | 'currency' | 'wallet'
+    assetClass?: 'cedear' | 'crypto' | 'fci' | 'pf' | 'currency' | 'wallet' | 'bond' | 'caucion' | 'option'
     instrumentId?: string // null for pure cash movements or new 'currency'/'wallet' flows
     accountId: string
     quantity?: number // null for fees, deposits of cash
@@ -154,12 +199,21 @@ export interface Movement {
         pfCode?: string // User readable ID e.g. PF-20240101-ABCD
         fixedDeposit?: FixedDepositMeta
         fci?: FciMetaSnapshot
+        bond?: BondTradeMeta
+        caucion?: CaucionMeta
+        option?: OptionEventMeta
+        /** Explicit short sale: a SELL beyond the position opens a short instead of stopping at zero */
+        short?: boolean
         isAutoSettlement?: boolean
         source?: string
+        /** Trade id / tx hash at the source of an import (exchange, blockchain) */
+        externalId?: string
         /** Lot allocation traceability for crypto sales */
         allocations?: Array<{ lotId: string; qty: number; costUsd: number }>
         /** Costing method used for the sale */
         costingMethod?: string
+        /** Gross / withholding breakdown for CEDEAR DIVIDEND movements */
+        dividend?: DividendMeta
         /**
          * Settlement currency for SELL movements of stablecoins.
          * When selling USDT/USDC in Argentina, proceeds are typically in ARS not USD fiat.
@@ -179,10 +233,73 @@ export interface Movement {
         counterpartyAccountId?: string
         /** Direction of the transfer movement */
         direction?: 'in' | 'out'
+        /** Reconciliation that recorded this ADJUSTMENT */
+        reconciliationId?: string
+        /** DCA plan that scheduled this BUY, and the due date it covers */
+        dcaPlanId?: string
+        dcaScheduledDate?: string
     }
 }
 
+/**
+ * Bond trade as entered. The movement's `unitPrice` is per 1 VN (the quote
+ * / 100) so `quantity * unitPrice` stays the trade amount.
+ */
+export interface BondTradeMeta {
+    pricePer100: number
+    accruedPer100?: number // Accrued interest included in the price
+    ytm?: number // TIR at the trade price, as a fraction (0.12 = 12%)
+}
+
+/**
+ * Movements generated when an option expires: the option leg closes the
+ * position at zero and, when exercised or assigned, the underlying leg trades
+ * at the strike.
+ */
+export interface OptionEventMeta {
+    event: 'expiry' | 'exercise' | 'assignment'
+    optionInstrumentId: string
+    leg: 'option' | 'underlying'
+}
+
+/** Caución bursátil: colocadora lends pesos at a fixed rate, tomadora borrows them */
+export type CaucionSide = 'colocadora' | 'tomadora'
+
+/**
+ * Caución terms, on both the opening and the settlement movement. Colocadora
+ * opens with a BUY (cash out) and settles with a SELL; tomadora the reverse.
+ */
+export interface CaucionMeta {
+    side: CaucionSide
+    principalARS: number
+    tna: number
+    termDays: number
+    startDate: string // ISO
+    maturityDate: string // ISO
+    interestARS: number
+    feesARS: number // Arancel + derechos de mercado, charged at maturity
+    totalARS: number // Collected (colocadora) or paid (tomadora) at maturity
+    // Settlement only
+    caucionId?: string // Opening movement
+    settlementMode?: 'auto' | 'manual'
+}
+
+/** Plazo fijo product. Missing on older deposits, which are all traditional */
+export type FixedDepositType = 'traditional' | 'uva' | 'uva_precancelable'
+
+/**
+ * What happens to a plazo fijo at maturity instead of crediting it all to the
+ * wallet: renew the principal, the whole amount or a fixed amount.
+ */
+export interface FixedDepositRollover {
+    mode: 'principal' | 'principal_plus_interest' | 'fixed_amount'
+    amountARS?: number // fixed_amount only
+    tna?: number // New TNA; the current one when missing
+    termDays?: number // New term; the current one when missing
+}
+
 export interface FixedDepositMeta {
+    depositType?: FixedDepositType
     principalARS: number
     interestARS: number
     totalARS: number
@@ -194,12 +311,20 @@ export interface FixedDepositMeta {
     productName?: string
     providerName?: string // Bank Name
 
+    // UVA deposits: capital adjusted by UVA(maturity) / UVA(start); tna is the rate on top
+    uvaStart?: number // UVA value at constitution (ARS)
+    // Precancelable deposits: early cancellation pays capital + this TNA, no UVA adjustment
+    precancelTna?: number
+    precancelFromDays?: number // Days after constitution when cancelling becomes possible
+
     // Linking & Status
     sourcePfMovementId?: string
     pfGroupId?: string
     pfCode?: string
     settlementMode?: 'auto' | 'manual'
     redeemedAt?: string // ISO date of redemption
+    rollover?: FixedDepositRollover
+    renewedFromId?: string // Constitution this one renews (same pfGroupId)
 
     expectedInterestARS?: number // Legacy alias
     expectedTotalARS?: number // Legacy alias
@@ -212,6 +337,18 @@ export interface FciMetaSnapshot {
     vcpAsOf: string
 }
 
+/**
+ * CEDEAR dividend breakdown. `Movement.totalAmount` is the gross dividend,
+ * `Movement.netAmount` what the account received after withholding.
+ */
+export interface DividendMeta {
+    grossAmount: number
+    withholdingPct: number
+    withholdingAmount: number
+    sharesHeld?: number
+    perShare?: number
+}
+
 export interface MovementPFMetadata {
     kind: 'constitute' | 'redeem'
     action?: 'CONSTITUTE' | 'SETTLE' // New field for clearer intent
@@ -257,6 +394,8 @@ export interface Snapshot {
     breakdownItems?: Record<string, { rubroId: string; ars: number; usd: number }>
     meta?: {
         fxRef?: string
+        /** Valuation policy the items were valued with ('default' = built-in dollars) */
+        valuationPolicy?: string
         notes?: string
     }
     createdAtISO: string
@@ -287,6 +426,7 @@ export interface Holding {
     costBasisNative: number // total cost in native currency (NET)
     costBasisArs: number    // total cost tracked in ARS
     costBasisUsd: number    // total cost tracked in USD
+    costBasisRealArs?: number // ARS cost in constant pesos (CPI-deflated), when a CPI series is loaded
     avgCostNative: number   // cost basis / quantity
     avgCostArs: number
     avgCostUsd: number
@@ -306,6 +446,7 @@ export interface HoldingAggregated {
     totalCostBasis: number // native
     totalCostBasisArs: number
     totalCostBasisUsd: number
+    totalCostBasisRealArs?: number // CPI-deflated ARS cost, in today's pesos
     avgCost: number // native
     avgCostArs: number
     avgCostUsd: number
@@ -320,6 +461,7 @@ export interface HoldingAggregated {
     valueUSD?: number
     unrealizedPnL_ARS?: number
     unrealizedPnL_USD?: number
+    unrealizedPnL_RealARS?: number // valueARS - totalCostBasisRealArs
 
     // Daily Change
     changePct1dArs?: number
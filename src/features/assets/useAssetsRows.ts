@@ -21,6 +21,9 @@ import { missingPrice, okPrice, type PriceResult } from '@/domain/prices/price-r
 
 // Master data imports for CEDEAR ratios
 import { getCedearMeta, type CedearMasterItem } from '@/domain/cedears/master'
+import { resolveCedearRatio, type CorporateAction } from '@/domain/corporate-actions'
+import { useCorporateActions } from '@/hooks/use-corporate-actions'
+import { useValuationDefaults } from '@/hooks/use-valuation-policy'
 
 export interface UseAssetsRowsOptions {
     categoryFilter?: AssetClass | 'all'
@@ -81,17 +84,19 @@ function mapCategory(category: string): AssetClass {
         case 'PF':
         case 'pf':
             return 'PF'
+        case 'BOND':
+            return 'BOND'
         default:
             return 'OTHER'
     }
 }
 
 /**
- * Get CEDEAR ratio from master data
+ * Get CEDEAR ratio from master data (overridden by recorded ratio changes)
  */
-function getCedearRatioLocal(symbol: string): number {
+function getCedearRatioLocal(symbol: string, instrumentId: string, corporateActions: CorporateAction[]): number {
     const entry: CedearMasterItem | null = getCedearMeta(symbol)
-    return entry?.ratio ?? 1
+    return resolveCedearRatio(instrumentId, entry?.ratio ?? 1, corporateActions)
 }
 
 function getPriceTtlMs(category: AssetClass): number {
@@ -100,6 +105,7 @@ function getPriceTtlMs(category: AssetClass): number {
         case 'STABLE':
             return 60 * 60 * 1000 // 1h
         case 'CEDEAR':
+        case 'BOND':
             return 12 * 60 * 60 * 1000 // 12h
         case 'FCI':
             return 36 * 60 * 60 * 1000 // 36h
@@ -120,6 +126,8 @@ export function useAssetsRows(options: UseAssetsRowsOptions): UseAssetsRowsResul
     const { data: fxRates, isLoading: fxLoading } = useFxRates()
     useInstruments() // Keep query active for cache
     const { priceMap: manualPrices } = useManualPrices()
+    const { data: corporateActions } = useCorporateActions()
+    const { defaults: valuationDefaults } = useValuationDefaults()
 
     // Get crypto symbols from portfolio
     const cryptoSymbols = useMemo(() => {
@@ -198,7 +206,7 @@ export function useAssetsRows(options: UseAssetsRowsOptions): UseAssetsRowsResul
                         avgCostUsdEq: holding.avgCostUsdEq,
                         costBasisArs: holding.costBasisArs,
                         costBasisUsdEq: holding.costBasisUsd, // Pass historical USD cost
-                        cedearRatio: category === 'CEDEAR' ? getCedearRatioLocal(holding.instrument.symbol) : undefined,
+                        cedearRatio: category === 'CEDEAR' ? getCedearRatioLocal(holding.instrument.symbol, holding.instrumentId, corporateActions) : undefined,
                         underlyingSymbol: holding.instrument.underlyingSymbol,
                     }
 
@@ -239,7 +247,7 @@ export function useAssetsRows(options: UseAssetsRowsOptions): UseAssetsRowsResul
                     }
 
                     // Compute Metrics (NO MODE PASSED)
-                    const metricsBase = computeAssetMetrics(assetInput, assetPrices, fxQuotes)
+                    const metricsBase = computeAssetMetrics(assetInput, assetPrices, fxQuotes, valuationDefaults)
 
                     // Augment with Account Info
                     const metrics: AssetRowMetrics = {
@@ -314,7 +322,7 @@ export function useAssetsRows(options: UseAssetsRowsOptions): UseAssetsRowsResul
         }
 
         return groups
-    }, [portfolio, fxQuotes, trackCash, manualPrices, cedearPrices, cryptoPrices, categoryFilter, searchQuery])
+    }, [portfolio, fxQuotes, trackCash, manualPrices, cedearPrices, cryptoPrices, categoryFilter, searchQuery, corporateActions, valuationDefaults])
 
     // Compute Global Totals from Grouped Rows
     const totals = useMemo(() => {
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest'
+import type { Movement } from '@/domain/types'
+import { cpiToIndexPoints } from '@/domain/inflation'
+import {
+    alignToDates,
+    compareWithBenchmarks,
+    computeAlphaBeta,
+    computeMoneyWeightedReturn,
+    computePeriodNetFlows,
+    computeTimeWeightedReturn,
+    type PortfolioValuePoint,
+} from './benchmarks'
+
+function dateKey(offset: number): string {
+    const date = new Date(Date.UTC(2026, 0, 1 + offset))
+    return date.toISOString().slice(0, 10)
+}
+
+describe('computeTimeWeightedReturn', () => {
+    it('removes deposits from performance', () => {
+        const points: PortfolioValuePoint[] = [
+            { date: '2026-01-01', value: 1000, flow: 0 },
+            { date: '2026-01-02', value: 1100, flow: 0 }, // +10%
+            { date: '2026-01-03', value: 2100, flow: 1000 }, // deposit, flat
+            { date: '2026-01-04', value: 2310, flow: 0 }, // +10%
+        ]
+
+        expect(computeTimeWeightedReturn(points)).toBeCloseTo(0.21)
+    })
+})
+
+describe('computeMoneyWeightedReturn', () => {
+    it('matches a simple annual growth without flows', () => {
+        const points: PortfolioValuePoint[] = [
+            { date: '2025-01-01', value: 1000, flow: 0 },
+            { date: '2026-01-01', value: 1100, flow: 0 },
+        ]
+
+        expect(computeMoneyWeightedReturn(points)).toBeCloseTo(0.1, 6)
+    })
+
+    it('weights periods by the capital invested', () => {
+        // Loses 50% on 1000, then doubles after a 9000 deposit
+        const points: PortfolioValuePoint[] = [
+            { date: '2025-01-01', value: 1000, flow: 0 },
+            { date: '2025-07-02', value: 9500, flow: 9000 },
+            { date: '2026-01-01', value: 19000, flow: 0 },
+        ]
+
+        expect(computeTimeWeightedReturn(points)).toBeCloseTo(0)
+        expect(computeMoneyWeightedReturn(points)).toBeGreaterThan(0.5)
+    })
+})
+
+describe('computeAlphaBeta', () => {
+    it('recovers beta and alpha from a leveraged series', () => {
+        const benchmark = Array.from({ length: 30 }, (_, idx) => ((idx % 5) - 2) / 100)
+        const portfolio = benchmark.map(r => 2 * r + 0.001)
+
+        const result = computeAlphaBeta(portfolio, benchmark)
+        expect(result.beta).toBeCloseTo(2)
+        expect(result.alpha).toBeCloseTo(0.365)
+        expect(result.correlation).toBeCloseTo(1)
+        expect(result.observations).toBe(30)
+    })
+
+    it('needs enough observations', () => {
+        expect(computeAlphaBeta([0.01, 0.02], [0.01, 0.02]).beta).toBeNull()
+    })
+})
+
+describe('alignToDates', () => {
+    it('carries the last close over market holidays', () => {
+        const points = [
+            { date: '2026-01-02', value: 10 },
+            { date: '2026-01-05', value: 12 },
+        ]
+
+        expect(alignToDates(points, ['2026-01-01', '2026-01-03', '2026-01-05'])).toEqual([null, 10, 12])
+    })
+
+    it('interpolates monthly CPI levels inside the month', () => {
+        const points = cpiToIndexPoints([{ month: '2025-12', pct: 10 }])
+
+        const [start, mid, after] = alignToDates(points, ['2025-12-01', '2025-12-16', '2026-02-01'], true)
+        expect(start).toBe(100)
+        expect(mid).toBeGreaterThan(104)
+        expect(mid).toBeLessThan(105)
+        expect(after).toBeCloseTo(110)
+    })
+})
+
+describe('computePeriodNetFlows', () => {
+    it('counts external deposits and nets trades between rubros', () => {
+        const movements: Movement[] = [
+            {
+                id: 'd1',
+                datetimeISO: '2026-01-02T12:00:00.000Z',
+                type: 'DEPOSIT',
+                assetClass: 'wallet',
+                accountId: 'bank',
+                tradeCurrency: 'ARS',
+                totalAmount: 500,
+                totalARS: 500,
+            },
+            {
+                id: 'b1',
+                datetimeISO: '2026-01-02T13:00:00.000Z',
+                type: 'BUY',
+                assetClass: 'cedear',
+                accountId: 'bank',
+                instrumentId: 'aapl',
+                quantity: 1,
+                unitPrice: 300,
+                tradeCurrency: 'ARS',
+                totalAmount: 300,
+                totalARS: 300,
+            },
+        ]
+
+        const fx = { officialSell: 1000, mepSell: 1200, cryptoSell: 1250 }
+        expect(computePeriodNetFlows(movements, fx, ['2026-01-01', '2026-01-03'], 'ARS')).toEqual([0, 500])
+    })
+})
+
+describe('compareWithBenchmarks', () => {
+    it('indexes portfolio and benchmark to 100 and reports excess return', () => {
+        // 1% a day with a 500 deposit on day 6
+        const points: PortfolioValuePoint[] = [{ date: dateKey(0), value: 1000, flow: 0 }]
+        for (let idx = 1; idx < 12; idx++) {
+            const flow = idx === 6 ? 500 : 0
+            points.push({ date: dateKey(idx), value: points[idx - 1].value * 1.01 + flow, flow })
+        }
+        const benchmark = Array.from({ length: 12 }, (_, idx) => ({ date: dateKey(idx), value: 50 * Math.pow(1.005, idx) }))
+
+        const comparison = compareWithBenchmarks(points, { merval: benchmark })
+        const [merval] = comparison.benchmarks
+
+        expect(comparison.rows[0]).toMatchObject({ portfolio: 100, merval: 100 })
+        expect(comparison.twr).toBeCloseTo(Math.pow(1.01, 11) - 1)
+        expect(merval.periodReturn).toBeCloseTo(Math.pow(1.005, 11) - 1)
+        expect(merval.excessReturn).toBeCloseTo(Math.pow(1.01, 11) - Math.pow(1.005, 11))
+        expect(merval.observations).toBe(11)
+    })
+})
@@ -0,0 +1,317 @@
+/**
+ * Benchmark comparison
+ *
+ * Compares the snapshot series with market benchmarks (MERVAL, S&P 500, CCL)
+ * or a user-loaded CPI series. Snapshot-to-snapshot changes include deposits
+ * and withdrawals, so portfolio returns are flow-adjusted with the net external
+ * flows from computeNetFlowsByRubro before chaining (time-weighted) or
+ * discounting them (money-weighted).
+ */
+
+import type { Movement } from '@/domain/types'
+import { computeNetFlowsByRubro, type ResultsFlowFxContext } from './results-flows'
+
+export type BenchmarkId = 'merval' | 'sp500' | 'ccl' | 'cpi'
+export type BenchmarkCurrency = 'ARS' | 'USD'
+
+export const BENCHMARK_IDS: BenchmarkId[] = ['merval', 'sp500', 'ccl', 'cpi']
+
+export const BENCHMARK_LABELS: Record<BenchmarkId, string> = {
+    merval: 'MERVAL',
+    sp500: 'S&P 500',
+    ccl: 'Dólar CCL',
+    cpi: 'Inflación (IPC)',
+}
+
+/** Currency each benchmark is quoted in (CCL/CPI measure ARS debasement) */
+export const BENCHMARK_CURRENCY: Record<BenchmarkId, BenchmarkCurrency> = {
+    merval: 'ARS',
+    sp500: 'USD',
+    ccl: 'ARS',
+    cpi: 'ARS',
+}
+
+export interface BenchmarkPoint {
+    date: string // YYYY-MM-DD
+    value: number
+}
+
+export interface PortfolioValuePoint {
+    date: string // YYYY-MM-DD
+    value: number
+    /** Net external flow since the previous point (deposits positive) */
+    flow: number
+}
+
+export interface AlphaBeta {
+    /** Annualized Jensen alpha over the benchmark (no risk-free rate) */
+    alpha: number | null
+    beta: number | null
+    correlation: number | null
+    observations: number
+}
+
+export interface BenchmarkStats extends AlphaBeta {
+    id: BenchmarkId
+    label: string
+    periodReturn: number | null
+    /** Portfolio TWR minus the benchmark return over the same window */
+    excessReturn: number | null
+}
+
+export type BenchmarkChartRow = { date: string; portfolio: number | null } & Partial<Record<BenchmarkId, number | null>>
+
+export interface BenchmarkComparison {
+    rows: BenchmarkChartRow[]
+    days: number
+    twr: number | null
+    twrAnnualized: number | null
+    mwr: number | null
+    mwrAnnualized: number | null
+    benchmarks: BenchmarkStats[]
+}
+
+const EPSILON = 1e-9
+const DAY_MS = 24 * 60 * 60 * 1000
+const MIN_OBSERVATIONS = 10
+
+function dateMs(dateKey: string): number {
+    return new Date(`${dateKey}T00:00:00Z`).getTime()
+}
+
+function daysBetween(from: string, to: string): number {
+    return Math.round((dateMs(to) - dateMs(from)) / DAY_MS)
+}
+
+function mean(values: number[]): number {
+    if (values.length === 0) return 0
+    return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+// ---------------------------------------------------------------------------
+// Series helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Benchmark value on each date: last close at or before it (markets are closed
+ * on weekends), or geometric interpolation between points for monthly series.
+ */
+export function alignToDates(
+    points: BenchmarkPoint[],
+    dates: string[],
+    interpolate = false
+): Array<number | null> {
+    const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date))
+    let cursor = -1
+
+    return dates.map(date => {
+        while (cursor + 1 < sorted.length && sorted[cursor + 1].date <= date) cursor++
+        if (cursor < 0) return null
+
+        const prev = sorted[cursor]
+        const next = sorted[cursor + 1]
+        if (!interpolate || !next || prev.date === date || prev.value <= EPSILON) return prev.value
+
+        const span = daysBetween(prev.date, next.date)
+        const elapsed = daysBetween(prev.date, date)
+        return prev.value * Math.pow(next.value / prev.value, elapsed / span)
+    })
+}
+
+/** Rebases a series to 100 at its first valid value */
+export function rebaseSeries(values: Array<number | null>): Array<number | null> {
+    const base = values.find((value): value is number => value != null && value > EPSILON)
+    if (base == null) return values.map(() => null)
+    return values.map(value => (value == null ? null : (value / base) * 100))
+}
+
+/**
+ * Net external flow between consecutive dates: the sum over rubros, where
+ * trades net out (a BUY adds to its rubro and takes from wallets).
+ */
+export function computePeriodNetFlows(
+    movements: Movement[],
+    fxContext: ResultsFlowFxContext,
+    dates: string[],
+    currency: BenchmarkCurrency
+): number[] {
+    return dates.map((date, idx) => {
+        if (idx === 0) return 0
+        const flows = computeNetFlowsByRubro(movements, fxContext, dates[idx - 1], date)
+        let total = 0
+        for (const flow of flows.values()) total += currency === 'ARS' ? flow.ars : flow.usdEq
+        return total
+    })
+}
+
+/** Period returns net of flows: (V_i − F_i) / V_{i−1} − 1. Null where undefined. */
+export function computeFlowAdjustedReturns(points: PortfolioValuePoint[]): Array<number | null> {
+    return points.slice(1).map((point, idx) => {
+        const prev = points[idx].value
+        if (!Number.isFinite(prev) || prev <= EPSILON || !Number.isFinite(point.value)) return null
+        return (point.value - point.flow) / prev - 1
+    })
+}
+
+// ---------------------------------------------------------------------------
+// Returns
+// ---------------------------------------------------------------------------
+
+export function annualizeReturn(periodReturn: number | null, days: number): number | null {
+    if (periodReturn == null || days <= 0 || periodReturn <= -1) return null
+    return Math.pow(1 + periodReturn, 365 / days) - 1
+}
+
+/** Time-weighted return: chains flow-adjusted period returns (manager skill, flows excluded) */
+export function computeTimeWeightedReturn(points: PortfolioValuePoint[]): number | null {
+    const returns = computeFlowAdjustedReturns(points).filter((r): r is number => r != null)
+    if (returns.length === 0) return null
+    return returns.reduce((acc, r) => acc * (1 + r), 1) - 1
+}
+
+/**
+ * Money-weighted return (annualized IRR): the starting value is invested on
+ * the first date, each net flow on its date and the last value withdrawn.
+ */
+export function computeMoneyWeightedReturn(points: PortfolioValuePoint[]): number | null {
+    if (points.length < 2) return null
+    const first = points[0]
+    const last = points[points.length - 1]
+    if (daysBetween(first.date, last.date) <= 0 || first.value <= EPSILON) return null
+
+    const cashflows = points.map((point, idx) => ({
+        years: daysBetween(first.date, point.date) / 365,
+        amount: idx === 0
+            ? -point.value
+            : -point.flow + (idx === points.length - 1 ? point.value : 0),
+    }))
+
+    const npv = (rate: number) => cashflows.reduce((sum, cf) => sum + cf.amount / Math.pow(1 + rate, cf.years), 0)
+
+    // Bisection: NPV decreases with the rate when money goes in first
+    let low = -0.9999
+    let high = 100
+    let npvLow = npv(low)
+    if (!Number.isFinite(npvLow) || npvLow * npv(high) > 0) return null
+
+    for (let iter = 0; iter < 200; iter++) {
+        const mid = (low + high) / 2
+        const npvMid = npv(mid)
+        if (Math.abs(npvMid) < 1e-7 || high - low < 1e-10) return mid
+        if (npvLow * npvMid < 0) {
+            high = mid
+        } else {
+            low = mid
+            npvLow = npvMid
+        }
+    }
+    return (low + high) / 2
+}
+
+/** Beta, correlation and annualized alpha of paired period returns */
+export function computeAlphaBeta(
+    portfolioReturns: number[],
+    benchmarkReturns: number[],
+    periodsPerYear = 365
+): AlphaBeta {
+    const n = Math.min(portfolioReturns.length, benchmarkReturns.length)
+    if (n < MIN_OBSERVATIONS) return { alpha: null, beta: null, correlation: null, observations: n }
+
+    const p = portfolioReturns.slice(0, n)
+    const b = benchmarkReturns.slice(0, n)
+    const meanP = mean(p)
+    const meanB = mean(b)
+
+    let cov = 0
+    let varP = 0
+    let varB = 0
+    for (let idx = 0; idx < n; idx++) {
+        cov += (p[idx] - meanP) * (b[idx] - meanB)
+        varP += (p[idx] - meanP) ** 2
+        varB += (b[idx] - meanB) ** 2
+    }
+    if (varB <= EPSILON) return { alpha: null, beta: null, correlation: null, observations: n }
+
+    const beta = cov / varB
+    return {
+        alpha: (meanP - beta * meanB) * periodsPerYear,
+        beta,
+        correlation: varP > EPSILON ? cov / Math.sqrt(varP * varB) : null,
+        observations: n,
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Comparison
+// ---------------------------------------------------------------------------
+
+export function compareWithBenchmarks(
+    points: PortfolioValuePoint[],
+    benchmarks: Partial<Record<BenchmarkId, BenchmarkPoint[]>>
+): BenchmarkComparison {
+    const dates = points.map(point => point.date)
+    const portfolioReturns = computeFlowAdjustedReturns(points)
+
+    // Portfolio line is the TWR index so deposits don't show up as performance
+    const portfolioIndex: Array<number | null> = dates.length > 0 ? [100] : []
+    for (const r of portfolioReturns) {
+        const prev = portfolioIndex[portfolioIndex.length - 1]
+        portfolioIndex.push(prev == null || r == null ? prev : prev * (1 + r))
+    }
+
+    const rows: BenchmarkChartRow[] = dates.map((date, idx) => ({ date, portfolio: portfolioIndex[idx] ?? null }))
+    const days = dates.length >= 2 ? daysBetween(dates[0], dates[dates.length - 1]) : 0
+    const twr = computeTimeWeightedReturn(points)
+    const mwrAnnualized = computeMoneyWeightedReturn(points)
+
+    const stats: BenchmarkStats[] = []
+    for (const id of BENCHMARK_IDS) {
+        const series = benchmarks[id]
+        if (!series || series.length === 0) continue
+
+        const aligned = alignToDates(series, dates, id === 'cpi')
+        const indexed = rebaseSeries(aligned)
+        indexed.forEach((value, idx) => { rows[idx][id] = value })
+
+        // Pair returns only where both sides are defined
+        const pairedPortfolio: number[] = []
+        const pairedBenchmark: number[] = []
+        for (let idx = 1; idx < dates.length; idx++) {
+            const r = portfolioReturns[idx - 1]
+            const prev = aligned[idx - 1]
+            const curr = aligned[idx]
+            if (r == null || prev == null || curr == null || prev <= EPSILON) continue
+            pairedPortfolio.push(r)
+            pairedBenchmark.push(curr / prev - 1)
+        }
+
+        const firstIdx = aligned.findIndex(value => value != null && value > EPSILON)
+        const lastValue = aligned[aligned.length - 1]
+        const periodReturn = firstIdx >= 0 && lastValue != null ? lastValue / aligned[firstIdx]! - 1 : null
+
+        // Excess return over the window where the benchmark has data
+        const portfolioStart = firstIdx >= 0 ? portfolioIndex[firstIdx] : null
+        const portfolioEnd = portfolioIndex[portfolioIndex.length - 1]
+        const twrWindow = portfolioStart != null && portfolioEnd != null && portfolioStart > EPSILON
+            ? portfolioEnd / portfolioStart - 1
+            : null
+
+        stats.push({
+            id,
+            label: BENCHMARK_LABELS[id],
+            periodReturn,
+            excessReturn: twrWindow != null && periodReturn != null ? twrWindow - periodReturn : null,
+            ...computeAlphaBeta(pairedPortfolio, pairedBenchmark),
+        })
+    }
+
+    return {
+        rows,
+        days,
+        twr,
+        twrAnnualized: annualizeReturn(twr, days),
+        mwr: mwrAnnualized != null && days > 0 ? Math.pow(1 + mwrAnnualized, days / 365) - 1 : null,
+        mwrAnnualized,
+        benchmarks: stats,
+    }
+}
@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest'
+import type { Instrument, Movement } from '@/domain/types'
+import type { PortfolioV2, RubroV2 } from '@/features/portfolioV2'
+import { buildCapitalizingSchedule } from '@/domain/bonds'
+import { buildCashflowCalendar, groupCashflowsByMonth } from './cashflow-calendar'
+import { computeProjectedEarningsByRubro } from './projected-earnings'
+
+const NOW = new Date('2026-02-09T12:00:00.000Z')
+
+function rubro(id: RubroV2['id'], items: RubroV2['providers'][number]['items']): RubroV2 {
+    return {
+        id,
+        name: id,
+        icon: 'circle',
+        fxPolicy: 'MEP',
+        totals: { ars: 0, usd: 0 },
+        pnl: { ars: 0, usd: 0 },
+        providers: [{ id: 'acc-1', name: 'Broker', totals: { ars: 0, usd: 0 }, pnl: { ars: 0, usd: 0 }, items }],
+    }
+}
+
+function makePortfolio(): PortfolioV2 {
+    return {
+        isLoading: false,
+        asOfISO: NOW.toISOString(),
+        fx: {
+            officialSell: 1000,
+            officialBuy: 980,
+            mepSell: 1000,
+            mepBuy: 990,
+            cclSell: 1100,
+            cclBuy: 1080,
+            cryptoSell: 1010,
+            cryptoBuy: 1000,
+            updatedAtISO: NOW.toISOString(),
+        },
+        kpis: {
+            totalArs: 0,
+            totalUsd: 0,
+            totalUsdEq: 0,
+            pnlUnrealizedArs: 0,
+            pnlUnrealizedUsd: 0,
+            pnlUnrealizedUsdEq: 0,
+            exposure: { usdHard: 0, usdEquivalent: 0, arsReal: 0 },
+            pctUsdHard: 0,
+            pctUsdEq: 0,
+            pctArs: 0,
+        },
+        flags: { inferredBalanceCount: 0 },
+        rubros: [
+            rubro('plazos', [
+                { id: 'pf-1', kind: 'plazo_fijo', symbol: 'PF', label: 'PF', valArs: 200000, valUsd: 200, accountId: 'acc-1' },
+            ]),
+            rubro('renta_fija', [
+                { id: 'bond-1', kind: 'bond', symbol: 'ONX', label: 'ON X', qty: 1000, valArs: 1000000, valUsd: 1000, accountId: 'acc-1', instrumentId: 'onx' },
+            ]),
+            rubro('cedears', [
+                { id: 'ced-1', kind: 'cedear', symbol: 'KO', label: 'KO', qty: 20, valArs: 100000, valUsd: 100, accountId: 'acc-1', instrumentId: 'ko' },
+            ]),
+        ],
+        walletDetails: new Map(),
+        fixedDepositDetails: new Map([
+            ['pf-1', {
+                movementId: 'mov-pf-1',
+                pfCode: 'PF-1',
+                bank: 'Banco',
+                status: 'active',
+                depositType: 'traditional',
+                capitalArs: 200000,
+                tna: 36,
+                termDays: 30,
+                startDateISO: '2026-02-01T00:00:00.000Z',
+                maturityDateISO: '2026-03-03T00:00:00.000Z',
+                daysRemaining: 22,
+                daysElapsed: 8,
+                expectedInterestArs: 6000,
+                expectedTotalArs: 206000,
+                accruedInterestArs: 1600,
+            }],
+        ]),
+        cedearDetails: new Map(),
+        cryptoDetails: new Map(),
+        fciDetails: new Map(),
+    }
+}
+
+const bondInstrument: Instrument = {
+    id: 'onx',
+    symbol: 'ONX',
+    name: 'ON X',
+    category: 'BOND',
+    nativeCurrency: 'USD',
+    priceKey: 'onx',
+    bond: {
+        kind: 'corporate',
+        currency: 'USD',
+        issueDate: '2025-01-01',
+        maturityDate: '2027-01-01',
+        flows: [
+            { date: '2026-01-01', coupon: 4, amortization: 0 },
+            { date: '2026-07-01', coupon: 4, amortization: 50 },
+            { date: '2027-01-01', coupon: 2, amortization: 50 },
+        ],
+    },
+}
+
+const dividend: Movement = {
+    id: 'div-1',
+    datetimeISO: '2025-04-01T15:00:00.000Z',
+    type: 'DIVIDEND',
+    assetClass: 'cedear',
+    instrumentId: 'ko',
+    accountId: 'acc-1',
+    tradeCurrency: 'USD',
+    totalAmount: 10,
+    netAmount: 7,
+    meta: { dividend: { grossAmount: 10, withholdingPct: 30, withholdingAmount: 3, sharesHeld: 10, perShare: 1 } },
+}
+
+describe('buildCashflowCalendar', () => {
+    it('collects PF maturities, bond flows and projected dividends in date order', () => {
+        const events = buildCashflowCalendar({
+            portfolio: makePortfolio(),
+            movements: [dividend],
+            instruments: [bondInstrument],
+            now: NOW,
+        })
+
+        expect(events.map(e => `${e.dateKey} ${e.kind}`)).toEqual([
+            '2026-03-03 pf_maturity',
+            '2026-04-01 dividend',
+            '2026-07-01 bond_coupon',
+            '2026-07-01 bond_amortization',
+            '2027-01-01 bond_coupon',
+            '2027-01-01 bond_amortization',
+        ])
+
+        const pf = events[0]
+        expect(pf.amountArs).toBe(206000)
+        expect(pf.incomeArs).toBe(6000)
+
+        // 1 USD per share on the 20 shares held today, net of 30% withholding
+        const div = events[1]
+        expect(div.estimated).toBe(true)
+        expect(div.amountUsd).toBeCloseTo(14)
+        expect(div.amountArs).toBeCloseTo(14000)
+
+        // Flows are per 100 VN: 1000 VN collect 10x
+        const coupon = events[2]
+        expect(coupon.amount).toBeCloseTo(40)
+        expect(coupon.incomeArs).toBeCloseTo(40000)
+        expect(events[3].amount).toBeCloseTo(500)
+        expect(events[3].incomeArs).toBe(0)
+    })
+
+    it('limits the range to the requested months and skips dividends older than a year', () => {
+        const events = buildCashflowCalendar({
+            portfolio: makePortfolio(),
+            movements: [{ ...dividend, datetimeISO: '2025-01-15T15:00:00.000Z' }],
+            instruments: [bondInstrument],
+            now: NOW,
+            months: 6,
+        })
+
+        expect(events.map(e => e.kind)).toEqual(['pf_maturity', 'bond_coupon', 'bond_amortization'])
+    })
+
+    it('groups events into month buckets including empty months', () => {
+        const [flow] = buildCapitalizingSchedule('2025-08-01', '2026-04-01', 2)
+        const events = buildCashflowCalendar({
+            portfolio: makePortfolio(),
+            movements: [],
+            instruments: [{ ...bondInstrument, bond: { ...bondInstrument.bond!, flows: [flow] } }],
+            now: NOW,
+            months: 3,
+        })
+        const months = groupCashflowsByMonth(events, '2026-02', 3)
+
+        expect(months.map(m => m.monthKey)).toEqual(['2026-02', '2026-03', '2026-04'])
+        expect(months[0].events).toEqual([])
+        expect(months[1].totalArs).toBe(206000)
+        expect(months[2].events).toHaveLength(2)
+        expect(months[2].incomeArs).toBeCloseTo(flow.coupon * 10 * 1000)
+    })
+})
+
+describe('projected earnings with scheduled cashflows', () => {
+    it('counts coupons and dividends inside the horizon as income', () => {
+        const portfolio = makePortfolio()
+        const cashflows = buildCashflowCalendar({ portfolio, movements: [dividend], instruments: [bondInstrument], now: NOW })
+
+        const d90 = computeProjectedEarningsByRubro({ portfolio, horizon: '90D', now: NOW, cashflows })
+        expect(d90.rows.find(r => r.rubroId === 'renta_fija')?.projectedGainArs).toBe(0)
+        expect(d90.rows.find(r => r.rubroId === 'cedears')?.projectedGainArs).toBeCloseTo(14000)
+
+        const y1 = computeProjectedEarningsByRubro({ portfolio, horizon: '1A', now: NOW, cashflows })
+        const bonds = y1.rows.find(r => r.rubroId === 'renta_fija')!
+        expect(bonds.projectedGainArs).toBeCloseTo(60000)
+        expect(bonds.projectedGainUsd).toBeCloseTo(60)
+
+        // The PF maturity is not added on top of its daily accrual
+        const pf = y1.rows.find(r => r.rubroId === 'plazos')!
+        expect(pf.projectedGainArs).toBeCloseTo(6000 * 22 / 30)
+    })
+})
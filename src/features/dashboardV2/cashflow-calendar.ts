@@ -0,0 +1,229 @@
+import type { Instrument, Movement } from '@/domain/types'
+import type { ItemV2, PortfolioV2, RubroId } from '@/features/portfolioV2'
+import { addMonthsKey, scaleFlows } from '@/domain/bonds'
+import { toSnapshotDateKey } from './snapshot-v2'
+
+/**
+ * Expected cash inflows: plazo fijo maturities, bond coupons and amortizations,
+ * and dividends projected from the last twelve months of payments.
+ *
+ * Every event carries the full amount (what lands in the account) and the
+ * income part of it (interest, coupon, dividend), so the calendar can show
+ * cash while projected earnings only count income.
+ */
+
+export type CashflowKind = 'pf_maturity' | 'bond_coupon' | 'bond_amortization' | 'dividend'
+
+export interface CashflowEvent {
+    dateKey: string
+    kind: CashflowKind
+    rubroId: RubroId
+    itemId: string
+    symbol: string
+    label: string
+    currency: 'ARS' | 'USD'
+    /** Amount in `currency` */
+    amount: number
+    amountArs: number
+    amountUsd: number
+    incomeArs: number
+    incomeUsd: number
+    /** Dividends repeat last year's payment; PF and bond flows are contractual */
+    estimated: boolean
+}
+
+export interface CashflowMonth {
+    /** YYYY-MM */
+    monthKey: string
+    totalArs: number
+    totalUsd: number
+    incomeArs: number
+    incomeUsd: number
+    events: CashflowEvent[]
+}
+
+export interface CashflowCalendarInput {
+    portfolio: PortfolioV2
+    movements: Movement[]
+    instruments: Instrument[]
+    now?: Date
+    /** Months ahead, counting the current one */
+    months?: number
+}
+
+export const DEFAULT_CALENDAR_MONTHS = 12
+
+const DIVIDEND_RUBROS: RubroId[] = ['cedears', 'fci']
+
+function toFinite(value: number | null | undefined): number {
+    return Number.isFinite(value) ? Number(value) : 0
+}
+
+function resolveMep(portfolio: PortfolioV2): number {
+    return portfolio.fx.mepSell || portfolio.fx.officialSell || 0
+}
+
+function toPair(amount: number, currency: 'ARS' | 'USD', mep: number): { ars: number; usd: number } {
+    if (currency === 'USD') return { ars: amount * mep, usd: amount }
+    return { ars: amount, usd: mep > 0 ? amount / mep : 0 }
+}
+
+function findItems(portfolio: PortfolioV2, rubroId: RubroId): ItemV2[] {
+    const rubro = portfolio.rubros.find(r => r.id === rubroId)
+    return rubro ? rubro.providers.flatMap(p => p.items) : []
+}
+
+function fixedDepositEvents(portfolio: PortfolioV2, mep: number): CashflowEvent[] {
+    return findItems(portfolio, 'plazos').flatMap((item): CashflowEvent[] => {
+        const detail = portfolio.fixedDepositDetails.get(item.id)
+        if (!detail || detail.status !== 'active') return []
+        const total = toFinite(detail.expectedTotalArs)
+        if (total <= 0) return []
+        const amount = toPair(total, 'ARS', mep)
+        const income = toPair(toFinite(detail.expectedInterestArs), 'ARS', mep)
+        return [{
+            dateKey: detail.maturityDateISO.slice(0, 10),
+            kind: 'pf_maturity',
+            rubroId: 'plazos',
+            itemId: item.id,
+            symbol: item.symbol,
+            label: detail.alias || `${detail.bank} ${detail.pfCode}`,
+            currency: 'ARS',
+            amount: total,
+            amountArs: amount.ars,
+            amountUsd: amount.usd,
+            incomeArs: income.ars,
+            incomeUsd: income.usd,
+            estimated: false,
+        }]
+    })
+}
+
+function bondEvents(portfolio: PortfolioV2, instruments: Instrument[], todayKey: string, mep: number): CashflowEvent[] {
+    const byId = new Map(instruments.map(i => [i.id, i]))
+    return findItems(portfolio, 'renta_fija').flatMap((item) => {
+        const terms = item.instrumentId ? byId.get(item.instrumentId)?.bond : undefined
+        const qty = toFinite(item.qty)
+        if (!terms || qty <= 0) return []
+
+        const flows = scaleFlows(terms.flows.filter(f => f.date > todayKey), qty)
+        const events: CashflowEvent[] = []
+        for (const flow of flows) {
+            const base = {
+                dateKey: flow.date,
+                rubroId: 'renta_fija' as const,
+                itemId: item.id,
+                symbol: item.symbol,
+                label: item.label,
+                currency: terms.currency,
+                estimated: false,
+            }
+            if (flow.coupon > 0) {
+                const pair = toPair(flow.coupon, terms.currency, mep)
+                events.push({ ...base, kind: 'bond_coupon', amount: flow.coupon, amountArs: pair.ars, amountUsd: pair.usd, incomeArs: pair.ars, incomeUsd: pair.usd })
+            }
+            if (flow.amortization > 0) {
+                const pair = toPair(flow.amortization, terms.currency, mep)
+                events.push({ ...base, kind: 'bond_amortization', amount: flow.amortization, amountArs: pair.ars, amountUsd: pair.usd, incomeArs: 0, incomeUsd: 0 })
+            }
+        }
+        return events
+    })
+}
+
+/**
+ * Each dividend paid in the last year is expected again twelve months later,
+ * rescaled to the current holding when the payment recorded the per-share amount.
+ */
+function dividendEvents(portfolio: PortfolioV2, movements: Movement[], todayKey: string, mep: number): CashflowEvent[] {
+    const itemsByKey = new Map<string, { item: ItemV2; rubroId: RubroId }>()
+    for (const rubroId of DIVIDEND_RUBROS) {
+        for (const item of findItems(portfolio, rubroId)) {
+            if (item.instrumentId && toFinite(item.qty) > 0) {
+                itemsByKey.set(`${item.accountId}::${item.instrumentId}`, { item, rubroId })
+            }
+        }
+    }
+
+    const fromKey = addMonthsKey(todayKey, -12)
+    return movements.flatMap((m): CashflowEvent[] => {
+        if (m.type !== 'DIVIDEND' || !m.instrumentId) return []
+        const paidKey = m.datetimeISO.slice(0, 10)
+        if (paidKey <= fromKey || paidKey > todayKey) return []
+        const match = itemsByKey.get(`${m.accountId}::${m.instrumentId}`)
+        if (!match) return []
+
+        const currency: 'ARS' | 'USD' = m.tradeCurrency === 'ARS' ? 'ARS' : 'USD'
+        const meta = m.meta?.dividend
+        const net = meta?.perShare != null
+            ? meta.perShare * toFinite(match.item.qty) * (1 - meta.withholdingPct / 100)
+            : toFinite(m.netAmount ?? m.totalAmount)
+        if (net <= 0) return []
+
+        const pair = toPair(net, currency, mep)
+        return [{
+            dateKey: addMonthsKey(paidKey, 12),
+            kind: 'dividend',
+            rubroId: match.rubroId,
+            itemId: match.item.id,
+            symbol: match.item.symbol,
+            label: match.item.label,
+            currency,
+            amount: net,
+            amountArs: pair.ars,
+            amountUsd: pair.usd,
+            incomeArs: pair.ars,
+            incomeUsd: pair.usd,
+            estimated: true,
+        }]
+    })
+}
+
+/** Expected inflows after today, sorted by date, up to the end of the last calendar month. */
+export function buildCashflowCalendar({
+    portfolio,
+    movements,
+    instruments,
+    now = new Date(),
+    months = DEFAULT_CALENDAR_MONTHS,
+}: CashflowCalendarInput): CashflowEvent[] {
+    const todayKey = toSnapshotDateKey(now)
+    const endMonthKey = addMonthsKey(`${todayKey.slice(0, 7)}-01`, months - 1).slice(0, 7)
+    const mep = resolveMep(portfolio)
+
+    return [
+        ...fixedDepositEvents(portfolio, mep),
+        ...bondEvents(portfolio, instruments, todayKey, mep),
+        ...dividendEvents(portfolio, movements, todayKey, mep),
+    ]
+        .filter(e => e.dateKey > todayKey && e.dateKey.slice(0, 7) <= endMonthKey)
+        .sort((a, b) => a.dateKey.localeCompare(b.dateKey) || a.symbol.localeCompare(b.symbol))
+}
+
+/** One bucket per month starting at `fromMonthKey`, empty months included. */
+export function groupCashflowsByMonth(
+    events: CashflowEvent[],
+    fromMonthKey: string,
+    months: number = DEFAULT_CALENDAR_MONTHS
+): CashflowMonth[] {
+    const buckets: CashflowMonth[] = Array.from({ length: months }, (_, i) => ({
+        monthKey: addMonthsKey(`${fromMonthKey}-01`, i).slice(0, 7),
+        totalArs: 0,
+        totalUsd: 0,
+        incomeArs: 0,
+        incomeUsd: 0,
+        events: [],
+    }))
+    const byKey = new Map(buckets.map(b => [b.monthKey, b]))
+
+    for (const event of events) {
+        const bucket = byKey.get(event.dateKey.slice(0, 7))
+        if (!bucket) continue
+        bucket.totalArs += event.amountArs
+        bucket.totalUsd += event.amountUsd
+        bucket.incomeArs += event.incomeArs
+        bucket.incomeUsd += event.incomeUsd
+        bucket.events.push(event)
+    }
+    return buckets
+}
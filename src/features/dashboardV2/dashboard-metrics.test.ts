@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest'
 import type { Movement, Snapshot } from '@/domain/types'
 import type { PortfolioV2 } from '@/features/portfolioV2'
+import { createCpiDeflator } from '@/domain/inflation'
 import { computeDashboardMetrics } from './dashboard-metrics'
 
 function makeSnapshot(dateLocal: string, totalARS: number, withBreakdown = true): Snapshot {
@@ -123,6 +124,7 @@ function makePortfolio(totalArs: number): PortfolioV2 {
                 pfCode: 'PF-001',
                 bank: 'Banco',
                 status: 'active',
+                depositType: 'traditional',
                 capitalArs: 6000,
                 tna: 40,
                 termDays: 30,
@@ -224,4 +226,25 @@ describe('dashboard metrics', () => {
         const plazos = metrics.drivers.rows.find((row) => row.rubroId === 'plazos')
         expect(plazos?.interestArs ?? 0).toBeGreaterThan(0)
     })
+
+    it('restates the baseline in today\'s pesos when a CPI series is loaded', () => {
+        const portfolio = makePortfolio(12000)
+        const snapshots = [makeSnapshot('2026-01-01', 10000)]
+        const cpi = createCpiDeflator([{ month: '2026-01', pct: 10 }], '2026-02-09')
+
+        const metrics = computeDashboardMetrics({
+            portfolio,
+            snapshots,
+            movements: [],
+            range: 'TOTAL',
+            now: new Date('2026-02-09T12:00:00.000Z'),
+            cpi,
+        })
+
+        expect(metrics.ytd.value?.deltaPct).toBeCloseTo(0.2)
+        expect(metrics.ytd.value?.deltaRealArs).toBeCloseTo(1000)
+        expect(metrics.ytd.value?.deltaRealPct).toBeCloseTo(1000 / 11000)
+        expect(metrics.netIncome.inflationArs).toBeCloseTo(-1000)
+        expect(metrics.netIncome.netRealArs).toBeCloseTo(1000)
+    })
 })
@@ -1,7 +1,17 @@
 import type { Movement, Snapshot } from '@/domain/types'
+import type { CpiDeflator } from '@/domain/inflation'
 import type { PortfolioV2, ItemV2 } from '@/features/portfolioV2'
 import { computeDrivers, type DriverCategoryDelta } from './snapshot-helpers'
 import { buildSnapshotFromPortfolioV2 } from './snapshot-v2'
+import {
+    addAttribution,
+    attributeValueChange,
+    buildFxFamilyByAssetKey,
+    buildNativeCurrencyByAssetKey,
+    itemFxFamily,
+    itemNativeCurrency,
+    ZERO_ATTRIBUTION,
+} from './fx-attribution'
 
 export type DashboardRange = '1D' | '7D' | '30D' | '90D' | '1Y' | 'TOTAL'
 
@@ -9,6 +19,9 @@ interface DeltaValue {
     deltaArs: number
     deltaUsd: number
     deltaPct: number | null
+    /** Change against the baseline restated in today's pesos (only with a CPI series) */
+    deltaRealArs?: number
+    deltaRealPct?: number | null
 }
 
 export interface DeltaMetric {
@@ -33,6 +46,9 @@ export interface NetIncomeMetric {
     variationArs: number
     variationUsd: number
     interestEstimated: boolean
+    /** Inflation on the baseline value (negative) and the net in today's pesos (only with a CPI series) */
+    inflationArs?: number
+    netRealArs?: number
 }
 
 export interface DriverMetricRow extends DriverCategoryDelta {
@@ -67,6 +83,8 @@ export interface DashboardMetricsInput {
     range: DashboardRange
     now?: Date
     timeZone?: string
+    /** CPI deflator to today's pesos; adds the real ARS fields */
+    cpi?: CpiDeflator | null
 }
 
 const RANGE_DAYS: Record<Exclude<DashboardRange, 'TOTAL'>, number> = {
@@ -170,12 +188,22 @@ function getSnapshotForRange(
     return getSnapshotAtOrBeforeByKey(snapshotsAsc, targetKey, requireBreakdown)
 }
 
-function toDelta(currentArs: number, currentUsd: number, baseline: Snapshot | null): DeltaValue | null {
+function toDelta(
+    currentArs: number,
+    currentUsd: number,
+    baseline: Snapshot | null,
+    cpi: CpiDeflator | null
+): DeltaValue | null {
     if (!baseline) return null
     const deltaArs = currentArs - baseline.totalARS
     const deltaUsd = currentUsd - baseline.totalUSD
     const deltaPct = Math.abs(baseline.totalARS) > EPSILON ? (deltaArs / baseline.totalARS) : null
-    return { deltaArs, deltaUsd, deltaPct }
+    if (!cpi) return { deltaArs, deltaUsd, deltaPct }
+
+    const baselineRealArs = baseline.totalARS * cpi.factorAt(baseline.dateLocal)
+    const deltaRealArs = currentArs - baselineRealArs
+    const deltaRealPct = Math.abs(baselineRealArs) > EPSILON ? (deltaRealArs / baselineRealArs) : null
+    return { deltaArs, deltaUsd, deltaPct, deltaRealArs, deltaRealPct }
 }
 
 function convertMovementAmountToArsUsd(
@@ -218,6 +246,7 @@ function computeDriversFromCurrentPnL(portfolio: PortfolioV2): DriverCategoryDel
                 const deltaArs = item.pnlArs ?? 0
                 const deltaUsd = item.pnlUsd ?? 0
                 const costArs = item.valArs - deltaArs
+                const cost = { ars: costArs, usd: item.valUsd - deltaUsd }
 
                 const driverItem = {
                     assetKey,
@@ -227,6 +256,13 @@ function computeDriversFromCurrentPnL(portfolio: PortfolioV2): DriverCategoryDel
                     deltaArs,
                     deltaUsd,
                     deltaPct: Math.abs(costArs) > EPSILON ? (deltaArs / costArs) : null,
+                    // Cost USD is valued at the trade-time rates, so FX since purchase shows up
+                    attribution: attributeValueChange(
+                        cost,
+                        { ars: item.valArs, usd: item.valUsd },
+                        itemNativeCurrency(item),
+                        itemFxFamily(item)
+                    ),
                 }
 
                 const current = byRubro.get(rubro.id) ?? {
@@ -236,6 +272,7 @@ function computeDriversFromCurrentPnL(portfolio: PortfolioV2): DriverCategoryDel
                     deltaArs: 0,
                     deltaUsd: 0,
                     deltaPct: null,
+                    attribution: { ...ZERO_ATTRIBUTION },
                     items: [],
                 }
 
@@ -243,6 +280,7 @@ function computeDriversFromCurrentPnL(portfolio: PortfolioV2): DriverCategoryDel
                 current.currentUsd += driverItem.currentUsd
                 current.deltaArs += driverItem.deltaArs
                 current.deltaUsd += driverItem.deltaUsd
+                addAttribution(current.attribution, driverItem.attribution)
                 current.items.push(driverItem)
 
                 byRubro.set(rubro.id, current)
@@ -310,7 +348,8 @@ function buildNetIncome(
     movements: Movement[],
     range: DashboardRange,
     todayKey: string,
-    timeZone: string
+    timeZone: string,
+    cpi: CpiDeflator | null
 ): {
     metric: NetIncomeMetric
     interestByRubroArs: Map<string, number>
@@ -453,6 +492,7 @@ function buildNetIncome(
     const feesUsd = -feesOutUsd
     const variationArs = netArs - interestArs - feesArs
     const variationUsd = netUsd - interestUsd - feesUsd
+    const inflationArs = cpi ? -baseline.totalARS * (cpi.factorAt(baseline.dateLocal) - 1) : undefined
 
     return {
         metric: {
@@ -469,6 +509,8 @@ function buildNetIncome(
             variationArs,
             variationUsd,
             interestEstimated: useEstimatedInterest,
+            inflationArs,
+            netRealArs: inflationArs != null ? netArs + inflationArs : undefined,
         },
         interestByRubroArs: useEstimatedInterest ? estimatedInterestByRubroArs : realizedInterestByRubroArs,
         feesByRubroArs,
@@ -485,11 +527,13 @@ function buildDrivers(
     feesByRubroArs: Map<string, number>
 ): DriversMetric {
     const currentBreakdown = buildSnapshotFromPortfolioV2(portfolio).breakdownItems ?? {}
+    const nativeCurrencies = buildNativeCurrencyByAssetKey(portfolio)
+    const fxFamilies = buildFxFamilyByAssetKey(portfolio)
 
     if (range === 'TOTAL') {
         const oldestWithBreakdown = getSnapshotForRange(snapshotsAsc, 'TOTAL', todayKey, true)
         if (oldestWithBreakdown?.breakdownItems) {
-            const rows = computeDrivers(currentBreakdown, oldestWithBreakdown.breakdownItems)
+            const rows = computeDrivers(currentBreakdown, oldestWithBreakdown.breakdownItems, nativeCurrencies, fxFamilies)
                 .map((row) => {
                     const interestArs = interestByRubroArs.get(row.rubroId) ?? 0
                     const feesArs = feesByRubroArs.get(row.rubroId) ?? 0
@@ -547,7 +591,7 @@ function buildDrivers(
         }
     }
 
-    const rows = computeDrivers(currentBreakdown, baseline.breakdownItems)
+    const rows = computeDrivers(currentBreakdown, baseline.breakdownItems, nativeCurrencies, fxFamilies)
         .map((row) => {
             const interestArs = interestByRubroArs.get(row.rubroId) ?? 0
             const feesArs = feesByRubroArs.get(row.rubroId) ?? 0
@@ -578,6 +622,7 @@ export function computeDashboardMetrics({
     range,
     now = new Date(),
     timeZone = DEFAULT_TZ,
+    cpi = null,
 }: DashboardMetricsInput): DashboardMetrics {
     const snapshotsAsc = normalizeSnapshots(snapshots)
     const todayKey = toDateKeyInTimeZone(now, timeZone)
@@ -597,9 +642,9 @@ export function computeDashboardMetrics({
     const mtdBaseline = getSnapshotAtOrBeforeByKey(snapshotsAsc, monthStart, false)
     const ytdBaseline = getSnapshotAtOrBeforeByKey(snapshotsAsc, yearStart, false)
 
-    const variation24hValue = toDelta(currentArs, currentUsd, oneDayBaseline)
-    const mtdValue = toDelta(currentArs, currentUsd, mtdBaseline)
-    const ytdValue = toDelta(currentArs, currentUsd, ytdBaseline)
+    const variation24hValue = toDelta(currentArs, currentUsd, oneDayBaseline, cpi)
+    const mtdValue = toDelta(currentArs, currentUsd, mtdBaseline, cpi)
+    const ytdValue = toDelta(currentArs, currentUsd, ytdBaseline, cpi)
 
     const netIncomeResult = buildNetIncome(
         portfolio,
@@ -607,7 +652,8 @@ export function computeDashboardMetrics({
         movements,
         range,
         todayKey,
-        timeZone
+        timeZone,
+        cpi
     )
 
     return {
@@ -0,0 +1,174 @@
+/**
+ * FX attribution
+ *
+ * Splits a change in value into the price move in the asset's native currency
+ * and the FX move. Both ends carry ARS and USD amounts, so the rate at each
+ * end is implied by their ratio: for a cost basis that is the rate recorded
+ * at trade time, for a snapshot the rate it was valued at.
+ *
+ * - USD-native (crypto, USD cash/FCI/bonds): the USD change is all price;
+ *   in ARS, the price part is taken at the start rate and the rest is FX.
+ * - ARS-native (CEDEARs, ARS FCI/bonds, pesos): the ARS change is all price;
+ *   in USD, the price part is taken at the start rate and the rest is FX.
+ *
+ * The FX part is also kept per rate family the holding is valued at (Oficial,
+ * MEP, Cripto), so a rubro mixing rates shows which dollar moved it.
+ */
+
+import type { FxMeta, ItemV2, PortfolioV2 } from '@/features/portfolioV2'
+import { buildSnapshotAssetKey } from './snapshot-v2'
+
+export type AttributionCurrency = 'ARS' | 'USD'
+
+/** Rate family a holding is valued at (see FxMeta) */
+export type AttributionFxFamily = FxMeta['family']
+
+export interface ArsUsd {
+    ars: number
+    usd: number
+}
+
+export interface PnLAttribution {
+    priceArs: number
+    fxArs: number
+    priceUsd: number
+    fxUsd: number
+    /** FX part by rate family; entries add up to fxArs / fxUsd */
+    fxByFamily: Partial<Record<AttributionFxFamily, ArsUsd>>
+}
+
+const EPSILON = 1e-9
+
+export const ZERO_ATTRIBUTION: PnLAttribution = { priceArs: 0, fxArs: 0, priceUsd: 0, fxUsd: 0, fxByFamily: {} }
+
+function impliedRate(value: ArsUsd | undefined): number | null {
+    if (!value || Math.abs(value.usd) <= EPSILON || Math.abs(value.ars) <= EPSILON) return null
+    const rate = value.ars / value.usd
+    return Number.isFinite(rate) && rate > 0 ? rate : null
+}
+
+/**
+ * Attribution of `end - start`. A position opened or closed within the range
+ * has no rate at one end: the whole change is price.
+ */
+export function attributeValueChange(
+    start: ArsUsd | undefined,
+    end: ArsUsd | undefined,
+    nativeCurrency: AttributionCurrency,
+    fxFamily: AttributionFxFamily
+): PnLAttribution {
+    const from = start ?? { ars: 0, usd: 0 }
+    const to = end ?? { ars: 0, usd: 0 }
+    const deltaArs = to.ars - from.ars
+    const deltaUsd = to.usd - from.usd
+
+    const startRate = impliedRate(from)
+    if (startRate == null || impliedRate(to) == null) {
+        return { priceArs: deltaArs, fxArs: 0, priceUsd: deltaUsd, fxUsd: 0, fxByFamily: {} }
+    }
+
+    if (nativeCurrency === 'USD') {
+        const priceArs = deltaUsd * startRate
+        const fxArs = deltaArs - priceArs
+        return { priceArs, fxArs, priceUsd: deltaUsd, fxUsd: 0, fxByFamily: { [fxFamily]: { ars: fxArs, usd: 0 } } }
+    }
+
+    const priceUsd = deltaArs / startRate
+    const fxUsd = deltaUsd - priceUsd
+    return { priceArs: deltaArs, fxArs: 0, priceUsd, fxUsd, fxByFamily: { [fxFamily]: { ars: 0, usd: fxUsd } } }
+}
+
+/** Adds `other` into `target`. The per-family map is replaced, never mutated, so ZERO_ATTRIBUTION copies stay safe */
+export function addAttribution(target: PnLAttribution, other: PnLAttribution): PnLAttribution {
+    target.priceArs += other.priceArs
+    target.fxArs += other.fxArs
+    target.priceUsd += other.priceUsd
+    target.fxUsd += other.fxUsd
+    const fxByFamily = { ...target.fxByFamily }
+    for (const [family, fx] of Object.entries(other.fxByFamily) as [AttributionFxFamily, ArsUsd][]) {
+        const current = fxByFamily[family]
+        fxByFamily[family] = { ars: (current?.ars ?? 0) + fx.ars, usd: (current?.usd ?? 0) + fx.usd }
+    }
+    target.fxByFamily = fxByFamily
+    return target
+}
+
+/** Currency an item is priced in, before converting at its FX family */
+export function itemNativeCurrency(item: Pick<ItemV2, 'kind' | 'fxMeta'>): AttributionCurrency {
+    switch (item.kind) {
+        case 'crypto':
+        case 'stable':
+        case 'cash_usd':
+            return 'USD'
+        case 'fci':
+        case 'bond':
+            // USD-native instruments convert USD -> ARS (side V)
+            return item.fxMeta?.side === 'V' ? 'USD' : 'ARS'
+        default:
+            return 'ARS'
+    }
+}
+
+/**
+ * Native currency per snapshot asset key of the live portfolio. Keys that are
+ * no longer held fall back to their prefix (crypto is USD, the rest ARS).
+ */
+export function buildNativeCurrencyByAssetKey(portfolio: PortfolioV2): Record<string, AttributionCurrency> {
+    const byKey: Record<string, AttributionCurrency> = {}
+    for (const rubro of portfolio.rubros) {
+        for (const provider of rubro.providers) {
+            for (const item of provider.items) {
+                byKey[buildSnapshotAssetKey(item)] = itemNativeCurrency(item)
+            }
+        }
+    }
+    return byKey
+}
+
+export function nativeCurrencyForAssetKey(
+    assetKey: string,
+    nativeCurrencies: Record<string, AttributionCurrency> = {}
+): AttributionCurrency {
+    return nativeCurrencies[assetKey] ?? (assetKey.startsWith('crypto:') ? 'USD' : 'ARS')
+}
+
+/** Rate family an item is valued at; items without fxMeta follow the default valuation per kind */
+export function itemFxFamily(item: Pick<ItemV2, 'kind' | 'fxMeta'>): AttributionFxFamily {
+    if (item.fxMeta) return item.fxMeta.family
+    switch (item.kind) {
+        case 'crypto':
+        case 'stable':
+            return 'Cripto'
+        case 'cedear':
+        case 'bond':
+            return 'MEP'
+        default:
+            return 'Oficial'
+    }
+}
+
+/**
+ * Rate family per snapshot asset key of the live portfolio. Keys that are no
+ * longer held fall back to their prefix (crypto Cripto, CEDEARs MEP, the rest Oficial).
+ */
+export function buildFxFamilyByAssetKey(portfolio: PortfolioV2): Record<string, AttributionFxFamily> {
+    const byKey: Record<string, AttributionFxFamily> = {}
+    for (const rubro of portfolio.rubros) {
+        for (const provider of rubro.providers) {
+            for (const item of provider.items) {
+                byKey[buildSnapshotAssetKey(item)] = itemFxFamily(item)
+            }
+        }
+    }
+    return byKey
+}
+
+export function fxFamilyForAssetKey(
+    assetKey: string,
+    fxFamilies: Record<string, AttributionFxFamily> = {}
+): AttributionFxFamily {
+    if (fxFamilies[assetKey]) return fxFamilies[assetKey]
+    if (assetKey.startsWith('crypto:')) return 'Cripto'
+    if (assetKey.startsWith('cedear:')) return 'MEP'
+    return 'Oficial'
+}
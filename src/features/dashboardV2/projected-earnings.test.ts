@@ -185,6 +185,7 @@ function makePortfolio(): PortfolioV2 {
                 pfCode: 'PF-1',
                 bank: 'Banco',
                 status: 'active',
+                depositType: 'traditional',
                 capitalArs: 200000,
                 tna: 0,
                 termDays: 30,
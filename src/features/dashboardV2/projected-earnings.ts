@@ -1,6 +1,7 @@
 import type { ItemV2, PortfolioV2, RubroId } from '@/features/portfolioV2'
 import { computeYieldMetrics } from '@/domain/yield/accrual'
 import { buildSnapshotAssetKey } from './snapshot-v2'
+import type { CashflowEvent } from './cashflow-calendar'
 
 export type HorizonKey = 'HOY' | 'MAN' | '7D' | '30D' | '90D' | '1A'
 
@@ -57,6 +58,8 @@ export interface ProjectedEarningsByRubroInput {
     portfolio: PortfolioV2
     now?: Date
     horizon: HorizonKey
+    /** Scheduled inflows (see cashflow-calendar); coupons and dividends in the horizon count as income */
+    cashflows?: CashflowEvent[]
 }
 
 const RUBRO_LABELS: Record<RubroId, string> = {
@@ -64,11 +67,12 @@ const RUBRO_LABELS: Record<RubroId, string> = {
     frascos: 'Frascos',
     plazos: 'Plazos Fijos',
     cedears: 'CEDEARs',
+    renta_fija: 'Renta fija',
     crypto: 'Cripto',
     fci: 'Fondos (FCI)',
 }
 
-const RUBRO_ORDER: RubroId[] = ['wallets', 'frascos', 'plazos', 'cedears', 'crypto', 'fci']
+const RUBRO_ORDER: RubroId[] = ['wallets', 'frascos', 'plazos', 'cedears', 'renta_fija', 'crypto', 'fci']
 
 const HORIZON_DAYS: Record<HorizonKey, number> = {
     HOY: 1,
@@ -157,6 +161,38 @@ function daysBetweenDateKeys(fromKey: string, toKey: string): number {
     return Number.isFinite(raw) ? raw : 0
 }
 
+function addDaysToDateKey(dateKey: string, days: number): string {
+    const date = parseDateKey(dateKey)
+    date.setUTCDate(date.getUTCDate() + days)
+    return date.toISOString().slice(0, 10)
+}
+
+function scheduledIncomeKey(rubroId: RubroId, itemId: string): string {
+    return `${rubroId}::${itemId}`
+}
+
+/**
+ * Income per item from calendar events inside the horizon. PF maturities are
+ * skipped: their interest is already projected day by day.
+ */
+function sumScheduledIncomeArs(
+    cashflows: CashflowEvent[],
+    horizonDays: number,
+    now: Date,
+    timeZone: string
+): Map<string, number> {
+    const todayKey = toDateKeyInTimeZone(now, timeZone)
+    const endKey = addDaysToDateKey(todayKey, horizonDays)
+    const totals = new Map<string, number>()
+    for (const event of cashflows) {
+        if (event.kind === 'pf_maturity') continue
+        if (event.dateKey <= todayKey || event.dateKey > endKey) continue
+        const key = scheduledIncomeKey(event.rubroId, event.itemId)
+        totals.set(key, (totals.get(key) ?? 0) + toFinite(event.incomeArs))
+    }
+    return totals
+}
+
 function resolveDaysRemainingFromDetail(
     detail: PortfolioV2['fixedDepositDetails'] extends Map<string, infer D> ? D : never,
     now: Date,
@@ -199,6 +235,20 @@ function estimatePfProjectedGainArs(
     return clampNonNegative(expectedInterestArs * (accruedDays / termDays))
 }
 
+/** Signed: a tomadora projects the interest it still owes as a negative gain */
+function estimateCaucionProjectedGainArs(item: ItemV2, horizonDays: number): number {
+    const meta = item.pfMeta
+    if (!meta?.startDateISO || !meta.maturityDateISO) return 0
+
+    const termDays = Math.round(
+        (new Date(meta.maturityDateISO).getTime() - new Date(meta.startDateISO).getTime()) / 86400000
+    )
+    const daysRemaining = Math.max(0, Math.floor(toFinite(meta.daysRemaining)))
+    if (termDays <= 0 || daysRemaining <= 0) return 0
+
+    return toFinite(meta.expectedInterestArs) * (Math.min(horizonDays, daysRemaining) / termDays)
+}
+
 function buildProjectedItem(
     portfolio: PortfolioV2,
     rubroId: RubroId,
@@ -206,7 +256,8 @@ function buildProjectedItem(
     horizonDays: number,
     fxRef: number | null,
     now: Date,
-    timeZone: string
+    timeZone: string,
+    scheduledIncomeArs: number | undefined
 ): ProjectedEarningsItemRow {
     const notes: string[] = []
     let status: RowStatus = 'ok'
@@ -239,9 +290,18 @@ function buildProjectedItem(
                 notes.push('sin devengado proyectable')
             }
         }
+    } else if (rubroId === 'plazos' && item.kind === 'caucion') {
+        projectedGainArs = estimateCaucionProjectedGainArs(item, horizonDays)
+        if (projectedGainArs < 0) notes.push('caución tomadora: interés a pagar')
+        else if (projectedGainArs === 0) notes.push('sin devengado proyectable')
+    } else if (rubroId === 'renta_fija' && item.kind === 'bond') {
+        notes.push('precio constante (incremental=0)')
+        projectedGainArs = toFinite(scheduledIncomeArs)
+        if (projectedGainArs <= 0) notes.push('sin cupones en el horizonte')
     } else if (rubroId === 'cedears' || rubroId === 'crypto' || rubroId === 'fci') {
         notes.push('precio constante (incremental=0)')
-        projectedGainArs = 0
+        projectedGainArs = toFinite(scheduledIncomeArs)
+        if (projectedGainArs > 0) notes.push('incluye dividendos estimados')
     } else {
         status = 'missing_data'
         notes.push('sin modelo de rendimiento')
@@ -295,15 +355,26 @@ export function computeProjectedEarningsByRubro({
     portfolio,
     now = new Date(),
     horizon,
+    cashflows = [],
 }: ProjectedEarningsByRubroInput): ProjectedEarningsByRubroResult {
     const horizonDays = HORIZON_DAYS[horizon]
     const fxRef = resolveFxRef(portfolio)
     const timeZone = DEFAULT_TIMEZONE
+    const scheduledIncome = sumScheduledIncomeArs(cashflows, horizonDays, now, timeZone)
 
     const rows: ProjectedEarningsByRubroRow[] = portfolio.rubros.map((rubro) => {
         const items = rubro.providers.flatMap((provider) =>
             provider.items.map((item) =>
-                buildProjectedItem(portfolio, rubro.id, item, horizonDays, fxRef, now, timeZone)
+                buildProjectedItem(
+                    portfolio,
+                    rubro.id,
+                    item,
+                    horizonDays,
+                    fxRef,
+                    now,
+                    timeZone,
+                    scheduledIncome.get(scheduledIncomeKey(rubro.id, item.id))
+                )
             )
         )
 
@@ -3,6 +3,7 @@ import { computeResultsCardModel } from './results-service'
 import { computeNetFlowsByRubro } from './results-flows'
 import type { PortfolioV2, ItemV2, RubroV2, WalletDetail } from '@/features/portfolioV2'
 import type { Movement, Snapshot } from '@/domain/types'
+import { createCpiDeflator } from '@/domain/inflation'
 
 // Mock minimal objects
 const mockSnapshot: Snapshot = {
@@ -896,4 +897,65 @@ describe('Results Audit - Logic Verification', () => {
         expect(wallets?.pnl.ars).toBeCloseTo(0, 6)
         expect(result.totals.pnl.ars).toBeCloseTo(0, 6)
     })
+
+    it('period real view: only the result above inflation counts', () => {
+        const portfolio = makePortfolioForPeriod({
+            wallets: [{ accountId: 'wallet-2', valArs: 0 }],
+            cedears: [{ accountId: 'broker-1', symbol: 'SPY', valArs: 110_000 }],
+        })
+
+        const baseline = makePeriodSnapshot({
+            wallets: { ars: 100_000, usd: 100 },
+            cedears: { ars: 0, usd: 0 },
+        })
+
+        const movements: Movement[] = [{
+            id: 'buy-1',
+            datetimeISO: '2025-01-25T10:00:00Z',
+            type: 'BUY',
+            assetClass: 'cedear',
+            instrumentId: 'SPY',
+            accountId: 'broker-1',
+            tradeCurrency: 'ARS',
+            totalAmount: 100_000,
+        }]
+
+        const result = computeResultsCardModel({
+            portfolio,
+            snapshots: [baseline],
+            movements,
+            periodKey: '30D',
+            now: new Date('2025-02-01T12:00:00Z'),
+            cpi: createCpiDeflator([{ month: '2025-01', pct: 5 }], '2025-02-01'),
+        })
+
+        expect(result.totals.pnl.ars).toBeCloseTo(10_000, 6)
+        // 100k of January pesos are worth 105k today
+        expect(result.totals.pnl.real).toBeCloseTo(5_000, 6)
+        expect(result.meta.realNote).toBeUndefined()
+    })
+
+    it('TOTAL splits the result into price and FX from the trade-time cost', () => {
+        const portfolio = makePortfolioForPeriod({
+            wallets: [{ accountId: 'wallet-2', valArs: 0 }],
+            cedears: [{ accountId: 'broker-1', symbol: 'SPY', valArs: 110_000 }],
+        })
+        // Bought for 80k ARS at 800 (100 USD); now 110k ARS at 1000 (110 USD)
+        const spy = portfolio.rubros.find((rubro) => rubro.id === 'cedears')!.providers[0].items[0]
+        spy.valUsd = 110
+        spy.pnlArs = 30_000
+        spy.pnlUsd = 10
+
+        const result = computeResultsCardModel({
+            portfolio,
+            snapshots: [],
+            periodKey: 'TOTAL',
+        })
+
+        const cedears = result.categories.find((category) => category.key === 'cedears')
+        expect(cedears?.attribution?.price).toEqual({ ars: 30_000, usd: 37.5 })
+        expect(cedears?.attribution?.fx.ars).toBe(0)
+        expect(cedears?.attribution?.fx.usd).toBeCloseTo(-27.5)
+        expect(result.totals.attribution?.price.ars).toBeCloseTo(30_000)
+    })
 })
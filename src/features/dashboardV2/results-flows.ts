@@ -1,4 +1,5 @@
 import type { Currency, Movement } from '@/domain/types'
+import { DEFAULT_VALUATION_DEFAULTS, type ValuationCategory, type ValuationDefaults } from '@/domain/fx/valuation-policy'
 
 export type ResultsFlowRubroKey = 'wallets' | 'plazos' | 'cedears' | 'crypto' | 'fci'
 
@@ -11,6 +12,15 @@ export interface ResultsFlowFxContext {
     officialSell: number
     mepSell: number
     cryptoSell: number
+    /** Global valuation policy (dollar per asset class) for movements without a recorded rate */
+    valuationDefaults?: ValuationDefaults
+}
+
+const ASSET_CLASS_CATEGORY: Partial<Record<NonNullable<Movement['assetClass']>, ValuationCategory>> = {
+    crypto: 'CRYPTO',
+    cedear: 'CEDEAR',
+    bond: 'BOND',
+    fci: 'FCI',
 }
 
 const FLOW_RUBROS: ResultsFlowRubroKey[] = ['wallets', 'plazos', 'cedears', 'crypto', 'fci']
@@ -51,10 +61,12 @@ function safeRate(value: number): number {
 }
 
 function resolveFallbackRate(movement: Movement, fxContext: ResultsFlowFxContext): number {
-    if (movement.assetClass === 'crypto') {
+    const category = movement.assetClass ? ASSET_CLASS_CATEGORY[movement.assetClass] : undefined
+    const fxKey = category ? (fxContext.valuationDefaults ?? DEFAULT_VALUATION_DEFAULTS)[category] : 'oficial'
+    if (fxKey === 'cripto') {
         return safeRate(fxContext.cryptoSell) || safeRate(fxContext.mepSell) || safeRate(fxContext.officialSell) || 1
     }
-    if (movement.assetClass === 'cedear') {
+    if (fxKey === 'mep') {
         return safeRate(fxContext.mepSell) || safeRate(fxContext.officialSell) || safeRate(fxContext.cryptoSell) || 1
     }
     return safeRate(fxContext.officialSell) || safeRate(fxContext.mepSell) || safeRate(fxContext.cryptoSell) || 1
@@ -247,6 +259,15 @@ function classifyTradeRubro(movement: Movement): ResultsFlowRubroKey | null {
     }
 }
 
+function restateArs(
+    value: ResultsFlowValue,
+    dateKey: string,
+    arsFactorAt?: (dateKey: string) => number,
+): ResultsFlowValue {
+    if (!arsFactorAt) return value
+    return { ars: value.ars * arsFactorAt(dateKey), usdEq: value.usdEq }
+}
+
 function addFlow(
     target: Map<ResultsFlowRubroKey, ResultsFlowValue>,
     rubro: ResultsFlowRubroKey,
@@ -259,11 +280,17 @@ function addFlow(
     current.usdEq += sign * value.usdEq
 }
 
+/**
+ * Net flows per rubro in (fromISO, toISO]. With `arsFactorAt`, each ARS amount
+ * is multiplied by the factor of its date (e.g. a CPI deflator to restate flows
+ * in pesos of the end date); USD equivalents are left as they are.
+ */
 export function computeNetFlowsByRubro(
     movements: Movement[],
     fxContext: ResultsFlowFxContext,
     fromISO: string,
     toISO: string,
+    arsFactorAt?: (dateKey: string) => number,
 ): Map<ResultsFlowRubroKey, ResultsFlowValue> {
     const result = createEmptyFlowMap()
     if (!Array.isArray(movements) || movements.length === 0) return result
@@ -279,14 +306,14 @@ export function computeNetFlowsByRubro(
 
         if (movement.type === 'DEPOSIT' || movement.type === 'WITHDRAW') {
             if (!isExternalWalletFlow(movement)) continue
-            const value = convertMovementAmountToArsUsdEq(movement, fxContext)
+            const value = restateArs(convertMovementAmountToArsUsdEq(movement, fxContext), dateKey, arsFactorAt)
             const sign: 1 | -1 = movement.type === 'DEPOSIT' ? 1 : -1
             addFlow(result, 'wallets', sign, value)
             continue
         }
 
         if (movement.type === 'TRANSFER_IN' || movement.type === 'TRANSFER_OUT') {
-            const value = convertMovementAmountToArsUsdEq(movement, fxContext)
+            const value = restateArs(convertMovementAmountToArsUsdEq(movement, fxContext), dateKey, arsFactorAt)
             const sign: 1 | -1 = movement.type === 'TRANSFER_IN' ? 1 : -1
             addFlow(result, 'wallets', sign, value)
             continue
@@ -296,7 +323,7 @@ export function computeNetFlowsByRubro(
             const targetRubro = classifyTradeRubro(movement)
             if (!targetRubro || targetRubro === 'wallets') continue
 
-            const value = convertMovementAmountToArsUsdEq(movement, fxContext)
+            const value = restateArs(convertMovementAmountToArsUsdEq(movement, fxContext), dateKey, arsFactorAt)
             const tradeSign: 1 | -1 = movement.type === 'BUY' ? 1 : -1
             addFlow(result, targetRubro, tradeSign, value)
             addFlow(result, 'wallets', tradeSign === 1 ? -1 : 1, value)
@@ -8,11 +8,27 @@
  *   and Plazos Fijos showing accrued interest (linear interpolation).
  * - Time periods (1D/7D/30D/90D/1Y): uses snapshot deltas for default
  *   rubros, with PF and Wallet overrides using interest calculations.
+ * - Real view (with a CPI deflator): every ARS amount is restated in pesos
+ *   of the end date, so a result only counts what beat inflation.
  */
 
 import type { Movement, Snapshot } from '@/domain/types'
+import type { CpiDeflator } from '@/domain/inflation'
+import { computeAverageCost } from '@/domain/portfolio/average-cost'
 import type { PortfolioV2, ItemV2 } from '@/features/portfolioV2'
 import { buildSnapshotFromPortfolioV2 } from './snapshot-v2'
+import {
+    attributeValueChange,
+    buildFxFamilyByAssetKey,
+    buildNativeCurrencyByAssetKey,
+    fxFamilyForAssetKey,
+    itemFxFamily,
+    itemNativeCurrency,
+    nativeCurrencyForAssetKey,
+    type ArsUsd,
+    type AttributionCurrency,
+    type AttributionFxFamily,
+} from './fx-attribution'
 import {
     computeNetFlowsByRubro,
     convertMovementAmountToArsUsdEq,
@@ -21,6 +37,7 @@ import {
 import {
     RESULTS_CATEGORY_CONFIG,
     type Money,
+    type ResultsAttribution,
     type ResultsCardModel,
     type ResultsCategoryItem,
     type ResultsCategoryRow,
@@ -79,9 +96,16 @@ function buildFlowFxContext(portfolio: PortfolioV2): ResultsFlowFxContext {
         officialSell: portfolio.fx.officialSell || 0,
         mepSell: portfolio.fx.mepSell || 0,
         cryptoSell: portfolio.fx.cryptoSell || 0,
+        valuationDefaults: portfolio.valuationPolicy?.defaults,
     }
 }
 
+/** Rate the item was valued with (account override / valuation policy), else the fallback */
+function itemFxRate(item: ItemV2, fallback: number): number {
+    const rate = item.fxMeta?.rate
+    return rate != null && Number.isFinite(rate) && rate > 0 ? rate : fallback
+}
+
 function movementDateKey(datetimeISO: string): string | null {
     if (!datetimeISO) return null
     const date = new Date(datetimeISO)
@@ -113,7 +137,7 @@ interface AccruedResult {
 function computePfAccrued(
     pfMeta: NonNullable<ItemV2['pfMeta']>,
     asOfISO: string,
-    oficialSell: number,
+    fxRate: number,
 ): AccruedResult | null {
     const principal = pfMeta.capitalArs
     const interestTotal = pfMeta.expectedInterestArs
@@ -137,7 +161,7 @@ function computePfAccrued(
     if (!Number.isFinite(accrued)) return null
 
     const valueNow = principal + accrued
-    const fx = oficialSell > 0 ? oficialSell : 1
+    const fx = fxRate > 0 ? fxRate : 1
 
     return {
         invested: money(principal, principal / fx),
@@ -165,7 +189,7 @@ function buildPfItemsTotal(
     for (const provider of rubro.providers) {
         for (const item of provider.items) {
             if (item.pfMeta) {
-                const accrued = computePfAccrued(item.pfMeta, todayKey, oficialSell)
+                const accrued = computePfAccrued(item.pfMeta, todayKey, itemFxRate(item, oficialSell))
                 if (accrued) {
                     items.push({
                         id: item.id,
@@ -225,8 +249,9 @@ function buildPfItemsPeriod(
     for (const provider of rubro.providers) {
         for (const item of provider.items) {
             if (item.pfMeta) {
-                const accruedEnd = computePfAccrued(item.pfMeta, endISO, oficialSell)
-                const accruedStart = computePfAccrued(item.pfMeta, startISO, oficialSell)
+                const rate = itemFxRate(item, oficialSell)
+                const accruedEnd = computePfAccrued(item.pfMeta, endISO, rate)
+                const accruedStart = computePfAccrued(item.pfMeta, startISO, rate)
 
                 if (accruedEnd && accruedStart) {
                     const pnlArs = (accruedEnd.pnl.ars ?? 0) - (accruedStart.pnl.ars ?? 0)
@@ -318,7 +343,7 @@ function buildWalletItemsTotal(
             }
             // non-yield cash_ars / cash_usd: interestArs stays 0
 
-            const interestUsd = interestArs / fx
+            const interestUsd = interestArs / itemFxRate(item, fx)
 
             items.push({
                 id: item.id,
@@ -410,7 +435,7 @@ function buildWalletItemsPeriod(
                     tnaLabel = 'Interés real'
                 } else if (item.yieldMeta?.tna && item.yieldMeta.tna > 0) {
                     interestArs = estimateWalletInterestArs(item.valArs, item.yieldMeta.tna, periodDays)
-                    interestUsd = interestArs / fx
+                    interestUsd = interestArs / itemFxRate(item, fx)
                     tnaLabel = `TNA ${item.yieldMeta.tna}% (Estimado)`
                     isEstimated = true
                 } else {
@@ -438,6 +463,176 @@ function buildWalletItemsPeriod(
     return { items, catPnlArs, catPnlUsd, isEstimated }
 }
 
+// ---------------------------------------------------------------------------
+// Real (CPI-deflated) view
+// ---------------------------------------------------------------------------
+
+function describeCpiCoverage(cpi: CpiDeflator, startISO?: string): string | undefined {
+    if (startISO && startISO < cpi.coveredFrom) {
+        return `La serie IPC empieza el ${cpi.coveredFrom}: lo anterior no se ajusta.`
+    }
+    if (cpi.coveredTo < cpi.referenceDate) {
+        return `IPC cargado hasta ${cpi.coveredTo}: los meses siguientes se toman sin inflación.`
+    }
+    return undefined
+}
+
+/**
+ * Real / nominal ratio of the average-cost ARS basis per instrument+account:
+ * how much the pesos paid for the current position are worth today.
+ */
+function buildRealBasisRatios(movements: Movement[], cpi: CpiDeflator): Map<string, number> {
+    const groups = new Map<string, Movement[]>()
+    for (const movement of movements) {
+        if (!movement.instrumentId) continue
+        const key = `${movement.instrumentId}::${movement.accountId}`
+        const group = groups.get(key) ?? []
+        group.push(movement)
+        groups.set(key, group)
+    }
+
+    const ratios = new Map<string, number>()
+    for (const [key, group] of groups) {
+        const position = computeAverageCost(group, cpi.factorAt)
+        if (position.costBasisArs > 0 && position.costBasisRealArs != null) {
+            ratios.set(key, position.costBasisRealArs / position.costBasisArs)
+        }
+    }
+    return ratios
+}
+
+/**
+ * TOTAL real result: invested ARS restated with the dates of the purchases
+ * (PF: constitution date). Wallet balances have no dated cost, so they stay
+ * without a real result.
+ */
+function applyRealToTotal(
+    model: ResultsCardModel,
+    portfolio: PortfolioV2,
+    movements: Movement[],
+    cpi: CpiDeflator,
+): void {
+    const basisRatios = buildRealBasisRatios(movements, cpi)
+    const liveItems = new Map<string, ItemV2>()
+    for (const rubro of portfolio.rubros) {
+        for (const provider of rubro.providers) {
+            for (const item of provider.items) liveItems.set(item.id, item)
+        }
+    }
+
+    let totalReal = 0
+    let hasReal = false
+
+    for (const row of model.categories) {
+        if (row.key === 'wallets') {
+            row.pnl.real = null
+            for (const item of row.items) item.pnl.real = null
+            continue
+        }
+
+        let catReal = 0
+        let catHasReal = false
+        for (const item of row.items) {
+            const live = liveItems.get(item.id)
+            const valueArs = item.value.ars
+            let realInvested: number | null = null
+
+            if (row.key === 'plazos') {
+                if (live?.pfMeta?.startDateISO) {
+                    realInvested = live.pfMeta.capitalArs * cpi.factorAt(live.pfMeta.startDateISO.slice(0, 10))
+                }
+            } else if (live?.instrumentId && item.invested.ars != null) {
+                const ratio = basisRatios.get(`${live.instrumentId}::${live.accountId}`)
+                if (ratio != null) realInvested = item.invested.ars * ratio
+            }
+
+            item.pnl.real = realInvested != null && valueArs != null ? valueArs - realInvested : null
+            if (item.pnl.real != null) {
+                catReal += item.pnl.real
+                catHasReal = true
+            }
+        }
+
+        row.pnl.real = catHasReal ? catReal : null
+        if (catHasReal) {
+            totalReal += catReal
+            hasReal = true
+        }
+    }
+
+    model.totals.pnl.real = hasReal ? totalReal : null
+    const coverage = describeCpiCoverage(cpi)
+    model.meta.realNote = ['Real: billeteras sin ajuste (no hay costo fechado de los saldos).', coverage]
+        .filter(Boolean)
+        .join(' ')
+}
+
+// ---------------------------------------------------------------------------
+// Price / FX attribution
+// ---------------------------------------------------------------------------
+
+function sumAttribution(parts: ResultsAttribution[]): ResultsAttribution {
+    let priceArs = 0
+    let priceUsd = 0
+    let fxArs = 0
+    let fxUsd = 0
+    const fxByFamily: ResultsAttribution['fxByFamily'] = {}
+    for (const part of parts) {
+        priceArs += part.price.ars ?? 0
+        priceUsd += part.price.usd ?? 0
+        fxArs += part.fx.ars ?? 0
+        fxUsd += part.fx.usd ?? 0
+        for (const [family, fx] of Object.entries(part.fxByFamily) as [AttributionFxFamily, Money][]) {
+            const current = fxByFamily[family]
+            fxByFamily[family] = money((current?.ars ?? 0) + (fx.ars ?? 0), (current?.usd ?? 0) + (fx.usd ?? 0))
+        }
+    }
+    return { price: money(priceArs, priceUsd), fx: money(fxArs, fxUsd), fxByFamily }
+}
+
+/**
+ * Splits each result into price and FX (see fx-attribution), from the
+ * invested/value pair of each item: cost at trade-time rates for TOTAL,
+ * the baseline snapshot for periods. Wallet and PF results are interest,
+ * all price. The rubro's FX part is the sum of its items; the price part is
+ * the rest of its result, so net flows stay on the price side. The FX part
+ * is also kept per rate family each item is valued at.
+ */
+function applyAttribution(
+    model: ResultsCardModel,
+    nativeCurrencyOf: (itemId: string) => AttributionCurrency,
+    fxFamilyOf: (itemId: string) => AttributionFxFamily,
+): void {
+    for (const row of model.categories) {
+        if (row.pnl.ars == null || row.pnl.usd == null) continue
+        const isInterest = row.key === 'wallets' || row.key === 'plazos'
+
+        for (const item of row.items) {
+            if (item.pnl.ars == null || item.pnl.usd == null) continue
+            if (isInterest || item.invested.ars == null || item.invested.usd == null || item.value.ars == null || item.value.usd == null) {
+                item.attribution = { price: money(item.pnl.ars, item.pnl.usd), fx: money(0, 0), fxByFamily: {} }
+                continue
+            }
+            const split = attributeValueChange(
+                { ars: item.invested.ars, usd: item.invested.usd },
+                { ars: item.value.ars, usd: item.value.usd },
+                nativeCurrencyOf(item.id),
+                fxFamilyOf(item.id),
+            )
+            const fxByFamily: ResultsAttribution['fxByFamily'] = {}
+            for (const [family, fx] of Object.entries(split.fxByFamily) as [AttributionFxFamily, ArsUsd][]) {
+                fxByFamily[family] = money(fx.ars, fx.usd)
+            }
+            item.attribution = { price: money(split.priceArs, split.priceUsd), fx: money(split.fxArs, split.fxUsd), fxByFamily }
+        }
+
+        const { fx, fxByFamily } = sumAttribution(row.items.flatMap((item) => item.attribution ? [item.attribution] : []))
+        row.attribution = { price: money(row.pnl.ars - (fx.ars ?? 0), row.pnl.usd - (fx.usd ?? 0)), fx, fxByFamily }
+    }
+
+    model.totals.attribution = sumAttribution(model.categories.flatMap((row) => row.attribution ? [row.attribution] : []))
+}
+
 // ---------------------------------------------------------------------------
 // TOTAL period — live PnL with wallet & PF overrides
 // ---------------------------------------------------------------------------
@@ -566,6 +761,7 @@ function buildPeriodFromSnapshots(
     movements: Movement[],
     periodKey: Exclude<ResultsPeriodKey, 'TOTAL'>,
     now: Date = new Date(),
+    cpi: CpiDeflator | null = null,
 ): ResultsCardModel {
     const snapshotsAsc = normalizeSnapshots(snapshots)
     const todayKey = toDateKey(now)
@@ -713,10 +909,35 @@ function buildPeriodFromSnapshots(
         asOfISO: portfolio.asOfISO,
         note: 'Resultado neto = Variación de valuación - Flujos netos del período.',
     }
+    const totals = { pnl: money(totalPnlArs, totalPnlUsd) }
+
+    if (cpi) {
+        // Real result = value now - (value at start + each flow) restated to today's pesos.
+        // Nominal already subtracts the unrestated amounts, so only the inflation part is left.
+        const startInflation = cpi.factorAt(baseline.dateLocal) - 1
+        const realFlowsByRubro = computeNetFlowsByRubro(movements, fxContext, baseline.dateLocal, todayKey, cpi.factorAt)
+        let totalReal = 0
+
+        for (const row of categories) {
+            if (row.pnl.ars == null) continue
+            const rubroId = row.rubroId as 'wallets' | 'plazos' | 'cedears' | 'crypto' | 'fci'
+            const flowInflation = (realFlowsByRubro.get(rubroId)?.ars ?? 0) - (netFlowsByRubro.get(rubroId)?.ars ?? 0)
+            row.pnl.real = row.pnl.ars - (pastRubros[rubroId]?.ars ?? 0) * startInflation - flowInflation
+            totalReal += row.pnl.real
+
+            for (const item of row.items) {
+                if (item.pnl.ars == null) continue
+                item.pnl.real = item.pnl.ars - (item.invested.ars ?? 0) * startInflation
+            }
+        }
+
+        totals.pnl.real = totalReal
+        meta.realNote = describeCpiCoverage(cpi, baseline.dateLocal)
+    }
 
     return {
         periodKey,
-        totals: { pnl: money(totalPnlArs, totalPnlUsd) },
+        totals,
         categories,
         meta,
     }
@@ -754,6 +975,8 @@ export interface ComputeResultsInput {
     movements?: Movement[]
     periodKey: ResultsPeriodKey
     now?: Date
+    /** CPI deflator to today's pesos; adds `real` amounts to the model */
+    cpi?: CpiDeflator | null
 }
 
 export function computeResultsCardModel({
@@ -762,10 +985,38 @@ export function computeResultsCardModel({
     movements = [],
     periodKey,
     now = new Date(),
+    cpi = null,
 }: ComputeResultsInput): ResultsCardModel {
     if (periodKey === 'TOTAL') {
-        return buildTotalFromPortfolio(portfolio, snapshots, now)
+        const model = buildTotalFromPortfolio(portfolio, snapshots, now)
+        if (cpi) applyRealToTotal(model, portfolio, movements, cpi)
+        const liveNativeCurrency = new Map<string, AttributionCurrency>()
+        const liveFxFamily = new Map<string, AttributionFxFamily>()
+        for (const rubro of portfolio.rubros) {
+            for (const provider of rubro.providers) {
+                for (const item of provider.items) {
+                    liveNativeCurrency.set(item.id, itemNativeCurrency(item))
+                    liveFxFamily.set(item.id, itemFxFamily(item))
+                }
+            }
+        }
+        applyAttribution(
+            model,
+            (itemId) => liveNativeCurrency.get(itemId) ?? 'ARS',
+            (itemId) => liveFxFamily.get(itemId) ?? 'Oficial',
+        )
+        return model
     }
 
-    return buildPeriodFromSnapshots(portfolio, snapshots, movements, periodKey, now)
+    const model = buildPeriodFromSnapshots(portfolio, snapshots, movements, periodKey, now, cpi)
+    if (model.meta.snapshotStatus === 'ok') {
+        const nativeCurrencies = buildNativeCurrencyByAssetKey(portfolio)
+        const fxFamilies = buildFxFamilyByAssetKey(portfolio)
+        applyAttribution(
+            model,
+            (assetKey) => nativeCurrencyForAssetKey(assetKey, nativeCurrencies),
+            (assetKey) => fxFamilyForAssetKey(assetKey, fxFamilies),
+        )
+    }
+    return model
 }
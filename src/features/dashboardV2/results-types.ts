@@ -1,4 +1,4 @@
-import type { RubroId } from '@/features/portfolioV2'
+import type { FxMeta, RubroId } from '@/features/portfolioV2'
 
 // ---------------------------------------------------------------------------
 // Results Card — data contract
@@ -9,8 +9,20 @@ export type ResultsPeriodKey = 'TOTAL' | '1D' | '7D' | '30D' | '90D' | '1Y'
 export interface Money {
     ars: number | null
     usd: number | null
+    /** ARS in constant pesos of the end date (CPI-deflated); only set with a CPI series */
+    real?: number | null
 }
 
+/** Result split into the price move in the asset's native currency and the FX move */
+export interface ResultsAttribution {
+    price: Money
+    fx: Money
+    /** FX move by the rate family the holdings are valued at */
+    fxByFamily: Partial<Record<FxMeta['family'], Money>>
+}
+
+export type ResultsDisplayCurrency = 'ARS' | 'USD' | 'REAL'
+
 export type ResultsCategoryKey = 'cedears' | 'crypto' | 'fci' | 'wallets' | 'plazos'
 
 export interface ResultsCategoryItem {
@@ -20,6 +32,7 @@ export interface ResultsCategoryItem {
     invested: Money
     value: Money
     pnl: Money
+    attribution?: ResultsAttribution
 }
 
 export interface ResultsCategoryRow {
@@ -28,6 +41,7 @@ export interface ResultsCategoryRow {
     title: string
     subtitle?: string
     pnl: Money
+    attribution?: ResultsAttribution
     items: ResultsCategoryItem[]
     /** Custom column labels for the detail modal (used by wallets) */
     tableLabels?: { col1: string; col2: string; col3: string }
@@ -45,11 +59,13 @@ export interface ResultsMeta {
     startISO?: string
     endISO?: string
     note?: string
+    /** Caveats of the real (CPI-deflated) view, e.g. months missing from the series */
+    realNote?: string
 }
 
 export interface ResultsCardModel {
     periodKey: ResultsPeriodKey
-    totals: { pnl: Money }
+    totals: { pnl: Money; attribution?: ResultsAttribution }
     categories: ResultsCategoryRow[]
     meta: ResultsMeta
 }
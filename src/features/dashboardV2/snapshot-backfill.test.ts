@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import type { Account, Instrument, Movement } from '@/domain/types'
+import type { CorporateAction } from '@/domain/corporate-actions'
+import type { PriceHistoryPoint } from '@/domain/prices/price-history'
+import { SNAPSHOT_BACKFILL_NOTE, backfillSnapshots } from './snapshot-backfill'
+
+const accounts: Account[] = [
+    { id: 'bank', name: 'Banco', kind: 'BANK', defaultCurrency: 'ARS' },
+    { id: 'iol', name: 'IOL', kind: 'BROKER', defaultCurrency: 'ARS' },
+]
+
+const aapl: Instrument = {
+    id: 'aapl',
+    symbol: 'AAPL',
+    name: 'Apple',
+    category: 'CEDEAR',
+    nativeCurrency: 'ARS',
+    priceKey: 'aapl',
+}
+
+const movements: Movement[] = [
+    {
+        id: 'd1',
+        datetimeISO: '2026-01-02T12:00:00.000Z',
+        type: 'DEPOSIT',
+        assetClass: 'wallet',
+        accountId: 'bank',
+        tradeCurrency: 'ARS',
+        totalAmount: 50000,
+    },
+    {
+        id: 'b1',
+        datetimeISO: '2026-01-05T14:00:00.000Z',
+        type: 'BUY',
+        assetClass: 'cedear',
+        accountId: 'iol',
+        instrumentId: 'aapl',
+        quantity: 10,
+        unitPrice: 1000,
+        tradeCurrency: 'ARS',
+        totalAmount: 10000,
+    },
+]
+
+function closes(key: string, entries: Array<[string, number]>): PriceHistoryPoint[] {
+    return entries.map(([date, close]) => ({ key, date, close }))
+}
+
+const fxMep = closes('FX:MEP', [['2026-01-02', 1000], ['2026-01-05', 1000], ['2026-01-06', 1250]])
+const fxOficial = closes('FX:OFICIAL', [['2026-01-02', 1000]])
+
+describe('backfillSnapshots', () => {
+    it('replays movements and values each day with the price history', () => {
+        const result = backfillSnapshots({
+            movements,
+            instruments: [aapl],
+            accounts,
+            prices: [...fxMep, ...fxOficial, ...closes('AAPL', [['2026-01-05', 1000], ['2026-01-06', 1100]])],
+            existingDates: ['2026-01-03'],
+            toDate: '2026-01-06',
+            now: new Date('2026-01-07T10:00:00.000Z'),
+        })
+
+        expect(result.skipped).toEqual([])
+        expect(result.snapshots.map(s => s.dateLocal)).toEqual(['2026-01-02', '2026-01-04', '2026-01-05', '2026-01-06'])
+
+        const last = result.snapshots[3]
+        expect(last).toMatchObject({
+            id: 'snapshot-v2-2026-01-06',
+            source: 'v2',
+            fxUsed: { usdArs: 1250, type: 'MEP' },
+            meta: { notes: SNAPSHOT_BACKFILL_NOTE },
+        })
+        // The broker cash spent on the buy is an opening balance, so it exists from day one
+        expect(result.snapshots[0].breakdownItems?.['wallet:iol:ARS']).toEqual({ rubroId: 'wallets', ars: 10000, usd: 10 })
+        expect(last.breakdownItems).toEqual({
+            'cedear:iol:AAPL': { rubroId: 'cedears', ars: 11000, usd: 8.8 },
+            'wallet:bank:ARS': { rubroId: 'wallets', ars: 50000, usd: 50 },
+        })
+        expect(last.totalARS).toBeCloseTo(61000)
+        expect(last.breakdownRubros?.cedears).toEqual({ ars: 11000, usd: 8.8 })
+    })
+
+    it('skips days with a missing close instead of valuing at cost', () => {
+        const result = backfillSnapshots({
+            movements,
+            instruments: [aapl],
+            accounts,
+            prices: [...fxMep, ...fxOficial, ...closes('AAPL', [['2026-01-06', 1100]])],
+            includeCash: false,
+            fromDate: '2026-01-05',
+            toDate: '2026-01-06',
+        })
+
+        expect(result.snapshots.map(s => s.dateLocal)).toEqual(['2026-01-06'])
+        expect(result.skipped).toEqual([{ date: '2026-01-05', missingKeys: ['AAPL'] }])
+    })
+
+    it('uses the quantities of each day around a split', () => {
+        const split: CorporateAction = {
+            id: 'ca1',
+            instrumentId: 'aapl',
+            symbol: 'AAPL',
+            type: 'SPLIT',
+            effectiveDate: '2026-01-06',
+            ratioFrom: 1,
+            ratioTo: 2,
+            createdAtISO: '2026-01-06T00:00:00.000Z',
+            updatedAtISO: '2026-01-06T00:00:00.000Z',
+        }
+
+        const result = backfillSnapshots({
+            movements,
+            instruments: [aapl],
+            accounts,
+            prices: [...fxMep, ...closes('AAPL', [['2026-01-05', 1000], ['2026-01-06', 500]])],
+            corporateActions: [split],
+            includeCash: false,
+            fromDate: '2026-01-05',
+            toDate: '2026-01-06',
+        })
+
+        expect(result.snapshots.map(s => s.totalARS)).toEqual([10000, 10000])
+    })
+})
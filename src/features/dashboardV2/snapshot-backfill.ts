@@ -0,0 +1,382 @@
+/**
+ * Snapshot backfill
+ *
+ * Daily snapshots only exist for days the app was open. This replays the
+ * movements day by day and values each day's positions with the imported
+ * price history, writing the same v2 breakdowns (rubros + asset keys) as the
+ * live capture so period comparisons can mix both.
+ *
+ * A day is skipped, never approximated, when a held instrument has no close
+ * or the FX it needs is missing: a cost-valued day would show up as a fake
+ * gain or loss next to the real ones.
+ */
+
+import type { Account, Currency, FxType, Holding, Instrument, Movement, Snapshot } from '@/domain/types'
+import type { ItemV2, RubroId } from '@/features/portfolioV2'
+import { computeCashLedger, computeHoldings } from '@/domain/portfolio'
+import { applyCorporateActions, type CorporateAction } from '@/domain/corporate-actions'
+import {
+    createPriceHistoryLookup,
+    fxHistoryKey,
+    normalizePriceHistoryKey,
+    type PriceHistoryLookup,
+    type PriceHistoryPoint,
+} from '@/domain/prices/price-history'
+import { SNAPSHOT_SOURCE_V2, buildSnapshotAssetKey } from './snapshot-v2'
+
+/** `meta.notes` of reconstructed snapshots */
+export const SNAPSHOT_BACKFILL_NOTE = 'backfill'
+
+const BASE_FX: FxType = 'MEP'
+const USD_CASH_CURRENCIES: Currency[] = ['USD', 'USDT', 'USDC']
+const CASH_EPSILON = 0.01
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface BackfillSnapshotsInput {
+    movements: Movement[]
+    instruments: Instrument[]
+    accounts: Account[]
+    prices: PriceHistoryPoint[]
+    corporateActions?: CorporateAction[]
+    /** Accounts shown under Frascos (rubroOverride = 'frascos') */
+    frascoAccountIds?: Iterable<string>
+    /** Mirrors the trackCash preference */
+    includeCash?: boolean
+    /** Days that already have a snapshot (left untouched) */
+    existingDates?: Iterable<string>
+    /** First day to rebuild (YYYY-MM-DD); defaults to the first movement */
+    fromDate?: string
+    /** Last day to rebuild, inclusive (usually yesterday: today is captured live) */
+    toDate: string
+    now?: Date
+}
+
+export interface BackfillSkippedDay {
+    date: string
+    /** Price history keys (tickers, FX:<type>) missing on that day */
+    missingKeys: string[]
+}
+
+export interface BackfillSnapshotsResult {
+    snapshots: Snapshot[]
+    skipped: BackfillSkippedDay[]
+}
+
+type SnapshotItemRef = Pick<ItemV2, 'id' | 'kind' | 'accountId' | 'symbol' | 'instrumentId'>
+
+interface InstrumentPlacement {
+    rubroId: RubroId
+    kind: ItemV2['kind']
+    fx: FxType
+}
+
+interface DayPositions {
+    holdings: Holding[]
+    cash: Map<string, Map<Currency, number>>
+    plazos: Movement[]
+}
+
+function movementDateKey(mov: Movement): string {
+    const date = new Date(mov.datetimeISO)
+    return Number.isNaN(date.getTime()) ? mov.datetimeISO.slice(0, 10) : date.toISOString().slice(0, 10)
+}
+
+function addDays(dateKey: string, days: number): string {
+    return new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/** Same rubro / FX family as the live portfolio builder */
+function placeInstrument(category: Instrument['category']): InstrumentPlacement | null {
+    switch (category) {
+        case 'CEDEAR':
+            return { rubroId: 'cedears', kind: 'cedear', fx: 'MEP' }
+        case 'CRYPTO':
+            return { rubroId: 'crypto', kind: 'crypto', fx: 'CRIPTO' }
+        case 'STABLE':
+            return { rubroId: 'crypto', kind: 'stable', fx: 'CRIPTO' }
+        case 'FCI':
+            return { rubroId: 'fci', kind: 'fci', fx: 'OFICIAL' }
+        default:
+            return null
+    }
+}
+
+function cashFxType(account: Account | undefined): FxType {
+    if (account?.kind === 'EXCHANGE') return 'CRIPTO'
+    if (account?.kind === 'BROKER') return 'MEP'
+    return 'OFICIAL'
+}
+
+/** Current ticker first, then the ones it traded under before a ticker change */
+function priceKeysFor(instrument: Instrument, actions: CorporateAction[]): string[] {
+    const keys = [instrument.symbol]
+    for (const action of actions) {
+        if (action.instrumentId !== instrument.id || action.type !== 'TICKER_CHANGE') continue
+        keys.push(action.symbol)
+        if (action.newSymbol) keys.push(action.newSymbol)
+    }
+    keys.push(instrument.id)
+    return [...new Set(keys.map(normalizePriceHistoryKey))]
+}
+
+/**
+ * Cash per account on a day. Opening balances come from the whole history
+ * (money that must have been there before the first recorded movement), as in
+ * the live ledger, not from the movements up to that day.
+ */
+function cashBalancesAt(
+    prefix: Movement[],
+    fullOpenings: Map<string, Map<Currency, number>>
+): Map<string, Map<Currency, number>> {
+    const ledger = computeCashLedger(prefix)
+    const balances = new Map<string, Map<Currency, number>>()
+
+    const accountIds = new Set([...ledger.balances.keys(), ...fullOpenings.keys()])
+    for (const accountId of accountIds) {
+        const raw = ledger.balances.get(accountId) ?? new Map<Currency, number>()
+        const prefixOpenings = ledger.openingBalances.get(accountId)
+        const openings = fullOpenings.get(accountId)
+        const currencies = new Set([...raw.keys(), ...(openings?.keys() ?? [])])
+
+        const accountBalances = new Map<Currency, number>()
+        for (const currency of currencies) {
+            const value = (raw.get(currency) ?? 0)
+                - (prefixOpenings?.get(currency) ?? 0)
+                + (openings?.get(currency) ?? 0)
+            accountBalances.set(currency, value)
+        }
+        balances.set(accountId, accountBalances)
+    }
+
+    return balances
+}
+
+/** Plazo fijo constitutions still open on the day of the last movement in `prefix` */
+function openPlazos(prefix: Movement[]): Movement[] {
+    const constitutions = prefix.filter(m => m.assetClass === 'pf' && (m.type === 'BUY' || m.type === 'DEPOSIT'))
+    const redemptions = prefix.filter(m => m.assetClass === 'pf' && (m.type === 'SELL' || m.type === 'WITHDRAW'))
+
+    // Same matching as derivePFPositions: explicit link first, bank + date otherwise
+    return constitutions.filter(c => !redemptions.some(r => {
+        const linkedId = r.pf?.pfId ?? r.meta?.fixedDeposit?.sourcePfMovementId
+        if (linkedId) return linkedId === c.id
+        if (new Date(r.datetimeISO) < new Date(c.datetimeISO)) return false
+        return !(c.bank && r.bank && c.bank !== r.bank)
+    }))
+}
+
+/** Expected total at maturity, which is what the live Plazos Fijos rubro shows */
+function plazoTotalArs(mov: Movement): number {
+    const principal = mov.principalARS || mov.quantity || 0
+    const termDays = mov.termDays || 30
+    const tna = mov.tna || 0
+    return principal + (principal * (tna / 100) * termDays) / 365
+}
+
+function valueDay(
+    date: string,
+    positions: DayPositions,
+    lookup: PriceHistoryLookup,
+    ctx: {
+        accountsById: Map<string, Account>
+        frascoIds: Set<string>
+        priceKeys: (instrument: Instrument) => string[]
+        now: Date
+    }
+): Snapshot | BackfillSkippedDay {
+    const missing = new Set<string>()
+    const breakdownItems: NonNullable<Snapshot['breakdownItems']> = {}
+    const breakdownRubros: NonNullable<Snapshot['breakdownRubros']> = {}
+
+    const fxAt = (type: FxType): number | null => {
+        const close = lookup(fxHistoryKey(type), date)?.close
+            ?? (type === BASE_FX ? undefined : lookup(fxHistoryKey(BASE_FX), date)?.close)
+        if (close == null) {
+            missing.add(fxHistoryKey(type))
+            return null
+        }
+        return close
+    }
+
+    const add = (item: SnapshotItemRef, rubroId: RubroId, ars: number, usd: number) => {
+        const assetKey = buildSnapshotAssetKey(item)
+        const existing = breakdownItems[assetKey]
+        breakdownItems[assetKey] = existing
+            ? { rubroId: existing.rubroId, ars: existing.ars + ars, usd: existing.usd + usd }
+            : { rubroId, ars, usd }
+        const rubro = breakdownRubros[rubroId] ?? { ars: 0, usd: 0 }
+        breakdownRubros[rubroId] = { ars: rubro.ars + ars, usd: rubro.usd + usd }
+    }
+
+    const baseFx = fxAt(BASE_FX)
+
+    for (const holding of positions.holdings) {
+        const placement = placeInstrument(holding.instrument.category)
+        if (!placement) continue
+
+        const keys = ctx.priceKeys(holding.instrument)
+        const point = keys.map(key => lookup(key, date)).find(p => p != null) ?? null
+        // Stablecoins without a history are worth their peg
+        const close = point?.close ?? (placement.kind === 'stable' ? 1 : null)
+        if (close == null) {
+            missing.add(keys[0])
+            continue
+        }
+
+        const fx = fxAt(placement.fx)
+        if (fx == null) continue
+
+        const currency = point?.currency ?? (holding.instrument.nativeCurrency === 'ARS' ? 'ARS' : 'USD')
+        const native = holding.quantity * close
+        add(
+            {
+                id: holding.instrumentId,
+                kind: placement.kind,
+                accountId: holding.accountId,
+                symbol: holding.instrument.symbol,
+                instrumentId: holding.instrumentId,
+            },
+            placement.rubroId,
+            currency === 'ARS' ? native : native * fx,
+            currency === 'ARS' ? native / fx : native
+        )
+    }
+
+    for (const [accountId, balances] of positions.cash) {
+        const isFrasco = ctx.frascoIds.has(accountId)
+        for (const [currency, amount] of balances) {
+            const isArs = currency === 'ARS'
+            if (Math.abs(amount) < CASH_EPSILON) continue
+            if (!isArs && !USD_CASH_CURRENCIES.includes(currency)) continue
+
+            const fx = fxAt(cashFxType(ctx.accountsById.get(accountId)))
+            if (fx == null) continue
+
+            add(
+                {
+                    id: `${accountId}-${currency}`,
+                    kind: isFrasco ? 'wallet_yield' : isArs ? 'cash_ars' : 'cash_usd',
+                    accountId,
+                    symbol: currency,
+                },
+                isFrasco ? 'frascos' : 'wallets',
+                isArs ? amount : amount * fx,
+                isArs ? amount / fx : amount
+            )
+        }
+    }
+
+    for (const plazo of positions.plazos) {
+        const fx = fxAt('OFICIAL')
+        if (fx == null) continue
+        const total = plazoTotalArs(plazo)
+        add(
+            { id: plazo.id, kind: 'plazo_fijo', accountId: plazo.accountId || 'unknown', symbol: 'PF' },
+            'plazos',
+            total,
+            total / fx
+        )
+    }
+
+    if (missing.size > 0 || baseFx == null) {
+        return { date, missingKeys: [...missing].sort() }
+    }
+
+    const fxRef = (['MEP', 'OFICIAL', 'CRIPTO'] as const)
+        .map(type => ({ type, close: lookup(fxHistoryKey(type), date)?.close }))
+        .filter(({ close }) => close != null)
+        .map(({ type, close }) => `${type === 'OFICIAL' ? 'OFI' : type === 'CRIPTO' ? 'CR' : type}:${close!.toFixed(2)}`)
+        .join('|')
+
+    return {
+        id: `snapshot-v2-${date}`,
+        dateLocal: date,
+        totalARS: Object.values(breakdownRubros).reduce((sum, rubro) => sum + rubro.ars, 0),
+        totalUSD: Object.values(breakdownRubros).reduce((sum, rubro) => sum + rubro.usd, 0),
+        fxUsed: { usdArs: baseFx, type: BASE_FX },
+        source: SNAPSHOT_SOURCE_V2,
+        breakdownRubros,
+        breakdownItems,
+        meta: { fxRef, notes: SNAPSHOT_BACKFILL_NOTE },
+        createdAtISO: ctx.now.toISOString(),
+    }
+}
+
+/**
+ * Rebuilds v2 snapshots for every day in [fromDate, toDate] without one.
+ * Positions are only recomputed on days with movements or corporate actions.
+ */
+export function backfillSnapshots(input: BackfillSnapshotsInput): BackfillSnapshotsResult {
+    const {
+        movements,
+        instruments,
+        accounts,
+        prices,
+        corporateActions = [],
+        includeCash = true,
+        toDate,
+        now = new Date(),
+    } = input
+
+    const sorted = [...movements].sort(
+        (a, b) => new Date(a.datetimeISO).getTime() - new Date(b.datetimeISO).getTime()
+    )
+    if (sorted.length === 0) return { snapshots: [], skipped: [] }
+
+    const firstDate = movementDateKey(sorted[0])
+    const fromDate = input.fromDate && input.fromDate > firstDate ? input.fromDate : firstDate
+    const existing = new Set(input.existingDates ?? [])
+    const frascoIds = new Set(input.frascoAccountIds ?? [])
+    const instrumentsById = new Map(instruments.map(i => [i.id, i]))
+    const accountsById = new Map(accounts.map(a => [a.id, a]))
+    const actionDates = new Set(corporateActions.map(a => a.effectiveDate))
+    const fullOpenings = computeCashLedger(sorted).openingBalances
+    const lookup = createPriceHistoryLookup(prices)
+
+    const priceKeysCache = new Map<string, string[]>()
+    const ctx = {
+        accountsById,
+        frascoIds,
+        now,
+        priceKeys: (instrument: Instrument) => {
+            let keys = priceKeysCache.get(instrument.id)
+            if (!keys) {
+                keys = priceKeysFor(instrument, corporateActions)
+                priceKeysCache.set(instrument.id, keys)
+            }
+            return keys
+        },
+    }
+
+    const snapshots: Snapshot[] = []
+    const skipped: BackfillSkippedDay[] = []
+    let cursor = 0
+    let positions: DayPositions | null = null
+
+    for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+        let changed = positions === null || actionDates.has(date)
+        while (cursor < sorted.length && movementDateKey(sorted[cursor]) <= date) {
+            cursor++
+            changed = true
+        }
+
+        if (changed || !positions) {
+            const prefix = sorted.slice(0, cursor)
+            // Quantities in the units of that day: later splits are not applied yet
+            const adjusted = applyCorporateActions(prefix, corporateActions, `${date}T12:00:00.000Z`)
+            positions = {
+                holdings: computeHoldings(adjusted, instrumentsById, accountsById),
+                cash: includeCash ? cashBalancesAt(prefix, fullOpenings) : new Map(),
+                plazos: openPlazos(prefix),
+            }
+        }
+
+        if (existing.has(date)) continue
+
+        const result = valueDay(date, positions, lookup, ctx)
+        if ('missingKeys' in result) skipped.push(result)
+        else snapshots.push(result)
+    }
+
+    return { snapshots, skipped }
+}
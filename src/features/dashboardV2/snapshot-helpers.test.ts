@@ -6,6 +6,7 @@ import {
     getSnapshotForPeriod,
     type SnapshotPeriod,
 } from './snapshot-helpers'
+import { ZERO_ATTRIBUTION } from './fx-attribution'
 
 function makeSnapshot(dateLocal: string, totalARS: number): Snapshot {
     return {
@@ -113,4 +114,54 @@ describe('computeDrivers', () => {
         expect(cedears?.items).toHaveLength(2)
         expect(wallets?.deltaArs).toBe(-30)
     })
+
+    it('splits deltas into native price move and FX move', () => {
+        const drivers = computeDrivers(
+            {
+                'crypto:binance:BTC': { rubroId: 'crypto', ars: 132_000, usd: 110 },
+                'cedear:iol:SPY': { rubroId: 'cedears', ars: 120_000, usd: 100 },
+            },
+            {
+                'crypto:binance:BTC': { rubroId: 'crypto', ars: 100_000, usd: 100 },
+                'cedear:iol:SPY': { rubroId: 'cedears', ars: 100_000, usd: 100 },
+            }
+        )
+
+        const crypto = drivers.find((row) => row.rubroId === 'crypto')
+        // BTC is priced in USD: +10 USD at the old rate, the rest is the ARS rate going 1000 -> 1200
+        expect(crypto?.attribution.priceArs).toBeCloseTo(10_000)
+        expect(crypto?.attribution.fxArs).toBeCloseTo(22_000)
+        expect(crypto?.attribution.fxUsd).toBe(0)
+
+        const cedears = drivers.find((row) => row.rubroId === 'cedears')
+        // Priced in ARS: +20k ARS is 20 USD at the old rate, lost again to the rate
+        expect(cedears?.attribution.priceUsd).toBeCloseTo(20)
+        expect(cedears?.attribution.fxUsd).toBeCloseTo(-20)
+        expect(cedears?.attribution.fxArs).toBe(0)
+    })
+
+    it('splits the FX move by the rate family each holding is valued at', () => {
+        const drivers = computeDrivers(
+            {
+                'cedear:iol:SPY': { rubroId: 'cedears', ars: 120_000, usd: 100 },
+                'cedear:ppi:AAPL': { rubroId: 'cedears', ars: 90_000, usd: 90 },
+            },
+            {
+                'cedear:iol:SPY': { rubroId: 'cedears', ars: 100_000, usd: 100 },
+                'cedear:ppi:AAPL': { rubroId: 'cedears', ars: 90_000, usd: 100 },
+            },
+            {},
+            // PPI overrides CEDEARs to the official dollar; IOL keeps the default MEP
+            { 'cedear:ppi:AAPL': 'Oficial' }
+        )
+
+        const cedears = drivers.find((row) => row.rubroId === 'cedears')
+        // SPY: MEP 1000 -> 1200 takes back the 20 USD of price; AAPL: flat in ARS, Oficial 900 -> 1000
+        expect(cedears?.attribution.fxByFamily.MEP?.usd).toBeCloseTo(-20)
+        expect(cedears?.attribution.fxByFamily.Oficial?.usd).toBeCloseTo(-10)
+        expect(cedears?.attribution.fxByFamily.Cripto).toBeUndefined()
+        expect(cedears?.attribution.fxUsd).toBeCloseTo(-30)
+        expect(cedears?.attribution.priceUsd).toBeCloseTo(20)
+        expect(ZERO_ATTRIBUTION.fxByFamily).toEqual({})
+    })
 })
@@ -1,4 +1,14 @@
 import type { Snapshot } from '@/domain/types'
+import {
+    addAttribution,
+    attributeValueChange,
+    fxFamilyForAssetKey,
+    nativeCurrencyForAssetKey,
+    ZERO_ATTRIBUTION,
+    type AttributionCurrency,
+    type AttributionFxFamily,
+    type PnLAttribution,
+} from './fx-attribution'
 
 export type SnapshotPeriod = '1D' | '7D' | '30D' | '90D' | '1Y' | 'MAX' | 'TOTAL'
 
@@ -76,6 +86,8 @@ export interface DriverItemDelta {
     deltaArs: number
     deltaUsd: number
     deltaPct: number | null
+    /** Delta split into native-currency price move and FX move */
+    attribution: PnLAttribution
 }
 
 export interface DriverCategoryDelta {
@@ -85,14 +97,21 @@ export interface DriverCategoryDelta {
     deltaArs: number
     deltaUsd: number
     deltaPct: number | null
+    attribution: PnLAttribution
     items: DriverItemDelta[]
 }
 
 type BreakdownItems = Record<string, { rubroId: string; ars: number; usd: number }>
 
+/**
+ * Per-rubro value deltas between two breakdowns. `nativeCurrencies` and
+ * `fxFamilies` (by asset key) drive the price / FX attribution; see fx-attribution.
+ */
 export function computeDrivers(
     currentBreakdown: BreakdownItems = {},
-    pastBreakdown: BreakdownItems = {}
+    pastBreakdown: BreakdownItems = {},
+    nativeCurrencies: Record<string, AttributionCurrency> = {},
+    fxFamilies: Record<string, AttributionFxFamily> = {}
 ): DriverCategoryDelta[] {
     const allAssetKeys = new Set([
         ...Object.keys(currentBreakdown),
@@ -106,6 +125,7 @@ export function computeDrivers(
         pastUsd: number
         deltaArs: number
         deltaUsd: number
+        attribution: PnLAttribution
         items: DriverItemDelta[]
     }>()
 
@@ -131,6 +151,12 @@ export function computeDrivers(
             deltaArs,
             deltaUsd,
             deltaPct,
+            attribution: attributeValueChange(
+                past,
+                current,
+                nativeCurrencyForAssetKey(assetKey, nativeCurrencies),
+                fxFamilyForAssetKey(assetKey, fxFamilies)
+            ),
         }
 
         const category = byCategory.get(rubroId) ?? {
@@ -140,6 +166,7 @@ export function computeDrivers(
             pastUsd: 0,
             deltaArs: 0,
             deltaUsd: 0,
+            attribution: { ...ZERO_ATTRIBUTION },
             items: [],
         }
 
@@ -149,6 +176,7 @@ export function computeDrivers(
         category.pastUsd += pastUsd
         category.deltaArs += deltaArs
         category.deltaUsd += deltaUsd
+        addAttribution(category.attribution, item.attribution)
         category.items.push(item)
 
         byCategory.set(rubroId, category)
@@ -162,6 +190,7 @@ export function computeDrivers(
             deltaArs: category.deltaArs,
             deltaUsd: category.deltaUsd,
             deltaPct: Math.abs(category.pastArs) > EPSILON ? (category.deltaArs / category.pastArs) : null,
+            attribution: category.attribution,
             items: category.items.sort((a, b) => Math.abs(b.deltaArs) - Math.abs(a.deltaArs)),
         }))
         .sort((a, b) => Math.abs(b.deltaArs) - Math.abs(a.deltaArs))
@@ -1,4 +1,5 @@
 import type { FxType, Snapshot } from '@/domain/types'
+import { describeValuationPolicy } from '@/domain/fx/valuation-policy'
 import type { PortfolioV2, ItemV2, RubroV2 } from '@/features/portfolioV2'
 
 export const SNAPSHOT_SOURCE_V2: Snapshot['source'] = 'v2'
@@ -39,6 +40,8 @@ function getAssetKindPrefix(kind: ItemV2['kind']): string {
             return 'fci'
         case 'plazo_fijo':
             return 'pf'
+        case 'caucion':
+            return 'caucion'
         case 'wallet_yield':
         case 'cash_ars':
         case 'cash_usd':
@@ -48,7 +51,9 @@ function getAssetKindPrefix(kind: ItemV2['kind']): string {
     }
 }
 
-export function buildSnapshotAssetKey(item: ItemV2): string {
+export function buildSnapshotAssetKey(
+    item: Pick<ItemV2, 'id' | 'kind' | 'accountId' | 'symbol' | 'instrumentId'>
+): string {
     const prefix = getAssetKindPrefix(item.kind)
     const account = normalizeAccountId(item.accountId)
 
@@ -56,7 +61,7 @@ export function buildSnapshotAssetKey(item: ItemV2): string {
         return `${prefix}:${account}:${normalizeInstrumentId(item.instrumentId)}`
     }
 
-    if (item.kind === 'plazo_fijo') {
+    if (item.kind === 'plazo_fijo' || item.kind === 'caucion') {
         return `${prefix}:${account}:${normalizeInstrumentId(item.id)}`
     }
 
@@ -141,6 +146,14 @@ export function buildSnapshotFromPortfolioV2(
         breakdownItems: itemBreakdown,
         meta: {
             fxRef: `MEP:${portfolio.fx.mepSell.toFixed(2)}|OFI:${portfolio.fx.officialSell.toFixed(2)}|CR:${portfolio.fx.cryptoSell.toFixed(2)}`,
+            ...(portfolio.valuationPolicy
+                ? {
+                    valuationPolicy: describeValuationPolicy(
+                        portfolio.valuationPolicy.defaults,
+                        Object.keys(portfolio.valuationPolicy.overrides).length
+                    ),
+                }
+                : {}),
         },
         createdAtISO: now.toISOString(),
     }
@@ -0,0 +1,120 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { db } from '@/db/schema'
+import { buildDcaDraft, buildDcaFill, dcaOccurrences, dcaQuantityFor, dueDcaDates, nextDcaDate } from './schedule'
+import { scheduleDcaDrafts } from './useDca'
+import { computeDcaPerformance } from './performance'
+import type { Movement } from '@/domain/types'
+import type { DcaPlan } from './types'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function plan(overrides: Partial<DcaPlan> = {}): DcaPlan {
+    return {
+        id: 'plan-1',
+        instrumentId: 'spy',
+        symbol: 'SPY',
+        assetClass: 'cedear',
+        accountId: 'iol',
+        amount: 100000,
+        currency: 'ARS',
+        frequency: 'monthly',
+        day: 31,
+        startDate: '2026-01-15',
+        active: true,
+        createdAtISO: '2026-01-15T00:00:00.000Z',
+        updatedAtISO: '2026-01-15T00:00:00.000Z',
+        ...overrides,
+    }
+}
+
+function purchase(id: string, dateLocal: string, quantity: number, unitPrice: number): Movement {
+    return {
+        ...buildDcaDraft(plan(), dateLocal),
+        id,
+        ...buildDcaFill(buildDcaDraft(plan(), dateLocal), { dateLocal, quantity, unitPrice, fxRate: 1000 }, 'MEP'),
+    }
+}
+
+describe('dcaOccurrences', () => {
+    it('clamps monthly plans to the month end', () => {
+        expect(dcaOccurrences(plan(), '2026-01-01', '2026-04-30')).toEqual([
+            '2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30',
+        ])
+    })
+
+    it('anchors weekly plans on the first matching weekday', () => {
+        // 2026-01-15 is a Thursday; day 1 = Monday
+        const weekly = plan({ frequency: 'biweekly', day: 1 })
+        expect(dcaOccurrences(weekly, '2026-01-01', '2026-02-28')).toEqual([
+            '2026-01-19', '2026-02-02', '2026-02-16',
+        ])
+    })
+})
+
+describe('dueDcaDates', () => {
+    it('returns dates after the last scheduled one, up to today and the end date', () => {
+        const p = plan({ day: 10, lastScheduledDate: '2026-02-10', endDate: '2026-05-01' })
+        expect(dueDcaDates(p, '2026-06-20')).toEqual(['2026-03-10', '2026-04-10'])
+        expect(dueDcaDates({ ...p, active: false }, '2026-06-20')).toEqual([])
+        expect(nextDcaDate(plan({ day: 10 }), '2026-03-11')).toBe('2026-04-10')
+    })
+})
+
+describe('buildDcaFill', () => {
+    it('prices the draft with the actual fill and whole CEDEAR shares', () => {
+        const draft = buildDcaDraft(plan(), '2026-01-31')
+        expect(draft).toMatchObject({ id: 'dca:plan-1:2026-01-31', type: 'BUY', totalAmount: 100000, meta: { dcaPlanId: 'plan-1' } })
+
+        const quantity = dcaQuantityFor('cedear', 100000, 30000)
+        expect(quantity).toBe(3)
+        const fill = buildDcaFill(draft, { dateLocal: '2026-02-02', quantity, unitPrice: 30000, feeAmount: 500, fxRate: 1200 }, 'MEP')
+        expect(fill).toMatchObject({ quantity: 3, unitPrice: 30000, totalAmount: 90000, netAmount: 90500, totalARS: 90500 })
+        expect(fill.totalUSD).toBeCloseTo(90500 / 1200)
+    })
+})
+
+describe('computeDcaPerformance', () => {
+    it('compares the purchases with investing the total on the first date', () => {
+        const movements = [
+            purchase('a', '2026-01-31', 10, 100),
+            purchase('b', '2026-02-28', 20, 50),
+            { ...purchase('other', '2026-02-28', 5, 50), meta: {} },
+        ]
+        const perf = computeDcaPerformance(plan(), movements, 80)
+
+        expect(perf).toMatchObject({ purchases: 2, invested: 2000, units: 30, avgPrice: 2000 / 30, currentValue: 2400, pnl: 400 })
+        expect(perf.lumpSum).toEqual({ price: 100, units: 20, value: 1600 })
+        expect(perf.vsLumpSum).toBe(800)
+        expect(computeDcaPerformance(plan(), movements, null).vsLumpSum).toBeNull()
+    })
+})
+
+describe('scheduleDcaDrafts', () => {
+    beforeEach(async () => {
+        await Promise.all([db.dcaPlans.clear(), db.movementDrafts.clear()])
+    })
+
+    it('advances the plan together with its drafts', async () => {
+        await db.dcaPlans.put(plan())
+
+        expect(await scheduleDcaDrafts('2026-02-28')).toBe(2)
+        expect((await db.dcaPlans.get('plan-1'))?.lastScheduledDate).toBe('2026-02-28')
+        expect(await db.movementDrafts.count()).toBe(2)
+        expect(await scheduleDcaDrafts('2026-02-28')).toBe(0)
+    })
+
+    it('never overwrites a draft the user already edited', async () => {
+        await db.dcaPlans.put(plan())
+        await scheduleDcaDrafts('2026-02-28')
+        const edited = buildDcaDraft(plan(), '2026-01-31')
+        await db.movementDrafts.update(edited.id, { totalAmount: 150000 })
+
+        // Re-run from scratch, as if the plan had not been advanced
+        await db.dcaPlans.update('plan-1', { lastScheduledDate: undefined })
+        expect(await scheduleDcaDrafts('2026-02-28')).toBe(0)
+        expect((await db.movementDrafts.get(edited.id))?.totalAmount).toBe(150000)
+    })
+})
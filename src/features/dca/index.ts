@@ -0,0 +1,5 @@
+// DCA Feature Module
+export * from './types'
+export * from './schedule'
+export * from './performance'
+export { useDcaPlans, useDcaScheduler, scheduleDcaDrafts, type DcaPlanInput } from './useDca'
@@ -0,0 +1,53 @@
+/**
+ * DCA performance
+ *
+ * Confirmed purchases of a plan against the alternative of investing the
+ * same total at once on the first purchase date.
+ */
+
+import type { Movement } from '@/domain/types'
+import type { DcaPerformance, DcaPlan } from './types'
+
+export function planPurchases(plan: DcaPlan, movements: Movement[]): Movement[] {
+    return movements
+        .filter(m => m.type === 'BUY' && m.meta?.dcaPlanId === plan.id && m.tradeCurrency === plan.currency)
+        .sort((a, b) => a.datetimeISO.localeCompare(b.datetimeISO))
+}
+
+/**
+ * @param currentPrice unit price in the plan currency (null when unknown)
+ */
+export function computeDcaPerformance(
+    plan: DcaPlan,
+    movements: Movement[],
+    currentPrice: number | null
+): DcaPerformance {
+    const purchases = planPurchases(plan, movements)
+    const invested = purchases.reduce((sum, m) => sum + (m.netAmount ?? m.totalAmount), 0)
+    const units = purchases.reduce((sum, m) => sum + (m.quantity ?? 0), 0)
+    const hasPrice = currentPrice != null && currentPrice > 0
+
+    const currentValue = hasPrice ? units * currentPrice : null
+    const pnl = currentValue != null ? currentValue - invested : null
+
+    const firstPrice = purchases.find(m => (m.unitPrice ?? 0) > 0)?.unitPrice
+    const lumpSum = firstPrice
+        ? {
+            price: firstPrice,
+            units: invested / firstPrice,
+            value: hasPrice ? (invested / firstPrice) * currentPrice : null,
+        }
+        : null
+
+    return {
+        purchases: purchases.length,
+        invested,
+        units,
+        avgPrice: units > 0 ? invested / units : 0,
+        currentValue,
+        pnl,
+        pnlPct: pnl != null && invested > 0 ? (pnl / invested) * 100 : null,
+        lumpSum,
+        vsLumpSum: currentValue != null && lumpSum?.value != null ? currentValue - lumpSum.value : null,
+    }
+}
@@ -0,0 +1,139 @@
+/**
+ * DCA schedule → draft movements
+ *
+ * Due dates are local calendar days. Drafts get a deterministic id per plan
+ * and date, so running the scheduler twice never duplicates a purchase.
+ */
+
+import type { FxType, Movement, MovementFee } from '@/domain/types'
+import type { FxRatesSnapshot } from '@/features/portfolioV2/types'
+import type { DcaAssetClass, DcaFill, DcaPlan } from './types'
+
+export const DCA_DRAFT_SOURCE = 'dca'
+
+/** Older missed dates are skipped instead of flooding the drafts */
+export const MAX_CATCH_UP = 12
+
+function parseDate(dateLocal: string): Date {
+    const [y, m, d] = dateLocal.split('-').map(Number)
+    return new Date(y, m - 1, d)
+}
+
+function formatDate(date: Date): string {
+    const mm = String(date.getMonth() + 1).padStart(2, '0')
+    const dd = String(date.getDate()).padStart(2, '0')
+    return `${date.getFullYear()}-${mm}-${dd}`
+}
+
+function addDays(dateLocal: string, days: number): string {
+    const date = parseDate(dateLocal)
+    date.setDate(date.getDate() + days)
+    return formatDate(date)
+}
+
+/** Every due date of a plan between two days (inclusive), ignoring `active` */
+export function dcaOccurrences(plan: DcaPlan, fromDate: string, toDate: string): string[] {
+    const start = fromDate > plan.startDate ? fromDate : plan.startDate
+    const end = plan.endDate && plan.endDate < toDate ? plan.endDate : toDate
+    if (start > end) return []
+
+    const dates: string[] = []
+    if (plan.frequency === 'monthly') {
+        const cursor = parseDate(plan.startDate)
+        cursor.setDate(1)
+        while (formatDate(cursor) <= end) {
+            const lastDay = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0).getDate()
+            const due = formatDate(new Date(cursor.getFullYear(), cursor.getMonth(), Math.min(plan.day, lastDay)))
+            if (due >= start && due <= end) dates.push(due)
+            cursor.setMonth(cursor.getMonth() + 1)
+        }
+        return dates
+    }
+
+    // Weekly plans are anchored on the first matching weekday from the start date
+    const step = plan.frequency === 'weekly' ? 7 : 14
+    const offset = (plan.day - parseDate(plan.startDate).getDay() + 7) % 7
+    for (let due = addDays(plan.startDate, offset); due <= end; due = addDays(due, step)) {
+        if (due >= start) dates.push(due)
+    }
+    return dates
+}
+
+/** Due dates not yet turned into drafts, up to today */
+export function dueDcaDates(plan: DcaPlan, todayLocal: string): string[] {
+    if (!plan.active) return []
+    const from = plan.lastScheduledDate ? addDays(plan.lastScheduledDate, 1) : plan.startDate
+    return dcaOccurrences(plan, from, todayLocal).slice(-MAX_CATCH_UP)
+}
+
+/** Next due date from today on (null when the plan ended or is paused) */
+export function nextDcaDate(plan: DcaPlan, todayLocal: string): string | null {
+    if (!plan.active) return null
+    const from = plan.lastScheduledDate && plan.lastScheduledDate >= todayLocal
+        ? addDays(plan.lastScheduledDate, 1)
+        : todayLocal
+    return dcaOccurrences(plan, from, addDays(from, 62))[0] ?? null
+}
+
+export function buildDcaDraft(plan: DcaPlan, dateLocal: string): Movement {
+    return {
+        id: `dca:${plan.id}:${dateLocal}`,
+        datetimeISO: new Date(`${dateLocal}T12:00:00`).toISOString(),
+        type: 'BUY',
+        assetClass: plan.assetClass,
+        instrumentId: plan.instrumentId,
+        accountId: plan.accountId,
+        ticker: plan.symbol,
+        assetName: plan.name,
+        // Quantity and price are unknown until the order is filled
+        tradeCurrency: plan.currency,
+        totalAmount: plan.amount,
+        notes: 'Compra programada (DCA)',
+        source: 'user',
+        meta: { source: DCA_DRAFT_SOURCE, dcaPlanId: plan.id, dcaScheduledDate: dateLocal },
+    }
+}
+
+/** Same FX family the portfolio values each asset class with (buys pay Venta) */
+export function dcaFxFor(assetClass: DcaAssetClass, fx: FxRatesSnapshot): { kind: FxType; rate: number } {
+    if (assetClass === 'crypto') return { kind: 'CRIPTO', rate: fx.cryptoSell }
+    if (assetClass === 'fci') return { kind: 'OFICIAL', rate: fx.officialSell }
+    return { kind: 'MEP', rate: fx.mepSell }
+}
+
+/** Units the planned amount buys at a price (whole shares for CEDEARs) */
+export function dcaQuantityFor(assetClass: DcaAssetClass, amount: number, unitPrice: number): number {
+    if (!(unitPrice > 0) || !(amount > 0)) return 0
+    const quantity = amount / unitPrice
+    return assetClass === 'cedear' ? Math.floor(quantity) : Number(quantity.toFixed(8))
+}
+
+/** Fields written on a draft when it is confirmed */
+export function buildDcaFill(draft: Movement, fill: DcaFill, fxKind: FxType): Partial<Movement> {
+    const gross = fill.quantity * fill.unitPrice
+    const feeAmount = fill.feeAmount ?? 0
+    const fee: MovementFee | undefined = feeAmount > 0
+        ? { mode: 'FIXED', amount: feeAmount, currency: draft.tradeCurrency }
+        : undefined
+    const net = gross + feeAmount
+    const isArs = draft.tradeCurrency === 'ARS'
+    const datetimeISO = new Date(`${fill.dateLocal}T12:00:00`).toISOString()
+
+    return {
+        datetimeISO,
+        quantity: fill.quantity,
+        unitPrice: fill.unitPrice,
+        totalAmount: gross,
+        fee,
+        netAmount: net,
+        totalARS: isArs ? net : net * fill.fxRate,
+        totalUSD: isArs ? (fill.fxRate > 0 ? net / fill.fxRate : 0) : net,
+        fxAtTrade: fill.fxRate,
+        fx: {
+            kind: fxKind,
+            rate: fill.fxRate,
+            side: 'sell',
+            asOf: datetimeISO,
+        },
+    }
+}
@@ -0,0 +1,67 @@
+/**
+ * DCA Types
+ *
+ * Recurring purchase plans (same amount of one instrument on a fixed
+ * schedule). Each due date becomes a draft BUY in `movementDrafts` that the
+ * user confirms with the actual fill price.
+ */
+
+export type DcaFrequency = 'weekly' | 'biweekly' | 'monthly'
+
+export type DcaAssetClass = 'cedear' | 'crypto' | 'fci'
+
+// =============================================================================
+// Plans (persisted in Dexie `dcaPlans`)
+// =============================================================================
+
+export interface DcaPlan {
+    id: string
+    instrumentId: string
+    symbol: string
+    name?: string
+    assetClass: DcaAssetClass
+    accountId: string
+    amount: number              // Per purchase, in `currency`
+    currency: 'ARS' | 'USD'
+    frequency: DcaFrequency
+    /** Day of month (1-31, clamped to the month end) or weekday (0 = domingo) for weekly plans */
+    day: number
+    startDate: string           // YYYY-MM-DD
+    endDate?: string            // YYYY-MM-DD, inclusive
+    active: boolean
+    /** Last due date already turned into a draft */
+    lastScheduledDate?: string
+    createdAtISO: string
+    updatedAtISO: string
+}
+
+// =============================================================================
+// Confirmation + performance
+// =============================================================================
+
+export interface DcaFill {
+    dateLocal: string           // YYYY-MM-DD the order was filled
+    unitPrice: number
+    quantity: number
+    feeAmount?: number
+    /** FX of the asset class (MEP for CEDEARs, cripto, oficial for FCIs) */
+    fxRate: number
+}
+
+export interface DcaPerformance {
+    purchases: number
+    invested: number            // Net amount paid, plan currency
+    units: number
+    avgPrice: number
+    currentValue: number | null
+    pnl: number | null
+    pnlPct: number | null
+    /** Same total invested all at once at the first purchase price */
+    lumpSum: {
+        price: number
+        units: number
+        value: number | null
+    } | null
+    /** currentValue - lumpSum.value (positive: averaging in did better) */
+    vsLumpSum: number | null
+}
@@ -0,0 +1,165 @@
+/**
+ * DCA hooks
+ *
+ * Plan CRUD (local only, like allocation targets) and the scheduler that
+ * turns due dates into drafts once per day, the way the yield accrual runs.
+ */
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { db } from '@/db'
+import { toLocalDateKey } from '@/lib/dates'
+import { useToast } from '@/components/ui/toast'
+import type { Movement } from '@/domain/types'
+import { buildDcaDraft, dueDcaDates } from './schedule'
+import type { DcaPlan } from './types'
+
+const PLANS_QUERY_KEY = ['dcaPlans']
+const DCA_STORAGE_KEY = 'argfolio.lastDcaRun'
+const EMPTY: DcaPlan[] = []
+
+export type DcaPlanInput = Omit<DcaPlan, 'id' | 'active' | 'lastScheduledDate' | 'createdAtISO' | 'updatedAtISO'>
+
+/**
+ * Writes the drafts of every due date and advances each plan, in one
+ * transaction. Drafts already stored (maybe edited by the user) are left
+ * alone, so a re-run is harmless. Returns how many drafts were created.
+ */
+export async function scheduleDcaDrafts(todayLocal: string = toLocalDateKey(new Date().toISOString())): Promise<number> {
+    const nowISO = new Date().toISOString()
+
+    return db.transaction('rw', [db.dcaPlans, db.movementDrafts], async () => {
+        const plans = await db.dcaPlans.toArray()
+        const drafts: Movement[] = []
+
+        for (const plan of plans) {
+            const dates = dueDcaDates(plan, todayLocal)
+            if (dates.length === 0) continue
+            drafts.push(...dates.map(date => buildDcaDraft(plan, date)))
+            await db.dcaPlans.update(plan.id, { lastScheduledDate: dates[dates.length - 1], updatedAtISO: nowISO })
+        }
+
+        const existing = await db.movementDrafts.bulkGet(drafts.map(draft => draft.id))
+        const fresh = drafts.filter((_, index) => !existing[index])
+        if (fresh.length > 0) await db.movementDrafts.bulkAdd(fresh)
+        return fresh.length
+    })
+}
+
+export function useDcaPlans() {
+    const queryClient = useQueryClient()
+
+    const { data: plans = EMPTY, isLoading } = useQuery({
+        queryKey: PLANS_QUERY_KEY,
+        queryFn: () => db.dcaPlans.orderBy('instrumentId').toArray(),
+    })
+
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: PLANS_QUERY_KEY })
+        queryClient.invalidateQueries({ queryKey: ['movementDrafts'] })
+    }
+
+    // A plan due today gets its draft right away
+    const createMutation = useMutation({
+        mutationFn: async (input: DcaPlanInput) => {
+            const nowISO = new Date().toISOString()
+            await db.dcaPlans.put({
+                ...input,
+                id: crypto.randomUUID(),
+                active: true,
+                createdAtISO: nowISO,
+                updatedAtISO: nowISO,
+            })
+            await scheduleDcaDrafts()
+        },
+        onSuccess: invalidate,
+    })
+
+    // Resuming skips the dates missed while paused
+    const setActiveMutation = useMutation({
+        mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+            const yesterday = new Date()
+            yesterday.setDate(yesterday.getDate() - 1)
+            const skipUntil = toLocalDateKey(yesterday.toISOString())
+            const plan = await db.dcaPlans.get(id)
+            await db.dcaPlans.update(id, {
+                active,
+                updatedAtISO: new Date().toISOString(),
+                ...(active && (!plan?.lastScheduledDate || plan.lastScheduledDate < skipUntil)
+                    ? { lastScheduledDate: skipUntil }
+                    : {}),
+            })
+            if (active) await scheduleDcaDrafts()
+        },
+        onSuccess: invalidate,
+    })
+
+    // Pending drafts go with the plan; confirmed purchases stay
+    const deleteMutation = useMutation({
+        mutationFn: async (id: string) => {
+            await db.movementDrafts.filter(d => d.meta?.dcaPlanId === id).delete()
+            await db.dcaPlans.delete(id)
+        },
+        onSuccess: invalidate,
+    })
+
+    return {
+        plans,
+        isLoading,
+        createPlan: (input: DcaPlanInput) => createMutation.mutateAsync(input),
+        setPlanActive: (id: string, active: boolean) => setActiveMutation.mutate({ id, active }),
+        deletePlan: (id: string) => deleteMutation.mutate(id),
+        isSaving: createMutation.isPending,
+    }
+}
+
+function hasRunToday(todayLocal: string): boolean {
+    try {
+        return localStorage.getItem(DCA_STORAGE_KEY) === todayLocal
+    } catch {
+        return false
+    }
+}
+
+function markAsRun(todayLocal: string): void {
+    try {
+        localStorage.setItem(DCA_STORAGE_KEY, todayLocal)
+    } catch {
+        // Ignore storage errors
+    }
+}
+
+/** Creates due DCA drafts once per day at app startup */
+export function useDcaScheduler() {
+    const queryClient = useQueryClient()
+    const { toast } = useToast()
+    const hasRun = useRef(false)
+
+    const run = useCallback(async (showToast: boolean) => {
+        const todayLocal = toLocalDateKey(new Date().toISOString())
+        const created = await scheduleDcaDrafts(todayLocal)
+        markAsRun(todayLocal)
+        if (created > 0) {
+            queryClient.invalidateQueries({ queryKey: PLANS_QUERY_KEY })
+            queryClient.invalidateQueries({ queryKey: ['movementDrafts'] })
+            if (showToast) {
+                toast({
+                    title: 'Compras programadas',
+                    description: `${created} compra${created > 1 ? 's' : ''} DCA pendiente${created > 1 ? 's' : ''} de confirmar.`,
+                })
+            }
+        }
+        return created
+    }, [queryClient, toast])
+
+    useEffect(() => {
+        if (hasRun.current) return
+        hasRun.current = true
+        if (hasRunToday(toLocalDateKey(new Date().toISOString()))) return
+        run(true).catch(err => {
+            console.error('[DcaScheduler] Error scheduling drafts:', err)
+        })
+    }, [run])
+
+    return { runDcaNow: () => run(false) }
+}
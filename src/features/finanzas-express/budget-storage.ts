@@ -0,0 +1,40 @@
+import type { BudgetState } from './types'
+import {
+    FINANCE_EXPRESS_STORAGE_KEY,
+    FINANCE_EXPRESS_UPDATED_AT_STORAGE_KEY,
+    syncBudgetPush,
+} from '@/sync/remote-sync'
+
+export const DEFAULT_BUDGET_STATE: BudgetState = {
+    fxOficial: 1100,
+    fxCompra: 1450,
+    fxVenta: 1500,
+    cards: [],
+    services: [],
+    planned: [],
+    savings: 0,
+    incomes: [],
+    events: [],
+}
+
+export function loadBudgetState(): BudgetState {
+    try {
+        const raw = localStorage.getItem(FINANCE_EXPRESS_STORAGE_KEY)
+        if (!raw) return { ...DEFAULT_BUDGET_STATE }
+        const parsed = JSON.parse(raw)
+        return { ...DEFAULT_BUDGET_STATE, ...parsed }
+    } catch {
+        return { ...DEFAULT_BUDGET_STATE }
+    }
+}
+
+/**
+ * Persist the budget for the iframe app and queue the cross-device push.
+ */
+export function saveBudgetState(state: BudgetState): void {
+    const { fxLoading: _, ...toSave } = state
+    localStorage.setItem(FINANCE_EXPRESS_STORAGE_KEY, JSON.stringify(toSave))
+    localStorage.setItem(FINANCE_EXPRESS_UPDATED_AT_STORAGE_KEY, new Date().toISOString())
+    // Debounced push to D1 for cross-device sync
+    syncBudgetPush()
+}
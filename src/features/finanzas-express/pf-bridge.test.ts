@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import { budgetPayments, budgetToPfRecords, mergePfIntoBudgetState, toPfRecordId } from './pf-bridge'
+import { DEFAULT_BUDGET_STATE } from './budget-storage'
+import type { BudgetState } from './types'
+import type { PFFixedExpense } from '@/db/schema'
+
+const YM = '2026-03'
+const NOW = '2026-03-15T12:00:00.000Z'
+const tsIn = (day: number) => new Date(2026, 2, day, 12).getTime()
+
+describe('budgetToPfRecords', () => {
+    const state: BudgetState = {
+        ...DEFAULT_BUDGET_STATE,
+        accountId: 'acc-1',
+        cards: [
+            { id: 'c1', name: 'Visa', totalArs: 1000, usdItems: [{ id: 'u1', desc: 'Spotify', amount: 10 }], payments: [], feeArsBase: 100 },
+            { id: 'pf:card-9', name: 'Master', totalArs: 500, usdItems: [], payments: [] },
+        ],
+        services: [{ id: 's1', name: 'Internet', amount: 300, discount: 50 }],
+        planned: [{ id: 'p1', name: 'Regalo', amount: 200 }],
+        incomes: [{ id: 'i1', name: 'Sueldo', amount: 5000 }],
+    }
+
+    it('maps budget-owned items onto fe: records of the month', () => {
+        const records = budgetToPfRecords(state, YM, NOW)
+
+        expect(records.cards.map(c => c.id)).toEqual(['fe:card:c1'])
+        expect(records.cards[0].defaultAccountId).toBe('acc-1')
+        expect(records.consumptions).toMatchObject([
+            { id: 'fe:card:c1:2026-03:open', amount: 1121, currency: 'ARS', closingYearMonth: YM, postedYearMonth: '2026-04' },
+            { id: 'fe:card:c1:2026-03:open:u1', amount: 10, currency: 'USD' },
+        ])
+        expect(records.fixedExpenses).toMatchObject([
+            { id: 'fe:service:s1', amount: 250, recurrence: 'MONTHLY' },
+            { id: 'fe:plan:p1', amount: 200, recurrence: 'ONCE' },
+        ])
+        expect(records.incomes).toMatchObject([{ id: 'fe:income:i1:2026-03', amount: 5000, yearMonth: YM }])
+    })
+
+    it('keeps the balance a card had when it was paid', () => {
+        const paid: BudgetState = {
+            ...state,
+            cards: [{ id: 'c1', name: 'Visa', totalArs: 0, usdItems: [], payments: [] }],
+            events: [{ type: 'pay_card', cardId: 'c1', amount: 800, snapshot: { totalArs: 800, usdItems: [] }, ts: tsIn(10) }],
+        }
+        const { consumptions } = budgetToPfRecords(paid, YM, NOW)
+        expect(consumptions).toHaveLength(1)
+        expect(consumptions[0]).toMatchObject({ id: `fe:card:c1:2026-03:${tsIn(10)}`, amount: 800 })
+    })
+})
+
+describe('budgetPayments', () => {
+    it('points ledger events of the month at their pf record', () => {
+        const state: BudgetState = {
+            ...DEFAULT_BUDGET_STATE,
+            services: [{ id: 's1', name: 'Internet', amount: 300, paid: true }],
+            planned: [{ id: 'pf:exp-7', name: 'Dentista', amount: 900, paid: true }],
+            events: [
+                { type: 'pay_service', itemId: 's1', amount: 300, ts: tsIn(5) },
+                { type: 'pay_plan', itemId: 'pf:exp-7', amount: 900, ts: tsIn(6) },
+                { type: 'pay_service', itemId: 's1', amount: 300, ts: new Date(2026, 1, 5).getTime() },
+                { type: 'pay_service', itemId: 'gone', amount: 1, ts: tsIn(7) },
+            ],
+        }
+
+        expect(budgetPayments(state, YM)).toEqual([
+            { kind: 'expense', recordId: 'fe:service:s1', title: 'Internet', amount: 300, dateISO: '2026-03-05', ts: tsIn(5) },
+            { kind: 'expense', recordId: 'exp-7', title: 'Dentista', amount: 900, dateISO: '2026-03-06', ts: tsIn(6) },
+        ])
+    })
+})
+
+describe('mergePfIntoBudgetState', () => {
+    const expense = (patch: Partial<PFFixedExpense>): PFFixedExpense => ({
+        id: 'exp-1',
+        title: 'Alquiler',
+        amount: 1000,
+        dueDay: 5,
+        category: 'housing',
+        recurrence: 'MONTHLY',
+        startYearMonth: '2026-01',
+        status: 'active',
+        autoDebit: false,
+        createdAt: NOW,
+        ...patch,
+    })
+
+    it('mirrors PF items with pf: ids and skips the budget own records', () => {
+        const next = mergePfIntoBudgetState(DEFAULT_BUDGET_STATE, {
+            fixedExpenses: [
+                expense({ executions: [{ yearMonth: YM, effectiveDate: '2026-03-05', amount: 1000 }] }),
+                expense({ id: 'exp-2', title: 'Service', recurrence: 'ONCE', startYearMonth: YM }),
+                expense({ id: 'fe:service:s1' }),
+            ],
+            incomes: [{ id: 'inc-1', title: 'Freelance', amount: 700, dateExpected: 1, yearMonth: YM, isGuaranteed: false, status: 'pending', createdAt: NOW }],
+            cards: [{
+                card: { id: 'card-1', bank: 'Galicia', name: 'Visa', last4: '1234', currency: 'ARS', closingDay: 25, dueDay: 5, createdAt: NOW },
+                dueConsumptions: [
+                    { id: 'k1', cardId: 'card-1', description: 'Super', amount: 400, currency: 'ARS', purchaseDateISO: '2026-02-10', closingYearMonth: '2026-02', postedYearMonth: YM, createdAt: NOW },
+                    { id: 'k2', cardId: 'card-1', description: 'Netflix', amount: 12, currency: 'USD', purchaseDateISO: '2026-02-11', closingYearMonth: '2026-02', postedYearMonth: YM, createdAt: NOW },
+                ],
+            }],
+        }, YM)
+
+        expect(next.services).toEqual([{ id: 'pf:exp-1', name: 'Alquiler', amount: 1000, discount: 0, paid: true }])
+        expect(next.planned).toEqual([{ id: 'pf:exp-2', name: 'Service', amount: 1000, paid: false }])
+        expect(next.incomes).toEqual([{ id: 'pf:inc-1', name: 'Freelance', amount: 700 }])
+        expect(next.cards).toEqual([{
+            id: 'pf:card-1',
+            name: 'Visa',
+            totalArs: 400,
+            usdItems: [{ id: 'k2', desc: 'Netflix', amount: 12 }],
+            payments: [],
+        }])
+    })
+
+    it('updates mirrored items in place and drops the ones PF no longer has', () => {
+        const state: BudgetState = {
+            ...DEFAULT_BUDGET_STATE,
+            services: [
+                { id: 'pf:exp-old', name: 'Gym', amount: 100 },
+                { id: 's1', name: 'Internet', amount: 300 },
+                { id: 'pf:exp-1', name: 'Alquiler', amount: 900, discount: 0 },
+            ],
+        }
+        const next = mergePfIntoBudgetState(state, { fixedExpenses: [expense({})], incomes: [], cards: [] }, YM)
+        expect(next.services.map(s => [s.id, s.amount])).toEqual([['s1', 300], ['pf:exp-1', 1000]])
+    })
+})
+
+describe('toPfRecordId', () => {
+    it('resolves mirrored items to the original record', () => {
+        expect(toPfRecordId('service', 'pf:exp-1')).toBe('exp-1')
+        expect(toPfRecordId('income', 'i1', YM)).toBe('fe:income:i1:2026-03')
+    })
+})
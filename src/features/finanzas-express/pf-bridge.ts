@@ -0,0 +1,537 @@
+// =============================================================================
+// Finanzas Express <-> Personal Finances bridge
+// =============================================================================
+//
+// The Dexie pf* tables are the shared store. Finanzas Express keeps editing its
+// `budget_fintech` state (the iframe app reads it directly) and this module maps
+// it both ways for the current month (the budget has no months of its own):
+// - Items created in Finanzas Express own pf records with `fe:` ids.
+// - PF items of the month are mirrored into the budget with `pf:` ids; only
+//   their payments flow back, edits stay on the Personal Finances page.
+// - Ledger payments become executions / paid statements plus a Movement
+//   created through movementBridge (id `fe-pay-<ts>`, stable across devices).
+
+import {
+    db,
+    type PFCardConsumption,
+    type PFCreditCard,
+    type PFFixedExpense,
+    type PFIncome,
+    type PFStatement,
+} from '@/db/schema'
+import { movementsRepo } from '@/db/repositories/movements'
+import * as store from '@/features/personal-finances/services/pfStore'
+import { createMovementFromFinanceExecution } from '@/features/personal-finances/services/movementBridge'
+import { getFixedExpenseExecutionForMonth } from '@/features/personal-finances/models/financeHelpers'
+import {
+    addMonthsToYearMonth,
+    getCurrentYearMonth,
+    getYearMonthFromDate,
+    makeDateISO,
+} from '@/features/personal-finances/utils/dateHelpers'
+import { loadBudgetState, saveBudgetState } from './budget-storage'
+import type { BudgetState, Card, Income, PlannedExpense, Service, UsdItem } from './types'
+
+const BUDGET_ID_PREFIX = 'fe:'
+const PF_ITEM_PREFIX = 'pf:'
+const BUDGET_MOVEMENT_PREFIX = 'fe-pay-'
+const BUDGET_CARD_BANK = 'Presupuesto Express'
+
+type BudgetItemKind = 'card' | 'service' | 'plan' | 'income'
+
+export function isBudgetOwned(id: string): boolean {
+    return id.startsWith(BUDGET_ID_PREFIX)
+}
+
+/**
+ * pf record behind a budget item. PF items mirrored into the budget keep their id;
+ * incomes get one record per month.
+ */
+export function toPfRecordId(kind: BudgetItemKind, itemId: string, yearMonth?: string): string {
+    if (itemId.startsWith(PF_ITEM_PREFIX)) return itemId.slice(PF_ITEM_PREFIX.length)
+    const id = `${BUDGET_ID_PREFIX}${kind}:${itemId}`
+    return yearMonth ? `${id}:${yearMonth}` : id
+}
+
+export function budgetMovementId(ts: number): string {
+    return `${BUDGET_MOVEMENT_PREFIX}${ts}`
+}
+
+function dateFromTs(ts: number): string {
+    const d = new Date(ts)
+    return makeDateISO(d.getFullYear(), d.getMonth() + 1, d.getDate())
+}
+
+// =============================================================================
+// BUDGET -> PF
+// =============================================================================
+
+export interface BudgetPfRecords {
+    cards: PFCreditCard[]
+    consumptions: PFCardConsumption[]
+    fixedExpenses: PFFixedExpense[]
+    incomes: PFIncome[]
+}
+
+function cardConsumptions(
+    cardId: string,
+    card: Partial<Card>,
+    key: string,
+    yearMonth: string,
+    nowISO: string
+): PFCardConsumption[] {
+    const base = {
+        cardId,
+        purchaseDateISO: `${yearMonth}-01`,
+        closingYearMonth: yearMonth,
+        postedYearMonth: addMonthsToYearMonth(yearMonth, 1),
+        category: BUDGET_CARD_BANK,
+        createdAt: nowISO,
+    }
+    const result: PFCardConsumption[] = []
+    const fee = (card.feeArsBase || 0) * (1 + (card.feeVatRate ?? 0.21))
+    const ars = (card.totalArs || 0) + fee
+    if (ars > 0) {
+        result.push({ ...base, id: key, description: 'Saldo en pesos', amount: ars, currency: 'ARS' })
+    }
+    for (const item of card.usdItems ?? []) {
+        if (!(item.amount > 0)) continue
+        result.push({ ...base, id: `${key}:${item.id}`, description: item.desc || 'Consumo en dólares', amount: item.amount, currency: 'USD' })
+    }
+    return result
+}
+
+/**
+ * pf records owned by the budget for a month. Cards close in that month so their
+ * balance counts as accrued; a paid card keeps the balance it had when paid.
+ */
+export function budgetToPfRecords(state: BudgetState, yearMonth: string, nowISO: string): BudgetPfRecords {
+    const records: BudgetPfRecords = { cards: [], consumptions: [], fixedExpenses: [], incomes: [] }
+    const events = (state.events || []).filter(e => getYearMonthFromDate(dateFromTs(e.ts)) === yearMonth)
+
+    for (const card of state.cards) {
+        if (card.id.startsWith(PF_ITEM_PREFIX)) continue
+        const cardId = toPfRecordId('card', card.id)
+        records.cards.push({
+            id: cardId,
+            bank: BUDGET_CARD_BANK,
+            name: card.name,
+            last4: '0000',
+            currency: 'ARS',
+            closingDay: 31,
+            dueDay: 10,
+            defaultAccountId: state.accountId,
+            createdAt: nowISO,
+        })
+        records.consumptions.push(...cardConsumptions(cardId, card, `${cardId}:${yearMonth}:open`, yearMonth, nowISO))
+        for (const event of events) {
+            if (event.type !== 'pay_card' || event.cardId !== card.id || !event.snapshot) continue
+            records.consumptions.push(...cardConsumptions(cardId, event.snapshot, `${cardId}:${yearMonth}:${event.ts}`, yearMonth, nowISO))
+        }
+    }
+
+    const expense = (kind: 'service' | 'plan', item: Service | PlannedExpense, amount: number): PFFixedExpense => ({
+        id: toPfRecordId(kind, item.id),
+        title: item.name,
+        amount,
+        dueDay: 1,
+        category: 'service',
+        recurrence: kind === 'service' ? 'MONTHLY' : 'ONCE',
+        startYearMonth: yearMonth,
+        status: 'active',
+        autoDebit: false,
+        defaultAccountId: state.accountId,
+        createdAt: nowISO,
+    })
+    for (const service of state.services) {
+        if (service.id.startsWith(PF_ITEM_PREFIX)) continue
+        records.fixedExpenses.push(expense('service', service, service.amount - (service.discount || 0)))
+    }
+    for (const plan of state.planned) {
+        if (plan.id.startsWith(PF_ITEM_PREFIX)) continue
+        records.fixedExpenses.push(expense('plan', plan, plan.amount))
+    }
+
+    for (const income of state.incomes) {
+        if (income.id.startsWith(PF_ITEM_PREFIX)) continue
+        records.incomes.push({
+            id: toPfRecordId('income', income.id, yearMonth),
+            title: income.name,
+            amount: income.amount,
+            dateExpected: 1,
+            yearMonth,
+            isGuaranteed: true,
+            status: 'pending',
+            defaultAccountId: state.accountId,
+            createdAt: nowISO,
+        })
+    }
+
+    return records
+}
+
+export interface BudgetPayment {
+    kind: 'card' | 'expense'
+    recordId: string
+    title: string
+    amount: number
+    dateISO: string
+    ts: number
+}
+
+/**
+ * Ledger events of the month whose item still exists in the budget.
+ */
+export function budgetPayments(state: BudgetState, yearMonth: string): BudgetPayment[] {
+    const payments: BudgetPayment[] = []
+    for (const event of state.events || []) {
+        const dateISO = dateFromTs(event.ts)
+        if (getYearMonthFromDate(dateISO) !== yearMonth) continue
+
+        if (event.type === 'pay_card') {
+            const card = state.cards.find(c => c.id === event.cardId)
+            if (!card) continue
+            payments.push({
+                kind: 'card',
+                recordId: toPfRecordId('card', card.id),
+                title: event.snapshot?.name ?? card.name,
+                amount: event.amount,
+                dateISO,
+                ts: event.ts,
+            })
+            continue
+        }
+
+        const kind = event.type === 'pay_service' ? 'service' : 'plan'
+        const items: Array<Service | PlannedExpense> = kind === 'service' ? state.services : state.planned
+        const item = items.find(i => i.id === event.itemId)
+        if (!item) continue
+        payments.push({
+            kind: 'expense',
+            recordId: toPfRecordId(kind, item.id),
+            title: item.name,
+            amount: event.amount,
+            dateISO,
+            ts: event.ts,
+        })
+    }
+    return payments
+}
+
+// =============================================================================
+// PF -> BUDGET
+// =============================================================================
+
+export interface PfBudgetView {
+    /** Fixed expenses active in the month */
+    fixedExpenses: PFFixedExpense[]
+    incomes: PFIncome[]
+    cards: Array<{
+        card: PFCreditCard
+        /** Consumptions posted (due) in the month */
+        dueConsumptions: PFCardConsumption[]
+        dueStatement?: PFStatement
+    }>
+}
+
+/** Replace the mirrored `pf:` items of a list, keeping the position of those still there */
+function mergeMirrored<T extends { id: string }>(current: T[], mirrored: T[]): T[] {
+    const byId = new Map(mirrored.map(item => [item.id, item]))
+    const next: T[] = []
+    for (const item of current) {
+        if (!item.id.startsWith(PF_ITEM_PREFIX)) {
+            next.push(item)
+            continue
+        }
+        const fresh = byId.get(item.id)
+        if (fresh) {
+            next.push({ ...item, ...fresh })
+            byId.delete(item.id)
+        }
+    }
+    return [...next, ...byId.values()]
+}
+
+/**
+ * Mirror the month's PF items (not created by the budget) into the budget state.
+ */
+export function mergePfIntoBudgetState(state: BudgetState, view: PfBudgetView, yearMonth: string): BudgetState {
+    const services: Service[] = []
+    const planned: PlannedExpense[] = []
+    for (const expense of view.fixedExpenses) {
+        if (isBudgetOwned(expense.id)) continue
+        const item = {
+            id: `${PF_ITEM_PREFIX}${expense.id}`,
+            name: expense.title,
+            amount: expense.amount,
+            paid: !!getFixedExpenseExecutionForMonth(expense, yearMonth),
+        }
+        if (expense.recurrence === 'MONTHLY') services.push({ ...item, discount: 0 })
+        else planned.push(item)
+    }
+
+    const incomes: Income[] = view.incomes
+        .filter(income => !isBudgetOwned(income.id))
+        .map(income => ({ id: `${PF_ITEM_PREFIX}${income.id}`, name: income.title, amount: income.amount }))
+
+    const cards: Card[] = []
+    for (const { card, dueConsumptions, dueStatement } of view.cards) {
+        if (isBudgetOwned(card.id)) continue
+        const paid = dueStatement?.status === 'PAID'
+        const usdItems: UsdItem[] = paid || dueStatement
+            ? []
+            : dueConsumptions
+                .filter(c => c.currency === 'USD')
+                .map(c => ({ id: c.id, desc: c.description, amount: c.amount }))
+        const totalArs = paid
+            ? 0
+            : dueStatement
+                ? dueStatement.totalAmount
+                : dueConsumptions
+                    .filter(c => c.currency === 'ARS' || !c.currency)
+                    .reduce((sum, c) => sum + c.amount, 0)
+        if (!paid && totalArs === 0 && usdItems.length === 0) continue
+        cards.push({ id: `${PF_ITEM_PREFIX}${card.id}`, name: card.name, totalArs, usdItems, payments: [] })
+    }
+
+    return {
+        ...state,
+        cards: mergeMirrored(state.cards, cards),
+        services: mergeMirrored(state.services, services),
+        planned: mergeMirrored(state.planned, planned),
+        incomes: mergeMirrored(state.incomes, incomes),
+    }
+}
+
+// =============================================================================
+// DEXIE
+// =============================================================================
+
+async function writeBudgetRecords(records: BudgetPfRecords, yearMonth: string, nowISO: string): Promise<void> {
+    await db.transaction('rw', [db.pfCreditCards, db.pfConsumptions, db.pfFixedExpenses, db.pfIncomes], async () => {
+        // Cards
+        for (const card of records.cards) {
+            const existing = await db.pfCreditCards.get(card.id)
+            await db.pfCreditCards.put({
+                ...existing,
+                ...card,
+                defaultAccountId: card.defaultAccountId ?? existing?.defaultAccountId,
+                createdAt: existing?.createdAt ?? card.createdAt,
+                updatedAt: nowISO,
+            })
+        }
+
+        const consumptionIds = new Set(records.consumptions.map(c => c.id))
+        const staleConsumptions = await db.pfConsumptions
+            .where('closingYearMonth').equals(yearMonth)
+            .filter(c => isBudgetOwned(c.id) && !consumptionIds.has(c.id))
+            .primaryKeys()
+        await db.pfConsumptions.bulkDelete(staleConsumptions)
+        await db.pfConsumptions.bulkPut(records.consumptions)
+
+        const cardIds = new Set(records.cards.map(c => c.id))
+        const goneCards = await db.pfCreditCards.filter(c => isBudgetOwned(c.id) && !cardIds.has(c.id)).toArray()
+        for (const card of goneCards) {
+            // Keep removed cards while earlier months still show their balance
+            const left = await db.pfConsumptions.where('cardId').equals(card.id).count()
+            if (left === 0) await db.pfCreditCards.delete(card.id)
+        }
+
+        // Fixed expenses: services recur, planned items follow the month until paid
+        const expenseIds = new Set(records.fixedExpenses.map(e => e.id))
+        for (const expense of records.fixedExpenses) {
+            const existing = await db.pfFixedExpenses.get(expense.id)
+            const movesWithMonth = expense.recurrence === 'ONCE' && !existing?.executions?.length
+            await db.pfFixedExpenses.put({
+                ...expense,
+                dueDay: existing?.dueDay ?? expense.dueDay,
+                startYearMonth: movesWithMonth ? yearMonth : existing?.startYearMonth ?? yearMonth,
+                defaultAccountId: expense.defaultAccountId ?? existing?.defaultAccountId,
+                executions: existing?.executions,
+                createdAt: existing?.createdAt ?? expense.createdAt,
+            })
+        }
+        const goneExpenses = await db.pfFixedExpenses.filter(e => isBudgetOwned(e.id) && !expenseIds.has(e.id)).toArray()
+        for (const expense of goneExpenses) {
+            if (expense.recurrence === 'MONTHLY' && expense.startYearMonth < yearMonth) {
+                const endYearMonth = addMonthsToYearMonth(yearMonth, -1)
+                if (expense.endYearMonth !== endYearMonth) {
+                    await db.pfFixedExpenses.update(expense.id, { endYearMonth })
+                }
+            } else if (expense.startYearMonth >= yearMonth) {
+                await db.pfFixedExpenses.delete(expense.id)
+            }
+        }
+
+        // Incomes (one record per month)
+        const incomeIds = new Set(records.incomes.map(i => i.id))
+        for (const income of records.incomes) {
+            const existing = await db.pfIncomes.get(income.id)
+            await db.pfIncomes.put({
+                ...existing,
+                ...income,
+                dateExpected: existing?.dateExpected ?? income.dateExpected,
+                status: existing?.status ?? income.status,
+                defaultAccountId: income.defaultAccountId ?? existing?.defaultAccountId,
+                createdAt: existing?.createdAt ?? income.createdAt,
+            })
+        }
+        const staleIncomes = await db.pfIncomes
+            .where('yearMonth').equals(yearMonth)
+            .filter(i => isBudgetOwned(i.id) && !incomeIds.has(i.id))
+            .primaryKeys()
+        await db.pfIncomes.bulkDelete(staleIncomes)
+    })
+
+    // Statements of the budget cards follow their consumptions
+    for (const card of records.cards) {
+        if (!records.consumptions.some(c => c.cardId === card.id)) continue
+        const statement = await store.getOrCreateStatement(card, yearMonth)
+        await store.recalculateStatementTotal(statement.id)
+    }
+}
+
+/** Statement a budget payment settles: the one closing in the month for budget cards, the one due for PF cards */
+async function statementForPayment(cardId: string, yearMonth: string): Promise<PFStatement | undefined> {
+    const card = await db.pfCreditCards.get(cardId)
+    if (!card) return undefined
+    if (isBudgetOwned(cardId)) return store.getOrCreateStatement(card, yearMonth)
+    return (await store.getStatementByDueMonth(cardId, yearMonth))
+        ?? store.getOrCreateStatement(card, addMonthsToYearMonth(yearMonth, -1))
+}
+
+async function writeBudgetPayments(state: BudgetState, yearMonth: string): Promise<void> {
+    const payments = budgetPayments(state, yearMonth)
+
+    // Movements: one per ledger event with an account to pay from
+    const movementIds = new Map<number, string>()
+    for (const payment of payments) {
+        const record = payment.kind === 'card'
+            ? await db.pfCreditCards.get(payment.recordId)
+            : await db.pfFixedExpenses.get(payment.recordId)
+        const accountId = state.accountId ?? record?.defaultAccountId
+        if (!record || !accountId) continue
+
+        const id = budgetMovementId(payment.ts)
+        if (!(await movementsRepo.get(id))) {
+            await createMovementFromFinanceExecution({
+                id,
+                kind: payment.kind === 'card' ? 'credit_card_statement' : 'expense',
+                accountId,
+                date: payment.dateISO,
+                amount: payment.amount,
+                currency: 'ARS',
+                title: payment.title,
+                link: { kind: payment.kind, id: payment.recordId },
+            })
+        }
+        movementIds.set(payment.ts, id)
+    }
+    const undone = await db.movements
+        .where('id').startsWith(BUDGET_MOVEMENT_PREFIX)
+        .filter(m => getYearMonthFromDate(m.datetimeISO) === yearMonth && !payments.some(p => budgetMovementId(p.ts) === m.id))
+        .primaryKeys()
+    for (const id of undone) await movementsRepo.delete(id)
+
+    // Executions / statements: one per record, summing the month's payments
+    const byRecord = new Map<string, BudgetPayment[]>()
+    for (const payment of payments) {
+        byRecord.set(payment.recordId, [...(byRecord.get(payment.recordId) ?? []), payment])
+    }
+
+    for (const [recordId, recordPayments] of byRecord) {
+        const last = recordPayments[recordPayments.length - 1]
+        const amount = recordPayments.reduce((sum, p) => sum + p.amount, 0)
+        const movementId = movementIds.get(last.ts)
+
+        if (last.kind === 'expense') {
+            const expense = await db.pfFixedExpenses.get(recordId)
+            const execution = expense && getFixedExpenseExecutionForMonth(expense, yearMonth)
+            // Paid from the Personal Finances page: leave it alone
+            if (!expense || (execution && execution.budgetEventTs == null)) continue
+            if (execution?.budgetEventTs === last.ts && execution.amount === amount && execution.movementId === movementId) continue
+            await store.executeFixedExpense(recordId, {
+                yearMonth,
+                effectiveDate: last.dateISO,
+                amount,
+                accountId: state.accountId ?? expense.defaultAccountId,
+                movementId,
+                budgetEventTs: last.ts,
+            })
+            continue
+        }
+
+        const statement = await statementForPayment(recordId, yearMonth)
+        if (!statement || (statement.status === 'PAID' && statement.paymentBudgetEventTs == null)) continue
+        if (statement.paymentBudgetEventTs === last.ts && statement.paidAmount === amount) continue
+        await db.pfStatements.update(statement.id, {
+            status: 'PAID',
+            paidAt: last.dateISO,
+            paidAmount: amount,
+            paymentMovementId: movementId,
+            paymentAccountId: state.accountId,
+            paymentBudgetEventTs: last.ts,
+            updatedAt: new Date().toISOString(),
+        })
+    }
+
+    // Undo: payments recorded from the budget whose ledger event is gone
+    const expenses = await db.pfFixedExpenses.toArray()
+    for (const expense of expenses) {
+        const execution = getFixedExpenseExecutionForMonth(expense, yearMonth)
+        if (execution?.budgetEventTs != null && !byRecord.has(expense.id)) {
+            await store.clearFixedExpenseExecution(expense.id, yearMonth)
+        }
+    }
+    const statements = await db.pfStatements.filter(s => s.paymentBudgetEventTs != null).toArray()
+    for (const statement of statements) {
+        if (getYearMonthFromDate(statement.paidAt || '') !== yearMonth || byRecord.has(statement.cardId)) continue
+        await store.markStatementUnpaid(statement.id)
+    }
+}
+
+let syncChain: Promise<void> = Promise.resolve()
+
+/**
+ * Write the budget into the pf tables (runs one at a time). Idempotent: the
+ * first run is the migration of an existing budget.
+ */
+export function syncBudgetIntoPf(state?: BudgetState, yearMonth?: string): Promise<void> {
+    const run = syncChain.then(async () => {
+        const budget = state ?? loadBudgetState()
+        const month = yearMonth ?? getCurrentYearMonth()
+        const nowISO = new Date().toISOString()
+        await writeBudgetRecords(budgetToPfRecords(budget, month, nowISO), month, nowISO)
+        await writeBudgetPayments(budget, month)
+    })
+    syncChain = run.catch(() => undefined)
+    return run
+}
+
+/**
+ * Mirror the month's PF items into the stored budget.
+ * @returns true when the budget changed (the iframe app should reload it)
+ */
+export async function mergePfIntoBudget(yearMonth = getCurrentYearMonth()): Promise<boolean> {
+    const [fixedExpenses, incomes, cards, dueConsumptions] = await Promise.all([
+        store.getFixedExpensesByMonth(yearMonth),
+        store.getIncomesByMonth(yearMonth),
+        store.getAllCreditCards(),
+        store.getConsumptionsByYearMonth(yearMonth),
+    ])
+    const view: PfBudgetView = {
+        fixedExpenses,
+        incomes,
+        cards: await Promise.all(cards.filter(card => !isBudgetOwned(card.id)).map(async card => ({
+            card,
+            dueConsumptions: dueConsumptions.filter(c => c.cardId === card.id),
+            dueStatement: await store.getStatementByDueMonth(card.id, yearMonth),
+        }))),
+    }
+
+    const state = loadBudgetState()
+    const next = mergePfIntoBudgetState(state, view, yearMonth)
+    if (JSON.stringify(next) === JSON.stringify(state)) return false
+    saveBudgetState(next)
+    return true
+}
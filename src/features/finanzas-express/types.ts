@@ -49,6 +49,7 @@ export interface LedgerEvent {
     itemId?: string
     amount: number
     snapshot?: Partial<Card>
+    egresoId?: string
     ts: number
 }
 
@@ -63,4 +64,6 @@ export interface BudgetState {
     savings: number
     incomes: Income[]
     events: LedgerEvent[]
+    /** Argfolio account that pays the ledger (set by the host, kept by the iframe app) */
+    accountId?: string
 }
@@ -1,48 +1,21 @@
 import { useState, useCallback, useRef } from 'react'
 import type { BudgetState, Card, Service, PlannedExpense, Income } from './types'
-import { FINANCE_EXPRESS_UPDATED_AT_STORAGE_KEY, syncBudgetPush } from '@/sync/remote-sync'
-
-const STORAGE_KEY = 'budget_fintech'
-
-const DEFAULT_STATE: BudgetState = {
-    fxOficial: 1100,
-    fxCompra: 1450,
-    fxVenta: 1500,
-    cards: [],
-    services: [],
-    planned: [],
-    savings: 0,
-    incomes: [],
-    events: [],
-}
-
-function loadState(): BudgetState {
-    try {
-        const raw = localStorage.getItem(STORAGE_KEY)
-        if (!raw) return { ...DEFAULT_STATE }
-        const parsed = JSON.parse(raw)
-        return { ...DEFAULT_STATE, ...parsed }
-    } catch {
-        return { ...DEFAULT_STATE }
-    }
-}
+import { loadBudgetState, saveBudgetState } from './budget-storage'
+import { syncBudgetIntoPf } from './pf-bridge'
 
 function uid(): string {
     return Math.random().toString(36).slice(2, 9)
 }
 
 export function useBudget() {
-    const [state, setStateRaw] = useState<BudgetState>(loadState)
+    const [state, setStateRaw] = useState<BudgetState>(loadBudgetState)
     const stateRef = useRef(state)
 
     const persist = useCallback((next: BudgetState) => {
         stateRef.current = next
         setStateRaw(next)
-        const { fxLoading: _, ...toSave } = next
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(toSave))
-        localStorage.setItem(FINANCE_EXPRESS_UPDATED_AT_STORAGE_KEY, new Date().toISOString())
-        // Debounced push to D1 for cross-device sync
-        syncBudgetPush()
+        saveBudgetState(next)
+        syncBudgetIntoPf(next).catch(error => console.warn('[finanzas-express] pf sync failed', error))
     }, [])
 
     const update = useCallback((fn: (s: BudgetState) => BudgetState) => {
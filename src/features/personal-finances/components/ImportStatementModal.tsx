@@ -3,8 +3,13 @@ import { AlertTriangle, Check, FileUp, UploadCloud, X } from 'lucide-react'
 import { Switch } from '@/components/ui/switch'
 import { useToast } from '@/components/ui/toast'
 import type { PFCreditCard, PFCardConsumption } from '@/db/schema'
-import type { CreateConsumptionInput } from '../services/pfStore'
-import { parseVisaStatement, type ParsedStatement } from '@/domain/personal-finance/pdf/parseVisaStatement'
+import { getConsumptionsByCard, type CreateConsumptionInput } from '../services/pfStore'
+import {
+    buildStatementImportRows,
+    parsePdfStatement,
+    toConsumptionInputs,
+    type ParsedStatement,
+} from '../services/statementImport'
 
 interface ImportStatementModalProps {
     open: boolean
@@ -37,18 +42,6 @@ function formatMetaDate(dateISO?: string): string {
     })
 }
 
-function normalizeKey(value: string): string {
-    return value.replace(/\s+/g, ' ').trim().toUpperCase()
-}
-
-function buildConsumptionKey(dateISO: string, amount: number, description: string): string {
-    return `${dateISO}|${amount}|${normalizeKey(description)}`
-}
-
-function buildPurchaseId(index: number, dateISO: string, amount: number, description: string): string {
-    return `${index}-${dateISO}-${amount}-${normalizeKey(description)}`
-}
-
 export function ImportStatementModal({
     open,
     card,
@@ -87,6 +80,9 @@ function ImportStatementModalInner({
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
     const [groupInstallments, setGroupInstallments] = useState(true)
     const [ignoreUsd, setIgnoreUsd] = useState(false)
+    const [includeFees, setIncludeFees] = useState(false)
+    const [storedConsumptions, setStoredConsumptions] = useState<PFCardConsumption[]>([])
+    const [parseError, setParseError] = useState<string | null>(null)
     const [forceImport, setForceImport] = useState(false)
     const [mapping, setMapping] = useState({
         date: 'Fecha',
@@ -103,6 +99,9 @@ function ImportStatementModalInner({
         setSelectedIds(new Set())
         setGroupInstallments(true)
         setIgnoreUsd(false)
+        setIncludeFees(false)
+        setStoredConsumptions([])
+        setParseError(null)
         setForceImport(false)
         setMapping({
             date: 'Fecha',
@@ -125,28 +124,25 @@ function ImportStatementModalInner({
 
     const handleFile = async (file: File) => {
         setIsParsing(true)
+        setParseError(null)
         try {
-            const result = await parseVisaStatement(file)
+            const [result, cardConsumptions] = await Promise.all([
+                parsePdfStatement(file),
+                getConsumptionsByCard(card.id),
+            ])
             if (import.meta.env.DEV) {
                 console.info('[PF] Parsed statement', result)
             }
             setParsed(result)
-            const existingKeys = new Set(
-                existingConsumptions.map(c => buildConsumptionKey(c.purchaseDateISO, c.amount, c.description))
-            )
-            const initialSelection = new Set(
-                result.purchases
-                    .map((purchase, index) => ({
-                        id: buildPurchaseId(index, purchase.date, purchase.amount, purchase.description),
-                        isDuplicate: existingKeys.has(
-                            buildConsumptionKey(purchase.date, purchase.amount, purchase.description)
-                        ),
-                    }))
-                    .filter(item => !item.isDuplicate)
-                    .map(item => item.id)
-            )
-            setSelectedIds(initialSelection)
+            setStoredConsumptions(cardConsumptions)
+            const initialRows = buildStatementImportRows(result, [...cardConsumptions, ...existingConsumptions], {
+                includeFees: true,
+            })
+            setSelectedIds(new Set(initialRows.filter(row => !row.isDuplicate).map(row => row.id)))
             setStep(2)
+        } catch (error) {
+            console.error('[PF] Statement parse failed', error)
+            setParseError('No pudimos leer el PDF. Verifica que sea un resumen de tarjeta original.')
         } finally {
             setIsParsing(false)
         }
@@ -191,17 +187,8 @@ function ImportStatementModalInner({
 
     const purchaseRows = useMemo(() => {
         if (!parsed) return []
-        const existingKeys = new Set(
-            existingConsumptions.map(c => buildConsumptionKey(c.purchaseDateISO, c.amount, c.description))
-        )
-        return parsed.purchases.map((purchase, index) => {
-            const id = buildPurchaseId(index, purchase.date, purchase.amount, purchase.description)
-            const isDuplicate = existingKeys.has(
-                buildConsumptionKey(purchase.date, purchase.amount, purchase.description)
-            )
-            return { ...purchase, id, isDuplicate }
-        })
-    }, [parsed, existingConsumptions])
+        return buildStatementImportRows(parsed, [...storedConsumptions, ...existingConsumptions], { includeFees })
+    }, [parsed, storedConsumptions, existingConsumptions, includeFees])
 
     const selectedPurchases = useMemo(() => {
         return purchaseRows.filter(row => selectedIds.has(row.id))
@@ -237,15 +224,7 @@ function ImportStatementModalInner({
             return
         }
         if (step === 3) {
-            const transactions: CreateConsumptionInput[] = filteredPurchases.map(t => ({
-                cardId: card.id,
-                description: t.description,
-                amount: t.amount,
-                purchaseDateISO: t.date,
-                currency: t.currency,
-                installmentTotal: t.installments?.total,
-                createAllInstallments: t.installments?.total ? groupInstallments : undefined,
-            }))
+            const transactions = toConsumptionInputs(filteredPurchases, card.id, groupInstallments)
             await onImport(transactions, card)
             toast({
                 title: 'Consumos importados',
@@ -344,6 +323,9 @@ function ImportStatementModalInner({
                                 {isParsing && (
                                     <div className="text-xs text-slate-500">Procesando PDF...</div>
                                 )}
+                                {parseError && (
+                                    <div className="text-xs text-rose-400">{parseError}</div>
+                                )}
                             </div>
                         )}
 
@@ -358,6 +340,9 @@ function ImportStatementModalInner({
                                             <div className="text-xs text-slate-500 uppercase font-mono">Emisor</div>
                                             <div className="text-sm text-white font-medium">
                                                 {parsed.meta.issuer ?? 'UNKNOWN'}
+                                                {parsed.meta.bank && (
+                                                    <span className="text-slate-400"> · {parsed.meta.bank}</span>
+                                                )}
                                             </div>
                                             {parsed.meta.last4 && (
                                                 <div className="text-[10px] text-slate-500 font-mono">
@@ -393,6 +378,11 @@ function ImportStatementModalInner({
                                                 ? arsFormatter.format(parsed.meta.currentBalance)
                                                 : '-'}
                                         </div>
+                                        {!!parsed.meta.currentBalanceUsd && (
+                                            <div className="text-xs text-slate-400 font-mono">
+                                                USD {arsFormatter.format(parsed.meta.currentBalanceUsd)}
+                                            </div>
+                                        )}
                                     </div>
                                     <div className="bg-slate-900/50 p-4 rounded-xl border border-white/5">
                                         <div className="text-xs text-slate-500 uppercase font-mono">Pago minimo</div>
@@ -435,6 +425,13 @@ function ImportStatementModalInner({
                                             <p className="text-xs text-slate-400">Solo importar ARS</p>
                                         </div>
                                     </div>
+                                    <div className="flex items-center gap-3">
+                                        <Switch checked={includeFees} onCheckedChange={setIncludeFees} />
+                                        <div>
+                                            <p className="text-sm text-white">Incluir cargos</p>
+                                            <p className="text-xs text-slate-400">Comisiones, IVA y percepciones</p>
+                                        </div>
+                                    </div>
                                 </div>
 
                                 <div className="bg-slate-900/40 border border-white/5 rounded-xl p-4">
@@ -516,6 +513,14 @@ function ImportStatementModalInner({
                                                     </div>
                                                     <div className="col-span-5 text-slate-300 truncate pr-2">
                                                         {item.description}
+                                                        {item.installments && (
+                                                            <span className="ml-2 text-[10px] font-mono text-slate-500">
+                                                                C.{item.installments.current}/{item.installments.total}
+                                                            </span>
+                                                        )}
+                                                        {item.kind === 'fee' && (
+                                                            <span className="ml-2 text-[10px] font-mono text-slate-500">CARGO</span>
+                                                        )}
                                                     </div>
                                                     <div className="col-span-2 text-right font-mono text-slate-200">
                                                         {item.currency === 'USD' ? 'USD ' : '$ '}
@@ -22,6 +22,7 @@ import {
 } from '../utils/dateHelpers'
 import { computeMonthlyKpis, type MonthlyKpis } from '../models/kpis'
 import { expandRecurringConsumptions } from '../utils/recurrence'
+import { syncBudgetIntoPf } from '@/features/finanzas-express/pf-bridge'
 
 export interface CardStatementData {
     card: PFCreditCard
@@ -66,6 +67,8 @@ export function usePersonalFinancesV3(mepSell?: number | null) {
             await store.migrateToV3()
             await store.migrateConsumptionsToV4()
             await store.migrateDebtsToV5()
+            // Finanzas Express items and payments live in the same tables
+            await syncBudgetIntoPf().catch(error => console.warn('[personal-finances] budget sync failed', error))
             await refreshAll()
             setLoading(false)
         }
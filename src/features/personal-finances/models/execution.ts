@@ -25,6 +25,7 @@ export function buildFixedExpenseExecutions(
         amount: number
         accountId?: string
         movementId?: string
+        budgetEventTs?: number
     }
 ): NonNullable<PFFixedExpense['executions']> {
     const existing = expense.executions || []
@@ -36,6 +37,7 @@ export function buildFixedExpenseExecutions(
             amount: params.amount,
             accountId: params.accountId,
             movementId: params.movementId,
+            budgetEventTs: params.budgetEventTs,
         },
     ]
 }
@@ -21,6 +21,8 @@ export interface CreateMovementParams {
 }
 
 export interface FinanceExecutionMovementParams {
+    /** Fixed id so a payment replayed on another device reuses its movement */
+    id?: string
     kind: 'income' | 'expense' | 'credit_card_statement' | 'loan_installment'
     accountId: string
     date: string
@@ -87,7 +89,7 @@ export async function createMovementFromFinanceExecution(
     }
 
     const movement: Movement = {
-        id: crypto.randomUUID(),
+        id: params.id ?? crypto.randomUUID(),
         datetimeISO: params.date,
         type: movementType,
         accountId: params.accountId,
@@ -7,6 +7,7 @@ import { buildFixedExpenseExecutions, buildIncomeExecutionUpdate } from '../mode
 import {
     addMonthsToYearMonth,
     getCurrentYearMonth,
+    getInstallmentSchedule,
     getStatementForTransaction,
     getStatementClosingInMonth,
 } from '../utils/dateHelpers'
@@ -324,6 +325,8 @@ export interface CreateConsumptionInput {
     currency?: 'ARS' | 'USD'
     category?: string
     installmentTotal?: number
+    /** Installment billed on the purchase date's statement (e.g. 3 for a "cuota 3/6" line); earlier ones are not created */
+    installmentStart?: number
     createAllInstallments?: boolean
     isRecurring?: boolean
 }
@@ -341,23 +344,19 @@ export async function createConsumption(
     input: CreateConsumptionInput,
     card: PFCreditCard
 ): Promise<PFCardConsumption[]> {
-    const { cardId, description, amount, purchaseDateISO, currency, category, installmentTotal, createAllInstallments, isRecurring } = input
+    const { cardId, description, amount, purchaseDateISO, currency, category, installmentTotal, installmentStart, createAllInstallments, isRecurring } = input
 
-    // Calculate which statement this consumption belongs to
-    const baseStatement = getStatementForTransaction(card.closingDay, card.dueDay, purchaseDateISO)
     const created: PFCardConsumption[] = []
 
     const installments = installmentTotal && installmentTotal > 1 ? installmentTotal : 1
     const amountPerInstallment = amount / installments
+    // For installments, each goes to the next month's statement
+    const schedule = getInstallmentSchedule(card.closingDay, card.dueDay, purchaseDateISO, installments, installmentStart)
 
-    for (let i = 0; i < installments; i++) {
+    for (const [i, { index, closingYearMonth: closingYM, dueYearMonth: dueYM }] of schedule.entries()) {
         // Only create first or all if requested
         if (i > 0 && !createAllInstallments) break
 
-        // For installments, each goes to the next month's statement
-        const closingYM = i === 0 ? baseStatement.closingYearMonth : addMonthsToYearMonth(baseStatement.closingYearMonth, i)
-        const dueYM = i === 0 ? baseStatement.dueYearMonth : addMonthsToYearMonth(baseStatement.dueYearMonth, i)
-
         const cons: PFCardConsumption = {
             id: crypto.randomUUID(),
             cardId,
@@ -368,7 +367,7 @@ export async function createConsumption(
             closingYearMonth: closingYM,
             postedYearMonth: dueYM,
             installmentTotal: installments > 1 ? installments : undefined,
-            installmentIndex: installments > 1 ? i + 1 : undefined,
+            installmentIndex: installments > 1 ? index : undefined,
             category,
             // Recurrence: Only if no installments
             isRecurring: (isRecurring && installments === 1) ? true : undefined,
@@ -559,6 +558,7 @@ export async function markStatementUnpaid(statementId: string): Promise<void> {
         status: 'UNPAID',
         paidAt: undefined,
         paymentMovementId: undefined,
+        paymentBudgetEventTs: undefined,
         updatedAt: new Date().toISOString(),
     })
 }
@@ -790,6 +790,7 @@ export async function executeFixedExpense(
         amount: number
         accountId?: string
         movementId?: string
+        budgetEventTs?: number
     }
 ): Promise<void> {
     const expense = await db.pfFixedExpenses.get(id)
@@ -798,6 +799,17 @@ export async function executeFixedExpense(
     await db.pfFixedExpenses.update(id, { executions: next })
 }
 
+/**
+ * Drop the execution of a month (reverse payment).
+ */
+export async function clearFixedExpenseExecution(id: string, yearMonth: string): Promise<void> {
+    const expense = await db.pfFixedExpenses.get(id)
+    if (!expense?.executions) return
+    await db.pfFixedExpenses.update(id, {
+        executions: expense.executions.filter(entry => entry.yearMonth !== yearMonth),
+    })
+}
+
 export async function recordDebtPayment(
     id: string,
     params: {
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { toConsumptionInputs, type StatementImportRow } from './statementImport'
+import { getInstallmentSchedule, getStatementForTransaction } from '../utils/dateHelpers'
+
+function row(overrides: Partial<StatementImportRow> = {}): StatementImportRow {
+    return {
+        id: '0-row',
+        kind: 'purchase',
+        date: '2026-03-10',
+        description: 'FRAVEGA',
+        amount: 10000,
+        currency: 'ARS',
+        installments: null,
+        confidence: 'high',
+        isDuplicate: false,
+        ...overrides,
+    }
+}
+
+describe('toConsumptionInputs', () => {
+    it('starts an installment line at its current installment', () => {
+        const [input] = toConsumptionInputs([row({ installments: { current: 3, total: 6 } })], 'card-1', true)
+
+        expect(input.amount).toBe(60000)
+        expect(input.installmentTotal).toBe(6)
+        expect(input.installmentStart).toBe(3)
+        expect(input.createAllInstallments).toBe(true)
+        expect(input.purchaseDateISO).toBe('2026-03-10')
+
+        // Installment 3 is billed on the line's own statement, 4-6 on the next ones
+        const statement = getStatementForTransaction(25, 5, input.purchaseDateISO)
+        const schedule = getInstallmentSchedule(25, 5, input.purchaseDateISO, input.installmentTotal!, input.installmentStart)
+        expect(schedule.map(s => s.index)).toEqual([3, 4, 5, 6])
+        expect(schedule[0].closingYearMonth).toBe(statement.closingYearMonth)
+        expect(schedule[3].closingYearMonth).toBe('2026-06')
+    })
+
+    it('leaves single-payment lines and fees without a schedule', () => {
+        const [purchase, fee] = toConsumptionInputs([
+            row(),
+            row({ kind: 'fee', description: 'IVA', amount: 210 }),
+        ], 'card-1', true)
+
+        expect(purchase).toMatchObject({ amount: 10000, installmentTotal: undefined, installmentStart: undefined })
+        expect(fee).toMatchObject({ amount: 210, category: 'Comisiones e impuestos', createAllInstallments: undefined })
+    })
+})
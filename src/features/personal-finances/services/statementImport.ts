@@ -1,74 +1,123 @@
-export type ParsedTransactionStatus = 'ok' | 'warn' | 'dup'
+import type { PFCardConsumption } from '@/db/schema'
+import { parseStatement, type ParsedStatement } from '@/domain/personal-finance/pdf'
+import type { CreateConsumptionInput } from './pfStore'
 
-export interface ParsedTransaction {
+export type { ParsedStatement }
+
+export type StatementImportRowKind = 'purchase' | 'fee'
+
+export interface StatementImportRow {
     id: string
-    purchaseDateISO: string
+    kind: StatementImportRowKind
+    date: string
     description: string
+    /** Amount as printed on the statement (per installment for installment purchases) */
     amount: number
     currency: 'ARS' | 'USD'
-    status: ParsedTransactionStatus
-    installmentTotal?: number
+    installments?: { current: number; total: number } | null
+    confidence: 'high' | 'medium' | 'low'
+    isDuplicate: boolean
 }
 
-export interface ParsedStatement {
-    issuer: string
-    periodLabel: string
-    totalARS: number
-    totalUSD: number
-    transactions: ParsedTransaction[]
+export async function parsePdfStatement(file: File): Promise<ParsedStatement> {
+    return parseStatement(file)
 }
 
-export async function parsePdfStatement(file: File): Promise<ParsedStatement> {
-    // TODO: Replace with real PDF parser integration.
-    void file
-    await new Promise(resolve => setTimeout(resolve, 600))
+function normalizeKey(value: string): string {
+    return value
+        .toUpperCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^A-Z0-9]/g, '')
+}
+
+/**
+ * Stored consumptions keep the amount per installment, so statement lines
+ * (one installment each) and existing rows compare on the same basis.
+ */
+function buildConsumptionKey(
+    dateISO: string,
+    amount: number,
+    currency: string,
+    description: string,
+    installmentTotal?: number
+): string {
+    return `${dateISO}|${currency}|${amount.toFixed(2)}|${installmentTotal ?? 1}|${normalizeKey(description)}`
+}
+
+/**
+ * Flatten a parsed statement into importable rows (purchases plus, optionally,
+ * fees and taxes) and flag the ones already present in pfConsumptions.
+ */
+export function buildStatementImportRows(
+    parsed: ParsedStatement,
+    existingConsumptions: PFCardConsumption[],
+    options: { includeFees?: boolean } = {}
+): StatementImportRow[] {
+    const existingKeys = new Set(
+        existingConsumptions.map(c =>
+            buildConsumptionKey(c.purchaseDateISO, c.amount, c.currency, c.description, c.installmentTotal)
+        )
+    )
+
+    const purchases = parsed.purchases.map(p => ({
+        kind: 'purchase' as const,
+        date: p.date,
+        description: p.description,
+        amount: p.amount,
+        currency: p.currency,
+        installments: p.installments,
+        confidence: p.confidence,
+    }))
+
+    const fallbackDate = parsed.meta.periodClose ?? new Date().toISOString().slice(0, 10)
+    const fees = options.includeFees
+        ? parsed.otherMovements
+            .filter(m => m.type === 'FEE' || m.type === 'TAX')
+            .map(m => ({
+                kind: 'fee' as const,
+                date: m.date ?? fallbackDate,
+                description: m.description,
+                amount: m.amount,
+                currency: m.currency,
+                installments: null,
+                confidence: m.confidence,
+            }))
+        : []
+
+    return [...purchases, ...fees].map((row, index) => {
+        const key = buildConsumptionKey(row.date, row.amount, row.currency, row.description, row.installments?.total)
+        return {
+            ...row,
+            id: `${index}-${key}`,
+            isDuplicate: existingKeys.has(key),
+        }
+    })
+}
 
-    return {
-        issuer: 'Santander Rio',
-        periodLabel: 'Ene 2026',
-        totalARS: 102_212,
-        totalUSD: 12.5,
-        transactions: [
-            {
-                id: crypto.randomUUID(),
-                purchaseDateISO: '2026-01-10',
-                description: 'SUPERMERCADOS DIA',
-                amount: 15200,
-                currency: 'ARS',
-                status: 'ok',
-            },
-            {
-                id: crypto.randomUUID(),
-                purchaseDateISO: '2026-01-11',
-                description: 'PAYPAL *EBAY',
-                amount: 4500,
-                currency: 'ARS',
-                status: 'warn',
-            },
-            {
-                id: crypto.randomUUID(),
-                purchaseDateISO: '2026-01-12',
-                description: 'AXION ENERGY',
-                amount: 22000,
-                currency: 'ARS',
-                status: 'ok',
-            },
-            {
-                id: crypto.randomUUID(),
-                purchaseDateISO: '2026-01-12',
-                description: 'AXION ENERGY',
-                amount: 22000,
-                currency: 'ARS',
-                status: 'dup',
-            },
-            {
-                id: crypto.randomUUID(),
-                purchaseDateISO: '2026-01-14',
-                description: 'MERCADOPAGO',
-                amount: 1200,
-                currency: 'USD',
-                status: 'ok',
-            },
-        ],
-    }
+/**
+ * Convert selected rows to consumption inputs. Installment lines carry the
+ * per-installment amount, while createConsumption expects the purchase total.
+ * A "cuota N/M" line is installment N on this statement, so the schedule
+ * starts there instead of billing installment 1 again.
+ */
+export function toConsumptionInputs(
+    rows: StatementImportRow[],
+    cardId: string,
+    groupInstallments: boolean
+): CreateConsumptionInput[] {
+    return rows.map(row => {
+        const installmentTotal = row.installments?.total
+        return {
+            cardId,
+            description: row.description,
+            amount: installmentTotal ? row.amount * installmentTotal : row.amount,
+            purchaseDateISO: row.date,
+            currency: row.currency,
+            category: row.kind === 'fee' ? 'Comisiones e impuestos' : undefined,
+            installmentTotal,
+            installmentStart: installmentTotal ? row.installments?.current : undefined,
+            createAllInstallments: installmentTotal ? groupInstallments : undefined,
+        }
+    })
 }
@@ -282,6 +282,31 @@ export function calculatePostedYearMonth(
     return statement.dueYearMonth
 }
 
+/**
+ * Statements an installment purchase is billed on, one month apart. Installment
+ * `start` lands on the purchase date's statement; earlier ones are left out
+ * (they were billed on statements before it).
+ */
+export function getInstallmentSchedule(
+    closingDay: number,
+    dueDay: number,
+    purchaseDateISO: string,
+    total: number,
+    start = 1
+): Array<{ index: number; closingYearMonth: string; dueYearMonth: string }> {
+    const base = getStatementForTransaction(closingDay, dueDay, purchaseDateISO)
+    const first = Math.min(Math.max(start, 1), Math.max(total, 1))
+    const schedule: Array<{ index: number; closingYearMonth: string; dueYearMonth: string }> = []
+    for (let index = first; index <= Math.max(total, 1); index++) {
+        schedule.push({
+            index,
+            closingYearMonth: addMonthsToYearMonth(base.closingYearMonth, index - first),
+            dueYearMonth: addMonthsToYearMonth(base.dueYearMonth, index - first),
+        })
+    }
+    return schedule
+}
+
 /**
  * @deprecated Use getStatementDueInMonth instead
  * Get closing and due dates for display, given a target yearMonth (payment month).
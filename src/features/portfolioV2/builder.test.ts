@@ -330,3 +330,98 @@ describe('portfolioV2 builder - rubro classification', () => {
         expect(portfolio.kpis.totalUsd).toBeCloseTo(expectedUsd, 10)
     })
 })
+
+describe('portfolioV2 builder - cauciones', () => {
+    it('lists cauciones in plazos per broker, with the tomadora as a debt', () => {
+        const broker: Account = { id: 'iol', name: 'InvertirOnline', kind: 'BROKER', defaultCurrency: 'ARS' }
+        const base = {
+            accountId: broker.id,
+            tna: 36.5,
+            termDays: 7,
+            startDate: '2026-02-02T14:00:00.000Z',
+            maturityDate: '2026-02-09T14:00:00.000Z',
+            feesARS: 0,
+            daysElapsed: 3,
+            daysRemaining: 4,
+            status: 'active' as const,
+        }
+
+        const portfolio = buildPortfolioV2({
+            groupedRows: {},
+            accounts: [broker],
+            fxRates,
+            movements: [],
+            cauciones: [
+                { ...base, id: 'c1', side: 'colocadora', principalARS: 100_000, interestARS: 700, totalARS: 100_700, accruedARS: 300 },
+                { ...base, id: 't1', side: 'tomadora', principalARS: 50_000, interestARS: 350, totalARS: 50_350, accruedARS: 150 },
+            ],
+        })
+
+        const plazos = portfolio.rubros.find(r => r.id === 'plazos')!
+        const provider = plazos.providers.find(p => p.id === 'caucion-iol')!
+        expect(provider.items.map(i => [i.kind, i.valArs])).toEqual([
+            ['caucion', 100_300],
+            ['caucion', -50_150],
+        ])
+        expect(provider.items[1].pfMeta?.expectedInterestArs).toBe(-350)
+        expect(plazos.totals.ars).toBe(50_150)
+        expect(plazos.pnl.ars).toBe(150)
+    })
+})
+
+describe('portfolioV2 builder - valuation policy', () => {
+    const broker: Account = { id: 'iol', name: 'InvertirOnline', kind: 'BROKER', defaultCurrency: 'ARS' }
+    const groupedRows = {
+        [broker.id]: {
+            accountName: broker.name,
+            metrics: [
+                makeMetrics({
+                    accountId: broker.id,
+                    accountName: broker.name,
+                    instrumentId: 'cedear-aapl',
+                    symbol: 'AAPL',
+                    category: 'CEDEAR',
+                    quantity: 2,
+                    valArs: 12_100,
+                    valUsdEq: 10,
+                }),
+            ],
+            totals: { valArs: 12_100, valUsd: 10, pnlArs: 0, pnlUsd: 0 },
+        },
+    }
+
+    const cedearItem = (portfolio: ReturnType<typeof buildPortfolioV2>) =>
+        portfolio.rubros.find(r => r.id === 'cedears')!.providers[0].items[0]
+
+    it('values an asset class with the global default dollar', () => {
+        const portfolio = buildPortfolioV2({
+            groupedRows: groupedRows as any,
+            accounts: [broker],
+            fxRates,
+            movements: [],
+            valuationDefaults: { CEDEAR: 'oficial', BOND: 'mep', FCI: 'oficial', CRYPTO: 'cripto', STABLE: 'cripto' },
+        })
+
+        expect(cedearItem(portfolio).fxMeta).toEqual({ family: 'Oficial', side: 'C', rate: 1010 })
+        expect(cedearItem(portfolio).valUsd).toBeCloseTo(12_100 / 1010, 10)
+        expect(portfolio.valuationPolicy?.defaults.CEDEAR).toBe('oficial')
+    })
+
+    it('applies per-account overrides stored on AccountSettings over the defaults', () => {
+        const portfolio = buildPortfolioV2({
+            groupedRows: groupedRows as any,
+            accounts: [broker],
+            fxRates,
+            movements: [],
+            accountSettings: [{
+                id: broker.id,
+                fxOverrides: { cedear: { family: 'Cripto', side: 'V' } },
+                updatedAt: '2026-02-05T00:00:00.000Z',
+            }],
+            valuationDefaults: { CEDEAR: 'oficial', BOND: 'mep', FCI: 'oficial', CRYPTO: 'cripto', STABLE: 'cripto' },
+        })
+
+        expect(cedearItem(portfolio).fxMeta).toEqual({ family: 'Cripto', side: 'V', rate: 1100 })
+        expect(portfolio.valuationPolicy?.overrides).toEqual({ 'iol:cedear': { family: 'Cripto', side: 'V' } })
+    })
+})
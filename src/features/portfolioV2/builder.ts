@@ -29,9 +29,20 @@ import type {
 import type { Account, Movement, FxRates } from '@/domain/types'
 import type { AssetRowMetrics } from '@/domain/assets/types'
 import type { PFPosition } from '@/domain/pf/types'
+import type { CaucionPosition } from '@/domain/caucion'
 import type { AccountSettings, RubroOverride } from '@/db/schema'
-import type { FxOverride, FxOverridesMap } from './fxOverrides'
+import {
+    DEFAULT_VALUATION_DEFAULTS,
+    buildFxOverridesMap,
+    fxKeyToFamily,
+    isValuationCategory,
+    type FxOverride,
+    type ValuationDefaults,
+    type ValuationPolicy,
+} from '@/domain/fx/valuation-policy'
 import { buildFifoLots } from '@/domain/portfolio/fifo'
+import { getCedearMeta } from '@/domain/cedears/master'
+import { resolveCedearRatio, type CorporateAction } from '@/domain/corporate-actions'
 import type { PriceResult } from '@/domain/prices/price-result'
 
 // =============================================================================
@@ -75,6 +86,13 @@ const RUBRO_CONFIGS: RubroConfig[] = [
         fxPolicy: 'MEP',
         categories: ['CEDEAR'],
     },
+    {
+        id: 'renta_fija',
+        name: 'Renta fija',
+        icon: 'Landmark',
+        fxPolicy: 'MEP',
+        categories: ['BOND'],
+    },
     {
         id: 'crypto',
         name: 'Cripto',
@@ -330,29 +348,28 @@ function mapCategoryToKind(category: string): ItemKind {
             return 'fci'
         case 'PF':
             return 'plazo_fijo'
+        case 'BOND':
+            return 'bond'
         default:
             return 'cash_ars'
     }
 }
 
-/** Get default FX family for a given asset category */
-function getFxFamilyForCategory(category: string, account?: Account): FxMeta['family'] {
+/** Get default FX family for a given asset category (global valuation policy) */
+function getFxFamilyForCategory(
+    category: string,
+    account?: Account,
+    defaults: ValuationDefaults = DEFAULT_VALUATION_DEFAULTS
+): FxMeta['family'] {
     // For cash items, use account-based logic
     if (category === 'CASH_ARS' || category === 'CASH_USD') {
         return getFxFamilyForAccount(account)
     }
-    // Asset-specific FX families
-    switch (category) {
-        case 'CEDEAR':
-            return 'MEP'
-        case 'CRYPTO':
-        case 'STABLE':
-            return 'Cripto'
-        case 'FCI':
-        case 'PF':
-        default:
-            return 'Oficial'
+    // Asset-specific FX families (CEDEAR/BOND → MEP, CRYPTO/STABLE → Cripto, FCI → Oficial by default)
+    if (isValuationCategory(category)) {
+        return fxKeyToFamily(defaults[category])
     }
+    return 'Oficial'
 }
 
 function buildItemFromMetrics(
@@ -360,7 +377,7 @@ function buildItemFromMetrics(
     accountId: string,
     fxSnapshot?: FxRatesSnapshot,
     account?: Account,
-    fxOverrides?: FxOverridesMap,
+    policy?: ValuationPolicy,
     lastTrades?: Map<string, { unitPrice: number; asOfISO: string; tradeCurrency: Movement['tradeCurrency'] }>
 ): ItemV2 {
     const kind = mapCategoryToKind(metrics.category)
@@ -380,7 +397,7 @@ function buildItemFromMetrics(
             // CASH_ARS: ARS balance valued to USD → ARS→USD = Compra
             const isUsdToArs = kind === 'cash_usd'
             const overrideKey = `${accountId}:${kind}`
-            const manualOverride = fxOverrides?.[overrideKey]
+            const manualOverride = policy?.overrides[overrideKey]
             fxMeta = buildFxMeta(account, fxSnapshot, isUsdToArs, manualOverride)
 
             // CRITICAL FIX: Recalculate valArs/valUsd with the correct FX rate
@@ -402,7 +419,7 @@ function buildItemFromMetrics(
             // CEDEARs: priced in ARS, convert to USD using MEP
             // Crypto: priced in USD, convert to ARS using Cripto
             // FCI: priced in ARS (VCP), convert to USD using Oficial
-            const family = getFxFamilyForCategory(metrics.category, account)
+            const family = getFxFamilyForCategory(metrics.category, account, policy?.defaults)
 
             // Determine if this is a USD-native asset
             const isUsdNative = metrics.nativeCurrency === 'USD' || metrics.category === 'CRYPTO' || metrics.category === 'STABLE'
@@ -414,7 +431,7 @@ function buildItemFromMetrics(
 
             // Check for manual override
             const overrideKey = `${accountId}:${kind}`
-            const manualOverride = fxOverrides?.[overrideKey]
+            const manualOverride = policy?.overrides[overrideKey]
 
             if (manualOverride) {
                 const manualRate = getFxRate(fxSnapshot, manualOverride.family, manualOverride.side)
@@ -522,6 +539,7 @@ function buildItemFromMetrics(
         accountId,
         instrumentId: metrics.instrumentId,
         fxMeta,
+        nativeCurrency: metrics.nativeCurrency === 'USD' || metrics.category === 'CRYPTO' || metrics.category === 'STABLE' ? 'USD' : 'ARS',
         priceMeta,
         priceResult,
     }
@@ -535,13 +553,13 @@ function buildProviderFromGroup(
     settingsMap: Map<string, AccountSettings>,
     account?: Account,
     fxSnapshot?: FxRatesSnapshot,
-    fxOverrides?: FxOverridesMap,
+    policy?: ValuationPolicy,
     lastTrades?: Map<string, { unitPrice: number; asOfISO: string; tradeCurrency: Movement['tradeCurrency'] }>
 ): ProviderV2 | null {
     // Filter out zero-balance items
     const filteredMetrics = metrics.filter(m => hasSignificantValue(m.valArs ?? 0, m.quantity, m.category))
     if (filteredMetrics.length === 0) return null
-    const items: ItemV2[] = filteredMetrics.map(m => buildItemFromMetrics(m, accountId, fxSnapshot, account, fxOverrides, lastTrades))
+    const items: ItemV2[] = filteredMetrics.map(m => buildItemFromMetrics(m, accountId, fxSnapshot, account, policy, lastTrades))
     const displayName = getDisplayName(accountId, accountName, settingsMap)
 
     // Attach yield metadata for remunerated ARS cash (so ItemRow can render TNA chip)
@@ -609,8 +627,9 @@ export function buildRubros(
     pfData?: PFData,
     fxSnapshot?: FxRatesSnapshot,
     accountSettings: AccountSettings[] = [],
-    fxOverrides?: FxOverridesMap,
-    lastTrades?: Map<string, { unitPrice: number; asOfISO: string; tradeCurrency: Movement['tradeCurrency'] }>
+    policy?: ValuationPolicy,
+    lastTrades?: Map<string, { unitPrice: number; asOfISO: string; tradeCurrency: Movement['tradeCurrency'] }>,
+    cauciones: CaucionPosition[] = []
 ): RubroV2[] {
     const rubros: RubroV2[] = []
     const accountMap = new Map(accounts.map(a => [a.id, a]))
@@ -641,12 +660,12 @@ export function buildRubros(
 
                 // Convert to wallet_yield items
                 const yieldItems: ItemV2[] = filteredCashItems.map(m => {
-                    const base = buildItemFromMetrics(m, accountId, fxSnapshot, account, fxOverrides, lastTrades)
+                    const base = buildItemFromMetrics(m, accountId, fxSnapshot, account, policy, lastTrades)
                     const yieldMeta = buildYieldMeta(accountId, account, settingsMap)
 
                     // If the item is ARS cash, allow FX override keyed by wallet_yield as well (UI may target that kind).
                     if (fxSnapshot && m.category === 'CASH_ARS') {
-                        const manual = fxOverrides?.[`${accountId}:wallet_yield`]
+                        const manual = policy?.overrides[`${accountId}:wallet_yield`]
                         if (manual) {
                             const fxMeta = buildFxMeta(account, fxSnapshot, false, manual)
                             const qty = m.quantity ?? 0
@@ -692,8 +711,8 @@ export function buildRubros(
             }
         }
         // Special handling for Plazos Fijos from pfData
-        else if (config.id === 'plazos' && pfData) {
-            const allPf = [...pfData.active, ...pfData.matured]
+        else if (config.id === 'plazos' && (pfData || cauciones.length > 0)) {
+            const allPf = pfData ? [...pfData.active, ...pfData.matured] : []
 
             // Group by bank
             const byBank = new Map<string, PFPosition[]>()
@@ -762,6 +781,68 @@ export function buildRubros(
                 rubroTotals.ars += bankTotal
                 rubroTotals.usd += bankTotal / oficialSell
             }
+
+            // Cauciones, one provider per broker. Valued at principal + accrued
+            // interest net of fees; a tomadora is a debt and counts negative.
+            const caucionesByAccount = new Map<string, CaucionPosition[]>()
+            for (const c of cauciones) {
+                if (!caucionesByAccount.has(c.accountId)) caucionesByAccount.set(c.accountId, [])
+                caucionesByAccount.get(c.accountId)!.push(c)
+            }
+
+            for (const [accountId, positions] of caucionesByAccount) {
+                const caucionFxMeta: FxMeta | undefined = fxSnapshot
+                    ? { family: 'Oficial', side: 'V', rate: oficialSell }
+                    : undefined
+
+                const items: ItemV2[] = positions.map(c => {
+                    const sign = c.side === 'colocadora' ? 1 : -1
+                    const netInterest = c.totalARS - c.principalARS
+                    const valArs = sign * (c.principalARS + c.accruedARS)
+                    return {
+                        id: c.id,
+                        kind: 'caucion' as ItemKind,
+                        symbol: 'CAUCION',
+                        label: `Caución ${c.side} ${c.termDays}d`,
+                        valArs,
+                        valUsd: valArs / oficialSell,
+                        pnlArs: sign * c.accruedARS,
+                        pnlUsd: (sign * c.accruedARS) / oficialSell,
+                        accountId,
+                        pfMeta: {
+                            startDateISO: c.startDate,
+                            maturityDateISO: c.maturityDate,
+                            daysRemaining: c.daysRemaining,
+                            capitalArs: sign * c.principalARS,
+                            expectedInterestArs: sign * netInterest,
+                            expectedTotalArs: sign * c.totalARS,
+                        },
+                        yieldMeta: c.tna > 0 ? { tna: c.tna, tea: computeTEA(c.tna) } : undefined,
+                        fxMeta: caucionFxMeta,
+                    }
+                })
+
+                const totals = items.reduce((acc, it) => ({
+                    ars: acc.ars + it.valArs,
+                    usd: acc.usd + it.valUsd,
+                    pnlArs: acc.pnlArs + (it.pnlArs ?? 0),
+                    pnlUsd: acc.pnlUsd + (it.pnlUsd ?? 0),
+                }), { ars: 0, usd: 0, pnlArs: 0, pnlUsd: 0 })
+
+                providers.push({
+                    id: `caucion-${accountId}`,
+                    name: `Cauciones · ${getDisplayName(accountId, accountMap.get(accountId)?.name, settingsMap)}`,
+                    totals: { ars: totals.ars, usd: totals.usd },
+                    pnl: { ars: totals.pnlArs, usd: totals.pnlUsd },
+                    items,
+                    fxMeta: caucionFxMeta,
+                })
+
+                rubroTotals.ars += totals.ars
+                rubroTotals.usd += totals.usd
+                rubroPnl.ars += totals.pnlArs
+                rubroPnl.usd += totals.pnlUsd
+            }
         }
         // Standard category-based rubros (Wallets, CEDEARs, Crypto, FCI)
         else {
@@ -788,7 +869,7 @@ export function buildRubros(
                             settingsMap,
                             account,
                             fxSnapshot,
-                            fxOverrides,
+                            policy,
                             lastTrades
                         )
                         if (!provider) continue
@@ -812,7 +893,7 @@ export function buildRubros(
                         // Create provider with suffix to differentiate from main rubro
                         const providerName = getDisplayName(accountId, account?.name, settingsMap)
                         const items = cashMetrics.map(m => {
-                            const base = buildItemFromMetrics(m, accountId, fxSnapshot, account, fxOverrides, lastTrades)
+                            const base = buildItemFromMetrics(m, accountId, fxSnapshot, account, policy, lastTrades)
                             if (m.category === 'CASH_ARS') {
                                 return maybeAttachYieldMetaToArsCashItem(base, accountId, account, settingsMap)
                             }
@@ -877,7 +958,7 @@ export function buildRubros(
                             settingsMap,
                             account,
                             fxSnapshot,
-                            fxOverrides,
+                            policy,
                             lastTrades
                         )
                         if (!provider) continue
@@ -901,7 +982,7 @@ export function buildRubros(
                             settingsMap,
                             account,
                             fxSnapshot,
-                            fxOverrides,
+                            policy,
                             lastTrades
                         )
                         if (!provider) continue
@@ -933,7 +1014,7 @@ export function buildRubros(
                             settingsMap,
                             account,
                             fxSnapshot,
-                            fxOverrides,
+                            policy,
                             lastTrades
                         )
                         if (!provider) continue
@@ -957,7 +1038,7 @@ export function buildRubros(
                             settingsMap,
                             account,
                             fxSnapshot,
-                            fxOverrides,
+                            policy,
                             lastTrades
                         )
                         if (!provider) continue
@@ -987,7 +1068,7 @@ export function buildRubros(
                     settingsMap,
                     account,
                     fxSnapshot,
-                    fxOverrides,
+                    policy,
                     lastTrades
                 )
                 if (!provider) continue
@@ -1138,16 +1219,26 @@ export interface BuildPortfolioV2Input {
     fxRates: FxRates
     movements: Movement[]
     pfData?: PFData
+    /** Also carries the per-account FX overrides */
     accountSettings?: AccountSettings[]
-    fxOverrides?: FxOverridesMap
+    /** Global dollar per asset class (synced preference) */
+    valuationDefaults?: ValuationDefaults
+    /** Recorded ratio changes (movements are expected to be restated already) */
+    corporateActions?: CorporateAction[]
+    /** Open cauciones (active or awaiting settlement) */
+    cauciones?: CaucionPosition[]
 }
 
 export function buildPortfolioV2(input: BuildPortfolioV2Input): PortfolioV2 {
-    const { groupedRows, accounts, fxRates, movements, pfData, accountSettings = [], fxOverrides } = input
+    const { groupedRows, accounts, fxRates, movements, pfData, accountSettings = [], valuationDefaults, corporateActions = [], cauciones = [] } = input
 
     const fxSnapshot = buildFxSnapshot(fxRates)
     const lastTrades = buildLastTradeUnitPriceIndex(movements)
-    const rubros = buildRubros(groupedRows, accounts, pfData, fxSnapshot, accountSettings, fxOverrides, lastTrades)
+    const policy: ValuationPolicy = {
+        defaults: valuationDefaults ?? DEFAULT_VALUATION_DEFAULTS,
+        overrides: buildFxOverridesMap(accountSettings),
+    }
+    const rubros = buildRubros(groupedRows, accounts, pfData, fxSnapshot, accountSettings, policy, lastTrades, cauciones)
     const kpis = buildKPIs(rubros, accounts, fxSnapshot)
 
     // Debug guard rail: detect same (accountId + instrumentId/symbol) present in multiple rubros.
@@ -1251,6 +1342,7 @@ export function buildPortfolioV2(input: BuildPortfolioV2Input): PortfolioV2 {
                 bank: pf.bank,
                 alias: pf.alias,
                 status: maturityDate > now ? 'active' : 'matured',
+                depositType: pf.depositType,
                 capitalArs: pf.principalARS,
                 tna: pf.tna,
                 tea: pf.tea,
@@ -1263,6 +1355,12 @@ export function buildPortfolioV2(input: BuildPortfolioV2Input): PortfolioV2 {
                 expectedTotalArs: pf.expectedTotalARS,
                 accruedInterestArs: pf.termDays > 0 ? (pf.expectedInterestARS / pf.termDays) * daysElapsed : 0,
                 fxAtConstituteOficial: pf.initialFx,
+                uvaStart: pf.uvaStart,
+                uvaEnd: pf.uvaEnd,
+                uvaEndDate: pf.uvaEndDate,
+                precancelTna: pf.precancelTna,
+                precancelFromDays: pf.precancelFromDays,
+                precancelTotalArs: pf.precancelTotalARS,
             })
         }
     }
@@ -1295,9 +1393,12 @@ export function buildPortfolioV2(input: BuildPortfolioV2Input): PortfolioV2 {
                     : 0
                 const currentPriceUsd = mepSellRate > 0 ? currentPriceArs / mepSellRate : 0
 
-                // Find instrument for ratio info
-                const instrument = assetMovements[0]
-                const cedearRatio = (instrument as any)?.cedearRatio ?? 1
+                // Ratio: master list, overridden by the latest recorded ratio change
+                const cedearRatio = resolveCedearRatio(
+                    item.instrumentId,
+                    getCedearMeta(item.symbol)?.ratio ?? 1,
+                    corporateActions
+                )
 
                 // Map FIFO lots to CedearLotDetail
                 const lots: CedearLotDetail[] = fifoResult.lots.map((lot, idx) => {
@@ -1575,6 +1676,7 @@ export function buildPortfolioV2(input: BuildPortfolioV2Input): PortfolioV2 {
                 : undefined,
         },
         rubros,
+        valuationPolicy: policy,
         walletDetails,
         fixedDepositDetails,
         cedearDetails,
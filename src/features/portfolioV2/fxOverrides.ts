@@ -1,92 +1,94 @@
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { db } from '@/db'
+import { buildFxOverridesMap, type FxOverride, type FxOverridesMap } from '@/domain/fx/valuation-policy'
+import { useAccountSettings } from '@/hooks/useAccountSettings'
+import { markAccountSettingsModified } from '@/sync/remote-sync'
 import type { ItemKind } from './types'
 
-export type FxOverrideFamily = 'Oficial' | 'MEP' | 'Cripto'
-export type FxOverrideSide = 'C' | 'V'
+export type { FxOverride, FxOverrideFamily, FxOverrideSide, FxOverridesMap } from '@/domain/fx/valuation-policy'
 
-export interface FxOverride {
-    family: FxOverrideFamily
-    side: FxOverrideSide
-}
-
-export type FxOverridesMap = Record<string, FxOverride>
-
-const STORAGE_KEY = 'argfolio.fxOverrides.v1'
-const EVENT_NAME = 'argfolio:fxOverrides'
+// Overrides used to live only in this browser; moved to AccountSettings on first load
+const LEGACY_STORAGE_KEY = 'argfolio.fxOverrides.v1'
 
 export function buildFxOverrideKey(accountId: string, kind: ItemKind): string {
     return `${accountId}:${kind}`
 }
 
-function readFxOverrides(): FxOverridesMap {
-    try {
-        const raw = localStorage.getItem(STORAGE_KEY)
-        if (!raw) return {}
-        const parsed = JSON.parse(raw)
-        if (!parsed || typeof parsed !== 'object') return {}
-        return parsed as FxOverridesMap
-    } catch {
-        return {}
-    }
-}
-
-function writeFxOverrides(map: FxOverridesMap) {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(map))
-}
-
-function notifyFxOverridesChanged() {
-    window.dispatchEvent(new Event(EVENT_NAME))
-}
+let legacyMigration: Promise<boolean> | null = null
+
+/**
+ * Move the old localStorage overrides onto AccountSettings (kept when the
+ * account already has one for that kind). Resolves true if anything moved.
+ */
+export function migrateLegacyFxOverrides(): Promise<boolean> {
+    legacyMigration ??= (async () => {
+        let legacy: FxOverridesMap
+        try {
+            const raw = localStorage.getItem(LEGACY_STORAGE_KEY)
+            if (!raw) return false
+            legacy = JSON.parse(raw) ?? {}
+        } catch {
+            return false
+        }
 
-export function setFxOverrideLocal(
-    accountId: string,
-    kind: ItemKind,
-    override: FxOverride | null
-) {
-    const key = buildFxOverrideKey(accountId, kind)
-    const current = readFxOverrides()
-    if (override) current[key] = override
-    else delete current[key]
-    writeFxOverrides(current)
-    notifyFxOverridesChanged()
-}
+        const byAccount = new Map<string, Record<string, FxOverride>>()
+        for (const [key, override] of Object.entries(legacy)) {
+            const separator = key.lastIndexOf(':')
+            if (separator <= 0 || !override?.family || !override?.side) continue
+            const accountId = key.slice(0, separator)
+            const kinds = byAccount.get(accountId) ?? {}
+            kinds[key.slice(separator + 1)] = { family: override.family, side: override.side }
+            byAccount.set(accountId, kinds)
+        }
 
-export function clearFxOverrideLocal(accountId: string, kind: ItemKind) {
-    setFxOverrideLocal(accountId, kind, null)
+        const now = new Date().toISOString()
+        await db.transaction('rw', db.accountSettings, async () => {
+            for (const [accountId, kinds] of byAccount) {
+                const existing = await db.accountSettings.get(accountId)
+                await db.accountSettings.put({
+                    ...existing,
+                    id: accountId,
+                    fxOverrides: { ...kinds, ...existing?.fxOverrides },
+                    updatedAt: now,
+                })
+            }
+        })
+        localStorage.removeItem(LEGACY_STORAGE_KEY)
+        await markAccountSettingsModified(Array.from(byAccount.keys()))
+        return byAccount.size > 0
+    })()
+    return legacyMigration
 }
 
 export function useFxOverrides() {
-    const [overrides, setOverrides] = useState<FxOverridesMap>(() => readFxOverrides())
+    const queryClient = useQueryClient()
+    const { settings, getSettings, saveSettings } = useAccountSettings()
 
     useEffect(() => {
-        const onStorage = (e: StorageEvent) => {
-            if (e.key !== STORAGE_KEY) return
-            setOverrides(readFxOverrides())
-        }
+        migrateLegacyFxOverrides()
+            .then(moved => {
+                if (moved) queryClient.invalidateQueries({ queryKey: ['accountSettings'] })
+            })
+            .catch(error => console.warn('[fx-overrides] legacy migration failed', error))
+    }, [queryClient])
 
-        const onLocal = () => {
-            setOverrides(readFxOverrides())
-        }
-
-        window.addEventListener('storage', onStorage)
-        window.addEventListener(EVENT_NAME, onLocal as EventListener)
-        return () => {
-            window.removeEventListener('storage', onStorage)
-            window.removeEventListener(EVENT_NAME, onLocal as EventListener)
-        }
-    }, [])
+    const overrides = useMemo(() => buildFxOverridesMap(settings), [settings])
 
     const getOverride = useCallback((accountId: string, kind: ItemKind): FxOverride | undefined => {
         return overrides[buildFxOverrideKey(accountId, kind)]
     }, [overrides])
 
-    const setOverride = useCallback((accountId: string, kind: ItemKind, override: FxOverride | null) => {
-        setFxOverrideLocal(accountId, kind, override)
-    }, [])
+    const setOverride = useCallback(async (accountId: string, kind: ItemKind, override: FxOverride | null) => {
+        const next = { ...getSettings(accountId)?.fxOverrides }
+        if (override) next[kind] = override
+        else delete next[kind]
+        await saveSettings(accountId, { fxOverrides: next })
+    }, [getSettings, saveSettings])
 
     const clearOverride = useCallback((accountId: string, kind: ItemKind) => {
-        clearFxOverrideLocal(accountId, kind)
-    }, [])
+        return setOverride(accountId, kind, null)
+    }, [setOverride])
 
     const keys = useMemo(() => Object.keys(overrides), [overrides])
 
@@ -96,7 +98,5 @@ export function useFxOverrides() {
         getOverride,
         setOverride,
         clearOverride,
-        storageKey: STORAGE_KEY,
     }
 }
-
@@ -7,6 +7,8 @@
  */
 
 import type { PriceResult } from '@/domain/prices/price-result'
+import type { FixedDepositType } from '@/domain/types'
+import type { ValuationPolicy } from '@/domain/fx/valuation-policy'
 
 // =============================================================================
 // Core Value Objects
@@ -88,7 +90,7 @@ export interface PortfolioKPIs {
 // Rubro / Provider / Item Hierarchy
 // =============================================================================
 
-export type RubroId = 'wallets' | 'frascos' | 'plazos' | 'cedears' | 'crypto' | 'fci'
+export type RubroId = 'wallets' | 'frascos' | 'plazos' | 'cedears' | 'renta_fija' | 'crypto' | 'fci'
 
 export type FxPolicyLabel = 'Oficial Venta' | 'MEP' | 'Cripto' | 'VCP'
 
@@ -132,6 +134,8 @@ export type ItemKind =
     | 'crypto'
     | 'stable'
     | 'fci'
+    | 'bond'
+    | 'caucion'
 
 export interface ItemV2 {
     id: string
@@ -158,7 +162,7 @@ export interface ItemV2 {
         lastAccruedISO?: string
     }
 
-    /** For plazos fijos */
+    /** For plazos fijos and cauciones (signed negative for a tomadora) */
     pfMeta?: {
         startDateISO: string
         maturityDateISO: string
@@ -171,6 +175,9 @@ export interface ItemV2 {
     /** FX metadata for TC chip display */
     fxMeta?: FxMeta
 
+    /** Currency the instrument is quoted and traded in (USD for dollar FCIs) */
+    nativeCurrency?: 'ARS' | 'USD'
+
     /** Pricing metadata (e.g. estimated last trade fallback) */
     priceMeta?: {
         /** Where the unit price came from */
@@ -231,6 +238,7 @@ export interface FixedDepositDetail {
     bank: string
     alias?: string
     status: 'active' | 'matured' | 'settled'
+    depositType: FixedDepositType
     capitalArs: number
     tna: number
     tea?: number
@@ -243,6 +251,14 @@ export interface FixedDepositDetail {
     expectedTotalArs: number
     accruedInterestArs: number
     fxAtConstituteOficial?: number
+    /** UVA deposits: start value and the one used for the expected total */
+    uvaStart?: number
+    uvaEnd?: number
+    uvaEndDate?: string
+    /** Precancelable deposits: penalty rate and what cancelling today pays */
+    precancelTna?: number
+    precancelFromDays?: number
+    precancelTotalArs?: number
 }
 
 export interface CedearLotDetail {
@@ -392,6 +408,9 @@ export interface PortfolioV2 {
     /** Rubros hierarchy */
     rubros: RubroV2[]
 
+    /** Valuation policy the items were valued with (global defaults + account overrides) */
+    valuationPolicy?: ValuationPolicy
+
     /** Pre-computed details for overlays (keyed by item id) */
     walletDetails: Map<string, WalletDetail>
     fixedDepositDetails: Map<string, FixedDepositDetail>
@@ -12,6 +12,10 @@ import { useFxRates } from '@/hooks/use-fx-rates'
 import { useMovements } from '@/hooks/use-movements'
 import { usePF } from '@/hooks/use-pf'
 import { useAccountSettings } from '@/hooks/useAccountSettings'
+import { useCorporateActions } from '@/hooks/use-corporate-actions'
+import { applyCorporateActions } from '@/domain/corporate-actions'
+import { deriveCaucionPositions, type CaucionPosition } from '@/domain/caucion'
+import { useValuationDefaults } from '@/hooks/use-valuation-policy'
 import { useFxOverrides } from './fxOverrides'
 import { buildPortfolioV2, type PFData } from './builder'
 import type { PortfolioV2 } from './types'
@@ -40,7 +44,16 @@ export function usePortfolioV2(options: UsePortfolioV2Options = {}): PortfolioV2
     const { data: fxRates } = useFxRates()
     const { data: movements = [] } = useMovements()
     const { settings: accountSettings } = useAccountSettings()
-    const { overrides: fxOverrides } = useFxOverrides()
+    const { defaults: valuationDefaults } = useValuationDefaults()
+    // FX overrides live on accountSettings; this only moves legacy localStorage ones there
+    useFxOverrides()
+    const { data: corporateActions } = useCorporateActions()
+
+    // CEDEAR lots are rebuilt from movements: restate them for splits / ratio changes
+    const adjustedMovements = useMemo(
+        () => applyCorporateActions(movements, corporateActions),
+        [movements, corporateActions]
+    )
 
     // PF data from usePF hook
     const pfRaw = usePF()
@@ -55,6 +68,12 @@ export function usePortfolioV2(options: UsePortfolioV2Options = {}): PortfolioV2
         }
     }, [pfRaw])
 
+    // Cauciones still open (matured ones wait for their settlement movement)
+    const cauciones = useMemo((): CaucionPosition[] => {
+        const state = deriveCaucionPositions(movements)
+        return [...state.active, ...state.matured]
+    }, [movements])
+
     // Build V2 portfolio
     const portfolioV2 = useMemo((): PortfolioV2 | null => {
         // Wait for required data
@@ -140,12 +159,14 @@ export function usePortfolioV2(options: UsePortfolioV2Options = {}): PortfolioV2
             groupedRows,
             accounts,
             fxRates,
-            movements,
+            movements: adjustedMovements,
             pfData,
             accountSettings,
-            fxOverrides,
+            valuationDefaults,
+            corporateActions,
+            cauciones,
         })
-    }, [groupedRows, accounts, fxRates, movements, pfData, accountSettings, fxOverrides, assetsLoading, assetsError])
+    }, [groupedRows, accounts, fxRates, adjustedMovements, pfData, cauciones, accountSettings, valuationDefaults, corporateActions, assetsLoading, assetsError])
 
     return portfolioV2
 }
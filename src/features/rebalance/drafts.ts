@@ -0,0 +1,75 @@
+/**
+ * Rebalance → draft movements
+ *
+ * Turns planner orders into Movement payloads (same shape the CEDEAR/Cripto/FCI
+ * wizards persist). Drafts live in the `movementDrafts` table until the user
+ * confirms them from the planner, so they never affect holdings on their own.
+ */
+
+import type { FxType, Movement, MovementFee } from '@/domain/types'
+import type { FxRatesSnapshot } from '@/features/portfolioV2/types'
+import type { RebalanceOrder } from './types'
+
+export const REBALANCE_DRAFT_SOURCE = 'rebalance'
+
+function assetClassFor(order: RebalanceOrder): Movement['assetClass'] {
+    if (order.kind === 'crypto' || order.kind === 'stable') return 'crypto'
+    if (order.kind === 'fci') return 'fci'
+    return 'cedear'
+}
+
+/** Same FX family the builder values each rubro with; buys pay Venta, sells get Compra */
+function fxFor(order: RebalanceOrder, fx: FxRatesSnapshot): { kind: FxType; rate: number } {
+    const isBuy = order.side === 'BUY'
+    if (order.kind === 'crypto' || order.kind === 'stable') {
+        return { kind: 'CRIPTO', rate: isBuy ? fx.cryptoSell : fx.cryptoBuy }
+    }
+    if (order.kind === 'fci') {
+        return { kind: 'OFICIAL', rate: isBuy ? fx.officialSell : fx.officialBuy }
+    }
+    return { kind: 'MEP', rate: isBuy ? fx.mepSell : fx.mepBuy }
+}
+
+export function buildDraftMovements(
+    orders: RebalanceOrder[],
+    fx: FxRatesSnapshot,
+    nowISO: string,
+    createId: () => string = () => crypto.randomUUID()
+): Movement[] {
+    return orders.map(order => {
+        const { kind, rate } = fxFor(order, fx)
+        const fee: MovementFee | undefined = order.feeAmount > 0
+            ? { mode: 'FIXED', amount: order.feeAmount, currency: order.tradeCurrency }
+            : undefined
+        const isArs = order.tradeCurrency === 'ARS'
+
+        return {
+            id: createId(),
+            datetimeISO: nowISO,
+            type: order.side,
+            assetClass: assetClassFor(order),
+            instrumentId: order.instrumentId,
+            accountId: order.accountId,
+            ticker: order.symbol,
+            assetName: order.label,
+            quantity: order.quantity,
+            unitPrice: order.unitPrice,
+            tradeCurrency: order.tradeCurrency,
+            totalAmount: order.grossAmount,
+            fee,
+            netAmount: order.netAmount,
+            totalARS: isArs ? order.netAmount : order.netAmount * rate,
+            totalUSD: isArs ? (rate > 0 ? order.netAmount / rate : 0) : order.netAmount,
+            fxAtTrade: rate,
+            fx: {
+                kind,
+                rate,
+                side: order.side === 'BUY' ? 'sell' : 'buy',
+                asOf: nowISO,
+            },
+            notes: 'Rebalanceo de cartera',
+            source: 'user',
+            meta: { source: REBALANCE_DRAFT_SOURCE },
+        }
+    })
+}
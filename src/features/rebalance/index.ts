@@ -0,0 +1,5 @@
+// Rebalance Feature Module
+export * from './types'
+export * from './planner'
+export * from './drafts'
+export { useAllocationTargets, useMovementDrafts } from './useRebalance'
@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest'
+import { planRebalance } from './planner'
+import { buildDraftMovements } from './drafts'
+import type { FxRatesSnapshot, ItemV2, RubroId, RubroV2 } from '@/features/portfolioV2/types'
+import type { AllocationTarget } from './types'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const fx: FxRatesSnapshot = {
+    officialSell: 1000,
+    officialBuy: 980,
+    mepSell: 1200,
+    mepBuy: 1180,
+    cclSell: 1220,
+    cclBuy: 1200,
+    cryptoSell: 1250,
+    cryptoBuy: 1230,
+    updatedAtISO: '2026-03-01T00:00:00.000Z',
+}
+
+function item(overrides: Partial<ItemV2> & Pick<ItemV2, 'kind' | 'symbol' | 'valArs' | 'accountId'>): ItemV2 {
+    return {
+        id: `${overrides.accountId}-${overrides.symbol}`,
+        label: overrides.symbol,
+        valUsd: overrides.valArs / 1200,
+        instrumentId: overrides.symbol.toLowerCase(),
+        ...overrides,
+    }
+}
+
+function rubro(id: RubroId, items: ItemV2[]): RubroV2 {
+    const byAccount = new Map<string, ItemV2[]>()
+    for (const it of items) byAccount.set(it.accountId, [...(byAccount.get(it.accountId) ?? []), it])
+    const ars = items.reduce((s, it) => s + it.valArs, 0)
+    const usd = items.reduce((s, it) => s + it.valUsd, 0)
+    return {
+        id,
+        name: id,
+        icon: 'Wallet',
+        fxPolicy: 'MEP',
+        totals: { ars, usd },
+        pnl: { ars: 0, usd: 0 },
+        providers: Array.from(byAccount.entries()).map(([accountId, providerItems]) => ({
+            id: accountId,
+            name: accountId,
+            totals: { ars: 0, usd: 0 },
+            pnl: { ars: 0, usd: 0 },
+            items: providerItems,
+        })),
+    }
+}
+
+function target(id: RubroId, targetPct: number, instrumentWeights?: Record<string, number>): AllocationTarget {
+    return { id, targetPct, instrumentWeights, updatedAt: '2026-03-01T00:00:00.000Z' }
+}
+
+let idCounter = 0
+const nextId = () => `id-${++idCounter}`
+
+const brokerCash = (amount: number) => item({ kind: 'cash_ars', symbol: 'ARS', accountId: 'iol', valArs: amount, qty: amount, instrumentId: undefined })
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('planRebalance', () => {
+    it('reports drift per rubro against normalized targets', () => {
+        const plan = planRebalance({
+            rubros: [
+                rubro('wallets', [brokerCash(400_000)]),
+                rubro('cedears', [item({ kind: 'cedear', symbol: 'AAPL', accountId: 'iol', valArs: 600_000, qty: 30 })]),
+            ],
+            // Sums 50: normalized to 50/50
+            targets: [target('wallets', 25), target('cedears', 25)],
+            createId: nextId,
+        })
+
+        const cedears = plan.rubros.find(r => r.rubroId === 'cedears')!
+        expect(plan.totalArs).toBe(1_000_000)
+        expect(cedears.currentPct).toBeCloseTo(60)
+        expect(cedears.targetPct).toBeCloseTo(50)
+        expect(cedears.driftArs).toBeCloseTo(-100_000)
+        expect(plan.warnings[0]).toContain('se normalizan')
+    })
+
+    it('sells from the largest holding first with whole CEDEAR shares', () => {
+        const plan = planRebalance({
+            rubros: [
+                rubro('wallets', [brokerCash(200_000)]),
+                rubro('cedears', [
+                    item({ kind: 'cedear', symbol: 'AAPL', accountId: 'iol', valArs: 600_000, qty: 30 }), // 20k each
+                    item({ kind: 'cedear', symbol: 'KO', accountId: 'iol', valArs: 200_000, qty: 20 }),
+                ]),
+            ],
+            targets: [target('wallets', 30), target('cedears', 70)],
+            createId: nextId,
+        })
+
+        // Target cedears 700k: sell 100k of AAPL -> 5 shares, a single order
+        expect(plan.orders).toHaveLength(1)
+        expect(plan.orders[0]).toMatchObject({ side: 'SELL', symbol: 'AAPL', quantity: 5, tradeCurrency: 'ARS' })
+        expect(plan.orders[0].grossAmount).toBeCloseTo(100_000)
+    })
+
+    it('buys into the largest holding using the account cash net of commissions', () => {
+        const plan = planRebalance({
+            rubros: [
+                rubro('wallets', [brokerCash(500_000)]),
+                rubro('cedears', [
+                    item({ kind: 'cedear', symbol: 'AAPL', accountId: 'iol', valArs: 400_000, qty: 40 }), // 10k each
+                    item({ kind: 'cedear', symbol: 'KO', accountId: 'iol', valArs: 100_000, qty: 10 }),
+                ]),
+            ],
+            targets: [target('wallets', 20), target('cedears', 80)],
+            commissions: [{ id: 'iol', buyPct: 1, sellPct: 1, fixedArs: 500 }],
+            createId: nextId,
+        })
+
+        const [buy] = plan.orders
+        expect(plan.orders).toHaveLength(1)
+        expect(buy).toMatchObject({ side: 'BUY', symbol: 'AAPL', quantity: 30 })
+        expect(buy.feeAmount).toBeCloseTo(300_000 * 0.01 + 500)
+        expect(buy.netAmount).toBeCloseTo(303_500)
+        expect(plan.cashAfter).toEqual([{ accountId: 'iol', currency: 'ARS', amount: 196_500 }])
+        expect(plan.shortfalls).toHaveLength(0)
+    })
+
+    it('caps buys at the available cash and reports the shortfall', () => {
+        const plan = planRebalance({
+            rubros: [
+                rubro('wallets', [
+                    brokerCash(50_000),
+                    item({ kind: 'cash_ars', symbol: 'ARS', accountId: 'bank', valArs: 450_000, qty: 450_000, instrumentId: undefined }),
+                ]),
+                rubro('cedears', [item({ kind: 'cedear', symbol: 'AAPL', accountId: 'iol', valArs: 500_000, qty: 50 })]),
+            ],
+            targets: [target('wallets', 20), target('cedears', 80)],
+            createId: nextId,
+        })
+
+        // Needs 300k of AAPL but the broker only holds 50k: bank cash is not touched
+        expect(plan.orders[0]).toMatchObject({ side: 'BUY', quantity: 5 })
+        expect(plan.shortfalls).toEqual([{ accountId: 'iol', currency: 'ARS', amount: 250_000 }])
+    })
+
+    it('follows instrument weights inside a rubro and funds buys with sell proceeds', () => {
+        const plan = planRebalance({
+            rubros: [
+                rubro('cedears', [
+                    item({ kind: 'cedear', symbol: 'AAPL', accountId: 'iol', valArs: 750_000, qty: 75 }),
+                    item({ kind: 'cedear', symbol: 'KO', accountId: 'iol', valArs: 250_000, qty: 25 }),
+                ]),
+            ],
+            targets: [target('cedears', 100, { aapl: 1, ko: 1 })],
+            createId: nextId,
+        })
+
+        expect(plan.orders.map(o => [o.side, o.symbol, o.quantity])).toEqual([
+            ['SELL', 'AAPL', 25],
+            ['BUY', 'KO', 25],
+        ])
+        expect(plan.rubros[0].instruments.map(i => i.key).sort()).toEqual(['aapl', 'ko'])
+    })
+
+    it('leaves drifts inside the band alone and never trades plazos fijos', () => {
+        const plan = planRebalance({
+            rubros: [
+                rubro('wallets', [brokerCash(495_000)]),
+                rubro('plazos', [item({ kind: 'plazo_fijo', symbol: 'PF', accountId: 'bank', valArs: 300_000 })]),
+                rubro('cedears', [item({ kind: 'cedear', symbol: 'AAPL', accountId: 'iol', valArs: 205_000, qty: 41 })]),
+            ],
+            targets: [target('wallets', 50), target('cedears', 20), target('plazos', 30)],
+            options: { bandPct: 1 },
+            createId: nextId,
+        })
+
+        // cedears drift is -0.5% of the portfolio: inside the band
+        expect(plan.orders).toHaveLength(0)
+    })
+
+    it('trades crypto in USD using the item USD value', () => {
+        const plan = planRebalance({
+            rubros: [
+                rubro('wallets', [item({ kind: 'cash_usd', symbol: 'USD', accountId: 'binance', valArs: 125_000, valUsd: 100, qty: 100, instrumentId: undefined })]),
+                rubro('crypto', [item({ kind: 'crypto', symbol: 'BTC', accountId: 'binance', valArs: 125_000, valUsd: 100, qty: 0.001 })]),
+            ],
+            targets: [target('wallets', 0), target('crypto', 100)],
+            createId: nextId,
+        })
+
+        expect(plan.orders[0]).toMatchObject({ side: 'BUY', symbol: 'BTC', tradeCurrency: 'USD', unitPrice: 100_000 })
+        expect(plan.orders[0].quantity).toBeCloseTo(0.001)
+    })
+
+    it('trades a dollar FCI in USD, funded by the account USD cash', () => {
+        const plan = planRebalance({
+            rubros: [
+                rubro('wallets', [
+                    brokerCash(600_000),
+                    item({ kind: 'cash_usd', symbol: 'USD', accountId: 'iol', valArs: 120_000, valUsd: 100, qty: 100, instrumentId: undefined }),
+                ]),
+                rubro('fci', [item({ kind: 'fci', symbol: 'USDFCI', accountId: 'iol', valArs: 120_000, valUsd: 100, qty: 100, nativeCurrency: 'USD' })]),
+            ],
+            targets: [target('wallets', 80), target('fci', 20)],
+            createId: nextId,
+        })
+
+        // Needs 48k ARS more of the fund (40 USD), but only the 100 USD of cash can pay for it
+        expect(plan.orders[0]).toMatchObject({ side: 'BUY', symbol: 'USDFCI', tradeCurrency: 'USD', unitPrice: 1 })
+        expect(plan.orders[0].quantity).toBeCloseTo(40)
+        expect(plan.cashAfter).toContainEqual({ accountId: 'iol', currency: 'USD', amount: 60 })
+        expect(plan.shortfalls).toHaveLength(0)
+    })
+})
+
+describe('buildDraftMovements', () => {
+    it('maps orders to movements with fee, FX and ARS/USD totals', () => {
+        const [movement] = buildDraftMovements([{
+            id: 'o1',
+            side: 'BUY',
+            rubroId: 'cedears',
+            kind: 'cedear',
+            accountId: 'iol',
+            instrumentId: 'aapl',
+            symbol: 'AAPL',
+            label: 'Apple',
+            quantity: 10,
+            unitPrice: 10_000,
+            tradeCurrency: 'ARS',
+            grossAmount: 100_000,
+            feeAmount: 1_000,
+            netAmount: 101_000,
+            grossArs: 100_000,
+        }], fx, '2026-03-01T12:00:00.000Z', () => 'mov-1')
+
+        expect(movement).toMatchObject({
+            id: 'mov-1',
+            type: 'BUY',
+            assetClass: 'cedear',
+            quantity: 10,
+            totalAmount: 100_000,
+            netAmount: 101_000,
+            totalARS: 101_000,
+            fxAtTrade: 1200,
+            fee: { mode: 'FIXED', amount: 1_000, currency: 'ARS' },
+            meta: { source: 'rebalance' },
+        })
+        expect(movement.totalUSD).toBeCloseTo(101_000 / 1200)
+        expect(movement.fx).toMatchObject({ kind: 'MEP', side: 'sell' })
+    })
+})
@@ -0,0 +1,379 @@
+/**
+ * Rebalance Planner
+ *
+ * Compares the current PortfolioV2 rubros against the target allocation and
+ * proposes the buy/sell orders that bring the tradeable rubros (CEDEARs,
+ * Cripto, FCI) back to target. Pure: no DB or React access.
+ *
+ * Rules:
+ * - Values are compared in ARS (rubro.totals.ars), drifts under `bandPct` are ignored.
+ * - Fewest trades: without instrument weights a rubro sells from its largest
+ *   holdings first and buys into its single largest holding.
+ * - Sells run first; buys are funded by the cash of the account that holds the
+ *   instrument (Billeteras cash + proceeds of the sells), net of commissions.
+ *   Whatever cannot be funded is reported as a shortfall, never as a negative balance.
+ */
+
+import type { CommissionSettings, ItemKind, ItemV2, RubroId, RubroV2 } from '@/features/portfolioV2/types'
+import type {
+    AllocationTarget,
+    CashBalance,
+    DriftRow,
+    RebalanceOptions,
+    RebalanceOrder,
+    RebalancePlan,
+    RubroDrift,
+} from './types'
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const RUBRO_ORDER: RubroId[] = ['wallets', 'frascos', 'plazos', 'cedears', 'renta_fija', 'crypto', 'fci']
+
+export const RUBRO_LABELS: Record<RubroId, string> = {
+    wallets: 'Billeteras',
+    frascos: 'Frascos',
+    plazos: 'Plazos Fijos',
+    cedears: 'CEDEARs',
+    renta_fija: 'Renta fija',
+    crypto: 'Cripto',
+    fci: 'Fondos (FCI)',
+}
+
+/** Rubros the planner can buy/sell. Billeteras absorb the cash, PF/Frascos stay put. */
+export const TRADEABLE_RUBROS: RubroId[] = ['cedears', 'renta_fija', 'crypto', 'fci']
+
+const CASH_KINDS: ItemKind[] = ['cash_ars', 'cash_usd', 'wallet_yield']
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export interface RebalanceInput {
+    rubros: RubroV2[]
+    targets: AllocationTarget[]
+    /** Commission settings per account (ProviderSettings rows, id = accountId) */
+    commissions?: Array<CommissionSettings & { id: string }>
+    options?: RebalanceOptions
+    createId?: () => string
+}
+
+interface Position {
+    item: ItemV2
+    rubroId: RubroId
+    key: string
+    currency: 'ARS' | 'USD'
+    unitArs: number
+    unitNative: number
+}
+
+/** Key used for instrument weights: instrumentId, falling back to the symbol */
+export function instrumentKey(item: Pick<ItemV2, 'instrumentId' | 'symbol'>): string {
+    return item.instrumentId ?? item.symbol
+}
+
+/** Crypto trades in USD; everything else in the instrument's own currency (ARS when unknown) */
+function tradeCurrencyFor(item: ItemV2): 'ARS' | 'USD' {
+    if (item.kind === 'crypto' || item.kind === 'stable') return 'USD'
+    return item.nativeCurrency ?? 'ARS'
+}
+
+function toPosition(item: ItemV2, rubroId: RubroId): Position | null {
+    const qty = item.qty ?? 0
+    if (!(qty > 0) || !(item.valArs > 0)) return null
+    const currency = tradeCurrencyFor(item)
+    const unitArs = item.valArs / qty
+    const unitNative = currency === 'USD' ? item.valUsd / qty : unitArs
+    if (!(unitNative > 0)) return null
+    return { item, rubroId, key: instrumentKey(item), currency, unitArs, unitNative }
+}
+
+/** CEDEARs trade in whole shares and bonds in whole VN, everything else is fractional */
+function roundQty(kind: ItemKind, qty: number): number {
+    if (kind === 'cedear' || kind === 'bond') return Math.floor(qty + 1e-9)
+    return Math.floor(qty * 1e8) / 1e8
+}
+
+function feeFor(
+    settings: CommissionSettings | undefined,
+    side: RebalanceOrder['side'],
+    currency: 'ARS' | 'USD',
+    gross: number
+): number {
+    if (!settings || gross <= 0) return 0
+    const pct = side === 'BUY' ? settings.buyPct : settings.sellPct
+    const fixed = (currency === 'USD' ? settings.fixedUsd : settings.fixedArs) ?? 0
+    return gross * (pct / 100) + fixed
+}
+
+function cashKey(accountId: string, currency: 'ARS' | 'USD'): string {
+    return `${accountId}:${currency}`
+}
+
+function driftRow(key: string, label: string, currentArs: number, targetArs: number, totalArs: number): DriftRow {
+    const toPct = (value: number) => (totalArs > 0 ? (value / totalArs) * 100 : 0)
+    return {
+        key,
+        label,
+        currentArs,
+        currentPct: toPct(currentArs),
+        targetArs,
+        targetPct: toPct(targetArs),
+        driftArs: targetArs - currentArs,
+        driftPct: toPct(targetArs - currentArs),
+    }
+}
+
+function instrumentDrifts(
+    positions: Position[],
+    weights: Record<string, number> | undefined,
+    rubroTargetArs: number,
+    totalArs: number
+): DriftRow[] {
+    const weightEntries = Object.entries(weights ?? {}).filter(([, w]) => w > 0)
+    const weightSum = weightEntries.reduce((sum, [, w]) => sum + w, 0)
+    if (weightSum <= 0) return []
+
+    const held = new Map<string, { label: string; valArs: number }>()
+    for (const p of positions) {
+        const entry = held.get(p.key) ?? { label: p.item.symbol, valArs: 0 }
+        entry.valArs += p.item.valArs
+        held.set(p.key, entry)
+    }
+
+    const keys = new Set<string>([...weightEntries.map(([k]) => k), ...held.keys()])
+    return Array.from(keys).map(key => {
+        const weight = weights?.[key] ?? 0
+        const targetArs = weight > 0 ? rubroTargetArs * (weight / weightSum) : 0
+        return driftRow(key, held.get(key)?.label ?? key, held.get(key)?.valArs ?? 0, targetArs, totalArs)
+    })
+}
+
+// =============================================================================
+// Planner
+// =============================================================================
+
+export function planRebalance({
+    rubros,
+    targets,
+    commissions = [],
+    options = {},
+    createId = () => crypto.randomUUID(),
+}: RebalanceInput): RebalancePlan {
+    const bandPct = options.bandPct ?? 1
+    const minTradeArs = options.minTradeArs ?? 0
+    const warnings: string[] = []
+
+    const rubroById = new Map(rubros.map(r => [r.id, r]))
+    const targetById = new Map(targets.map(t => [t.id, t]))
+    const commissionById = new Map(commissions.map(c => [c.id, c]))
+
+    const totalArs = rubros.reduce((sum, r) => sum + r.totals.ars, 0)
+    const targetSum = targets.reduce((sum, t) => sum + Math.max(0, t.targetPct), 0)
+    const bandArs = totalArs * (bandPct / 100)
+
+    if (targetSum > 0 && Math.abs(targetSum - 100) > 0.01) {
+        warnings.push(`Los objetivos suman ${targetSum.toFixed(1)}%; se normalizan a 100%.`)
+    }
+
+    // Tradeable positions per rubro
+    const positionsByRubro = new Map<RubroId, Position[]>()
+    for (const rubro of rubros) {
+        if (!TRADEABLE_RUBROS.includes(rubro.id)) continue
+        const positions = rubro.providers
+            .flatMap(provider => provider.items)
+            .map(item => toPosition(item, rubro.id))
+            .filter((p): p is Position => p !== null)
+        positionsByRubro.set(rubro.id, positions)
+    }
+
+    // -------------------------------------------------------------------------
+    // Drift
+    // -------------------------------------------------------------------------
+    const drifts: RubroDrift[] = RUBRO_ORDER
+        .filter(id => rubroById.has(id) || targetById.has(id))
+        .map(id => {
+            const rubro = rubroById.get(id)
+            const target = targetById.get(id)
+            const targetPct = targetSum > 0 ? (Math.max(0, target?.targetPct ?? 0) / targetSum) * 100 : 0
+            const targetArs = totalArs * (targetPct / 100)
+            const tradeable = TRADEABLE_RUBROS.includes(id)
+            return {
+                ...driftRow(id, rubro?.name ?? RUBRO_LABELS[id], rubro?.totals.ars ?? 0, targetArs, totalArs),
+                rubroId: id,
+                tradeable,
+                instruments: tradeable
+                    ? instrumentDrifts(positionsByRubro.get(id) ?? [], target?.instrumentWeights, targetArs, totalArs)
+                    : [],
+            }
+        })
+
+    if (targetSum <= 0 || totalArs <= 0) {
+        return { totalArs, rubros: drifts, orders: [], shortfalls: [], cashAfter: [], warnings }
+    }
+
+    // -------------------------------------------------------------------------
+    // Legs (what to move, in ARS)
+    // -------------------------------------------------------------------------
+    const sellLegs: Array<{ position: Position; amountArs: number }> = []
+    const buyLegs: Array<{ rubroId: RubroId; key: string; label: string; amountArs: number }> = []
+
+    const pushSells = (positions: Position[], amountArs: number) => {
+        let remaining = amountArs
+        for (const position of [...positions].sort((a, b) => b.item.valArs - a.item.valArs)) {
+            if (remaining <= 0) break
+            const take = Math.min(remaining, position.item.valArs)
+            sellLegs.push({ position, amountArs: take })
+            remaining -= take
+        }
+    }
+
+    for (const drift of drifts) {
+        if (!drift.tradeable) {
+            if (drift.rubroId !== 'wallets' && Math.abs(drift.driftArs) >= bandArs && bandArs > 0) {
+                warnings.push(`${drift.label} no se opera desde el planificador; su desvío queda fuera del plan.`)
+            }
+            continue
+        }
+
+        const positions = positionsByRubro.get(drift.rubroId) ?? []
+
+        if (drift.instruments.length > 0) {
+            for (const row of drift.instruments) {
+                if (Math.abs(row.driftArs) < bandArs) continue
+                const held = positions.filter(p => p.key === row.key)
+                if (row.driftArs < 0) {
+                    pushSells(held, -row.driftArs)
+                } else if (held.length > 0) {
+                    buyLegs.push({ rubroId: drift.rubroId, key: row.key, label: row.label, amountArs: row.driftArs })
+                } else {
+                    warnings.push(`${row.label}: sin tenencia ni precio de referencia; registrá la primera compra manualmente.`)
+                }
+            }
+            continue
+        }
+
+        if (Math.abs(drift.driftArs) < bandArs) continue
+        if (drift.driftArs < 0) {
+            pushSells(positions, -drift.driftArs)
+        } else {
+            const largest = [...positions].sort((a, b) => b.item.valArs - a.item.valArs)[0]
+            if (largest) {
+                buyLegs.push({ rubroId: drift.rubroId, key: largest.key, label: largest.item.symbol, amountArs: drift.driftArs })
+            } else {
+                warnings.push(`${drift.label}: no hay tenencias para comprar; registrá la primera compra manualmente.`)
+            }
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // Cash per account (Billeteras holds broker/exchange cash too)
+    // -------------------------------------------------------------------------
+    const cash = new Map<string, number>()
+    for (const provider of rubroById.get('wallets')?.providers ?? []) {
+        for (const item of provider.items) {
+            if (!CASH_KINDS.includes(item.kind)) continue
+            const currency = item.kind === 'cash_usd' ? 'USD' : 'ARS'
+            const amount = item.qty ?? (currency === 'USD' ? item.valUsd : item.valArs)
+            const key = cashKey(item.accountId, currency)
+            cash.set(key, (cash.get(key) ?? 0) + amount)
+        }
+    }
+
+    const orders: RebalanceOrder[] = []
+    const toOrder = (
+        position: Position,
+        side: RebalanceOrder['side'],
+        quantity: number,
+        feeAmount: number
+    ): RebalanceOrder => {
+        const grossAmount = quantity * position.unitNative
+        return {
+            id: createId(),
+            side,
+            rubroId: position.rubroId,
+            kind: position.item.kind,
+            accountId: position.item.accountId,
+            instrumentId: position.item.instrumentId,
+            symbol: position.item.symbol,
+            label: position.item.label,
+            quantity,
+            unitPrice: position.unitNative,
+            tradeCurrency: position.currency,
+            grossAmount,
+            feeAmount,
+            netAmount: side === 'BUY' ? grossAmount + feeAmount : grossAmount - feeAmount,
+            grossArs: quantity * position.unitArs,
+        }
+    }
+
+    // Sells first: their proceeds fund the buys
+    for (const { position, amountArs } of sellLegs) {
+        const held = position.item.qty ?? 0
+        const rawQty = amountArs / position.unitArs
+        const quantity = rawQty >= held * (1 - 1e-6) ? held : roundQty(position.item.kind, rawQty)
+        if (quantity <= 0 || quantity * position.unitArs < minTradeArs) continue
+
+        const settings = commissionById.get(position.item.accountId)
+        const fee = feeFor(settings, 'SELL', position.currency, quantity * position.unitNative)
+        const order = toOrder(position, 'SELL', quantity, fee)
+        if (order.netAmount <= 0) {
+            warnings.push(`${order.symbol}: la comisión fija supera el monto a vender; se omite la venta.`)
+            continue
+        }
+        orders.push(order)
+        const key = cashKey(order.accountId, order.tradeCurrency)
+        cash.set(key, (cash.get(key) ?? 0) + order.netAmount)
+    }
+
+    // Buys: one order per instrument, in the holding account with the most cash
+    const shortfalls = new Map<string, number>()
+    for (const leg of buyLegs) {
+        const candidates = (positionsByRubro.get(leg.rubroId) ?? []).filter(p => p.key === leg.key)
+        const available = (p: Position) => cash.get(cashKey(p.item.accountId, p.currency)) ?? 0
+        const position = [...candidates].sort((a, b) => available(b) - available(a) || b.item.valArs - a.item.valArs)[0]
+        if (!position) continue
+
+        const settings = commissionById.get(position.item.accountId)
+        const pct = settings?.buyPct ?? 0
+        const fixed = (position.currency === 'USD' ? settings?.fixedUsd : settings?.fixedArs) ?? 0
+        const key = cashKey(position.item.accountId, position.currency)
+
+        // Largest gross such that gross + fee <= available cash
+        const maxGross = Math.max(0, (available(position) - fixed) / (1 + pct / 100))
+        const neededQty = leg.amountArs / position.unitArs
+        const affordableQty = maxGross / position.unitNative
+        const quantity = roundQty(position.item.kind, Math.min(neededQty, affordableQty))
+
+        if (affordableQty < neededQty) {
+            const missing = (neededQty - quantity) * position.unitNative
+            shortfalls.set(key, (shortfalls.get(key) ?? 0) + missing)
+        }
+        if (quantity <= 0 || quantity * position.unitArs < minTradeArs) continue
+
+        const order = toOrder(position, 'BUY', quantity, feeFor(settings, 'BUY', position.currency, quantity * position.unitNative))
+        orders.push(order)
+        cash.set(key, available(position) - order.netAmount)
+    }
+
+    const touched = new Set(orders.map(o => cashKey(o.accountId, o.tradeCurrency)))
+    const toBalances = (entries: Iterable<[string, number]>): CashBalance[] =>
+        Array.from(entries).map(([key, amount]) => {
+            const separator = key.lastIndexOf(':')
+            return {
+                accountId: key.slice(0, separator),
+                currency: key.slice(separator + 1) as CashBalance['currency'],
+                amount,
+            }
+        })
+
+    return {
+        totalArs,
+        rubros: drifts,
+        orders,
+        shortfalls: toBalances(shortfalls.entries()).filter(s => s.amount > 0),
+        cashAfter: toBalances(Array.from(cash.entries()).filter(([key]) => touched.has(key))),
+        warnings,
+    }
+}
@@ -0,0 +1,93 @@
+/**
+ * Rebalance Types
+ *
+ * Target allocation per rubro (and optionally per instrument inside a rubro)
+ * plus the buy/sell plan computed against the current PortfolioV2 rubros.
+ */
+
+import type { Currency } from '@/domain/types'
+import type { ItemKind, RubroId } from '@/features/portfolioV2/types'
+
+// =============================================================================
+// Targets (persisted in Dexie `allocationTargets`)
+// =============================================================================
+
+export interface AllocationTarget {
+    id: RubroId                 // one record per rubro
+    targetPct: number           // share of the whole portfolio, e.g. 40 for 40%
+    /**
+     * Relative weights inside the rubro, keyed by instrumentId (or symbol when
+     * the item has no instrumentId). Weights do not need to add up to 100.
+     * Held instruments without a weight are sold off.
+     */
+    instrumentWeights?: Record<string, number>
+    updatedAt: string           // ISO datetime
+}
+
+export interface RebalanceOptions {
+    /** Drift (as % of the portfolio) below which a rubro/instrument is left alone. Default 1 */
+    bandPct?: number
+    /** Orders smaller than this (ARS) are dropped. Default 0 */
+    minTradeArs?: number
+}
+
+// =============================================================================
+// Plan
+// =============================================================================
+
+export interface DriftRow {
+    key: string                 // rubroId, or instrument key for instrument rows
+    label: string
+    currentArs: number
+    currentPct: number
+    targetArs: number
+    targetPct: number
+    /** target - current (positive = underweight, needs buying) */
+    driftArs: number
+    driftPct: number
+}
+
+export interface RubroDrift extends DriftRow {
+    rubroId: RubroId
+    tradeable: boolean
+    instruments: DriftRow[]
+}
+
+export interface RebalanceOrder {
+    id: string
+    side: 'BUY' | 'SELL'
+    rubroId: RubroId
+    kind: ItemKind
+    accountId: string
+    instrumentId?: string
+    symbol: string
+    label: string
+    quantity: number
+    /** Unit price in trade currency */
+    unitPrice: number
+    tradeCurrency: Extract<Currency, 'ARS' | 'USD'>
+    /** qty * unitPrice */
+    grossAmount: number
+    feeAmount: number
+    /** Cash actually moved: gross + fee for buys, gross - fee for sells */
+    netAmount: number
+    /** Gross value in ARS (for display/sorting) */
+    grossArs: number
+}
+
+export interface CashBalance {
+    accountId: string
+    currency: 'ARS' | 'USD'
+    amount: number
+}
+
+export interface RebalancePlan {
+    totalArs: number
+    rubros: RubroDrift[]
+    orders: RebalanceOrder[]
+    /** Cash missing (trade currency) to complete the buys in each account */
+    shortfalls: CashBalance[]
+    /** Remaining cash per account after executing the orders */
+    cashAfter: CashBalance[]
+    warnings: string[]
+}
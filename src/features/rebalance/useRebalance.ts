@@ -0,0 +1,119 @@
+/**
+ * Rebalance hooks
+ *
+ * Target allocation CRUD (local only, like provider commissions) and the
+ * draft movements generated from a plan.
+ */
+
+import { useMemo } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { db, movementDraftsRepo } from '@/db'
+import type { Movement } from '@/domain/types'
+import type { RubroId } from '@/features/portfolioV2/types'
+import type { AllocationTarget } from './types'
+
+const TARGETS_QUERY_KEY = ['allocationTargets']
+const DRAFTS_QUERY_KEY = ['movementDrafts']
+const EMPTY_DRAFTS: Movement[] = []
+
+export type AllocationTargetInput = Pick<AllocationTarget, 'id' | 'targetPct' | 'instrumentWeights'>
+
+export function useAllocationTargets() {
+    const queryClient = useQueryClient()
+
+    const { data: targets = [], isLoading } = useQuery({
+        queryKey: TARGETS_QUERY_KEY,
+        queryFn: () => db.allocationTargets.toArray(),
+    })
+
+    // Replaces the whole set so rubros cleared in the form don't linger
+    const saveMutation = useMutation({
+        mutationFn: async (inputs: AllocationTargetInput[]) => {
+            const updatedAt = new Date().toISOString()
+            await db.transaction('rw', db.allocationTargets, async () => {
+                await db.allocationTargets.clear()
+                await db.allocationTargets.bulkPut(inputs.map(input => ({ ...input, updatedAt })))
+            })
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: TARGETS_QUERY_KEY })
+        },
+    })
+
+    const deleteMutation = useMutation({
+        mutationFn: (rubroId: RubroId) => db.allocationTargets.delete(rubroId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: TARGETS_QUERY_KEY })
+        },
+    })
+
+    return {
+        targets,
+        isLoading,
+        saveTargets: (inputs: AllocationTargetInput[]) => saveMutation.mutateAsync(inputs),
+        deleteTarget: (rubroId: RubroId) => deleteMutation.mutate(rubroId),
+        isSaving: saveMutation.isPending,
+    }
+}
+
+/**
+ * Drafts of every feature, or only those whose meta.source matches (rebalance
+ * and DCA share the table).
+ */
+export function useMovementDrafts(source?: string) {
+    const queryClient = useQueryClient()
+
+    const { data: allDrafts = EMPTY_DRAFTS } = useQuery({
+        queryKey: DRAFTS_QUERY_KEY,
+        queryFn: () => movementDraftsRepo.list(),
+    })
+    const drafts = useMemo(
+        () => (source ? allDrafts.filter(d => d.meta?.source === source) : allDrafts),
+        [allDrafts, source]
+    )
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: DRAFTS_QUERY_KEY })
+
+    const saveMutation = useMutation({
+        mutationFn: (movements: Movement[]) => movementDraftsRepo.saveAll(movements),
+        onSuccess: invalidate,
+    })
+
+    const confirmMutation = useMutation({
+        mutationFn: async (ids: string[]) => {
+            // Sequential: each create syncs remotely and drafts must not be lost halfway
+            for (const id of ids) await movementDraftsRepo.confirm(id)
+        },
+        onSettled: () => {
+            invalidate()
+            queryClient.invalidateQueries({ queryKey: ['movements'] })
+            queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+        },
+    })
+
+    // Single draft completed with what actually happened (fill price, quantity, date)
+    const confirmWithFillMutation = useMutation({
+        mutationFn: ({ id, fill }: { id: string; fill: Partial<Movement> }) => movementDraftsRepo.confirm(id, fill),
+        onSettled: () => {
+            invalidate()
+            queryClient.invalidateQueries({ queryKey: ['movements'] })
+            queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+        },
+    })
+
+    const discardMutation = useMutation({
+        // null discards every draft (of this source)
+        mutationFn: (id: string | null) => (id === null ? movementDraftsRepo.clear(source) : movementDraftsRepo.delete(id)),
+        onSuccess: invalidate,
+    })
+
+    return {
+        drafts,
+        saveDrafts: (movements: Movement[]) => saveMutation.mutateAsync(movements),
+        confirmDrafts: (ids: string[]) => confirmMutation.mutateAsync(ids),
+        confirmDraftWithFill: (id: string, fill: Partial<Movement>) => confirmWithFillMutation.mutateAsync({ id, fill }),
+        discardDraft: (id: string) => discardMutation.mutate(id),
+        discardAll: () => discardMutation.mutate(null),
+        isConfirming: confirmMutation.isPending || confirmWithFillMutation.isPending,
+    }
+}
@@ -97,6 +97,10 @@ function computeCashBalanceForAccount(movements: Movement[], accountId: string):
                 // Selling increases cash
                 balance += (mov.netAmount ?? mov.totalAmount ?? 0)
                 break
+            case 'ADJUSTMENT':
+                // Already signed (reconciliation corrections)
+                balance += mov.totalAmount ?? 0
+                break
             default:
                 break
         }
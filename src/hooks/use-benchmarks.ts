@@ -0,0 +1,46 @@
+import { useQueries, type UseQueryResult } from '@tanstack/react-query'
+import type { IndicatorHistoryId, IndicatorHistoryResponse } from '@/server/market/indicatorsProvider'
+import type { BenchmarkPoint } from '@/features/dashboardV2/benchmarks'
+
+async function fetchIndicatorHistory(id: IndicatorHistoryId, from: string): Promise<IndicatorHistoryResponse> {
+    const response = await fetch(`/api/market/indicator-history?id=${id}&from=${from}`)
+    if (!response.ok) {
+        throw new Error(`Failed to fetch ${id} history: ${response.statusText}`)
+    }
+    return response.json()
+}
+
+// Module-level so react-query keeps the combined result stable between renders
+function combineHistories(results: UseQueryResult<IndicatorHistoryResponse>[]) {
+    const data: Partial<Record<IndicatorHistoryId, BenchmarkPoint[]>> = {}
+    for (const result of results) {
+        if (result.data) data[result.data.id] = result.data.points
+    }
+    return {
+        data,
+        errors: results.map(result => result.isError),
+        isLoading: results.some(result => result.isLoading),
+    }
+}
+
+/**
+ * Daily history for each selected market benchmark since `from` (YYYY-MM-DD).
+ */
+export function useIndicatorHistories(ids: IndicatorHistoryId[], from: string | null) {
+    const combined = useQueries({
+        queries: ids.map(id => ({
+            queryKey: ['market', 'indicator-history', id, from],
+            queryFn: () => fetchIndicatorHistory(id, from!),
+            enabled: !!from,
+            staleTime: 60 * 60 * 1000, // daily closes: 1 hour is plenty
+            retry: 1,
+        })),
+        combine: combineHistories,
+    })
+
+    return {
+        data: combined.data,
+        failed: ids.filter((_, idx) => combined.errors[idx]),
+        isLoading: combined.isLoading,
+    }
+}
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useMovements } from '@/hooks/use-movements'
+import { useAutoSettleFixedTerms } from '@/hooks/use-preferences'
+import { useToast } from '@/components/ui/toast'
+import { db } from '@/db'
+import { syncMovementsBatch } from '@/sync/remote-sync'
+import { buildCaucionSettlement, caucionSettlementId, deriveCaucionPositions } from '@/domain/caucion'
+import type { CaucionPosition } from '@/domain/caucion'
+import type { Movement } from '@/domain/types'
+import { formatMoneyARS } from '@/lib/format'
+
+// Module-level lock: prevents concurrent runs in the same tab.
+// Cross-tab protection comes from the deterministic settlement id.
+let globalSettlementLock = false
+
+export interface CaucionSettlementResult {
+    settledCount: number
+    totalAmount: number
+}
+
+export interface UseCaucionSettlementReturn {
+    /** Settle every matured caución now (ignores the preference) */
+    runSettlementNow: () => Promise<CaucionSettlementResult>
+    isRunning: boolean
+}
+
+/**
+ * Writes the settlement of one matured caución inside a Dexie transaction.
+ * The settlement id derives from the opening movement, so if another tab or
+ * a retry got there first the read finds it and nothing is written.
+ */
+async function settleOneCaucion(position: CaucionPosition, settlementMode: 'auto' | 'manual'): Promise<Movement | null> {
+    let created: Movement | null = null
+
+    await db.transaction('rw', db.movements, async () => {
+        const existing = await db.movements.get(caucionSettlementId(position.id))
+        if (existing) {
+            console.info(`[caucion-settlement] ${position.id} already settled`)
+            return
+        }
+        const settlement = buildCaucionSettlement(position, settlementMode)
+        await db.movements.add(settlement)
+        created = settlement
+    })
+
+    return created
+}
+
+/**
+ * Auto-settles cauciones at maturity, like usePFSettlement does for plazos
+ * fijos: the colocadora collects principal + interest - fees, the tomadora
+ * pays principal + interest + fees. Follows the same preference.
+ */
+export function useCaucionSettlement(options?: { autoEffect?: boolean }): UseCaucionSettlementReturn {
+    const enableAutoEffect = options?.autoEffect ?? true
+    const { data: movements } = useMovements()
+    const { autoSettleEnabled } = useAutoSettleFixedTerms()
+    const { toast } = useToast()
+    const queryClient = useQueryClient()
+    const [isRunning, setIsRunning] = useState(false)
+
+    // Cauciones mature daily: re-check every 5 minutes while the app is open
+    const [tick, setTick] = useState(0)
+    useEffect(() => {
+        if (!enableAutoEffect) return
+        const interval = setInterval(() => setTick(t => t + 1), 5 * 60 * 1000)
+        return () => clearInterval(interval)
+    }, [enableAutoEffect])
+
+    const movementsRef = useRef(movements)
+    useEffect(() => { movementsRef.current = movements }, [movements])
+
+    const executeSettlement = useCallback(async (
+        settlementMode: 'auto' | 'manual',
+        showToast: boolean
+    ): Promise<CaucionSettlementResult> => {
+        const currentMovements = movementsRef.current
+        if (!currentMovements || globalSettlementLock) return { settledCount: 0, totalAmount: 0 }
+        globalSettlementLock = true
+
+        try {
+            const { matured } = deriveCaucionPositions(currentMovements)
+            const created: Movement[] = []
+            for (const position of matured) {
+                const settlement = await settleOneCaucion(position, settlementMode)
+                if (settlement) created.push(settlement)
+            }
+            if (created.length === 0) return { settledCount: 0, totalAmount: 0 }
+
+            queryClient.invalidateQueries({ queryKey: ['movements'] })
+            queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+            syncMovementsBatch(created).then(({ ok }) => {
+                if (!ok) {
+                    console.warn('[caucion-settlement] D1 sync failed for', created.length, 'movements')
+                }
+            })
+
+            const totalAmount = created.reduce((sum, m) => sum + m.totalAmount, 0)
+            if (showToast) {
+                toast({
+                    title: 'Cauciones liquidadas',
+                    description: `Se liquidaron ${created.length} cauciones vencidas por ${formatMoneyARS(totalAmount)}.`,
+                    variant: 'default',
+                })
+            }
+            return { settledCount: created.length, totalAmount }
+        } finally {
+            globalSettlementLock = false
+        }
+    }, [toast, queryClient])
+
+    const runSettlementNow = useCallback(async (): Promise<CaucionSettlementResult> => {
+        if (isRunning) return { settledCount: 0, totalAmount: 0 }
+        setIsRunning(true)
+        try {
+            return await executeSettlement('manual', false)
+        } catch (err) {
+            console.error('[caucion-settlement] Error running manual settlement:', err)
+            return { settledCount: 0, totalAmount: 0 }
+        } finally {
+            setIsRunning(false)
+        }
+    }, [executeSettlement, isRunning])
+
+    useEffect(() => {
+        if (!enableAutoEffect || !movements || !autoSettleEnabled) return
+        executeSettlement('auto', true).catch(error => {
+            console.error('Error executing caución settlement:', error)
+        })
+    }, [enableAutoEffect, movements, tick, autoSettleEnabled, executeSettlement])
+
+    return { runSettlementNow, isRunning }
+}
@@ -1,6 +1,8 @@
 import { useQuery } from '@tanstack/react-query'
 import { fetchCedearPrices } from '@/data/providers/cedears-ppi'
 import { useEffect } from 'react'
+import { normalizePriceHistoryKey, toPriceHistoryDate } from '@/domain/prices/price-history'
+import { recordPriceHistory } from './use-price-history'
 
 export type CedearPriceMap = Record<string, { lastPriceArs: number; changePct?: number; underlyingPrice?: number; updatedAt: string }>
 
@@ -50,6 +52,19 @@ export function useCedearPrices(enabled: boolean = true) {
                     (map[item.ticker] as any).changePct = item.changePct
                 }
             }
+
+            const date = toPriceHistoryDate(data.updatedAt)
+            recordPriceHistory(
+                Object.entries(map)
+                    .filter(([, price]) => price.lastPriceArs > 0)
+                    .map(([ticker, price]) => ({
+                        key: normalizePriceHistoryKey(ticker),
+                        date,
+                        close: price.lastPriceArs,
+                        currency: 'ARS' as const,
+                    }))
+            ).catch(err => console.warn('Failed to record CEDEAR price history', err))
+
             return map
         },
         // Polling if enabled
@@ -6,12 +6,15 @@ import { useCryptoPrices } from './use-crypto-prices'
 import { useManualPrices } from './use-manual-prices'
 import { useCedearPrices } from './use-cedear-prices'
 import { useFciPrices } from './useFciPrices'
+import { useCorporateActions } from './use-corporate-actions'
+import { useCpiSeries } from './use-cpi'
 import {
     computeHoldings,
     computeCashLedger,
     computeRealizedPnL,
     computeTotals,
 } from '@/domain/portfolio'
+import { applyCorporateActions } from '@/domain/corporate-actions'
 import type { PortfolioTotals, FxType } from '@/domain/types'
 import { buildPriceCacheKey, resolvePriceWithCache } from '@/domain/prices/price-cache'
 import { missingPrice, okPrice } from '@/domain/prices/price-result'
@@ -59,6 +62,8 @@ export function useComputedPortfolio() {
     const { data: accountsList = [] } = useAccounts()
     const { data: fxRates } = useFxRates()
     const { priceMap: manualPrices } = useManualPrices()
+    const { data: corporateActions } = useCorporateActions()
+    const { months: cpiMonths, deflator: cpi } = useCpiSeries()
 
     const { cedearAuto, trackCash } = getUserPreferences()
 
@@ -80,7 +85,7 @@ export function useComputedPortfolio() {
     const { priceMap: fciPrices } = useFciPrices()
 
     return useQuery({
-        queryKey: ['portfolio', 'computed', movements.length, instrumentsList.length, fxRates?.updatedAtISO, cryptoPrices, cedearPrices, manualPrices, fciPrices, cedearAuto, trackCash],
+        queryKey: ['portfolio', 'computed', movements.length, instrumentsList.length, fxRates?.updatedAtISO, cryptoPrices, cedearPrices, manualPrices, fciPrices, cedearAuto, trackCash, corporateActions, cpiMonths, cpi?.referenceDate],
         queryFn: (): PortfolioTotals | null => {
             if (!fxRates || instrumentsList.length === 0 || accountsList.length === 0) {
                 return null
@@ -231,15 +236,17 @@ export function useComputedPortfolio() {
 
             const { baseFx, stableFx } = getUserPreferences()
 
-            // Compute holdings
-            const holdings = computeHoldings(movements, instruments, accounts)
+            // Compute holdings (quantities restated for splits / ratio changes,
+            // ARS cost also deflated to today's pesos when a CPI series is loaded)
+            const adjustedMovements = applyCorporateActions(movements, corporateActions)
+            const holdings = computeHoldings(adjustedMovements, instruments, accounts, cpi?.factorAt)
 
             // Compute cash balances (only if tracking cash is enabled)
             const trackCash = getUserPreferences().trackCash
             const cashLedger = trackCash ? computeCashLedger(movements) : { balances: new Map(), openingBalances: new Map() }
 
             // Compute realized PnL
-            const realizedPnLResult = computeRealizedPnL(movements, fxRates, baseFx)
+            const realizedPnLResult = computeRealizedPnL(adjustedMovements, fxRates, baseFx)
 
             // Compute totals
             const totals = computeTotals({
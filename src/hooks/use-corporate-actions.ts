@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { corporateActionsRepo } from '@/db'
+import type { CorporateAction } from '@/domain/corporate-actions'
+
+const QUERY_KEY = ['corporateActions']
+const EMPTY: CorporateAction[] = []
+
+export type CorporateActionInput = Omit<CorporateAction, 'id' | 'createdAtISO' | 'updatedAtISO'>
+
+export function useCorporateActions() {
+    const queryClient = useQueryClient()
+
+    const query = useQuery({
+        queryKey: QUERY_KEY,
+        queryFn: async () => {
+            // Ticker changes become effective on their date, not when they were entered
+            const renamed = await corporateActionsRepo.applyDueTickerChanges()
+            if (renamed > 0) queryClient.invalidateQueries({ queryKey: ['instruments'] })
+            return corporateActionsRepo.list()
+        },
+    })
+
+    // Holdings, lots and the renamed instrument all depend on the actions
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: QUERY_KEY })
+        queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+    }
+
+    const createMutation = useMutation({
+        mutationFn: async (input: CorporateActionInput) => {
+            const nowISO = new Date().toISOString()
+            await corporateActionsRepo.save({
+                ...input,
+                id: crypto.randomUUID(),
+                createdAtISO: nowISO,
+                updatedAtISO: nowISO,
+            })
+        },
+        onSuccess: invalidate,
+    })
+
+    const deleteMutation = useMutation({
+        mutationFn: (id: string) => corporateActionsRepo.delete(id),
+        onSuccess: invalidate,
+    })
+
+    return {
+        data: query.data ?? EMPTY,
+        isLoading: query.isLoading,
+        createAction: (input: CorporateActionInput) => createMutation.mutateAsync(input),
+        deleteAction: (id: string) => deleteMutation.mutate(id),
+        isSaving: createMutation.isPending,
+    }
+}
@@ -0,0 +1,55 @@
+import { useMemo } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { cpiRepo } from '@/db'
+import { createCpiDeflator, type CpiMonth } from '@/domain/inflation'
+
+const QUERY_KEY = ['cpi']
+const EMPTY: CpiMonth[] = []
+
+function todayKey(): string {
+    return new Date().toISOString().slice(0, 10)
+}
+
+/**
+ * Monthly CPI series stored on this device, plus a deflator to today's pesos.
+ */
+export function useCpiSeries() {
+    const queryClient = useQueryClient()
+
+    const query = useQuery({
+        queryKey: QUERY_KEY,
+        queryFn: () => cpiRepo.list(),
+        staleTime: Infinity,
+    })
+
+    const months = query.data ?? EMPTY
+    const referenceDate = todayKey()
+    const deflator = useMemo(() => createCpiDeflator(months, referenceDate), [months, referenceDate])
+
+    // Real-peso cost basis is computed with the portfolio
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: QUERY_KEY })
+        queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+    }
+
+    const replaceMutation = useMutation({
+        mutationFn: (next: CpiMonth[]) => cpiRepo.replaceAll(next),
+        onSuccess: invalidate,
+    })
+
+    const importMutation = useMutation({
+        mutationFn: (incoming: CpiMonth[]) => cpiRepo.upsertMany(incoming),
+        onSuccess: invalidate,
+    })
+
+    return {
+        months,
+        deflator,
+        isLoading: query.isLoading,
+        /** Replaces the whole series (manual editor) */
+        setMonths: (next: CpiMonth[]) => replaceMutation.mutateAsync(next),
+        /** Adds or overwrites the given months (CSV import) */
+        importMonths: (incoming: CpiMonth[]) => importMutation.mutateAsync(incoming),
+        isSaving: replaceMutation.isPending || importMutation.isPending,
+    }
+}
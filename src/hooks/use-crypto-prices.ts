@@ -1,6 +1,8 @@
 import { useQuery } from '@tanstack/react-query'
 import { fetchCryptoPrices } from '@/data/providers/crypto-coingecko'
 import { useAutoRefresh } from './use-auto-refresh'
+import { recordPriceHistory } from './use-price-history'
+import { normalizePriceHistoryKey, toPriceHistoryDate } from '@/domain/prices/price-history'
 
 const CRYPTO_STORAGE_KEY = 'argfolio_crypto_prices_v1'
 
@@ -57,6 +59,19 @@ export function useCryptoPrices(symbols: string[]) {
                 const newCache = { ...currentCache, ...result }
                 localStorage.setItem(CRYPTO_STORAGE_KEY, JSON.stringify(newCache))
 
+                // Stablecoins are pinned, not quoted: only fetched prices go to the history
+                const date = toPriceHistoryDate(new Date().toISOString())
+                recordPriceHistory(
+                    Object.entries(fetched)
+                        .filter(([, price]) => Number.isFinite(price) && price > 0)
+                        .map(([symbol, price]) => ({
+                            key: normalizePriceHistoryKey(symbol),
+                            date,
+                            close: price,
+                            currency: 'USD' as const,
+                        }))
+                ).catch(err => console.warn('Failed to record crypto price history', err))
+
                 setLastRefreshTime(new Date())
                 return result
             } catch (error) {
@@ -1,6 +1,8 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { fetchFxRates } from '@/data/providers/dolar-api'
 import { useAutoRefresh } from './use-auto-refresh'
+import { recordPriceHistory } from './use-price-history'
+import { fxRatesToPricePoints } from '@/domain/prices/price-history'
 import type { FxRates } from '@/domain/types'
 
 const FX_STORAGE_KEY = 'argfolio_fx_rates_cache'
@@ -37,6 +39,9 @@ export function useFxRates() {
                     updateFxSnapshot(data)
                 }).catch(err => console.error('Failed to update FX snapshot', err))
 
+                recordPriceHistory(fxRatesToPricePoints(data))
+                    .catch(err => console.warn('Failed to record FX history', err))
+
                 return data
             } catch (error) {
                 console.warn('FX API failed, attempting fallback...', error)
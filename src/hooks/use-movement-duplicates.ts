@@ -0,0 +1,121 @@
+import { useMemo } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { db, duplicateResolutionsRepo } from '@/db'
+import {
+    buildMergePatch,
+    detectDuplicateGroups,
+    type DuplicateResolution,
+    type DuplicateResolutionAction,
+    type MovementDuplicateGroup,
+} from '@/domain/duplicates'
+import type { Movement } from '@/domain/types'
+import { markMovementsModified } from '@/sync/remote-sync'
+import { useMovements } from './use-movements'
+
+const QUERY_KEY = ['duplicateResolutions']
+const EMPTY: DuplicateResolution[] = []
+
+export interface ResolveDuplicateInput {
+    group: MovementDuplicateGroup
+    action: DuplicateResolutionAction
+    /** Defaults to the suggested movement */
+    keepId?: string
+}
+
+/** Deleting a PF constitution also deletes its redemptions (see movementsRepo.delete) */
+async function collectRemovedMovements(duplicates: Movement[]): Promise<Movement[]> {
+    const ids = new Set(duplicates.map(m => m.id))
+    const cascaded = await db.movements
+        .filter(m => m.pf?.kind === 'redeem' && !!m.pf.pfId && ids.has(m.pf.pfId) && !ids.has(m.id))
+        .toArray()
+    return [...duplicates, ...cascaded]
+}
+
+export function useMovementDuplicates() {
+    const queryClient = useQueryClient()
+    const { data: movements = [], isLoading: movementsLoading } = useMovements()
+
+    const query = useQuery({
+        queryKey: QUERY_KEY,
+        queryFn: () => duplicateResolutionsRepo.list(),
+    })
+    const resolutions = query.data ?? EMPTY
+
+    const groups = useMemo(() => detectDuplicateGroups(movements, {
+        dismissedKeys: resolutions.filter(r => r.action === 'keep_both').map(r => r.groupKey),
+    }), [movements, resolutions])
+
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: QUERY_KEY })
+        queryClient.invalidateQueries({ queryKey: ['movements'] })
+        queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+    }
+
+    const resolveMutation = useMutation({
+        mutationFn: async ({ group, action, keepId = group.keepId }: ResolveDuplicateInput) => {
+            const resolution: DuplicateResolution = {
+                id: crypto.randomUUID(),
+                groupKey: group.key,
+                action,
+                removed: [],
+                createdAtISO: new Date().toISOString(),
+            }
+
+            if (action !== 'keep_both') {
+                const keep = group.movements.find(m => m.id === keepId)
+                if (!keep) throw new Error(`Movement ${keepId} is not part of the group`)
+                const duplicates = group.movements.filter(m => m.id !== keep.id)
+
+                resolution.keptId = keep.id
+                resolution.removed = await collectRemovedMovements(duplicates)
+
+                if (action === 'merge') {
+                    const patch = buildMergePatch(keep, duplicates)
+                    if (Object.keys(patch.after).length > 0) resolution.patch = patch
+                }
+            }
+
+            // All or nothing: a half-applied resolution could not be undone
+            const removedIds = resolution.removed.map(m => m.id)
+            await db.transaction('rw', [db.movements, db.duplicateResolutions], async () => {
+                if (resolution.keptId && resolution.patch) {
+                    await db.movements.update(resolution.keptId, resolution.patch.after)
+                }
+                if (removedIds.length > 0) await db.movements.bulkDelete(removedIds)
+                await db.duplicateResolutions.put(resolution)
+            })
+
+            await markMovementsModified(removedIds, true)
+            if (resolution.keptId && resolution.patch) await markMovementsModified([resolution.keptId])
+            return resolution
+        },
+        onSuccess: invalidate,
+    })
+
+    const undoMutation = useMutation({
+        mutationFn: async (resolution: DuplicateResolution) => {
+            const restoredIds = resolution.removed.map(m => m.id)
+            await db.transaction('rw', [db.movements, db.duplicateResolutions], async () => {
+                if (resolution.removed.length > 0) await db.movements.bulkPut(resolution.removed)
+                // Fields the merge added were undefined before: writing undefined removes them
+                if (resolution.keptId && resolution.patch) {
+                    await db.movements.update(resolution.keptId, resolution.patch.before)
+                }
+                await db.duplicateResolutions.delete(resolution.id)
+            })
+
+            const touchedIds = resolution.keptId && resolution.patch ? [...restoredIds, resolution.keptId] : restoredIds
+            await markMovementsModified(touchedIds)
+        },
+        onSuccess: invalidate,
+    })
+
+    return {
+        groups,
+        resolutions,
+        isLoading: movementsLoading || query.isLoading,
+        resolve: (input: ResolveDuplicateInput) => resolveMutation.mutateAsync(input),
+        undo: (resolution: DuplicateResolution) => undoMutation.mutateAsync(resolution),
+        isResolving: resolveMutation.isPending || undoMutation.isPending,
+    }
+}
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useMovements } from '@/hooks/use-movements'
+import { useInstruments } from '@/hooks/use-instruments'
+import { useManualPrices } from '@/hooks/use-manual-prices'
+import { useComputedPortfolio } from '@/hooks/use-computed-portfolio'
+import { useToast } from '@/components/ui/toast'
+import { db } from '@/db'
+import { syncMovementsBatch } from '@/sync/remote-sync'
+import { buildOptionExpiryMovements, findExpiredOptionPositions, optionExpiryId } from '@/domain/options'
+import type { OptionPosition } from '@/domain/options'
+import type { Instrument, Movement } from '@/domain/types'
+
+// Module-level lock: prevents concurrent runs in the same tab.
+// Cross-tab protection comes from the deterministic expiry ids.
+let globalExpiryLock = false
+
+/**
+ * Writes the expiry (and exercise, if any) of one position inside a Dexie
+ * transaction. Skips it when the option leg already exists.
+ */
+async function expireOnePosition(position: OptionPosition, legs: Movement[]): Promise<Movement[]> {
+    let created: Movement[] = []
+
+    await db.transaction('rw', db.movements, async () => {
+        const existing = await db.movements.get(optionExpiryId(position.instrument.id, position.accountId, 'option'))
+        if (existing) {
+            console.info(`[option-expiry] ${position.instrument.symbol} already expired`)
+            return
+        }
+        await db.movements.bulkAdd(legs)
+        created = legs
+    })
+
+    return created
+}
+
+/**
+ * Closes option positions still open after their expiry. In-the-money ones
+ * are exercised or assigned at the strike, which needs the underlying price:
+ * positions are left open until a quote (market or manual) is available.
+ */
+export function useOptionExpiry() {
+    const { data: movements } = useMovements()
+    const { data: instruments } = useInstruments()
+    const { priceMap: manualPrices } = useManualPrices()
+    const { data: portfolio } = useComputedPortfolio()
+    const { toast } = useToast()
+    const queryClient = useQueryClient()
+
+    const marketPrices = useMemo(() => {
+        const map = new Map<string, number>()
+        for (const category of portfolio?.categories ?? []) {
+            for (const item of category.items) {
+                if (item.currentPrice && item.currentPrice > 0) map.set(item.instrumentId, item.currentPrice)
+            }
+        }
+        return map
+    }, [portfolio])
+
+    const pricesRef = useRef({ manualPrices, marketPrices })
+    useEffect(() => { pricesRef.current = { manualPrices, marketPrices } }, [manualPrices, marketPrices])
+
+    const executeExpiry = useCallback(async (currentMovements: Movement[], currentInstruments: Instrument[]) => {
+        if (globalExpiryLock) return
+        globalExpiryLock = true
+
+        try {
+            const positions = findExpiredOptionPositions(currentMovements, currentInstruments)
+            if (positions.length === 0) return
+
+            const { manualPrices: manual, marketPrices: market } = pricesRef.current
+            const created: Movement[] = []
+            for (const position of positions) {
+                const terms = position.instrument.option
+                const underlying = currentInstruments.find(i => i.id === terms.underlyingInstrumentId)
+                    ?? currentInstruments.find(i => i.symbol === terms.underlyingSymbol && i.category !== 'OPTION')
+                const underlyingPrice = underlying ? (manual.get(underlying.id) ?? market.get(underlying.id)) : undefined
+
+                const legs = buildOptionExpiryMovements(position, underlyingPrice, underlying)
+                if (!legs) continue
+                created.push(...await expireOnePosition(position, legs))
+            }
+            if (created.length === 0) return
+
+            queryClient.invalidateQueries({ queryKey: ['movements'] })
+            queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+            syncMovementsBatch(created).then(({ ok }) => {
+                if (!ok) {
+                    console.warn('[option-expiry] D1 sync failed for', created.length, 'movements')
+                }
+            })
+
+            const exercised = created.filter(m => m.meta?.option?.leg === 'underlying').length
+            const expired = created.length - exercised
+            toast({
+                title: 'Opciones vencidas',
+                description: exercised > 0
+                    ? `Se cerraron ${expired} posiciones en opciones; ${exercised} se ejercieron al strike.`
+                    : `Se cerraron ${expired} posiciones en opciones sin ejercer.`,
+                variant: 'default',
+            })
+        } finally {
+            globalExpiryLock = false
+        }
+    }, [toast, queryClient])
+
+    useEffect(() => {
+        if (!movements || !instruments) return
+        executeExpiry(movements, instruments).catch(error => {
+            console.error('Error executing option expiry:', error)
+        })
+    }, [movements, instruments, marketPrices, executeExpiry])
+}
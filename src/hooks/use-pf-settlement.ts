@@ -2,13 +2,16 @@
 import { useEffect, useRef, useState, useCallback } from 'react'
 import { useMovements } from '@/hooks/use-movements'
 import { useFxRates } from '@/hooks/use-fx-rates'
+import { useUvaSeries } from '@/hooks/use-uva'
 import { derivePFPositions } from '@/domain/pf/processor'
+import { buildPFRenewal, renewalMovementIds } from '@/domain/pf/rollover'
+import type { PFPosition } from '@/domain/pf/types'
 import { db } from '@/db'
 import { syncMovementsBatch } from '@/sync/remote-sync'
 import { useToast } from '@/components/ui/toast'
 import { useAutoSettleFixedTerms } from '@/hooks/use-preferences'
 import { useQueryClient } from '@tanstack/react-query'
-import type { Movement } from '@/domain/types'
+import type { FixedDepositRollover, FixedDepositType, Movement } from '@/domain/types'
 import { formatMoneyARS } from '@/lib/format'
 
 // ══════════════════════════════════════════════════════════════════════════════
@@ -49,6 +52,32 @@ export interface UsePFSettlementReturn {
     isRunning: boolean
     /** Get list of matured but unsettled PFs */
     getPendingMatured: () => Promise<{ id: string; bank: string; amount: number }[]>
+    /** Renew a matured PF with its rollover rule; false if nothing was created */
+    renewNow: (pfId: string) => Promise<boolean>
+}
+
+/**
+ * Whether `m` is an existing redemption of the PF: pf.pfId linkage, pfGroupId
+ * or the bank+amount heuristic for auto SELLs without ids.
+ */
+function isPriorRedemption(
+    m: Movement,
+    pf: { id: string; bank: string; expectedTotalARS: number; pfGroupId?: string }
+): boolean {
+    if (m.assetClass !== 'pf' || m.type !== 'SELL') return false
+    // Exact linkage (post-fix movements)
+    if (m.pf?.pfId === pf.id) return true
+    // Linked to another constitution (e.g. the renewed link of a chain in this group)
+    if (m.pf?.pfId && m.pf.pfId !== pf.pfGroupId) return false
+    // pfGroupId match (if set)
+    if (pf.pfGroupId && (
+        m.meta?.pfGroupId === pf.pfGroupId ||
+        m.meta?.fixedDeposit?.pfGroupId === pf.pfGroupId
+    )) return true
+    // Heuristic: same bank + same amount + auto flag
+    if (m.isAuto && m.bank === pf.bank &&
+        Math.abs(m.totalAmount - pf.expectedTotalARS) < 0.01) return true
+    return false
 }
 
 /**
@@ -69,6 +98,7 @@ async function settleOnePF(pf: {
     id: string
     accountId: string
     bank: string
+    depositType: FixedDepositType
     expectedTotalARS: number
     principalARS: number
     expectedInterestARS: number
@@ -93,23 +123,7 @@ async function settleOnePF(pf: {
         }
 
         // ── Guard 2: legacy SELLs (pre-fix movements without deterministic IDs) ──
-        // Searches by pf.pfId linkage, pfGroupId, or bank+amount heuristic
-        const legacyCount = await db.movements
-            .filter(m => {
-                if (m.assetClass !== 'pf' || m.type !== 'SELL') return false
-                // Exact linkage (post-fix movements)
-                if (m.pf?.pfId === pf.id) return true
-                // pfGroupId match (if set)
-                if (pf.pfGroupId && (
-                    m.meta?.pfGroupId === pf.pfGroupId ||
-                    m.meta?.fixedDeposit?.pfGroupId === pf.pfGroupId
-                )) return true
-                // Heuristic: same bank + same amount + auto flag
-                if (m.isAuto && m.bank === pf.bank &&
-                    Math.abs(m.totalAmount - pf.expectedTotalARS) < 0.01) return true
-                return false
-            })
-            .count()
+        const legacyCount = await db.movements.filter(m => isPriorRedemption(m, pf)).count()
 
         if (legacyCount > 0) {
             console.info(`[pf-settlement] PF ${pf.id} already settled (${legacyCount} legacy SELL found)`)
@@ -145,6 +159,7 @@ async function settleOnePF(pf: {
                     pfCode: pfCode,
                     settlementMode: 'auto',
                     redeemedAt: settlementDate,
+                    depositType: pf.depositType,
                     principalARS: pf.principalARS,
                     interestARS: pf.expectedInterestARS || 0,
                     totalARS: settlementAmount,
@@ -195,10 +210,49 @@ async function settleOnePF(pf: {
     return created
 }
 
+/**
+ * Renews a matured PF per its rollover rule (redemption + new constitution),
+ * with the same transactional guards as settleOnePF. Returns the created
+ * movements (empty if it was already redeemed or the rule yields no amount).
+ */
+async function renewOnePF(
+    pf: PFPosition,
+    rule: FixedDepositRollover,
+    settlementMode: 'auto' | 'manual'
+): Promise<Movement[]> {
+    const renewal = buildPFRenewal(pf, rule, settlementMode)
+    if (!renewal) return []
+
+    const { sellId } = renewalMovementIds(pf.id)
+    const created: Movement[] = []
+
+    await db.transaction('rw', db.movements, async () => {
+        // ── Guard 1: deterministic IDs (renewal or settlement) ──
+        const existing = await db.movements.bulkGet([sellId, settlementSellId(pf.id)])
+        if (existing.some(Boolean)) {
+            console.info(`[pf-settlement] PF ${pf.id} already renewed or settled (deterministic ID found)`)
+            return
+        }
+
+        // ── Guard 2: legacy SELLs ──
+        const legacyCount = await db.movements.filter(m => isPriorRedemption(m, pf)).count()
+        if (legacyCount > 0) {
+            console.info(`[pf-settlement] PF ${pf.id} already redeemed (${legacyCount} legacy SELL found)`)
+            return
+        }
+
+        await db.movements.bulkAdd(renewal)
+        created.push(...renewal)
+    })
+
+    return created
+}
+
 export function usePFSettlement(options?: { autoEffect?: boolean }): UsePFSettlementReturn {
     const enableAutoEffect = options?.autoEffect ?? true
     const { data: movements } = useMovements()
     const { data: fxRates } = useFxRates()
+    const { lookup: uva } = useUvaSeries()
     const { toast } = useToast()
     const { autoSettleEnabled } = useAutoSettleFixedTerms()
     const queryClient = useQueryClient()
@@ -221,8 +275,10 @@ export function usePFSettlement(options?: { autoEffect?: boolean }): UsePFSettle
     // need them in its dependency array (breaks the invalidation feedback loop).
     const movementsRef = useRef(movements)
     const fxRatesRef = useRef(fxRates)
+    const uvaRef = useRef(uva)
     useEffect(() => { movementsRef.current = movements }, [movements])
     useEffect(() => { fxRatesRef.current = fxRates }, [fxRates])
+    useEffect(() => { uvaRef.current = uva }, [uva])
 
     // Core settlement logic — reads from refs, NOT from closure.
     // This means executeSettlement is stable (doesn't change on every render).
@@ -248,7 +304,7 @@ export function usePFSettlement(options?: { autoEffect?: boolean }): UsePFSettle
         globalSettlementLock = true
 
         try {
-            const state = derivePFPositions(currentMovements, currentFxRates)
+            const state = derivePFPositions(currentMovements, currentFxRates, uvaRef.current)
             const maturedToSettle = state.matured
 
             if (maturedToSettle.length === 0) {
@@ -259,11 +315,16 @@ export function usePFSettlement(options?: { autoEffect?: boolean }): UsePFSettle
             let totalSettledAmount = 0
             const settledBanks = new Set<string>()
 
+            let settledCount = 0
+
             for (const pf of maturedToSettle) {
-                // Each PF is settled in its own atomic transaction
-                const created = await settleOnePF(pf)
+                // Each PF is settled (or renewed, when it has a rollover rule) in its own atomic transaction
+                const created = pf.rollover
+                    ? await renewOnePF(pf, pf.rollover, 'auto')
+                    : await settleOnePF(pf)
                 if (created.length > 0) {
                     allCreated.push(...created)
+                    settledCount += 1
                     totalSettledAmount += pf.expectedTotalARS
                     settledBanks.add(pf.bank || 'Desconocido')
                 }
@@ -291,7 +352,7 @@ export function usePFSettlement(options?: { autoEffect?: boolean }): UsePFSettle
                 }
             }
 
-            return { settledCount: allCreated.length / 2, totalAmount: totalSettledAmount }
+            return { settledCount, totalAmount: totalSettledAmount }
         } finally {
             globalSettlementLock = false
         }
@@ -313,16 +374,40 @@ export function usePFSettlement(options?: { autoEffect?: boolean }): UsePFSettle
         }
     }, [executeSettlement, isRunning])
 
+    // Manual renewal from the PF detail page. User-initiated like the wizard's
+    // manual redeem, so the kill switch (auto-settlement only) doesn't apply.
+    const renewNow = useCallback(async (pfId: string): Promise<boolean> => {
+        const currentMovements = movementsRef.current
+        const currentFxRates = fxRatesRef.current
+        if (!currentMovements || !currentFxRates) return false
+
+        const pf = derivePFPositions(currentMovements, currentFxRates, uvaRef.current)
+            .matured.find(p => p.id === pfId)
+        if (!pf?.rollover) return false
+
+        const created = await renewOnePF(pf, pf.rollover, 'manual')
+        if (created.length === 0) return false
+
+        queryClient.invalidateQueries({ queryKey: ['movements'] })
+        queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+        syncMovementsBatch(created).then(({ ok }) => {
+            if (!ok) {
+                console.warn('[pf-settlement] D1 sync failed for', created.length, 'movements')
+            }
+        })
+        return true
+    }, [queryClient])
+
     // Get pending matured PFs (for UI display)
     const getPendingMatured = useCallback(async () => {
         if (!movements || !fxRates) return []
-        const state = derivePFPositions(movements, fxRates)
+        const state = derivePFPositions(movements, fxRates, uva)
         return state.matured.map(pf => ({
             id: pf.id,
             bank: pf.bank || 'Desconocido',
             amount: pf.expectedTotalARS
         }))
-    }, [movements, fxRates])
+    }, [movements, fxRates, uva])
 
     // Auto-run effect (respects preference + enableAutoEffect flag)
     // NOTE: executeSettlement is NOT in deps — it's stable (ref-based).
@@ -347,5 +432,5 @@ export function usePFSettlement(options?: { autoEffect?: boolean }): UsePFSettle
         runSettlement()
     }, [enableAutoEffect, movements, fxRates, tick, autoSettleEnabled, executeSettlement])
 
-    return { runSettlementNow, isRunning, getPendingMatured }
+    return { runSettlementNow, renewNow, isRunning, getPendingMatured }
 }
@@ -1,15 +1,17 @@
 import { useMemo } from 'react'
 import { useMovements } from '@/hooks/use-movements'
 import { useFxRates } from '@/hooks/use-fx-rates'
+import { useUvaSeries } from '@/hooks/use-uva'
 import { derivePFPositions, PFDerivedState } from '@/domain/pf/processor'
 
 export function usePF() {
     const { data: movements, isLoading: isMovementsLoading } = useMovements()
     const { data: fxRates, isLoading: isFxLoading } = useFxRates()
+    const { lookup: uva } = useUvaSeries()
 
     const state: PFDerivedState = useMemo(() => {
-        return derivePFPositions(movements, fxRates)
-    }, [movements, fxRates])
+        return derivePFPositions(movements, fxRates, uva)
+    }, [movements, fxRates, uva])
 
 
 
@@ -0,0 +1,143 @@
+import { useEffect } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { priceAlertsRepo } from '@/db'
+import {
+    evaluatePriceAlerts,
+    type AlertAssetKind,
+    type AlertQuote,
+    type PriceAlertEvent,
+    type PriceAlertRule,
+} from '@/domain/alerts'
+
+const RULES_QUERY_KEY = ['price-alerts', 'rules']
+const EVENTS_QUERY_KEY = ['price-alerts', 'events']
+
+export type PriceAlertInput = Omit<PriceAlertRule, 'id' | 'createdAtISO' | 'updatedAtISO' | 'enabled' | 'lastValue' | 'triggeredAtISO'>
+
+export function usePriceAlerts() {
+    const queryClient = useQueryClient()
+
+    const { data: rules = [], isLoading } = useQuery({
+        queryKey: RULES_QUERY_KEY,
+        queryFn: () => priceAlertsRepo.list(),
+    })
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: RULES_QUERY_KEY })
+
+    const createMutation = useMutation({
+        mutationFn: async (input: PriceAlertInput) => {
+            const nowISO = new Date().toISOString()
+            await priceAlertsRepo.save({
+                ...input,
+                id: crypto.randomUUID(),
+                enabled: true,
+                createdAtISO: nowISO,
+                updatedAtISO: nowISO,
+            })
+        },
+        onSuccess: invalidate,
+    })
+
+    const toggleMutation = useMutation({
+        mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+            // Re-enabling re-arms the rule so a condition that already holds notifies again
+            await priceAlertsRepo.update(id, enabled ? { enabled, triggeredAtISO: undefined } : { enabled })
+        },
+        onSuccess: invalidate,
+    })
+
+    const deleteMutation = useMutation({
+        mutationFn: (id: string) => priceAlertsRepo.delete(id),
+        onSuccess: invalidate,
+    })
+
+    return {
+        rules,
+        isLoading,
+        createRule: (input: PriceAlertInput) => {
+            requestAlertNotificationPermission()
+            return createMutation.mutateAsync(input)
+        },
+        setRuleEnabled: (id: string, enabled: boolean) => toggleMutation.mutate({ id, enabled }),
+        deleteRule: (id: string) => deleteMutation.mutate(id),
+    }
+}
+
+export function usePriceAlertInbox() {
+    const queryClient = useQueryClient()
+
+    const { data: events = [] } = useQuery({
+        queryKey: EVENTS_QUERY_KEY,
+        queryFn: () => priceAlertsRepo.listEvents(),
+    })
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: EVENTS_QUERY_KEY })
+
+    const markReadMutation = useMutation({
+        mutationFn: () => priceAlertsRepo.markEventsRead(),
+        onSuccess: invalidate,
+    })
+
+    const clearMutation = useMutation({
+        mutationFn: () => priceAlertsRepo.clearEvents(),
+        onSuccess: invalidate,
+    })
+
+    return {
+        events,
+        unreadCount: events.filter(event => !event.readAtISO).length,
+        markAllRead: () => markReadMutation.mutate(),
+        clear: () => clearMutation.mutate(),
+    }
+}
+
+/**
+ * Ask for browser notification permission. Must run from a user gesture
+ * (creating a rule), browsers ignore the prompt otherwise.
+ */
+export function requestAlertNotificationPermission(): void {
+    if (typeof window === 'undefined' || !('Notification' in window)) return
+    if (Notification.permission !== 'default') return
+    Notification.requestPermission().catch(() => undefined)
+}
+
+function showBrowserNotification(event: PriceAlertEvent): void {
+    if (typeof window === 'undefined' || !('Notification' in window)) return
+    if (Notification.permission !== 'granted') return
+    try {
+        new Notification('Argfolio · Alerta de precio', { body: event.message, tag: event.ruleId })
+    } catch (error) {
+        console.warn('[price-alerts] notification failed', error)
+    }
+}
+
+// Several market hooks (and several instances of the same hook) can refresh at
+// once; evaluations run one at a time so a breach is only recorded once.
+let evaluationQueue: Promise<void> = Promise.resolve()
+
+/**
+ * Evaluates the rules for one asset kind every time its quotes refresh.
+ * Called from useMarketCedears / useMarketCrypto / useMarketIndicators.
+ */
+export function usePriceAlertEvaluation(assetKind: AlertAssetKind, quotes: AlertQuote[]): void {
+    const queryClient = useQueryClient()
+
+    useEffect(() => {
+        if (quotes.length === 0) return
+
+        evaluationQueue = evaluationQueue.then(async () => {
+            const rules = (await priceAlertsRepo.list()).filter(rule => rule.assetKind === assetKind)
+            if (rules.length === 0) return
+
+            const evaluation = evaluatePriceAlerts(rules, quotes, new Date().toISOString())
+            await priceAlertsRepo.applyEvaluation(evaluation)
+            if (evaluation.events.length === 0) return
+
+            evaluation.events.forEach(showBrowserNotification)
+            queryClient.invalidateQueries({ queryKey: EVENTS_QUERY_KEY })
+            queryClient.invalidateQueries({ queryKey: RULES_QUERY_KEY })
+        }).catch(error => {
+            console.warn('[price-alerts] evaluation failed', error)
+        })
+    }, [assetKind, quotes, queryClient])
+}
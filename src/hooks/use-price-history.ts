@@ -0,0 +1,108 @@
+import { useMemo } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { instrumentsRepo, priceHistoryRepo } from '@/db'
+import {
+    isFxHistoryKey,
+    normalizePriceHistoryKey,
+    type PriceHistoryPoint,
+} from '@/domain/prices/price-history'
+
+const QUERY_KEY = ['priceHistory']
+const EMPTY: PriceHistoryPoint[] = []
+
+// Quotes already written in this session (`key|date` -> close)
+const recordedCloses = new Map<string, number>()
+
+/**
+ * Stores the quotes of a price refresh as the day's close. Market lists cover
+ * hundreds of tickers, so only instruments in the local catalog are kept (FX
+ * always is), and unchanged quotes are not written again.
+ */
+export async function recordPriceHistory(points: PriceHistoryPoint[]): Promise<void> {
+    const fresh = points.filter(p => recordedCloses.get(`${p.key}|${p.date}`) !== p.close)
+    if (fresh.length === 0) return
+
+    const known = new Set<string>()
+    if (fresh.some(p => !isFxHistoryKey(p.key))) {
+        for (const instrument of await instrumentsRepo.list()) {
+            known.add(normalizePriceHistoryKey(instrument.symbol))
+            known.add(normalizePriceHistoryKey(instrument.id))
+        }
+    }
+
+    const kept = fresh.filter(p => isFxHistoryKey(p.key) || known.has(p.key))
+    if (kept.length > 0) await priceHistoryRepo.upsertMany(kept)
+    for (const p of fresh) recordedCloses.set(`${p.key}|${p.date}`, p.close)
+}
+
+export interface PriceHistoryKeySummary {
+    key: string
+    from: string
+    to: string
+    count: number
+}
+
+/**
+ * Daily closes (instruments + FX) stored on this device, recorded or imported.
+ */
+export function usePriceHistory() {
+    const queryClient = useQueryClient()
+
+    const query = useQuery({
+        queryKey: QUERY_KEY,
+        queryFn: () => priceHistoryRepo.list(),
+        // Refreshes keep adding closes in the background
+        staleTime: 60 * 1000,
+    })
+
+    const points = query.data ?? EMPTY
+
+    const summary = useMemo(() => {
+        const byKey = new Map<string, PriceHistoryKeySummary>()
+        for (const point of points) {
+            const current = byKey.get(point.key)
+            if (!current) {
+                byKey.set(point.key, { key: point.key, from: point.date, to: point.date, count: 1 })
+                continue
+            }
+            current.count += 1
+            if (point.date < current.from) current.from = point.date
+            if (point.date > current.to) current.to = point.date
+        }
+        return [...byKey.values()].sort((a, b) => a.key.localeCompare(b.key))
+    }, [points])
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: QUERY_KEY })
+
+    const importMutation = useMutation({
+        mutationFn: (incoming: PriceHistoryPoint[]) => priceHistoryRepo.upsertMany(incoming),
+        onSuccess: invalidate,
+    })
+
+    const deleteKeyMutation = useMutation({
+        mutationFn: (key: string) => priceHistoryRepo.deleteKey(key),
+        onSuccess: invalidate,
+    })
+
+    return {
+        points,
+        summary,
+        isLoading: query.isLoading,
+        /** Adds or overwrites closes (CSV import) */
+        importPoints: (incoming: PriceHistoryPoint[]) => importMutation.mutateAsync(incoming),
+        deleteKey: (key: string) => deleteKeyMutation.mutateAsync(key),
+        isSaving: importMutation.isPending || deleteKeyMutation.isPending,
+    }
+}
+
+/**
+ * Daily closes of one key (ticker, FCI instrument id or FX:<type>), oldest first.
+ */
+export function usePriceSeries(key: string | null) {
+    return useQuery({
+        queryKey: [...QUERY_KEY, key],
+        queryFn: () => priceHistoryRepo.listByKey(key!),
+        enabled: !!key,
+        staleTime: 5 * 60 * 1000,
+    })
+}
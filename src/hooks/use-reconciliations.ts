@@ -0,0 +1,65 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { movementsRepo, reconciliationsRepo } from '@/db'
+import {
+    buildAdjustmentMovement,
+    isWithinTolerance,
+    type Reconciliation,
+} from '@/domain/reconciliation'
+
+const EMPTY: Reconciliation[] = []
+
+export type ReconciliationInput = Omit<Reconciliation, 'id' | 'difference' | 'adjustmentMovementId' | 'createdAtISO'>
+
+export function useReconciliations(accountId: string | undefined) {
+    const queryClient = useQueryClient()
+
+    const query = useQuery({
+        queryKey: ['reconciliations', accountId],
+        queryFn: () => reconciliationsRepo.listByAccount(accountId!),
+        enabled: !!accountId,
+    })
+
+    // Adjustments are movements: balances and holdings follow them
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: ['reconciliations'] })
+        queryClient.invalidateQueries({ queryKey: ['movements'] })
+        queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+    }
+
+    const reconcileMutation = useMutation({
+        mutationFn: async (input: ReconciliationInput) => {
+            const reconciliation: Reconciliation = {
+                ...input,
+                id: crypto.randomUUID(),
+                difference: input.statementBalance - input.ledgerBalance,
+                createdAtISO: new Date().toISOString(),
+            }
+            if (!isWithinTolerance(reconciliation.difference)) {
+                const adjustment = buildAdjustmentMovement(reconciliation)
+                await movementsRepo.create(adjustment)
+                reconciliation.adjustmentMovementId = adjustment.id
+            }
+            await reconciliationsRepo.save(reconciliation)
+            return reconciliation
+        },
+        onSuccess: invalidate,
+    })
+
+    const deleteMutation = useMutation({
+        mutationFn: async (reconciliation: Reconciliation) => {
+            if (reconciliation.adjustmentMovementId) {
+                await movementsRepo.delete(reconciliation.adjustmentMovementId)
+            }
+            await reconciliationsRepo.delete(reconciliation.id)
+        },
+        onSuccess: invalidate,
+    })
+
+    return {
+        data: query.data ?? EMPTY,
+        isLoading: query.isLoading,
+        reconcile: (input: ReconciliationInput) => reconcileMutation.mutateAsync(input),
+        deleteReconciliation: (reconciliation: Reconciliation) => deleteMutation.mutateAsync(reconciliation),
+        isSaving: reconcileMutation.isPending,
+    }
+}
@@ -5,6 +5,7 @@ import {
     bootstrapRemoteSync,
     isRemoteSyncEnabled,
     subscribeRemoteSyncStatus,
+    syncIncrementalChanges,
 } from '@/sync/remote-sync'
 
 export function useRemoteSync() {
@@ -25,19 +26,39 @@ export function useRemoteSync() {
             })
         })
 
+        let bootstrapped = false
         bootstrapRemoteSync().then((result) => {
             if (cancelled || !result.ok) return
+            bootstrapped = true
 
             queryClient.invalidateQueries({ queryKey: ['accounts'] })
             queryClient.invalidateQueries({ queryKey: ['movements'] })
             queryClient.invalidateQueries({ queryKey: ['instruments'] })
             queryClient.invalidateQueries({ queryKey: ['snapshots'] })
             queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+            queryClient.invalidateQueries({ queryKey: ['price-alerts'] })
+            queryClient.invalidateQueries({ queryKey: ['accountSettings'] })
         })
 
+        // Pick up edits made on other devices when the tab becomes visible again.
+        const handleVisibility = () => {
+            if (document.visibilityState !== 'visible' || !bootstrapped) return
+            syncIncrementalChanges().then((result) => {
+                if (cancelled || !result.ok || result.applied === 0) return
+                queryClient.invalidateQueries({ queryKey: ['accounts'] })
+                queryClient.invalidateQueries({ queryKey: ['movements'] })
+                queryClient.invalidateQueries({ queryKey: ['instruments'] })
+                queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+                queryClient.invalidateQueries({ queryKey: ['price-alerts'] })
+                queryClient.invalidateQueries({ queryKey: ['accountSettings'] })
+            })
+        }
+        document.addEventListener('visibilitychange', handleVisibility)
+
         return () => {
             cancelled = true
             unsubscribe()
+            document.removeEventListener('visibilitychange', handleVisibility)
         }
     }, [queryClient, toast])
 }
@@ -1,6 +1,14 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
-import { snapshotsRepo } from '@/db'
+import {
+    accountsRepo,
+    corporateActionsRepo,
+    db,
+    instrumentsRepo,
+    movementsRepo,
+    priceHistoryRepo,
+    snapshotsRepo,
+} from '@/db'
 import type { FxType } from '@/domain/types'
 import { usePortfolioV2 } from '@/features/portfolioV2'
 import { useAccounts, useInstruments } from '@/hooks/use-instruments'
@@ -10,8 +18,10 @@ import {
     buildSnapshotFromPortfolioV2,
     isPortfolioReadyForSnapshot,
     readAutoSnapshotsEnabled,
+    toSnapshotDateKey,
     writeAutoSnapshotsEnabled,
 } from '@/features/dashboardV2/snapshot-v2'
+import { backfillSnapshots } from '@/features/dashboardV2/snapshot-backfill'
 import { syncPushSnapshots } from '@/sync/remote-sync'
 
 const AUTO_SNAPSHOTS_EVENT = 'argfolio:auto-snapshots-changed'
@@ -85,6 +95,57 @@ export function useClearSnapshots() {
     })
 }
 
+/**
+ * Reconstructs the missing daily snapshots up to yesterday from the movements
+ * and the imported price history. Existing snapshots are never touched.
+ */
+export function useBackfillSnapshots() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async () => {
+            const [movements, instruments, accounts, corporateActions, prices, snapshots, accountSettings] = await Promise.all([
+                movementsRepo.list(),
+                instrumentsRepo.list(),
+                accountsRepo.list(),
+                corporateActionsRepo.list(),
+                priceHistoryRepo.list(),
+                snapshotsRepo.list(),
+                db.accountSettings.toArray(),
+            ])
+
+            const now = new Date()
+            const yesterday = new Date(now)
+            yesterday.setDate(yesterday.getDate() - 1)
+
+            const result = backfillSnapshots({
+                movements,
+                instruments,
+                accounts,
+                prices,
+                corporateActions,
+                frascoAccountIds: accountSettings.filter(s => s.rubroOverride === 'frascos').map(s => s.id),
+                includeCash: localStorage.getItem('argfolio.trackCash') === 'true',
+                existingDates: snapshots.map(s => s.dateLocal),
+                toDate: toSnapshotDateKey(yesterday),
+                now,
+            })
+
+            if (result.snapshots.length > 0) {
+                await snapshotsRepo.putMany(result.snapshots)
+                syncPushSnapshots(result.snapshots).catch((error) => {
+                    console.warn('[snapshots] sync push failed (backfill)', error)
+                })
+            }
+
+            return result
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['snapshots'] })
+        },
+    })
+}
+
 export function useAutoSnapshotsSetting() {
     const [enabled, setEnabled] = useState<boolean>(() => readAutoSnapshotsEnabled())
 
@@ -0,0 +1,47 @@
+import { useMemo } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { uvaRepo } from '@/db'
+import { createUvaLookup, type UvaPoint } from '@/domain/inflation'
+
+const QUERY_KEY = ['uva']
+const EMPTY: UvaPoint[] = []
+
+/**
+ * Daily UVA series stored on this device, plus a lookup for UVA plazos fijos.
+ */
+export function useUvaSeries() {
+    const queryClient = useQueryClient()
+
+    const query = useQuery({
+        queryKey: QUERY_KEY,
+        queryFn: () => uvaRepo.list(),
+        staleTime: Infinity,
+    })
+
+    const points = query.data ?? EMPTY
+    const lookup = useMemo(() => createUvaLookup(points), [points])
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: QUERY_KEY })
+
+    const importMutation = useMutation({
+        mutationFn: (incoming: UvaPoint[]) => uvaRepo.upsertMany(incoming),
+        onSuccess: invalidate,
+    })
+
+    const clearMutation = useMutation({
+        mutationFn: () => uvaRepo.clearAll(),
+        onSuccess: invalidate,
+    })
+
+    return {
+        points,
+        lookup,
+        /** Last published value, null without a series */
+        latest: points[points.length - 1] ?? null,
+        isLoading: query.isLoading,
+        /** Adds or overwrites the given days (CSV import) */
+        importPoints: (incoming: UvaPoint[]) => importMutation.mutateAsync(incoming),
+        clear: () => clearMutation.mutateAsync(),
+        isSaving: importMutation.isPending || clearMutation.isPending,
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * useValuationDefaults Hook
+ *
+ * Global valuation policy: which dollar values each asset class.
+ * Stored as a synced preference; per-account overrides live on AccountSettings.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import {
+    DEFAULT_VALUATION_DEFAULTS,
+    VALUATION_POLICY_STORAGE_KEY,
+    readValuationDefaults,
+    type ValuationCategory,
+    type ValuationDefaults,
+} from '@/domain/fx/valuation-policy'
+import type { FxKey } from '@/domain/fx/types'
+import { markPreferencesModified } from '@/sync/remote-sync'
+
+const EVENT_NAME = 'argfolio:valuationPolicy'
+
+function writeValuationDefaults(defaults: ValuationDefaults) {
+    localStorage.setItem(VALUATION_POLICY_STORAGE_KEY, JSON.stringify(defaults))
+    markPreferencesModified()
+    window.dispatchEvent(new Event(EVENT_NAME))
+}
+
+export function useValuationDefaults() {
+    const queryClient = useQueryClient()
+    const [defaults, setDefaults] = useState<ValuationDefaults>(() => readValuationDefaults())
+
+    useEffect(() => {
+        const onStorage = (e: StorageEvent) => {
+            if (e.key !== VALUATION_POLICY_STORAGE_KEY) return
+            setDefaults(readValuationDefaults())
+        }
+        const onLocal = () => setDefaults(readValuationDefaults())
+
+        window.addEventListener('storage', onStorage)
+        window.addEventListener(EVENT_NAME, onLocal)
+        return () => {
+            window.removeEventListener('storage', onStorage)
+            window.removeEventListener(EVENT_NAME, onLocal)
+        }
+    }, [])
+
+    const setDefault = useCallback((category: ValuationCategory, fxKey: FxKey) => {
+        writeValuationDefaults({ ...readValuationDefaults(), [category]: fxKey })
+        queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+    }, [queryClient])
+
+    const resetDefaults = useCallback(() => {
+        writeValuationDefaults({ ...DEFAULT_VALUATION_DEFAULTS })
+        queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+    }, [queryClient])
+
+    return { defaults, setDefault, resetDefaults }
+}
@@ -1,12 +1,15 @@
 /**
  * useAccountSettings Hook
  * 
- * CRUD operations for account settings (display names, rubro overrides, TNA overrides).
- * Used to customize account display and classification in V2 portfolio views.
+ * CRUD operations for account settings (display names, rubro overrides, TNA overrides,
+ * FX valuation overrides). Used to customize account display, classification and
+ * valuation in V2 portfolio views. Synced cross-device as one versioned record per account.
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { db, type AccountSettings, type RubroOverride } from '@/db'
+import type { FxOverride } from '@/domain/fx/valuation-policy'
+import { markAccountSettingsModified } from '@/sync/remote-sync'
 import { useCallback } from 'react'
 
 export interface AccountSettingsInput {
@@ -14,6 +17,8 @@ export interface AccountSettingsInput {
     rubroOverride?: RubroOverride
     tnaOverride?: number
     hidden?: boolean
+    /** Replaces the whole map (by item kind); an empty map clears it */
+    fxOverrides?: Partial<Record<string, FxOverride>>
 }
 
 // Query key for account settings
@@ -35,19 +40,24 @@ export function useAccountSettings() {
     const saveMutation = useMutation({
         mutationFn: async ({ accountId, input }: { accountId: string; input: AccountSettingsInput }) => {
             const existing = await db.accountSettings.get(accountId)
+            const fxOverrides = input.fxOverrides ?? existing?.fxOverrides
             const record: AccountSettings = {
                 id: accountId,
                 displayNameOverride: input.displayNameOverride ?? existing?.displayNameOverride,
                 rubroOverride: input.rubroOverride ?? existing?.rubroOverride,
                 tnaOverride: input.tnaOverride ?? existing?.tnaOverride,
                 hidden: input.hidden ?? existing?.hidden,
+                fxOverrides: fxOverrides && Object.keys(fxOverrides).length > 0 ? fxOverrides : undefined,
                 updatedAt: new Date().toISOString(),
             }
             await db.accountSettings.put(record)
+            await markAccountSettingsModified([accountId])
             return record
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: QUERY_KEY })
+            // FX overrides change valuations
+            queryClient.invalidateQueries({ queryKey: ['portfolio'] })
         },
     })
 
@@ -55,6 +65,7 @@ export function useAccountSettings() {
     const deleteMutation = useMutation({
         mutationFn: async (accountId: string) => {
             await db.accountSettings.delete(accountId)
+            await markAccountSettingsModified([accountId], true)
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: QUERY_KEY })
@@ -4,8 +4,10 @@
  * Maps FCI instrument IDs to current VCP prices from market data.
  */
 
-import { useMemo } from 'react'
+import { useEffect, useMemo } from 'react'
 import { useMarketFci } from '@/hooks/useMarketFci'
+import { recordPriceHistory } from '@/hooks/use-price-history'
+import { normalizePriceHistoryKey, toPriceHistoryDate } from '@/domain/prices/price-history'
 import { generateFciSlug } from '@/pages/movements/components/FciTypeahead'
 
 export interface FciPrice {
@@ -40,6 +42,21 @@ export function useFciPrices() {
         return map
     }, [items])
 
+    // Each VCP publication becomes the close of its date
+    useEffect(() => {
+        if (priceMap.size === 0) return
+        recordPriceHistory(
+            [...priceMap.entries()]
+                .filter(([, price]) => price.vcp > 0 && !!price.date)
+                .map(([id, price]) => ({
+                    key: normalizePriceHistoryKey(id),
+                    date: toPriceHistoryDate(price.date),
+                    close: price.vcp,
+                    currency: price.currency,
+                }))
+        ).catch(err => console.warn('Failed to record FCI price history', err))
+    }, [priceMap])
+
     return {
         priceMap,
         isLoading,
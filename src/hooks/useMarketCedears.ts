@@ -18,6 +18,8 @@ import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { getCedearMaster, type CedearMasterItem } from '@/domain/cedears/master'
 import { useInstruments } from './use-instruments'
 import { useFxRates } from './use-fx-rates'
+import { usePriceAlertEvaluation } from './use-price-alerts'
+import type { AlertQuote } from '@/domain/alerts'
 
 export interface MarketCedearItem {
     kind: 'cedear'
@@ -262,6 +264,16 @@ export function useMarketCedears(options: UseMarketCedearsOptions = {}) {
         return list
     }, [masterMap, ppiPrices, fxRates?.mep?.sell, enabled])
 
+    // 2b. Price alerts watch every CEDEAR, not only the visible page
+    const alertQuotes = useMemo<AlertQuote[]>(() => unionList.map(item => ({
+        assetKind: 'cedear' as const,
+        assetId: item.ticker,
+        value: item.lastPriceArs,
+        valueUsd: item.lastPriceUsd,
+        changePct1d: item.changePct1d,
+    })), [unionList])
+    usePriceAlertEvaluation('cedear', alertQuotes)
+
     // 3. Filter based on mode AND query
     const filtered = useMemo(() => {
         if (!enabled) return []
@@ -1,4 +1,7 @@
+import { useMemo } from 'react'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { usePriceAlertEvaluation } from './use-price-alerts'
+import type { AlertQuote } from '@/domain/alerts'
 
 export interface CryptoMarketItem {
     kind: 'crypto'
@@ -126,6 +129,17 @@ export function useMarketCrypto(options: UseMarketCryptoOptions = {}) {
         placeholderData: (prev) => prev
     })
 
+    const alertQuotes = useMemo<AlertQuote[]>(() => {
+        const data = Array.isArray(cryptoQuery.data) ? cryptoQuery.data : []
+        return data.map(item => ({
+            assetKind: 'crypto' as const,
+            assetId: item.id,
+            value: item.priceUsd,
+            changePct1d: item.changePct24h,
+        }))
+    }, [cryptoQuery.data])
+    usePriceAlertEvaluation('crypto', alertQuotes)
+
     const refetch = () => {
         localStorage.removeItem(`${STORAGE_KEY}.${mode}`)
         queryClient.invalidateQueries({ queryKey: ['market', 'crypto', mode] })
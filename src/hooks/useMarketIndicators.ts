@@ -1,5 +1,10 @@
+import { useMemo } from 'react'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
-import type { IndicatorsResponse } from '@/server/market/indicatorsProvider'
+import type { IndicatorsResponse, MarketIndicator } from '@/server/market/indicatorsProvider'
+import type { AlertQuote } from '@/domain/alerts'
+import type { FxRates } from '@/domain/types'
+import { useFxRates } from './use-fx-rates'
+import { usePriceAlertEvaluation } from './use-price-alerts'
 
 const STORAGE_KEY = 'argfolio.marketIndicators.v1'
 const TTL_MS = 5 * 60 * 1000 // 5 minutes
@@ -38,6 +43,35 @@ async function fetchMarketIndicators(): Promise<IndicatorsResponse> {
     return data
 }
 
+function indicatorQuote(assetId: string, indicator: MarketIndicator | undefined): AlertQuote | null {
+    if (!indicator || !Number.isFinite(indicator.value) || indicator.value <= 0) return null
+    // Riesgo País only reports an absolute change; derive the % from the previous close
+    let changePct1d = indicator.changePct1d ?? null
+    if (changePct1d == null && indicator.changeAbs1d != null) {
+        const previous = indicator.value - indicator.changeAbs1d
+        changePct1d = previous > 0 ? (indicator.changeAbs1d / previous) * 100 : null
+    }
+    return { assetKind: 'indicator', assetId, value: indicator.value, changePct1d }
+}
+
+function buildIndicatorQuotes(data: IndicatorsResponse | undefined, fxRates: FxRates | undefined): AlertQuote[] {
+    const quotes: Array<AlertQuote | null> = data
+        ? [
+            indicatorQuote('merval', data.merval),
+            indicatorQuote('sp500', data.sp500),
+            indicatorQuote('ccl', data.ccl),
+            indicatorQuote('riesgoPais', data.riesgoPais),
+        ]
+        : []
+
+    const mep = fxRates?.mep?.sell ?? fxRates?.mep?.buy
+    if (mep != null && mep > 0) {
+        quotes.push({ assetKind: 'indicator', assetId: 'mep', value: mep, changePct1d: null })
+    }
+
+    return quotes.filter((quote): quote is AlertQuote => quote != null)
+}
+
 export function useMarketIndicators() {
     const queryClient = useQueryClient()
 
@@ -53,6 +87,11 @@ export function useMarketIndicators() {
         initialDataUpdatedAt: cached?.timestamp,
     })
 
+    // MEP comes from the FX feed, the rest from /api/market/indicators
+    const { data: fxRates } = useFxRates()
+    const alertQuotes = useMemo(() => buildIndicatorQuotes(query.data, fxRates), [query.data, fxRates])
+    usePriceAlertEvaluation('indicator', alertQuotes)
+
     const refetch = () => {
         localStorage.removeItem(STORAGE_KEY)
         queryClient.invalidateQueries({ queryKey: ['market', 'indicators'] })
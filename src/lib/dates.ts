@@ -0,0 +1,12 @@
+/**
+ * Calendar-day keys shared by the domain engines and pages.
+ */
+
+/** Local YYYY-MM-DD for an ISO timestamp (the user's calendar day, not the UTC one) */
+export function toLocalDateKey(iso: string): string {
+    const d = new Date(iso)
+    if (Number.isNaN(d.getTime())) return iso.slice(0, 10)
+    const mm = String(d.getMonth() + 1).padStart(2, '0')
+    const dd = String(d.getDate()).padStart(2, '0')
+    return `${d.getFullYear()}-${mm}-${dd}`
+}
@@ -119,6 +119,7 @@ const ICON_MAP: Record<string, React.ComponentType<{ className?: string }>> = {
     BarChart3,
     Bitcoin,
     TrendingUp,
+    Landmark,
 }
 
 // =============================================================================
@@ -334,6 +335,13 @@ export function AssetsPageV2() {
             navigate(`/mis-activos-v2/fondos/${accountId}/${instrumentId}`)
             return
         }
+        // For bond items, navigate to bond detail subpage
+        if (item.kind === 'bond') {
+            const accountId = item.accountId || provider.id
+            const instrumentId = encodeURIComponent(item.instrumentId || item.symbol)
+            navigate(`/mis-activos-v2/renta-fija/${accountId}/${instrumentId}`)
+            return
+        }
         // For other items, use overlay
         setSelectedItem(item)
         setSelectedProvider(provider)
@@ -0,0 +1,264 @@
+/**
+ * Bond Detail Page — Subpágina de detalle de renta fija (bonos, Lecaps, ONs)
+ *
+ * Muestra:
+ * - Valuación ARS/USD (MEP) y cotización cada 100 VN, editable
+ * - TIR, duration, intereses corridos, paridad y valor técnico
+ * - Flujo de fondos pendiente de la tenencia (renta + amortización)
+ */
+
+import { useMemo, useState } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { ArrowLeft, Landmark } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatMoneyARS, formatMoneyUSD, formatNumberAR } from '@/lib/format'
+import { usePortfolioV2 } from '@/features/portfolioV2'
+import type { ItemV2, ProviderV2 } from '@/features/portfolioV2/types'
+import { useInstruments } from '@/hooks/use-instruments'
+import { useManualPrices } from '@/hooks/use-manual-prices'
+import { useToast } from '@/components/ui/toast'
+import { analyzeBond, scaleFlows } from '@/domain/bonds'
+
+const KIND_LABELS = {
+    sovereign: 'Soberano',
+    lecap: 'Lecap / Boncap',
+    corporate: 'ON',
+} as const
+
+function formatPct(fraction: number | null): string {
+    return fraction != null && Number.isFinite(fraction) ? `${(fraction * 100).toFixed(2)}%` : '—'
+}
+
+function formatDate(dateKey: string): string {
+    return new Date(`${dateKey}T00:00:00`).toLocaleDateString('es-AR')
+}
+
+export function BondDetailPage() {
+    const { accountId, instrumentId } = useParams<{ accountId: string; instrumentId: string }>()
+    const navigate = useNavigate()
+    const portfolio = usePortfolioV2()
+    const { data: instruments = [] } = useInstruments()
+    const { priceMap, setPrice } = useManualPrices()
+    const { toast } = useToast()
+    const [quoteInput, setQuoteInput] = useState('')
+
+    const decodedInstrumentId = instrumentId ? decodeURIComponent(instrumentId) : ''
+    const instrument = instruments.find(i => i.id === decodedInstrumentId)
+
+    const found = useMemo((): { item: ItemV2; provider: ProviderV2 } | null => {
+        const rubro = portfolio?.rubros.find(r => r.id === 'renta_fija')
+        if (!rubro || !accountId) return null
+        for (const provider of rubro.providers) {
+            const item = provider.items.find(it =>
+                it.kind === 'bond' &&
+                it.accountId === accountId &&
+                (it.instrumentId === decodedInstrumentId || it.symbol === decodedInstrumentId)
+            )
+            if (item) return { item, provider }
+        }
+        return null
+    }, [portfolio, accountId, decodedInstrumentId])
+
+    const mep = portfolio?.fx.mepSell ?? 0
+    const quote = instrument ? priceMap.get(instrument.id) : undefined
+    const terms = instrument?.bond
+    const todayKey = new Date().toISOString().slice(0, 10)
+
+    // Metrics are computed in the currency the bond pays
+    const analytics = useMemo(() => {
+        if (!terms || !instrument || !(quote && quote > 0)) return null
+        let price = quote
+        if (instrument.nativeCurrency !== terms.currency) {
+            if (!(mep > 0)) return null
+            price = terms.currency === 'USD' ? quote / mep : quote * mep
+        }
+        return analyzeBond(terms, price, todayKey)
+    }, [terms, instrument, quote, mep, todayKey])
+
+    const holdingFlows = useMemo(
+        () => (analytics && found ? scaleFlows(analytics.remainingFlows, found.item.qty ?? 0) : []),
+        [analytics, found]
+    )
+
+    const saveQuote = () => {
+        const value = parseFloat(quoteInput.replace(',', '.'))
+        if (!instrument || !(value > 0)) return
+        setPrice(instrument.id, value)
+        setQuoteInput('')
+        toast({ title: 'Cotización actualizada', description: `${instrument.symbol}: ${formatNumberAR(value)} c/100 VN`, variant: 'success' })
+    }
+
+    if (!portfolio || portfolio.isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[400px]">
+                <div className="text-center space-y-4">
+                    <div className="h-8 w-8 animate-spin rounded-full border-2 border-muted-foreground/30 border-t-primary mx-auto" />
+                    <p className="text-muted-foreground">Cargando detalle...</p>
+                </div>
+            </div>
+        )
+    }
+
+    if (!found || !instrument) {
+        return (
+            <div className="p-8 text-center space-y-4">
+                <p className="text-muted-foreground">Sin tenencia de este bono</p>
+                <button
+                    onClick={() => navigate('/mis-activos-v2')}
+                    className="text-primary hover:underline"
+                >
+                    Volver a Mis Activos
+                </button>
+            </div>
+        )
+    }
+
+    const { item, provider } = found
+    const quoteSymbol = instrument.nativeCurrency === 'USD' ? 'US$' : '$'
+    const paySymbol = terms?.currency === 'ARS' ? '$' : 'US$'
+    const qty = item.qty ?? 0
+
+    const metrics = analytics ? [
+        { label: 'TIR', value: formatPct(analytics.ytm) },
+        { label: 'Duration mod.', value: analytics.modifiedDuration != null ? `${analytics.modifiedDuration.toFixed(2)} años` : '—' },
+        { label: 'Int. corridos c/100', value: `${paySymbol} ${formatNumberAR(analytics.accruedInterest)}` },
+        { label: 'Paridad', value: analytics.parity != null ? `${analytics.parity.toFixed(2)}%` : '—' },
+        { label: 'Valor residual', value: `${formatNumberAR(analytics.residualValue)}%` },
+        { label: 'Valor técnico c/100', value: `${paySymbol} ${formatNumberAR(analytics.technicalValue)}` },
+    ] : []
+
+    return (
+        <div className="max-w-7xl mx-auto space-y-6 pb-12">
+            <header className="space-y-6">
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => navigate('/mis-activos-v2')}
+                        className="p-2 hover:bg-muted rounded-lg transition-colors"
+                    >
+                        <ArrowLeft className="h-5 w-5" />
+                    </button>
+                    <nav className="flex items-center text-xs font-mono text-muted-foreground space-x-2">
+                        <Link to="/mis-activos-v2" className="hover:text-foreground transition-colors">
+                            Mis Activos
+                        </Link>
+                        <span>/</span>
+                        <span>Renta fija</span>
+                        <span>/</span>
+                        <span className="text-primary font-bold">{instrument.symbol}</span>
+                    </nav>
+                </div>
+
+                <div className="flex items-start gap-5">
+                    <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5 border border-primary/30 flex items-center justify-center shadow-lg shrink-0">
+                        <Landmark className="h-8 w-8 text-primary" />
+                    </div>
+                    <div>
+                        <h1 className="text-2xl md:text-3xl font-bold tracking-tight">{instrument.name}</h1>
+                        <div className="flex flex-wrap items-center gap-3 mt-2 text-sm text-muted-foreground">
+                            <span className="bg-muted border border-border px-2 py-0.5 rounded text-xs font-medium">
+                                {terms ? KIND_LABELS[terms.kind] : 'Renta fija'}
+                            </span>
+                            {terms && <span className="text-xs">Vence {formatDate(terms.maturityDate)}</span>}
+                            <span className="w-1 h-1 rounded-full bg-muted-foreground/30" />
+                            <span className="text-xs">{provider.name}</span>
+                        </div>
+                    </div>
+                </div>
+            </header>
+
+            <section className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="bg-card border border-border rounded-2xl p-6 flex flex-col justify-between">
+                    <div>
+                        <h3 className="text-muted-foreground text-xs font-mono uppercase tracking-wider mb-2">Valuación Actual</h3>
+                        <div className="font-mono text-3xl font-medium tabular-nums mb-3">{formatMoneyARS(item.valArs)}</div>
+                        <div className="text-lg font-mono text-emerald-400 tabular-nums">≈ {formatMoneyUSD(item.valUsd)}</div>
+                        {item.pnlArs != null && (
+                            <div className={cn('text-xs font-mono mt-2', item.pnlArs >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
+                                Resultado: {formatMoneyARS(item.pnlArs)}
+                            </div>
+                        )}
+                    </div>
+                    <div className="mt-6 pt-4 border-t border-border grid grid-cols-2 gap-3 text-sm">
+                        <div>
+                            <span className="block text-muted-foreground mb-1 uppercase tracking-wider text-[10px]">Tenencia</span>
+                            <span className="font-mono">{formatNumberAR(qty)} VN</span>
+                        </div>
+                        <div className="text-right">
+                            <span className="block text-muted-foreground mb-1 uppercase tracking-wider text-[10px]">Precio c/100 VN</span>
+                            <span className="font-mono">{quote ? `${quoteSymbol} ${formatNumberAR(quote)}` : '—'}</span>
+                        </div>
+                    </div>
+                    <div className="mt-4 flex gap-2">
+                        <input
+                            type="number"
+                            step="0.01"
+                            value={quoteInput}
+                            onChange={e => setQuoteInput(e.target.value)}
+                            placeholder={`Nueva cotización (${quoteSymbol})`}
+                            className="flex-1 bg-background border border-border rounded-md px-3 py-1.5 text-sm font-mono"
+                        />
+                        <button
+                            onClick={saveQuote}
+                            disabled={!(parseFloat(quoteInput.replace(',', '.')) > 0)}
+                            className="text-xs px-3 py-1.5 rounded-md border border-border hover:bg-muted disabled:opacity-50"
+                        >
+                            Guardar
+                        </button>
+                    </div>
+                </div>
+
+                <div className="bg-card border border-border rounded-2xl p-5 lg:col-span-2">
+                    {analytics ? (
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                            {metrics.map(m => (
+                                <div key={m.label} className="p-3 rounded-xl border border-border bg-background/50">
+                                    <div className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">{m.label}</div>
+                                    <div className="font-mono text-lg tabular-nums">{m.value}</div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            {terms
+                                ? 'Cargá una cotización para calcular TIR, duration e intereses corridos.'
+                                : 'Este bono no tiene flujo de fondos cargado.'}
+                        </p>
+                    )}
+                    {analytics && terms && instrument.nativeCurrency !== terms.currency && (
+                        <p className="text-[10px] text-muted-foreground mt-3">
+                            Métricas en {terms.currency} (moneda de pago), convirtiendo la cotización a MEP $ {formatNumberAR(mep)}.
+                        </p>
+                    )}
+                </div>
+            </section>
+
+            {holdingFlows.length > 0 && (
+                <section className="bg-card border border-border rounded-2xl p-5">
+                    <h3 className="font-semibold mb-4">Flujo de fondos pendiente</h3>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-xs text-muted-foreground uppercase text-left border-b border-border">
+                                    <th className="py-2 pr-4">Fecha</th>
+                                    <th className="py-2 pr-4 text-right">Renta</th>
+                                    <th className="py-2 pr-4 text-right">Amortización</th>
+                                    <th className="py-2 text-right">Total</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {holdingFlows.map(flow => (
+                                    <tr key={flow.date} className="border-b border-border/50 font-mono tabular-nums">
+                                        <td className="py-2 pr-4">{formatDate(flow.date)}</td>
+                                        <td className="py-2 pr-4 text-right">{paySymbol} {formatNumberAR(flow.coupon)}</td>
+                                        <td className="py-2 pr-4 text-right">{flow.amortization > 0 ? `${paySymbol} ${formatNumberAR(flow.amortization)}` : '—'}</td>
+                                        <td className="py-2 text-right">{paySymbol} {formatNumberAR(flow.coupon + flow.amortization)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </section>
+            )}
+        </div>
+    )
+}
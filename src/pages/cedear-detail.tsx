@@ -7,6 +7,7 @@
  * - Selector de método de costeo (PPP/PEPS/UEPS/Baratos/Manual)
  * - Tabla de Lotes con doble moneda (ARS arriba, US$ abajo)
  * - Simulador de venta con asignación de lotes según método
+ * - Historial de dividendos (bruto, retención, neto) y eventos corporativos
  * - Tab "Cómo se calcula"
  *
  * Diseño basado en docs/prototypes/mis_activos/CEDEARS2.html
@@ -25,7 +26,11 @@ import {
 } from '@/domain/portfolio/lot-allocation'
 import { useCreateMovement } from '@/hooks/use-movements'
 import { useToast } from '@/components/ui/toast'
+import { PriceHistoryChart } from '@/components/assets/PriceHistoryChart'
+import { normalizePriceHistoryKey } from '@/domain/prices/price-history'
 import type { Movement } from '@/domain/types'
+import { CedearDividendsPanel } from '@/components/assets/CedearDividendsPanel'
+import { CedearCorporateActionsPanel } from '@/components/assets/CedearCorporateActionsPanel'
 
 // =============================================================================
 // Helpers
@@ -48,7 +53,7 @@ function formatDateDDMMYYYY(isoDate: string): string {
     }
 }
 
-type TabId = 'lots' | 'simulator' | 'info'
+type TabId = 'lots' | 'simulator' | 'dividends' | 'events' | 'info'
 type SortKey = 'date' | 'qty' | 'unitCost' | 'invested' | 'value' | 'pnlArs' | 'pnlUsd'
 type SortDir = 'asc' | 'desc'
 
@@ -528,6 +533,13 @@ export function CedearDetailPage() {
                 </div>
             </section>
 
+            <PriceHistoryChart
+                priceKey={normalizePriceHistoryKey(detail.symbol)}
+                currency="ARS"
+                avgCostArs={detail.avgCostArs}
+                avgCostUsd={detail.avgCostUsd}
+            />
+
             {/* Costing Method Selector */}
             <div className="bg-card border border-border rounded-xl p-4">
                 <div className="flex items-center gap-3 mb-3">
@@ -564,6 +576,8 @@ export function CedearDetailPage() {
                     {([
                         { id: 'lots' as TabId, label: 'Compras (Lotes)' },
                         { id: 'simulator' as TabId, label: 'Simulador Venta' },
+                        { id: 'dividends' as TabId, label: 'Dividendos' },
+                        { id: 'events' as TabId, label: 'Eventos corporativos' },
                         { id: 'info' as TabId, label: 'Cómo se calcula' },
                     ]).map((tab) => (
                         <button
@@ -913,6 +927,27 @@ export function CedearDetailPage() {
                 </div>
             )}
 
+            {/* TAB: DIVIDENDS */}
+            {activeTab === 'dividends' && (
+                <CedearDividendsPanel
+                    instrumentId={detail.instrumentId}
+                    symbol={detail.symbol}
+                    name={detail.name}
+                    accountId={found.item.accountId}
+                    sharesHeld={detail.totalQty}
+                    mepRate={portfolio.fx.mepBuy || mepSellRate}
+                />
+            )}
+
+            {/* TAB: CORPORATE ACTIONS */}
+            {activeTab === 'events' && (
+                <CedearCorporateActionsPanel
+                    instrumentId={detail.instrumentId}
+                    symbol={detail.symbol}
+                    currentRatio={detail.ratio}
+                />
+            )}
+
             {/* TAB: INFO */}
             {activeTab === 'info' && (
                 <div className="space-y-4 max-w-3xl pt-2">
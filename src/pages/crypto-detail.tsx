@@ -29,6 +29,8 @@ import {
 import { useCreateMovement } from '@/hooks/use-movements'
 import { useInstruments, useCreateInstrument } from '@/hooks/use-instruments'
 import { useToast } from '@/components/ui/toast'
+import { PriceHistoryChart } from '@/components/assets/PriceHistoryChart'
+import { normalizePriceHistoryKey } from '@/domain/prices/price-history'
 import type { Movement, Instrument } from '@/domain/types'
 
 // =============================================================================
@@ -460,6 +462,12 @@ export function CryptoDetailPage() {
                 </div>
             </div>
 
+            <PriceHistoryChart
+                priceKey={normalizePriceHistoryKey(item.symbol)}
+                currency="USD"
+                avgCostUsd={detail.avgCostUsd}
+            />
+
             {/* Costing Method Selector */}
             <div className="bg-card border border-border rounded-xl p-4">
                 <div className="flex items-center gap-3 mb-3">
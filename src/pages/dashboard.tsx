@@ -28,6 +28,7 @@ import { cn } from '@/lib/utils'
 import { formatMoneyARS, formatMoneyUSD } from '@/lib/format'
 import { usePortfolioV2 } from '@/features/portfolioV2'
 import { useMovements } from '@/hooks/use-movements'
+import { useCpiSeries } from '@/hooks/use-cpi'
 import {
     useAutoSnapshotsSetting,
     useClearSnapshots,
@@ -49,6 +50,8 @@ import {
 } from '@/features/dashboardV2/dashboard-metrics'
 import { computeCurrencyExposureSummary } from '@/features/dashboardV2/currency-exposure'
 import { ResultsCard } from '@/components/dashboard/ResultsCard'
+import { BenchmarkCard } from '@/components/dashboard/BenchmarkCard'
+import { CashflowCalendarCard } from '@/components/dashboard/CashflowCalendarCard'
 
 type ChartCurrency = 'ARS' | 'USD'
 type ChartRange = '1D' | '7D' | '30D' | '90D' | '1Y' | 'MAX'
@@ -64,6 +67,7 @@ const RUBRO_LABELS: Record<string, string> = {
     frascos: 'Frascos',
     plazos: 'Plazos Fijos',
     cedears: 'CEDEARs',
+    renta_fija: 'Renta fija',
     crypto: 'Cripto',
     fci: 'Fondos (FCI)',
 }
@@ -73,6 +77,7 @@ const RUBRO_COLORS: Record<string, string> = {
     frascos: '#8B5CF6',
     plazos: '#0EA5E9',
     cedears: '#10B981',
+    renta_fija: '#14B8A6',
     crypto: '#F59E0B',
     fci: '#3B82F6',
     unknown: '#64748B',
@@ -82,6 +87,7 @@ interface DisplayDelta {
     deltaArs: number
     deltaUsd: number
     deltaPct: number | null
+    deltaRealPct?: number | null
 }
 
 function formatCompactMoney(value: number): string {
@@ -128,6 +134,7 @@ export function DashboardPage() {
     const saveSnapshot = useSaveSnapshot()
     const clearSnapshots = useClearSnapshots()
     const { autoSnapshotsEnabled, setAutoSnapshotsEnabled } = useAutoSnapshotsSetting()
+    const { deflator: cpi } = useCpiSeries()
 
     const [movementWizardOpen, setMovementWizardOpen] = useState(false)
     const [chartCurrency, setChartCurrency] = useState<ChartCurrency>('ARS')
@@ -305,8 +312,9 @@ export function DashboardPage() {
             snapshots,
             movements,
             range: driversRange,
+            cpi,
         })
-    }, [portfolio, snapshots, movements, driversRange])
+    }, [portfolio, snapshots, movements, driversRange, cpi])
 
     const periodDeltas = useMemo(() => ({
         day: dashboardMetricsForDrivers?.variation24h.value ?? null,
@@ -345,8 +353,9 @@ export function DashboardPage() {
             snapshots,
             movements,
             range: netIncomeRange,
+            cpi,
         }).netIncome
-    }, [portfolio, snapshots, movements, netIncomeRange, driversRange, dashboardMetricsForDrivers])
+    }, [portfolio, snapshots, movements, netIncomeRange, driversRange, dashboardMetricsForDrivers, cpi])
 
     const distributionSlices = useMemo(() => {
         if (!portfolio || portfolio.isLoading) return []
@@ -386,6 +395,8 @@ export function DashboardPage() {
         variationArs: 0,
         feesArs: 0,
         interestEstimated: false,
+        inflationArs: undefined,
+        netRealArs: undefined,
     }
 
     return (
@@ -539,11 +550,24 @@ export function DashboardPage() {
                                 >
                                     Fees {formatCompactMoney(netIncome.feesArs)}
                                 </span>
+                                {netIncome.inflationArs != null && (
+                                    <span
+                                        className="px-3 py-1 rounded-full border border-amber-500/20 bg-amber-500/10 text-amber-300 text-xs font-medium"
+                                        title="Perdida de poder de compra del patrimonio base (IPC). Real = Total + Infl."
+                                    >
+                                        Infl. {formatCompactMoney(netIncome.inflationArs)}
+                                    </span>
+                                )}
                             </div>
                             {netIncome.status !== 'ok' && (
                                 <p className="text-[11px] text-amber-300 mt-2">{netIncome.missingHint}</p>
                             )}
-                            <p className="text-[10px] text-slate-500 mt-2">~ {formatMoneyUSD(netIncome.netUsd)}</p>
+                            <p className="text-[10px] text-slate-500 mt-2">
+                                ~ {formatMoneyUSD(netIncome.netUsd)}
+                                {netIncome.netRealArs != null && (
+                                    <> · Real {netIncome.netRealArs >= 0 ? '+' : ''}{formatMoneyARS(netIncome.netRealArs)}</>
+                                )}
+                            </p>
                         </div>
                     </section>
 
@@ -665,6 +689,10 @@ export function DashboardPage() {
                         </div>
                     </section>
 
+                    <BenchmarkCard portfolio={portfolio} snapshots={snapshots} movements={movements} />
+
+                    <CashflowCalendarCard portfolio={portfolio} movements={movements} />
+
                     <section className="grid grid-cols-1 xl:grid-cols-3 gap-6">
                         <div className="col-span-1 xl:col-span-2">
                             {portfolio && !portfolio.isLoading && (
@@ -899,6 +927,11 @@ function DeltaCard({
                     <div className="text-[10px] text-slate-400 font-mono flex flex-col gap-0.5">
                         <span>{delta.deltaArs >= 0 ? '+' : ''}{formatMoneyARS(delta.deltaArs)}</span>
                         <span className="opacity-70">{delta.deltaUsd >= 0 ? '+' : ''}{formatMoneyUSD(delta.deltaUsd)}</span>
+                        {delta.deltaRealPct != null && (
+                            <span className="opacity-70" title="Variacion en pesos de hoy (ajustada por IPC)">
+                                Real {formatSignedPercent(delta.deltaRealPct)}
+                            </span>
+                        )}
                     </div>
                 </>
             ) : (
@@ -0,0 +1,444 @@
+import { useMemo, useState } from 'react'
+import { CalendarClock, Check, Pause, Play, Plus, Repeat, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useToast } from '@/components/ui/toast'
+import { useAccounts, useInstruments } from '@/hooks/use-instruments'
+import { useMovements } from '@/hooks/use-movements'
+import { usePortfolioV2 } from '@/features/portfolioV2'
+import { useMovementDrafts } from '@/features/rebalance'
+import {
+    DCA_DRAFT_SOURCE,
+    buildDcaFill,
+    computeDcaPerformance,
+    dcaFxFor,
+    dcaQuantityFor,
+    nextDcaDate,
+    useDcaPlans,
+    type DcaAssetClass,
+    type DcaFrequency,
+    type DcaPlan,
+} from '@/features/dca'
+import { toLocalDateKey } from '@/lib/dates'
+import type { AssetCategory, Movement } from '@/domain/types'
+import { cn, formatCurrency, formatNumber, formatPercent } from '@/lib/utils'
+
+const parseNumber = (raw: string | undefined): number => {
+    const value = Number((raw ?? '').replace(',', '.'))
+    return Number.isFinite(value) ? value : 0
+}
+
+const formatDay = (dateLocal: string) => dateLocal.split('-').reverse().join('/')
+
+const ASSET_CLASS_BY_CATEGORY: Partial<Record<AssetCategory, DcaAssetClass>> = {
+    CEDEAR: 'cedear',
+    CRYPTO: 'crypto',
+    STABLE: 'crypto',
+    FCI: 'fci',
+}
+
+const FREQUENCY_OPTIONS: { value: DcaFrequency; label: string }[] = [
+    { value: 'monthly', label: 'Mensual' },
+    { value: 'biweekly', label: 'Cada 2 semanas' },
+    { value: 'weekly', label: 'Semanal' },
+]
+
+const WEEKDAYS = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado']
+
+function describeSchedule(plan: Pick<DcaPlan, 'frequency' | 'day'>): string {
+    const frequency = FREQUENCY_OPTIONS.find(o => o.value === plan.frequency)?.label ?? plan.frequency
+    return plan.frequency === 'monthly'
+        ? `${frequency}, día ${plan.day}`
+        : `${frequency}, ${WEEKDAYS[plan.day]?.toLowerCase()}`
+}
+
+export function DcaPage() {
+    const portfolio = usePortfolioV2()
+    const { data: instruments = [] } = useInstruments()
+    const { data: accounts = [] } = useAccounts()
+    const { data: movements = [] } = useMovements()
+    const { plans, isLoading, createPlan, setPlanActive, deletePlan, isSaving } = useDcaPlans()
+    const { drafts, confirmDraftWithFill, discardDraft, isConfirming } = useMovementDrafts(DCA_DRAFT_SOURCE)
+    const { toast } = useToast()
+
+    const todayLocal = toLocalDateKey(new Date().toISOString())
+
+    const [instrumentId, setInstrumentId] = useState('')
+    const [accountId, setAccountId] = useState('')
+    const [amountInput, setAmountInput] = useState('')
+    const [currency, setCurrency] = useState<'ARS' | 'USD'>('ARS')
+    const [frequency, setFrequency] = useState<DcaFrequency>('monthly')
+    const [dayInput, setDayInput] = useState('1')
+    const [startDate, setStartDate] = useState(todayLocal)
+
+    const eligibleInstruments = useMemo(
+        () => instruments
+            .filter(i => ASSET_CLASS_BY_CATEGORY[i.category])
+            .sort((a, b) => a.symbol.localeCompare(b.symbol)),
+        [instruments]
+    )
+    const accountNames = useMemo(() => new Map(accounts.map(a => [a.id, a.name])), [accounts])
+
+    // Current unit price per instrument in ARS and USD, from the valued holdings
+    const prices = useMemo(() => {
+        const map = new Map<string, { ars: number; usd: number }>()
+        for (const rubro of portfolio?.rubros ?? []) {
+            for (const item of rubro.providers.flatMap(p => p.items)) {
+                if (!item.instrumentId || !item.qty || item.qty <= 0 || map.has(item.instrumentId)) continue
+                map.set(item.instrumentId, { ars: item.valArs / item.qty, usd: item.valUsd / item.qty })
+            }
+        }
+        return map
+    }, [portfolio])
+
+    const priceFor = (id: string | undefined, cur: string): number | null => {
+        const price = id ? prices.get(id) : undefined
+        if (!price) return null
+        return cur === 'ARS' ? price.ars : price.usd
+    }
+
+    const handleInstrumentChange = (id: string) => {
+        setInstrumentId(id)
+        const instrument = instruments.find(i => i.id === id)
+        if (instrument) setCurrency(instrument.nativeCurrency === 'ARS' ? 'ARS' : 'USD')
+    }
+
+    // Day 1 is the 1st of the month or Monday, depending on the frequency
+    const handleFrequencyChange = (next: DcaFrequency) => {
+        setFrequency(next)
+        setDayInput('1')
+    }
+
+    const amount = parseNumber(amountInput)
+    const day = Math.round(parseNumber(dayInput))
+    const dayIsValid = frequency === 'monthly' ? day >= 1 && day <= 31 : day >= 0 && day <= 6
+    const isValid = !!instrumentId && !!accountId && amount > 0 && dayIsValid && !!startDate
+
+    const handleCreate = async () => {
+        const instrument = instruments.find(i => i.id === instrumentId)
+        const assetClass = instrument ? ASSET_CLASS_BY_CATEGORY[instrument.category] : undefined
+        if (!isValid || !instrument || !assetClass) return
+        try {
+            await createPlan({
+                instrumentId,
+                symbol: instrument.symbol,
+                name: instrument.name,
+                assetClass,
+                accountId,
+                amount,
+                currency,
+                frequency,
+                day,
+                startDate,
+            })
+            setAmountInput('')
+            toast({ title: 'Plan creado', description: `${instrument.symbol}: ${formatCurrency(amount, currency)} ${describeSchedule({ frequency, day }).toLowerCase()}.`, variant: 'success' })
+        } catch (err) {
+            console.error('Failed to save DCA plan', err)
+            toast({ title: 'Error', description: 'No se pudo guardar el plan.', variant: 'error' })
+        }
+    }
+
+    const handleConfirm = async (draft: Movement, fill: Partial<Movement>) => {
+        try {
+            await confirmDraftWithFill(draft.id, fill)
+            toast({ title: 'Compra registrada', description: `${draft.ticker} · ${formatNumber(fill.quantity ?? 0, draft.assetClass === 'cedear' ? 0 : 6)} unidades`, variant: 'success' })
+        } catch (err) {
+            console.error('Failed to confirm DCA draft', err)
+            toast({ title: 'Error al confirmar', description: 'La compra no se registró.', variant: 'error' })
+        }
+    }
+
+    if (!portfolio || portfolio.isLoading || isLoading) {
+        return (
+            <div className="space-y-6">
+                <Skeleton className="h-10 w-64" />
+                <Skeleton className="h-[300px]" />
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <h1 className="text-2xl font-bold">Planes DCA</h1>
+                <p className="text-muted-foreground">
+                    Compras periódicas del mismo monto; cada fecha genera un borrador para confirmar con el precio real
+                </p>
+            </div>
+
+            {/* Pending purchases */}
+            {drafts.length > 0 && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="text-base flex items-center gap-2">
+                            <CalendarClock className="h-4 w-4" />
+                            Compras pendientes ({drafts.length})
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                        {drafts.map(draft => (
+                            <DcaDraftRow
+                                key={draft.id}
+                                draft={draft}
+                                accountName={accountNames.get(draft.accountId) ?? draft.accountId}
+                                suggestedPrice={priceFor(draft.instrumentId, draft.tradeCurrency)}
+                                fx={dcaFxFor((draft.assetClass ?? 'cedear') as DcaAssetClass, portfolio.fx)}
+                                disabled={isConfirming}
+                                onConfirm={fill => handleConfirm(draft, fill)}
+                                onDiscard={() => discardDraft(draft.id)}
+                            />
+                        ))}
+                        <p className="text-xs text-muted-foreground pt-1">
+                            Los borradores no afectan tus tenencias hasta confirmarlos con el precio y la cantidad ejecutados.
+                        </p>
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Plans */}
+            <Card>
+                <CardHeader>
+                    <CardTitle className="text-base flex items-center gap-2">
+                        <Repeat className="h-4 w-4" />
+                        Planes
+                    </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                    {plans.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Todavía no hay planes de compra periódica.</p>
+                    ) : plans.map(plan => {
+                        const perf = computeDcaPerformance(plan, movements, priceFor(plan.instrumentId, plan.currency))
+                        const next = nextDcaDate(plan, todayLocal)
+                        return (
+                            <div key={plan.id} className={cn('rounded-lg border px-4 py-3 space-y-3', !plan.active && 'opacity-60')}>
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="font-medium">
+                                            {plan.symbol} · {formatCurrency(plan.amount, plan.currency)}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {describeSchedule(plan)} · {accountNames.get(plan.accountId) ?? plan.accountId}
+                                            {' · '}
+                                            {plan.active ? (next ? `Próxima: ${formatDay(next)}` : 'Finalizado') : 'Pausado'}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-1 shrink-0">
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => setPlanActive(plan.id, !plan.active)}
+                                            aria-label={plan.active ? 'Pausar plan' : 'Reanudar plan'}
+                                        >
+                                            {plan.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => {
+                                                if (confirm('¿Eliminar el plan? Las compras ya registradas se conservan.')) deletePlan(plan.id)
+                                            }}
+                                            aria-label="Eliminar plan"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {perf.purchases > 0 && (
+                                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+                                        <div>
+                                            <p className="text-xs text-muted-foreground">Invertido ({perf.purchases})</p>
+                                            <p className="font-medium">{formatCurrency(perf.invested, plan.currency)}</p>
+                                        </div>
+                                        <div>
+                                            <p className="text-xs text-muted-foreground">Precio promedio</p>
+                                            <p className="font-medium">{formatCurrency(perf.avgPrice, plan.currency)}</p>
+                                        </div>
+                                        <div>
+                                            <p className="text-xs text-muted-foreground">Valor actual</p>
+                                            <p className="font-medium">{perf.currentValue != null ? formatCurrency(perf.currentValue, plan.currency) : '—'}</p>
+                                        </div>
+                                        <div>
+                                            <p className="text-xs text-muted-foreground">Resultado</p>
+                                            <p className={cn('font-medium', (perf.pnl ?? 0) > 0 ? 'text-success' : (perf.pnl ?? 0) < 0 ? 'text-destructive' : '')}>
+                                                {perf.pnl != null ? formatCurrency(perf.pnl, plan.currency, { showSign: true }) : '—'}
+                                                {perf.pnlPct != null && <span className="ml-1 text-xs">{formatPercent(perf.pnlPct)}</span>}
+                                            </p>
+                                        </div>
+                                        <div>
+                                            <p className="text-xs text-muted-foreground">Vs. compra única</p>
+                                            <p className={cn('font-medium', (perf.vsLumpSum ?? 0) > 0 ? 'text-success' : (perf.vsLumpSum ?? 0) < 0 ? 'text-destructive' : '')}>
+                                                {perf.vsLumpSum != null ? formatCurrency(perf.vsLumpSum, plan.currency, { showSign: true }) : '—'}
+                                            </p>
+                                            {perf.lumpSum && (
+                                                <p className="text-[11px] text-muted-foreground">
+                                                    Todo a {formatCurrency(perf.lumpSum.price, plan.currency)}
+                                                </p>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    })}
+                </CardContent>
+            </Card>
+
+            {/* New plan */}
+            <Card>
+                <CardHeader>
+                    <CardTitle className="text-base flex items-center gap-2">
+                        <Plus className="h-4 w-4" />
+                        Nuevo plan
+                    </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">Instrumento</label>
+                            <Select
+                                placeholder="Elegí un activo"
+                                options={eligibleInstruments.map(i => ({ value: i.id, label: `${i.symbol} · ${i.name}` }))}
+                                value={instrumentId}
+                                onChange={(e) => handleInstrumentChange(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">Cuenta</label>
+                            <Select
+                                placeholder="Elegí una cuenta"
+                                options={accounts.map(a => ({ value: a.id, label: a.name }))}
+                                value={accountId}
+                                onChange={(e) => setAccountId(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">Monto por compra</label>
+                            <div className="flex gap-2">
+                                <Input inputMode="decimal" value={amountInput} onChange={(e) => setAmountInput(e.target.value)} />
+                                <Select
+                                    className="w-24"
+                                    options={[{ value: 'ARS', label: 'ARS' }, { value: 'USD', label: 'USD' }]}
+                                    value={currency}
+                                    onChange={(e) => setCurrency(e.target.value as 'ARS' | 'USD')}
+                                />
+                            </div>
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">Desde</label>
+                            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">Frecuencia</label>
+                            <Select
+                                options={FREQUENCY_OPTIONS}
+                                value={frequency}
+                                onChange={(e) => handleFrequencyChange(e.target.value as DcaFrequency)}
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">{frequency === 'monthly' ? 'Día del mes' : 'Día de la semana'}</label>
+                            {frequency === 'monthly' ? (
+                                <Input inputMode="numeric" value={dayInput} onChange={(e) => setDayInput(e.target.value)} />
+                            ) : (
+                                <Select
+                                    options={WEEKDAYS.map((label, i) => ({ value: String(i), label }))}
+                                    value={dayInput}
+                                    onChange={(e) => setDayInput(e.target.value)}
+                                />
+                            )}
+                        </div>
+                    </div>
+                    <div className="flex justify-end">
+                        <Button onClick={handleCreate} disabled={!isValid || isSaving}>
+                            {isSaving ? 'Guardando...' : 'Crear plan'}
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
+
+function DcaDraftRow({
+    draft,
+    accountName,
+    suggestedPrice,
+    fx,
+    disabled,
+    onConfirm,
+    onDiscard,
+}: {
+    draft: Movement
+    accountName: string
+    suggestedPrice: number | null
+    fx: ReturnType<typeof dcaFxFor>
+    disabled: boolean
+    onConfirm: (fill: Partial<Movement>) => void
+    onDiscard: () => void
+}) {
+    const assetClass = (draft.assetClass ?? 'cedear') as DcaAssetClass
+    const scheduledDate = draft.meta?.dcaScheduledDate ?? toLocalDateKey(draft.datetimeISO)
+
+    const [priceInput, setPriceInput] = useState(suggestedPrice ? String(Number(suggestedPrice.toFixed(4))) : '')
+    const [quantityInput, setQuantityInput] = useState(
+        suggestedPrice ? String(dcaQuantityFor(assetClass, draft.totalAmount, suggestedPrice)) : ''
+    )
+    const [feeInput, setFeeInput] = useState('')
+    const [dateLocal, setDateLocal] = useState(scheduledDate)
+
+    const unitPrice = parseNumber(priceInput)
+    const quantity = parseNumber(quantityInput)
+    const isValid = unitPrice > 0 && quantity > 0 && !!dateLocal
+
+    const handlePriceChange = (raw: string) => {
+        setPriceInput(raw)
+        const price = parseNumber(raw)
+        if (price > 0) setQuantityInput(String(dcaQuantityFor(assetClass, draft.totalAmount, price)))
+    }
+
+    const handleConfirm = () => {
+        if (!isValid) return
+        onConfirm(buildDcaFill(draft, {
+            dateLocal,
+            unitPrice,
+            quantity,
+            feeAmount: parseNumber(feeInput),
+            fxRate: fx.rate,
+        }, fx.kind))
+    }
+
+    return (
+        <div className="rounded-lg border px-3 py-2 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0 text-sm">
+                    <p className="font-medium truncate">
+                        Compra {draft.ticker} · {formatCurrency(draft.totalAmount, draft.tradeCurrency)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                        {accountName} · programada para el {formatDay(scheduledDate)}
+                    </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                    <Button variant="ghost" size="icon" onClick={handleConfirm} disabled={disabled || !isValid} aria-label="Confirmar compra">
+                        <Check className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={onDiscard} disabled={disabled} aria-label="Descartar compra">
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                <Input inputMode="decimal" placeholder="Precio ejecutado" value={priceInput} onChange={(e) => handlePriceChange(e.target.value)} />
+                <Input inputMode="decimal" placeholder="Cantidad" value={quantityInput} onChange={(e) => setQuantityInput(e.target.value)} />
+                <Input inputMode="decimal" placeholder="Comisión" value={feeInput} onChange={(e) => setFeeInput(e.target.value)} />
+                <Input type="date" value={dateLocal} onChange={(e) => setDateLocal(e.target.value)} />
+            </div>
+        </div>
+    )
+}
@@ -20,6 +20,8 @@ import { usePortfolioV2 } from '@/features/portfolioV2'
 import type { FciDetail, FciLotDetail, ItemV2, ProviderV2 } from '@/features/portfolioV2/types'
 import { useCreateMovement } from '@/hooks/use-movements'
 import { useToast } from '@/components/ui/toast'
+import { PriceHistoryChart } from '@/components/assets/PriceHistoryChart'
+import { normalizePriceHistoryKey } from '@/domain/prices/price-history'
 import type { Movement } from '@/domain/types'
 
 // =============================================================================
@@ -469,6 +471,14 @@ export function FciDetailPage() {
                 </div>
             </section>
 
+            <PriceHistoryChart
+                priceKey={normalizePriceHistoryKey(detail.instrumentId)}
+                currency="ARS"
+                title="Historial de VCP"
+                avgCostArs={detail.avgCostArs}
+                avgCostUsd={detail.avgCostUsd}
+            />
+
             {/* Tabs */}
             <div className="border-b border-border">
                 <nav className="flex gap-6" aria-label="Tabs">
@@ -2,6 +2,10 @@ import { ExternalLink, RefreshCw } from 'lucide-react'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
+import { Select } from '@/components/ui/select'
+import { useAccounts } from '@/hooks/use-instruments'
+import { loadBudgetState, saveBudgetState } from '@/features/finanzas-express/budget-storage'
+import { mergePfIntoBudget, syncBudgetIntoPf } from '@/features/finanzas-express/pf-bridge'
 import {
     FINANCE_EXPRESS_STORAGE_KEY,
     FINANCE_EXPRESS_UPDATED_AT_STORAGE_KEY,
@@ -29,6 +33,8 @@ interface FinancePushResponse {
 export function FinanzasExpressPage() {
     const navigate = useNavigate()
     const iframeRef = useRef<HTMLIFrameElement>(null)
+    const { data: accounts = [] } = useAccounts()
+    const [payAccountId, setPayAccountId] = useState(() => loadBudgetState().accountId ?? '')
     const [syncState, setSyncState] = useState<FinanceSyncState>(() => {
         if (!isRemoteSyncEnabled()) return 'disabled'
         return getSyncToken().length > 0 ? 'idle' : 'no-token'
@@ -62,6 +68,37 @@ export function FinanzasExpressPage() {
         setSyncMessage('Sin token / No sincroniza')
     }
 
+    // ── PF BRIDGE: items and payments shared with Finanzas Personales ──
+
+    const syncPersonalFinances = useCallback(async (reason: string, mergeBack = false) => {
+        try {
+            await syncBudgetIntoPf()
+            if (!mergeBack || !(await mergePfIntoBudget())) return
+
+            // saveBudgetState already queued the push of the merged budget
+            const payload = localStorage.getItem(FINANCE_EXPRESS_STORAGE_KEY)
+            lastPushedPayloadRef.current = payload
+            pendingPayloadRef.current = payload
+            iframeRef.current?.contentWindow?.postMessage({ type: 'argfolio:data-updated' }, window.location.origin)
+            logDebug('pf-merged', { reason })
+        } catch (error) {
+            logDebug('pf-sync-error', {
+                reason,
+                error: error instanceof Error ? error.message : String(error),
+            })
+        }
+    }, [debugEnabled])
+
+    const changePayAccount = (accountId: string) => {
+        setPayAccountId(accountId)
+        saveBudgetState({ ...loadBudgetState(), accountId: accountId || undefined })
+        const payload = localStorage.getItem(FINANCE_EXPRESS_STORAGE_KEY)
+        lastPushedPayloadRef.current = payload
+        pendingPayloadRef.current = payload
+        iframeRef.current?.contentWindow?.postMessage({ type: 'argfolio:data-updated' }, window.location.origin)
+        void syncPersonalFinances('account-change')
+    }
+
     // ── PULL: fetch remote data and reload iframe if changed ──
 
     const pullRemoteData = useCallback(async (reason: string): Promise<boolean> => {
@@ -124,6 +161,9 @@ export function FinanzasExpressPage() {
                     isRestoringFromRemoteRef.current = false
                 }, FINANCE_SYNC_DEBOUNCE_MS + 500)
 
+                setPayAccountId(loadBudgetState().accountId ?? '')
+                void syncPersonalFinances(reason, true)
+
                 setSyncState('saved')
                 setSyncMessage('Datos remotos aplicados')
                 return true
@@ -141,7 +181,7 @@ export function FinanzasExpressPage() {
             setSyncMessage('Error al descargar datos remotos')
             return false
         }
-    }, [debugEnabled])
+    }, [debugEnabled, syncPersonalFinances])
 
     // ── PUSH: send local changes to D1 ──
 
@@ -290,6 +330,7 @@ export function FinanzasExpressPage() {
         if (!isRemoteSyncEnabled()) {
             setSyncState('disabled')
             setSyncMessage('Sync remoto desactivado')
+            void syncPersonalFinances('mount', true)
             return
         }
 
@@ -298,12 +339,14 @@ export function FinanzasExpressPage() {
 
         if (!getSyncToken()) {
             setNoTokenState()
+            void syncPersonalFinances('mount', true)
         } else {
             // Pull remote data on mount — this is the key fix for cross-device sync.
             // bootstrapRemoteSync() deduplicates with the global call from GlobalDataHandler,
             // so this won't cause an extra network request if bootstrap is already in-flight.
             void pullRemoteData('mount').then(() => {
                 pullDoneRef.current = true
+                void syncPersonalFinances('mount', true)
             })
         }
 
@@ -311,6 +354,7 @@ export function FinanzasExpressPage() {
             if (event.key === FINANCE_EXPRESS_STORAGE_KEY) {
                 // Don't re-push data that was just pulled from remote
                 if (isRestoringFromRemoteRef.current) return
+                void syncPersonalFinances('storage-event')
                 schedulePush('storage-event')
                 return
             }
@@ -343,6 +387,7 @@ export function FinanzasExpressPage() {
                 return
             }
 
+            void syncPersonalFinances('postmessage-event')
             schedulePush('postmessage-event')
         }
 
@@ -396,6 +441,16 @@ export function FinanzasExpressPage() {
                     ) : null}
                 </div>
                 <div className="flex items-center gap-2">
+                    <Select
+                        className="h-8 w-44 text-xs"
+                        value={payAccountId}
+                        onChange={(event) => changePayAccount(event.target.value)}
+                        options={[
+                            { value: '', label: 'Pagos sin cuenta' },
+                            ...accounts.map(account => ({ value: account.id, label: account.name })),
+                        ]}
+                        title="Cuenta desde la que se registran los pagos como movimientos"
+                    />
                     {canPull ? (
                         <Button
                             variant="ghost"
@@ -7,6 +7,8 @@ import { Skeleton } from '@/components/ui/skeleton'
 import { useSnapshots, useSaveSnapshot, useDeleteSnapshot } from '@/hooks/use-snapshots'
 import { formatCurrency } from '@/lib/utils'
 import { DeleteConfirmDialog } from '@/components/movements/DeleteConfirmDialog'
+import { SnapshotBackfillCard } from '@/components/history/SnapshotBackfillCard'
+import { SNAPSHOT_BACKFILL_NOTE } from '@/features/dashboardV2/snapshot-backfill'
 import {
     AreaChart,
     Area,
@@ -137,6 +139,8 @@ export function HistoryPage() {
                 </Card>
             )}
 
+            <SnapshotBackfillCard />
+
             {/* Snapshots Table */}
             <Card>
                 <CardHeader>
@@ -170,7 +174,12 @@ export function HistoryPage() {
                                 <tbody>
                                     {snapshots.map((s) => (
                                         <tr key={s.id} className="border-b last:border-0 hover:bg-muted/30 transition-colors">
-                                            <td className="p-4 font-medium">{formatDate(s.dateLocal)}</td>
+                                            <td className="p-4 font-medium">
+                                                {formatDate(s.dateLocal)}
+                                                {s.meta?.notes === SNAPSHOT_BACKFILL_NOTE && (
+                                                    <Badge variant="outline" className="ml-2 text-xs font-normal">Reconstruido</Badge>
+                                                )}
+                                            </td>
                                             <td className="p-4 text-right font-numeric">{formatCurrency(s.totalARS, 'ARS')}</td>
                                             <td className="p-4 text-right font-numeric text-muted-foreground">
                                                 {formatCurrency(s.totalUSD, 'USD')}
@@ -1,8 +1,9 @@
 import { useState, useCallback, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { ArrowLeft, ArrowRight, Upload, Columns, Eye, Check, Undo2 } from 'lucide-react'
+import { ArrowLeft, ArrowRight, Upload, Columns, Eye, Check, Undo2, Sparkles, Wallet } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
 import { FileUploadZone, ColumnMapper, ImportPreview } from '@/components/import'
 import { useInstruments, useAccounts } from '@/hooks/use-instruments'
 import {
@@ -12,6 +13,7 @@ import {
     readFileAsArrayBuffer,
     isCSVFile,
     isExcelFile,
+    isJSONFile,
     autoDetectMapping,
     mapRow,
     validateRows,
@@ -20,8 +22,16 @@ import {
     createMissingAccounts,
     importMovements,
     undoImport,
+    detectBrokerProfile,
+    mapRowsWithProfile,
+    buildInstrumentDetailsFromRows,
+    detectConnector,
+    getConnector,
+    BITCOIN_ADDRESS_PATTERN,
+    ETHEREUM_ADDRESS_PATTERN,
 } from '@/domain/import'
-import type { ColumnMapping, MappedRow, ValidationResult, ImportResult, ImportDefaults } from '@/domain/import'
+import type { ColumnMapping, MappedRow, ValidationResult, ImportResult, ImportDefaults, BrokerProfile, CryptoConnector, ProfileMappingResult } from '@/domain/import'
+import { fetchBitcoinAddressHistory, fetchEthereumAddressHistory } from '@/data/providers/onchain-explorers'
 import type { AssetCategory, Currency } from '@/domain/types'
 import { useQueryClient } from '@tanstack/react-query'
 
@@ -51,6 +61,11 @@ export function ImportPage() {
     const [mapping, setMapping] = useState<ColumnMapping>({})
     const [defaults, setDefaults] = useState<ImportDefaults>({ type: 'BUY', currency: 'USD' })
 
+    // Broker profile / crypto connector state (null = manual mapping)
+    const [profile, setProfile] = useState<BrokerProfile | CryptoConnector | null>(null)
+    const [walletAddress, setWalletAddress] = useState('')
+    const [skippedRows, setSkippedRows] = useState<Array<{ rowIndex: number; label: string }>>([])
+
     // Validation state
     const [mappedRows, setMappedRows] = useState<MappedRow[]>([])
     const [validation, setValidation] = useState<ValidationResult | null>(null)
@@ -68,18 +83,41 @@ export function ImportPage() {
         [accounts]
     )
 
+    // Rows from a known format go straight to the preview
+    const showDetected = useCallback((detected: BrokerProfile | CryptoConnector, mapped: ProfileMappingResult) => {
+        setProfile(detected)
+        setMappedRows(mapped.rows)
+        setSkippedRows(mapped.skipped)
+        setValidation(validateRows(mapped.rows, instrumentsMap, accountsMap))
+        setStep('preview')
+    }, [instrumentsMap, accountsMap])
+
     // Handle file upload
     const handleFileSelect = useCallback(async (selectedFile: File) => {
         setError(undefined)
         setFile(selectedFile)
 
-        if (!isCSVFile(selectedFile) && !isExcelFile(selectedFile)) {
-            setError('Solo se aceptan archivos CSV o Excel')
+        if (!isCSVFile(selectedFile) && !isExcelFile(selectedFile) && !isJSONFile(selectedFile)) {
+            setError('Solo se aceptan archivos CSV, Excel o JSON')
             return
         }
 
         setIsLoading(true)
         try {
+            // JSON only comes from exchange APIs: there is nothing to map by hand
+            if (isJSONFile(selectedFile)) {
+                const source = { kind: 'json' as const, payload: JSON.parse(await readFileAsText(selectedFile)) }
+                const connector = detectConnector(source)
+                setHeaders([])
+                setRawData([])
+                if (!connector) {
+                    setError('Formato JSON no reconocido')
+                    return
+                }
+                showDetected(connector, connector.map(source))
+                return
+            }
+
             let result
             if (isExcelFile(selectedFile)) {
                 const buffer = await readFileAsArrayBuffer(selectedFile)
@@ -97,12 +135,58 @@ export function ImportPage() {
             setHeaders(result.headers)
             setRawData(result.data)
             setMapping(autoDetectMapping(result.headers))
-            setStep('map')
+
+            // Known broker export → skip manual mapping
+            const detected = detectBrokerProfile(result.headers)
+            if (detected) {
+                showDetected(detected, mapRowsWithProfile(detected, result.headers, result.data))
+            } else {
+                setProfile(null)
+                setSkippedRows([])
+                setStep('map')
+            }
         } catch (err) {
             setError('Error al leer el archivo')
         } finally {
             setIsLoading(false)
         }
+    }, [showDetected])
+
+    // Public address → fetch its history from a block explorer
+    const handleAddressImport = useCallback(async () => {
+        const address = walletAddress.trim()
+        setError(undefined)
+        setFile(null)
+
+        const connectorId = BITCOIN_ADDRESS_PATTERN.test(address) ? 'bitcoin-address'
+            : ETHEREUM_ADDRESS_PATTERN.test(address) ? 'ethereum-address'
+                : null
+        const connector = connectorId ? getConnector(connectorId) : undefined
+        if (!connector) {
+            setError('Dirección no reconocida (Bitcoin o Ethereum)')
+            return
+        }
+
+        setIsLoading(true)
+        try {
+            const transactions = connector.id === 'bitcoin-address'
+                ? await fetchBitcoinAddressHistory(address)
+                : await fetchEthereumAddressHistory(address)
+            setHeaders([])
+            setRawData([])
+            showDetected(connector, connector.map({ kind: 'address', address, transactions }))
+        } catch (err) {
+            setError(`No se pudo obtener el historial: ${err instanceof Error ? err.message : err}`)
+        } finally {
+            setIsLoading(false)
+        }
+    }, [walletAddress, showDetected])
+
+    // Drop the detected profile and fall back to the column mapper
+    const handleManualMapping = useCallback(() => {
+        setProfile(null)
+        setSkippedRows([])
+        setStep('map')
     }, [])
 
     // Handle mapping completion → run validation
@@ -118,7 +202,8 @@ export function ImportPage() {
     // Create missing instruments
     const handleCreateInstruments = useCallback(
         async (symbols: Set<string>, category: AssetCategory, currency: Currency) => {
-            await createMissingInstruments(symbols, category, currency)
+            const details = buildInstrumentDetailsFromRows(mappedRows)
+            await createMissingInstruments(symbols, category, currency, details)
             queryClient.invalidateQueries({ queryKey: ['instruments'] })
 
             // Re-validate after creation
@@ -133,6 +218,7 @@ export function ImportPage() {
                         category,
                         nativeCurrency: currency,
                         priceKey: id,
+                        ...details.get(symbol.toUpperCase()),
                     })
                 }
                 const result = validateRows(mappedRows, updatedInstruments, accountsMap)
@@ -145,7 +231,7 @@ export function ImportPage() {
     // Create missing accounts
     const handleCreateAccounts = useCallback(
         async (names: Set<string>) => {
-            await createMissingAccounts(names)
+            await createMissingAccounts(names, profile?.accountKind, profile?.defaultCurrency)
             queryClient.invalidateQueries({ queryKey: ['accounts'] })
 
             // Re-validate after creation
@@ -156,15 +242,15 @@ export function ImportPage() {
                     updatedAccounts.set(id, {
                         id,
                         name: name.trim(),
-                        kind: 'EXCHANGE',
-                        defaultCurrency: 'USD',
+                        kind: profile?.accountKind ?? 'EXCHANGE',
+                        defaultCurrency: profile?.defaultCurrency ?? 'USD',
                     })
                 }
                 const result = validateRows(mappedRows, instrumentsMap, updatedAccounts)
                 setValidation(result)
             }, 100)
         },
-        [queryClient, instrumentsMap, accountsMap, mappedRows]
+        [queryClient, instrumentsMap, accountsMap, mappedRows, profile]
     )
 
     // Execute import
@@ -215,6 +301,9 @@ export function ImportPage() {
             setHeaders([])
             setRawData([])
             setMapping({})
+            setProfile(null)
+            setSkippedRows([])
+            setWalletAddress('')
         } finally {
             setIsLoading(false)
         }
@@ -236,7 +325,7 @@ export function ImportPage() {
                 </Button>
                 <div>
                     <h1 className="text-2xl font-bold">Importar Movimientos</h1>
-                    <p className="text-muted-foreground">Cargá tus operaciones desde un archivo CSV</p>
+                    <p className="text-muted-foreground">Cargá tus operaciones desde un archivo CSV o el extracto de tu broker</p>
                 </div>
             </div>
 
@@ -280,6 +369,31 @@ export function ImportPage() {
                         />
                     )}
 
+                    {step === 'upload' && (
+                        <div className="mt-6 space-y-2">
+                            <p className="text-sm font-medium flex items-center gap-2">
+                                <Wallet className="h-4 w-4 text-muted-foreground" />
+                                O importá el historial de una dirección pública
+                            </p>
+                            <div className="flex gap-2">
+                                <Input
+                                    value={walletAddress}
+                                    onChange={(e) => setWalletAddress(e.target.value)}
+                                    placeholder="bc1… / 0x…"
+                                    className="font-mono"
+                                    disabled={isLoading}
+                                />
+                                <Button
+                                    variant="outline"
+                                    onClick={handleAddressImport}
+                                    disabled={isLoading || !walletAddress.trim()}
+                                >
+                                    Buscar
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+
                     {step === 'map' && (
                         <ColumnMapper
                             headers={headers}
@@ -291,6 +405,28 @@ export function ImportPage() {
                         />
                     )}
 
+                    {step === 'preview' && profile && (
+                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4 rounded-lg bg-primary/10 border border-primary/20 p-3 text-sm">
+                            <div className="flex items-start gap-2">
+                                <Sparkles className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                                <div>
+                                    <p className="font-medium">Formato detectado: {profile.label}</p>
+                                    {skippedRows.length > 0 && (
+                                        <p className="text-muted-foreground">
+                                            {skippedRows.length} filas omitidas por operación no reconocida
+                                            ({Array.from(new Set(skippedRows.map((r) => r.label))).slice(0, 3).join(', ')})
+                                        </p>
+                                    )}
+                                </div>
+                            </div>
+                            {headers.length > 0 && (
+                                <Button variant="outline" size="sm" onClick={handleManualMapping}>
+                                    Mapear manualmente
+                                </Button>
+                            )}
+                        </div>
+                    )}
+
                     {step === 'preview' && validation && (
                         <ImportPreview
                             validation={validation}
@@ -309,6 +445,11 @@ export function ImportPage() {
                                 <p className="text-muted-foreground mt-2">
                                     Se crearon {importResult.movementsCreated} movimientos
                                 </p>
+                                {importResult.duplicatesSkipped > 0 && (
+                                    <p className="text-sm text-muted-foreground">
+                                        {importResult.duplicatesSkipped} ya estaban importados y se omitieron
+                                    </p>
+                                )}
                             </div>
 
                             {importResult.errors.length > 0 && (
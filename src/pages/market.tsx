@@ -3,7 +3,7 @@ import {
     RefreshCw, Search, Star, TrendingUp, TrendingDown,
     BarChart3, Clock, DollarSign, Activity, AlertTriangle,
     ChevronDown, ChevronUp, ChevronLeft, ChevronRight,
-    ArrowUpDown, X
+    ArrowUpDown, X, Bell
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { formatMoneyARS, formatMoneyUSD, formatNumberAR } from '@/lib/format'
@@ -16,6 +16,8 @@ import { useMarketIndicators } from '@/hooks/useMarketIndicators'
 import { useFxRates } from '@/hooks/use-fx-rates'
 import { getFavorites, toggleFavorite as toggleFav } from '@/lib/favoritesStorage'
 import { FciMarketTab } from '@/components/market/fci/FciMarketTab'
+import { PriceAlertsDialog, type PriceAlertTarget } from '@/components/market/alerts/PriceAlertsDialog'
+import { usePriceAlertInbox } from '@/hooks/use-price-alerts'
 
 // ============================================================================
 // Types
@@ -254,9 +256,10 @@ interface CedearModalProps {
     mepRate: number
     cclRate: number
     onClose: () => void
+    onCreateAlert: () => void
 }
 
-function CedearDetailModal({ item, mepRate, cclRate, onClose }: CedearModalProps) {
+function CedearDetailModal({ item, mepRate, cclRate, onClose, onCreateAlert }: CedearModalProps) {
     const [chartPeriod, setChartPeriod] = useState<'day' | 'month' | 'year'>('day')
     const [chartCurrency, setChartCurrency] = useState<'ars' | 'usd'>('ars')
 
@@ -288,9 +291,14 @@ function CedearDetailModal({ item, mepRate, cclRate, onClose }: CedearModalProps
                         </div>
                         <p className="text-sm text-muted-foreground">{item.name}</p>
                     </div>
-                    <Button variant="ghost" size="icon" onClick={onClose}>
-                        <X className="h-4 w-4" />
-                    </Button>
+                    <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="icon" onClick={onCreateAlert} aria-label="Crear alerta">
+                            <Bell className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={onClose}>
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </div>
                 </div>
 
                 {/* Price Section */}
@@ -403,9 +411,10 @@ function CedearDetailModal({ item, mepRate, cclRate, onClose }: CedearModalProps
 interface CryptoModalProps {
     item: CryptoMarketItem
     onClose: () => void
+    onCreateAlert: () => void
 }
 
-function CryptoDetailModal({ item, onClose }: CryptoModalProps) {
+function CryptoDetailModal({ item, onClose, onCreateAlert }: CryptoModalProps) {
     const [chartPeriod, setChartPeriod] = useState<'day' | 'month' | 'year'>('day')
 
     useEffect(() => {
@@ -438,9 +447,14 @@ function CryptoDetailModal({ item, onClose }: CryptoModalProps) {
                             <p className="text-sm text-muted-foreground">{item.name}</p>
                         </div>
                     </div>
-                    <Button variant="ghost" size="icon" onClick={onClose}>
-                        <X className="h-4 w-4" />
-                    </Button>
+                    <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="icon" onClick={onCreateAlert} aria-label="Crear alerta">
+                            <Bell className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={onClose}>
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </div>
                 </div>
 
                 {/* Price Section */}
@@ -518,6 +532,18 @@ export function MarketPage() {
     const [selectedCedear, setSelectedCedear] = useState<MarketCedearItem | null>(null)
     const [selectedCrypto, setSelectedCrypto] = useState<CryptoMarketItem | null>(null)
 
+    // Price alerts
+    const [alertsOpen, setAlertsOpen] = useState(false)
+    const [alertTarget, setAlertTarget] = useState<PriceAlertTarget | null>(null)
+    const { unreadCount: unreadAlerts } = usePriceAlertInbox()
+
+    const openAlerts = useCallback((target: PriceAlertTarget | null) => {
+        setSelectedCedear(null)
+        setSelectedCrypto(null)
+        setAlertTarget(target)
+        setAlertsOpen(true)
+    }, [])
+
     // Memoize favorite Arrays to prevent hook re-runs
     const cedearFavIds = useMemo(() => Array.from(cedearFavorites), [cedearFavorites])
     const cryptoFavIds = useMemo(() => Array.from(cryptoFavorites), [cryptoFavorites])
@@ -665,6 +691,20 @@ export function MarketPage() {
                                 <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
                                 Actualizar
                             </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openAlerts(null)}
+                                className="gap-2 relative"
+                            >
+                                <Bell className="h-4 w-4" />
+                                Alertas
+                                {unreadAlerts > 0 && (
+                                    <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+                                        {unreadAlerts}
+                                    </span>
+                                )}
+                            </Button>
                             {lastUpdated && (
                                 <div className="glass rounded-full px-3 py-1.5 border text-xs text-muted-foreground flex items-center gap-1">
                                     <Clock className="h-3 w-3" />
@@ -1009,6 +1049,11 @@ export function MarketPage() {
                     mepRate={fxRates?.mep?.sell ?? fxRates?.mep?.buy ?? 0}
                     cclRate={fxRates?.ccl?.sell ?? fxRates?.ccl?.buy ?? 0}
                     onClose={() => setSelectedCedear(null)}
+                    onCreateAlert={() => openAlerts({
+                        assetKind: 'cedear',
+                        assetId: selectedCedear.ticker,
+                        label: selectedCedear.ticker,
+                    })}
                 />
             )}
 
@@ -1017,8 +1062,19 @@ export function MarketPage() {
                 <CryptoDetailModal
                     item={selectedCrypto}
                     onClose={() => setSelectedCrypto(null)}
+                    onCreateAlert={() => openAlerts({
+                        assetKind: 'crypto',
+                        assetId: selectedCrypto.id,
+                        label: selectedCrypto.ticker,
+                    })}
                 />
             )}
+
+            <PriceAlertsDialog
+                open={alertsOpen}
+                onOpenChange={setAlertsOpen}
+                initialTarget={alertTarget}
+            />
         </div>
     )
 }
@@ -1,15 +1,19 @@
 import { useState, useMemo, useEffect } from 'react'
 import { useNavigate, useLocation } from 'react-router-dom'
-import { Plus, Upload } from 'lucide-react'
+import { CalendarClock, ClipboardList, Copy, Plus, Upload } from 'lucide-react'
 import { useMovements, useDeleteMovement } from '@/hooks/use-movements'
 import { useInstruments, useAccounts } from '@/hooks/use-instruments'
 import { useFxRates } from '@/hooks/use-fx-rates'
+import { REBALANCE_DRAFT_SOURCE, useMovementDrafts } from '@/features/rebalance'
+import { DCA_DRAFT_SOURCE } from '@/features/dca'
+import { useMovementDuplicates } from '@/hooks/use-movement-duplicates'
 import {
     MovementsKpis,
     MovementsFilters,
     MovementsTable,
     MovementDetailsDrawer,
     MovementWizard,
+    DuplicateMovementsDialog,
 } from './components'
 import type { Movement } from '@/domain/types'
 
@@ -22,12 +26,16 @@ export function MovementsPageV2() {
     const { data: instrumentsList = [] } = useInstruments()
     const { data: accountsList = [] } = useAccounts()
     const { data: fxRates } = useFxRates()
+    const { drafts } = useMovementDrafts(REBALANCE_DRAFT_SOURCE)
+    const { drafts: dcaDrafts } = useMovementDrafts(DCA_DRAFT_SOURCE)
+    const { groups: duplicateGroups } = useMovementDuplicates()
 
     // UI State
     const [search, setSearch] = useState('')
     const [filter, setFilter] = useState<FilterType>('all')
     const [isWizardOpen, setIsWizardOpen] = useState(false)
     const [isDrawerOpen, setIsDrawerOpen] = useState(false)
+    const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false)
     const [selectedMovement, setSelectedMovement] = useState<Movement | null>(null)
     const [editingMovement, setEditingMovement] = useState<Movement | null>(null)
     const deleteMovement = useDeleteMovement()
@@ -134,6 +142,45 @@ export function MovementsPageV2() {
                 </div>
             </div>
 
+            {/* Pending drafts from the rebalance planner */}
+            {drafts.length > 0 && (
+                <button
+                    onClick={() => navigate('/rebalanceo')}
+                    className="w-full px-4 py-3 bg-amber-500/10 hover:bg-amber-500/15 border border-amber-500/20 text-amber-300 rounded-lg text-sm transition flex items-center gap-2 text-left"
+                >
+                    <ClipboardList className="w-4 h-4 shrink-0" />
+                    {drafts.length === 1
+                        ? 'Tenés 1 borrador de rebalanceo sin confirmar.'
+                        : `Tenés ${drafts.length} borradores de rebalanceo sin confirmar.`}
+                </button>
+            )}
+
+            {/* Scheduled DCA purchases waiting for their fill price */}
+            {dcaDrafts.length > 0 && (
+                <button
+                    onClick={() => navigate('/dca')}
+                    className="w-full px-4 py-3 bg-amber-500/10 hover:bg-amber-500/15 border border-amber-500/20 text-amber-300 rounded-lg text-sm transition flex items-center gap-2 text-left"
+                >
+                    <CalendarClock className="w-4 h-4 shrink-0" />
+                    {dcaDrafts.length === 1
+                        ? 'Tenés 1 compra DCA pendiente de confirmar.'
+                        : `Tenés ${dcaDrafts.length} compras DCA pendientes de confirmar.`}
+                </button>
+            )}
+
+            {/* Possible duplicates (imports, sync, manual entry) */}
+            {duplicateGroups.length > 0 && (
+                <button
+                    onClick={() => setIsDuplicatesOpen(true)}
+                    className="w-full px-4 py-3 bg-amber-500/10 hover:bg-amber-500/15 border border-amber-500/20 text-amber-300 rounded-lg text-sm transition flex items-center gap-2 text-left"
+                >
+                    <Copy className="w-4 h-4 shrink-0" />
+                    {duplicateGroups.length === 1
+                        ? 'Hay 1 grupo de movimientos posiblemente duplicados. Revisalo.'
+                        : `Hay ${duplicateGroups.length} grupos de movimientos posiblemente duplicados. Revisalos.`}
+                </button>
+            )}
+
             {/* KPIs */}
             <MovementsKpis movements={movements} fxMep={fxMep} />
 
@@ -178,6 +225,14 @@ export function MovementsPageV2() {
                 }}
                 prefillMovement={editingMovement}
             />
+
+            {/* Duplicate review */}
+            <DuplicateMovementsDialog
+                open={isDuplicatesOpen}
+                onOpenChange={setIsDuplicatesOpen}
+                instruments={instruments}
+                accounts={accounts}
+            />
         </div>
     )
 }
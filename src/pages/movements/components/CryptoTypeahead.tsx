@@ -2,6 +2,7 @@
 import { useState, useRef, useEffect } from 'react'
 import { Search, X, Loader2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { registerCoingeckoId, searchCoins } from '@/data/providers/crypto-coingecko'
 
 export interface CryptoOption {
     id?: string
@@ -83,16 +84,11 @@ export function CryptoTypeahead({
 
             setLoading(true)
             try {
-                const res = await fetch(`https://api.coingecko.com/api/v3/search?query=${encodeURIComponent(query)}`)
-                if (!res.ok) throw new Error('API Error')
-
-                const data = await res.json()
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const apiCoins = (data.coins || []).map((c: any) => ({
+                const apiCoins = (await searchCoins(query)).map(c => ({
                     coingeckoId: c.id,
-                    ticker: c.symbol.toUpperCase(),
+                    ticker: c.symbol,
                     name: c.name,
-                    category: c.symbol.toUpperCase() === 'USDT' || c.symbol.toUpperCase() === 'USDC' || c.symbol.toUpperCase() === 'DAI' ? 'STABLE' : 'CRYPTO',
+                    category: c.symbol === 'USDT' || c.symbol === 'USDC' || c.symbol === 'DAI' ? 'STABLE' : 'CRYPTO',
                     thumb: c.thumb
                 })) as CryptoOption[]
 
@@ -116,6 +112,8 @@ export function CryptoTypeahead({
     }, [search])
 
     const handleSelect = (asset: CryptoOption) => {
+        // Prices for this ticker resolve to the coin the user picked
+        registerCoingeckoId(asset.ticker, asset.coingeckoId)
         onChange(asset)
         setSearch('')
         setIsOpen(false)
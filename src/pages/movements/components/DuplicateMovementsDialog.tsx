@@ -0,0 +1,239 @@
+import { useState } from 'react'
+import { Copy, Undo2 } from 'lucide-react'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/components/ui/toast'
+import { cn } from '@/lib/utils'
+import { formatMoney, formatQty } from '@/lib/format'
+import { useMovementDuplicates } from '@/hooks/use-movement-duplicates'
+import type {
+    DuplicateResolution,
+    DuplicateResolutionAction,
+    DuplicateSignal,
+    MovementDuplicateGroup,
+} from '@/domain/duplicates'
+import type { Account, Instrument, Movement } from '@/domain/types'
+
+const signalLabels: Record<DuplicateSignal, string> = {
+    same_time: 'Misma hora',
+    same_day: 'Mismo día',
+    near_date: 'Fecha cercana',
+    same_amount: 'Mismo monto',
+    near_amount: 'Monto similar',
+    same_quantity: 'Misma cantidad',
+    different_imports: 'Importado dos veces',
+    import_and_manual: 'Importado y cargado a mano',
+    same_import: 'Mismo archivo',
+}
+
+const actionLabels: Record<DuplicateResolutionAction, string> = {
+    merge: 'Fusionados',
+    delete: 'Duplicados eliminados',
+    keep_both: 'Marcados como distintos',
+}
+
+const movementTypeLabels: Record<string, string> = {
+    BUY: 'Compra',
+    SELL: 'Venta',
+    DEPOSIT: 'Depósito',
+    WITHDRAW: 'Retiro',
+    DIVIDEND: 'Dividendo',
+    INTEREST: 'Interés',
+    FEE: 'Comisión',
+    TRANSFER_IN: 'Transfer In',
+    TRANSFER_OUT: 'Transfer Out',
+    DEBT_ADD: 'Nueva Deuda',
+    DEBT_PAY: 'Pago Deuda',
+    BUY_USD: 'Compra USD',
+    SELL_USD: 'Venta USD',
+    ADJUSTMENT: 'Ajuste',
+}
+
+interface DuplicateMovementsDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    instruments: Map<string, Instrument>
+    accounts: Map<string, Account>
+}
+
+export function DuplicateMovementsDialog({ open, onOpenChange, instruments, accounts }: DuplicateMovementsDialogProps) {
+    const { groups, resolutions, resolve, undo, isResolving } = useMovementDuplicates()
+    const { toast } = useToast()
+
+    const describe = (movement: Movement) => [
+        movementTypeLabels[movement.type] ?? movement.type,
+        (movement.instrumentId && instruments.get(movement.instrumentId)?.symbol) || movement.ticker,
+        accounts.get(movement.accountId)?.name ?? movement.bank,
+    ].filter(Boolean).join(' · ')
+
+    const handleResolve = async (group: MovementDuplicateGroup, action: DuplicateResolutionAction, keepId: string) => {
+        try {
+            await resolve({ group, action, keepId })
+            toast({ title: actionLabels[action], description: describe(group.movements[0]), variant: 'success' })
+        } catch (err) {
+            console.error('Failed to resolve duplicates', err)
+            toast({ title: 'Error', description: 'No se pudieron resolver los duplicados.', variant: 'error' })
+        }
+    }
+
+    const handleUndo = async (resolution: DuplicateResolution) => {
+        try {
+            await undo(resolution)
+            toast({ title: 'Cambios deshechos', description: 'Los movimientos volvieron a su estado anterior.', variant: 'success' })
+        } catch (err) {
+            console.error('Failed to undo duplicate resolution', err)
+            toast({ title: 'Error', description: 'No se pudo deshacer.', variant: 'error' })
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-3xl">
+                <DialogHeader>
+                    <div className="flex items-center gap-3">
+                        <div className="h-10 w-10 rounded-full bg-warning/10 flex items-center justify-center">
+                            <Copy className="h-5 w-5 text-warning" />
+                        </div>
+                        <DialogTitle>Movimientos duplicados</DialogTitle>
+                    </div>
+                    <DialogDescription className="pt-2">
+                        Operaciones que parecen cargadas más de una vez (importaciones repetidas, sincronización o carga manual).
+                        Fusionar conserva un movimiento y le suma los datos que solo tenían las copias.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 px-6 pb-2">
+                    {groups.length === 0 && (
+                        <p className="text-sm text-muted-foreground py-6 text-center">
+                            No se encontraron duplicados.
+                        </p>
+                    )}
+                    {groups.map(group => (
+                        <DuplicateGroupCard
+                            key={group.key}
+                            group={group}
+                            title={describe(group.movements[0])}
+                            disabled={isResolving}
+                            onResolve={(action, keepId) => handleResolve(group, action, keepId)}
+                        />
+                    ))}
+
+                    {resolutions.length > 0 && (
+                        <div className="space-y-2 pt-2">
+                            <p className="text-xs uppercase text-muted-foreground tracking-wider">Resueltos</p>
+                            <div className="rounded-lg border border-border divide-y divide-border">
+                                {resolutions.map(resolution => (
+                                    <div key={resolution.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-medium truncate">{actionLabels[resolution.action]}</p>
+                                            <p className="text-xs text-muted-foreground">
+                                                {new Date(resolution.createdAtISO).toLocaleString('es-AR')}
+                                                {resolution.removed.length > 0 && ` · ${resolution.removed.length} eliminado(s)`}
+                                                {resolution.removed[0] && ` · ${describe(resolution.removed[0])}`}
+                                            </p>
+                                        </div>
+                                        <Button variant="ghost" size="sm" disabled={isResolving} onClick={() => handleUndo(resolution)}>
+                                            <Undo2 className="h-4 w-4 mr-1" />
+                                            Deshacer
+                                        </Button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter className="pt-4">
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                        Cerrar
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+function DuplicateGroupCard({
+    group,
+    title,
+    disabled,
+    onResolve,
+}: {
+    group: MovementDuplicateGroup
+    title: string
+    disabled: boolean
+    onResolve: (action: DuplicateResolutionAction, keepId: string) => void
+}) {
+    const [keepId, setKeepId] = useState(group.keepId)
+
+    return (
+        <div className="rounded-lg border border-border">
+            <div className="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+                <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{title}</p>
+                    <div className="flex flex-wrap gap-1 pt-1">
+                        {group.signals.map(signal => (
+                            <Badge key={signal} variant="outline" className="text-[10px] font-normal">
+                                {signalLabels[signal]}
+                            </Badge>
+                        ))}
+                    </div>
+                </div>
+                <Badge variant={group.confidence === 'high' ? 'warning' : 'secondary'}>
+                    {group.confidence === 'high' ? 'Probable' : 'Posible'}
+                </Badge>
+            </div>
+
+            <div className="divide-y divide-border text-sm">
+                {group.movements.map(movement => {
+                    const isKept = movement.id === keepId
+                    return (
+                        <label
+                            key={movement.id}
+                            className={cn('flex items-center gap-3 px-3 py-2 cursor-pointer', isKept && 'bg-success/5')}
+                        >
+                            <input
+                                type="radio"
+                                name={`keep-${group.key}`}
+                                checked={isKept}
+                                onChange={() => setKeepId(movement.id)}
+                            />
+                            <div className="flex-1 min-w-0">
+                                <p className="font-mono text-xs">
+                                    {new Date(movement.datetimeISO).toLocaleString('es-AR')}
+                                    {movement.quantity != null && ` · ${formatQty(movement.quantity)}`}
+                                    {` · ${formatMoney(movement.totalAmount, movement.tradeCurrency)}`}
+                                </p>
+                                <p className="text-xs text-muted-foreground truncate">
+                                    {movement.importBatchId ? `Importación ${movement.importBatchId.slice(0, 8)}` : 'Carga manual'}
+                                    {movement.notes && ` · ${movement.notes}`}
+                                </p>
+                            </div>
+                            {isKept && <span className="text-xs text-success">Se conserva</span>}
+                        </label>
+                    )
+                })}
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-2 border-t border-border px-3 py-2">
+                <Button variant="ghost" size="sm" disabled={disabled} onClick={() => onResolve('keep_both', keepId)}>
+                    Son distintos
+                </Button>
+                <Button variant="outline" size="sm" disabled={disabled} onClick={() => onResolve('delete', keepId)}>
+                    Eliminar copias
+                </Button>
+                <Button size="sm" disabled={disabled} onClick={() => onResolve('merge', keepId)}>
+                    Fusionar
+                </Button>
+            </div>
+        </div>
+    )
+}
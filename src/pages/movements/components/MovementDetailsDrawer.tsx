@@ -245,20 +245,25 @@ export function MovementDetailsDrawer({
                     >
                         <Trash2 className="w-4 h-4" />
                     </button>
-                    <button
-                        onClick={() => onEdit?.(movement)}
-                        className="flex-1 py-2.5 rounded-lg border border-white/10 text-slate-300 hover:bg-white/5 text-sm font-medium transition flex items-center justify-center gap-2"
-                    >
-                        <Edit className="w-4 h-4" />
-                        Editar
-                    </button>
-                    <button
-                        onClick={() => onDuplicate?.(movement)}
-                        className="flex-1 py-2.5 rounded-lg bg-indigo-500 text-white hover:bg-indigo-600 shadow-lg text-sm font-medium transition flex items-center justify-center gap-2"
-                    >
-                        <Copy className="w-4 h-4" />
-                        Duplicar
-                    </button>
+                    {/* The wizard has no adjustment branch: it would save them back as a BUY */}
+                    {movement.type !== 'ADJUSTMENT' && (
+                        <>
+                            <button
+                                onClick={() => onEdit?.(movement)}
+                                className="flex-1 py-2.5 rounded-lg border border-white/10 text-slate-300 hover:bg-white/5 text-sm font-medium transition flex items-center justify-center gap-2"
+                            >
+                                <Edit className="w-4 h-4" />
+                                Editar
+                            </button>
+                            <button
+                                onClick={() => onDuplicate?.(movement)}
+                                className="flex-1 py-2.5 rounded-lg bg-indigo-500 text-white hover:bg-indigo-600 shadow-lg text-sm font-medium transition flex items-center justify-center gap-2"
+                            >
+                                <Copy className="w-4 h-4" />
+                                Duplicar
+                            </button>
+                        </>
+                    )}
                 </div>
             </aside>
         </>,
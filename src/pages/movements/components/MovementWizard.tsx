@@ -9,9 +9,11 @@ import {
     PieChart,
     Wallet,
     Banknote,
+    Landmark,
+    Repeat,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import type { Movement, Currency, FxType, MovementType, AssetCategory, Instrument, FixedDepositMeta } from '@/domain/types'
+import type { Movement, Currency, FxType, MovementType, AssetCategory, Instrument, FixedDepositMeta, FixedDepositType } from '@/domain/types'
 import { AccountSelectCreatable } from './AccountSelectCreatable'
 import { useFxRates } from '@/hooks/use-fx-rates'
 import { useInstruments, useAccounts, useCreateInstrument } from '@/hooks/use-instruments'
@@ -22,6 +24,14 @@ import { CryptoTypeahead, type CryptoOption } from './CryptoTypeahead'
 import { FciTypeahead, generateFciSlug } from './FciTypeahead'
 import { db } from '@/db'
 import { computeTEA, computeTermTEA } from '@/domain/yield/accrual'
+import {
+    computeFixedDepositPrecancel,
+    computeFixedDepositRedemption,
+    isUvaDeposit,
+    PRECANCEL_DEFAULT_FROM_DAYS,
+    type FixedDepositTerms,
+} from '@/domain/pf/valuation'
+import { useUvaSeries } from '@/hooks/use-uva'
 
 const formatQty = (n: number) => n.toLocaleString('es-AR', { maximumFractionDigits: 8 })
 import { AssetTypeahead, type AssetOption, MOCK_ASSETS } from './AssetTypeahead'
@@ -31,21 +41,32 @@ import { WalletCashWizard } from './wallet/WalletCashWizard'
 import { CryptoBuySellWizard } from './crypto'
 import { FciBuySellWizard } from './fci'
 import { CedearBuySellWizard } from './cedear'
+import { BondBuySellWizard } from './bond'
+import { CaucionWizard } from './caucion'
 import { WizardStepper } from './ui/WizardStepper'
 import { WizardFooter } from './ui/WizardFooter'
 
 // Max days after maturity to allow redemption
 const PF_REDEEM_MARGIN_DAYS = 3
 
+const PF_DEPOSIT_TYPES: Array<{ id: FixedDepositType; label: string }> = [
+    { id: 'traditional', label: 'Tradicional' },
+    { id: 'uva', label: 'UVA' },
+    { id: 'uva_precancelable', label: 'UVA precancelable' },
+]
+
 // Helper: get active (non-redeemed) PF BUY movements
 function getActivePFs(movements: Movement[], accountId?: string): Movement[] {
-    // Collect redeemed pfGroupIds
+    // Collect redeemed pfGroupIds. A SELL linked to a specific constitution
+    // only redeems that one: renewals share the group with the next deposit.
+    const constitutionIds = new Set(movements.filter(m => m.assetClass === 'pf' && m.type === 'BUY').map(m => m.id))
     const redeemedGroupIds = new Set<string>()
     const redeemedPfIds = new Set<string>()
     movements.forEach(m => {
         if (m.assetClass === 'pf' && m.type === 'SELL') {
-            if (m.meta?.pfGroupId) redeemedGroupIds.add(m.meta.pfGroupId)
             if (m.pf?.pfId) redeemedPfIds.add(m.pf.pfId)
+            if (m.pf?.pfId && constitutionIds.has(m.pf.pfId)) return
+            if (m.meta?.pfGroupId) redeemedGroupIds.add(m.meta.pfGroupId)
         }
     })
 
@@ -112,7 +133,63 @@ function ExistingPFSelector({
 
 
 // Asset class type for wizard
-type AssetClass = 'cedear' | 'crypto' | 'pf' | 'fci' | 'currency' | 'wallet'
+type AssetClass = 'cedear' | 'crypto' | 'pf' | 'fci' | 'currency' | 'wallet' | 'bond' | 'caucion' | 'option'
+
+/** Options come from imports and expiries: they can be edited, not picked as a new class */
+type PickableAssetClass = Exclude<AssetClass, 'option'>
+
+interface SelectedPfData {
+    pfCode: string
+    bank: string
+    capitalARS: number
+    tna: number
+    termDays: number
+    startDate: string
+    maturityDate: string
+    interestARS: number
+    totalARS: number
+    depositType?: FixedDepositType
+    uvaStart?: number
+    precancelTna?: number
+    precancelFromDays?: number
+}
+
+function selectedPfTerms(pf: SelectedPfData): FixedDepositTerms {
+    const maturityISO = pf.maturityDate
+        || new Date(new Date(pf.startDate).getTime() + pf.termDays * 24 * 60 * 60 * 1000).toISOString()
+    return {
+        depositType: pf.depositType ?? 'traditional',
+        principalARS: pf.capitalARS,
+        tna: pf.tna,
+        termDays: pf.termDays,
+        startISO: pf.startDate,
+        maturityISO,
+        uvaStart: pf.uvaStart,
+        precancelTna: pf.precancelTna,
+        precancelFromDays: pf.precancelFromDays,
+    }
+}
+
+// Redeem date check: maturity up to the margin, or earlier when the PF can be precancelled that day
+function getPfRedeemDateError(pf: SelectedPfData, datetime: string): string | null {
+    if (!pf.maturityDate) return null
+    const matDate = new Date(pf.maturityDate)
+    const maxDate = new Date(matDate)
+    maxDate.setDate(maxDate.getDate() + PF_REDEEM_MARGIN_DAYS)
+    const redeemDate = new Date(datetime)
+    if (redeemDate < matDate) {
+        if (computeFixedDepositPrecancel(selectedPfTerms(pf), datetime.slice(0, 10))) return null
+        if (pf.depositType === 'uva_precancelable') {
+            const fromDays = pf.precancelFromDays ?? PRECANCEL_DEFAULT_FROM_DAYS
+            return `La precancelación se habilita a los ${fromDays} días de constituido.`
+        }
+        return `La fecha de rescate no puede ser anterior al vencimiento (${matDate.toLocaleDateString()}).`
+    }
+    if (redeemDate > maxDate) {
+        return `La fecha excede el margen de ${PF_REDEEM_MARGIN_DAYS} días post-vencimiento (${maxDate.toLocaleDateString()}).`
+    }
+    return null
+}
 type OpType = 'buy' | 'sell' | 'constitute' | 'redeem' | 'deposit' | 'withdraw' | 'buy_usd' | 'sell_usd'
 
 interface WizardState {
@@ -137,19 +214,13 @@ interface WizardState {
     alias?: string
     pfCode?: string
     selectedPfMovementId?: string
-    selectedPfData?: {
-        pfCode: string
-        bank: string
-        capitalARS: number
-        tna: number
-        termDays: number
-        startDate: string
-        maturityDate: string
-        interestARS: number
-        totalARS: number
-    }
+    selectedPfData?: SelectedPfData
     tna?: number
     termDays?: number
+    depositType?: FixedDepositType
+    uvaStart?: number
+    precancelTna?: number
+    precancelFromDays?: number
     yieldEnabled?: boolean
     // Crypto specific
     coingeckoId?: string
@@ -177,7 +248,7 @@ interface MovementWizardProps {
 }
 
 const ASSET_CLASS_CONFIG: Record<
-    AssetClass,
+    PickableAssetClass,
     { label: string; description: string; icon: typeof Building2; color: string }
 > = {
     cedear: {
@@ -186,6 +257,12 @@ const ASSET_CLASS_CONFIG: Record<
         icon: Building2,
         color: 'bg-indigo-500/20 text-indigo-400',
     },
+    bond: {
+        label: 'Bonos / ONs',
+        description: 'AL30, GD30, Lecaps, ONs...',
+        icon: Landmark,
+        color: 'bg-sky-500/20 text-sky-400',
+    },
     crypto: {
         label: 'Cripto',
         description: 'Bitcoin, USDT, Ethereum...',
@@ -216,6 +293,12 @@ const ASSET_CLASS_CONFIG: Record<
         icon: PieChart,
         color: 'bg-blue-500/20 text-blue-400',
     },
+    caucion: {
+        label: 'Cauciones',
+        description: 'Colocadora o tomadora, 1 a 30 días',
+        icon: Repeat,
+        color: 'bg-teal-500/20 text-teal-400',
+    },
 }
 
 const FX_RATES_FALLBACK: Record<FxType, number> = {
@@ -233,6 +316,7 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
     const { data: instrumentsList = [] } = useInstruments()
     const { data: accountsList = [] } = useAccounts()
     const { data: allMovements = [] } = useMovements() // Fetch all for PF lookup
+    const { lookup: uva } = useUvaSeries()
     const updateMovement = useUpdateMovement()
     const createMovement = useCreateMovement()
     const createInstrument = useCreateInstrument()
@@ -293,6 +377,10 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                 pfCode: pm.meta?.pfCode || pm.alias || '',
                 tna: pm.tna || pm.meta?.fixedDeposit?.tna,
                 termDays: pm.termDays || pm.meta?.fixedDeposit?.termDays,
+                depositType: pm.meta?.fixedDeposit?.depositType ?? 'traditional',
+                uvaStart: pm.meta?.fixedDeposit?.uvaStart,
+                precancelTna: pm.meta?.fixedDeposit?.precancelTna,
+                precancelFromDays: pm.meta?.fixedDeposit?.precancelFromDays,
 
                 coingeckoId: (pm.assetClass === 'crypto' && asset) ? (asset as CryptoOption).coingeckoId : undefined,
                 totalAmountInput: '',
@@ -326,6 +414,7 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
             pfCode: `PF-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${Math.random().toString(36).substring(2, 6).toUpperCase()}`,
             tna: 35,
             termDays: 30,
+            depositType: 'traditional',
 
             // New defaults
             totalAmountInput: '',
@@ -419,12 +508,16 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
         setState(s => ({ ...s, fxRate: newRate }))
     }, [state.fxType, fxRates])
 
-    // Reset when closing
+    // Reset when closing; load the movement being edited when opening.
+    // Options skip the class picker: they can't become another class.
     useEffect(() => {
         if (!open) {
             setStep(1)
             setChildStep(1)
             setState(getInitialState())
+        } else if (prefillMovement) {
+            setStep(prefillMovement.assetClass === 'option' ? 2 : 1)
+            setState(getInitialState())
         }
     }, [open])
 
@@ -527,6 +620,16 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
         }
     }, [state.qty, state.price, state.currency, state.fxRate, state.feeMode, state.feeValue, state.opType])
 
+    // UVA / precancelable PF redemption: the amount depends on the redeem date
+    const pfRedemption = useMemo(() => {
+        const pf = state.selectedPfData
+        if (state.opType !== 'redeem' || !pf || !isUvaDeposit(pf.depositType)) return null
+        return computeFixedDepositRedemption(selectedPfTerms(pf), state.datetime.slice(0, 10), uva)
+    }, [state.opType, state.selectedPfData, state.datetime, uva])
+
+    // UVA at constitution, from the series unless typed in
+    const pfUvaStart = state.uvaStart ?? uva?.(state.datetime.slice(0, 10))?.value
+
     // Submit
     const handleConfirm = async () => {
         try {
@@ -560,6 +663,10 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                         toast({ title: 'Error de validación', description: 'El plazo debe ser mayor a 0.', variant: 'error' })
                         return
                     }
+                    if (state.depositType === 'uva_precancelable' && (state.precancelTna == null || state.precancelTna <= 0)) {
+                        toast({ title: 'Error de validación', description: 'Ingresá la TNA de precancelación.', variant: 'error' })
+                        return
+                    }
                 }
             } else {
                 // Normal validation for non-pf
@@ -574,8 +681,8 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                     return
                 }
 
-                // Validate available quantity for sell/redeem operations
-                if (['sell', 'redeem'].includes(state.opType) && state.qty > availableQty) {
+                // Validate available quantity for sell/redeem operations (written options may go short)
+                if (['sell', 'redeem'].includes(state.opType) && state.assetClass !== 'option' && state.qty > availableQty) {
                     toast({ title: 'Error de validación', description: `No puedes vender más de lo disponible (${formatQty(availableQty)}).`, variant: 'error' })
                     return
                 }
@@ -589,6 +696,14 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                     })
                     return
                 }
+                if (state.assetClass === 'option' && !Number.isInteger(state.qty)) {
+                    toast({
+                        title: 'Error de validación',
+                        description: 'La cantidad de la opción (en acciones subyacentes) debe ser un número entero.',
+                        variant: 'error',
+                    })
+                    return
+                }
 
                 if (state.assetClass !== 'wallet' && state.assetClass !== 'currency' && (!state.price || state.price < 0)) {
                     // Warning or specific logic? For now permit 0 but check logic elsewhere
@@ -655,6 +770,9 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                     await (createInstrument as any).mutateAsync(newInstrument)
                     instrumentId = fciId
                 }
+            } else if (state.assetClass === 'option') {
+                // Options keep the instrument they were imported with (series terms live on it)
+                instrumentId = prefillMovement?.instrumentId
             } else if (state.assetClass === 'pf') {
                 // PF Deterministic Instrument
                 const pfSymbol = 'PF_ARS'
@@ -744,8 +862,8 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                     // Use original PF data for redeem — not editable state
                     pfPrincipal = state.selectedPfData.capitalARS
                     pfDays = state.selectedPfData.termDays
-                    pfInterest = state.selectedPfData.interestARS
-                    pfTotal = state.selectedPfData.totalARS
+                    pfInterest = (pfRedemption ?? state.selectedPfData).interestARS
+                    pfTotal = (pfRedemption ?? state.selectedPfData).totalARS
                     pfMaturityDate = new Date(state.selectedPfData.maturityDate)
                 } else {
                     pfPrincipal = state.qty || 0
@@ -759,7 +877,22 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                     pfMaturityDate = matDate
                 }
 
+                const depositType = state.opType === 'redeem'
+                    ? state.selectedPfData?.depositType ?? 'traditional'
+                    : state.depositType ?? 'traditional'
+                const depositTerms = state.opType === 'redeem' ? state.selectedPfData : {
+                    uvaStart: pfUvaStart,
+                    precancelTna: state.precancelTna,
+                    precancelFromDays: state.precancelFromDays ?? PRECANCEL_DEFAULT_FROM_DAYS,
+                }
+
                 pfFixedDepositMeta = {
+                    depositType,
+                    ...(isUvaDeposit(depositType) ? { uvaStart: depositTerms?.uvaStart } : {}),
+                    ...(depositType === 'uva_precancelable' ? {
+                        precancelTna: depositTerms?.precancelTna,
+                        precancelFromDays: depositTerms?.precancelFromDays,
+                    } : {}),
                     pfGroupId,
                     pfCode,
                     providerName: accountsList.find(a => a.id === state.accountId)?.name || 'Desconocido',
@@ -802,7 +935,7 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                 id: movementId,
                 datetimeISO: new Date(state.datetime).toISOString(),
                 type: movementType,
-                assetClass: state.assetClass as any,
+                assetClass: state.assetClass,
                 instrumentId: instrumentId!, // Asserted
                 accountId: state.accountId,
 
@@ -823,6 +956,9 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
 
                 // Meta with FCI/PF snapshot + settlement for stablecoin sales
                 meta: {
+                    ...(prefillMovement?.meta?.short ? { short: true } : {}),
+                    // Expiry legs carry their exercise / expiry details
+                    ...(state.assetClass === 'option' && prefillMovement?.meta?.option ? { option: prefillMovement.meta.option } : {}),
                     ...(state.assetClass === 'pf' ? {
                         pfGroupId,
                         pfCode,
@@ -887,7 +1023,8 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                 // Legacy PF field population
                 pf: state.assetClass === 'pf' ? {
                     kind: state.opType === 'constitute' ? 'constitute' : 'redeem',
-                    pfId: pfGroupId!, // Asserted
+                    // Redeems link to the constitution itself, so renewal chains sharing the group stay apart
+                    pfId: state.opType === 'redeem' && state.selectedPfMovementId ? state.selectedPfMovementId : pfGroupId!,
                     bank: accountsList.find(a => a.id === state.accountId)?.name || 'Desconocido',
                     alias: pfCode,
                     capitalARS: pfPrincipal,
@@ -979,6 +1116,10 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                             pfGroupId: fd.pfGroupId,
                             pfCode: fd.pfCode,
                             providerName: fd.providerName,
+                            depositType: fd.depositType,
+                            uvaStart: fd.uvaStart,
+                            precancelTna: fd.precancelTna,
+                            precancelFromDays: fd.precancelFromDays,
 
                             // Update redemption status
                             redeemedAt: movementPayload.datetimeISO,
@@ -1080,6 +1221,12 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
         }
     }
 
+    // Contract terms of the option being edited
+    const optionTerms = useMemo(() => {
+        if (state.assetClass !== 'option' || !prefillMovement?.instrumentId) return undefined
+        return instrumentsList.find(i => i.id === prefillMovement.instrumentId)?.option
+    }, [state.assetClass, prefillMovement, instrumentsList])
+
     // Filter assets based on class
     const filteredAssets = useMemo(() => {
         // Special classes have no list
@@ -1131,8 +1278,17 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                         {step >= 2 && state.assetClass === 'cedear' && (
                             <p className="text-sm text-slate-400 mt-0.5">Compra o venta de CEDEARs.</p>
                         )}
+                        {step >= 2 && state.assetClass === 'bond' && (
+                            <p className="text-sm text-slate-400 mt-0.5">Compra o venta de bonos, Lecaps y obligaciones negociables.</p>
+                        )}
+                        {step >= 2 && state.assetClass === 'caucion' && (
+                            <p className="text-sm text-slate-400 mt-0.5">Caución bursátil colocadora o tomadora a plazo fijo.</p>
+                        )}
+                        {step >= 2 && state.assetClass === 'option' && (
+                            <p className="text-sm text-slate-400 mt-0.5">Compra o lanzamiento de opciones (calls / puts).</p>
+                        )}
                         <WizardStepper
-                            currentStep={step >= 2 && ['cedear', 'crypto', 'fci', 'wallet'].includes(state.assetClass) ? 1 + childStep : step}
+                            currentStep={step >= 2 && ['cedear', 'bond', 'caucion', 'crypto', 'fci', 'wallet'].includes(state.assetClass) ? 1 + childStep : step}
                             totalSteps={4}
                             className="mt-2"
                         />
@@ -1155,6 +1311,24 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                         onBackToAssetType={() => { setStep(1); setChildStep(1) }}
                         onStepChange={setChildStep}
                     />
+                ) : step >= 2 && state.assetClass === 'bond' ? (
+                    <BondBuySellWizard
+                        accounts={accountsList}
+                        movements={allMovements}
+                        instruments={instrumentsList}
+                        onClose={() => onOpenChange(false)}
+                        onBackToAssetType={() => { setStep(1); setChildStep(1) }}
+                        onStepChange={setChildStep}
+                    />
+                ) : step >= 2 && state.assetClass === 'caucion' ? (
+                    <CaucionWizard
+                        accounts={accountsList}
+                        movements={allMovements}
+                        instruments={instrumentsList}
+                        onClose={() => onOpenChange(false)}
+                        onBackToAssetType={() => { setStep(1); setChildStep(1) }}
+                        onStepChange={setChildStep}
+                    />
                 ) : step >= 2 && state.assetClass === 'crypto' ? (
                     <CryptoBuySellWizard
                         accounts={accountsList}
@@ -1194,7 +1368,7 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                 ¿Qué tipo de activo operaste?
                             </h3>
                             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                                {(Object.entries(ASSET_CLASS_CONFIG) as [AssetClass, typeof ASSET_CLASS_CONFIG.cedear][]).map(
+                                {(Object.entries(ASSET_CLASS_CONFIG) as [PickableAssetClass, typeof ASSET_CLASS_CONFIG.cedear][]).map(
                                     ([key, config]) => {
                                         const Icon = config.icon
                                         return (
@@ -1319,6 +1493,8 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                         selectedPfMovementId: undefined, selectedPfData: undefined,
                                                         pfCode: `PF-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${Math.random().toString(36).substring(2, 6).toUpperCase()}`,
                                                         tna: 35, termDays: 30,
+                                                        depositType: 'traditional', uvaStart: undefined,
+                                                        precancelTna: undefined, precancelFromDays: undefined,
                                                     }))}
                                                     className="sr-only"
                                                 />
@@ -1458,6 +1634,7 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                             const startDate = fd?.startDate ?? pf.pf?.startAtISO ?? pf.datetimeISO
                                                             const maturityDate = fd?.maturityDate ?? pf.pf?.maturityISO ?? ''
                                                             const bank = fd?.providerName ?? pf.bank ?? accountsList.find(a => a.id === pf.accountId)?.name ?? ''
+                                                            const depositType = fd?.depositType ?? 'traditional'
 
                                                             // Default datetime to maturity date
                                                             const matDateForInput = maturityDate ? new Date(maturityDate) : new Date()
@@ -1477,6 +1654,10 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                                     maturityDate,
                                                                     interestARS: interest,
                                                                     totalARS: total,
+                                                                    depositType,
+                                                                    uvaStart: fd?.uvaStart,
+                                                                    precancelTna: fd?.precancelTna,
+                                                                    precancelFromDays: fd?.precancelFromDays,
                                                                 },
                                                                 qty: total,
                                                                 qtyStr: total.toString(),
@@ -1576,6 +1757,20 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                 </div>
                                             )}
                                         </div>
+                                    ) : state.assetClass === 'option' ? (
+                                        <div>
+                                            <label className="block text-sm font-medium text-slate-400 mb-2">
+                                                Opción
+                                            </label>
+                                            <div className="rounded-lg border border-white/10 bg-white/[0.02] px-4 py-3">
+                                                <span className="font-mono font-semibold text-white">{state.asset?.ticker ?? prefillMovement?.ticker}</span>
+                                                {optionTerms && (
+                                                    <span className="ml-3 text-sm text-slate-400">
+                                                        {optionTerms.optionType === 'call' ? 'Call' : 'Put'} {optionTerms.underlyingSymbol} · Base {optionTerms.strike.toLocaleString('es-AR')} · Vence {optionTerms.expiry}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </div>
                                     ) : (
                                         <div>
                                             <label className="block text-sm font-medium text-slate-400 mb-2">
@@ -1694,6 +1889,35 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                     {state.assetClass === 'pf' && state.opType === 'constitute' ? (
                                         <div className="space-y-6">
                                             {/* Constituir PF Inputs */}
+                                            <div>
+                                                <label className="block text-sm font-medium text-slate-400 mb-2">
+                                                    Tipo de Plazo Fijo
+                                                </label>
+                                                <div className="flex p-1 bg-slate-900 rounded-lg border border-white/10">
+                                                    {PF_DEPOSIT_TYPES.map(option => (
+                                                        <button
+                                                            key={option.id}
+                                                            type="button"
+                                                            onClick={() => setState(s => s.depositType === option.id ? s : ({
+                                                                ...s,
+                                                                depositType: option.id,
+                                                                // Typical terms: UVA pays ~1% on top from 90 days, precancelable runs 180
+                                                                tna: option.id === 'traditional' ? 35 : 1,
+                                                                termDays: option.id === 'uva' ? 90 : option.id === 'uva_precancelable' ? 180 : 30,
+                                                            }))}
+                                                            className={cn(
+                                                                'flex-1 px-3 py-2 rounded-md text-sm font-medium transition whitespace-nowrap',
+                                                                (state.depositType ?? 'traditional') === option.id
+                                                                    ? 'bg-indigo-500 text-white'
+                                                                    : 'hover:bg-white/5 text-slate-400'
+                                                            )}
+                                                        >
+                                                            {option.label}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            </div>
+
                                             <div>
                                                 <label className="block text-sm font-medium text-slate-400 mb-2">
                                                     Capital a Invertir (ARS)
@@ -1729,7 +1953,7 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                 </div>
                                                 <div>
                                                     <label className="block text-sm font-medium text-slate-400 mb-2">
-                                                        TNA (%)
+                                                        {isUvaDeposit(state.depositType) ? 'TNA adicional (%)' : 'TNA (%)'}
                                                     </label>
                                                     <div className="relative">
                                                         <input
@@ -1745,6 +1969,60 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                 </div>
                                             </div>
 
+                                            {isUvaDeposit(state.depositType) && (
+                                                <div className="grid grid-cols-2 gap-4">
+                                                    <div>
+                                                        <label className="block text-sm font-medium text-slate-400 mb-2">
+                                                            Valor UVA inicial
+                                                        </label>
+                                                        <input
+                                                            type="number"
+                                                            value={state.uvaStart ?? ''}
+                                                            onChange={e =>
+                                                                setState(s => ({ ...s, uvaStart: parseFloat(e.target.value) || undefined }))
+                                                            }
+                                                            placeholder={pfUvaStart ? pfUvaStart.toFixed(2) : 'Serie UVA sin datos'}
+                                                            className="input-base w-full rounded-lg px-4 py-3 text-white font-mono text-lg"
+                                                        />
+                                                        <p className="text-xs text-slate-500 mt-1.5">
+                                                            {state.uvaStart == null && pfUvaStart
+                                                                ? 'Tomado de la serie UVA para la fecha de constitución.'
+                                                                : 'Opcional: si falta, se toma de la serie UVA importada.'}
+                                                        </p>
+                                                    </div>
+                                                    {state.depositType === 'uva_precancelable' && (
+                                                        <div className="space-y-4">
+                                                            <div>
+                                                                <label className="block text-sm font-medium text-slate-400 mb-2">
+                                                                    TNA precancelación (%)
+                                                                </label>
+                                                                <input
+                                                                    type="number"
+                                                                    value={state.precancelTna ?? ''}
+                                                                    onChange={e =>
+                                                                        setState(s => ({ ...s, precancelTna: parseFloat(e.target.value) || undefined }))
+                                                                    }
+                                                                    className="input-base w-full rounded-lg px-4 py-3 text-white font-mono text-lg"
+                                                                />
+                                                            </div>
+                                                            <div>
+                                                                <label className="block text-sm font-medium text-slate-400 mb-2">
+                                                                    Precancelable desde (días)
+                                                                </label>
+                                                                <input
+                                                                    type="number"
+                                                                    value={state.precancelFromDays ?? PRECANCEL_DEFAULT_FROM_DAYS}
+                                                                    onChange={e =>
+                                                                        setState(s => ({ ...s, precancelFromDays: parseFloat(e.target.value) || PRECANCEL_DEFAULT_FROM_DAYS }))
+                                                                    }
+                                                                    className="input-base w-full rounded-lg px-4 py-3 text-white font-mono text-lg"
+                                                                />
+                                                            </div>
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            )}
+
                                             {/* TEA Chip */}
                                             {(state.tna || 0) > 0 && (state.termDays || 0) > 0 && (
                                                 <div className="flex items-center gap-2 text-xs">
@@ -1788,11 +2066,11 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                             </div>
                                                             <div>
                                                                 <span className="text-slate-500 text-xs">Interés</span>
-                                                                <div className="text-emerald-400 font-mono">+{formatMoneyARS(state.selectedPfData.interestARS)}</div>
+                                                                <div className="text-emerald-400 font-mono">+{formatMoneyARS((pfRedemption ?? state.selectedPfData).interestARS)}</div>
                                                             </div>
                                                             <div>
                                                                 <span className="text-slate-500 text-xs">Total a Cobrar</span>
-                                                                <div className="text-white font-mono font-bold">{formatMoneyARS(state.selectedPfData.totalARS)}</div>
+                                                                <div className="text-white font-mono font-bold">{formatMoneyARS((pfRedemption ?? state.selectedPfData).totalARS)}</div>
                                                             </div>
                                                         </div>
                                                         <div className="flex gap-4 pt-2 border-t border-white/5 text-xs text-slate-500">
@@ -1814,15 +2092,12 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                         />
                                                         {(() => {
                                                             if (!state.selectedPfData?.maturityDate) return null
-                                                            const matDate = new Date(state.selectedPfData.maturityDate)
-                                                            const maxDate = new Date(matDate)
-                                                            maxDate.setDate(maxDate.getDate() + PF_REDEEM_MARGIN_DAYS)
-                                                            const redeemDate = new Date(state.datetime)
-                                                            if (redeemDate < matDate) {
-                                                                return <p className="text-xs text-rose-400 mt-1.5">La fecha de rescate no puede ser anterior al vencimiento ({matDate.toLocaleDateString()}).</p>
+                                                            const dateError = getPfRedeemDateError(state.selectedPfData, state.datetime)
+                                                            if (dateError) {
+                                                                return <p className="text-xs text-rose-400 mt-1.5">{dateError}</p>
                                                             }
-                                                            if (redeemDate > maxDate) {
-                                                                return <p className="text-xs text-rose-400 mt-1.5">La fecha excede el margen de {PF_REDEEM_MARGIN_DAYS} días post-vencimiento ({maxDate.toLocaleDateString()}).</p>
+                                                            if (pfRedemption?.precancelled) {
+                                                                return <p className="text-xs text-amber-400 mt-1.5">Precancelación: se cobra el capital más la TNA de precancelación, sin ajuste UVA.</p>
                                                             }
                                                             return <p className="text-xs text-slate-500 mt-1.5">Dentro del período válido de rescate.</p>
                                                         })()}
@@ -2260,7 +2535,7 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                         <div>
                                                             <div className="text-sm text-slate-400 mb-1">Total a Cobrar</div>
                                                             <div className="text-3xl font-mono font-bold text-white tracking-tight">
-                                                                {formatMoneyARS(state.selectedPfData.totalARS)}
+                                                                {formatMoneyARS((pfRedemption ?? state.selectedPfData).totalARS)}
                                                             </div>
                                                         </div>
                                                         <div className="h-px bg-white/10 my-4" />
@@ -2271,7 +2546,7 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                             </div>
                                                             <div className="flex justify-between items-center">
                                                                 <span className="text-xs text-slate-400">Interés</span>
-                                                                <span className="text-sm font-mono text-emerald-400">+{formatMoneyARS(state.selectedPfData.interestARS)}</span>
+                                                                <span className="text-sm font-mono text-emerald-400">+{formatMoneyARS((pfRedemption ?? state.selectedPfData).interestARS)}</span>
                                                             </div>
                                                             <div className="flex justify-between items-center">
                                                                 <span className="text-xs text-slate-400">TNA / TEA</span>
@@ -2284,7 +2559,9 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                 ) : (
                                                     <>
                                                         <div>
-                                                            <div className="text-sm text-slate-400 mb-1">Total al Vencimiento</div>
+                                                            <div className="text-sm text-slate-400 mb-1">
+                                                                {isUvaDeposit(state.depositType) ? 'Total al Vencimiento (sin ajuste UVA)' : 'Total al Vencimiento'}
+                                                            </div>
                                                             <div className="text-3xl font-mono font-bold text-white tracking-tight">
                                                                 {formatMoneyARS(state.qty + (state.qty * (state.tna || 0) / 100 * (state.termDays || 30) / 365))}
                                                             </div>
@@ -2562,15 +2839,24 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                 </div>
                                                 <div className="flex justify-between border-b border-white/5 pb-2">
                                                     <span className="text-slate-500 text-sm">Interés</span>
-                                                    <span className="text-emerald-400 font-mono font-medium">+{formatMoneyARS(state.selectedPfData.interestARS)}</span>
+                                                    <span className="text-emerald-400 font-mono font-medium">+{formatMoneyARS((pfRedemption ?? state.selectedPfData).interestARS)}</span>
                                                 </div>
                                                 <div className="flex justify-between pt-1">
                                                     <span className="text-slate-200 text-sm font-bold">Total a Cobrar</span>
-                                                    <span className="text-indigo-400 font-mono font-bold text-lg">{formatMoneyARS(state.selectedPfData.totalARS)}</span>
+                                                    <span className="text-indigo-400 font-mono font-bold text-lg">{formatMoneyARS((pfRedemption ?? state.selectedPfData).totalARS)}</span>
                                                 </div>
                                             </>
                                         ) : (
                                             <>
+                                                <div className="flex justify-between border-b border-white/5 pb-2">
+                                                    <span className="text-slate-500 text-sm">Tipo</span>
+                                                    <span className="text-white font-medium">
+                                                        {PF_DEPOSIT_TYPES.find(t => t.id === (state.depositType ?? 'traditional'))?.label}
+                                                        {state.depositType === 'uva_precancelable' && state.precancelTna != null && (
+                                                            <span className="text-slate-500 font-mono text-sm"> · precanc. {state.precancelTna}%</span>
+                                                        )}
+                                                    </span>
+                                                </div>
                                                 <div className="flex justify-between border-b border-white/5 pb-2">
                                                     <span className="text-slate-500 text-sm">Capital Invertido</span>
                                                     <span className="text-white font-mono font-medium">{formatMoneyARS(state.qty)}</span>
@@ -2589,7 +2875,9 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                     </div>
                                                 )}
                                                 <div className="flex justify-between border-b border-white/5 pb-2">
-                                                    <span className="text-slate-500 text-sm">Interés Estimado</span>
+                                                    <span className="text-slate-500 text-sm">
+                                                        {isUvaDeposit(state.depositType) ? 'Interés Estimado (más ajuste UVA)' : 'Interés Estimado'}
+                                                    </span>
                                                     <span className="text-emerald-400 font-mono font-medium">
                                                         +{formatMoneyARS(state.qty * (state.tna || 0) / 100 * (state.termDays || 30) / 365)}
                                                     </span>
@@ -2611,7 +2899,7 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                                                 {state.opType === 'buy' || state.opType === 'constitute'
                                                     ? 'Compra'
                                                     : 'Venta'}{' '}
-                                                {ASSET_CLASS_CONFIG[state.assetClass].label}
+                                                {state.assetClass === 'option' ? 'Opción' : ASSET_CLASS_CONFIG[state.assetClass].label}
                                             </span>
                                         </div>
                                         <div className="flex justify-between border-b border-white/5 pb-2">
@@ -2661,7 +2949,7 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
 
                 {/* Footer */}
                 <WizardFooter
-                    onBack={step === 1 ? () => onOpenChange(false) : () => setStep(s => s - 1)}
+                    onBack={step === 1 || (step === 2 && state.assetClass === 'option') ? () => onOpenChange(false) : () => setStep(s => s - 1)}
                     onCancel={() => onOpenChange(false)}
                     primaryLabel={step < 4 ? 'Siguiente' : 'Confirmar'}
                     onPrimary={step < 4 ? () => setStep(s => s + 1) : handleConfirm}
@@ -2669,14 +2957,8 @@ export function MovementWizard({ open, onOpenChange, prefillMovement }: Movement
                     primaryDisabled={
                         step < 4
                             ? (state.assetClass === 'pf' && state.opType === 'redeem' && step === 3
-                                ? (!state.selectedPfData || !state.selectedPfMovementId || (() => {
-                                    if (!state.selectedPfData?.maturityDate) return false
-                                    const matDate = new Date(state.selectedPfData.maturityDate)
-                                    const maxDate = new Date(matDate)
-                                    maxDate.setDate(maxDate.getDate() + PF_REDEEM_MARGIN_DAYS)
-                                    const redeemDate = new Date(state.datetime)
-                                    return redeemDate < matDate || redeemDate > maxDate
-                                })())
+                                ? (!state.selectedPfData || !state.selectedPfMovementId
+                                    || getPfRedeemDateError(state.selectedPfData, state.datetime) != null)
                                 : false)
                             : false
                     }
@@ -26,6 +26,11 @@ export function MovementsTable({
             if (m.type === 'BUY') return 'bg-indigo-500/10 text-indigo-400 border border-indigo-500/20' // PF / Constitucion
             if (m.type === 'SELL') return 'bg-amber-500/10 text-amber-400 border border-amber-500/20' // Rescate
         }
+        if (m.assetClass === 'caucion') {
+            return m.meta?.caucion?.caucionId
+                ? 'bg-amber-500/10 text-amber-400 border border-amber-500/20' // Vencimiento
+                : 'bg-teal-500/10 text-teal-400 border border-teal-500/20' // Apertura
+        }
 
         const type = m.type
         if (type === 'BUY') return 'bg-emerald-500/10 text-emerald-400 border border-emerald-500/20'
@@ -42,6 +47,9 @@ export function MovementsTable({
             if (m.type === 'BUY') return 'PF'
             if (m.type === 'SELL') return 'Rescate'
         }
+        if (m.assetClass === 'caucion') {
+            return m.meta?.caucion?.caucionId ? 'Venc. caución' : 'Caución'
+        }
 
         const type = m.type
         const labels: Record<string, string> = {
@@ -54,6 +62,7 @@ export function MovementsTable({
             FEE: 'Comisión',
             TRANSFER_IN: 'Transf. In',
             TRANSFER_OUT: 'Transf. Out',
+            ADJUSTMENT: 'Ajuste',
         }
         return labels[type] || type
     }
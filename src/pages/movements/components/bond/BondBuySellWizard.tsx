@@ -0,0 +1,950 @@
+/**
+ * Bond / ON Buy/Sell Wizard
+ *
+ * Sub-wizard for renta fija, delegated from MovementWizard when
+ * assetClass === 'bond' at step >= 2.
+ *
+ * Prices are entered per 100 VN, as brokers quote them. Known sovereign bonds
+ * come with their schedule from the catalog; ONs and Lecaps are entered with
+ * custom terms, which are stored on the instrument. Bonds have no live price
+ * feed, so the trade price becomes the instrument's quote until updated.
+ */
+
+import { useState, useMemo, useEffect } from 'react'
+import { Info } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { Movement, Account, Instrument, MovementType, MovementFee, BondKind, BondTerms } from '@/domain/types'
+import { AssetTypeahead, type AssetOption } from '../AssetTypeahead'
+import { AccountSelectCreatable } from '../AccountSelectCreatable'
+import { useCreateMovement } from '@/hooks/use-movements'
+import { useCreateInstrument } from '@/hooks/use-instruments'
+import { useManualPrices } from '@/hooks/use-manual-prices'
+import { useFxRates } from '@/hooks/use-fx-rates'
+import { useToast } from '@/components/ui/toast'
+import {
+    analyzeBond,
+    BOND_PRICE_BASE,
+    buildBondSchedule,
+    buildCapitalizingSchedule,
+    getBondByTicker,
+    listBonds,
+} from '@/domain/bonds'
+import { sortAccountsForAssetClass } from '../wizard-helpers'
+import { WizardFooter } from '../ui/WizardFooter'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+type Mode = 'buy' | 'sell'
+type Step = 1 | 2 | 3
+
+interface CustomBondForm {
+    ticker: string
+    name: string
+    kind: BondKind
+    payCurrency: 'ARS' | 'USD'
+    issueDate: string
+    maturityDate: string
+    couponRate: string // Annual %
+    frequency: '1' | '2' | '4' | '12'
+    tem: string // Lecap monthly effective rate %
+}
+
+interface BondWizardState {
+    mode: Mode
+    step: Step
+    // Step 1
+    asset: AssetOption | null
+    isCustom: boolean
+    custom: CustomBondForm
+    accountId: string
+    datetime: string
+    // Step 2
+    currency: 'ARS' | 'USD'
+    priceStr: string // Per 100 VN
+    qtyStr: string // VN
+    feeMode: 'PERCENT' | 'FIXED'
+    feeValue: string
+    fxAtTrade: number
+    fxAtTradeManual: boolean
+    notes: string
+}
+
+interface BondBuySellWizardProps {
+    accounts: Account[]
+    movements: Movement[]
+    instruments: Instrument[]
+    onClose: () => void
+    onBackToAssetType?: () => void
+    onStepChange?: (step: number) => void
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+const safeFloat = (s: string): number => {
+    const v = parseFloat(s.replace(',', '.'))
+    return Number.isFinite(v) ? v : 0
+}
+
+const fmt2 = (n: number) =>
+    Number.isFinite(n) ? n.toLocaleString('es-AR', { maximumFractionDigits: 2, minimumFractionDigits: 2 }) : '—'
+
+const fmtPct = (fraction: number | null) =>
+    fraction != null && Number.isFinite(fraction) ? `${(fraction * 100).toFixed(2)}%` : '—'
+
+const toDatetimeLocalValue = (date: Date): string => {
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    return local.toISOString().slice(0, 16)
+}
+
+const FX_MEP_FALLBACK = 1180.5
+
+const BOND_KIND_LABELS: Record<BondKind, string> = {
+    sovereign: 'Soberano',
+    lecap: 'Lecap / Boncap',
+    corporate: 'ON (corporativa)',
+}
+
+const EMPTY_CUSTOM: CustomBondForm = {
+    ticker: '',
+    name: '',
+    kind: 'corporate',
+    payCurrency: 'USD',
+    issueDate: '',
+    maturityDate: '',
+    couponRate: '',
+    frequency: '2',
+    tem: '',
+}
+
+/** Bullet bond or capitalizing Lecap from the custom form; null while incomplete */
+function buildCustomTerms(form: CustomBondForm): BondTerms | null {
+    if (!form.issueDate || !form.maturityDate || form.maturityDate <= form.issueDate) return null
+    const flows = form.kind === 'lecap'
+        ? buildCapitalizingSchedule(form.issueDate, form.maturityDate, safeFloat(form.tem))
+        : buildBondSchedule({
+            issueDate: form.issueDate,
+            maturityDate: form.maturityDate,
+            frequency: Number(form.frequency) as 1 | 2 | 4 | 12,
+            couponSteps: [{ from: form.issueDate, rate: safeFloat(form.couponRate) }],
+        })
+    return {
+        kind: form.kind,
+        currency: form.kind === 'lecap' ? 'ARS' : form.payCurrency,
+        issuer: form.name.trim() || undefined,
+        issueDate: form.issueDate,
+        maturityDate: form.maturityDate,
+        flows,
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+export function BondBuySellWizard({
+    accounts,
+    movements,
+    instruments,
+    onClose,
+    onBackToAssetType,
+    onStepChange,
+}: BondBuySellWizardProps) {
+    const createMovement = useCreateMovement()
+    const createInstrument = useCreateInstrument()
+    const { setPrice: setManualPrice } = useManualPrices()
+    const { data: fxRates } = useFxRates()
+    const { toast } = useToast()
+
+    const mepSellRate = fxRates?.mep?.sell ?? FX_MEP_FALLBACK
+    const mepBuyRate = fxRates?.mep?.buy ?? mepSellRate
+
+    const [state, setState] = useState<BondWizardState>({
+        mode: 'buy',
+        step: 1,
+        asset: null,
+        isCustom: false,
+        custom: EMPTY_CUSTOM,
+        accountId: '',
+        datetime: toDatetimeLocalValue(new Date()),
+        currency: 'ARS',
+        priceStr: '',
+        qtyStr: '',
+        feeMode: 'PERCENT',
+        feeValue: '0.5',
+        fxAtTrade: mepSellRate,
+        fxAtTradeManual: false,
+        notes: '',
+    })
+
+    const isBuy = state.mode === 'buy'
+    const effectiveFx = state.fxAtTrade
+    const price = safeFloat(state.priceStr)
+    const qty = safeFloat(state.qtyStr)
+
+    const sortedAccounts = useMemo(
+        () => sortAccountsForAssetClass(accounts, 'bond'),
+        [accounts],
+    )
+
+    // ---------------------------------------------------------------------------
+    // Options: catalog + bonds already loaded (custom ONs / Lecaps)
+    // ---------------------------------------------------------------------------
+    const bondOptions: AssetOption[] = useMemo(() => {
+        const options = listBonds().map(b => ({ id: b.ticker, ticker: b.ticker, name: b.name, category: 'BOND' }))
+        const known = new Set(options.map(o => o.ticker))
+        instruments
+            .filter(i => i.category === 'BOND' && !known.has(i.symbol))
+            .forEach(i => options.push({ id: i.symbol, ticker: i.symbol, name: i.name, category: 'BOND' }))
+        return options
+    }, [instruments])
+
+    const selectedTicker = state.isCustom ? state.custom.ticker.trim().toUpperCase() : state.asset?.ticker ?? ''
+    const existingInstrument = useMemo(
+        () => instruments.find(i => i.category === 'BOND' && i.symbol === selectedTicker),
+        [instruments, selectedTicker]
+    )
+    const catalogItem = useMemo(() => getBondByTicker(selectedTicker), [selectedTicker])
+
+    const terms: BondTerms | null = useMemo(() => {
+        if (state.isCustom) return buildCustomTerms(state.custom)
+        return existingInstrument?.bond ?? catalogItem?.terms ?? null
+    }, [state.isCustom, state.custom, existingInstrument, catalogItem])
+
+    // ---------------------------------------------------------------------------
+    // Holdings: ticker -> accountId -> VN
+    // ---------------------------------------------------------------------------
+    const holdingsByTicker = useMemo(() => {
+        const map = new Map<string, Map<string, number>>()
+        movements.forEach(m => {
+            if (m.assetClass !== 'bond') return
+            const ticker = instruments.find(i => i.id === m.instrumentId)?.symbol || m.ticker
+            if (!ticker) return
+            const q = m.quantity || 0
+            if (!map.has(ticker)) map.set(ticker, new Map())
+            const accMap = map.get(ticker)!
+            const cur = accMap.get(m.accountId) || 0
+            if (['BUY', 'DEPOSIT', 'TRANSFER_IN'].includes(m.type)) accMap.set(m.accountId, cur + q)
+            if (['SELL', 'WITHDRAW', 'TRANSFER_OUT'].includes(m.type)) accMap.set(m.accountId, cur - q)
+        })
+        return map
+    }, [movements, instruments])
+
+    const availableQty = useMemo(() => {
+        if (!state.asset || !state.accountId || isBuy) return 0
+        return Math.max(0, holdingsByTicker.get(state.asset.ticker)?.get(state.accountId) || 0)
+    }, [state.asset, state.accountId, isBuy, holdingsByTicker])
+
+    const accountsWithBalance = useMemo(() => {
+        if (!state.asset) return []
+        const accMap = holdingsByTicker.get(state.asset.ticker)
+        if (!accMap) return []
+        return accounts.filter(a => (accMap.get(a.id) || 0) > 0)
+    }, [state.asset, accounts, holdingsByTicker])
+
+    const filteredOptions = useMemo(() => {
+        if (isBuy) return bondOptions
+        return bondOptions.filter(o => {
+            let total = 0
+            holdingsByTicker.get(o.ticker)?.forEach(q => { total += q })
+            return total > 0
+        })
+    }, [isBuy, bondOptions, holdingsByTicker])
+
+    // Auto-select account when only 1 option (sell)
+    useEffect(() => {
+        if (!isBuy && accountsWithBalance.length === 1 && state.accountId !== accountsWithBalance[0].id) {
+            setState(s => ({ ...s, accountId: accountsWithBalance[0].id }))
+        }
+    }, [isBuy, accountsWithBalance, state.accountId])
+
+    // Quote currency of the ticker (AL30 in pesos, AL30D in dollars)
+    useEffect(() => {
+        const quoteCurrency = existingInstrument?.nativeCurrency ?? catalogItem?.quoteCurrency
+        if (quoteCurrency === 'ARS' || quoteCurrency === 'USD') {
+            setState(s => ({ ...s, currency: quoteCurrency }))
+        }
+    }, [existingInstrument, catalogItem])
+
+    useEffect(() => {
+        if (!state.fxAtTradeManual) {
+            setState(s => ({ ...s, fxAtTrade: isBuy ? mepSellRate : mepBuyRate }))
+        }
+    }, [isBuy, mepSellRate, mepBuyRate, state.fxAtTradeManual])
+
+    // ---------------------------------------------------------------------------
+    // Computed values
+    // ---------------------------------------------------------------------------
+    const computed = useMemo(() => {
+        const gross = qty * price / BOND_PRICE_BASE
+        const feeVal = safeFloat(state.feeValue)
+        const fee = state.feeMode === 'PERCENT' ? gross * (feeVal / 100) : feeVal
+        return { gross, fee, net: isBuy ? gross + fee : gross - fee }
+    }, [qty, price, state.feeMode, state.feeValue, isBuy])
+
+    const tradeDateKey = state.datetime.slice(0, 10)
+
+    // Analytics need the price in the currency the bond pays
+    const analytics = useMemo(() => {
+        if (!terms || !(price > 0) || !tradeDateKey) return null
+        let pricePayCurrency = price
+        if (state.currency !== terms.currency) {
+            if (!(effectiveFx > 0)) return null
+            pricePayCurrency = terms.currency === 'USD' ? price / effectiveFx : price * effectiveFx
+        }
+        return analyzeBond(terms, pricePayCurrency, tradeDateKey)
+    }, [terms, price, tradeDateKey, state.currency, effectiveFx])
+
+    const altCurrency = useMemo(() => {
+        if (state.currency === 'ARS') {
+            return { label: 'USD (MEP)', value: effectiveFx > 0 ? computed.net / effectiveFx : 0 }
+        }
+        return { label: 'ARS', value: computed.net * effectiveFx }
+    }, [state.currency, computed.net, effectiveFx])
+
+    // ---------------------------------------------------------------------------
+    // Step Validation
+    // ---------------------------------------------------------------------------
+    const canAdvance = useMemo(() => {
+        if (state.step === 1) {
+            if (!selectedTicker) return false
+            if (state.isCustom && !terms) return false
+            if (!state.accountId) return false
+            if (!tradeDateKey) return false
+            if (!isBuy && availableQty <= 0) return false
+            return true
+        }
+        if (state.step === 2) {
+            if (!(qty > 0) || !(price > 0)) return false
+            if (!isBuy && qty > availableQty) return false
+            return true
+        }
+        return true
+    }, [state.step, state.isCustom, state.accountId, selectedTicker, terms, tradeDateKey, isBuy, availableQty, qty, price])
+
+    // ---------------------------------------------------------------------------
+    // Navigation
+    // ---------------------------------------------------------------------------
+    const nextStep = () => {
+        if (!canAdvance) return
+        if (state.step < 3) setState(s => ({ ...s, step: (s.step + 1) as Step }))
+        else handleConfirm()
+    }
+
+    const prevStep = () => {
+        if (state.step > 1) setState(s => ({ ...s, step: (s.step - 1) as Step }))
+        else if (onBackToAssetType) onBackToAssetType()
+        else onClose()
+    }
+
+    // Sync step to parent for unified stepper
+    useEffect(() => { onStepChange?.(state.step) }, [state.step])
+
+    const setMode = (mode: Mode) => {
+        setState(s => ({
+            ...s,
+            mode,
+            step: 1,
+            asset: null,
+            isCustom: false,
+            custom: EMPTY_CUSTOM,
+            accountId: '',
+            qtyStr: '',
+            priceStr: '',
+            fxAtTrade: mode === 'buy' ? mepSellRate : mepBuyRate,
+            fxAtTradeManual: false,
+        }))
+    }
+
+    const setCustom = (patch: Partial<CustomBondForm>) => {
+        setState(s => ({ ...s, custom: { ...s.custom, ...patch } }))
+    }
+
+    // ---------------------------------------------------------------------------
+    // Confirm / Persist
+    // ---------------------------------------------------------------------------
+    const handleConfirm = async () => {
+        if (!selectedTicker || !state.accountId) return
+
+        try {
+            let instrument = existingInstrument
+            if (!instrument) {
+                instrument = {
+                    id: crypto.randomUUID(),
+                    symbol: selectedTicker,
+                    name: state.isCustom ? (state.custom.name.trim() || selectedTicker) : (state.asset?.name ?? selectedTicker),
+                    category: 'BOND',
+                    nativeCurrency: catalogItem?.quoteCurrency ?? state.currency,
+                    priceKey: selectedTicker.toLowerCase(),
+                    bond: terms ?? undefined,
+                }
+                await createInstrument.mutateAsync(instrument)
+            }
+
+            const movementType: MovementType = isBuy ? 'BUY' : 'SELL'
+            const tradeDatetimeISO = new Date(state.datetime).toISOString()
+            const netAmount = computed.net
+
+            let totalARS: number, totalUSD: number
+            if (state.currency === 'ARS') {
+                totalARS = netAmount
+                totalUSD = effectiveFx > 0 ? netAmount / effectiveFx : 0
+            } else {
+                totalUSD = netAmount
+                totalARS = netAmount * effectiveFx
+            }
+
+            const fee: MovementFee | undefined = computed.fee > 0 ? {
+                mode: state.feeMode,
+                percent: state.feeMode === 'PERCENT' ? safeFloat(state.feeValue) : undefined,
+                amount: computed.fee,
+                currency: state.currency,
+            } : undefined
+
+            const movementPayload: Movement = {
+                id: crypto.randomUUID(),
+                datetimeISO: tradeDatetimeISO,
+                type: movementType,
+                assetClass: 'bond',
+                instrumentId: instrument.id,
+                accountId: state.accountId,
+                ticker: selectedTicker,
+                assetName: instrument.name,
+                quantity: qty,
+                unitPrice: price / BOND_PRICE_BASE,
+                tradeCurrency: state.currency,
+                totalAmount: computed.gross,
+                fee,
+                netAmount,
+                totalUSD,
+                totalARS,
+                fxAtTrade: effectiveFx,
+                fx: {
+                    kind: 'MEP',
+                    rate: effectiveFx,
+                    side: isBuy ? 'sell' : 'buy',
+                    asOf: tradeDatetimeISO,
+                },
+                notes: state.notes || undefined,
+                meta: {
+                    bond: {
+                        pricePer100: price,
+                        accruedPer100: analytics?.accruedInterest,
+                        ytm: analytics?.ytm ?? undefined,
+                    },
+                },
+            }
+
+            await createMovement.mutateAsync(movementPayload)
+
+            // No price feed for bonds: the trade price is the quote (in the instrument's currency)
+            const quote = state.currency === instrument.nativeCurrency
+                ? price
+                : instrument.nativeCurrency === 'USD'
+                    ? (effectiveFx > 0 ? price / effectiveFx : 0)
+                    : price * effectiveFx
+            if (quote > 0) setManualPrice(instrument.id, quote)
+
+            toast({
+                title: 'Movimiento creado',
+                description: `${isBuy ? 'Compra' : 'Venta'} de ${qty} VN ${selectedTicker} registrada correctamente.`,
+                variant: 'default',
+            })
+
+            onClose()
+        } catch (error) {
+            console.error('Failed to save bond movement', error)
+            toast({
+                title: 'Error al guardar',
+                description: 'No se pudo registrar el movimiento. Intenta nuevamente.',
+                variant: 'error',
+            })
+        }
+    }
+
+    const currSymbol = state.currency === 'ARS' ? '$' : 'US$'
+    const inputClass = 'w-full bg-slate-900 border border-white/10 rounded-lg py-2.5 px-4 text-white focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition'
+
+    // ---------------------------------------------------------------------------
+    // Render
+    // ---------------------------------------------------------------------------
+    return (
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row overflow-hidden">
+            {/* LEFT: Wizard Form */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+                <div className="flex-1 overflow-y-auto px-8 py-6">
+                    {/* STEP 1: Bono y cuenta */}
+                    {state.step === 1 && (
+                        <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-300">
+                            <div className="inline-flex bg-black/40 p-1 rounded-lg border border-white/5">
+                                <button
+                                    onClick={() => setMode('buy')}
+                                    className={cn(
+                                        'px-6 py-2 rounded-md text-sm font-bold transition-all',
+                                        isBuy
+                                            ? 'bg-emerald-500/10 text-emerald-400 shadow-sm ring-1 ring-emerald-500/20'
+                                            : 'text-slate-400 hover:text-white'
+                                    )}
+                                >
+                                    Compra
+                                </button>
+                                <button
+                                    onClick={() => setMode('sell')}
+                                    className={cn(
+                                        'px-6 py-2 rounded-md text-sm font-bold transition-all',
+                                        !isBuy
+                                            ? 'bg-rose-500/10 text-rose-400 shadow-sm ring-1 ring-rose-500/20'
+                                            : 'text-slate-400 hover:text-white'
+                                    )}
+                                >
+                                    Venta
+                                </button>
+                            </div>
+
+                            <div className="space-y-5 max-w-lg">
+                                <div>
+                                    <div className="flex justify-between mb-2">
+                                        <label className="text-xs font-mono text-slate-400 uppercase">
+                                            Bono / ON
+                                        </label>
+                                        {isBuy && (
+                                            <button
+                                                type="button"
+                                                onClick={() => setState(s => ({ ...s, isCustom: !s.isCustom, asset: null }))}
+                                                className="text-xs text-indigo-400 hover:text-indigo-300 transition"
+                                            >
+                                                {state.isCustom ? 'Elegir del listado' : 'Cargar ON / Lecap'}
+                                            </button>
+                                        )}
+                                    </div>
+                                    {!state.isCustom ? (
+                                        <AssetTypeahead
+                                            value={state.asset}
+                                            onChange={asset => setState(s => ({
+                                                ...s,
+                                                asset,
+                                                priceStr: '',
+                                                qtyStr: '',
+                                                ...(!isBuy ? { accountId: '' } : {}),
+                                            }))}
+                                            options={filteredOptions}
+                                            placeholder={isBuy ? 'Buscar bono (ej: AL30, GD30)...' : 'Bonos con tenencia...'}
+                                        />
+                                    ) : (
+                                        <div className="space-y-3 p-4 rounded-xl border border-white/10 bg-white/[0.02]">
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <input
+                                                    value={state.custom.ticker}
+                                                    onChange={e => setCustom({ ticker: e.target.value.toUpperCase() })}
+                                                    placeholder="Ticker (ej: YCA6O)"
+                                                    className={inputClass}
+                                                />
+                                                <select
+                                                    value={state.custom.kind}
+                                                    onChange={e => setCustom({ kind: e.target.value as BondKind })}
+                                                    className={inputClass}
+                                                >
+                                                    {(Object.keys(BOND_KIND_LABELS) as BondKind[]).map(kind => (
+                                                        <option key={kind} value={kind}>{BOND_KIND_LABELS[kind]}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                            <input
+                                                value={state.custom.name}
+                                                onChange={e => setCustom({ name: e.target.value })}
+                                                placeholder="Emisor / nombre"
+                                                className={inputClass}
+                                            />
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <label className="text-[10px] font-mono text-slate-500 uppercase">
+                                                    Emisión
+                                                    <input
+                                                        type="date"
+                                                        value={state.custom.issueDate}
+                                                        onChange={e => setCustom({ issueDate: e.target.value })}
+                                                        className={cn(inputClass, 'mt-1')}
+                                                    />
+                                                </label>
+                                                <label className="text-[10px] font-mono text-slate-500 uppercase">
+                                                    Vencimiento
+                                                    <input
+                                                        type="date"
+                                                        value={state.custom.maturityDate}
+                                                        onChange={e => setCustom({ maturityDate: e.target.value })}
+                                                        className={cn(inputClass, 'mt-1')}
+                                                    />
+                                                </label>
+                                            </div>
+                                            {state.custom.kind === 'lecap' ? (
+                                                <label className="block text-[10px] font-mono text-slate-500 uppercase">
+                                                    TEM (%)
+                                                    <input
+                                                        type="number"
+                                                        step="0.01"
+                                                        value={state.custom.tem}
+                                                        onChange={e => setCustom({ tem: e.target.value })}
+                                                        placeholder="Ej: 2.5"
+                                                        className={cn(inputClass, 'mt-1')}
+                                                    />
+                                                </label>
+                                            ) : (
+                                                <div className="grid grid-cols-3 gap-3">
+                                                    <label className="text-[10px] font-mono text-slate-500 uppercase">
+                                                        Cupón anual (%)
+                                                        <input
+                                                            type="number"
+                                                            step="0.01"
+                                                            value={state.custom.couponRate}
+                                                            onChange={e => setCustom({ couponRate: e.target.value })}
+                                                            className={cn(inputClass, 'mt-1')}
+                                                        />
+                                                    </label>
+                                                    <label className="text-[10px] font-mono text-slate-500 uppercase">
+                                                        Pagos
+                                                        <select
+                                                            value={state.custom.frequency}
+                                                            onChange={e => setCustom({ frequency: e.target.value as CustomBondForm['frequency'] })}
+                                                            className={cn(inputClass, 'mt-1')}
+                                                        >
+                                                            <option value="1">Anual</option>
+                                                            <option value="2">Semestral</option>
+                                                            <option value="4">Trimestral</option>
+                                                            <option value="12">Mensual</option>
+                                                        </select>
+                                                    </label>
+                                                    <label className="text-[10px] font-mono text-slate-500 uppercase">
+                                                        Paga en
+                                                        <select
+                                                            value={state.custom.payCurrency}
+                                                            onChange={e => setCustom({ payCurrency: e.target.value as 'ARS' | 'USD' })}
+                                                            className={cn(inputClass, 'mt-1')}
+                                                        >
+                                                            <option value="USD">USD</option>
+                                                            <option value="ARS">ARS</option>
+                                                        </select>
+                                                    </label>
+                                                </div>
+                                            )}
+                                            <p className="text-[10px] text-slate-500">
+                                                {state.custom.kind === 'lecap'
+                                                    ? 'Capitaliza la TEM y paga todo al vencimiento.'
+                                                    : 'Amortiza al vencimiento (bullet). Cupón sobre el valor residual.'}
+                                            </p>
+                                        </div>
+                                    )}
+                                    {!isBuy && state.asset && (
+                                        <div className="mt-2 flex items-center gap-2">
+                                            <span className="text-xs text-slate-500">Disponible total:</span>
+                                            <span className="text-xs font-mono text-white bg-slate-800 px-2 py-0.5 rounded">
+                                                {Array.from(holdingsByTicker.get(state.asset.ticker)?.values() || [])
+                                                    .reduce((s, q) => s + q, 0)} VN
+                                            </span>
+                                        </div>
+                                    )}
+                                    {!state.isCustom && state.asset && !terms && (
+                                        <p className="text-[10px] text-amber-400 mt-1">
+                                            Sin flujo de fondos cargado: no se calculan TIR ni intereses corridos.
+                                        </p>
+                                    )}
+                                </div>
+
+                                <div>
+                                    <label className="block text-xs font-mono text-slate-400 mb-2 uppercase">
+                                        Cuenta / Broker
+                                    </label>
+                                    <AccountSelectCreatable
+                                        value={state.accountId}
+                                        onChange={val => setState(s => ({ ...s, accountId: val, qtyStr: '' }))}
+                                        accounts={!isBuy && state.asset ? accountsWithBalance : sortedAccounts}
+                                        placeholder={!isBuy ? 'Brokers con tenencia...' : 'Ej: IOL, Balanz, Cocos...'}
+                                    />
+                                </div>
+
+                                <div>
+                                    <label className="block text-xs font-mono text-slate-400 mb-2 uppercase">
+                                        Fecha
+                                    </label>
+                                    <input
+                                        type="datetime-local"
+                                        value={state.datetime}
+                                        onChange={e => setState(s => ({ ...s, datetime: e.target.value }))}
+                                        className={inputClass}
+                                    />
+                                    <p className="text-[10px] text-slate-500 mt-1">
+                                        Los intereses corridos y la TIR se calculan a esta fecha.
+                                    </p>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* STEP 2: Precio y nominales */}
+                    {state.step === 2 && (
+                        <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-300">
+                            <div className="grid grid-cols-2 gap-6">
+                                <div>
+                                    <label className="block text-xs font-mono text-slate-400 mb-2 uppercase">
+                                        Moneda
+                                    </label>
+                                    <div className="flex bg-black/40 p-1 rounded-lg border border-white/10 w-fit">
+                                        {(['ARS', 'USD'] as const).map(ccy => (
+                                            <button
+                                                key={ccy}
+                                                onClick={() => setState(s => ({ ...s, currency: ccy, priceStr: '' }))}
+                                                className={cn(
+                                                    'px-4 py-1.5 rounded-md text-xs font-bold transition',
+                                                    state.currency === ccy
+                                                        ? 'bg-white/10 text-white shadow-sm'
+                                                        : 'text-slate-400 hover:text-white'
+                                                )}
+                                            >
+                                                {ccy === 'ARS' ? 'ARS' : 'USD (MEP)'}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <label className="block text-xs font-mono text-slate-400 mb-2 uppercase">
+                                        Tipo de cambio (MEP)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        step="0.01"
+                                        value={state.fxAtTrade || ''}
+                                        onChange={e => {
+                                            const val = parseFloat(e.target.value) || 0
+                                            setState(s => ({ ...s, fxAtTrade: val, fxAtTradeManual: true }))
+                                        }}
+                                        className={cn(inputClass, 'font-mono')}
+                                    />
+                                    <p className="text-[10px] text-slate-500 mt-1">
+                                        MEP: <span className="font-mono text-slate-300">Vta $ {fmt2(mepSellRate)}</span>
+                                        {' / '}
+                                        <span className="font-mono text-slate-300">Cpa $ {fmt2(mepBuyRate)}</span>
+                                    </p>
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-6">
+                                <div>
+                                    <label className="block text-xs font-mono text-slate-400 mb-2 uppercase">
+                                        Precio cada 100 VN ({currSymbol})
+                                    </label>
+                                    <input
+                                        type="number"
+                                        step="0.01"
+                                        value={state.priceStr}
+                                        onChange={e => setState(s => ({ ...s, priceStr: e.target.value }))}
+                                        placeholder="0.00"
+                                        className={cn(inputClass, 'font-mono')}
+                                    />
+                                </div>
+                                <div>
+                                    <div className="flex justify-between mb-2">
+                                        <label className="text-xs font-mono text-slate-400 uppercase">
+                                            Valor nominal (VN)
+                                        </label>
+                                        {!isBuy && availableQty > 0 && (
+                                            <button
+                                                type="button"
+                                                onClick={() => setState(s => ({ ...s, qtyStr: String(availableQty) }))}
+                                                className="text-xs text-indigo-400 hover:text-indigo-300 transition"
+                                            >
+                                                Máx: {availableQty}
+                                            </button>
+                                        )}
+                                    </div>
+                                    <input
+                                        type="number"
+                                        step="1"
+                                        min="1"
+                                        value={state.qtyStr}
+                                        onChange={e => setState(s => ({ ...s, qtyStr: e.target.value }))}
+                                        placeholder="0"
+                                        className={cn(inputClass, 'font-mono')}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="flex items-center gap-4">
+                                <label className="text-xs font-mono text-slate-400 uppercase">Comisión</label>
+                                <div className="flex items-center bg-black/40 rounded border border-white/10 overflow-hidden">
+                                    <button
+                                        onClick={() => setState(s => ({ ...s, feeMode: 'PERCENT' }))}
+                                        className={cn('px-2 py-1 text-xs font-medium', state.feeMode === 'PERCENT' ? 'bg-white/10 text-white' : 'text-slate-500')}
+                                    >
+                                        %
+                                    </button>
+                                    <button
+                                        onClick={() => setState(s => ({ ...s, feeMode: 'FIXED' }))}
+                                        className={cn('px-2 py-1 text-xs font-medium', state.feeMode === 'FIXED' ? 'bg-white/10 text-white' : 'text-slate-500')}
+                                    >
+                                        {currSymbol}
+                                    </button>
+                                </div>
+                                <input
+                                    type="number"
+                                    value={state.feeValue}
+                                    onChange={e => setState(s => ({ ...s, feeValue: e.target.value }))}
+                                    className="w-20 bg-transparent border-b border-white/10 text-sm text-right text-white focus:outline-none focus:border-indigo-500"
+                                />
+                            </div>
+
+                            {!isBuy && qty > availableQty && availableQty > 0 && (
+                                <p className="text-xs text-rose-400">
+                                    No podés vender más de {availableQty} VN.
+                                </p>
+                            )}
+
+                            {analytics && (
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                    {[
+                                        { label: 'TIR', value: fmtPct(analytics.ytm) },
+                                        { label: 'Duration mod.', value: analytics.modifiedDuration != null ? fmt2(analytics.modifiedDuration) : '—' },
+                                        { label: 'Int. corridos', value: fmt2(analytics.accruedInterest) },
+                                        { label: 'Paridad', value: analytics.parity != null ? `${fmt2(analytics.parity)}%` : '—' },
+                                    ].map(kpi => (
+                                        <div key={kpi.label} className="p-3 rounded-lg bg-slate-900/40 border border-white/5">
+                                            <div className="text-[10px] text-slate-500 uppercase font-mono">{kpi.label}</div>
+                                            <div className="font-mono text-white">{kpi.value}</div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* STEP 3: Confirmación */}
+                    {state.step === 3 && (
+                        <div className="flex flex-col items-center justify-center pt-10 text-center animate-in fade-in slide-in-from-right-4 duration-300">
+                            <h2 className="font-display text-2xl font-bold text-white mb-2">Revisá los datos</h2>
+                            <p className="text-slate-400 text-sm max-w-sm mx-auto mb-8">
+                                Estás a punto de registrar un movimiento en tu portafolio. Esto no opera en el mercado real.
+                            </p>
+
+                            <div className="w-full max-w-md bg-slate-900/50 rounded-xl border border-white/10 p-6 text-left space-y-4">
+                                <div className="flex justify-between items-center border-b border-white/5 pb-3">
+                                    <span className="text-sm text-slate-400">Operación</span>
+                                    <span className={cn('font-mono font-bold', isBuy ? 'text-emerald-400' : 'text-rose-400')}>
+                                        {isBuy ? 'COMPRA' : 'VENTA'} RENTA FIJA
+                                    </span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-sm text-slate-400">Activo</span>
+                                    <span className="font-mono text-white">
+                                        {selectedTicker} ({accounts.find(a => a.id === state.accountId)?.name || '—'})
+                                    </span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-sm text-slate-400">Valor nominal</span>
+                                    <span className="font-mono text-white">{qty}</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-sm text-slate-400">Precio c/100 VN</span>
+                                    <span className="font-mono text-white">{currSymbol} {fmt2(price)}</span>
+                                </div>
+                                {analytics?.ytm != null && (
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm text-slate-400">TIR</span>
+                                        <span className="font-mono text-slate-300">{fmtPct(analytics.ytm)}</span>
+                                    </div>
+                                )}
+                                {computed.fee > 0 && (
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm text-slate-400">Comisión</span>
+                                        <span className="font-mono text-rose-400">-{currSymbol} {fmt2(computed.fee)}</span>
+                                    </div>
+                                )}
+                                <div className="flex justify-between items-center pt-3 border-t border-white/5">
+                                    <span className="text-sm text-white font-medium">
+                                        {isBuy ? 'Total a Pagar' : 'Neto a Recibir'}
+                                    </span>
+                                    <span className="font-mono font-bold text-white text-lg">
+                                        {currSymbol} {fmt2(computed.net)}
+                                    </span>
+                                </div>
+                            </div>
+
+                            <div className="w-full max-w-md mt-6">
+                                <label className="block text-xs font-mono text-slate-400 mb-2 uppercase text-left">
+                                    Notas
+                                </label>
+                                <input
+                                    value={state.notes}
+                                    onChange={e => setState(s => ({ ...s, notes: e.target.value }))}
+                                    placeholder="Opcional"
+                                    className={inputClass}
+                                />
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <WizardFooter
+                    onBack={prevStep}
+                    onCancel={onClose}
+                    primaryLabel={state.step < 3 ? 'Siguiente' : 'Confirmar'}
+                    onPrimary={nextStep}
+                    primaryVariant={state.step < 3 ? 'indigo' : 'emerald'}
+                    primaryDisabled={state.step < 3 ? !canAdvance : false}
+                    primaryLoading={state.step === 3 && createMovement.isPending}
+                />
+            </div>
+
+            {/* RIGHT: Summary Panel */}
+            <div className="hidden md:flex w-80 border-l border-white/5 bg-slate-950/50 p-6 flex-col justify-center">
+                <h3 className="font-display font-bold text-slate-400 uppercase text-xs tracking-widest mb-6">
+                    Resumen Estimado
+                </h3>
+
+                <div className="space-y-6">
+                    <div className="p-4 rounded-xl border border-white/10 bg-slate-900/80 shadow-lg">
+                        <div className="text-xs text-slate-400 mb-1">
+                            Total a {isBuy ? 'Pagar' : 'Recibir (Neto)'}
+                        </div>
+                        <div className={cn('font-mono text-2xl font-bold tracking-tight', !isBuy ? 'text-emerald-400' : 'text-white')}>
+                            {currSymbol} {fmt2(computed.net)}
+                        </div>
+                        <div className="text-[10px] text-slate-500 mt-1 font-mono">
+                            ≈ {altCurrency.label} {fmt2(altCurrency.value)}
+                        </div>
+                    </div>
+
+                    {analytics && (
+                        <div className="space-y-3 text-sm">
+                            <div className="flex justify-between items-baseline">
+                                <span className="text-slate-400">Valor residual</span>
+                                <span className="font-mono text-slate-300">{fmt2(analytics.residualValue)}</span>
+                            </div>
+                            <div className="flex justify-between items-baseline">
+                                <span className="text-slate-400">Precio limpio</span>
+                                <span className="font-mono text-slate-300">{fmt2(analytics.cleanPrice)}</span>
+                            </div>
+                            {analytics.nextFlow && (
+                                <div className="flex justify-between items-baseline">
+                                    <span className="text-slate-400">Próximo pago</span>
+                                    <span className="font-mono text-slate-300">
+                                        {new Date(`${analytics.nextFlow.date}T00:00:00`).toLocaleDateString('es-AR')}
+                                    </span>
+                                </div>
+                            )}
+                            {terms && state.currency !== terms.currency && (
+                                <p className="text-[10px] text-slate-500">
+                                    Métricas en {terms.currency}, moneda de pago del bono.
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="p-3 rounded border border-blue-500/20 bg-blue-500/5 flex gap-3 items-start">
+                        <Info className="w-4 h-4 text-blue-400 shrink-0 mt-0.5" />
+                        <p className="text-[10px] text-blue-300 leading-relaxed">
+                            El precio incluye intereses corridos. Queda como cotización del bono hasta que lo actualices.
+                        </p>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1 @@
+export { BondBuySellWizard } from './BondBuySellWizard'
@@ -0,0 +1,506 @@
+/**
+ * Caución Wizard
+ *
+ * Sub-wizard for cauciones bursátiles, delegated from MovementWizard when
+ * assetClass === 'caucion' at step >= 2.
+ *
+ * Records the opening only: the settlement at maturity is written by
+ * useCaucionSettlement. There is no market feed for caución rates, so the
+ * rates of the user's own past cauciones are offered as reference.
+ */
+
+import { useState, useMemo, useEffect } from 'react'
+import { Info } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { Movement, Account, Instrument, CaucionSide } from '@/domain/types'
+import { AccountSelectCreatable } from '../AccountSelectCreatable'
+import { useCreateMovement } from '@/hooks/use-movements'
+import { useToast } from '@/components/ui/toast'
+import { formatMoneyARS } from '@/lib/format'
+import {
+    buildCaucionMeta,
+    buildCaucionOpening,
+    buildCaucionRateHistory,
+    CAUCION_SIDE_LABELS,
+    CAUCION_TERM_MAX_DAYS,
+    CAUCION_TERM_MIN_DAYS,
+} from '@/domain/caucion'
+import { sortAccountsForAssetClass } from '../wizard-helpers'
+import { WizardFooter } from '../ui/WizardFooter'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+type Step = 1 | 2 | 3
+
+interface CaucionWizardState {
+    side: CaucionSide
+    step: Step
+    // Step 1
+    accountId: string
+    datetime: string
+    // Step 2
+    principalStr: string
+    tnaStr: string
+    tnaManual: boolean
+    termStr: string
+    feeTnaStr: string
+    notes: string
+}
+
+interface CaucionWizardProps {
+    accounts: Account[]
+    movements: Movement[]
+    instruments: Instrument[]
+    onClose: () => void
+    onBackToAssetType?: () => void
+    onStepChange?: (step: number) => void
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+const safeFloat = (s: string): number => {
+    const v = parseFloat(s.replace(',', '.'))
+    return Number.isFinite(v) ? v : 0
+}
+
+const toDatetimeLocalValue = (date: Date): string => {
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    return local.toISOString().slice(0, 16)
+}
+
+const TERM_PRESETS = [1, 7, 14, 30]
+const RECENT_RATES_LIMIT = 5
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+export function CaucionWizard({
+    accounts,
+    movements,
+    onClose,
+    onBackToAssetType,
+    onStepChange,
+}: CaucionWizardProps) {
+    const createMovement = useCreateMovement()
+    const { toast } = useToast()
+
+    const [state, setState] = useState<CaucionWizardState>({
+        side: 'colocadora',
+        step: 1,
+        accountId: '',
+        datetime: toDatetimeLocalValue(new Date()),
+        principalStr: '',
+        tnaStr: '',
+        tnaManual: false,
+        termStr: '1',
+        feeTnaStr: '',
+        notes: '',
+    })
+
+    const isLending = state.side === 'colocadora'
+    const principal = safeFloat(state.principalStr)
+    const tna = safeFloat(state.tnaStr)
+    const termDays = Math.floor(safeFloat(state.termStr))
+    const feeTna = safeFloat(state.feeTnaStr)
+
+    const sortedAccounts = useMemo(
+        () => sortAccountsForAssetClass(accounts, 'caucion'),
+        [accounts],
+    )
+
+    // ---------------------------------------------------------------------------
+    // Rate tracking: the user's own cauciones, newest first
+    // ---------------------------------------------------------------------------
+    const recentRates = useMemo(
+        () => buildCaucionRateHistory(movements)
+            .filter(p => p.side === state.side)
+            .reverse()
+            .slice(0, RECENT_RATES_LIMIT),
+        [movements, state.side]
+    )
+
+    // Default the TNA to the last rate for the same term, else the last one
+    useEffect(() => {
+        if (state.tnaManual) return
+        const sameTerm = recentRates.find(p => p.termDays === termDays)
+        const suggested = sameTerm ?? recentRates[0]
+        setState(s => ({ ...s, tnaStr: suggested ? String(suggested.tna) : '' }))
+    }, [recentRates, termDays, state.tnaManual])
+
+    // ---------------------------------------------------------------------------
+    // Computed values
+    // ---------------------------------------------------------------------------
+    const validTerm = termDays >= CAUCION_TERM_MIN_DAYS && termDays <= CAUCION_TERM_MAX_DAYS
+    const startISO = state.datetime ? new Date(state.datetime).toISOString() : ''
+
+    const terms = useMemo(() => {
+        if (!(principal > 0) || !(tna > 0) || !validTerm || !startISO) return null
+        return buildCaucionMeta({ side: state.side, principalARS: principal, tna, termDays, startDate: startISO, feeTna })
+    }, [principal, tna, validTerm, termDays, startISO, feeTna, state.side])
+
+    // ---------------------------------------------------------------------------
+    // Step Validation
+    // ---------------------------------------------------------------------------
+    const canAdvance = useMemo(() => {
+        if (state.step === 1) return !!state.accountId && !!state.datetime
+        if (state.step === 2) return !!terms && feeTna >= 0
+        return true
+    }, [state.step, state.accountId, state.datetime, terms, feeTna])
+
+    // ---------------------------------------------------------------------------
+    // Navigation
+    // ---------------------------------------------------------------------------
+    const nextStep = () => {
+        if (!canAdvance) return
+        if (state.step < 3) setState(s => ({ ...s, step: (s.step + 1) as Step }))
+        else handleConfirm()
+    }
+
+    const prevStep = () => {
+        if (state.step > 1) setState(s => ({ ...s, step: (s.step - 1) as Step }))
+        else if (onBackToAssetType) onBackToAssetType()
+        else onClose()
+    }
+
+    // Sync step to parent for unified stepper
+    useEffect(() => { onStepChange?.(state.step) }, [state.step, onStepChange])
+
+    const setSide = (side: CaucionSide) => {
+        setState(s => ({ ...s, side, step: 1, tnaManual: false }))
+    }
+
+    // ---------------------------------------------------------------------------
+    // Confirm / Persist
+    // ---------------------------------------------------------------------------
+    const handleConfirm = async () => {
+        if (!terms || !state.accountId) return
+
+        try {
+            const movement = buildCaucionOpening({
+                side: state.side,
+                accountId: state.accountId,
+                principalARS: principal,
+                tna,
+                termDays,
+                startDate: startISO,
+                feeTna: feeTna > 0 ? feeTna : undefined,
+                notes: state.notes || undefined,
+            })
+            await createMovement.mutateAsync(movement)
+
+            toast({
+                title: 'Movimiento creado',
+                description: `Caución ${CAUCION_SIDE_LABELS[state.side].toLowerCase()} a ${termDays}d por ${formatMoneyARS(principal)} registrada.`,
+                variant: 'default',
+            })
+
+            onClose()
+        } catch (error) {
+            console.error('Failed to save caución movement', error)
+            toast({
+                title: 'Error al guardar',
+                description: 'No se pudo registrar el movimiento. Intenta nuevamente.',
+                variant: 'error',
+            })
+        }
+    }
+
+    const inputClass = 'w-full bg-slate-900 border border-white/10 rounded-lg py-2.5 px-4 text-white focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition'
+    const accountName = accounts.find(a => a.id === state.accountId)?.name || '—'
+    const maturityLabel = terms ? new Date(terms.maturityDate).toLocaleDateString('es-AR') : '—'
+
+    // ---------------------------------------------------------------------------
+    // Render
+    // ---------------------------------------------------------------------------
+    return (
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row overflow-hidden">
+            {/* LEFT: Wizard Form */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+                <div className="flex-1 overflow-y-auto px-8 py-6">
+                    {/* STEP 1: Lado y cuenta */}
+                    {state.step === 1 && (
+                        <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-300">
+                            <div className="inline-flex bg-black/40 p-1 rounded-lg border border-white/5">
+                                <button
+                                    onClick={() => setSide('colocadora')}
+                                    className={cn(
+                                        'px-6 py-2 rounded-md text-sm font-bold transition-all',
+                                        isLending
+                                            ? 'bg-emerald-500/10 text-emerald-400 shadow-sm ring-1 ring-emerald-500/20'
+                                            : 'text-slate-400 hover:text-white'
+                                    )}
+                                >
+                                    Colocadora
+                                </button>
+                                <button
+                                    onClick={() => setSide('tomadora')}
+                                    className={cn(
+                                        'px-6 py-2 rounded-md text-sm font-bold transition-all',
+                                        !isLending
+                                            ? 'bg-rose-500/10 text-rose-400 shadow-sm ring-1 ring-rose-500/20'
+                                            : 'text-slate-400 hover:text-white'
+                                    )}
+                                >
+                                    Tomadora
+                                </button>
+                            </div>
+                            <p className="text-xs text-slate-400 max-w-lg">
+                                {isLending
+                                    ? 'Prestás pesos a tasa fija: salen de la cuenta hoy y vuelven con intereses al vencimiento.'
+                                    : 'Tomás pesos prestados con tus activos como garantía: los recibís hoy y los devolvés con intereses al vencimiento.'}
+                            </p>
+
+                            <div className="space-y-5 max-w-lg">
+                                <div>
+                                    <label className="block text-xs font-mono text-slate-400 mb-2 uppercase">
+                                        Cuenta / Broker
+                                    </label>
+                                    <AccountSelectCreatable
+                                        value={state.accountId}
+                                        onChange={val => setState(s => ({ ...s, accountId: val }))}
+                                        accounts={sortedAccounts}
+                                        placeholder="Ej: IOL, Balanz, Cocos..."
+                                    />
+                                </div>
+
+                                <div>
+                                    <label className="block text-xs font-mono text-slate-400 mb-2 uppercase">
+                                        Fecha de concertación
+                                    </label>
+                                    <input
+                                        type="datetime-local"
+                                        value={state.datetime}
+                                        onChange={e => setState(s => ({ ...s, datetime: e.target.value }))}
+                                        className={inputClass}
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* STEP 2: Monto, plazo y tasa */}
+                    {state.step === 2 && (
+                        <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-300">
+                            <div className="max-w-lg space-y-5">
+                                <div>
+                                    <label className="block text-xs font-mono text-slate-400 mb-2 uppercase">
+                                        Monto (ARS)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={state.principalStr}
+                                        onChange={e => setState(s => ({ ...s, principalStr: e.target.value }))}
+                                        placeholder="0"
+                                        className={cn(inputClass, 'font-mono')}
+                                    />
+                                </div>
+
+                                <div>
+                                    <label className="block text-xs font-mono text-slate-400 mb-2 uppercase">
+                                        Plazo (días)
+                                    </label>
+                                    <div className="flex items-center gap-2">
+                                        {TERM_PRESETS.map(days => (
+                                            <button
+                                                key={days}
+                                                onClick={() => setState(s => ({ ...s, termStr: String(days) }))}
+                                                className={cn(
+                                                    'px-3 py-1.5 rounded-md text-xs font-bold transition border',
+                                                    termDays === days
+                                                        ? 'bg-white/10 text-white border-white/20'
+                                                        : 'text-slate-400 border-white/5 hover:text-white'
+                                                )}
+                                            >
+                                                {days}d
+                                            </button>
+                                        ))}
+                                        <input
+                                            type="number"
+                                            min={CAUCION_TERM_MIN_DAYS}
+                                            max={CAUCION_TERM_MAX_DAYS}
+                                            value={state.termStr}
+                                            onChange={e => setState(s => ({ ...s, termStr: e.target.value }))}
+                                            className={cn(inputClass, 'font-mono w-24')}
+                                        />
+                                    </div>
+                                    {!validTerm && (
+                                        <p className="text-xs text-rose-400 mt-1">
+                                            El plazo debe estar entre {CAUCION_TERM_MIN_DAYS} y {CAUCION_TERM_MAX_DAYS} días.
+                                        </p>
+                                    )}
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-6">
+                                    <div>
+                                        <label className="block text-xs font-mono text-slate-400 mb-2 uppercase">
+                                            TNA (%)
+                                        </label>
+                                        <input
+                                            type="number"
+                                            step="0.01"
+                                            value={state.tnaStr}
+                                            onChange={e => setState(s => ({ ...s, tnaStr: e.target.value, tnaManual: true }))}
+                                            placeholder="Ej: 32"
+                                            className={cn(inputClass, 'font-mono')}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-mono text-slate-400 mb-2 uppercase">
+                                            Aranceles (% TNA)
+                                        </label>
+                                        <input
+                                            type="number"
+                                            step="0.01"
+                                            min="0"
+                                            value={state.feeTnaStr}
+                                            onChange={e => setState(s => ({ ...s, feeTnaStr: e.target.value }))}
+                                            placeholder="Ej: 1.5"
+                                            className={cn(inputClass, 'font-mono')}
+                                        />
+                                    </div>
+                                </div>
+
+                                {recentRates.length > 0 && (
+                                    <div>
+                                        <div className="text-xs font-mono text-slate-400 mb-2 uppercase">
+                                            Tus últimas tasas ({CAUCION_SIDE_LABELS[state.side].toLowerCase()})
+                                        </div>
+                                        <div className="flex flex-wrap gap-2">
+                                            {recentRates.map((point, idx) => (
+                                                <button
+                                                    key={`${point.dateKey}-${idx}`}
+                                                    onClick={() => setState(s => ({ ...s, tnaStr: String(point.tna), tnaManual: true }))}
+                                                    className="px-2.5 py-1 rounded-md bg-white/5 border border-white/10 text-xs font-mono text-slate-300 hover:text-white hover:border-white/20 transition"
+                                                >
+                                                    {new Date(`${point.dateKey}T00:00:00`).toLocaleDateString('es-AR', { day: '2-digit', month: 'short' })}
+                                                    {' · '}{point.termDays}d{' · '}{point.tna}%
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* STEP 3: Confirmación */}
+                    {state.step === 3 && terms && (
+                        <div className="flex flex-col items-center justify-center pt-10 text-center animate-in fade-in slide-in-from-right-4 duration-300">
+                            <h2 className="font-display text-2xl font-bold text-white mb-2">Revisá los datos</h2>
+                            <p className="text-slate-400 text-sm max-w-sm mx-auto mb-8">
+                                Al vencimiento se liquida automáticamente si tenés activada la auto-liquidación.
+                            </p>
+
+                            <div className="w-full max-w-md bg-slate-900/50 rounded-xl border border-white/10 p-6 text-left space-y-4">
+                                <div className="flex justify-between items-center border-b border-white/5 pb-3">
+                                    <span className="text-sm text-slate-400">Operación</span>
+                                    <span className={cn('font-mono font-bold', isLending ? 'text-emerald-400' : 'text-rose-400')}>
+                                        CAUCIÓN {CAUCION_SIDE_LABELS[state.side].toUpperCase()}
+                                    </span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-sm text-slate-400">Cuenta</span>
+                                    <span className="font-mono text-white">{accountName}</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-sm text-slate-400">Monto</span>
+                                    <span className="font-mono text-white">{formatMoneyARS(terms.principalARS)}</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-sm text-slate-400">Plazo / TNA</span>
+                                    <span className="font-mono text-white">{terms.termDays}d · {terms.tna}%</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-sm text-slate-400">Vencimiento</span>
+                                    <span className="font-mono text-white">{maturityLabel}</span>
+                                </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-sm text-slate-400">Intereses</span>
+                                    <span className="font-mono text-slate-300">{formatMoneyARS(terms.interestARS)}</span>
+                                </div>
+                                {terms.feesARS > 0 && (
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm text-slate-400">Aranceles</span>
+                                        <span className="font-mono text-rose-400">{formatMoneyARS(terms.feesARS)}</span>
+                                    </div>
+                                )}
+                                <div className="flex justify-between items-center pt-3 border-t border-white/5">
+                                    <span className="text-sm text-white font-medium">
+                                        {isLending ? 'A cobrar al vencimiento' : 'A pagar al vencimiento'}
+                                    </span>
+                                    <span className="font-mono font-bold text-white text-lg">
+                                        {formatMoneyARS(terms.totalARS)}
+                                    </span>
+                                </div>
+                            </div>
+
+                            <div className="w-full max-w-md mt-6">
+                                <label className="block text-xs font-mono text-slate-400 mb-2 uppercase text-left">
+                                    Notas
+                                </label>
+                                <input
+                                    value={state.notes}
+                                    onChange={e => setState(s => ({ ...s, notes: e.target.value }))}
+                                    placeholder="Opcional"
+                                    className={inputClass}
+                                />
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <WizardFooter
+                    onBack={prevStep}
+                    onCancel={onClose}
+                    primaryLabel={state.step < 3 ? 'Siguiente' : 'Confirmar'}
+                    onPrimary={nextStep}
+                    primaryVariant={state.step < 3 ? 'indigo' : 'emerald'}
+                    primaryDisabled={state.step < 3 ? !canAdvance : false}
+                    primaryLoading={state.step === 3 && createMovement.isPending}
+                />
+            </div>
+
+            {/* RIGHT: Summary Panel */}
+            <div className="hidden md:flex w-80 border-l border-white/5 bg-slate-950/50 p-6 flex-col justify-center">
+                <h3 className="font-display font-bold text-slate-400 uppercase text-xs tracking-widest mb-6">
+                    Resumen Estimado
+                </h3>
+
+                <div className="space-y-6">
+                    <div className="p-4 rounded-xl border border-white/10 bg-slate-900/80 shadow-lg">
+                        <div className="text-xs text-slate-400 mb-1">
+                            {isLending ? 'Total a cobrar' : 'Total a devolver'}
+                        </div>
+                        <div className={cn('font-mono text-2xl font-bold tracking-tight', isLending ? 'text-emerald-400' : 'text-white')}>
+                            {terms ? formatMoneyARS(terms.totalARS) : '—'}
+                        </div>
+                        <div className="text-[10px] text-slate-500 mt-1 font-mono">
+                            Vence {maturityLabel}
+                        </div>
+                    </div>
+
+                    {terms && (
+                        <div className="space-y-3 text-sm">
+                            <div className="flex justify-between items-baseline">
+                                <span className="text-slate-400">{isLending ? 'Ganancia neta' : 'Costo total'}</span>
+                                <span className={cn('font-mono', isLending ? 'text-emerald-400' : 'text-rose-400')}>
+                                    {formatMoneyARS(Math.abs(terms.totalARS - terms.principalARS))}
+                                </span>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="p-3 rounded border border-blue-500/20 bg-blue-500/5 flex gap-3 items-start">
+                        <Info className="w-4 h-4 text-blue-400 shrink-0 mt-0.5" />
+                        <p className="text-[10px] text-blue-300 leading-relaxed">
+                            Interés simple sobre 365 días. Los aranceles y derechos de mercado se prorratean por plazo como una TNA.
+                        </p>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1 @@
+export { CaucionWizard } from './CaucionWizard'
@@ -10,6 +10,8 @@ import { useCedearPrices } from '@/hooks/use-cedear-prices'
 import { useFxRates } from '@/hooks/use-fx-rates'
 import { useToast } from '@/components/ui/toast'
 import { buildFifoLots } from '@/domain/portfolio/fifo'
+import { applyCorporateActions } from '@/domain/corporate-actions'
+import { useCorporateActions } from '@/hooks/use-corporate-actions'
 import { allocateSale, COSTING_METHODS, type CostingMethod, type ManualAllocation } from '@/domain/portfolio/lot-allocation'
 import type { LotDetail } from '@/features/portfolioV2/types'
 import { LotTable } from '../ui/LotTable'
@@ -133,6 +135,7 @@ export function CedearBuySellWizard({
     const createInstrument = useCreateInstrument()
     const { data: cedearPrices } = useCedearPrices()
     const { data: fxRates } = useFxRates()
+    const { data: corporateActions } = useCorporateActions()
     const { toast } = useToast()
 
     const mepSellRate = fxRates?.mep?.sell ?? FX_MEP_FALLBACK
@@ -211,11 +214,18 @@ export function CedearBuySellWizard({
     // ---------------------------------------------------------------------------
     // Holdings: ticker -> accountId -> qty
     // ---------------------------------------------------------------------------
+    // Restated for splits/ratio changes so quantities match what the broker holds today
+    const adjustedMovements = useMemo(
+        () => applyCorporateActions(movements, corporateActions),
+        [movements, corporateActions]
+    )
+
     const holdingsByTicker = useMemo(() => {
         const map = new Map<string, Map<string, number>>()
-        movements.forEach(m => {
+        adjustedMovements.forEach(m => {
             if (m.assetClass !== 'cedear') return
-            const ticker = m.ticker || instruments.find(i => i.id === m.instrumentId)?.symbol
+            // Instrument symbol first: movements keep the ticker they were entered with
+            const ticker = instruments.find(i => i.id === m.instrumentId)?.symbol || m.ticker
             if (!ticker) return
             const q = m.quantity || 0
             if (!map.has(ticker)) map.set(ticker, new Map())
@@ -225,7 +235,7 @@ export function CedearBuySellWizard({
             if (['SELL', 'WITHDRAW', 'TRANSFER_OUT'].includes(m.type)) accMap.set(m.accountId, cur - q)
         })
         return map
-    }, [movements, instruments])
+    }, [adjustedMovements, instruments])
 
     // Available qty for sell
     const availableQty = useMemo(() => {
@@ -241,7 +251,7 @@ export function CedearBuySellWizard({
         const instId = instruments.find(i => i.symbol === ticker)?.id
         if (!instId) return []
 
-        const assetMoves = movements.filter(m =>
+        const assetMoves = adjustedMovements.filter(m =>
             m.assetClass === 'cedear' &&
             m.accountId === state.accountId &&
             (m.instrumentId === instId || (!m.instrumentId && m.ticker === ticker))
@@ -262,7 +272,7 @@ export function CedearBuySellWizard({
             pnlNative: lot.quantity * priceNative - lot.quantity * lot.unitCostNative,
             pnlPct: lot.unitCostNative > 0 ? (priceNative - lot.unitCostNative) / lot.unitCostNative : 0,
         }))
-    }, [state.asset, state.accountId, isBuy, movements, instruments, cedearPrices, state.currency, mepSellRate])
+    }, [state.asset, state.accountId, isBuy, adjustedMovements, instruments, cedearPrices, state.currency, mepSellRate])
 
     // Accounts with balance for a ticker (sell mode)
     const accountsWithBalance = useMemo(() => {
@@ -3,4 +3,5 @@ export { MovementsFilters } from './MovementsFilters'
 export { MovementsTable } from './MovementsTable'
 export { MovementDetailsDrawer } from './MovementDetailsDrawer'
 export { MovementWizard } from './MovementWizard'
+export { DuplicateMovementsDialog } from './DuplicateMovementsDialog'
 export { AssetTypeahead } from './AssetTypeahead'
@@ -14,6 +14,16 @@ export function getMovementAssetDisplay(
         }
     }
 
+    if (movement.assetClass === 'caucion' && movement.meta?.caucion) {
+        const { side, termDays, tna } = movement.meta.caucion
+        return {
+            title: side === 'colocadora' ? 'Caución colocadora' : 'Caución tomadora',
+            subtitle: `${termDays}d · TNA ${tna}% · ${account?.name || 'Caución'}`,
+            symbol: 'CAUCION',
+            category: 'CAUCION'
+        }
+    }
+
     if (movement.assetClass === 'fci' || instrument?.category === 'FCI') {
         // 1. Try Meta Snapshot (Saved at creation)
         if (movement.meta?.fci) {
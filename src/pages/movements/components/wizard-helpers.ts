@@ -45,7 +45,7 @@ interface ScoredAccount {
  */
 export function sortAccountsForAssetClass(accounts: Account[], assetClass: string): Account[] {
     const isCrypto = assetClass === 'crypto' || assetClass === 'stable'
-    const isStock = assetClass === 'cedear' || assetClass === 'stock' || assetClass === 'fci'
+    const isStock = assetClass === 'cedear' || assetClass === 'stock' || assetClass === 'fci' || assetClass === 'bond' || assetClass === 'caucion'
 
     // Sort by Score (Higher is better)
     const scored: ScoredAccount[] = accounts.map(acc => {
@@ -4,20 +4,35 @@
  * Muestra:
  * - Hero card con Total a Cobrar (ARS + USD equivalente)
  * - KPIs: Capital, Interés Ganado, Plazo (con barra progreso), Tasas TNA/TEA
+ * - UVA / precancelación (serie UVA y valor de cancelación anticipada)
+ * - Renovación: regla al vencimiento y rendimiento acumulado de la cadena
  * - Timeline de automatización al vencimiento
  * - Movimientos relacionados
  *
  * Diseño basado en docs/prototypes/mis_activos/PF.html
  */
 
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
-import { ArrowLeft, Clock, CheckCircle2, Loader2 } from 'lucide-react'
+import { ArrowLeft, Clock, CheckCircle2, Loader2, RefreshCw } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { formatMoneyARS, formatMoneyUSD, formatPercent } from '@/lib/format'
 import { usePortfolioV2 } from '@/features/portfolioV2'
-import { useMovements } from '@/hooks/use-movements'
-import type { Movement } from '@/domain/types'
+import { useMovements, useUpdateMovement } from '@/hooks/use-movements'
+import { usePF } from '@/hooks/use-pf'
+import { usePFSettlement } from '@/hooks/use-pf-settlement'
+import { useToast } from '@/components/ui/toast'
+import { UvaSeriesCard } from '@/components/assets/UvaSeriesCard'
+import { isUvaDeposit, PRECANCEL_DEFAULT_FROM_DAYS } from '@/domain/pf/valuation'
+import {
+    buildPFChain,
+    computeRolloverAmount,
+    ROLLOVER_MODE_LABELS,
+    withRolloverRule,
+    type PFChain,
+} from '@/domain/pf/rollover'
+import type { PFPosition } from '@/domain/pf/types'
+import type { FixedDepositRollover, FixedDepositType, Movement } from '@/domain/types'
 
 // =============================================================================
 // Helpers
@@ -53,6 +68,12 @@ function getProgressPercent(startIso: string, maturityIso: string): number {
     return Math.min(100, Math.max(0, (elapsed / totalDays) * 100))
 }
 
+const DEPOSIT_TYPE_LABELS: Record<FixedDepositType, string> = {
+    traditional: 'Plazo Fijo Tradicional en Pesos',
+    uva: 'Plazo Fijo UVA',
+    uva_precancelable: 'Plazo Fijo UVA Precancelable',
+}
+
 type PFStatus = 'active' | 'expiring_today' | 'matured'
 
 function getPFStatus(maturityIso: string): PFStatus {
@@ -134,6 +155,18 @@ export function PFDetailPage() {
             .sort((a, b) => b.datetimeISO.localeCompare(a.datetimeISO))
     }, [allMovements, pfId, pfDetail])
 
+    // Renewal rule + chain (closed links included)
+    const pfState = usePF()
+    const constitution = useMemo(() => allMovements.find(m => m.id === pfId), [allMovements, pfId])
+    const pfPosition = useMemo(
+        () => [...pfState.active, ...pfState.matured].find(p => p.id === pfId),
+        [pfState, pfId]
+    )
+    const chain = useMemo(
+        () => (pfId ? buildPFChain(pfState, allMovements, pfId) : null),
+        [pfState, allMovements, pfId]
+    )
+
     // FX rate
     const oficialSell = portfolio?.fx.officialSell ?? 1
 
@@ -178,6 +211,16 @@ export function PFDetailPage() {
     const startDate = new Date(pfMeta.startDateISO).toLocaleDateString('es-AR')
     const maturityDate = new Date(pfMeta.maturityDateISO).toLocaleDateString('es-AR')
 
+    const isUva = isUvaDeposit(pfDetail.depositType)
+    const isPrecancelable = pfDetail.depositType === 'uva_precancelable'
+    const uvaEndDate = pfDetail.uvaEndDate
+        ? new Date(`${pfDetail.uvaEndDate}T00:00:00`).toLocaleDateString('es-AR')
+        : null
+    const precancelFromDays = pfDetail.precancelFromDays ?? PRECANCEL_DEFAULT_FROM_DAYS
+    const precancelFromDate = new Date(
+        new Date(pfMeta.startDateISO).getTime() + precancelFromDays * 24 * 60 * 60 * 1000
+    ).toLocaleDateString('es-AR')
+
     return (
         <div className="max-w-4xl mx-auto space-y-6">
             {/* Breadcrumb */}
@@ -213,7 +256,7 @@ export function PFDetailPage() {
                             </span>
                         </div>
                         <p className="text-sm text-muted-foreground">
-                            {provider.name} · Plazo Fijo Tradicional en Pesos
+                            {provider.name} · {DEPOSIT_TYPE_LABELS[pfDetail.depositType]}
                         </p>
                     </div>
                 </div>
@@ -226,7 +269,9 @@ export function PFDetailPage() {
 
                 <div className="relative z-10 grid grid-cols-1 md:grid-cols-2 gap-8 items-end">
                     <div>
-                        <p className="text-sm font-mono text-primary uppercase tracking-wider mb-2">Total a cobrar</p>
+                        <p className="text-sm font-mono text-primary uppercase tracking-wider mb-2">
+                            {isUva ? 'Total a cobrar (estimado)' : 'Total a cobrar'}
+                        </p>
                         <p className="text-4xl md:text-5xl font-mono font-bold tracking-tighter">
                             {formatMoneyARS(pfMeta.expectedTotalArs)}
                         </p>
@@ -238,6 +283,13 @@ export function PFDetailPage() {
                                 Calculado a USD Oficial Venta (${oficialSell.toFixed(2)})
                             </span>
                         </div>
+                        {isUva && (
+                            <p className="mt-2 text-xs text-muted-foreground">
+                                {uvaEndDate
+                                    ? `Capital ajustado con la UVA del ${uvaEndDate}; el monto final depende de la UVA al vencimiento.`
+                                    : 'Sin serie UVA: se muestra el capital sin ajustar.'}
+                            </p>
+                        )}
                     </div>
 
                     {/* Step Chart Visualization */}
@@ -288,7 +340,9 @@ export function PFDetailPage() {
                     <p className="text-lg font-mono font-medium text-emerald-400">
                         +{formatMoneyARS(pfMeta.expectedInterestArs)}
                     </p>
-                    <p className="text-xs font-mono text-emerald-500/50 mt-1">Fijo por contrato</p>
+                    <p className="text-xs font-mono text-emerald-500/50 mt-1">
+                        {isUva ? 'Incluye ajuste UVA' : 'Fijo por contrato'}
+                    </p>
                 </div>
 
                 {/* KPI 3: Plazo */}
@@ -344,10 +398,72 @@ export function PFDetailPage() {
                                 <span className="font-mono">{formatPercent(pfDetail.tea / 100)}</span>
                             </div>
                         )}
+                        {isPrecancelable && pfDetail.precancelTna != null && (
+                            <div className="flex justify-between text-sm">
+                                <span className="text-muted-foreground">Precanc.</span>
+                                <span className="font-mono">{formatPercent(pfDetail.precancelTna / 100)}</span>
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
 
+            {/* UVA & Precancelación */}
+            {isUva && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="bg-card border border-border rounded-xl p-5 space-y-2">
+                        <p className="text-xs text-muted-foreground">Ajuste UVA</p>
+                        <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">UVA inicial</span>
+                            <span className="font-mono">{pfDetail.uvaStart != null ? pfDetail.uvaStart.toFixed(2) : '—'}</span>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">UVA {uvaEndDate ? `al ${uvaEndDate}` : 'actual'}</span>
+                            <span className="font-mono">{pfDetail.uvaEnd != null ? pfDetail.uvaEnd.toFixed(2) : '—'}</span>
+                        </div>
+                        {pfDetail.uvaStart != null && pfDetail.uvaEnd != null && (
+                            <div className="flex justify-between text-sm">
+                                <span className="text-muted-foreground">Variación</span>
+                                <span className="font-mono text-emerald-400">
+                                    {formatPercent(pfDetail.uvaEnd / pfDetail.uvaStart - 1)}
+                                </span>
+                            </div>
+                        )}
+                        {isPrecancelable && (
+                            <div className="pt-2 mt-2 border-t border-border text-sm">
+                                <p className="text-xs text-muted-foreground mb-1">Precancelación</p>
+                                {pfDetail.precancelTotalArs != null ? (
+                                    <p>
+                                        Si precancelás hoy cobrás{' '}
+                                        <span className="font-mono font-medium">{formatMoneyARS(pfDetail.precancelTotalArs)}</span>
+                                        <span className="text-xs text-muted-foreground"> (sin ajuste UVA)</span>
+                                    </p>
+                                ) : status === 'active' ? (
+                                    <p className="text-muted-foreground">Disponible desde el {precancelFromDate}.</p>
+                                ) : (
+                                    <p className="text-muted-foreground">No aplica: el plazo fijo ya venció.</p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                    <UvaSeriesCard />
+                </div>
+            )}
+
+            {/* Renovación */}
+            {(constitution || (chain && chain.links.length > 1)) && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {constitution && (
+                        <RolloverCard
+                            constitution={constitution}
+                            position={pfPosition}
+                            isMatured={pfState.matured.some(p => p.id === pfId)}
+                        />
+                    )}
+                    {chain && chain.links.length > 1 && <ChainCard chain={chain} currentId={pfId!} />}
+                </div>
+            )}
+
             {/* Automation & Movements Grid */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* Automation Timeline */}
@@ -377,9 +493,13 @@ export function PFDetailPage() {
                                     status === 'expiring_today' ? "bg-amber-500 ring-1 ring-amber-500/50 animate-pulse" :
                                         "bg-muted ring-1 ring-muted-foreground/30"
                             )} />
-                            <p className="text-sm font-medium">Acreditación en Liquidez</p>
+                            <p className="text-sm font-medium">
+                                {pfPosition?.rollover ? 'Renovación' : 'Acreditación en Liquidez'}
+                            </p>
                             <p className="text-xs text-muted-foreground mt-1">
-                                El total se transfiere a tu cuenta {provider.name} disponible.
+                                {pfPosition?.rollover
+                                    ? `Se constituye un nuevo plazo fijo (${ROLLOVER_MODE_LABELS[pfPosition.rollover.mode].toLowerCase()}); el resto queda en tu cuenta ${provider.name}.`
+                                    : `El total se transfiere a tu cuenta ${provider.name} disponible.`}
                             </p>
                         </div>
                     </div>
@@ -497,6 +617,194 @@ export function PFDetailPage() {
 // Sub-components
 // =============================================================================
 
+type RolloverModeOption = FixedDepositRollover['mode'] | 'none'
+
+interface RolloverCardProps {
+    constitution: Movement
+    position?: PFPosition
+    isMatured: boolean
+}
+
+function RolloverCard({ constitution, position, isMatured }: RolloverCardProps) {
+    const { toast } = useToast()
+    const updateMovement = useUpdateMovement()
+    const { renewNow } = usePFSettlement({ autoEffect: false })
+    const saved = constitution.meta?.fixedDeposit?.rollover
+    const [mode, setMode] = useState<RolloverModeOption>(saved?.mode ?? 'none')
+    const [amountARS, setAmountARS] = useState<number | undefined>(saved?.amountARS)
+    const [tna, setTna] = useState<number | undefined>(saved?.tna)
+    const [termDays, setTermDays] = useState<number | undefined>(saved?.termDays)
+    const [isRenewing, setIsRenewing] = useState(false)
+
+    const rule: FixedDepositRollover | undefined = mode === 'none' ? undefined : {
+        mode,
+        ...(mode === 'fixed_amount' ? { amountARS } : {}),
+        ...(tna != null ? { tna } : {}),
+        ...(termDays != null ? { termDays } : {}),
+    }
+    const renewedAmount = rule && position ? computeRolloverAmount(position, rule) : null
+    const isInvalid = mode === 'fixed_amount' && !(amountARS && amountARS > 0)
+
+    const handleSave = async () => {
+        try {
+            await updateMovement.mutateAsync({
+                id: constitution.id,
+                updates: { meta: withRolloverRule(constitution, rule) },
+            })
+            toast({
+                title: rule ? 'Renovación guardada' : 'Renovación desactivada',
+                description: rule ? 'Se aplicará al vencimiento.' : 'Al vencer, el total se acredita en la cuenta.',
+                variant: 'success',
+            })
+        } catch (err) {
+            console.error('Failed to save rollover rule', err)
+            toast({ title: 'Error', description: 'No se pudo guardar la renovación.', variant: 'error' })
+        }
+    }
+
+    const handleRenew = async () => {
+        setIsRenewing(true)
+        try {
+            const renewed = await renewNow(constitution.id)
+            toast(renewed
+                ? { title: 'Plazo fijo renovado', description: 'Se constituyó el nuevo plazo fijo.', variant: 'success' }
+                : { title: 'Sin cambios', description: 'El plazo fijo ya fue rescatado o renovado.', variant: 'default' })
+        } catch (err) {
+            console.error('Failed to renew PF', err)
+            toast({ title: 'Error', description: 'No se pudo renovar el plazo fijo.', variant: 'error' })
+        } finally {
+            setIsRenewing(false)
+        }
+    }
+
+    return (
+        <div className="bg-card border border-border rounded-xl p-5 space-y-3">
+            <div className="flex items-center gap-2">
+                <RefreshCw className="h-4 w-4 text-primary" />
+                <p className="text-xs text-muted-foreground">Renovación al vencimiento</p>
+            </div>
+            <select
+                value={mode}
+                onChange={e => setMode(e.target.value as RolloverModeOption)}
+                className="w-full px-3 py-2 bg-muted border border-border rounded-lg text-sm"
+            >
+                <option value="none">No renovar (acreditar en cuenta)</option>
+                {(Object.keys(ROLLOVER_MODE_LABELS) as FixedDepositRollover['mode'][]).map(m => (
+                    <option key={m} value={m}>{ROLLOVER_MODE_LABELS[m]}</option>
+                ))}
+            </select>
+
+            {mode !== 'none' && (
+                <div className="grid grid-cols-3 gap-2">
+                    {mode === 'fixed_amount' && (
+                        <label className="col-span-3 text-xs text-muted-foreground">
+                            Monto (ARS)
+                            <input
+                                type="number"
+                                min="0"
+                                value={amountARS ?? ''}
+                                onChange={e => setAmountARS(parseFloat(e.target.value) || undefined)}
+                                className="mt-1 w-full px-3 py-2 bg-muted border border-border rounded-lg text-sm text-foreground"
+                            />
+                        </label>
+                    )}
+                    <label className="col-span-2 text-xs text-muted-foreground">
+                        Nueva TNA (%)
+                        <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            placeholder={position ? String(position.tna) : ''}
+                            value={tna ?? ''}
+                            onChange={e => setTna(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                            className="mt-1 w-full px-3 py-2 bg-muted border border-border rounded-lg text-sm text-foreground"
+                        />
+                    </label>
+                    <label className="text-xs text-muted-foreground">
+                        Plazo (días)
+                        <input
+                            type="number"
+                            min="1"
+                            placeholder={position ? String(position.termDays) : ''}
+                            value={termDays ?? ''}
+                            onChange={e => setTermDays(parseInt(e.target.value, 10) || undefined)}
+                            className="mt-1 w-full px-3 py-2 bg-muted border border-border rounded-lg text-sm text-foreground"
+                        />
+                    </label>
+                </div>
+            )}
+
+            {renewedAmount != null && renewedAmount > 0 && (
+                <p className="text-xs text-muted-foreground">
+                    Se renuevan <span className="font-mono text-foreground">{formatMoneyARS(renewedAmount)}</span>
+                    {position && renewedAmount < position.expectedTotalARS
+                        ? ` y se acreditan ${formatMoneyARS(position.expectedTotalARS - renewedAmount)} en la cuenta.`
+                        : position && renewedAmount > position.expectedTotalARS
+                            ? ` (se debitan ${formatMoneyARS(renewedAmount - position.expectedTotalARS)} de la cuenta).`
+                            : '.'}
+                </p>
+            )}
+
+            <div className="flex gap-2">
+                <button
+                    onClick={handleSave}
+                    disabled={isInvalid || updateMovement.isPending}
+                    className="flex-1 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                >
+                    {updateMovement.isPending ? 'Guardando...' : 'Guardar'}
+                </button>
+                {isMatured && saved && (
+                    <button
+                        onClick={handleRenew}
+                        disabled={isRenewing}
+                        className="flex-1 py-2 bg-muted hover:bg-muted/80 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                        {isRenewing ? 'Renovando...' : 'Renovar ahora'}
+                    </button>
+                )}
+            </div>
+        </div>
+    )
+}
+
+function ChainCard({ chain, currentId }: { chain: PFChain; currentId: string }) {
+    return (
+        <div className="bg-card border border-border rounded-xl p-5 space-y-3">
+            <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">Cadena de renovaciones</p>
+                <span className="text-xs font-mono text-emerald-400">{formatPercent(chain.cumulativeReturn)}</span>
+            </div>
+            <div className="space-y-1">
+                {chain.links.map(link => (
+                    <div
+                        key={link.position.id}
+                        className={cn(
+                            'flex justify-between text-sm',
+                            link.position.id === currentId ? 'font-medium' : 'text-muted-foreground'
+                        )}
+                    >
+                        <span className="font-mono">{link.position.pfCode || link.position.bank}</span>
+                        <span className="font-mono">
+                            {formatMoneyARS(link.position.principalARS)}
+                            <span className="text-emerald-400"> +{formatMoneyARS(link.interestARS)}</span>
+                        </span>
+                    </div>
+                ))}
+            </div>
+            <div className="pt-2 border-t border-border space-y-1 text-sm">
+                <div className="flex justify-between">
+                    <span className="text-muted-foreground">Capital inicial</span>
+                    <span className="font-mono">{formatMoneyARS(chain.initialPrincipalARS)}</span>
+                </div>
+                <div className="flex justify-between">
+                    <span className="text-muted-foreground">Intereses acumulados</span>
+                    <span className="font-mono text-emerald-400">+{formatMoneyARS(chain.totalInterestARS)}</span>
+                </div>
+            </div>
+        </div>
+    )
+}
+
 interface MovementRowProps {
     movement: Movement
 }
@@ -0,0 +1,371 @@
+import { useEffect, useMemo, useState } from 'react'
+import { AlertTriangle, Check, ClipboardList, Save, Scale, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useToast } from '@/components/ui/toast'
+import { useAccounts } from '@/hooks/use-instruments'
+import { useProviderSettings } from '@/hooks/useProviderSettings'
+import { usePortfolioV2, type RubroId } from '@/features/portfolioV2'
+import {
+    RUBRO_LABELS,
+    RUBRO_ORDER,
+    REBALANCE_DRAFT_SOURCE,
+    TRADEABLE_RUBROS,
+    buildDraftMovements,
+    instrumentKey,
+    planRebalance,
+    useAllocationTargets,
+    useMovementDrafts,
+    type AllocationTarget,
+} from '@/features/rebalance'
+import { cn, formatCurrency, formatNumber, formatPercent } from '@/lib/utils'
+
+const parseNumber = (raw: string | undefined): number => {
+    const value = Number((raw ?? '').replace(',', '.'))
+    return Number.isFinite(value) ? value : 0
+}
+
+export function RebalancePage() {
+    const portfolio = usePortfolioV2()
+    const { targets, isLoading: targetsLoading, saveTargets, isSaving } = useAllocationTargets()
+    const { settings: providerSettings } = useProviderSettings()
+    const { data: accounts = [] } = useAccounts()
+    const { drafts, saveDrafts, confirmDrafts, discardDraft, discardAll, isConfirming } = useMovementDrafts(REBALANCE_DRAFT_SOURCE)
+    const { toast } = useToast()
+
+    const [pctInputs, setPctInputs] = useState<Partial<Record<RubroId, string>>>({})
+    const [weightInputs, setWeightInputs] = useState<Partial<Record<RubroId, Record<string, string>>>>({})
+    const [bandInput, setBandInput] = useState('1')
+    const [minTradeInput, setMinTradeInput] = useState('0')
+    const [initialized, setInitialized] = useState(false)
+
+    const rubros = useMemo(() => portfolio?.rubros ?? [], [portfolio])
+    const totalArs = rubros.reduce((sum, r) => sum + r.totals.ars, 0)
+    const visibleRubros = RUBRO_ORDER.filter(id => rubros.some(r => r.id === id) || targets.some(t => t.id === id))
+
+    // Seed the form once: saved targets, or today's allocation as a starting point
+    useEffect(() => {
+        if (initialized || targetsLoading || !portfolio || portfolio.isLoading) return
+        const pcts: Partial<Record<RubroId, string>> = {}
+        const weights: Partial<Record<RubroId, Record<string, string>>> = {}
+        if (targets.length > 0) {
+            for (const t of targets) {
+                pcts[t.id] = String(t.targetPct)
+                if (t.instrumentWeights) {
+                    weights[t.id] = Object.fromEntries(
+                        Object.entries(t.instrumentWeights).map(([key, w]) => [key, String(w)])
+                    )
+                }
+            }
+        } else if (totalArs > 0) {
+            for (const r of rubros) pcts[r.id] = String(Math.round((r.totals.ars / totalArs) * 100))
+        }
+        setPctInputs(pcts)
+        setWeightInputs(weights)
+        setInitialized(true)
+    }, [initialized, targetsLoading, portfolio, targets, rubros, totalArs])
+
+    // Live form → targets (the plan previews unsaved edits)
+    const formTargets = useMemo((): AllocationTarget[] => {
+        const updatedAt = new Date().toISOString()
+        return RUBRO_ORDER
+            .filter(id => (pctInputs[id] ?? '').trim() !== '')
+            .map(id => {
+                const weights = Object.entries(weightInputs[id] ?? {})
+                    .map(([key, raw]) => [key, parseNumber(raw)] as const)
+                    .filter(([, w]) => w > 0)
+                return {
+                    id,
+                    targetPct: parseNumber(pctInputs[id]),
+                    instrumentWeights: weights.length > 0 ? Object.fromEntries(weights) : undefined,
+                    updatedAt,
+                }
+            })
+    }, [pctInputs, weightInputs])
+
+    const plan = useMemo(
+        () => planRebalance({
+            rubros,
+            targets: formTargets,
+            commissions: providerSettings,
+            options: { bandPct: parseNumber(bandInput), minTradeArs: parseNumber(minTradeInput) },
+        }),
+        [rubros, formTargets, providerSettings, bandInput, minTradeInput]
+    )
+
+    const accountNames = useMemo(() => new Map(accounts.map(a => [a.id, a.name])), [accounts])
+    const targetSum = formTargets.reduce((sum, t) => sum + t.targetPct, 0)
+
+    const handleSave = async () => {
+        await saveTargets(formTargets.map(({ id, targetPct, instrumentWeights }) => ({ id, targetPct, instrumentWeights })))
+        toast({ title: 'Objetivos guardados', variant: 'success' })
+    }
+
+    const handleCreateDrafts = async () => {
+        if (!portfolio || plan.orders.length === 0) return
+        await saveDrafts(buildDraftMovements(plan.orders, portfolio.fx, new Date().toISOString()))
+        toast({
+            title: 'Borradores creados',
+            description: `${plan.orders.length} movimientos pendientes de confirmar.`,
+            variant: 'success',
+        })
+    }
+
+    const handleConfirm = async (ids: string[]) => {
+        try {
+            await confirmDrafts(ids)
+            toast({ title: ids.length === 1 ? 'Movimiento registrado' : 'Movimientos registrados', variant: 'success' })
+        } catch (error) {
+            console.error('Failed to confirm rebalance drafts', error)
+            toast({ title: 'Error al confirmar', description: 'Algunos borradores no se registraron.', variant: 'error' })
+        }
+    }
+
+    if (!portfolio || portfolio.isLoading || targetsLoading) {
+        return (
+            <div className="space-y-6">
+                <Skeleton className="h-10 w-64" />
+                <Skeleton className="h-[300px]" />
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold">Rebalanceo</h1>
+                    <p className="text-muted-foreground">
+                        Objetivos por rubro y las operaciones mínimas para volver a ellos
+                    </p>
+                </div>
+                <Button variant="gradient" onClick={handleSave} disabled={isSaving}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Guardar objetivos
+                </Button>
+            </div>
+
+            {/* Targets + drift */}
+            <Card>
+                <CardHeader>
+                    <CardTitle className="text-base flex items-center gap-2">
+                        <Scale className="h-4 w-4" />
+                        Asignación objetivo · {formatCurrency(totalArs)}
+                    </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-muted-foreground border-b">
+                                    <th className="py-2 pr-4">Rubro</th>
+                                    <th className="py-2 pr-4 text-right">Actual</th>
+                                    <th className="py-2 pr-4 text-right">Objetivo %</th>
+                                    <th className="py-2 text-right">Desvío</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visibleRubros.map(id => {
+                                    const drift = plan.rubros.find(r => r.rubroId === id)
+                                    const rubro = rubros.find(r => r.id === id)
+                                    const items = TRADEABLE_RUBROS.includes(id)
+                                        ? (rubro?.providers.flatMap(p => p.items) ?? [])
+                                        : []
+                                    const instrumentKeys = Array.from(new Map(items.map(it => [instrumentKey(it), it.symbol])))
+                                    return [
+                                        <tr key={id} className="border-b last:border-0">
+                                            <td className="py-2 pr-4 font-medium">
+                                                {rubro?.name ?? RUBRO_LABELS[id]}
+                                                {!TRADEABLE_RUBROS.includes(id) && id !== 'wallets' && (
+                                                    <span className="ml-2 text-xs text-muted-foreground">(no operable)</span>
+                                                )}
+                                            </td>
+                                            <td className="py-2 pr-4 text-right">
+                                                {formatCurrency(drift?.currentArs ?? 0)}
+                                                <span className="ml-2 text-muted-foreground">{formatNumber(drift?.currentPct ?? 0, 1)}%</span>
+                                            </td>
+                                            <td className="py-2 pr-4 text-right">
+                                                <Input
+                                                    inputMode="decimal"
+                                                    className="h-8 w-20 ml-auto text-right"
+                                                    value={pctInputs[id] ?? ''}
+                                                    onChange={(e) => setPctInputs(prev => ({ ...prev, [id]: e.target.value }))}
+                                                />
+                                            </td>
+                                            <td className={cn(
+                                                'py-2 text-right font-medium',
+                                                (drift?.driftArs ?? 0) > 0 ? 'text-success' : (drift?.driftArs ?? 0) < 0 ? 'text-destructive' : ''
+                                            )}>
+                                                {formatCurrency(drift?.driftArs ?? 0, 'ARS', { showSign: true })}
+                                                <span className="ml-2 text-xs">{formatPercent(drift?.driftPct ?? 0)}</span>
+                                            </td>
+                                        </tr>,
+                                        ...instrumentKeys.map(([key, symbol]) => {
+                                            const row = drift?.instruments.find(i => i.key === key)
+                                            return (
+                                                <tr key={`${id}-${key}`} className="border-b last:border-0 text-muted-foreground">
+                                                    <td className="py-1 pr-4 pl-6">{symbol}</td>
+                                                    <td className="py-1 pr-4 text-right">
+                                                        {formatCurrency(row?.currentArs ?? items.filter(it => instrumentKey(it) === key).reduce((s, it) => s + it.valArs, 0))}
+                                                    </td>
+                                                    <td className="py-1 pr-4 text-right">
+                                                        <Input
+                                                            inputMode="decimal"
+                                                            placeholder="peso"
+                                                            className="h-7 w-20 ml-auto text-right"
+                                                            value={weightInputs[id]?.[key] ?? ''}
+                                                            onChange={(e) => setWeightInputs(prev => ({
+                                                                ...prev,
+                                                                [id]: { ...prev[id], [key]: e.target.value },
+                                                            }))}
+                                                        />
+                                                    </td>
+                                                    <td className="py-1 text-right text-xs">
+                                                        {row ? formatCurrency(row.driftArs, 'ARS', { showSign: true }) : '—'}
+                                                    </td>
+                                                </tr>
+                                            )
+                                        }),
+                                    ]
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="grid gap-4 sm:grid-cols-3 items-end">
+                        <p className={cn('text-sm', Math.abs(targetSum - 100) > 0.01 ? 'text-warning' : 'text-muted-foreground')}>
+                            Suma de objetivos: {formatNumber(targetSum, 1)}%
+                        </p>
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">Tolerancia (% de la cartera)</label>
+                            <Input inputMode="decimal" value={bandInput} onChange={(e) => setBandInput(e.target.value)} />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">Operación mínima (ARS)</label>
+                            <Input inputMode="decimal" value={minTradeInput} onChange={(e) => setMinTradeInput(e.target.value)} />
+                        </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Los pesos por instrumento son relativos dentro del rubro; sin pesos se compra la mayor tenencia y se vende desde la mayor.
+                    </p>
+                </CardContent>
+            </Card>
+
+            {plan.warnings.length > 0 && (
+                <div className="rounded-lg bg-amber-500/10 border border-amber-500/20 p-3 text-sm text-amber-600 dark:text-amber-400 space-y-1">
+                    {plan.warnings.map((w, i) => (
+                        <p key={i} className="flex items-start gap-2">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                            {w}
+                        </p>
+                    ))}
+                </div>
+            )}
+
+            {/* Orders */}
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                    <CardTitle className="text-base">Órdenes sugeridas</CardTitle>
+                    <Button size="sm" onClick={handleCreateDrafts} disabled={plan.orders.length === 0}>
+                        <ClipboardList className="h-4 w-4 mr-2" />
+                        Crear borradores
+                    </Button>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {plan.orders.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">La cartera está dentro de la tolerancia.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-muted-foreground border-b">
+                                        <th className="py-2 pr-4">Operación</th>
+                                        <th className="py-2 pr-4">Cuenta</th>
+                                        <th className="py-2 pr-4 text-right">Cantidad</th>
+                                        <th className="py-2 pr-4 text-right">Precio</th>
+                                        <th className="py-2 pr-4 text-right">Comisión</th>
+                                        <th className="py-2 text-right">Neto</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {plan.orders.map(order => (
+                                        <tr key={order.id} className="border-b last:border-0">
+                                            <td className="py-2 pr-4 font-medium">
+                                                <span className={order.side === 'BUY' ? 'text-success' : 'text-destructive'}>
+                                                    {order.side === 'BUY' ? 'Comprar' : 'Vender'}
+                                                </span>{' '}
+                                                {order.symbol}
+                                            </td>
+                                            <td className="py-2 pr-4">{accountNames.get(order.accountId) ?? order.accountId}</td>
+                                            <td className="py-2 pr-4 text-right">{formatNumber(order.quantity, order.kind === 'cedear' ? 0 : 6)}</td>
+                                            <td className="py-2 pr-4 text-right">{formatCurrency(order.unitPrice, order.tradeCurrency)}</td>
+                                            <td className="py-2 pr-4 text-right">{formatCurrency(order.feeAmount, order.tradeCurrency)}</td>
+                                            <td className="py-2 text-right font-medium">{formatCurrency(order.netAmount, order.tradeCurrency)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {plan.shortfalls.length > 0 && (
+                        <div className="text-sm space-y-1">
+                            <p className="font-medium text-warning">Falta liquidez para completar las compras:</p>
+                            {plan.shortfalls.map(s => (
+                                <p key={`${s.accountId}-${s.currency}`} className="text-muted-foreground">
+                                    {accountNames.get(s.accountId) ?? s.accountId}: {formatCurrency(s.amount, s.currency)}
+                                </p>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Drafts */}
+            {drafts.length > 0 && (
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                        <CardTitle className="text-base">Borradores pendientes ({drafts.length})</CardTitle>
+                        <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={discardAll} disabled={isConfirming}>
+                                Descartar todos
+                            </Button>
+                            <Button size="sm" onClick={() => handleConfirm(drafts.map(d => d.id))} disabled={isConfirming}>
+                                <Check className="h-4 w-4 mr-2" />
+                                Confirmar todos
+                            </Button>
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                        {drafts.map(draft => (
+                            <div key={draft.id} className="flex items-center justify-between gap-3 rounded-lg border px-3 py-2">
+                                <div className="min-w-0 text-sm">
+                                    <p className="font-medium truncate">
+                                        {draft.type === 'BUY' ? 'Compra' : 'Venta'} {formatNumber(draft.quantity ?? 0, draft.assetClass === 'cedear' ? 0 : 6)} {draft.ticker}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {accountNames.get(draft.accountId) ?? draft.accountId} · {formatCurrency(draft.netAmount ?? draft.totalAmount, draft.tradeCurrency)}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-1 shrink-0">
+                                    <Button variant="ghost" size="icon" onClick={() => handleConfirm([draft.id])} disabled={isConfirming} aria-label="Confirmar borrador">
+                                        <Check className="h-4 w-4" />
+                                    </Button>
+                                    <Button variant="ghost" size="icon" onClick={() => discardDraft(draft.id)} disabled={isConfirming} aria-label="Descartar borrador">
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                        <p className="text-xs text-muted-foreground pt-1">
+                            Los borradores no afectan tus tenencias hasta confirmarlos; se registran con el precio del plan y la fecha de confirmación.
+                        </p>
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    )
+}
@@ -1,5 +1,5 @@
-import { useRef, useState, type ChangeEvent } from 'react'
-import { Sun, Moon, Monitor, RefreshCw, DollarSign, AlertTriangle, RotateCcw, Download, Upload, Cloud, Bug } from 'lucide-react'
+import { useEffect, useRef, useState, type ChangeEvent } from 'react'
+import { Sun, Moon, Monitor, RefreshCw, DollarSign, AlertTriangle, RotateCcw, Download, Upload, Cloud, Bug, GitCompare } from 'lucide-react'
 import { useTheme } from '@/lib/theme'
 import { useAutoRefresh } from '@/hooks/use-auto-refresh'
 import { resetDatabase } from '@/db'
@@ -11,7 +11,10 @@ import { cn } from '@/lib/utils'
 import { useQueryClient } from '@tanstack/react-query'
 import { useTrackCash } from '@/hooks/use-preferences'
 import { exportLocalBackup, importLocalBackup, parseBackupJson } from '@/domain/sync/local-backup'
-import { getSyncToken, isRemoteSyncEnabled, setSyncToken, markPreferencesModified, forceReconcile, getLastSyncISO, computeSyncFingerprint, type SyncFingerprint } from '@/sync/remote-sync'
+import { getSyncToken, isRemoteSyncEnabled, setSyncToken, markPreferencesModified, forceReconcile, getLastSyncISO, computeSyncFingerprint, listSyncConflicts, subscribeSyncConflicts, type SyncFingerprint } from '@/sync/remote-sync'
+import { toSyncPayload } from '@/sync/change-tracking'
+import { SyncConflictsDialog } from '@/components/sync/SyncConflictsDialog'
+import { ValuationPolicyCard } from '@/components/settings/ValuationPolicyCard'
 
 type FxPreference = 'MEP' | 'CCL'
 
@@ -54,16 +57,25 @@ export function SettingsPage() {
     const [isReconciling, setIsReconciling] = useState(false)
     const [syncTokenInput, setSyncTokenInput] = useState(() => getSyncToken())
     const [fingerprint, setFingerprint] = useState<SyncFingerprint | null>(null)
+    const [conflictCount, setConflictCount] = useState(0)
+    const [conflictsOpen, setConflictsOpen] = useState(false)
     const importInputRef = useRef<HTMLInputElement | null>(null)
 
+    useEffect(() => {
+        const refresh = () => {
+            listSyncConflicts()
+                .then(conflicts => setConflictCount(conflicts.length))
+                .catch(() => setConflictCount(0))
+        }
+        refresh()
+        return subscribeSyncConflicts(refresh)
+    }, [])
+
     const handleFxChange = (pref: FxPreference) => {
         setFxPreference(pref)
         localStorage.setItem('argfolio-fx-preference', pref)
-<<<<<<< HEAD
-=======
         markPreferencesModified()
         // Invalidate portfolio to recalculate with new FX
->>>>>>> 7262d8101d6692d54190207b9ef61bba374f353a
         queryClient.invalidateQueries({ queryKey: ['portfolio'] })
     }
 
@@ -118,18 +130,17 @@ export function SettingsPage() {
             const payload = parseBackupJson(text)
             const result = await importLocalBackup(payload)
 
-            queryClient.invalidateQueries({ queryKey: ['accounts'] })
-            queryClient.invalidateQueries({ queryKey: ['instruments'] })
-            queryClient.invalidateQueries({ queryKey: ['movements'] })
-            queryClient.invalidateQueries({ queryKey: ['snapshots'] })
-            queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+            // The backup touches almost every table, so refetch everything
+            queryClient.invalidateQueries()
 
             alert(
                 `Importación completada.\n` +
                 `Cuentas: ${result.accounts}\n` +
                 `Instrumentos: ${result.instruments}\n` +
                 `Movimientos: ${result.movements}\n` +
-                `Snapshots: ${result.snapshots}`
+                `Snapshots: ${result.snapshots}\n` +
+                `Alertas: ${result.priceAlerts}\n` +
+                `Planes DCA: ${result.dcaPlans}`
             )
         } catch (error: any) {
             console.error('Error importing backup:', error)
@@ -156,6 +167,7 @@ export function SettingsPage() {
             }
 
             const payload = await exportLocalBackup()
+            payload.data.priceAlerts = payload.data.priceAlerts?.map(rule => toSyncPayload('priceAlerts', rule))
 
             const response = await fetch('/api/sync/push', {
                 method: 'POST',
@@ -273,7 +285,8 @@ export function SettingsPage() {
                 alert(
                     `Reconciliación completa.\n` +
                     `Remotos procesados: ${result.pulled}\n` +
-                    `Locales enviados: ${result.pushed}`
+                    `Locales enviados: ${result.pushed}` +
+                    (result.conflicts > 0 ? `\nConflictos a revisar: ${result.conflicts}` : '')
                 )
             } else {
                 alert('No se pudo reconciliar. Verificá token y conexión.')
@@ -363,6 +376,9 @@ export function SettingsPage() {
                 </CardContent>
             </Card>
 
+            {/* Valuation policy */}
+            <ValuationPolicyCard />
+
             {/* Auto refresh */}
             <Card>
                 <CardHeader>
@@ -410,99 +426,22 @@ export function SettingsPage() {
                 </CardContent>
             </Card>
 
-<<<<<<< HEAD
-=======
-            {/* Backup + Sync */}
+            {/* Sync */}
             <Card>
                 <CardHeader>
                     <CardTitle className="text-base flex items-center gap-2">
                         <Cloud className="h-4 w-4" />
-                        Backup y sincronización
+                        Sincronización
                     </CardTitle>
                     <CardDescription>
-                        Exportá/Importá tus datos locales y controlá el estado del sync remoto.
+                        Estado del sync entre dispositivos y conflictos pendientes.
                     </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                    <div className="rounded-lg border border-border bg-muted/20 px-3 py-2">
-                        <p className="text-sm font-medium">
-                            Sync remoto: {isRemoteSyncEnabled() ? 'Activado' : 'Desactivado'}
-                        </p>
-                        <p className="text-xs text-muted-foreground mt-1">
-                            Flag: `VITE_ARGFOLIO_REMOTE_SYNC=1` para bootstrap desde API + escritura remota con fallback local.
-                        </p>
-                    </div>
-                    <div className="rounded-lg border border-border bg-muted/20 px-3 py-3 space-y-2">
-                        <p className="text-sm font-medium">Token de Sync</p>
-                        <p className="text-xs text-muted-foreground">
-                            Se envÃ­a como `Authorization: Bearer &lt;token&gt;` en `/api/sync/*`.
-                        </p>
-                        <div className="flex flex-wrap gap-2">
-                            <Input
-                                type="password"
-                                value={syncTokenInput}
-                                onChange={(event) => setSyncTokenInput(event.target.value)}
-                                placeholder="PegÃ¡ ARGFOLIO_SYNC_TOKEN"
-                                className="min-w-[240px] flex-1"
-                            />
-                            <Button
-                                variant="outline"
-                                onClick={handleSaveSyncToken}
-                                disabled={isPushingToCloud}
-                            >
-                                Guardar token
-                            </Button>
-                        </div>
-                    </div>
-
-                    <div className="flex flex-wrap gap-3">
-                        <Button
-                            variant="outline"
-                            onClick={handleExportBackup}
-                            disabled={isExporting}
-                        >
-                            <Download className={cn('h-4 w-4 mr-2', isExporting && 'animate-pulse')} />
-                            {isExporting ? 'Exportando...' : 'Exportar JSON'}
-                        </Button>
-                        <Button
-                            variant="outline"
-                            onClick={() => importInputRef.current?.click()}
-                            disabled={isImporting}
-                        >
-                            <Upload className={cn('h-4 w-4 mr-2', isImporting && 'animate-pulse')} />
-                            {isImporting ? 'Importando...' : 'Importar JSON'}
-                        </Button>
-                    </div>
-                    <input
-                        ref={importInputRef}
-                        type="file"
-                        accept="application/json,.json"
-                        className="hidden"
-                        onChange={handleImportBackup}
-                    />
-                    <div className="rounded-lg border border-border bg-muted/20 px-3 py-3 space-y-2">
-                        <p className="text-sm font-medium">Sync a la nube (D1)</p>
-                        <p className="text-xs text-muted-foreground">
-                            Empuja todo el backup local a D1 en una sola operacion.
-                            Requiere `ARGFOLIO_SYNC_WRITE_ENABLED=1`.
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                            Nota: localhost y producción no comparten IndexedDB/origin. Si en producción aparece vacío,
-                            exportá JSON en localhost e importalo acá antes de subir a D1.
-                        </p>
-                        <Button
-                            variant="default"
-                            onClick={handlePushAllToD1}
-                            disabled={isPushingToCloud || isExporting || isImporting}
-                        >
-                            <Cloud className={cn('h-4 w-4 mr-2', isPushingToCloud && 'animate-spin')} />
-                            {isPushingToCloud ? 'Subiendo todo...' : 'Subir todo a D1'}
-                        </Button>
-                    </div>
                     <div className="rounded-lg border border-border bg-muted/20 px-3 py-3 space-y-2">
                         <p className="text-sm font-medium">Reconciliación cross-device</p>
                         <p className="text-xs text-muted-foreground">
-                            Descarga datos remotos + sube datos locales faltantes. Garantiza que PC y móvil converjan al mismo dataset.
+                            Descarga datos remotos + sube datos locales pendientes. Garantiza que PC y móvil converjan al mismo dataset.
                         </p>
                         <div className="flex flex-wrap gap-2">
                             <Button
@@ -531,44 +470,28 @@ export function SettingsPage() {
                             </p>
                         )}
                     </div>
-                    <p className="text-xs text-muted-foreground">
-                        Importación en modo merge seguro: upsert por `id` (sin duplicar).
-                    </p>
-                </CardContent>
-            </Card>
-
-            {/* Reset Data */}
-            <Card className="border-destructive/30">
-                <CardHeader>
-                    <CardTitle className="text-base flex items-center gap-2 text-destructive">
-                        <AlertTriangle className="h-4 w-4" />
-                        Zona de peligro
-                    </CardTitle>
-                    <CardDescription>
-                        Acciones irreversibles que afectan todos tus datos
-                    </CardDescription>
-                </CardHeader>
-                <CardContent>
                     <div className="flex items-center justify-between">
                         <div>
-                            <p className="font-medium">Reiniciar datos de demo</p>
+                            <p className="font-medium">Conflictos de edición</p>
                             <p className="text-sm text-muted-foreground">
-                                Elimina todos los movimientos, snapshots y deudas, y recarga los datos de demo
+                                {conflictCount > 0
+                                    ? `${conflictCount} registro(s) editados en otro dispositivo esperan tu decisión`
+                                    : 'No hay conflictos pendientes'}
                             </p>
                         </div>
                         <Button
-                            variant="destructive"
-                            onClick={handleResetData}
-                            disabled={isResetting}
+                            variant={conflictCount > 0 ? 'default' : 'outline'}
+                            onClick={() => setConflictsOpen(true)}
                         >
-                            <RotateCcw className={cn('h-4 w-4 mr-2', isResetting && 'animate-spin')} />
-                            {isResetting ? 'Reiniciando...' : 'Reiniciar'}
+                            <GitCompare className="h-4 w-4 mr-2" />
+                            Revisar
                         </Button>
                     </div>
                 </CardContent>
             </Card>
 
->>>>>>> 7262d8101d6692d54190207b9ef61bba374f353a
+            <SyncConflictsDialog open={conflictsOpen} onOpenChange={setConflictsOpen} />
+
             {/* About */}
             <Card>
                 <CardHeader>
@@ -0,0 +1,238 @@
+import { useMemo, useState } from 'react'
+import { AlertTriangle, Download, Landmark } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useMovements } from '@/hooks/use-movements'
+import { useInstruments, useAccounts } from '@/hooks/use-instruments'
+import { useFxRates } from '@/hooks/use-fx-rates'
+import { useSnapshots } from '@/hooks/use-snapshots'
+import { buildTaxReport, downloadTaxWorkbook } from '@/domain/tax'
+import { applyCorporateActions } from '@/domain/corporate-actions'
+import { useCorporateActions } from '@/hooks/use-corporate-actions'
+import type { TaxAssetClass } from '@/domain/tax'
+import { formatCurrency, formatNumber } from '@/lib/utils'
+
+const CLASS_LABELS: Record<TaxAssetClass, string> = {
+    cedear: 'CEDEARs',
+    crypto: 'Cripto',
+    fci: 'FCI',
+    pf: 'Plazo Fijo',
+}
+
+const PRICE_SOURCE_LABELS = {
+    manual: 'Manual',
+    last_trade: 'Última operación',
+    cost: 'Costo',
+} as const
+
+export function TaxReportPage() {
+    const { data: movements = [], isLoading } = useMovements()
+    const { data: instruments = [] } = useInstruments()
+    const { data: accounts = [] } = useAccounts()
+    const { data: fxRates } = useFxRates()
+    const { data: snapshots = [] } = useSnapshots()
+    const { data: corporateActions } = useCorporateActions()
+
+    // Default: last closed fiscal year
+    const [year, setYear] = useState(() => new Date().getFullYear() - 1)
+    const [fxInput, setFxInput] = useState<string>('')
+    const [priceInputs, setPriceInputs] = useState<Record<string, string>>({})
+
+    const yearOptions = useMemo(() => {
+        const years = new Set<number>([new Date().getFullYear() - 1, new Date().getFullYear()])
+        for (const m of movements) years.add(new Date(m.datetimeISO).getFullYear())
+        return Array.from(years)
+            .sort((a, b) => b - a)
+            .map(y => ({ value: String(y), label: String(y) }))
+    }, [movements])
+
+    // Default FX: official snapshot at 31/12 if captured, otherwise today's oficial comprador
+    const defaultFx = useMemo(() => {
+        const yearEndSnapshot = snapshots.find(s => s.dateLocal === `${year}-12-31` && s.fxUsed.type === 'OFICIAL')
+        return yearEndSnapshot?.fxUsed.usdArs ?? fxRates?.oficial.buy ?? 0
+    }, [snapshots, year, fxRates])
+
+    const fxOficialBuy = fxInput !== '' ? Number(fxInput) || 0 : defaultFx
+
+    const yearEndPrices = useMemo(() => {
+        const prices: Record<string, number> = {}
+        for (const [instrumentId, raw] of Object.entries(priceInputs)) {
+            const value = Number(raw)
+            if (raw !== '' && value > 0) prices[instrumentId] = value
+        }
+        return prices
+    }, [priceInputs])
+
+    const report = useMemo(() => {
+        // Quantities as held on 31/12: only actions effective by then restate earlier movements
+        const adjusted = applyCorporateActions(movements, corporateActions, `${year}-12-31T23:59:59`)
+        return buildTaxReport(adjusted, instruments, { year, fxOficialBuy, yearEndPrices })
+    }, [movements, corporateActions, instruments, year, fxOficialBuy, yearEndPrices])
+
+    const accountNames = useMemo(() => new Map(accounts.map(a => [a.id, a.name])), [accounts])
+
+    if (isLoading) {
+        return (
+            <div className="space-y-6">
+                <Skeleton className="h-10 w-64" />
+                <Skeleton className="h-[300px]" />
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold">Impuestos</h1>
+                    <p className="text-muted-foreground">Ganancias y Bienes Personales del período fiscal</p>
+                </div>
+                <Button variant="gradient" onClick={() => downloadTaxWorkbook(report, accountNames)}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Descargar XLSX
+                </Button>
+            </div>
+
+            {/* Parameters */}
+            <Card>
+                <CardContent className="pt-6 grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-1">
+                        <label className="text-sm text-muted-foreground">Período fiscal</label>
+                        <Select
+                            value={String(year)}
+                            onChange={(e) => setYear(Number(e.target.value))}
+                            options={yearOptions}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-sm text-muted-foreground">TC Oficial comprador al 31/12 (BNA)</label>
+                        <Input
+                            type="number"
+                            inputMode="decimal"
+                            value={fxInput !== '' ? fxInput : String(defaultFx || '')}
+                            onChange={(e) => setFxInput(e.target.value)}
+                        />
+                    </div>
+                </CardContent>
+            </Card>
+
+            {report.warnings.length > 0 && (
+                <div className="rounded-lg bg-amber-500/10 border border-amber-500/20 p-3 text-sm text-amber-600 dark:text-amber-400 space-y-1">
+                    {report.warnings.map((w, i) => (
+                        <p key={i} className="flex items-start gap-2">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                            {w}
+                        </p>
+                    ))}
+                </div>
+            )}
+
+            {/* Ganancias */}
+            <Card>
+                <CardHeader>
+                    <CardTitle className="text-base flex items-center gap-2">
+                        <Landmark className="h-4 w-4" />
+                        Ganancias realizadas {year}
+                    </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid gap-3 sm:grid-cols-4">
+                        {(Object.keys(CLASS_LABELS) as TaxAssetClass[]).map(cls => (
+                            <div key={cls} className="rounded-lg border p-3">
+                                <p className="text-xs text-muted-foreground">{CLASS_LABELS[cls]}</p>
+                                <p className="text-lg font-semibold">{formatCurrency(report.byClass[cls].gainArs, 'ARS', { showSign: true })}</p>
+                                <p className="text-xs text-muted-foreground">{report.byClass[cls].operations} operaciones</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    {report.byInstrument.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No hay ventas registradas en {year}.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-muted-foreground border-b">
+                                        <th className="py-2 pr-4">Instrumento</th>
+                                        <th className="py-2 pr-4">Clase</th>
+                                        <th className="py-2 pr-4 text-right">Ventas ARS</th>
+                                        <th className="py-2 pr-4 text-right">Costo ARS</th>
+                                        <th className="py-2 text-right">Resultado ARS</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {report.byInstrument.map(r => (
+                                        <tr key={`${r.assetClass}-${r.instrumentId}`} className="border-b last:border-0">
+                                            <td className="py-2 pr-4 font-medium">{r.symbol}</td>
+                                            <td className="py-2 pr-4">{CLASS_LABELS[r.assetClass]}</td>
+                                            <td className="py-2 pr-4 text-right">{formatCurrency(r.proceedsArs)}</td>
+                                            <td className="py-2 pr-4 text-right">{formatCurrency(r.costArs)}</td>
+                                            <td className="py-2 text-right font-medium">{formatCurrency(r.gainArs, 'ARS', { showSign: true })}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Bienes Personales */}
+            <Card>
+                <CardHeader>
+                    <CardTitle className="text-base">
+                        Bienes Personales al 31/12/{year}: {formatCurrency(report.bienesPersonalesTotalArs)}
+                    </CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {report.bienesPersonales.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Sin tenencias al cierre del período.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-muted-foreground border-b">
+                                        <th className="py-2 pr-4">Activo</th>
+                                        <th className="py-2 pr-4">Cuenta</th>
+                                        <th className="py-2 pr-4 text-right">Cantidad</th>
+                                        <th className="py-2 pr-4 text-right">Precio 31/12</th>
+                                        <th className="py-2 pr-4">Fuente</th>
+                                        <th className="py-2 text-right">Valor ARS</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {report.bienesPersonales.map(r => (
+                                        <tr key={r.key} className="border-b last:border-0">
+                                            <td className="py-2 pr-4 font-medium">{r.symbol}</td>
+                                            <td className="py-2 pr-4">{accountNames.get(r.accountId) ?? r.accountId}</td>
+                                            <td className="py-2 pr-4 text-right">{formatNumber(r.quantity, r.kind === 'crypto' ? 6 : 2)}</td>
+                                            <td className="py-2 pr-4 text-right">
+                                                {r.instrumentId ? (
+                                                    <Input
+                                                        type="number"
+                                                        inputMode="decimal"
+                                                        className="h-8 w-32 ml-auto text-right"
+                                                        value={priceInputs[r.instrumentId] ?? String(r.unitPriceNative)}
+                                                        onChange={(e) => setPriceInputs(prev => ({ ...prev, [r.instrumentId!]: e.target.value }))}
+                                                    />
+                                                ) : (
+                                                    formatNumber(r.unitPriceNative)
+                                                )}
+                                            </td>
+                                            <td className="py-2 pr-4 text-muted-foreground">{PRICE_SOURCE_LABELS[r.priceSource]}</td>
+                                            <td className="py-2 text-right font-medium">{formatCurrency(r.valueArs)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -18,6 +18,9 @@ import { usePortfolioV2, type ItemKind, type ItemV2 } from '@/features/portfolio
 import { useAccounts, useUpdateAccount } from '@/hooks/use-instruments'
 import { useMovements } from '@/hooks/use-movements'
 import { useToast } from '@/components/ui/toast'
+import { AccountReconciliationCard } from '@/components/assets/AccountReconciliationCard'
+import { useReconciliations } from '@/hooks/use-reconciliations'
+import { isDateReconciled } from '@/domain/reconciliation'
 import type { Movement, Currency } from '@/domain/types'
 
 // =============================================================================
@@ -162,6 +165,12 @@ function getMovementCashDeltas(mov: Movement): Array<{ currency: Currency; amoun
             }
             break
         }
+        case 'ADJUSTMENT': {
+            // Already signed
+            const amount = resolveNetAmount(mov, tradeCurrency, false)
+            deltas.push({ currency: tradeCurrency, amount })
+            break
+        }
     }
 
     const fee = resolveFee(mov, tradeCurrency)
@@ -194,6 +203,7 @@ export function WalletDetailPage() {
     const { data: accounts = [], isLoading: accountsLoading } = useAccounts()
     const { data: allMovements = [], isLoading: movementsLoading } = useMovements()
     const updateAccount = useUpdateAccount()
+    const { data: reconciliations } = useReconciliations(accountId)
 
     // Find the account
     const account = useMemo(() => {
@@ -581,6 +591,7 @@ export function WalletDetailPage() {
                                     key={movement.id}
                                     movement={movement}
                                     delta={delta}
+                                    reconciled={movementCurrencies.some(c => isDateReconciled(reconciliations, accountId, movement.datetimeISO, c))}
                                     formatPrimaryMoney={formatPrimaryMoney}
                                     formatSecondaryMoney={formatSecondaryMoney}
                                     secondaryPerPrimary={secondaryPerPrimary}
@@ -589,6 +600,14 @@ export function WalletDetailPage() {
                         </div>
                     )}
                 </div>
+
+                {/* Reconciliation Card */}
+                <AccountReconciliationCard
+                    key={baseCurrency}
+                    accountId={accountId}
+                    movements={allMovements}
+                    currencies={movementCurrencies}
+                />
             </div>
 
             {/* FX Info */}
@@ -608,12 +627,13 @@ export function WalletDetailPage() {
 interface MovementRowProps {
     movement: Movement
     delta: number
+    reconciled: boolean
     formatPrimaryMoney: (value: number | null | undefined) => string
     formatSecondaryMoney: (value: number | null | undefined) => string
     secondaryPerPrimary: number | null
 }
 
-function MovementRow({ movement, delta, formatPrimaryMoney, formatSecondaryMoney, secondaryPerPrimary }: MovementRowProps) {
+function MovementRow({ movement, delta, reconciled, formatPrimaryMoney, formatSecondaryMoney, secondaryPerPrimary }: MovementRowProps) {
     const isPositive = delta > 0
     const amount = Math.abs(delta)
     const dateStr = new Date(movement.datetimeISO).toLocaleDateString('es-AR', {
@@ -628,6 +648,7 @@ function MovementRow({ movement, delta, formatPrimaryMoney, formatSecondaryMoney
         DIVIDEND: 'Dividendo',
         TRANSFER_IN: 'Transferencia recibida',
         TRANSFER_OUT: 'Transferencia enviada',
+        ADJUSTMENT: 'Ajuste de conciliación',
         BUY: 'Compra',
         SELL: 'Venta',
     }
@@ -652,7 +673,10 @@ function MovementRow({ movement, delta, formatPrimaryMoney, formatSecondaryMoney
                 </div>
                 <div>
                     <p className="text-sm font-medium">{typeLabels[movement.type] || movement.type}</p>
-                    <p className="text-xs text-muted-foreground">{dateStr}</p>
+                    <p className="text-xs text-muted-foreground">
+                        {dateStr}
+                        {reconciled && <span className="ml-2 text-emerald-400">· Conciliado</span>}
+                    </p>
                 </div>
             </div>
             <div className="text-right">
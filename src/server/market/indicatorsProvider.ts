@@ -1,6 +1,7 @@
 /**
  * Market Indicators Provider
  * Fetches: MERVAL, S&P 500, Dólar CCL, Riesgo País
+ * Daily history (benchmarks): MERVAL, S&P 500, Dólar CCL
  */
 
 export interface MarketIndicator {
@@ -17,6 +18,23 @@ export interface IndicatorsResponse {
     riesgoPais: MarketIndicator
 }
 
+export type IndicatorHistoryId = 'merval' | 'sp500' | 'ccl'
+
+export const INDICATOR_HISTORY_IDS: IndicatorHistoryId[] = ['merval', 'sp500', 'ccl']
+
+export interface IndicatorHistoryPoint {
+    date: string // YYYY-MM-DD
+    value: number
+}
+
+export interface IndicatorHistoryResponse {
+    id: IndicatorHistoryId
+    updatedAt: string
+    from: string
+    to: string
+    points: IndicatorHistoryPoint[]
+}
+
 /**
  * Fetch index data from Stooq CSV API
  * Returns last close and previous close
@@ -167,3 +185,74 @@ export async function fetchIndicators(): Promise<IndicatorsResponse> {
         riesgoPais
     }
 }
+
+const STOOQ_HISTORY_SYMBOLS: Record<Exclude<IndicatorHistoryId, 'ccl'>, string> = {
+    merval: '^MRV',
+    sp500: '^SPX',
+}
+
+/**
+ * Daily closes from Stooq between two dates (inclusive), oldest first
+ */
+async function fetchStooqHistory(symbol: string, from: string, to: string): Promise<IndicatorHistoryPoint[]> {
+    const d1 = from.replace(/-/g, '')
+    const d2 = to.replace(/-/g, '')
+    const url = `https://stooq.com/q/d/l/?s=${encodeURIComponent(symbol)}&i=d&d1=${d1}&d2=${d2}`
+
+    const response = await fetch(url, {
+        headers: {
+            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+        }
+    })
+    if (!response.ok) {
+        throw new Error(`Stooq history fetch failed for ${symbol}: ${response.status}`)
+    }
+
+    // Date,Open,High,Low,Close,Volume
+    const csv = await response.text()
+    const points: IndicatorHistoryPoint[] = []
+    for (const line of csv.trim().split('\n').slice(1)) {
+        const parts = line.trim().split(',')
+        if (parts.length < 5) continue
+        const close = parseFloat(parts[4])
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(parts[0]) || !Number.isFinite(close) || close <= 0) continue
+        points.push({ date: parts[0], value: close })
+    }
+    return points.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Daily CCL (venta) from ArgentinaDatos between two dates (inclusive), oldest first
+ */
+async function fetchCclHistory(from: string, to: string): Promise<IndicatorHistoryPoint[]> {
+    const response = await fetch('https://api.argentinadatos.com/v1/cotizaciones/dolares/contadoconliqui')
+    if (!response.ok) {
+        throw new Error(`CCL history fetch failed: ${response.status}`)
+    }
+
+    const data: Array<{ fecha?: string; venta?: number }> = await response.json()
+    if (!Array.isArray(data)) return []
+
+    return data
+        .map(row => ({ date: String(row.fecha ?? '').slice(0, 10), value: Number(row.venta) }))
+        .filter(point => point.date >= from && point.date <= to && Number.isFinite(point.value) && point.value > 0)
+        .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+export async function fetchIndicatorHistory(
+    id: IndicatorHistoryId,
+    from: string,
+    to: string
+): Promise<IndicatorHistoryResponse> {
+    const points = id === 'ccl'
+        ? await fetchCclHistory(from, to)
+        : await fetchStooqHistory(STOOQ_HISTORY_SYMBOLS[id], from, to)
+
+    return {
+        id,
+        updatedAt: new Date().toISOString(),
+        from,
+        to,
+        points,
+    }
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest'
+import {
+    classifyRemoteChange,
+    conflictFromServer,
+    diffRecordFields,
+    isLocalOnlyChange,
+    recordsEqual,
+    syncMetaKey,
+    toSyncPayload,
+    withLocalFields,
+    type RemoteChange,
+} from './change-tracking'
+import type { SyncMetaRecord } from '@/db/schema'
+import type { Account } from '@/domain/types'
+import type { PriceAlertRule } from '@/domain/alerts'
+
+const account: Account = {
+    id: 'acc-1',
+    name: 'IOL',
+    kind: 'BROKER',
+    defaultCurrency: 'ARS',
+}
+
+function remoteChange(overrides: Partial<RemoteChange> = {}): RemoteChange {
+    return {
+        entity: 'accounts',
+        id: 'acc-1',
+        version: 3,
+        updatedAt: '2025-06-01T10:00:00.000Z',
+        updatedBy: 'device-b',
+        deleted: false,
+        record: { ...account, name: 'IOL Inversiones' },
+        ...overrides,
+    }
+}
+
+function meta(overrides: Partial<SyncMetaRecord> = {}): SyncMetaRecord {
+    return {
+        key: syncMetaKey('accounts', 'acc-1'),
+        entity: 'accounts',
+        recordId: 'acc-1',
+        version: 2,
+        dirty: 0,
+        updatedAtISO: '2025-05-01T10:00:00.000Z',
+        ...overrides,
+    }
+}
+
+describe('classifyRemoteChange', () => {
+    it('skips versions this device already has', () => {
+        expect(classifyRemoteChange(remoteChange({ version: 2 }), meta(), account)).toBe('skip')
+        expect(classifyRemoteChange(remoteChange({ version: 1 }), meta(), account)).toBe('skip')
+    })
+
+    it('applies newer versions when there is no pending local write', () => {
+        expect(classifyRemoteChange(remoteChange(), meta(), account)).toBe('apply')
+        expect(classifyRemoteChange(remoteChange(), undefined, undefined)).toBe('apply')
+    })
+
+    it('flags a conflict when a pending local edit differs from the remote one', () => {
+        const local = { ...account, name: 'IOL (editada acá)' }
+        expect(classifyRemoteChange(remoteChange(), meta({ dirty: 1 }), local)).toBe('conflict')
+    })
+
+    it('applies when the pending local edit already matches the remote record', () => {
+        const local = { ...account, name: 'IOL Inversiones' }
+        expect(classifyRemoteChange(remoteChange(), meta({ dirty: 1 }), local)).toBe('apply')
+    })
+
+    it('treats remote delete vs local edit as a conflict, and delete vs delete as apply', () => {
+        const tombstone = remoteChange({ deleted: true, record: null })
+        expect(classifyRemoteChange(tombstone, meta({ dirty: 1 }), account)).toBe('conflict')
+        expect(classifyRemoteChange(tombstone, meta({ dirty: 1, deleted: true }), undefined)).toBe('apply')
+    })
+})
+
+describe('price alert evaluation state', () => {
+    const rule: PriceAlertRule = {
+        id: 'alert-1',
+        assetKind: 'indicator',
+        assetId: 'mep',
+        label: 'Dólar MEP',
+        condition: 'above',
+        threshold: 1500,
+        enabled: true,
+        createdAtISO: '2025-06-01T10:00:00.000Z',
+        updatedAtISO: '2025-06-01T10:00:00.000Z',
+    }
+    const evaluated: PriceAlertRule = { ...rule, lastValue: 1520, triggeredAtISO: '2025-06-02T10:00:00.000Z' }
+
+    it('is stripped from the pushed payload and kept when a remote copy is applied', () => {
+        expect(toSyncPayload('priceAlerts', evaluated)).toEqual(rule)
+        expect(withLocalFields('priceAlerts', { ...rule, threshold: 1600 }, evaluated))
+            .toEqual({ ...evaluated, threshold: 1600 })
+        expect(toSyncPayload('accounts', account)).toBe(account)
+    })
+
+    it('does not turn a pending rule into a conflict', () => {
+        const change = remoteChange({ entity: 'priceAlerts', id: 'alert-1', record: rule })
+        const pending = meta({ key: syncMetaKey('priceAlerts', 'alert-1'), entity: 'priceAlerts', recordId: 'alert-1', dirty: 1 })
+        expect(classifyRemoteChange(change, pending, evaluated)).toBe('apply')
+        expect(classifyRemoteChange(change, pending, { ...evaluated, threshold: 1400 })).toBe('conflict')
+    })
+
+    it('does not count as a local edit to push', () => {
+        expect(isLocalOnlyChange('priceAlerts', ['lastValue', 'triggeredAtISO'])).toBe(true)
+        expect(isLocalOnlyChange('priceAlerts', ['lastValue', 'threshold'])).toBe(false)
+        expect(isLocalOnlyChange('accounts', ['name'])).toBe(false)
+    })
+})
+
+describe('recordsEqual', () => {
+    it('ignores key order and undefined fields', () => {
+        const reordered = { defaultCurrency: 'ARS', kind: 'BROKER', name: 'IOL', id: 'acc-1', cashYield: undefined } as Account
+        expect(recordsEqual(account, reordered)).toBe(true)
+        expect(recordsEqual(account, { ...account, name: 'Otro' })).toBe(false)
+    })
+})
+
+describe('diffRecordFields', () => {
+    it('lists top-level fields that differ, sorted', () => {
+        const remote = { ...account, name: 'IOL Inversiones', defaultCurrency: 'USD' } as Account
+        expect(diffRecordFields(account, remote)).toEqual(['defaultCurrency', 'name'])
+    })
+
+    it('reports every field when one side was deleted', () => {
+        expect(diffRecordFields(account, null)).toEqual(['defaultCurrency', 'id', 'kind', 'name'])
+    })
+})
+
+describe('conflictFromServer', () => {
+    it('keeps the local record and drops the server payload for tombstones', () => {
+        const conflict = conflictFromServer({
+            entity: 'accounts',
+            id: 'acc-1',
+            baseVersion: 2,
+            serverVersion: 4,
+            serverUpdatedAt: '2025-06-02T10:00:00.000Z',
+            serverUpdatedBy: 'device-b',
+            serverDeleted: true,
+            server: { ...account },
+        }, account, '2025-06-02T11:00:00.000Z')
+
+        expect(conflict.key).toBe('accounts:acc-1')
+        expect(conflict.local).toEqual(account)
+        expect(conflict.remote).toBeNull()
+        expect(conflict.remoteVersion).toBe(4)
+    })
+})
@@ -0,0 +1,145 @@
+import type { SyncConflictRecord, SyncEntity, SyncMetaRecord, SyncRecord } from '@/db/schema'
+
+export const SYNC_ENTITIES: SyncEntity[] = ['accounts', 'movements', 'instruments', 'priceAlerts', 'accountSettings']
+
+/** Per-device fields that are never pushed nor compared (price alert evaluation state) */
+const LOCAL_ONLY_FIELDS: Partial<Record<SyncEntity, string[]>> = {
+    priceAlerts: ['lastValue', 'triggeredAtISO'],
+}
+
+/** One record as returned by /api/sync/changes (deleted => tombstone, record null) */
+export interface RemoteChange {
+    entity: SyncEntity
+    id: string
+    version: number
+    updatedAt: string
+    updatedBy: string | null
+    deleted: boolean
+    record: SyncRecord | null
+}
+
+/** Conflict reported by the server on push / If-Match writes */
+export interface RemoteConflict {
+    entity: SyncEntity
+    id: string
+    baseVersion: number
+    serverVersion: number
+    serverUpdatedAt: string
+    serverUpdatedBy: string | null
+    serverDeleted: boolean
+    server: SyncRecord | null
+}
+
+export type RemoteChangeAction = 'apply' | 'skip' | 'conflict'
+
+export function syncMetaKey(entity: SyncEntity, recordId: string): string {
+    return `${entity}:${recordId}`
+}
+
+/** JSON with sorted keys, so records compare equal regardless of property order */
+export function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => stableStringify(item)).join(',')}]`
+    }
+    if (value != null && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b))
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+    }
+    return JSON.stringify(value) ?? 'null'
+}
+
+/** The record as the server stores it, without per-device fields */
+export function toSyncPayload<T extends SyncRecord>(entity: SyncEntity, record: T): T {
+    const fields = LOCAL_ONLY_FIELDS[entity]
+    if (!fields) return record
+    const payload = { ...record } as Record<string, unknown>
+    for (const field of fields) delete payload[field]
+    return payload as T
+}
+
+/** True when an update only touches per-device fields (nothing to push) */
+export function isLocalOnlyChange(entity: SyncEntity, changedFields: string[]): boolean {
+    const fields = LOCAL_ONLY_FIELDS[entity]
+    if (!fields) return false
+    return changedFields.every(field => fields.includes(field.split('.')[0]))
+}
+
+/** A remote record with this device's per-device fields carried over from the local copy */
+export function withLocalFields<T extends SyncRecord>(entity: SyncEntity, remote: T, local: SyncRecord | undefined): T {
+    const fields = LOCAL_ONLY_FIELDS[entity]
+    if (!fields || !local) return remote
+    const merged = { ...remote } as Record<string, unknown>
+    for (const field of fields) merged[field] = (local as unknown as Record<string, unknown>)[field]
+    return merged as T
+}
+
+export function recordsEqual(a: SyncRecord | null | undefined, b: SyncRecord | null | undefined): boolean {
+    return stableStringify(a ?? null) === stableStringify(b ?? null)
+}
+
+/**
+ * Decide what to do with a pulled change:
+ * - skip: this device already has that version (re-delivered by the cursor overlap)
+ * - conflict: the record has a pending local write that differs from the remote one
+ * - apply: overwrite the local copy (put or delete)
+ */
+export function classifyRemoteChange(
+    change: RemoteChange,
+    meta: SyncMetaRecord | undefined,
+    local: SyncRecord | undefined
+): RemoteChangeAction {
+    if (meta && change.version <= meta.version) return 'skip'
+    if (meta?.dirty !== 1) return 'apply'
+
+    const pending = meta.deleted || !local ? null : toSyncPayload(change.entity, local)
+    const remote = change.deleted ? null : change.record
+    return recordsEqual(pending, remote) ? 'apply' : 'conflict'
+}
+
+export function conflictFromRemoteChange(
+    change: RemoteChange,
+    local: SyncRecord | null,
+    nowISO: string
+): SyncConflictRecord {
+    return {
+        key: syncMetaKey(change.entity, change.id),
+        entity: change.entity,
+        recordId: change.id,
+        local: local ? toSyncPayload(change.entity, local) : null,
+        remote: change.deleted ? null : change.record,
+        remoteVersion: change.version,
+        remoteUpdatedAtISO: change.updatedAt,
+        remoteUpdatedBy: change.updatedBy,
+        detectedAtISO: nowISO,
+    }
+}
+
+export function conflictFromServer(
+    conflict: RemoteConflict,
+    local: SyncRecord | null,
+    nowISO: string
+): SyncConflictRecord {
+    return {
+        key: syncMetaKey(conflict.entity, conflict.id),
+        entity: conflict.entity,
+        recordId: conflict.id,
+        local: local ? toSyncPayload(conflict.entity, local) : null,
+        remote: conflict.serverDeleted ? null : conflict.server,
+        remoteVersion: conflict.serverVersion,
+        remoteUpdatedAtISO: conflict.serverUpdatedAt,
+        remoteUpdatedBy: conflict.serverUpdatedBy,
+        detectedAtISO: nowISO,
+    }
+}
+
+/** Top-level fields whose values differ between both versions (for side-by-side highlighting) */
+export function diffRecordFields(local: SyncRecord | null, remote: SyncRecord | null): string[] {
+    const a = (local ?? {}) as Record<string, unknown>
+    const b = (remote ?? {}) as Record<string, unknown>
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+    return Array.from(keys)
+        .filter(key => stableStringify(a[key] ?? null) !== stableStringify(b[key] ?? null))
+        .sort()
+}
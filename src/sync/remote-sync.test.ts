@@ -0,0 +1,113 @@
+import 'fake-indexeddb/auto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { db } from '@/db/schema'
+import type { Movement } from '@/domain/types'
+import { undoImport } from '@/domain/import/importer'
+import { forceReconcile, SYNC_TOKEN_STORAGE_KEY } from './remote-sync'
+import { syncMetaKey } from './change-tracking'
+
+function makeStorage(): Storage {
+    const values = new Map<string, string>()
+    return {
+        get length() { return values.size },
+        clear: () => values.clear(),
+        getItem: (key) => values.get(key) ?? null,
+        key: (index) => Array.from(values.keys())[index] ?? null,
+        removeItem: (key) => { values.delete(key) },
+        setItem: (key, value) => { values.set(key, String(value)) },
+    }
+}
+
+function movement(id: string, overrides: Partial<Movement> = {}): Movement {
+    return {
+        id,
+        datetimeISO: '2025-06-01T12:00:00.000Z',
+        type: 'BUY',
+        assetClass: 'cedear',
+        instrumentId: 'SPY',
+        accountId: 'iol',
+        quantity: 10,
+        unitPrice: 1000,
+        tradeCurrency: 'ARS',
+        totalAmount: 10_000,
+        ...overrides,
+    }
+}
+
+/** Store records as already synced at `version` (the way a pull leaves them) */
+async function seedSynced(movements: Movement[], version: number): Promise<void> {
+    await db.transaction('rw', db.movements, db.syncMeta, async () => {
+        await db.movements.bulkPut(movements)
+        await db.syncMeta.bulkPut(movements.map(m => ({
+            key: syncMetaKey('movements', m.id),
+            entity: 'movements' as const,
+            recordId: m.id,
+            version,
+            dirty: 0 as const,
+            updatedAtISO: '2025-06-01T12:00:00.000Z',
+        })))
+    })
+}
+
+describe('forceReconcile', () => {
+    let pushBodies: Array<{ data: { movements: Movement[]; deletions: Array<{ id: string }> } }>
+
+    beforeEach(async () => {
+        const storage = makeStorage()
+        storage.setItem(SYNC_TOKEN_STORAGE_KEY, 'token')
+        vi.stubGlobal('localStorage', storage)
+        vi.stubGlobal('window', {
+            localStorage: storage,
+            dispatchEvent: () => true,
+            addEventListener: () => undefined,
+            removeEventListener: () => undefined,
+        })
+        vi.stubEnv('VITE_ARGFOLIO_REMOTE_SYNC', '1')
+        await Promise.all([db.movements.clear(), db.syncMeta.clear(), db.syncConflicts.clear()])
+        pushBodies = []
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+        vi.unstubAllEnvs()
+    })
+
+    it('keeps importer deletions and direct edits of synced records', async () => {
+        const imported = movement('mov-imported', { importBatchId: 'batch-1' })
+        const edited = movement('mov-edited')
+        await seedSynced([imported, edited], 2)
+
+        expect(await undoImport('batch-1')).toBe(1)
+        await db.movements.update(edited.id, { notes: 'Editado sin pasar por el repo' })
+
+        // The server still has both records at the version this device last saw
+        vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+            if (url === '/api/sync/bootstrap') {
+                return Response.json({
+                    asOfISO: '2025-06-02T00:00:00.000Z',
+                    accounts: [],
+                    movements: [imported, edited],
+                    versions: { movements: { [imported.id]: 2, [edited.id]: 2 } },
+                    tombstones: {},
+                    cursor: '2025-06-02T00:00:00.000Z',
+                })
+            }
+            if (url === '/api/sync/push') {
+                pushBodies.push(JSON.parse(String(init?.body)))
+                return Response.json({ versions: { movements: { [imported.id]: 3, [edited.id]: 3 } } })
+            }
+            return new Response('not found', { status: 404 })
+        }))
+
+        const result = await forceReconcile()
+
+        expect(result).toMatchObject({ ok: true, conflicts: 0 })
+        expect(await db.movements.get(imported.id)).toBeUndefined()
+        expect((await db.movements.get(edited.id))?.notes).toBe('Editado sin pasar por el repo')
+
+        expect(pushBodies).toHaveLength(1)
+        expect(pushBodies[0].data.deletions.map(d => d.id)).toEqual([imported.id])
+        expect(pushBodies[0].data.movements.map(m => m.notes)).toEqual(['Editado sin pasar por el repo'])
+        expect(await db.syncMeta.where('dirty').equals(1).count()).toBe(0)
+    })
+})
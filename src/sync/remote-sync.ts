@@ -1,5 +1,19 @@
-import { db } from '@/db/schema'
+import type { Table, Transaction } from 'dexie'
+import { db, type AccountSettings, type SyncConflictRecord, type SyncEntity, type SyncMetaRecord, type SyncRecord } from '@/db/schema'
 import type { Account, Instrument, Movement, Snapshot } from '@/domain/types'
+import type { PriceAlertRule } from '@/domain/alerts'
+import {
+    classifyRemoteChange,
+    conflictFromRemoteChange,
+    conflictFromServer,
+    isLocalOnlyChange,
+    SYNC_ENTITIES,
+    syncMetaKey,
+    toSyncPayload,
+    withLocalFields,
+    type RemoteChange,
+    type RemoteConflict,
+} from './change-tracking'
 
 const REMOTE_SYNC_FLAG = 'VITE_ARGFOLIO_REMOTE_SYNC'
 const REMOTE_SYNC_STATUS_EVENT = 'argfolio:remote-sync-status'
@@ -8,6 +22,9 @@ export const FINANCE_EXPRESS_STORAGE_KEY = 'budget_fintech'
 export const FINANCE_EXPRESS_UPDATED_AT_STORAGE_KEY = 'budget_fintech_updated_at'
 const PREFERENCES_UPDATED_AT_KEY = 'argfolio.preferences_updated_at'
 const LAST_SYNC_KEY = 'argfolio.lastSyncISO'
+const SYNC_CURSOR_KEY = 'argfolio.syncCursor'
+const DEVICE_ID_KEY = 'argfolio.deviceId'
+const SYNC_CONFLICTS_EVENT = 'argfolio:sync-conflicts'
 
 // Preference keys that affect portfolio calculation and must be consistent cross-device
 const SYNCED_PREFERENCE_KEYS = [
@@ -17,6 +34,7 @@ const SYNCED_PREFERENCE_KEYS = [
     'argfolio-settings-cedear-auto',
     'argfolio.autoAccrueWalletInterest',
     'argfolio.autoSettleFixedTerms',
+    'argfolio.valuationPolicy',
 ] as const
 
 interface RemoteSyncStatusDetail {
@@ -35,6 +53,26 @@ interface BootstrapResponse {
     financeExpressUpdatedAt?: string | null
     preferences?: string | null
     preferencesUpdatedAt?: string | null
+    priceAlerts?: PriceAlertRule[]
+    accountSettings?: AccountSettings[]
+    degraded?: boolean
+    cursor?: string
+    versions?: Partial<Record<SyncEntity, Record<string, number>>>
+    tombstones?: Partial<Record<SyncEntity, Record<string, number>>>
+}
+
+interface ChangesResponse {
+    cursor: string
+    changes: RemoteChange[]
+}
+
+interface PushResponse {
+    versions?: Partial<Record<SyncEntity, Record<string, number>>>
+    conflicts?: RemoteConflict[]
+}
+
+interface RecordWriteResponse {
+    version?: number
 }
 
 export interface SyncFingerprint {
@@ -89,6 +127,22 @@ function authHeaders(): Record<string, string> {
     return token.length > 0 ? { Authorization: `Bearer ${token}` } : {}
 }
 
+/**
+ * Stable per-browser id, stored by the server as `updated_by` so conflicts
+ * can tell which device made the competing edit.
+ */
+export function getDeviceId(): string {
+    if (typeof window === 'undefined') return ''
+    let deviceId = window.localStorage.getItem(DEVICE_ID_KEY)
+    if (!deviceId) {
+        deviceId = typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+            ? crypto.randomUUID()
+            : `device-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+        window.localStorage.setItem(DEVICE_ID_KEY, deviceId)
+    }
+    return deviceId
+}
+
 export function getSyncToken(): string {
     return readSyncToken()
 }
@@ -108,6 +162,7 @@ async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
         ...init,
         headers: {
             'Content-Type': 'application/json',
+            'X-Argfolio-Device': getDeviceId(),
             ...authHeaders(),
             ...(init?.headers ?? {}),
         },
@@ -153,6 +208,15 @@ function handleRemoteSyncError(error: unknown): void {
         return
     }
 
+    if (error instanceof HttpError && error.status === 409) {
+        emitSyncStatus({
+            title: 'Conflicto de sincronización',
+            description: 'Otro dispositivo modificó este registro. Elegí qué versión conservar en Configuración.',
+            variant: 'error',
+        })
+        return
+    }
+
     if (error instanceof HttpError && error.status === 403) {
         emitSyncStatus({
             title: 'Sync remoto en solo lectura',
@@ -181,39 +245,32 @@ export async function bootstrapRemoteSync(force = false): Promise<{ ok: boolean;
     const task = (async () => {
         try {
             const payload = await requestJson<BootstrapResponse>('/api/sync/bootstrap')
-            const accounts = Array.isArray(payload.accounts) ? payload.accounts : []
-            const movements = Array.isArray(payload.movements) ? payload.movements : []
-            const instruments = Array.isArray(payload.instruments) ? payload.instruments : []
             const snapshots = Array.isArray(payload.snapshots) ? payload.snapshots : []
             const snapshotsToPersist = snapshots.filter((snapshot): snapshot is Snapshot => {
                 return typeof snapshot?.dateLocal === 'string' && snapshot.dateLocal.length > 0
             })
 
-<<<<<<< HEAD
-            // D1 is the single source of truth — replace local DB entirely.
-=======
-            // Track remote IDs for reconciliation push
-            const remoteMovementIds = new Set(movements.map(m => m.id))
-
->>>>>>> 7262d8101d6692d54190207b9ef61bba374f353a
-            await db.transaction('rw', [db.accounts, db.movements, db.instruments, db.snapshots], async () => {
-                await db.accounts.clear()
-                await db.movements.clear()
-                await db.instruments.clear()
-                await db.snapshots.clear()
-
-                if (accounts.length > 0) await db.accounts.bulkPut(accounts)
-                if (movements.length > 0) await db.movements.bulkPut(movements)
-                if (instruments.length > 0) await db.instruments.bulkPut(instruments)
-                if (snapshotsToPersist.length > 0) await db.snapshots.bulkPut(snapshotsToPersist)
-
-                console.info('[bootstrap] Replaced local DB from D1', {
-                    accounts: accounts.length,
-                    movements: movements.length,
-                    instruments: instruments.length,
+            // A degraded payload is empty because D1 failed, not because data was deleted.
+            if (!payload.degraded) {
+                // D1 is the source of truth for every record it knows (live or tombstoned).
+                // Records it has never seen stay local and are queued for the reconciliation push.
+                const result = await applyRemoteChanges(bootstrapToChanges(payload), true)
+
+                await db.transaction('rw', [db.snapshots], async () => {
+                    await db.snapshots.clear()
+                    if (snapshotsToPersist.length > 0) await db.snapshots.bulkPut(snapshotsToPersist)
+                })
+
+                if (typeof payload.cursor === 'string') {
+                    localStorage.setItem(SYNC_CURSOR_KEY, payload.cursor)
+                }
+
+                console.info('[bootstrap] Merged local DB with D1', {
+                    applied: result.applied,
+                    conflicts: result.conflicts,
                     snapshots: snapshotsToPersist.length,
                 })
-            })
+            }
 
             // D1 is authoritative — always restore Finance Express from remote.
             if (typeof payload.financeExpress === 'string' && payload.financeExpress.length > 0) {
@@ -229,10 +286,10 @@ export async function bootstrapRemoteSync(force = false): Promise<{ ok: boolean;
             // Record last sync time
             localStorage.setItem(LAST_SYNC_KEY, new Date().toISOString())
 
-            // --- Reconciliation push: push local-only data to D1 ---
+            // --- Reconciliation push: push pending local writes to D1 ---
             // This ensures movements/accounts created locally (whose individual push may
             // have failed) eventually reach D1 so other devices can see them.
-            reconciliationPush(remoteMovementIds).catch(error => {
+            reconciliationPush().catch(error => {
                 console.warn('[bootstrap] reconciliation push failed (non-blocking)', error)
             })
 
@@ -253,14 +310,14 @@ export async function bootstrapRemoteSync(force = false): Promise<{ ok: boolean;
 }
 
 // ---------------------------------------------------------------------------
-// Reconciliation push — push local-only movements and all accounts to D1.
+// Reconciliation push — push pending local writes (and preferences) to D1.
 // Called automatically after bootstrap to ensure D1 eventually gets all data.
-// Uses existing UPSERT endpoint, safe to call repeatedly.
+// Writes carry base versions, so edits made elsewhere surface as conflicts.
 // ---------------------------------------------------------------------------
 
 let reconciliationInFlight = false
 
-async function reconciliationPush(remoteMovementIds: Set<string>): Promise<void> {
+async function reconciliationPush(): Promise<void> {
     if (!isRemoteSyncEnabled()) return
     if (reconciliationInFlight) return
 
@@ -269,66 +326,510 @@ async function reconciliationPush(remoteMovementIds: Set<string>): Promise<void>
 
     reconciliationInFlight = true
     try {
-        // Find local-only movements (present locally but not in D1 bootstrap response)
-        const allLocalMovements = await db.movements.toArray()
-        const localOnlyMovements = allLocalMovements.filter(m => !remoteMovementIds.has(m.id))
+        const prefsPayload = collectLocalPreferences()
+        const { pushed, conflicts } = await pushPendingChanges(prefsPayload)
 
-        // Always push all accounts (small set, UPSERT is safe)
-        const allLocalAccounts = await db.accounts.toArray()
+        if (pushed > 0) {
+            console.log(`[reconciliation] pushed ${pushed} pending change(s) to D1`)
+            emitSyncStatus({
+                title: 'Datos sincronizados',
+                description: `${pushed} cambio(s) enviados a la nube.`,
+                variant: 'success',
+            })
+        } else {
+            console.log('[reconciliation] nothing pending (preferences only)')
+        }
+        if (conflicts > 0) {
+            notifySyncConflicts(conflicts)
+        }
+    } catch (error) {
+        console.warn('[reconciliation] push failed', error)
+        // Non-blocking: don't surface error to user for reconciliation
+    } finally {
+        reconciliationInFlight = false
+    }
+}
 
-        // Always push all instruments (small set)
-        const allLocalInstruments = await db.instruments.toArray()
+// ---------------------------------------------------------------------------
+// Incremental sync — per-record versions, tombstones and conflicts.
+// syncMeta tracks the last server version seen per record and whether a local
+// write is still pending; syncConflicts keeps both versions until the user picks one.
+// ---------------------------------------------------------------------------
 
-        // Collect current preferences
-        const prefsPayload = collectLocalPreferences()
+function entityTable(entity: SyncEntity): Table<SyncRecord, string> {
+    return db[entity] as unknown as Table<SyncRecord, string>
+}
+
+function bootstrapToChanges(payload: BootstrapResponse): RemoteChange[] {
+    const updatedAt = payload.asOfISO
+    const records: Record<SyncEntity, SyncRecord[]> = {
+        accounts: Array.isArray(payload.accounts) ? payload.accounts : [],
+        movements: Array.isArray(payload.movements) ? payload.movements : [],
+        instruments: Array.isArray(payload.instruments) ? payload.instruments : [],
+        priceAlerts: Array.isArray(payload.priceAlerts) ? payload.priceAlerts : [],
+        accountSettings: Array.isArray(payload.accountSettings) ? payload.accountSettings : [],
+    }
+
+    return SYNC_ENTITIES.flatMap((entity) => {
+        const versions = payload.versions?.[entity] ?? {}
+        const live: RemoteChange[] = records[entity].map(record => ({
+            entity,
+            id: record.id,
+            version: versions[record.id] ?? 1,
+            updatedAt,
+            updatedBy: null,
+            deleted: false,
+            record,
+        }))
+        const deleted: RemoteChange[] = Object.entries(payload.tombstones?.[entity] ?? {}).map(([id, version]) => ({
+            entity,
+            id,
+            version,
+            updatedAt,
+            updatedBy: null,
+            deleted: true,
+            record: null,
+        }))
+        return [...live, ...deleted]
+    })
+}
+
+/**
+ * Apply pulled changes to Dexie. With `full`, `changes` is the complete server
+ * state: local records missing from it are dropped if they were synced before,
+ * or queued for push if the server never saw them.
+ */
+async function applyRemoteChanges(
+    changes: RemoteChange[],
+    full: boolean
+): Promise<{ applied: number; conflicts: number }> {
+    await flushTrackedWrites()
+    const nowISO = new Date().toISOString()
+    let applied = 0
+    let conflicts = 0
+
+    await db.transaction('rw', [db.accounts, db.movements, db.instruments, db.priceAlerts, db.accountSettings, db.syncMeta, db.syncConflicts], async () => {
+        const metas = new Map((await db.syncMeta.toArray()).map(meta => [meta.key, meta]))
+        const locals = new Map<string, SyncRecord>()
+        for (const entity of SYNC_ENTITIES) {
+            const rows = full
+                ? await entityTable(entity).toArray()
+                : await entityTable(entity).bulkGet(changes.filter(c => c.entity === entity).map(c => c.id))
+            for (const row of rows) {
+                if (row) locals.set(syncMetaKey(entity, row.id), row)
+            }
+        }
+
+        const puts = new Map<SyncEntity, SyncRecord[]>(SYNC_ENTITIES.map(entity => [entity, []]))
+        const deletes = new Map<SyncEntity, string[]>(SYNC_ENTITIES.map(entity => [entity, []]))
+        const metaPuts: SyncMetaRecord[] = []
+        const conflictPuts: SyncConflictRecord[] = []
+        const resolvedKeys: string[] = []
+        const seen = new Set<string>()
+
+        for (const change of changes) {
+            const key = syncMetaKey(change.entity, change.id)
+            seen.add(key)
+            const meta = metas.get(key)
+            const local = locals.get(key)
+            const action = classifyRemoteChange(change, meta, local)
+            if (action === 'skip') continue
+
+            if (action === 'conflict') {
+                conflictPuts.push(conflictFromRemoteChange(change, meta?.deleted ? null : local ?? null, nowISO))
+                continue
+            }
+
+            if (change.deleted || !change.record) {
+                deletes.get(change.entity)!.push(change.id)
+            } else {
+                puts.get(change.entity)!.push(withLocalFields(change.entity, change.record, local))
+            }
+            metaPuts.push({
+                key,
+                entity: change.entity,
+                recordId: change.id,
+                version: change.version,
+                dirty: 0,
+                deleted: change.deleted,
+                updatedAtISO: nowISO,
+            })
+            resolvedKeys.push(key)
+        }
 
-        const hasData = localOnlyMovements.length > 0 ||
-            allLocalAccounts.length > 0 ||
-            allLocalInstruments.length > 0
+        if (full) {
+            for (const [key, local] of locals) {
+                if (seen.has(key)) continue
+                const entity = key.slice(0, key.indexOf(':')) as SyncEntity
+                const meta = metas.get(key)
+                if (meta && meta.version > 0 && meta.dirty === 0) {
+                    deletes.get(entity)!.push(local.id)
+                    continue
+                }
+                if (meta?.dirty === 1) continue
+                metaPuts.push({ key, entity, recordId: local.id, version: 0, dirty: 1, updatedAtISO: nowISO })
+            }
+        }
 
-        if (!hasData && !prefsPayload) {
-            console.log('[reconciliation] nothing to push')
-            return
+        for (const entity of SYNC_ENTITIES) {
+            const entityPuts = puts.get(entity)!
+            const entityDeletes = deletes.get(entity)!
+            if (entityPuts.length > 0) await entityTable(entity).bulkPut(entityPuts)
+            if (entityDeletes.length > 0) await entityTable(entity).bulkDelete(entityDeletes)
+            applied += entityPuts.length + entityDeletes.length
         }
+        if (metaPuts.length > 0) await db.syncMeta.bulkPut(metaPuts)
+        if (resolvedKeys.length > 0) await db.syncConflicts.bulkDelete(resolvedKeys)
+        if (conflictPuts.length > 0) await db.syncConflicts.bulkPut(conflictPuts)
+        conflicts = conflictPuts.length
+    })
 
-        console.log('[reconciliation] pushing', {
-            localOnlyMovements: localOnlyMovements.length,
-            accounts: allLocalAccounts.length,
-            instruments: allLocalInstruments.length,
-            preferences: !!prefsPayload,
+    if (conflicts > 0) notifySyncConflicts(conflicts)
+    return { applied, conflicts }
+}
+
+async function markPendingWrites(entity: SyncEntity, ids: string[], deleted = false): Promise<void> {
+    if (ids.length === 0) return
+    const nowISO = new Date().toISOString()
+    const keys = ids.map(id => syncMetaKey(entity, id))
+    const existing = await db.syncMeta.bulkGet(keys)
+    await db.syncMeta.bulkPut(ids.map((id, index) => ({
+        key: keys[index],
+        entity,
+        recordId: id,
+        version: existing[index]?.version ?? 0,
+        dirty: 1 as const,
+        deleted,
+        updatedAtISO: nowISO,
+    })))
+}
+
+// ---------------------------------------------------------------------------
+// Write tracking — every local write to a synced table marks its record as a
+// pending write, whatever code path made it (repos, importer, wizards, backup
+// restore). Writes made by the sync itself run in transactions that include
+// syncMeta and record their own version state, so they are not tracked.
+// ---------------------------------------------------------------------------
+
+const trackedByTransaction = new WeakMap<Transaction, Map<string, { entity: SyncEntity; id: string; deleted: boolean }>>()
+let trackedWrites: Promise<void> = Promise.resolve()
+
+function trackWrite(entity: SyncEntity, id: unknown, deleted: boolean, transaction: Transaction): void {
+    if (typeof id !== 'string' || transaction.storeNames.includes('syncMeta')) return
+
+    let writes = trackedByTransaction.get(transaction)
+    if (!writes) {
+        const pending = new Map<string, { entity: SyncEntity; id: string; deleted: boolean }>()
+        writes = pending
+        trackedByTransaction.set(transaction, pending)
+        transaction.on('complete', () => {
+            trackedWrites = trackedWrites
+                .then(async () => {
+                    for (const entity of SYNC_ENTITIES) {
+                        const items = Array.from(pending.values()).filter(item => item.entity === entity)
+                        await markPendingWrites(entity, items.filter(item => !item.deleted).map(item => item.id))
+                        await markPendingWrites(entity, items.filter(item => item.deleted).map(item => item.id), true)
+                    }
+                })
+                .catch((error) => console.warn('[sync-tracking] failed to mark pending writes', error))
         })
+    }
+    writes.set(syncMetaKey(entity, id), { entity, id, deleted })
+}
 
-        await requestJson('/api/sync/push', {
-            method: 'POST',
-            body: toJsonBody({
-                version: 1,
-                exportedAtISO: new Date().toISOString(),
-                data: {
-                    accounts: allLocalAccounts,
-                    instruments: allLocalInstruments,
-                    movements: localOnlyMovements,
-                    snapshots: [],
-                    manualPrices: [],
-                    preferences: prefsPayload,
-                },
-            }),
+let writeTrackingInstalled = false
+
+function installWriteTracking(): void {
+    if (writeTrackingInstalled) return
+    writeTrackingInstalled = true
+    for (const entity of SYNC_ENTITIES) {
+        const table = entityTable(entity)
+        table.hook('creating', (primKey, obj, transaction) => {
+            trackWrite(entity, primKey ?? obj.id, false, transaction)
+        })
+        table.hook('updating', (modifications, primKey, _obj, transaction) => {
+            if (isLocalOnlyChange(entity, Object.keys(modifications))) return
+            trackWrite(entity, primKey, false, transaction)
+        })
+        table.hook('deleting', (primKey, _obj, transaction) => {
+            trackWrite(entity, primKey, true, transaction)
         })
+    }
+}
 
-        if (localOnlyMovements.length > 0) {
-            console.log(`[reconciliation] pushed ${localOnlyMovements.length} local-only movements to D1`)
-            emitSyncStatus({
-                title: 'Datos sincronizados',
-                description: `${localOnlyMovements.length} movimiento(s) enviados a la nube.`,
-                variant: 'success',
-            })
+installWriteTracking()
+
+/** Wait until writes already committed are marked pending (before pulling or pushing) */
+function flushTrackedWrites(): Promise<void> {
+    return trackedWrites
+}
+
+/**
+ * Record the outcome of a push: accepted records take the server version,
+ * rejected ones keep their pending flag and get a conflict entry.
+ */
+async function applyPushResult(
+    sent: Array<{ entity: SyncEntity; id: string; deleted: boolean }>,
+    response: PushResponse | undefined
+): Promise<number> {
+    const nowISO = new Date().toISOString()
+    const conflicts = Array.isArray(response?.conflicts) ? response.conflicts : []
+    const conflictKeys = new Set(conflicts.map(c => syncMetaKey(c.entity, c.id)))
+
+    const conflictRecords: SyncConflictRecord[] = []
+    for (const conflict of conflicts) {
+        const local = await entityTable(conflict.entity).get(conflict.id)
+        conflictRecords.push(conflictFromServer(conflict, local ?? null, nowISO))
+    }
+
+    const keys = sent.map(item => syncMetaKey(item.entity, item.id))
+    const existing = await db.syncMeta.bulkGet(keys)
+    const accepted: SyncMetaRecord[] = []
+    sent.forEach((item, index) => {
+        if (conflictKeys.has(keys[index])) return
+        accepted.push({
+            key: keys[index],
+            entity: item.entity,
+            recordId: item.id,
+            version: response?.versions?.[item.entity]?.[item.id] ?? existing[index]?.version ?? 0,
+            dirty: 0,
+            deleted: item.deleted,
+            updatedAtISO: nowISO,
+        })
+    })
+
+    await db.transaction('rw', [db.syncMeta, db.syncConflicts], async () => {
+        if (accepted.length > 0) await db.syncMeta.bulkPut(accepted)
+        if (conflictRecords.length > 0) await db.syncConflicts.bulkPut(conflictRecords)
+    })
+
+    if (conflictRecords.length > 0) notifySyncConflicts(conflictRecords.length)
+    return conflictRecords.length
+}
+
+/**
+ * Push every pending local write with its base version. Records with an open
+ * conflict wait until the user resolves it.
+ */
+export async function pushPendingChanges(
+    preferences: Record<string, string> | null = null
+): Promise<{ pushed: number; conflicts: number }> {
+    await flushTrackedWrites()
+    const pending = await db.syncMeta.where('dirty').equals(1).toArray()
+    const openConflicts = new Set((await db.syncConflicts.toCollection().primaryKeys()) as string[])
+    const ready = pending.filter(meta => !openConflicts.has(meta.key))
+
+    if (ready.length === 0 && !preferences) {
+        return { pushed: 0, conflicts: 0 }
+    }
+
+    const records: Record<SyncEntity, SyncRecord[]> = { accounts: [], movements: [], instruments: [], priceAlerts: [], accountSettings: [] }
+    const baseVersions: Record<SyncEntity, Record<string, number>> = { accounts: {}, movements: {}, instruments: {}, priceAlerts: {}, accountSettings: {} }
+    const deletions: Array<{ entity: SyncEntity; id: string; baseVersion: number }> = []
+    const sent: Array<{ entity: SyncEntity; id: string; deleted: boolean }> = []
+
+    for (const meta of ready) {
+        const record = meta.deleted ? undefined : await entityTable(meta.entity).get(meta.recordId)
+        if (!record) {
+            deletions.push({ entity: meta.entity, id: meta.recordId, baseVersion: meta.version })
+            sent.push({ entity: meta.entity, id: meta.recordId, deleted: true })
+            continue
+        }
+        records[meta.entity].push(toSyncPayload(meta.entity, record))
+        baseVersions[meta.entity][meta.recordId] = meta.version
+        sent.push({ entity: meta.entity, id: meta.recordId, deleted: false })
+    }
+
+    const response = await requestJson<PushResponse>('/api/sync/push', {
+        method: 'POST',
+        body: toJsonBody({
+            version: 1,
+            exportedAtISO: new Date().toISOString(),
+            data: {
+                accounts: records.accounts,
+                instruments: records.instruments,
+                movements: records.movements,
+                priceAlerts: records.priceAlerts,
+                accountSettings: records.accountSettings,
+                snapshots: [],
+                manualPrices: [],
+                preferences: preferences ?? {},
+                baseVersions,
+                deletions,
+            },
+        }),
+    })
+
+    const conflicts = await applyPushResult(sent, response)
+    return { pushed: sent.length - conflicts, conflicts }
+}
+
+/**
+ * Pull changes since the stored cursor (everything, tombstones included, when
+ * there is no cursor yet) and apply them locally.
+ */
+export async function pullRemoteChanges(): Promise<{ applied: number; conflicts: number }> {
+    const since = localStorage.getItem(SYNC_CURSOR_KEY) ?? ''
+    const payload = await requestJson<ChangesResponse>(`/api/sync/changes?since=${encodeURIComponent(since)}`)
+    const changes = Array.isArray(payload.changes) ? payload.changes : []
+    const result = await applyRemoteChanges(changes, since === '')
+    if (typeof payload.cursor === 'string') {
+        localStorage.setItem(SYNC_CURSOR_KEY, payload.cursor)
+    }
+    return result
+}
+
+let incrementalInFlight: Promise<{ ok: boolean; applied: number; pushed: number }> | null = null
+
+/**
+ * Pull-then-push round trip. Cheap enough to run whenever the app regains focus.
+ */
+export async function syncIncrementalChanges(): Promise<{ ok: boolean; applied: number; pushed: number }> {
+    if (!isRemoteSyncEnabled() || readSyncToken().length === 0) {
+        return { ok: false, applied: 0, pushed: 0 }
+    }
+    if (incrementalInFlight) return incrementalInFlight
+
+    incrementalInFlight = (async () => {
+        try {
+            const pulled = await pullRemoteChanges()
+            const { pushed } = await pushPendingChanges()
+            localStorage.setItem(LAST_SYNC_KEY, new Date().toISOString())
+            return { ok: true, applied: pulled.applied, pushed }
+        } catch (error) {
+            console.warn('[incremental-sync] failed', error)
+            return { ok: false, applied: 0, pushed: 0 }
+        } finally {
+            incrementalInFlight = null
+        }
+    })()
+    return incrementalInFlight
+}
+
+function notifySyncConflicts(count: number): void {
+    emitSyncStatus({
+        title: 'Conflictos de sincronización',
+        description: `${count} registro(s) se editaron en otro dispositivo. Elegí qué versión conservar en Configuración.`,
+        variant: 'error',
+    })
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent(SYNC_CONFLICTS_EVENT))
+    }
+}
+
+export function subscribeSyncConflicts(listener: () => void): () => void {
+    if (typeof window === 'undefined') return () => undefined
+    window.addEventListener(SYNC_CONFLICTS_EVENT, listener)
+    return () => window.removeEventListener(SYNC_CONFLICTS_EVENT, listener)
+}
+
+export async function listSyncConflicts(): Promise<SyncConflictRecord[]> {
+    return db.syncConflicts.orderBy('detectedAtISO').toArray()
+}
+
+/**
+ * Keep one side of a conflict. 'remote' overwrites the local copy; 'local'
+ * re-queues the local copy on top of the server version and pushes it.
+ */
+export async function resolveSyncConflict(key: string, keep: 'local' | 'remote'): Promise<void> {
+    const conflict = await db.syncConflicts.get(key)
+    if (!conflict) return
+
+    const chosen = keep === 'local' ? conflict.local : conflict.remote
+    const table = entityTable(conflict.entity)
+
+    await db.transaction('rw', [db.accounts, db.movements, db.instruments, db.priceAlerts, db.accountSettings, db.syncMeta, db.syncConflicts], async () => {
+        if (chosen) {
+            await table.put(withLocalFields(conflict.entity, chosen, await table.get(conflict.recordId)))
         } else {
-            console.log('[reconciliation] push done (accounts/instruments/preferences only)')
+            await table.delete(conflict.recordId)
+        }
+        await db.syncMeta.put({
+            key,
+            entity: conflict.entity,
+            recordId: conflict.recordId,
+            version: conflict.remoteVersion,
+            dirty: keep === 'local' ? 1 : 0,
+            deleted: chosen == null,
+            updatedAtISO: new Date().toISOString(),
+        })
+        await db.syncConflicts.delete(key)
+    })
+
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent(SYNC_CONFLICTS_EVENT))
+    }
+
+    if (keep === 'local' && isRemoteSyncEnabled() && readSyncToken().length > 0) {
+        try {
+            await pushPendingChanges()
+        } catch (error) {
+            // Still marked pending: the next reconciliation retries it
+            console.warn('[sync-conflicts] push after resolve failed', error)
         }
+    }
+}
+
+/** Forget versions, pending writes and the pull cursor (local data reset). */
+export async function resetSyncState(): Promise<void> {
+    await db.transaction('rw', [db.syncMeta, db.syncConflicts], async () => {
+        await db.syncMeta.clear()
+        await db.syncConflicts.clear()
+    })
+    localStorage.removeItem(SYNC_CURSOR_KEY)
+}
+
+/**
+ * Send one record write with `If-Match: <version>` when the server version is known.
+ * Failures leave the record pending for the next reconciliation push; a 409 stores
+ * both versions as a conflict.
+ */
+async function sendVersionedWrite(
+    entity: SyncEntity,
+    id: string,
+    record: SyncRecord | null,
+    url: string,
+    init: RequestInit
+): Promise<void> {
+    await flushTrackedWrites()
+    const key = syncMetaKey(entity, id)
+    const meta = await db.syncMeta.get(key)
+
+    try {
+        const result = await requestJson<RecordWriteResponse>(url, {
+            ...init,
+            headers: meta && meta.version > 0 ? { 'If-Match': String(meta.version) } : {},
+        })
+        await db.syncMeta.put({
+            key,
+            entity,
+            recordId: id,
+            version: typeof result?.version === 'number' ? result.version : meta?.version ?? 0,
+            dirty: 0,
+            deleted: record == null,
+            updatedAtISO: new Date().toISOString(),
+        })
     } catch (error) {
-        console.warn('[reconciliation] push failed', error)
-        // Non-blocking: don't surface error to user for reconciliation
-    } finally {
-        reconciliationInFlight = false
+        await markPendingWrites(entity, [id], record == null)
+        if (error instanceof HttpError && error.status === 409) {
+            const conflict = parseConflictBody(error.body)
+            if (conflict) {
+                await db.syncConflicts.put(conflictFromServer(conflict, record, new Date().toISOString()))
+                if (typeof window !== 'undefined') {
+                    window.dispatchEvent(new CustomEvent(SYNC_CONFLICTS_EVENT))
+                }
+            }
+        }
+        throw error
+    }
+}
+
+function parseConflictBody(body: string): RemoteConflict | null {
+    try {
+        const parsed = JSON.parse(body) as { conflict?: RemoteConflict }
+        return parsed?.conflict ?? null
+    } catch {
+        return null
     }
 }
 
@@ -354,6 +855,12 @@ function collectLocalPreferences(): Record<string, string> | null {
     return prefs
 }
 
+function toTimestampMs(value: string | null | undefined): number | null {
+    if (typeof value !== 'string' || value.length === 0) return null
+    const parsed = Date.parse(value)
+    return Number.isFinite(parsed) ? parsed : null
+}
+
 function restorePreferencesFromRemote(
     remotePrefsJson: string | null | undefined,
     remoteUpdatedAt: string | null | undefined
@@ -447,18 +954,75 @@ function syncPreferencesPush(): void {
     }, PREFS_PUSH_DEBOUNCE_MS)
 }
 
+// ---------------------------------------------------------------------------
+// Price alert rules and account settings (display names, rubro/TNA and FX
+// valuation overrides) — versioned per record like accounts and movements.
+// Alert evaluation state (lastValue / triggeredAtISO) is per device and never pushed.
+// ---------------------------------------------------------------------------
+
+const PENDING_PUSH_DEBOUNCE_MS = 2000
+let pendingPushTimeout: ReturnType<typeof setTimeout> | null = null
+
+/** Push pending writes once a burst of edits settles */
+function schedulePendingPush(label: string): void {
+    if (readSyncToken().length === 0) return
+    if (pendingPushTimeout != null) clearTimeout(pendingPushTimeout)
+    pendingPushTimeout = setTimeout(async () => {
+        pendingPushTimeout = null
+        try {
+            const { pushed } = await pushPendingChanges()
+            console.log(`[${label}] pushed to D1`, { pushed })
+        } catch (error) {
+            // Still marked pending: the next reconciliation retries it
+            console.warn(`[${label}] push failed`, error)
+        }
+    }, PENDING_PUSH_DEBOUNCE_MS)
+}
+
+/**
+ * Queue price alert rules for push (call after any rule create/update/delete).
+ * Write tracking already marks them pending; this pushes them to D1 shortly
+ * after instead of waiting for the next reconciliation.
+ */
+export async function markPriceAlertsModified(ids: string[], deleted = false): Promise<void> {
+    if (!isRemoteSyncEnabled()) return
+    await markPendingWrites('priceAlerts', ids, deleted)
+    schedulePendingPush('price-alerts')
+}
+
+/**
+ * Queue account settings for push (call after any save/delete), by account id.
+ * Like markPriceAlertsModified, pushes them to D1 shortly after.
+ */
+export async function markAccountSettingsModified(ids: string[], deleted = false): Promise<void> {
+    if (!isRemoteSyncEnabled()) return
+    await markPendingWrites('accountSettings', ids, deleted)
+    schedulePendingPush('account-settings')
+}
+
+/**
+ * Queue movements written straight to Dexie in a local transaction (call once
+ * it commits). Like markPriceAlertsModified, pushes them to D1 shortly after.
+ */
+export async function markMovementsModified(ids: string[], deleted = false): Promise<void> {
+    if (!isRemoteSyncEnabled() || ids.length === 0) return
+    await markPendingWrites('movements', ids, deleted)
+    schedulePendingPush('movements')
+}
+
 // ---------------------------------------------------------------------------
 // Force reconcile — manual full bidirectional sync.
-// Pull → Push all → Pull again to converge.
+// Full pull (tombstones included) → push pending writes with base versions.
 // ---------------------------------------------------------------------------
 
 export async function forceReconcile(): Promise<{
     ok: boolean
     pulled: number
     pushed: number
+    conflicts: number
 }> {
     if (!isRemoteSyncEnabled()) {
-        return { ok: false, pulled: 0, pushed: 0 }
+        return { ok: false, pulled: 0, pushed: 0, conflicts: 0 }
     }
 
     const token = readSyncToken()
@@ -468,7 +1032,7 @@ export async function forceReconcile(): Promise<{
             description: 'Configurá el token en Settings para sincronizar.',
             variant: 'error',
         })
-        return { ok: false, pulled: 0, pushed: 0 }
+        return { ok: false, pulled: 0, pushed: 0, conflicts: 0 }
     }
 
     try {
@@ -478,75 +1042,45 @@ export async function forceReconcile(): Promise<{
             variant: 'info',
         })
 
-        // Step 1: Pull from D1
+        // Step 1: Full pull from D1 (local-only records get queued for push)
         const payload = await requestJson<BootstrapResponse>('/api/sync/bootstrap')
-        const remoteMovements = Array.isArray(payload.movements) ? payload.movements : []
-        const remoteAccounts = Array.isArray(payload.accounts) ? payload.accounts : []
-        const remoteInstruments = Array.isArray(payload.instruments) ? payload.instruments : []
-        const remoteMovementIds = new Set(remoteMovements.map(m => m.id))
-
-        // Apply remote data locally (same logic as bootstrap)
-        await db.transaction('rw', [db.accounts, db.movements, db.instruments], async () => {
-            if (remoteAccounts.length > 0) await db.accounts.bulkPut(remoteAccounts)
-            if (remoteMovements.length > 0) {
-                const existingIds = new Set(
-                    (await db.movements.toCollection().primaryKeys()) as string[]
-                )
-                const newMovements = remoteMovements.filter(m => !existingIds.has(m.id))
-                if (newMovements.length > 0) {
-                    await db.movements.bulkAdd(newMovements)
-                }
-            }
-            if (remoteInstruments.length > 0) await db.instruments.bulkPut(remoteInstruments)
-        })
+        if (payload.degraded) {
+            throw new Error('Degraded bootstrap payload')
+        }
+        const pulledResult = await applyRemoteChanges(bootstrapToChanges(payload), true)
+        if (typeof payload.cursor === 'string') {
+            localStorage.setItem(SYNC_CURSOR_KEY, payload.cursor)
+        }
 
         // Apply remote preferences (LWW)
         restorePreferencesFromRemote(payload.preferences, payload.preferencesUpdatedAt)
 
-        // Step 2: Push local-only data to D1
-        const allLocalMovements = await db.movements.toArray()
-        const localOnlyMovements = allLocalMovements.filter(m => !remoteMovementIds.has(m.id))
-        const allLocalAccounts = await db.accounts.toArray()
-        const allLocalInstruments = await db.instruments.toArray()
-        const prefsPayload = collectLocalPreferences()
-
+        // Step 2: Push pending local writes to D1
         emitSyncStatus({
             title: 'Sincronizando...',
             description: 'Subiendo datos locales...',
             variant: 'info',
         })
 
-        await requestJson('/api/sync/push', {
-            method: 'POST',
-            body: toJsonBody({
-                version: 1,
-                exportedAtISO: new Date().toISOString(),
-                data: {
-                    accounts: allLocalAccounts,
-                    instruments: allLocalInstruments,
-                    movements: localOnlyMovements,
-                    snapshots: [],
-                    manualPrices: [],
-                    preferences: prefsPayload,
-                },
-            }),
-        })
+        const pushedResult = await pushPendingChanges(collectLocalPreferences())
 
         localStorage.setItem(LAST_SYNC_KEY, new Date().toISOString())
 
-        const pulled = remoteMovements.length
-        const pushed = localOnlyMovements.length
+        const pulled = pulledResult.applied
+        const pushed = pushedResult.pushed
+        const conflicts = pulledResult.conflicts + pushedResult.conflicts
 
         emitSyncStatus({
             title: 'Sincronización completa',
-            description: `${pulled} remotos procesados, ${pushed} locales enviados.`,
-            variant: 'success',
+            description: `${pulled} remotos aplicados, ${pushed} locales enviados` +
+                (conflicts > 0 ? `, ${conflicts} conflicto(s) para revisar.` : '.'),
+            variant: conflicts > 0 ? 'info' : 'success',
         })
 
-        return { ok: true, pulled, pushed }
+        return { ok: true, pulled, pushed, conflicts }
     } catch (error) {
         handleRemoteSyncError(error)
-        return { ok: false, pulled: 0, pushed: 0 }
+        return { ok: false, pulled: 0, pushed: 0, conflicts: 0 }
     }
 }
 
@@ -657,7 +1191,7 @@ export async function syncPushSnapshots(snapshots: Snapshot[]): Promise<void> {
 export async function syncRemoteMovementCreate(movement: Movement): Promise<void> {
     if (!isRemoteSyncEnabled()) return
     try {
-        await requestJson('/api/movements', {
+        await sendVersionedWrite('movements', movement.id, movement, '/api/movements', {
             method: 'POST',
             body: toJsonBody(movement),
         })
@@ -670,7 +1204,7 @@ export async function syncRemoteMovementCreate(movement: Movement): Promise<void
 export async function syncRemoteMovementUpdate(movement: Movement): Promise<void> {
     if (!isRemoteSyncEnabled()) return
     try {
-        await requestJson('/api/movements', {
+        await sendVersionedWrite('movements', movement.id, movement, '/api/movements', {
             method: 'PUT',
             body: toJsonBody(movement),
         })
@@ -683,7 +1217,7 @@ export async function syncRemoteMovementUpdate(movement: Movement): Promise<void
 export async function syncRemoteMovementDelete(id: string): Promise<void> {
     if (!isRemoteSyncEnabled()) return
     try {
-        await requestJson(`/api/movements?id=${encodeURIComponent(id)}`, {
+        await sendVersionedWrite('movements', id, null, `/api/movements?id=${encodeURIComponent(id)}`, {
             method: 'DELETE',
         })
     } catch (error) {
@@ -695,7 +1229,7 @@ export async function syncRemoteMovementDelete(id: string): Promise<void> {
 export async function syncRemoteAccountCreate(account: Account): Promise<void> {
     if (!isRemoteSyncEnabled()) return
     try {
-        await requestJson('/api/accounts', {
+        await sendVersionedWrite('accounts', account.id, account, '/api/accounts', {
             method: 'POST',
             body: toJsonBody(account),
         })
@@ -708,7 +1242,7 @@ export async function syncRemoteAccountCreate(account: Account): Promise<void> {
 export async function syncRemoteAccountUpdate(account: Account): Promise<void> {
     if (!isRemoteSyncEnabled()) return
     try {
-        await requestJson('/api/accounts', {
+        await sendVersionedWrite('accounts', account.id, account, '/api/accounts', {
             method: 'PUT',
             body: toJsonBody(account),
         })
@@ -721,7 +1255,7 @@ export async function syncRemoteAccountUpdate(account: Account): Promise<void> {
 export async function syncRemoteAccountDelete(id: string): Promise<void> {
     if (!isRemoteSyncEnabled()) return
     try {
-        await requestJson(`/api/accounts?id=${encodeURIComponent(id)}`, {
+        await sendVersionedWrite('accounts', id, null, `/api/accounts?id=${encodeURIComponent(id)}`, {
             method: 'DELETE',
         })
     } catch (error) {
@@ -742,14 +1276,23 @@ export async function syncMovementsBatch(
     if (!isRemoteSyncEnabled()) return { ok: true, failedCount: 0 }
     if (movements.length === 0) return { ok: true, failedCount: 0 }
 
+    const ids = movements.map(m => m.id)
     const token = readSyncToken()
     if (token.length === 0) {
         console.log('[movements-batch-sync] skip: no sync token')
+        await markPendingWrites('movements', ids)
         return { ok: false, failedCount: movements.length }
     }
 
     try {
-        await requestJson('/api/sync/push', {
+        await flushTrackedWrites()
+        const metas = await db.syncMeta.bulkGet(ids.map(id => syncMetaKey('movements', id)))
+        const baseVersions: Record<string, number> = {}
+        metas.forEach((meta, index) => {
+            if (meta && meta.version > 0) baseVersions[ids[index]] = meta.version
+        })
+
+        const response = await requestJson<PushResponse>('/api/sync/push', {
             method: 'POST',
             body: toJsonBody({
                 version: 1,
@@ -761,13 +1304,19 @@ export async function syncMovementsBatch(
                     snapshots: [],
                     manualPrices: [],
                     preferences: {},
+                    baseVersions: { movements: baseVersions },
                 },
             }),
         })
-        console.log('[movements-batch-sync] pushed', { count: movements.length })
-        return { ok: true, failedCount: 0 }
+        const conflicts = await applyPushResult(
+            ids.map(id => ({ entity: 'movements' as const, id, deleted: false })),
+            response
+        )
+        console.log('[movements-batch-sync] pushed', { count: movements.length, conflicts })
+        return { ok: conflicts === 0, failedCount: conflicts }
     } catch (error) {
         console.warn('[movements-batch-sync] push failed', error)
+        await markPendingWrites('movements', ids)
         handleRemoteSyncError(error)
         return { ok: false, failedCount: movements.length }
     }
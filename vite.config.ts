@@ -55,6 +55,27 @@ function devApiMiddleware(): Plugin {
                         return
                     }
 
+                    // /api/market/indicator-history
+                    if (req.url && req.url.startsWith('/api/market/indicator-history')) {
+                        const { fetchIndicatorHistory, INDICATOR_HISTORY_IDS } = await import('./src/server/market/indicatorsProvider')
+                        const url = new URL(req.url, 'http://localhost')
+                        const id = url.searchParams.get('id') as (typeof INDICATOR_HISTORY_IDS)[number] | null
+                        const from = url.searchParams.get('from') ?? ''
+                        const to = url.searchParams.get('to') ?? new Date().toISOString().slice(0, 10)
+
+                        res.setHeader('Content-Type', 'application/json')
+                        if (!id || !INDICATOR_HISTORY_IDS.includes(id) || !from) {
+                            res.statusCode = 400
+                            res.end(JSON.stringify({ error: 'Missing or invalid id/from' }))
+                            return
+                        }
+
+                        const data = await fetchIndicatorHistory(id, from, to)
+                        res.setHeader('Access-Control-Allow-Origin', '*')
+                        res.end(JSON.stringify(data))
+                        return
+                    }
+
                     // /api/cedears/prices (legacy endpoint)
                     if (req.url && req.url.startsWith('/api/cedears/prices')) {
                         const { fetchPpiCedears } = await import('./src/server/market/ppiCedearsProvider')